@@ -138,6 +138,7 @@ import RiskScoreConfigurationPage from "@/pages/risk-score-configuration-page";
 // Claims management pages
 import ClaimsPage from "@/pages/claims";
 import ClaimDetailsPage from "@/pages/claims/[id]";
+import ClaimDisputePage from "@/pages/claims/dispute/[id]";
 
 
 
@@ -369,6 +370,28 @@ function Router(): JSX.Element {
           )} 
         />
         
+        <ProtectedRoute 
+          path="/claims/:id/dispute" 
+          component={() => (
+            <ProtectedLayout>
+              <OnboardingWrapper>
+                <ClaimDisputePage />
+              </OnboardingWrapper>
+            </ProtectedLayout>
+          )} 
+        />
+
+        <ProtectedRoute 
+          path="/claims/:id/resolve" 
+          component={() => (
+            <ProtectedLayout>
+              <OnboardingWrapper>
+                <ClaimDisputePage />
+              </OnboardingWrapper>
+            </ProtectedLayout>
+          )} 
+        />
+
         <ProtectedRoute 
           path="/claims/:claimId" 
           component={({ params }: { params: { claimId: string } }) => {
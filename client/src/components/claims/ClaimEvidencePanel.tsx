@@ -0,0 +1,267 @@
+/**
+ * Claim Evidence Panel
+ *
+ * Lists the vault files attached to a claim as evidence, with the SHA-256
+ * hash captured when each was attached, and lets either party attach more
+ * while the claim is open. Attached evidence cannot be removed. The whole
+ * claim can be exported as a zip with a manifest of hashes.
+ */
+
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Download, Eye, FileArchive, Paperclip, ShieldCheck } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+
+interface ClaimEvidence {
+  id: number;
+  target: 'claim' | 'breach' | 'dispute';
+  dispute_id: number | null;
+  file_name: string;
+  file_type: string;
+  file_size: number;
+  sha256: string;
+  description: string | null;
+  created_at: string;
+}
+
+interface EvidenceAccessEntry {
+  id: number;
+  evidence_id: number | null;
+  action: 'attach' | 'view' | 'download' | 'export';
+  user_name: string | null;
+  company_name: string | null;
+  created_at: string;
+}
+
+interface VaultFile {
+  id: number;
+  name: string;
+}
+
+interface ClaimEvidencePanelProps {
+  claimId: number;
+  isResolved: boolean;
+  disputes: Array<{ id: number; dispute_reason: string | null }>;
+}
+
+const TARGET_LABELS: Record<ClaimEvidence['target'], string> = {
+  claim: 'Claim',
+  breach: 'Breach',
+  dispute: 'Dispute'
+};
+
+// Content types the server opens in the browser; other evidence can only be downloaded
+const INLINE_EVIDENCE_TYPES = ['application/pdf', 'image/png', 'image/jpeg'];
+
+export function ClaimEvidencePanel({ claimId, isResolved, disputes }: ClaimEvidencePanelProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [fileId, setFileId] = useState('');
+  const [target, setTarget] = useState<string>('claim');
+  const [description, setDescription] = useState('');
+
+  const { data: evidence = [] } = useQuery<ClaimEvidence[]>({
+    queryKey: [`/api/claims/${claimId}/evidence`],
+  });
+
+  const { data: accessLog = [] } = useQuery<EvidenceAccessEntry[]>({
+    queryKey: [`/api/claims/${claimId}/evidence/log`],
+  });
+
+  const { data: vaultFiles } = useQuery<{ data: VaultFile[] }>({
+    queryKey: [`/api/files?company_id=${user?.company_id}&pageSize=100`],
+    enabled: !!user?.company_id && !isResolved,
+  });
+
+  const attachMutation = useMutation({
+    mutationFn: async () => {
+      const [targetType, disputeId] = target.split(':');
+      return apiRequest<ClaimEvidence>('POST', `/api/claims/${claimId}/evidence`, {
+        fileId: parseInt(fileId, 10),
+        target: targetType,
+        disputeId: disputeId ? parseInt(disputeId, 10) : null,
+        description: description || null
+      });
+    },
+    onSuccess: () => {
+      setFileId('');
+      setDescription('');
+      queryClient.invalidateQueries({ queryKey: [`/api/claims/${claimId}/evidence`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/claims/${claimId}/evidence/log`] });
+      toast({
+        title: "Evidence attached",
+        description: "The file's hash has been recorded with the claim.",
+        variant: "success",
+      });
+    },
+    onError: (error: Error) => {
+      let message = error.message;
+      try {
+        message = JSON.parse(error.message).message || message;
+      } catch {
+        // Not a JSON error body
+      }
+      toast({
+        title: "Could not attach evidence",
+        description: message,
+        variant: "destructive",
+      });
+    }
+  });
+
+  const formatDateTime = (value: string) => format(new Date(value), 'MMM dd, yyyy HH:mm');
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle>Evidence</CardTitle>
+            <CardDescription>
+              Files attached to this claim. Attached evidence cannot be changed or removed.
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" asChild>
+            <a href={`/api/claims/${claimId}/export`}>
+              <FileArchive className="mr-2 h-4 w-4" />
+              Export Claim
+            </a>
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {evidence.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No evidence attached</p>
+          ) : (
+            <div className="text-sm border rounded-md divide-y">
+              {evidence.map(item => (
+                <div key={item.id} className="flex items-center justify-between gap-4 p-3">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium truncate">{item.file_name}</span>
+                      <Badge variant="outline">
+                        {TARGET_LABELS[item.target]}{item.dispute_id ? ` #${item.dispute_id}` : ''}
+                      </Badge>
+                    </div>
+                    {item.description && <p className="text-muted-foreground mt-1">{item.description}</p>}
+                    <p className="flex items-center text-xs text-muted-foreground mt-1 font-mono" title={item.sha256}>
+                      <ShieldCheck className="mr-1 h-3 w-3" />
+                      SHA-256 {item.sha256.slice(0, 16)}… · attached {formatDateTime(item.created_at)}
+                    </p>
+                  </div>
+                  <div className="flex items-center">
+                    {INLINE_EVIDENCE_TYPES.includes(item.file_type) && (
+                      <Button variant="ghost" size="sm" asChild>
+                        <a
+                          href={`/api/claims/${claimId}/evidence/${item.id}/download?inline=true`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          title="Open"
+                        >
+                          <Eye className="h-4 w-4" />
+                        </a>
+                      </Button>
+                    )}
+                    <Button variant="ghost" size="sm" asChild>
+                      <a href={`/api/claims/${claimId}/evidence/${item.id}/download`} title="Download">
+                        <Download className="h-4 w-4" />
+                      </a>
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {!isResolved && (
+            <div className="grid grid-cols-1 md:grid-cols-[2fr_1fr] gap-3 pt-2">
+              <Select value={fileId} onValueChange={setFileId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a file from the vault" />
+                </SelectTrigger>
+                <SelectContent>
+                  {(vaultFiles?.data || []).map(file => (
+                    <SelectItem key={file.id} value={String(file.id)}>{file.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={target} onValueChange={setTarget}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="claim">Claim</SelectItem>
+                  <SelectItem value="breach">Breach</SelectItem>
+                  {disputes.map(dispute => (
+                    <SelectItem key={dispute.id} value={`dispute:${dispute.id}`}>
+                      Dispute #{dispute.id}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                placeholder="Description (optional)"
+                value={description}
+                onChange={event => setDescription(event.target.value)}
+              />
+              <Button
+                onClick={() => attachMutation.mutate()}
+                disabled={!fileId || attachMutation.isPending}
+              >
+                <Paperclip className="mr-2 h-4 w-4" />
+                {attachMutation.isPending ? 'Attaching...' : 'Attach Evidence'}
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Chain of Custody</CardTitle>
+          <CardDescription>Every attach, opening, download and export of this claim's evidence</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {accessLog.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No evidence activity recorded</p>
+          ) : (
+            <div className="text-sm border rounded-md divide-y">
+              {accessLog.map(entry => (
+                <div key={entry.id} className="grid grid-cols-4 p-3">
+                  <div>{formatDateTime(entry.created_at)}</div>
+                  <div>{entry.user_name || 'Unknown user'}</div>
+                  <div>{entry.company_name || '—'}</div>
+                  <div className="capitalize">
+                    {entry.action}
+                    {entry.evidence_id && <span className="text-muted-foreground"> · evidence #{entry.evidence_id}</span>}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
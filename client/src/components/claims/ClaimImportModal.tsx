@@ -0,0 +1,242 @@
+/**
+ * Claim Import Modal
+ *
+ * Imports a bank's CSV batch of claims. The file is first previewed with a
+ * dry run that reports, row by row, what would be created and why any row
+ * would be rejected; the valid rows are then imported together.
+ */
+
+import { useState } from 'react';
+import { Upload } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+
+interface ImportRowResult {
+  row: number;
+  status: 'valid' | 'created' | 'error';
+  errors: string[];
+  claim?: {
+    claimId: string;
+    bankName: string;
+    fintechName: string;
+    claimAmount: number;
+    policyNumber: string | null;
+  };
+}
+
+interface ImportResult {
+  dryRun: boolean;
+  totalRows: number;
+  validRows: number;
+  errorRows: number;
+  created: number;
+  unmappedColumns: string[];
+  rows: ImportRowResult[];
+}
+
+interface ClaimImportModalProps {
+  open: boolean;
+  onClose: () => void;
+  onImported: (created: number) => void;
+}
+
+const STATUS_BADGES: Record<ImportRowResult['status'], string> = {
+  valid: 'bg-blue-50 text-blue-600 border-blue-200',
+  created: 'bg-green-50 text-green-600 border-green-200',
+  error: 'bg-red-50 text-red-600 border-red-200'
+};
+
+export default function ClaimImportModal({ open, onClose, onImported }: ClaimImportModalProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<ImportResult | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  const reset = () => {
+    setFile(null);
+    setPreview(null);
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const upload = async (dryRun: boolean): Promise<ImportResult | null> => {
+    if (!file) return null;
+
+    const formData = new FormData();
+    formData.append('file', file);
+
+    setIsSubmitting(true);
+    try {
+      const response = await fetch(`/api/claims/import?dryRun=${dryRun}`, {
+        method: 'POST',
+        headers: { 'Accept': 'application/json' },
+        credentials: 'include',
+        body: formData
+      });
+      const body = await response.json();
+
+      if (!response.ok) {
+        toast({
+          title: 'Import failed',
+          description: body?.message || 'The file could not be imported.',
+          variant: 'destructive',
+        });
+        return null;
+      }
+
+      return body as ImportResult;
+    } catch (error) {
+      console.error('Error importing claims:', error);
+      toast({
+        title: 'Import failed',
+        description: 'There was an error uploading the file. Please try again.',
+        variant: 'destructive',
+      });
+      return null;
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handlePreview = async () => {
+    setPreview(await upload(true));
+  };
+
+  const handleImport = async () => {
+    const result = await upload(false);
+    if (!result) return;
+
+    if (result.created === 0) {
+      setPreview(result);
+      return;
+    }
+
+    reset();
+    onImported(result.created);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-[900px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Claims</DialogTitle>
+          <DialogDescription>
+            Upload a CSV of claims with their breach details. Bank and FinTech names are matched
+            against the company registry. Preview the import to see what will be created.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <Input
+            type="file"
+            accept=".csv,text/csv"
+            onChange={event => {
+              setFile(event.target.files?.[0] ?? null);
+              setPreview(null);
+            }}
+          />
+
+          {preview && (
+            <div className="space-y-3">
+              <div className="flex flex-wrap gap-2 text-sm">
+                <Badge variant="outline">{preview.totalRows} rows</Badge>
+                <Badge variant="outline" className={STATUS_BADGES.valid}>{preview.validRows} valid</Badge>
+                <Badge variant="outline" className={STATUS_BADGES.error}>{preview.errorRows} with errors</Badge>
+              </div>
+              {preview.unmappedColumns.length > 0 && (
+                <p className="text-sm text-muted-foreground">
+                  Ignored columns: {preview.unmappedColumns.join(', ')}
+                </p>
+              )}
+              <div className="border rounded-md">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-[60px]">Row</TableHead>
+                      <TableHead className="w-[90px]">Status</TableHead>
+                      <TableHead>Claim</TableHead>
+                      <TableHead>Details</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.rows.map(row => (
+                      <TableRow key={row.row}>
+                        <TableCell>{row.row}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline" className={STATUS_BADGES[row.status]}>
+                            {row.status === 'valid' ? 'Valid' : row.status === 'created' ? 'Created' : 'Error'}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>
+                          {row.claim ? (
+                            <div>
+                              <p className="font-medium">{row.claim.claimId}</p>
+                              <p className="text-xs text-muted-foreground">
+                                {row.claim.bankName} → {row.claim.fintechName}
+                              </p>
+                            </div>
+                          ) : '—'}
+                        </TableCell>
+                        <TableCell>
+                          {row.errors.length > 0 ? (
+                            <ul className="text-sm text-red-600 list-disc pl-4">
+                              {row.errors.map(error => <li key={error}>{error}</li>)}
+                            </ul>
+                          ) : row.claim ? (
+                            <span className="text-sm">
+                              ${row.claim.claimAmount.toLocaleString(undefined, { minimumFractionDigits: 2 })}
+                              {row.claim.policyNumber && ` · policy ${row.claim.policyNumber}`}
+                            </span>
+                          ) : null}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+              {preview.dryRun && (
+                <p className="text-xs text-muted-foreground">
+                  Claim numbers in the preview are provisional and are assigned when the claims are imported.
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleClose} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button variant="outline" onClick={handlePreview} disabled={!file || isSubmitting}>
+            Preview
+          </Button>
+          <Button onClick={handleImport} disabled={!preview || preview.validRows === 0 || isSubmitting}>
+            <Upload className="mr-2 h-4 w-4" />
+            {isSubmitting ? 'Importing...' : `Import ${preview?.validRows ?? 0} Claims`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,4 +1,5 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useQuery } from '@tanstack/react-query';
 import { Skeleton } from '@/components/ui/skeleton';
 import { ChartErrorBoundary } from '@/components/ui/chart-error-boundary';
 import { ResponsiveChartWrapper, getResponsiveChartConfig } from '@/components/ui/responsive-chart-wrapper';
@@ -45,42 +46,65 @@ const getNodeColor = (type: ProcessNode['type']): { fill: string; stroke: string
   }
 };
 
-// Helper function to prepare claims process data
-function prepareClaimsProcessData(): ProcessFlowData {
-  // This would ideally come from an API
-  const nodes: ProcessNode[] = [
-    { id: 'breach', name: 'Data Breach', type: 'breach', description: 'Detection of PII data loss incident' },
-    { id: 'bank_assessment', name: 'Bank Assessment', type: 'bank', description: 'Initial evaluation by the bank' },
-    { id: 'fintech_notification', name: 'FinTech Notification', type: 'fintech', description: 'Notification sent to affected FinTech partners' },
-    { id: 'dispute_assessment', name: 'Dispute?', type: 'decision', description: 'Is the claim disputed by any party?' },
-    { id: 'process_claim', name: 'Process Claim', type: 'process', description: 'Standard claim processing procedure' },
-    { id: 'documentation', name: 'Documentation Review', type: 'process', description: 'Review of all supporting documentation' },
-    { id: 'valid_dispute', name: 'Valid Dispute?', type: 'decision', description: 'Is the dispute valid based on documentation?' },
-    { id: 'fintech_resolution', name: 'FinTech Resolution', type: 'fintech', description: 'Resolution steps taken by FinTech' },
-    { id: 'bank_review', name: 'Bank Final Review', type: 'bank', description: 'Final review by the bank' },
-    { id: 'resolution', name: 'Claim Resolution', type: 'end', description: 'Final resolution of the claim' }
-  ];
-  
-  const connections: ProcessConnection[] = [
-    { source: 'breach', target: 'bank_assessment' },
-    { source: 'breach', target: 'fintech_notification' },
-    { source: 'bank_assessment', target: 'dispute_assessment' },
-    { source: 'fintech_notification', target: 'dispute_assessment' },
-    { source: 'dispute_assessment', target: 'process_claim', label: 'No' },
-    { source: 'process_claim', target: 'resolution' },
-    { source: 'dispute_assessment', target: 'documentation', label: 'Yes' },
-    { source: 'documentation', target: 'valid_dispute' },
-    { source: 'valid_dispute', target: 'fintech_resolution', label: 'Yes' },
-    { source: 'fintech_resolution', target: 'bank_review' },
-    { source: 'bank_review', target: 'resolution' },
-    { source: 'valid_dispute', target: 'resolution', label: 'No' }
-  ];
-  
-  return { nodes, connections };
+// Status transition as recorded in claim status history; a null from_status is the filing
+interface StatusTransition {
+  from_status: string | null;
+  to_status: string;
+  count?: number;
+  created_at?: string;
+}
+
+// How each claim status is drawn, and the start node every claim's history begins from
+const FILED_NODE: ProcessNode = { id: 'filed', name: 'Claim Filed', type: 'start', description: 'Claim submitted by the bank' };
+
+const STATUS_NODES: Record<string, Omit<ProcessNode, 'id'>> = {
+  in_review: { name: 'In Review', type: 'bank', description: 'Initial assessment of the claim' },
+  processing: { name: 'Processing', type: 'process', description: 'Claim is being processed' },
+  pending_info: { name: 'Pending Info', type: 'fintech', description: 'Waiting on more information' },
+  under_review: { name: 'Under Review', type: 'process', description: 'Detailed or dispute review' },
+  escalated: { name: 'Escalated', type: 'decision', description: 'Escalated for a decision' },
+  approved: { name: 'Approved', type: 'end', description: 'Claim paid in full' },
+  partially_approved: { name: 'Partially Approved', type: 'end', description: 'Claim partially paid' },
+  denied: { name: 'Denied', type: 'breach', description: 'Claim denied' }
+};
+
+const statusNode = (status: string): ProcessNode => ({
+  id: status,
+  ...(STATUS_NODES[status] || { name: status.replace(/_/g, ' '), type: 'process' })
+});
+
+// Builds the flow from recorded transitions: one node per status reached and
+// one connection per transition taken, labelled with how often it was taken
+// across claims, or when it happened for a single claim
+function buildFlowFromTransitions(transitions: StatusTransition[], singleClaim: boolean): ProcessFlowData {
+  const nodes = new Map<string, ProcessNode>();
+  const connections = new Map<string, ProcessConnection & { count: number }>();
+
+  transitions.forEach(transition => {
+    const source = transition.from_status ? statusNode(transition.from_status) : FILED_NODE;
+    const target = statusNode(transition.to_status);
+    nodes.set(source.id, source);
+    nodes.set(target.id, target);
+
+    const key = `${source.id}->${target.id}`;
+    const existing = connections.get(key);
+    const count = (existing?.count || 0) + (transition.count ?? 1);
+    const label = singleClaim
+      ? (transition.created_at ? new Date(transition.created_at).toLocaleDateString() : undefined)
+      : String(count);
+
+    connections.set(key, { source: source.id, target: target.id, label, count });
+  });
+
+  return {
+    nodes: Array.from(nodes.values()),
+    connections: Array.from(connections.values()).map(({ source, target, label }) => ({ source, target, label }))
+  };
 }
 
 interface ClaimsProcessFlowChartProps {
   className?: string;
+  claimId?: number | string;
   width?: number;
   height?: number;
 }
@@ -88,22 +112,21 @@ interface ClaimsProcessFlowChartProps {
 // Internal component that handles the actual D3 rendering
 function ClaimsProcessFlowChartInternal({ 
   className, 
+  claimId,
   width = 800, 
   height = 500 
 }: ClaimsProcessFlowChartProps) {
-  const [loading, setLoading] = useState(true);
-  const [flowData, setFlowData] = useState<ProcessFlowData | null>(null);
   const svgRef = useRef<SVGSVGElement>(null);
   
-  // Load the data
-  useEffect(() => {
-    const timer = setTimeout(() => {
-      setFlowData(prepareClaimsProcessData());
-      setLoading(false);
-    }, 500);
-    
-    return () => clearTimeout(timer);
-  }, []);
+  // A single claim renders its own status history; otherwise the transitions of every visible claim
+  const { data: transitions, isLoading: loading, isError } = useQuery<StatusTransition[]>({
+    queryKey: [claimId !== undefined ? `/api/claims/${claimId}/history` : '/api/claims/status-flow']
+  });
+  
+  const flowData = useMemo(
+    () => transitions ? buildFlowFromTransitions(transitions, claimId !== undefined) : null,
+    [transitions, claimId]
+  );
 
   // Calculate responsive node sizes based on available space
   const config = getResponsiveChartConfig(width);
@@ -750,7 +773,7 @@ function ClaimsProcessFlowChartInternal({
     );
   }
   
-  if (!flowData) {
+  if (isError || !flowData) {
     return (
       <div className="flex flex-col items-center justify-center h-full py-8">
         <div className="text-center">
@@ -760,6 +783,14 @@ function ClaimsProcessFlowChartInternal({
     );
   }
   
+  if (flowData.nodes.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center h-full py-8">
+        <p className="text-muted-foreground">No claim status changes have been recorded yet</p>
+      </div>
+    );
+  }
+  
   return (
     <div className={`w-full h-full p-2 ${className || ''}`}>
       <div className="relative w-full overflow-hidden border rounded-md" style={{ height }}>
@@ -776,26 +807,34 @@ function ClaimsProcessFlowChartInternal({
       
       <div className="mt-6">
         <h4 className="text-sm font-semibold mb-2">Legend</h4>
-        <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
           <div className="flex items-center">
-            <div className="w-4 h-4 bg-red-100 border border-red-300 rounded mr-2"></div>
-            <span className="text-xs">Data Breach</span>
+            <div className="w-4 h-4 bg-indigo-100 border border-indigo-300 rounded mr-2"></div>
+            <span className="text-xs">Filed</span>
           </div>
           <div className="flex items-center">
             <div className="w-4 h-4 bg-blue-100 border border-blue-300 rounded mr-2"></div>
-            <span className="text-xs">Data Provider Actions</span>
+            <span className="text-xs">Bank Assessment</span>
+          </div>
+          <div className="flex items-center">
+            <div className="w-4 h-4 bg-green-100 border border-green-300 rounded mr-2"></div>
+            <span className="text-xs">Processing & Review</span>
           </div>
           <div className="flex items-center">
             <div className="w-4 h-4 bg-purple-100 border border-purple-300 rounded mr-2"></div>
-            <span className="text-xs">Data Recipient Actions</span>
+            <span className="text-xs">Awaiting Information</span>
           </div>
           <div className="flex items-center">
             <div className="w-4 h-4 bg-yellow-100 border border-yellow-300 rounded mr-2"></div>
-            <span className="text-xs">Decision Points</span>
+            <span className="text-xs">Escalation</span>
           </div>
           <div className="flex items-center">
-            <div className="w-4 h-4 bg-green-100 border border-green-300 rounded mr-2"></div>
-            <span className="text-xs">Processes</span>
+            <div className="w-4 h-4 bg-red-100 border border-red-300 rounded mr-2"></div>
+            <span className="text-xs">Denied</span>
+          </div>
+          <div className="flex items-center">
+            <div className="w-4 h-4 bg-slate-200 border border-slate-400 rounded mr-2"></div>
+            <span className="text-xs">Approved</span>
           </div>
         </div>
       </div>
@@ -804,7 +843,7 @@ function ClaimsProcessFlowChartInternal({
 }
 
 // Main exported component with responsive wrapper and error boundary
-export function ClaimsProcessFlowChart({ className }: { className?: string }) {
+export function ClaimsProcessFlowChart({ className, claimId }: { className?: string; claimId?: number | string }) {
   return (
     <ChartErrorBoundary chartName="Claims Process Flow Chart">
       <ResponsiveChartWrapper
@@ -815,6 +854,7 @@ export function ClaimsProcessFlowChart({ className }: { className?: string }) {
       >
         {({ width, height }) => (
           <ClaimsProcessFlowChartInternal 
+            claimId={claimId}
             width={width} 
             height={height} 
             className={className} 
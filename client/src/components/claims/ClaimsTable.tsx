@@ -45,6 +45,11 @@ interface Claim {
   is_resolved: boolean;
   dispute?: any;
   resolution?: any;
+  notification_sla?: {
+    status: 'met' | 'late' | 'pending' | 'overdue' | 'unknown';
+    slaHours: number;
+    hoursLate: number | null;
+  };
 }
 
 interface ClaimsTableProps {
@@ -142,6 +147,22 @@ export default function ClaimsTable({ claims, type, onRefresh }: ClaimsTableProp
     }
   };
 
+  // Flags breaches reported after the notification deadline, or not reported and past it
+  const getNotificationFlag = (claim: Claim) => {
+    const sla = claim.notification_sla;
+    if (!sla || (sla.status !== 'late' && sla.status !== 'overdue')) return null;
+
+    return (
+      <Badge
+        variant="outline"
+        className="ml-2 bg-red-50 text-red-600 border-red-200"
+        title={`${sla.hoursLate ?? 0}h past the ${sla.slaHours}h notification deadline`}
+      >
+        {sla.status === 'late' ? 'Late notice' : 'Notice overdue'}
+      </Badge>
+    );
+  };
+
   const getTypeIcon = () => {
     switch (type) {
       case 'active':
@@ -214,7 +235,7 @@ export default function ClaimsTable({ claims, type, onRefresh }: ClaimsTableProp
                   <TableCell>{claim.fintech_name}</TableCell>
                   <TableCell>{formatDate(claim.claim_date)}</TableCell>
                   <TableCell className="text-right">{formatCurrency(claim.claim_amount)}</TableCell>
-                  <TableCell>{getStatusBadge(claim.status)}</TableCell>
+                  <TableCell>{getStatusBadge(claim.status)}{getNotificationFlag(claim)}</TableCell>
                   <TableCell className="text-right pr-4 action-cell">
                     <DropdownMenu>
                       <DropdownMenuTrigger asChild>
@@ -42,7 +42,15 @@ const formSchema = z.object({
   accountNumber: z.string().optional(),
   claimDate: z.date({ required_error: 'Claim date is required' }),
   policyNumber: z.string().optional(),
+  // Only used when no policy covers the claim; covered claims are priced from their affected records
+  claimAmount: z.preprocess(
+    value => (value === '' ? undefined : value),
+    z.coerce.number().positive({ message: 'Claim amount must be positive' }).optional()
+  ),
   breachDate: z.date({ required_error: 'Breach date is required' }),
+  // Times matter for the breach notification deadline, which runs in hours from discovery
+  breachDiscoveredDate: z.string().optional(),
+  breachReportedDate: z.string().optional(),
   consentId: z.string().optional(),
   consentScope: z.string().optional(),
   affectedRecords: z.coerce.number().optional(),
@@ -70,7 +78,10 @@ export default function NewClaimModal({ open, onClose, onClaimCreated }: NewClai
       accountNumber: '',
       claimDate: new Date(),
       policyNumber: '',
+      claimAmount: undefined,
       breachDate: new Date(),
+      breachDiscoveredDate: '',
+      breachReportedDate: '',
       consentId: '',
       consentScope: '',
       affectedRecords: 0,
@@ -81,16 +92,28 @@ export default function NewClaimModal({ open, onClose, onClaimCreated }: NewClai
   const onSubmit = async (data: FormValues) => {
     setIsSubmitting(true);
     try {
-      await apiRequest('/api/claims', {
-        method: 'POST',
-        data,
+      await apiRequest('POST', '/api/claims', {
+        ...data,
+        breachDiscoveredDate: data.breachDiscoveredDate ? new Date(data.breachDiscoveredDate) : null,
+        breachReportedDate: data.breachReportedDate ? new Date(data.breachReportedDate) : null,
       });
+      form.reset();
       onClaimCreated();
     } catch (error) {
       console.error('Error creating claim:', error);
+
+      // The API responds with { message, code }; surface its message when present
+      let description = 'There was an error creating your claim. Please try again.';
+      try {
+        const body = JSON.parse(error instanceof Error ? error.message : '');
+        if (body?.message) description = body.message;
+      } catch {
+        // Not a JSON error response, keep the generic message
+      }
+
       toast({
         title: 'Error creating claim',
-        description: 'There was an error creating your claim. Please try again.',
+        description,
         variant: 'destructive',
       });
     } finally {
@@ -231,6 +254,31 @@ export default function NewClaimModal({ open, onClose, onClaimCreated }: NewClai
                         <FormControl>
                           <Input placeholder="POL-2025-12345" {...field} />
                         </FormControl>
+                        <FormDescription>
+                          Defaults to the policy covering this FinTech on the breach date
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="claimAmount"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Claim Amount</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            step="0.01"
+                            placeholder="Calculated from the policy"
+                            {...field}
+                            value={field.value ?? ''}
+                          />
+                        </FormControl>
+                        <FormDescription>
+                          Required only when no policy covers the claim
+                        </FormDescription>
                         <FormMessage />
                       </FormItem>
                     )}
@@ -298,6 +346,36 @@ export default function NewClaimModal({ open, onClose, onClaimCreated }: NewClai
                   />
                 </div>
 
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="breachDiscoveredDate"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Discovered At (Optional)</FormLabel>
+                        <FormControl>
+                          <Input type="datetime-local" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="breachReportedDate"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Reported At (Optional)</FormLabel>
+                        <FormControl>
+                          <Input type="datetime-local" {...field} />
+                        </FormControl>
+                        <FormDescription>Checked against the breach notification deadline</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   <FormField
                     control={form.control}
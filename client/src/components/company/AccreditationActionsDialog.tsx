@@ -0,0 +1,204 @@
+/**
+ * AccreditationActionsDialog Component
+ *
+ * Lets a bank or Invela suspend, reinstate or revoke a data recipient's
+ * accreditation. Every change requires a reason code and a justification,
+ * which are recorded in the accreditation's audit trail.
+ */
+
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { ShieldAlert } from "lucide-react";
+
+export type AccreditationAction = 'suspend' | 'reinstate' | 'revoke';
+
+export const ACCREDITATION_REASON_CODES: Array<{ value: string; label: string }> = [
+  { value: 'breach_claim', label: 'Breach claim' },
+  { value: 'security_incident', label: 'Security incident' },
+  { value: 'compliance_violation', label: 'Compliance violation' },
+  { value: 'risk_deterioration', label: 'Risk deterioration' },
+  { value: 'fraud', label: 'Fraud' },
+  { value: 'regulatory_order', label: 'Regulatory order' },
+  { value: 'issue_remediated', label: 'Issue remediated' },
+  { value: 'condition_missed', label: 'Remediation condition missed' },
+  { value: 'other', label: 'Other' }
+];
+
+const ACTION_LABELS: Record<AccreditationAction, { title: string; description: string; confirm: string; done: string }> = {
+  suspend: {
+    title: 'Suspend Accreditation',
+    description: 'The company loses its accreditation until it is reinstated.',
+    confirm: 'Suspend',
+    done: 'Accreditation suspended'
+  },
+  reinstate: {
+    title: 'Reinstate Accreditation',
+    description: 'The suspended accreditation becomes active again until its original expiry date.',
+    confirm: 'Reinstate',
+    done: 'Accreditation reinstated'
+  },
+  revoke: {
+    title: 'Revoke Accreditation',
+    description: 'The accreditation is withdrawn permanently. The company must complete a new assessment to be accredited again.',
+    confirm: 'Revoke',
+    done: 'Accreditation revoked'
+  }
+};
+
+interface AccreditationActionsDialogProps {
+  companyId: number;
+  companyName: string;
+  accreditationStatus: string | undefined;
+}
+
+/**
+ * Accreditation actions available for a company's current status
+ */
+const getAvailableActions = (status: string | undefined): AccreditationAction[] => {
+  switch (status?.toUpperCase()) {
+    case 'APPROVED':
+      return ['suspend', 'revoke'];
+    case 'SUSPENDED':
+      return ['reinstate', 'revoke'];
+    default:
+      return [];
+  }
+};
+
+export function AccreditationActionsDialog({ companyId, companyName, accreditationStatus }: AccreditationActionsDialogProps) {
+  const [action, setAction] = useState<AccreditationAction | null>(null);
+  const [reasonCode, setReasonCode] = useState('');
+  const [justification, setJustification] = useState('');
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const availableActions = getAvailableActions(accreditationStatus);
+
+  const mutation = useMutation({
+    mutationFn: () => apiRequest('POST', `/api/accreditation/${companyId}/${action}`, { reasonCode, justification }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/companies/${companyId}/profile`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/companies/${companyId}/accreditation`] });
+      toast({ title: ACTION_LABELS[action!].done, description: companyName });
+      closeDialog();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not change accreditation", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const openDialog = (selected: AccreditationAction) => {
+    setAction(selected);
+    setReasonCode(selected === 'reinstate' ? 'issue_remediated' : '');
+    setJustification('');
+  };
+
+  const closeDialog = () => {
+    setAction(null);
+  };
+
+  if (availableActions.length === 0) {
+    return null;
+  }
+
+  const canSubmit = !!reasonCode && justification.trim().length >= 10 && !mutation.isPending;
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="h-16 flex items-center gap-2">
+            <ShieldAlert className="h-4 w-4" />
+            Manage
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          {availableActions.map(available => (
+            <DropdownMenuItem
+              key={available}
+              onSelect={() => openDialog(available)}
+              className={available === 'revoke' ? 'text-red-600' : undefined}
+            >
+              {ACTION_LABELS[available].title}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={action !== null} onOpenChange={open => !open && closeDialog()}>
+        {action && (
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>{ACTION_LABELS[action].title}: {companyName}</DialogTitle>
+              <DialogDescription>{ACTION_LABELS[action].description}</DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="accreditation-reason">Reason</Label>
+                <Select value={reasonCode} onValueChange={setReasonCode}>
+                  <SelectTrigger id="accreditation-reason">
+                    <SelectValue placeholder="Select a reason" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ACCREDITATION_REASON_CODES.map(reason => (
+                      <SelectItem key={reason.value} value={reason.value}>{reason.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="accreditation-justification">Justification</Label>
+                <Textarea
+                  id="accreditation-justification"
+                  value={justification}
+                  onChange={event => setJustification(event.target.value)}
+                  placeholder="Describe why the accreditation is changing"
+                  rows={4}
+                />
+                <p className="text-xs text-muted-foreground">At least 10 characters. Shared with the company.</p>
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button variant="outline" onClick={closeDialog}>Cancel</Button>
+              <Button
+                variant={action === 'reinstate' ? 'default' : 'destructive'}
+                onClick={() => mutation.mutate()}
+                disabled={!canSubmit}
+              >
+                {mutation.isPending ? 'Saving...' : ACTION_LABELS[action].confirm}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        )}
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,205 @@
+/**
+ * AccreditationComparisonPanel Component
+ *
+ * Compares two of a company's accreditations, by default the latest against
+ * the one before it, so annual renewals can be reviewed against last year:
+ * the risk score delta, per-cluster deltas, and the Open Banking answers
+ * that changed between the two submissions.
+ */
+
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { GitCompare, ArrowRight } from "lucide-react";
+
+interface AccreditationHistoryEntry {
+  id: number;
+  accreditation_number: number;
+  issued_date: string;
+  status: string;
+}
+
+interface ComparedAccreditation {
+  id: number;
+  accreditationNumber: number;
+  issuedDate: string;
+  riskScore: number | null;
+}
+
+interface AccreditationComparison {
+  from: ComparedAccreditation;
+  to: ComparedAccreditation;
+  scoreDelta: number | null;
+  clusters: Array<{ name: string; from: number | null; to: number | null; delta: number | null }>;
+  answers: {
+    available: boolean;
+    sameSubmission: boolean;
+    changes: Array<{
+      fieldKey: string;
+      displayName: string;
+      group: string;
+      change: 'changed' | 'added' | 'removed';
+      from: string | null;
+      to: string | null;
+    }>;
+    unchangedCount: number;
+  };
+}
+
+const CHANGE_BADGES: Record<'changed' | 'added' | 'removed', string> = {
+  changed: 'bg-blue-100 text-blue-800',
+  added: 'bg-green-100 text-green-800',
+  removed: 'bg-gray-200 text-gray-700'
+};
+
+const formatDelta = (delta: number | null) => {
+  if (delta === null) return '—';
+  if (delta === 0) return '0';
+  return delta > 0 ? `+${delta}` : String(delta);
+};
+
+const entryLabel = (entry: AccreditationHistoryEntry) =>
+  `#${entry.accreditation_number} · ${new Date(entry.issued_date).toLocaleDateString()} · ${entry.status}`;
+
+interface AccreditationComparisonPanelProps {
+  companyId: number;
+}
+
+export function AccreditationComparisonPanel({ companyId }: AccreditationComparisonPanelProps) {
+  const [fromId, setFromId] = useState<string>('');
+  const [toId, setToId] = useState<string>('');
+
+  const { data: history = [] } = useQuery<AccreditationHistoryEntry[]>({
+    queryKey: [`/api/accreditation/${companyId}/history`]
+  });
+
+  // Default to the latest accreditation against the one before it
+  useEffect(() => {
+    if (history.length >= 2 && !fromId && !toId) {
+      setToId(String(history[0].id));
+      setFromId(String(history[1].id));
+    }
+  }, [history, fromId, toId]);
+
+  const { data: comparison, isLoading } = useQuery<AccreditationComparison>({
+    queryKey: [`/api/accreditation/${companyId}/compare?from=${fromId}&to=${toId}`],
+    enabled: !!fromId && !!toId && fromId !== toId
+  });
+
+  if (history.length < 2) {
+    return null;
+  }
+
+  return (
+    <Card className="lg:col-span-2">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-base text-gray-900">
+          <GitCompare className="w-4 h-4 text-gray-600" />
+          Accreditation Comparison
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="pt-0 space-y-4">
+        <div className="flex items-center gap-2">
+          <Select value={fromId} onValueChange={setFromId}>
+            <SelectTrigger className="flex-1"><SelectValue placeholder="Baseline" /></SelectTrigger>
+            <SelectContent>
+              {history.map(entry => (
+                <SelectItem key={entry.id} value={String(entry.id)}>{entryLabel(entry)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <ArrowRight className="h-4 w-4 text-gray-400 shrink-0" />
+          <Select value={toId} onValueChange={setToId}>
+            <SelectTrigger className="flex-1"><SelectValue placeholder="Compare with" /></SelectTrigger>
+            <SelectContent>
+              {history.map(entry => (
+                <SelectItem key={entry.id} value={String(entry.id)}>{entryLabel(entry)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {fromId === toId && (
+          <p className="text-sm text-gray-500">Select two different accreditations to compare.</p>
+        )}
+
+        {isLoading && <p className="text-sm text-gray-500">Comparing accreditations...</p>}
+
+        {comparison && fromId !== toId && (
+          <>
+            <div className="flex items-center gap-3">
+              <span className="text-sm text-gray-500">Risk score</span>
+              <span className="text-lg font-bold text-gray-900">
+                {comparison.from.riskScore ?? '—'} → {comparison.to.riskScore ?? '—'}
+              </span>
+              <Badge variant="outline">{formatDelta(comparison.scoreDelta)}</Badge>
+            </div>
+
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b">
+                  <th className="py-1 font-medium">Cluster</th>
+                  <th className="py-1 font-medium text-right">#{comparison.from.accreditationNumber}</th>
+                  <th className="py-1 font-medium text-right">#{comparison.to.accreditationNumber}</th>
+                  <th className="py-1 font-medium text-right">Change</th>
+                </tr>
+              </thead>
+              <tbody>
+                {comparison.clusters.map(cluster => (
+                  <tr key={cluster.name} className="border-b last:border-0">
+                    <td className="py-1 text-gray-900">{cluster.name}</td>
+                    <td className="py-1 text-right">{cluster.from ?? '—'}</td>
+                    <td className="py-1 text-right">{cluster.to ?? '—'}</td>
+                    <td className="py-1 text-right font-medium">{formatDelta(cluster.delta)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium text-gray-900">Changed answers</h4>
+              {!comparison.answers.available ? (
+                <p className="text-sm text-gray-500">
+                  The submissions behind these accreditations are not on record, so answers cannot be compared.
+                </p>
+              ) : comparison.answers.sameSubmission ? (
+                <p className="text-sm text-gray-500">Both accreditations were issued for the same submission.</p>
+              ) : comparison.answers.changes.length === 0 ? (
+                <p className="text-sm text-gray-500">
+                  No answers changed ({comparison.answers.unchangedCount} unchanged).
+                </p>
+              ) : (
+                <>
+                  <p className="text-xs text-gray-500">
+                    {comparison.answers.changes.length} changed, {comparison.answers.unchangedCount} unchanged
+                  </p>
+                  {comparison.answers.changes.map(change => (
+                    <div key={change.fieldKey} className="border rounded-lg p-2 space-y-1">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="text-sm font-medium text-gray-900">{change.displayName}</span>
+                        <Badge className={CHANGE_BADGES[change.change]}>{change.change}</Badge>
+                      </div>
+                      <p className="text-xs text-gray-500">{change.group}</p>
+                      <div className="grid grid-cols-2 gap-2 text-xs">
+                        <p className="bg-red-50 rounded p-1 text-gray-700 break-words">{change.from ?? '—'}</p>
+                        <p className="bg-green-50 rounded p-1 text-gray-900 break-words">{change.to ?? '—'}</p>
+                      </div>
+                    </div>
+                  ))}
+                </>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,360 @@
+/**
+ * AccreditationConditionsCard Component
+ *
+ * Shows the remediation conditions attached to a conditional accreditation.
+ * Banks and Invela can attach conditions and review submitted evidence; the
+ * company's users submit the evidence. A condition still open at its due
+ * date is missed and suspends the accreditation.
+ */
+
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { ClipboardCheck, Plus } from "lucide-react";
+
+type ConditionStatus = 'open' | 'submitted' | 'met' | 'missed';
+
+interface AccreditationCondition {
+  id: number;
+  accreditation_id: number;
+  description: string;
+  form_type: 'kyb' | 'ky3p';
+  field_key: string;
+  owner_id: number;
+  due_date: string;
+  evidence_requirement: string;
+  status: ConditionStatus;
+  evidence: string | null;
+  evidence_submitted_at: string | null;
+  review_note: string | null;
+}
+
+interface CompanyUser {
+  id: number;
+  full_name: string;
+  email: string;
+}
+
+interface FormField {
+  field_key: string;
+  display_name: string;
+}
+
+const STATUS_BADGES: Record<ConditionStatus, { label: string; className: string }> = {
+  open: { label: 'Open', className: 'bg-blue-100 text-blue-800' },
+  submitted: { label: 'Evidence Submitted', className: 'bg-amber-100 text-amber-800' },
+  met: { label: 'Met', className: 'bg-green-100 text-green-800' },
+  missed: { label: 'Missed', className: 'bg-red-100 text-red-800' }
+};
+
+const FIELD_ENDPOINTS: Record<'kyb' | 'ky3p', string> = {
+  kyb: '/api/kyb/fields',
+  ky3p: '/api/ky3p-fields'
+};
+
+interface AccreditationConditionsCardProps {
+  companyId: number;
+  canManage: boolean;
+  isOwnCompany: boolean;
+  hasActiveAccreditation: boolean;
+}
+
+type DialogState =
+  | { type: 'add' }
+  | { type: 'evidence'; condition: AccreditationCondition }
+  | { type: 'review'; condition: AccreditationCondition }
+  | null;
+
+export function AccreditationConditionsCard({
+  companyId,
+  canManage,
+  isOwnCompany,
+  hasActiveAccreditation
+}: AccreditationConditionsCardProps) {
+  const [dialog, setDialog] = useState<DialogState>(null);
+  const [description, setDescription] = useState('');
+  const [formType, setFormType] = useState<'kyb' | 'ky3p'>('ky3p');
+  const [fieldKey, setFieldKey] = useState('');
+  const [ownerId, setOwnerId] = useState('');
+  const [dueDate, setDueDate] = useState('');
+  const [evidenceRequirement, setEvidenceRequirement] = useState('');
+  const [text, setText] = useState('');
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const conditionsKey = `/api/accreditation/${companyId}/conditions`;
+
+  const { data: conditions = [] } = useQuery<AccreditationCondition[]>({
+    queryKey: [conditionsKey],
+    enabled: canManage || isOwnCompany
+  });
+
+  const { data: usersResponse } = useQuery<{ users: CompanyUser[] }>({
+    queryKey: [`/api/companies/${companyId}/users`],
+    enabled: canManage || isOwnCompany
+  });
+  const companyUsers = usersResponse?.users || [];
+
+  const { data: fields = [] } = useQuery<FormField[]>({
+    queryKey: [FIELD_ENDPOINTS[formType]],
+    enabled: dialog?.type === 'add'
+  });
+
+  const onSuccess = (title: string) => () => {
+    queryClient.invalidateQueries({ queryKey: [conditionsKey] });
+    queryClient.invalidateQueries({ queryKey: [`/api/companies/${companyId}/accreditation`] });
+    toast({ title });
+    setDialog(null);
+  };
+
+  const onError = (error: Error) => {
+    toast({ title: "Could not update condition", description: error.message, variant: "destructive" });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: () => apiRequest('POST', conditionsKey, {
+      conditions: [{
+        description,
+        formType,
+        fieldKey,
+        ownerId: parseInt(ownerId, 10),
+        dueDate,
+        evidenceRequirement
+      }]
+    }),
+    onSuccess: onSuccess('Condition added'),
+    onError
+  });
+
+  const evidenceMutation = useMutation({
+    mutationFn: (conditionId: number) =>
+      apiRequest('POST', `${conditionsKey}/${conditionId}/evidence`, { evidence: text }),
+    onSuccess: onSuccess('Evidence submitted'),
+    onError
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: ({ conditionId, accepted }: { conditionId: number; accepted: boolean }) =>
+      apiRequest('POST', `${conditionsKey}/${conditionId}/review`, { accepted, note: text || null }),
+    onSuccess: onSuccess('Review recorded'),
+    onError
+  });
+
+  const openAddDialog = () => {
+    setDescription('');
+    setFieldKey('');
+    setOwnerId('');
+    setDueDate('');
+    setEvidenceRequirement('');
+    setDialog({ type: 'add' });
+  };
+
+  const openConditionDialog = (type: 'evidence' | 'review', condition: AccreditationCondition) => {
+    setText('');
+    setDialog({ type, condition });
+  };
+
+  if (!canManage && !isOwnCompany) {
+    return null;
+  }
+
+  if (conditions.length === 0 && !(canManage && hasActiveAccreditation)) {
+    return null;
+  }
+
+  const ownerName = (id: number) => companyUsers.find(u => u.id === id)?.full_name || `User #${id}`;
+  const canAdd = !!description.trim() && !!fieldKey && !!ownerId && !!dueDate && !!evidenceRequirement.trim();
+
+  return (
+    <Card className="lg:col-span-2">
+      <CardHeader className="pb-3 flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2 text-base text-gray-900">
+          <ClipboardCheck className="w-4 h-4 text-gray-600" />
+          Accreditation Conditions
+        </CardTitle>
+        {canManage && hasActiveAccreditation && (
+          <Button variant="outline" size="sm" onClick={openAddDialog} className="flex items-center gap-1">
+            <Plus className="h-4 w-4" />
+            Add Condition
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="pt-0 space-y-3">
+        {conditions.length === 0 ? (
+          <p className="text-sm text-gray-500">No remediation conditions. The accreditation is unconditional.</p>
+        ) : (
+          conditions.map(condition => (
+            <div key={condition.id} className="border rounded-lg p-3 space-y-2">
+              <div className="flex items-start justify-between gap-2">
+                <p className="text-sm font-medium text-gray-900">{condition.description}</p>
+                <Badge className={STATUS_BADGES[condition.status].className}>
+                  {STATUS_BADGES[condition.status].label}
+                </Badge>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-2 text-xs text-gray-600">
+                <span>Field: {condition.form_type.toUpperCase()} · {condition.field_key}</span>
+                <span>Owner: {ownerName(condition.owner_id)}</span>
+                <span>Due: {new Date(condition.due_date).toLocaleDateString()}</span>
+              </div>
+              <p className="text-xs text-gray-600">Evidence required: {condition.evidence_requirement}</p>
+              {condition.evidence && (
+                <p className="text-xs text-gray-800 bg-gray-50 rounded p-2">Evidence: {condition.evidence}</p>
+              )}
+              {condition.review_note && (
+                <p className="text-xs text-gray-600">Review note: {condition.review_note}</p>
+              )}
+              <div className="flex gap-2">
+                {isOwnCompany && condition.status === 'open' && (
+                  <Button size="sm" onClick={() => openConditionDialog('evidence', condition)}>
+                    Submit Evidence
+                  </Button>
+                )}
+                {canManage && condition.status === 'submitted' && (
+                  <Button size="sm" onClick={() => openConditionDialog('review', condition)}>
+                    Review Evidence
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+
+      <Dialog open={dialog !== null} onOpenChange={open => !open && setDialog(null)}>
+        {dialog?.type === 'add' && (
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Add Remediation Condition</DialogTitle>
+              <DialogDescription>
+                The accreditation stays conditional until the condition is met, and is suspended if it is missed.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-3">
+              <div className="space-y-1">
+                <Label htmlFor="condition-description">Description</Label>
+                <Textarea id="condition-description" value={description} onChange={e => setDescription(e.target.value)} rows={2} />
+              </div>
+              <div className="grid grid-cols-3 gap-2">
+                <div className="space-y-1">
+                  <Label>Assessment</Label>
+                  <Select value={formType} onValueChange={value => { setFormType(value as 'kyb' | 'ky3p'); setFieldKey(''); }}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="kyb">KYB</SelectItem>
+                      <SelectItem value="ky3p">KY3P</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1 col-span-2">
+                  <Label>Linked field</Label>
+                  <Select value={fieldKey} onValueChange={setFieldKey}>
+                    <SelectTrigger><SelectValue placeholder="Select a field" /></SelectTrigger>
+                    <SelectContent>
+                      {fields.map(field => (
+                        <SelectItem key={field.field_key} value={field.field_key}>{field.display_name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-1">
+                  <Label>Owner</Label>
+                  <Select value={ownerId} onValueChange={setOwnerId}>
+                    <SelectTrigger><SelectValue placeholder="Select a user" /></SelectTrigger>
+                    <SelectContent>
+                      {companyUsers.map(u => (
+                        <SelectItem key={u.id} value={String(u.id)}>{u.full_name || u.email}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="condition-due-date">Due date</Label>
+                  <Input id="condition-due-date" type="date" value={dueDate} onChange={e => setDueDate(e.target.value)} />
+                </div>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="condition-evidence">Evidence required</Label>
+                <Textarea id="condition-evidence" value={evidenceRequirement} onChange={e => setEvidenceRequirement(e.target.value)} rows={2} />
+              </div>
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setDialog(null)}>Cancel</Button>
+              <Button onClick={() => addMutation.mutate()} disabled={!canAdd || addMutation.isPending}>
+                {addMutation.isPending ? 'Saving...' : 'Add Condition'}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        )}
+
+        {dialog?.type === 'evidence' && (
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Submit Evidence</DialogTitle>
+              <DialogDescription>{dialog.condition.evidence_requirement}</DialogDescription>
+            </DialogHeader>
+            <Textarea value={text} onChange={e => setText(e.target.value)} rows={5} placeholder="Describe the remediation and where the evidence can be found" />
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setDialog(null)}>Cancel</Button>
+              <Button
+                onClick={() => evidenceMutation.mutate(dialog.condition.id)}
+                disabled={!text.trim() || evidenceMutation.isPending}
+              >
+                {evidenceMutation.isPending ? 'Submitting...' : 'Submit'}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        )}
+
+        {dialog?.type === 'review' && (
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Review Evidence</DialogTitle>
+              <DialogDescription>{dialog.condition.description}</DialogDescription>
+            </DialogHeader>
+            <p className="text-sm text-gray-800 bg-gray-50 rounded p-2">{dialog.condition.evidence}</p>
+            <Textarea value={text} onChange={e => setText(e.target.value)} rows={3} placeholder="Note for the company (optional)" />
+            <DialogFooter>
+              <Button
+                variant="destructive"
+                onClick={() => reviewMutation.mutate({ conditionId: dialog.condition.id, accepted: false })}
+                disabled={reviewMutation.isPending}
+              >
+                Reject
+              </Button>
+              <Button
+                onClick={() => reviewMutation.mutate({ conditionId: dialog.condition.id, accepted: true })}
+                disabled={reviewMutation.isPending}
+              >
+                Accept
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        )}
+      </Dialog>
+    </Card>
+  );
+}
@@ -17,7 +17,6 @@ import {
 import { cn } from '@/lib/utils';
 import { TrendingDown, TrendingUp, Minus, ArrowRight, ArrowDown, ArrowUp, ChevronDown, ChevronUp } from 'lucide-react';
 import { 
-  calculateRiskStatus, 
   getRiskStatusColor,
   type RiskMonitoringStatus 
 } from '@/lib/riskCalculations';
@@ -28,7 +27,6 @@ import type { CompanyRiskData } from '@/lib/riskCalculations';
 
 interface DeterioratingRiskTableProps {
   companies: CompanyRiskData[];
-  blockThreshold: number;
   className?: string;
   onCompanyClick?: (companyId: number) => void;
   timeframe: '7day' | '30day';
@@ -41,14 +39,13 @@ const logTable = (action: string, details?: any) => {
   console.log(`[DeterioratingRiskTable] ${action}`, details || '');
 };
 
-// Status calculation and styling now handled by shared service
+// Status is decided by the server; styling is handled by the shared service
 
 /**
  * DeterioratingRiskTable Component
  */
 const DeterioratingRiskTable: React.FC<DeterioratingRiskTableProps> = ({
   companies,
-  blockThreshold,
   className,
   onCompanyClick,
   timeframe
@@ -62,23 +59,13 @@ const DeterioratingRiskTable: React.FC<DeterioratingRiskTableProps> = ({
       companyCount: companies.length 
     });
     
-    // Apply a multiplier to simulate different deterioration amounts
-    // for 7-day vs 30-day views
-    const deteriorationMultiplier = timeframe === '7day' ? 1 : 3;
-    
     // Process each company to calculate score changes and status
     const processed = companies.map(company => {
-      // Calculate score change - adjust based on timeframe
-      // In a real implementation, we would use actual historical data
-      const scoreChange = (company.previousScore - company.currentScore) * 
-                          deteriorationMultiplier;
+      // Previous scores come from the recorded history for the selected timeframe
+      const scoreChange = company.previousScore - company.currentScore;
       
-      // Calculate status using shared service
-      const status = calculateRiskStatus(
-        company.currentScore, 
-        company.previousScore, 
-        blockThreshold
-      );
+      // Status comes from the server's risk monitoring decision
+      const status = company.status ?? 'Stable';
       
       return {
         ...company,
@@ -89,7 +76,7 @@ const DeterioratingRiskTable: React.FC<DeterioratingRiskTableProps> = ({
     
     // Sort by the greatest negative change (most deteriorated first)
     return processed.sort((a, b) => b.scoreChange - a.scoreChange);
-  }, [companies, timeframe, blockThreshold]);
+  }, [companies, timeframe]);
   
   return (
     <div className={cn("space-y-4", className)}>
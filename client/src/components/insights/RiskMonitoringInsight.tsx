@@ -12,16 +12,8 @@ import { useLocation } from 'wouter';
 import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import BlockedDataRecipientsAlert from './BlockedDataRecipientsAlert';
 import DeterioratingRiskTable from './DeterioratingRiskTable';
-import { type CompanyRiskData } from '@/lib/riskCalculations';
+import { type NetworkRiskStatus } from '@/lib/riskCalculations';
 import { cn } from '@/lib/utils';
-import { 
-  generateRealisticRiskData, 
-  calculateRiskMetrics,
-  type RiskMonitoringStatus 
-} from '@/lib/riskCalculations';
-
-// Default risk threshold if company configuration is not available
-const DEFAULT_RISK_THRESHOLD = 40;
 
 interface RiskMonitoringInsightProps {
   className?: string;
@@ -55,23 +47,14 @@ const RiskMonitoringInsight: React.FC<RiskMonitoringInsightProps> = ({
     queryKey: ['/api/companies/current'],
   });
 
-  // Get all companies data
-  const { data: companies = [], isLoading: isLoadingCompanies } = useQuery<any[]>({
-    queryKey: ['/api/companies'],
+  // Get the server-decided monitoring status of network companies over the selected timeframe
+  const historyWindow = timeframe === '7day' ? '7d' : '30d';
+  const { data: networkStatus, isLoading: isLoadingCompanies } = useQuery<NetworkRiskStatus>({
+    queryKey: [`/api/risk-monitoring/status?window=${historyWindow}`],
   });
 
-  // Get risk threshold from current company's configuration
-  const riskThreshold = useMemo(() => {
-    if (!currentCompany) return DEFAULT_RISK_THRESHOLD;
-    
-    // Try to get threshold from risk configuration
-    if (currentCompany.risk_configuration?.thresholds?.high) {
-      return currentCompany.risk_configuration.thresholds.high;
-    }
-    
-    // Fallback to default
-    return DEFAULT_RISK_THRESHOLD;
-  }, [currentCompany]);
+  // Blocking threshold from the bank's risk monitoring settings
+  const riskThreshold = networkStatus?.settings.blockingThreshold;
 
   // Check if current company is allowed to see this insight (Bank or Invela)
   const canViewInsight = useMemo(() => {
@@ -79,27 +62,24 @@ const RiskMonitoringInsight: React.FC<RiskMonitoringInsightProps> = ({
     return ['Bank', 'Invela'].includes(currentCompany.category);
   }, [currentCompany]);
 
-  // Generate company risk data using shared service
+  // Data Recipients with their recorded scores and monitoring status
   const companyRiskData = useMemo(() => {
-    if (!companies.length) return [];
+    const networkCompanies = networkStatus?.companies ?? [];
     
-    logInsight('Generating risk data with shared service', {
-      companiesCount: companies.length,
-      threshold: riskThreshold
+    logInsight('Using server risk monitoring status', {
+      companiesCount: networkCompanies.length,
+      window: historyWindow,
+      threshold: riskThreshold,
+      summary: networkStatus?.summary
     });
     
-    return generateRealisticRiskData(companies, riskThreshold);
-  }, [companies, riskThreshold]);
-
-  // Calculate risk metrics using shared service
-  const riskMetrics = useMemo(() => {
-    return calculateRiskMetrics(companyRiskData, riskThreshold);
-  }, [companyRiskData, riskThreshold]);
+    return networkCompanies;
+  }, [networkStatus, historyWindow, riskThreshold]);
 
-  // Filter for blocked companies (below threshold)
+  // Companies blocked by the server's blocking decision
   const blockedCompanies = useMemo(() => {
-    return companyRiskData.filter(company => company.currentScore < riskThreshold);
-  }, [companyRiskData, riskThreshold]);
+    return companyRiskData.filter(company => company.status === 'Blocked');
+  }, [companyRiskData]);
 
   // Companies to display in the table (filtered or all)
   const displayCompanies = useMemo(() => {
@@ -160,8 +140,8 @@ const RiskMonitoringInsight: React.FC<RiskMonitoringInsightProps> = ({
       <div className="flex justify-between items-center mb-4">
         {/* Warning message on the left */}
         <div className="flex-grow mr-4">
-          {blockedCompanies.length > 0 && (
-            <BlockedDataRecipientsAlert count={blockedCompanies.length} />
+          {(networkStatus?.summary.blocked ?? 0) > 0 && (
+            <BlockedDataRecipientsAlert count={networkStatus!.summary.blocked} />
           )}
         </div>
 
@@ -182,7 +162,6 @@ const RiskMonitoringInsight: React.FC<RiskMonitoringInsightProps> = ({
       {/* Show table with appropriate size based on isWidget */}
       <DeterioratingRiskTable
         companies={displayCompanies}
-        blockThreshold={riskThreshold}
         onCompanyClick={handleCompanyClick}
         timeframe={timeframe}
         className={isWidget ? "max-h-96 overflow-auto" : ""}
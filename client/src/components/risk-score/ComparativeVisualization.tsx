@@ -10,7 +10,9 @@ import {
   BarChart3,
   Search,
   RefreshCw,
-  Info
+  Info,
+  Users,
+  AlertTriangle
 } from "lucide-react";
 import {
   Command,
@@ -25,6 +27,13 @@ import {
   PopoverContent,
   PopoverTrigger,
 } from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { cn } from "@/lib/utils";
@@ -49,6 +58,46 @@ const COMPANY_COLORS = [
   '#0d9488', // Teal - Fallback comparison color
   '#8b5cf6', // Purple - Extra fallback color
 ];
+const COHORT_MEDIAN_ID = -1; // ID the server gives the cohort median comparison
+const ANY_COHORT_VALUE = 'any';
+
+type CohortKey = 'category' | 'revenueTier' | 'fundingStage' | 'employeeBand';
+type CohortSelection = Record<CohortKey, string>;
+
+interface PercentileSummary {
+  p10: number;
+  p25: number;
+  median: number;
+  p75: number;
+  p90: number;
+}
+
+interface CohortOptionsResponse {
+  categories: string[];
+  revenueTiers: string[];
+  fundingStages: string[];
+  employeeBands: Array<{ id: string; label: string }>;
+  ownCohort: Partial<CohortSelection> | null;
+}
+
+interface CohortBenchmarkResponse {
+  label: string;
+  size: number;
+  representative: boolean;
+  overall: PercentileSummary | null;
+  clusters: Record<string, PercentileSummary | null>;
+  company: {
+    companyId: number;
+    name: string;
+    inCohort: boolean;
+    score: number | null;
+    percentileRank: number | null;
+    clusters: Record<string, { score: number; percentileRank: number | null }> | null;
+  } | null;
+  comparison: CompanyComparison | null;
+}
+
+const PERCENTILE_KEYS: Array<keyof PercentileSummary> = ['p10', 'p25', 'median', 'p75', 'p90'];
 
 interface ComparativeVisualizationProps {
   dimensions: RiskDimension[];
@@ -71,6 +120,7 @@ function ComparativeVisualizationInternal({
   const [searchPopoverOpen, setSearchPopoverOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [isIndustryAverageAdded, setIsIndustryAverageAdded] = useState(false);
+  const [cohort, setCohort] = useState<CohortSelection | null>(null);
   const { toast } = useToast();
 
   // Track when dimensions change to update visualization
@@ -111,6 +161,40 @@ function ComparativeVisualizationInternal({
     },
   });
   
+  // Fetch the cohort attributes available for peer benchmarking
+  const { data: cohortOptions } = useQuery<CohortOptionsResponse>({
+    queryKey: ['/api/risk-score/benchmarks/options'],
+  });
+
+  // Start from the company's own cohort once the options are known
+  useEffect(() => {
+    if (cohortOptions && !cohort) {
+      const own = cohortOptions.ownCohort || {};
+      setCohort({
+        category: own.category || ANY_COHORT_VALUE,
+        revenueTier: own.revenueTier || ANY_COHORT_VALUE,
+        fundingStage: own.fundingStage || ANY_COHORT_VALUE,
+        employeeBand: own.employeeBand || ANY_COHORT_VALUE,
+      });
+    }
+  }, [cohortOptions, cohort]);
+
+  // Fetch the benchmark of the selected cohort
+  const cohortParams = cohort ? new URLSearchParams(cohort).toString() : '';
+  const { data: benchmark, isLoading: isLoadingBenchmark } = useQuery<CohortBenchmarkResponse>({
+    queryKey: [`/api/risk-score/benchmarks?${cohortParams}`],
+    enabled: !!cohort,
+  });
+
+  const isCohortMedianAdded = selectedCompanies.some(c => c.id === COHORT_MEDIAN_ID);
+
+  // Keep an added cohort median in step with the selected cohort
+  useEffect(() => {
+    const comparison = benchmark?.comparison;
+    if (!comparison) return;
+    setSelectedCompanies(current => current.map(c => c.id === COHORT_MEDIAN_ID ? comparison : c));
+  }, [benchmark]);
+
   // Handle adding a company to the comparison list
   const handleAddCompany = (company: CompanyComparison) => {
     // Check if we've reached the maximum number of comparisons
@@ -174,6 +258,27 @@ function ComparativeVisualizationInternal({
     }
   };
   
+  // Handle adding the selected cohort's median to comparison
+  const handleAddCohortMedian = () => {
+    if (selectedCompanies.length >= MAX_COMPARISONS) {
+      toast({
+        title: "Maximum comparisons reached",
+        description: `You can compare up to ${MAX_COMPARISONS} companies at once. Remove one to add another.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (benchmark?.comparison && !isCohortMedianAdded) {
+      setSelectedCompanies([...selectedCompanies, benchmark.comparison]);
+    }
+  };
+
+  // Handle changing one attribute of the cohort
+  const handleCohortChange = (key: CohortKey, value: string) => {
+    setCohort(current => current ? { ...current, [key]: value } : current);
+  };
+
   // Update current company data when dimensions change or when globalScore changes
   useEffect(() => {
     if (dimensions.length > 0) {
@@ -431,7 +536,56 @@ function ComparativeVisualizationInternal({
               </TooltipContent>
             </Tooltip>
           </TooltipProvider>
+
+          {/* Cohort Median Button */}
+          <Button
+            variant={isCohortMedianAdded ? "secondary" : "outline"}
+            size="sm"
+            className={cn(
+              "flex items-center gap-2 transition-all duration-200",
+              !isCohortMedianAdded && selectedCompanies.length < MAX_COMPARISONS &&
+              "hover:bg-blue-50 hover:text-blue-600 hover:border-blue-200 hover:shadow-sm"
+            )}
+            onClick={handleAddCohortMedian}
+            disabled={isCohortMedianAdded || selectedCompanies.length >= MAX_COMPARISONS || !benchmark?.comparison}
+          >
+            {isLoadingBenchmark ? (
+              <RefreshCw className="h-4 w-4 animate-spin" />
+            ) : (
+              <Users className="h-4 w-4 mr-1" />
+            )}
+            Cohort Median
+          </Button>
         </div>
+
+        {/* Cohort picker */}
+        {cohortOptions && cohort && (
+          <div className="flex flex-wrap items-center gap-3">
+            <span className="text-sm text-muted-foreground">Peer cohort:</span>
+            {([
+              ['category', 'Any category', cohortOptions.categories.map(value => ({ value, label: value }))],
+              ['revenueTier', 'Any revenue tier', cohortOptions.revenueTiers.map(value => ({ value, label: `${value} revenue` }))],
+              ['fundingStage', 'Any funding stage', cohortOptions.fundingStages.map(value => ({ value, label: value }))],
+              ['employeeBand', 'Any size', cohortOptions.employeeBands.map(band => ({ value: band.id, label: band.label }))],
+            ] as Array<[CohortKey, string, Array<{ value: string; label: string }>]>).map(([key, anyLabel, items]) => (
+              <Select key={key} value={cohort[key]} onValueChange={value => handleCohortChange(key, value)}>
+                <SelectTrigger className="h-8 w-[180px] text-sm">
+                  <SelectValue placeholder={anyLabel} />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY_COHORT_VALUE}>{anyLabel}</SelectItem>
+                  {/* Keep the current value selectable even if no scored company has it */}
+                  {cohort[key] !== ANY_COHORT_VALUE && !items.some(item => item.value === cohort[key]) && (
+                    <SelectItem value={cohort[key]}>{cohort[key]}</SelectItem>
+                  )}
+                  {items.map(item => (
+                    <SelectItem key={item.value} value={item.value}>{item.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ))}
+          </div>
+        )}
         
         {/* Company slot cards */}
         <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
@@ -552,6 +706,76 @@ function ComparativeVisualizationInternal({
         </CardContent>
       </Card>
 
+      {/* Cohort percentiles card */}
+      {benchmark && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg font-medium flex items-center">
+              <Users className="h-5 w-5 mr-2 text-muted-foreground" />
+              Peer Cohort Benchmark
+            </CardTitle>
+            <p className="text-sm text-muted-foreground">
+              {benchmark.label} · {benchmark.size} {benchmark.size === 1 ? 'company' : 'companies'}
+            </p>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {!benchmark.representative && (
+              <div className="flex items-center gap-2 text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-md p-3">
+                <AlertTriangle className="h-4 w-4 shrink-0" />
+                This cohort is too small to be representative. Widen it by setting an attribute to "Any".
+              </div>
+            )}
+
+            {benchmark.overall ? (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b text-muted-foreground">
+                      <th className="text-left font-medium py-2"></th>
+                      {PERCENTILE_KEYS.map(key => (
+                        <th key={key} className="text-right font-medium py-2">{key === 'median' ? 'Median' : key.toUpperCase()}</th>
+                      ))}
+                      <th className="text-right font-medium py-2">{benchmark.company?.name || 'Company'}</th>
+                      <th className="text-right font-medium py-2">Percentile</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {[
+                      { name: 'Overall', summary: benchmark.overall, position: benchmark.company ? { score: benchmark.company.score, percentileRank: benchmark.company.percentileRank } : null },
+                      ...Object.entries(benchmark.clusters).map(([name, summary]) => ({
+                        name,
+                        summary,
+                        position: benchmark.company?.clusters?.[name] ?? null
+                      }))
+                    ].map(row => (
+                      <tr key={row.name} className={cn('border-b last:border-0', row.name === 'Overall' && 'font-medium')}>
+                        <td className="py-2">{row.name}</td>
+                        {PERCENTILE_KEYS.map(key => (
+                          <td key={key} className="text-right py-2">{row.summary ? row.summary[key] : '—'}</td>
+                        ))}
+                        <td className="text-right py-2">{row.position?.score ?? '—'}</td>
+                        <td className="text-right py-2">
+                          {row.position?.percentileRank !== null && row.position?.percentileRank !== undefined
+                            ? `P${Math.round(row.position.percentileRank)}`
+                            : '—'}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {benchmark.company && !benchmark.company.inCohort && (
+                  <p className="text-xs text-muted-foreground mt-2">
+                    {benchmark.company.name} is not part of this cohort; its percentile shows where it would rank.
+                  </p>
+                )}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">No scored companies match this cohort.</p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Comparison details card - only show if companies are selected */}
       {selectedCompanies.length > 0 && (
         <Card>
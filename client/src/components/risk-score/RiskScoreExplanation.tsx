@@ -0,0 +1,253 @@
+/**
+ * RiskScoreExplanation Components
+ *
+ * Presents the server's risk score explanation
+ * (/api/companies/:id/risk-score/explanation): how much each risk cluster
+ * contributes to the score, and every answer with its weight, the points it
+ * earned and the scoring rule that awarded them.
+ */
+
+import { useMemo, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Switch } from '@/components/ui/switch';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import { cn } from '@/lib/utils';
+
+export type ExplanationFormType = 'kyb' | 'ky3p' | 'open_banking' | 'card';
+
+export interface ExplanationScoringRule {
+  operator: 'equals' | 'contains' | 'starts_with' | 'between' | 'answered';
+  value?: string;
+  min?: number;
+  max?: number;
+  points: number;
+  reasoning?: string;
+}
+
+export interface ExplanationBankRule {
+  ruleId: number;
+  name: string;
+  cluster: string;
+  scoreAdjustment: number;
+}
+
+export interface FieldContribution {
+  formType: ExplanationFormType;
+  taskId: number;
+  fieldId: number;
+  fieldKey: string;
+  label: string;
+  group: string | null;
+  cluster: string;
+  answer: string | null;
+  points: number;
+  maxPoints: number;
+  countsTowardScore: boolean;
+  weight: number;
+  scoreContribution: number;
+  clusterContribution: number;
+  rule: ExplanationScoringRule | null;
+  reasoning: string;
+  bankRules: ExplanationBankRule[];
+}
+
+export interface ClusterExplanation {
+  cluster: string;
+  score: number;
+  earnedPoints: number;
+  maxPoints: number;
+  fieldCount: number;
+}
+
+export interface RiskScoreExplanationData {
+  companyId: number;
+  companyName: string;
+  riskScore: number | null;
+  recalculatedScore: number | null;
+  scoreSource: ExplanationFormType | null;
+  earnedPoints: number;
+  maxPossiblePoints: number;
+  clusters: ClusterExplanation[];
+  fields: FieldContribution[];
+  bankAdjustment: {
+    bankCompanyId: number;
+    baseRiskScore: number;
+    adjustedRiskScore: number;
+    firedRules: ExplanationBankRule[];
+  } | null;
+  generatedAt: string;
+}
+
+export const FORM_TYPE_LABELS: Record<ExplanationFormType, string> = {
+  kyb: 'KYB',
+  ky3p: 'S&P KY3P',
+  open_banking: 'Open Banking',
+  card: 'CARD'
+};
+
+/**
+ * Describe the scoring rule that awarded a field's points
+ */
+const describeRule = (rule: ExplanationScoringRule | null): string => {
+  if (!rule) {
+    return 'No rule matched (default points)';
+  }
+
+  switch (rule.operator) {
+    case 'equals':
+      return `Answer equals "${rule.value}"`;
+    case 'contains':
+      return `Answer contains "${rule.value}"`;
+    case 'starts_with':
+      return `Answer starts with "${rule.value?.trim()}"`;
+    case 'between':
+      return `Answer between ${rule.min ?? '-∞'} and ${rule.max ?? '∞'}`;
+    case 'answered':
+    default:
+      return 'Question answered';
+  }
+};
+
+interface RiskClusterBreakdownProps {
+  explanation: RiskScoreExplanationData;
+  className?: string;
+}
+
+/**
+ * Cluster scores, which sum to the company's risk score
+ */
+export function RiskClusterBreakdown({ explanation, className }: RiskClusterBreakdownProps) {
+  const total = explanation.clusters.reduce((sum, cluster) => sum + cluster.score, 0);
+
+  return (
+    <div className={cn('space-y-4', className)}>
+      {explanation.clusters.map(cluster => (
+        <div key={cluster.cluster} className="space-y-1">
+          <div className="flex items-center justify-between text-sm">
+            <span className="font-medium">{cluster.cluster}</span>
+            <span className="text-muted-foreground">
+              {cluster.score} pts · {cluster.earnedPoints}/{cluster.maxPoints} earned across {cluster.fieldCount} answers
+            </span>
+          </div>
+          <Progress value={total > 0 ? (cluster.score / total) * 100 : 0} className="h-2" />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+interface FieldContributionTableProps {
+  explanation: RiskScoreExplanationData;
+  className?: string;
+}
+
+/**
+ * Every answer with its weight, points and the rule that fired
+ */
+export function FieldContributionTable({ explanation, className }: FieldContributionTableProps) {
+  // By default only the answers that make up the score are listed
+  const [showAllAnswers, setShowAllAnswers] = useState(false);
+
+  const rows = useMemo(() => {
+    const visible = showAllAnswers
+      ? explanation.fields
+      : explanation.fields.filter(field => field.countsTowardScore);
+
+    // Answers that cost the most points first
+    return [...visible].sort((a, b) => (b.maxPoints - b.points) - (a.maxPoints - a.points));
+  }, [explanation.fields, showAllAnswers]);
+
+  return (
+    <div className={cn('space-y-4', className)}>
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-2 text-sm">
+        <p className="text-muted-foreground">
+          {explanation.scoreSource
+            ? <>Score from the {FORM_TYPE_LABELS[explanation.scoreSource]} assessment: {explanation.earnedPoints} of {explanation.maxPossiblePoints} available points.</>
+            : <>No scored assessment answers are available yet.</>}
+          {explanation.recalculatedScore !== null && explanation.riskScore !== null &&
+            explanation.recalculatedScore !== explanation.riskScore && (
+              <> The current answers would score {explanation.recalculatedScore}; the recorded score predates later changes.</>
+          )}
+        </p>
+        <label className="flex items-center gap-2 whitespace-nowrap">
+          <Switch checked={showAllAnswers} onCheckedChange={setShowAllAnswers} />
+          Show answers from all assessments
+        </label>
+      </div>
+
+      {explanation.bankAdjustment && explanation.bankAdjustment.firedRules.length > 0 && (
+        <p className="text-sm">
+          Your risk rules adjust this score from {explanation.bankAdjustment.baseRiskScore} to{' '}
+          <span className="font-medium">{explanation.bankAdjustment.adjustedRiskScore}</span>.
+        </p>
+      )}
+
+      <div className="border rounded-md">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Question</TableHead>
+              <TableHead>Answer</TableHead>
+              <TableHead>Cluster</TableHead>
+              <TableHead className="text-right">Weight</TableHead>
+              <TableHead className="text-right">Points</TableHead>
+              <TableHead className="text-right">Score Contribution</TableHead>
+              <TableHead>Rule Fired</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center py-6 text-muted-foreground">
+                  No answers to show.
+                </TableCell>
+              </TableRow>
+            ) : rows.map(field => (
+              <TableRow key={`${field.formType}-${field.fieldId}`}>
+                <TableCell>
+                  <div className="font-medium">{field.label}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {FORM_TYPE_LABELS[field.formType]}{field.group ? ` · ${field.group}` : ''}
+                  </div>
+                </TableCell>
+                <TableCell className="max-w-[220px] truncate" title={field.answer ?? ''}>
+                  {field.answer || <span className="text-muted-foreground">Not answered</span>}
+                </TableCell>
+                <TableCell>{field.cluster}</TableCell>
+                <TableCell className="text-right">
+                  {field.countsTowardScore ? `${(field.weight * 100).toFixed(1)}%` : '—'}
+                </TableCell>
+                <TableCell className={cn(
+                  'text-right',
+                  field.points < field.maxPoints ? 'text-amber-600' : ''
+                )}>
+                  {field.points}/{field.maxPoints}
+                </TableCell>
+                <TableCell className="text-right">
+                  {field.countsTowardScore ? field.scoreContribution.toFixed(2) : '—'}
+                </TableCell>
+                <TableCell>
+                  <div className="text-sm">{describeRule(field.rule)}</div>
+                  <div className="text-xs text-muted-foreground">{field.reasoning}</div>
+                  {field.bankRules.map(rule => (
+                    <Badge key={rule.ruleId} variant="outline" className="mt-1 mr-1">
+                      {rule.name} ({rule.scoreAdjustment > 0 ? '+' : ''}{rule.scoreAdjustment} {rule.cluster})
+                    </Badge>
+                  ))}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
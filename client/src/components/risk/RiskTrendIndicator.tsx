@@ -2,20 +2,34 @@ import { useQuery } from '@tanstack/react-query';
 import { TrendingDown, TrendingUp, Minus } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
+export type RiskTrendWindow = '7d' | '30d' | '90d' | '1y' | 'all';
+
 interface RiskTrendIndicatorProps {
   companyId: number;
+  window?: RiskTrendWindow;
   className?: string;
 }
 
-interface RiskTrendData {
+export interface RiskTrendPoint {
+  date: string | null;
+  score: number;
+  source: string;
+  taskId: number | null;
+}
+
+export interface RiskTrendData {
+  window: RiskTrendWindow;
+  currentScore: number | null;
+  previousScore: number | null;
   change: number;
   direction: 'up' | 'down' | 'stable';
   percentage: number;
+  points: RiskTrendPoint[];
 }
 
-export function RiskTrendIndicator({ companyId, className }: RiskTrendIndicatorProps) {
+export function RiskTrendIndicator({ companyId, window = '30d', className }: RiskTrendIndicatorProps) {
   const { data: trendData, isLoading } = useQuery<RiskTrendData>({
-    queryKey: ['/api/companies', companyId, 'risk-trend'],
+    queryKey: [`/api/companies/${companyId}/risk-trend?window=${window}`],
     enabled: !!companyId
   });
 
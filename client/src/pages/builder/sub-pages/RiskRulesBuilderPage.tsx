@@ -2,7 +2,38 @@ import { PageHeader } from "@/components/ui/page-header";
 import { DashboardLayout } from "@/layouts/DashboardLayout";
 import { BreadcrumbNav } from "@/components/dashboard/BreadcrumbNav";
 import { PageSideDrawer, PageTemplate } from "@/components/ui/page-side-drawer";
-import { Info } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Info, Pencil, Plus, Trash2 } from "lucide-react";
 import { useState } from "react";
 
 const breadcrumbItems = [
@@ -10,11 +41,154 @@ const breadcrumbItems = [
   { label: "Risk Score Rules", href: "/builder/risk-rules" }
 ];
 
+const RULES_QUERY_KEY = '/api/risk-rules';
+
+const FORM_TYPE_LABELS: Record<string, string> = {
+  kyb: 'KYB',
+  ky3p: 'KY3P',
+  open_banking: 'Open Banking',
+  card: 'CARD'
+};
+
+const OPERATOR_LABELS: Record<string, string> = {
+  equals: 'equals',
+  not_equals: 'does not equal',
+  contains: 'contains',
+  greater_than: 'is greater than',
+  less_than: 'is less than',
+  answered: 'is answered',
+  not_answered: 'is not answered'
+};
+
+const VALUELESS_OPERATORS = ['answered', 'not_answered'];
+
+const RISK_CLUSTERS = [
+  "Cyber Security",
+  "Financial Stability",
+  "Potential Liability",
+  "Dark Web Data",
+  "Public Sentiment",
+  "Data Access Scope"
+];
+
+interface RiskScoreRule {
+  id: number;
+  name: string;
+  description: string | null;
+  form_type: string;
+  field_key: string;
+  operator: string;
+  value: string | null;
+  cluster: string;
+  score_adjustment: number;
+  enabled: boolean;
+}
+
+interface RuleField {
+  field_key: string;
+  label: string;
+  group: string | null;
+}
+
+type RuleDraft = Omit<RiskScoreRule, 'id'>;
+
+const EMPTY_DRAFT: RuleDraft = {
+  name: '',
+  description: null,
+  form_type: 'ky3p',
+  field_key: '',
+  operator: 'equals',
+  value: '',
+  cluster: "Cyber Security",
+  score_adjustment: 10,
+  enabled: true
+};
+
+function describeCondition(rule: Pick<RiskScoreRule, 'form_type' | 'field_key' | 'operator' | 'value'>) {
+  const formLabel = FORM_TYPE_LABELS[rule.form_type] || rule.form_type;
+  const operatorLabel = OPERATOR_LABELS[rule.operator] || rule.operator;
+  const value = VALUELESS_OPERATORS.includes(rule.operator) ? '' : ` "${rule.value ?? ''}"`;
+  return `If ${formLabel} ${rule.field_key} ${operatorLabel}${value}`;
+}
+
+function describeEffect(rule: Pick<RiskScoreRule, 'score_adjustment' | 'cluster'>) {
+  const sign = rule.score_adjustment > 0 ? '+' : '';
+  return `${sign}${rule.score_adjustment} to ${rule.cluster}`;
+}
+
 export function RiskRulesBuilderPage() {
   const [drawerOpen, setDrawerOpen] = useState(false);
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [draft, setDraft] = useState<RuleDraft>(EMPTY_DRAFT);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: rules = [], isLoading } = useQuery<RiskScoreRule[]>({
+    queryKey: [RULES_QUERY_KEY],
+  });
+
+  const { data: fields = [] } = useQuery<RuleField[]>({
+    queryKey: [`/api/risk-rules/fields?formType=${draft.form_type}`],
+    enabled: editorOpen,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: (rule: RuleDraft) => editingId
+      ? apiRequest('PUT', `/api/risk-rules/${editingId}`, rule)
+      : apiRequest('POST', '/api/risk-rules', rule),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [RULES_QUERY_KEY] });
+      setEditorOpen(false);
+      toast({ title: editingId ? "Rule updated" : "Rule created" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not save rule", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: (rule: RiskScoreRule) => {
+      const { id, ...rest } = rule;
+      return apiRequest('PUT', `/api/risk-rules/${id}`, { ...rest, enabled: !rule.enabled });
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: [RULES_QUERY_KEY] }),
+    onError: (error: Error) => {
+      toast({ title: "Could not update rule", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (ruleId: number) => apiRequest('DELETE', `/api/risk-rules/${ruleId}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [RULES_QUERY_KEY] });
+      toast({ title: "Rule deleted" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not delete rule", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const openEditor = (rule?: RiskScoreRule) => {
+    if (rule) {
+      const { id, ...rest } = rule;
+      setEditingId(id);
+      setDraft(rest);
+    } else {
+      setEditingId(null);
+      setDraft(EMPTY_DRAFT);
+    }
+    setEditorOpen(true);
+  };
+
+  const updateDraft = (changes: Partial<RuleDraft>) => setDraft(current => ({ ...current, ...changes }));
+
+  const needsValue = !VALUELESS_OPERATORS.includes(draft.operator);
+  const canSave = draft.name.trim() !== '' && draft.field_key !== '' &&
+    (!needsValue || (draft.value ?? '').trim() !== '') && Number.isInteger(draft.score_adjustment);
 
   const drawer = (
-    <PageSideDrawer 
+    <PageSideDrawer
       title="Risk Rules Settings"
       titleIcon={<Info className="h-5 w-5" />}
       defaultOpen={false}
@@ -24,14 +198,17 @@ export function RiskRulesBuilderPage() {
       <div className="text-sm space-y-4">
         <h4 className="font-medium">Rule Configuration</h4>
         <p className="text-muted-foreground">
-          Configure risk assessment rules by setting up:
+          Each rule tests one answer and adjusts one risk cluster:
         </p>
         <ul className="space-y-2">
-          <li>• Scoring criteria</li>
-          <li>• Risk thresholds</li>
-          <li>• Assessment factors</li>
-          <li>• Alert triggers</li>
+          <li>• Pick the form and field to test</li>
+          <li>• Choose how the answer is compared</li>
+          <li>• Set the points added to or removed from a cluster</li>
+          <li>• Disable a rule to stop it without deleting it</li>
         </ul>
+        <p className="text-muted-foreground">
+          Rules run every time a company in your network submits a form.
+        </p>
       </div>
     </PageSideDrawer>
   );
@@ -45,17 +222,194 @@ export function RiskRulesBuilderPage() {
       >
         <BreadcrumbNav items={breadcrumbItems} />
         <div className="mt-6">
-          <PageHeader
-            title="Risk Score Rules"
-            description="Set up risk assessment criteria."
-          />
+          <div className="flex items-start justify-between">
+            <PageHeader
+              title="Risk Score Rules"
+              description="Set up risk assessment criteria."
+            />
+            <Button onClick={() => openEditor()}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Rule
+            </Button>
+          </div>
           <div className="mt-4">
-            <div className="text-muted-foreground">
-              Define and manage risk scoring rules here.
-            </div>
+            {isLoading ? (
+              <div className="h-32 bg-gray-200 animate-pulse rounded-md" />
+            ) : rules.length === 0 ? (
+              <div className="text-muted-foreground">
+                No rules yet. Add a rule to encode your risk appetite, for example
+                "If KY3P mfa_enforced equals No then +15 to Cyber Security".
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Condition</TableHead>
+                    <TableHead>Effect</TableHead>
+                    <TableHead>Enabled</TableHead>
+                    <TableHead className="w-24" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rules.map(rule => (
+                    <TableRow key={rule.id}>
+                      <TableCell className="font-medium">{rule.name}</TableCell>
+                      <TableCell>{describeCondition(rule)}</TableCell>
+                      <TableCell>
+                        <Badge variant={rule.score_adjustment >= 0 ? "default" : "secondary"}>
+                          {describeEffect(rule)}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        <Switch
+                          checked={rule.enabled}
+                          onCheckedChange={() => toggleMutation.mutate(rule)}
+                          aria-label={`Toggle ${rule.name}`}
+                        />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button variant="ghost" size="icon" onClick={() => openEditor(rule)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" onClick={() => deleteMutation.mutate(rule.id)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
           </div>
         </div>
+
+        <Dialog open={editorOpen} onOpenChange={setEditorOpen}>
+          <DialogContent className="max-w-lg">
+            <DialogHeader>
+              <DialogTitle>{editingId ? "Edit Rule" : "Add Rule"}</DialogTitle>
+              <DialogDescription>
+                {describeCondition(draft)} then {describeEffect(draft)}
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="rule-name">Name</Label>
+                <Input
+                  id="rule-name"
+                  value={draft.name}
+                  onChange={(e) => updateDraft({ name: e.target.value })}
+                  placeholder="MFA not enforced"
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Form</Label>
+                  <Select
+                    value={draft.form_type}
+                    onValueChange={(value) => updateDraft({ form_type: value, field_key: '' })}
+                  >
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(FORM_TYPE_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Field</Label>
+                  <Select
+                    value={draft.field_key}
+                    onValueChange={(value) => updateDraft({ field_key: value })}
+                  >
+                    <SelectTrigger><SelectValue placeholder="Select a field" /></SelectTrigger>
+                    <SelectContent>
+                      {fields.map(field => (
+                        <SelectItem key={field.field_key} value={field.field_key}>
+                          {field.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Operator</Label>
+                  <Select
+                    value={draft.operator}
+                    onValueChange={(value) => updateDraft({ operator: value })}
+                  >
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(OPERATOR_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="rule-value">Value</Label>
+                  <Input
+                    id="rule-value"
+                    value={draft.value ?? ''}
+                    disabled={!needsValue}
+                    onChange={(e) => updateDraft({ value: e.target.value })}
+                    placeholder="No"
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Cluster</Label>
+                  <Select
+                    value={draft.cluster}
+                    onValueChange={(value) => updateDraft({ cluster: value })}
+                  >
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {RISK_CLUSTERS.map(cluster => (
+                        <SelectItem key={cluster} value={cluster}>{cluster}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="rule-adjustment">Points</Label>
+                  <Input
+                    id="rule-adjustment"
+                    type="number"
+                    min={-100}
+                    max={100}
+                    value={draft.score_adjustment}
+                    onChange={(e) => updateDraft({ score_adjustment: parseInt(e.target.value, 10) || 0 })}
+                  />
+                </div>
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setEditorOpen(false)}>
+                Cancel
+              </Button>
+              <Button
+                disabled={!canSave || saveMutation.isPending}
+                onClick={() => saveMutation.mutate({
+                  ...draft,
+                  value: needsValue ? draft.value : null
+                })}
+              >
+                {editingId ? "Save Changes" : "Create Rule"}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
       </PageTemplate>
     </DashboardLayout>
   );
-}
\ No newline at end of file
+}
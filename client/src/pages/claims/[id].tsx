@@ -20,10 +20,11 @@ import {
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
-import { AlertTriangle, ArrowLeft, Clock, CheckCircle, FileText } from 'lucide-react';
+import { AlertTriangle, ArrowLeft, Clock, CheckCircle, FileText, Paperclip } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { LoadingSpinner } from '@/components/ui/loading-spinner';
 import { ClaimDetailSkeleton } from '@/components/claims/ClaimDetailSkeleton';
+import { ClaimEvidencePanel } from '@/components/claims/ClaimEvidencePanel';
 
 export default function ClaimDetailsPage() {
   const params = useParams();
@@ -44,6 +45,22 @@ export default function ClaimDetailsPage() {
     enabled: !!claimId, // Only run the query if we have a valid ID
   });
 
+  // Status history recorded by the claim workflow, oldest first
+  const { data: statusHistory = [] } = useQuery<Array<{
+    id: number;
+    from_status: string | null;
+    to_status: string;
+    note: string | null;
+    changed_by_name: string | null;
+    created_at: string;
+  }>>({
+    queryKey: [`/api/claims/${claimId}/history`],
+    enabled: !!claimId,
+  });
+
+  const formatStatus = (status: string) =>
+    status.replace(/_/g, ' ').replace(/\b\w/g, letter => letter.toUpperCase());
+
   const handleRequestInfo = () => {
     toast({
       title: "Information request sent",
@@ -269,11 +286,15 @@ export default function ClaimDetailsPage() {
             </Card>
 
             <Tabs defaultValue="details" value={activeTab} onValueChange={setActiveTab}>
-              <TabsList className="grid w-full grid-cols-3">
+              <TabsList className="grid w-full grid-cols-4">
                 <TabsTrigger value="details" className="flex items-center">
                   <FileText className="mr-2 h-4 w-4" />
                   Details
                 </TabsTrigger>
+                <TabsTrigger value="evidence" className="flex items-center">
+                  <Paperclip className="mr-2 h-4 w-4" />
+                  Evidence
+                </TabsTrigger>
                 <TabsTrigger value="audit" className="flex items-center">
                   <Clock className="mr-2 h-4 w-4" />
                   Audit Logs
@@ -364,6 +385,14 @@ export default function ClaimDetailsPage() {
                 </Card>
               </TabsContent>
 
+              <TabsContent value="evidence" className="space-y-4 mt-6">
+                <ClaimEvidencePanel
+                  claimId={claim.id}
+                  isResolved={claim.is_resolved}
+                  disputes={claim.disputes || []}
+                />
+              </TabsContent>
+
               <TabsContent value="audit" className="space-y-4 mt-6">
                 <Card>
                   <CardHeader>
@@ -380,30 +409,21 @@ export default function ClaimDetailsPage() {
                           <div className="flex-1 pr-4">Details</div>
                         </div>
                         <div className="divide-y">
-                          <div className="grid grid-cols-4 p-3 hover:bg-muted/40 cursor-pointer" onClick={() => setActiveTab("details")}>
-                            <div className="pl-4">{formatDate(claim.claim_date)} {formatTime(claim.claim_date)}</div>
-                            <div>System</div>
-                            <div>Claim Created</div>
-                            <div className="pr-4">Initial claim submission</div>
-                          </div>
-                          <div className="grid grid-cols-4 p-3 hover:bg-muted/40 cursor-pointer" onClick={() => setActiveTab("details")}>
-                            <div className="pl-4">{formatDate(claim.claim_date)} {formatTime(claim.claim_date)}</div>
-                            <div>System</div>
-                            <div>Status Change</div>
-                            <div className="pr-4">Status set to In Review</div>
-                          </div>
-                          <div className="grid grid-cols-4 p-3 hover:bg-muted/40 cursor-pointer" onClick={() => setActiveTab("details")}>
-                            <div className="pl-4">{formatDate(claim.claim_date)} {formatTime(claim.claim_date)}</div>
-                            <div>J. Martinez</div>
-                            <div>Document Upload</div>
-                            <div className="pr-4">Added incident report documentation</div>
-                          </div>
-                          <div className="grid grid-cols-4 p-3 hover:bg-muted/40 cursor-pointer" onClick={() => setActiveTab("details")}>
-                            <div className="pl-4">{formatDate(claim.claim_date)} {formatTime(claim.claim_date)}</div>
-                            <div>A. Thompson</div>
-                            <div>Comment Added</div>
-                            <div className="pr-4">Added additional breach details</div>
-                          </div>
+                          {statusHistory.length === 0 ? (
+                            <div className="p-3 pl-4 text-muted-foreground">No status changes recorded</div>
+                          ) : statusHistory.map(entry => (
+                            <div key={entry.id} className="grid grid-cols-4 p-3 hover:bg-muted/40">
+                              <div className="pl-4">{formatDate(entry.created_at)} {formatTime(entry.created_at)}</div>
+                              <div>{entry.changed_by_name || 'System'}</div>
+                              <div>{entry.from_status ? 'Status Change' : 'Claim Created'}</div>
+                              <div className="pr-4">
+                                {entry.from_status
+                                  ? `${formatStatus(entry.from_status)} → ${formatStatus(entry.to_status)}`
+                                  : `Status set to ${formatStatus(entry.to_status)}`}
+                                {entry.note && <p className="text-xs text-muted-foreground mt-1">{entry.note}</p>}
+                              </div>
+                            </div>
+                          ))}
                         </div>
                       </div>
                     </div>
@@ -1,6 +1,7 @@
-import { useState } from 'react';
-import { useParams } from 'wouter';
+import { useEffect, useState } from 'react';
+import { useLocation, useParams } from 'wouter';
 import { useQuery } from '@tanstack/react-query';
+import { apiRequest, queryClient } from '@/lib/queryClient';
 import { format } from 'date-fns';
 import { DashboardLayout } from '@/layouts/DashboardLayout';
 import { PageTemplate } from '@/components/ui/page-template';
@@ -28,19 +29,41 @@ import {
   Clock,
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Slider } from '@/components/ui/slider';
 import { Textarea } from '@/components/ui/textarea';
 import { LoadingSpinner } from '@/components/ui/loading-spinner';
 
+interface LiabilityAllocation {
+  disputeId: number;
+  claimId: number;
+  claimAmount: number;
+  bankPercent: number;
+  fintechPercent: number;
+  paymentAmount: number;
+  suggestedResolutionType: string;
+  factors: Array<{ factor: string; detail: string; fintechAdjustment: number }>;
+}
+
 export default function ClaimDisputePage() {
   const params = useParams();
   const { id } = params;
   const [drawerOpen, setDrawerOpen] = useState(false);
   const [activeTab, setActiveTab] = useState('summary');
   const { toast } = useToast();
-  const [selectedLiability, setSelectedLiability] = useState<string | null>(null);
+  const [, navigate] = useLocation();
+  const [fintechPercent, setFintechPercent] = useState<number | null>(null);
+  const [paymentAmount, setPaymentAmount] = useState('');
+  const [overrideReason, setOverrideReason] = useState('');
   const [resolutionNotes, setResolutionNotes] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Only Invela resolves disputes; the parties to the claim can only review them
+  const { data: currentCompany } = useQuery<{ category?: string }>({
+    queryKey: ['/api/companies/current'],
+  });
+  const canResolve = currentCompany?.category === 'Invela';
 
   // Fetch dispute details
   const { data: dispute, isLoading, isError } = useQuery<any>({
@@ -48,6 +71,35 @@ export default function ClaimDisputePage() {
     refetchOnWindowFocus: false,
   });
 
+  const disputeId: number | undefined = dispute?.dispute?.id;
+
+  // Liability split proposed from the dispute reason, breach timing and consent data
+  const { data: allocation } = useQuery<LiabilityAllocation>({
+    queryKey: [`/api/claims/dispute/${disputeId}/allocation`],
+    enabled: !!disputeId,
+    refetchOnWindowFocus: false,
+  });
+
+  // Start from the proposal; the adjudicator can accept it or override it
+  useEffect(() => {
+    if (allocation && fintechPercent === null) {
+      setFintechPercent(allocation.fintechPercent);
+      setPaymentAmount(String(allocation.paymentAmount));
+    }
+  }, [allocation, fintechPercent]);
+
+  const handleFintechPercentChange = (value: number) => {
+    setFintechPercent(value);
+    if (allocation) {
+      setPaymentAmount(String(Math.round(allocation.claimAmount * value) / 100));
+    }
+  };
+
+  const isOverridden = !!allocation && fintechPercent !== null && (
+    fintechPercent !== allocation.fintechPercent ||
+    Number(paymentAmount) !== allocation.paymentAmount
+  );
+
   const handleSaveDraft = () => {
     toast({
       title: "Draft saved",
@@ -56,21 +108,54 @@ export default function ClaimDisputePage() {
     });
   };
 
-  const handleSubmitResolution = () => {
-    if (!selectedLiability) {
+  const handleSubmitResolution = async () => {
+    if (!disputeId || fintechPercent === null) {
       toast({
         title: "Error",
-        description: "Please select a liability determination before submitting.",
+        description: "The liability allocation has not loaded yet.",
         variant: "destructive",
       });
       return;
     }
 
-    toast({
-      title: "Resolution submitted",
-      description: "Your resolution decision has been submitted successfully.",
-      variant: "success",
-    });
+    if (isOverridden && !overrideReason.trim()) {
+      toast({
+        title: "Error",
+        description: "Please explain why you are overriding the proposed allocation.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await apiRequest('POST', `/api/claims/dispute/${disputeId}/resolve`, {
+        fintechLiabilityPercent: fintechPercent,
+        paymentAmount: Number(paymentAmount),
+        overrideReason: isOverridden ? overrideReason : null,
+        resolutionNotes: resolutionNotes || null,
+      });
+
+      queryClient.invalidateQueries({
+        predicate: query => String(query.queryKey[0] ?? '').startsWith('/api/claims')
+      });
+
+      toast({
+        title: "Resolution submitted",
+        description: "Your resolution decision has been submitted successfully.",
+        variant: "success",
+      });
+      navigate('/claims');
+    } catch (error) {
+      console.error('Error resolving dispute:', error);
+      toast({
+        title: "Error",
+        description: "There was an error submitting the resolution. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
   };
 
   /**
@@ -138,7 +223,7 @@ export default function ClaimDisputePage() {
   // Mock data structured from the screenshot
   const disputeData = {
     id: id,
-    claim_id: `CLM-2025-${id.padStart(3, '0')}`,
+    claim_id: dispute.claim_id || `CLM-2025-${id.padStart(3, '0')}`,
     status: "under_review",
     bank: {
       name: dispute.bank_name || "Metro Credit Union",
@@ -160,7 +245,7 @@ export default function ClaimDisputePage() {
       coverage_amount: 100000,
       deductible: 500
     },
-    dispute_reason: "The bank disputes liability for the PII data loss, claiming the Fintech's security measures were inadequate and violated contractual obligations.",
+    dispute_reason: dispute.dispute?.dispute_details || "The bank disputes liability for the PII data loss, claiming the Fintech's security measures were inadequate and violated contractual obligations.",
     original_claim: {
       type: "PII Data Loss",
       amount: dispute.claim_amount || 50.00,
@@ -242,34 +327,77 @@ export default function ClaimDisputePage() {
                       </div>
                     </div>
 
+                    {canResolve && (
                     <div>
                       <h3 className="text-base font-semibold mb-3">Resolution Decision</h3>
                       <div className="bg-gray-50 p-4 rounded-md">
                         <p className="text-sm font-medium mb-3">Determine the outcome of this PII data loss dispute</p>
                         
-                        <RadioGroup value={selectedLiability || ''} onValueChange={setSelectedLiability} className="space-y-3">
-                          <div className="flex items-start space-x-2">
-                            <RadioGroupItem value="bank" id="bank" className="mt-1" />
-                            <div className="grid gap-1.5">
-                              <Label htmlFor="bank" className="font-medium">Bank Liability</Label>
-                              <p className="text-sm text-muted-foreground">Determine the bank is liable for the PII data loss</p>
+                        {!allocation || fintechPercent === null ? (
+                          <p className="text-sm text-muted-foreground">Calculating the proposed liability allocation...</p>
+                        ) : (
+                          <div className="space-y-4">
+                            <div className="flex items-center justify-between text-sm">
+                              <span>Bank <span className="font-semibold">{100 - fintechPercent}%</span></span>
+                              <span>Fintech <span className="font-semibold">{fintechPercent}%</span></span>
                             </div>
-                          </div>
-                          <div className="flex items-start space-x-2">
-                            <RadioGroupItem value="fintech" id="fintech" className="mt-1" />
-                            <div className="grid gap-1.5">
-                              <Label htmlFor="fintech" className="font-medium">Fintech Liability</Label>
-                              <p className="text-sm text-muted-foreground">Determine the fintech is liable for the PII data loss</p>
+                            <Slider
+                              value={[fintechPercent]}
+                              min={0}
+                              max={100}
+                              step={5}
+                              onValueChange={([value]) => handleFintechPercentChange(value)}
+                            />
+                            <p className="text-xs text-muted-foreground">
+                              Proposed: {allocation.bankPercent}% bank, {allocation.fintechPercent}% fintech,
+                              payment of {formatCurrency(allocation.paymentAmount)}
+                              {isOverridden && <Badge variant="outline" className="ml-2 bg-amber-50 text-amber-600 border-amber-200">Overridden</Badge>}
+                            </p>
+
+                            <div className="max-w-xs">
+                              <Label htmlFor="payment" className="font-medium">Payment Amount</Label>
+                              <Input
+                                id="payment"
+                                type="number"
+                                min={0}
+                                max={allocation.claimAmount}
+                                step="0.01"
+                                className="mt-1.5"
+                                value={paymentAmount}
+                                onChange={(e) => setPaymentAmount(e.target.value)}
+                              />
                             </div>
-                          </div>
-                          <div className="flex items-start space-x-2">
-                            <RadioGroupItem value="shared" id="shared" className="mt-1" />
-                            <div className="grid gap-1.5">
-                              <Label htmlFor="shared" className="font-medium">Shared Liability</Label>
-                              <p className="text-sm text-muted-foreground">Determine both parties share liability for the PII data loss</p>
+
+                            <div>
+                              <p className="text-sm font-medium mb-2">Reasoning</p>
+                              <ul className="space-y-1">
+                                {allocation.factors.map((factor, index) => (
+                                  <li key={index} className="flex items-start justify-between gap-3 text-sm">
+                                    <span className="text-gray-700">{factor.detail}</span>
+                                    {factor.fintechAdjustment !== 0 && (
+                                      <Badge variant="outline" className="shrink-0">
+                                        {factor.fintechAdjustment > 0 ? '+' : ''}{factor.fintechAdjustment}% fintech
+                                      </Badge>
+                                    )}
+                                  </li>
+                                ))}
+                              </ul>
                             </div>
+
+                            {isOverridden && (
+                              <div>
+                                <Label htmlFor="override" className="font-medium">Override Reason</Label>
+                                <Textarea
+                                  id="override"
+                                  placeholder="Explain why the proposed allocation does not apply..."
+                                  className="mt-1.5"
+                                  value={overrideReason}
+                                  onChange={(e) => setOverrideReason(e.target.value)}
+                                />
+                              </div>
+                            )}
                           </div>
-                        </RadioGroup>
+                        )}
                         
                         <div className="mt-4">
                           <Label htmlFor="notes" className="font-medium">Resolution Notes</Label>
@@ -283,6 +411,7 @@ export default function ClaimDisputePage() {
                         </div>
                       </div>
                     </div>
+                    )}
                   </div>
                 </CardContent>
               </Card>
@@ -521,10 +650,14 @@ export default function ClaimDisputePage() {
           </Card>
         </div>
 
-        <div className="flex justify-end space-x-4 mt-6">
-          <Button variant="outline" onClick={handleSaveDraft}>Save Draft</Button>
-          <Button onClick={handleSubmitResolution}>Submit Resolution</Button>
-        </div>
+        {canResolve && (
+          <div className="flex justify-end space-x-4 mt-6">
+            <Button variant="outline" onClick={handleSaveDraft}>Save Draft</Button>
+            <Button onClick={handleSubmitResolution} disabled={isSubmitting || !allocation || dispute.is_resolved}>
+              {isSubmitting ? 'Submitting...' : 'Submit Resolution'}
+            </Button>
+          </div>
+        )}
       </PageTemplate>
     </DashboardLayout>
   );
@@ -3,11 +3,12 @@ import { useQuery } from '@tanstack/react-query';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { PlusCircle, AlertTriangle, CheckCircle, Clock, GitBranch } from 'lucide-react';
+import { PlusCircle, AlertTriangle, CheckCircle, Clock, GitBranch, Upload } from 'lucide-react';
 import { Skeleton } from '@/components/ui/skeleton';
 import { useToast } from '@/hooks/use-toast';
 import ClaimsTable from '@/components/claims/ClaimsTable';
 import NewClaimModal from '@/components/claims/NewClaimModal';
+import ClaimImportModal from '@/components/claims/ClaimImportModal';
 import { ClaimsProcessFlowChart } from '@/components/claims/ClaimsProcessFlowChart';
 import PageHeader from '@/components/layout/PageHeader';
 import { DashboardLayout } from '@/layouts/DashboardLayout';
@@ -16,16 +17,21 @@ import { ClaimsTutorial } from '@/components/tutorial/tabs/ClaimsTutorial';
 import { createTutorialLogger } from '@/lib/tutorial-logger';
 import { LoadingSpinner } from '@/components/ui/loading-spinner';
 import { ClaimsTableLoadingSkeleton } from '@/components/claims/ClaimsTableSkeleton';
+import { useClaimUpdates } from '@/services/websocket-service';
 
 // Create a dedicated logger for the Claims page
 const logger = createTutorialLogger('ClaimsPage');
 
 export default function ClaimsPage() {
   const [isNewClaimModalOpen, setIsNewClaimModalOpen] = useState(false);
+  const [isImportModalOpen, setIsImportModalOpen] = useState(false);
   const [activeTab, setActiveTab] = useState('active');
   const [drawerOpen, setDrawerOpen] = useState(false);
   const { toast } = useToast();
   
+  // Refresh claims when any of them changes status
+  useClaimUpdates();
+  
   // Log when the claims page mounts for debugging
   useEffect(() => {
     logger.info('Claims Management page mounted');
@@ -63,6 +69,16 @@ export default function ClaimsPage() {
     activeClaims.refetch();
   };
 
+  const handleClaimsImported = (created: number) => {
+    setIsImportModalOpen(false);
+    toast({
+      title: "Claims imported",
+      description: `${created} claim${created === 1 ? '' : 's'} added to your active claims.`,
+      variant: "success",
+    });
+    activeClaims.refetch();
+  };
+
   // Log when the claims page mounts for debugging purposes
   useEffect(() => {
     logger.info('ClaimsPage: Component mounted');
@@ -80,10 +96,16 @@ export default function ClaimsPage() {
         title="Claims Management"
         description="Track and manage your PII data loss claims"
         headerActions={
-          <Button onClick={handleCreateClaim}>
-            <PlusCircle className="mr-2 h-4 w-4" />
-            New Claim
-          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setIsImportModalOpen(true)}>
+              <Upload className="mr-2 h-4 w-4" />
+              Import CSV
+            </Button>
+            <Button onClick={handleCreateClaim}>
+              <PlusCircle className="mr-2 h-4 w-4" />
+              New Claim
+            </Button>
+          </div>
         }
       >
         <div className="space-y-6">
@@ -164,6 +186,12 @@ export default function ClaimsPage() {
             onClose={() => setIsNewClaimModalOpen(false)} 
             onClaimCreated={handleClaimCreated}
           />
+
+          <ClaimImportModal
+            open={isImportModalOpen}
+            onClose={() => setIsImportModalOpen(false)}
+            onImported={handleClaimsImported}
+          />
         </div>
       </PageTemplate>
     </DashboardLayout>
@@ -202,7 +230,7 @@ function ProcessFlowContent() {
     <Card>
       <CardHeader>
         <CardTitle>Claims Process Flow</CardTitle>
-        <CardDescription>Interactive visualization of the PII data loss claims dispute resolution process</CardDescription>
+        <CardDescription>How claims have moved through their statuses, with the number of claims taking each step</CardDescription>
       </CardHeader>
       <CardContent>
         <ClaimsProcessFlowChart />
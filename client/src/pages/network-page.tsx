@@ -56,6 +56,7 @@ import { InviteModal } from "@/components/playground/InviteModal";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
 import { AccreditationStatusDisplay } from "@/components/company/AccreditationStatusDisplay";
+import { useAccreditationUpdates } from "@/services/websocket-service";
 
 interface NetworkRelationship {
   id: number;
@@ -163,6 +164,9 @@ export default function NetworkPage() {
   const [openFinTechModal, setOpenFinTechModal] = useState(false);
   const { user } = useAuth();
 
+  // Keep accreditation badges current when a bank suspends or revokes a member
+  useAccreditationUpdates();
+
   // Load filters from URL on mount
   useEffect(() => {
     const params = new URLSearchParams(window.location.search);
@@ -33,8 +33,23 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Gauge } from "lucide-react";
 import { TutorialManager } from "@/components/tutorial/TutorialManager";
+import { useQuery } from "@tanstack/react-query";
+import { useCurrentCompany } from "@/hooks/use-current-company";
+import {
+  RiskClusterBreakdown,
+  FieldContributionTable,
+  type RiskScoreExplanationData
+} from "@/components/risk-score/RiskScoreExplanation";
 
 export default function RiskScorePage() {
+  const { company } = useCurrentCompany();
+
+  // Score broken down by cluster and by answer, as computed by the server
+  const { data: explanation, isLoading: isLoadingExplanation } = useQuery<RiskScoreExplanationData>({
+    queryKey: [`/api/companies/${company?.id}/risk-score/explanation`],
+    enabled: !!company?.id,
+  });
+
   return (
     <DashboardLayout>
       <PageTemplate>
@@ -52,10 +67,14 @@ export default function RiskScorePage() {
             <div className="flex flex-col md:flex-row items-center justify-between gap-4">
               <div>
                 <h2 className="text-2xl font-semibold">Current Score</h2>
-                <p className="text-muted-foreground">Last updated: April 25, 2025</p>
+                <p className="text-muted-foreground">
+                  {explanation ? `Explained as of ${new Date(explanation.generatedAt).toLocaleDateString()}` : 'Loading score details'}
+                </p>
               </div>
               <div className="bg-primary/10 rounded-full p-8 flex items-center justify-center">
-                <span className="text-4xl font-bold text-primary">89</span>
+                <span className="text-4xl font-bold text-primary">
+                  {explanation?.riskScore ?? '—'}
+                </span>
               </div>
             </div>
           </Card>
@@ -76,12 +95,30 @@ export default function RiskScorePage() {
                 <CardTitle>Risk Breakdown</CardTitle>
                 <CardDescription>Score components by category</CardDescription>
               </CardHeader>
-              <CardContent className="h-72">
-                <Skeleton className="h-full w-full" />
+              <CardContent className="h-72 overflow-auto">
+                {isLoadingExplanation || !explanation ? (
+                  <Skeleton className="h-full w-full" />
+                ) : (
+                  <RiskClusterBreakdown explanation={explanation} />
+                )}
               </CardContent>
             </Card>
           </div>
 
+          <Card>
+            <CardHeader>
+              <CardTitle>Score Explanation</CardTitle>
+              <CardDescription>Each answer, its weight, the points it earned and the rule that awarded them</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {isLoadingExplanation || !explanation ? (
+                <Skeleton className="h-48 w-full" />
+              ) : (
+                <FieldContributionTable explanation={explanation} />
+              )}
+            </CardContent>
+          </Card>
+
           <Card>
             <CardHeader>
               <CardTitle>Recommendations</CardTitle>
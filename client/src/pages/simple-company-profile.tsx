@@ -9,13 +9,18 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Input } from "@/components/ui/input";
-import { Building2, ArrowLeft, Globe, Users, Calendar, Shield, User, Target, TrendingUp, Search as SearchIcon, X } from "lucide-react";
+import { Building2, ArrowLeft, Globe, Users, Calendar, Shield, User, Target, TrendingUp, Search as SearchIcon, X, FileBadge } from "lucide-react";
 import { CompanyLogo } from "@/components/ui/company-logo";
 import { RiskRadarChart } from "@/components/insights/RiskRadarChart";
 import RiskMonitoringInsight from "@/components/insights/RiskMonitoringInsight";
-import { calculateRiskStatus } from "@/lib/riskCalculations";
+import { type CompanyRiskStatusResponse } from "@/lib/riskCalculations";
 import { RiskTrendIndicator } from "@/components/risk/RiskTrendIndicator";
 import { RiskStatusSummary } from "@/components/risk/RiskStatusSummary";
+import { AccreditationActionsDialog } from "@/components/company/AccreditationActionsDialog";
+import { AccreditationConditionsCard } from "@/components/company/AccreditationConditionsCard";
+import { AccreditationComparisonPanel } from "@/components/company/AccreditationComparisonPanel";
+import { useCurrentCompany } from "@/hooks/use-current-company";
+import { useAccreditationUpdates } from "@/services/websocket-service";
 import Fuse from 'fuse.js';
 
 interface CompanyData {
@@ -35,6 +40,8 @@ interface AccreditationData {
   expiresDate: string | null;
   status: string;
   daysUntilExpiration: number | null;
+  conditional?: boolean;
+  outstandingConditions?: number;
   isPermanent: boolean;
 }
 
@@ -67,6 +74,10 @@ export default function SimpleCompanyProfile() {
   const [location, navigate] = useLocation();
   const [searchTerm, setSearchTerm] = useState("");
   const { user, isLoading: authLoading } = useAuth();
+  const { company: viewerCompany } = useCurrentCompany();
+
+  // Refresh the profile when this company's accreditation changes elsewhere
+  useAccreditationUpdates();
 
   // Parse URL query parameters to get the tab
   const getTabFromURL = (): string => {
@@ -163,62 +174,29 @@ export default function SimpleCompanyProfile() {
     enabled: !!companyId && !authLoading,
   });
 
-  // Fetch companies with risk data to calculate risk monitoring status
-  const { data: companiesWithRisk = [] } = useQuery<any[]>({
-    queryKey: ['/api/companies-with-risk'],
+  // Fetch the server-decided risk monitoring status for this company
+  const { data: riskStatusResponse } = useQuery<CompanyRiskStatusResponse>({
+    queryKey: [`/api/risk-monitoring/status?companyId=${companyId}`],
     enabled: !!user && !!companyId,
   });
 
-  // Calculate risk monitoring status for the current company using the same logic as Risk Monitoring widget
+  // Map the risk monitoring status to its badge presentation
   const riskStatus = useMemo(() => {
-    if (!companiesWithRisk || companiesWithRisk.length === 0 || !companyId) {
-      return { status: 'Stable', color: 'gray', description: 'No risk data available' };
-    }
-
-    const companyIdNum = parseInt(companyId);
-    
-    // Find the current company in the risk data
-    const currentCompanyRisk = companiesWithRisk.find(comp => comp.id === companyIdNum);
-
-    if (!currentCompanyRisk) {
-      return { status: 'Stable', color: 'gray', description: 'No risk data for this company' };
-    }
-
-    // Use actual risk score from the company data
-    const currentScore = currentCompanyRisk.risk_score || currentCompanyRisk.riskScore || 75;
-    
-    // Generate a realistic previous score for comparison (this mimics the Risk Monitoring widget logic)
-    const variation = Math.random() * 10 - 5; // Random variation between -5 and +5
-    const previousScore = Math.max(20, Math.min(95, currentScore + variation));
-    
-    try {
-      // Use the same risk calculation as the Risk Monitoring widget
-      const threshold = 40; // Same threshold used in the dashboard
-      
-      // Calculate status using the same logic
-      if (currentScore < threshold) {
-        return { status: 'Blocked', color: 'red', description: 'Risk threshold exceeded' };
-      }
-      
-      const percentToThreshold = ((currentScore - threshold) / (100 - threshold)) * 100;
-      const scoreChange = previousScore - currentScore;
-      const hasDeteriorated = scoreChange > 5; // Same threshold as DEFAULT_CONFIG.deteriorationThreshold
-      
-      if (percentToThreshold < 30 && hasDeteriorated) { // Same as DEFAULT_CONFIG.approachingBlockPercentage
-        return { status: 'Approaching Block', color: 'orange', description: 'Approaching risk threshold' };
-      }
-      
-      if (hasDeteriorated) {
-        return { status: 'Monitoring', color: 'yellow', description: 'Under risk monitoring' };
-      }
-      
-      return { status: 'Stable', color: 'green', description: 'Risk level stable' };
-      
-    } catch (error) {
-      console.error('Error calculating risk status:', error);
-      return { status: 'Stable', color: 'green', description: 'Risk level stable' };
+    const status = riskStatusResponse?.company?.status;
+
+    switch (status) {
+      case 'Blocked':
+        return { status, color: 'red', description: 'Risk threshold exceeded' };
+      case 'Approaching Block':
+        return { status, color: 'orange', description: 'Approaching risk threshold' };
+      case 'Monitoring':
+        return { status, color: 'yellow', description: 'Under risk monitoring' };
+      case 'Stable':
+        return { status, color: 'green', description: 'Risk level stable' };
+      default:
+        return { status: 'Stable', color: 'gray', description: 'No risk data for this company' };
     }
-  }, [companiesWithRisk, companyId]);
+  }, [riskStatusResponse]);
 
   // Fetch users associated with this company
   const { data: usersResponse, isLoading: usersLoading } = useQuery<CompanyUsersResponse>({
@@ -381,9 +359,10 @@ export default function SimpleCompanyProfile() {
                 {/* Accreditation Status Box */}
                 <div className="border rounded-lg flex flex-col h-16 px-3 min-w-[130px] relative overflow-hidden">
                   <div className={`absolute top-0 left-0 right-0 h-1 bg-gradient-to-r ${
+                    accreditationData?.conditional ? 'from-yellow-600 to-yellow-300' :
                     (accreditationData?.status === 'ACTIVE' || company?.accreditation_status === 'APPROVED') ? 'from-green-600 to-green-300' :
                     company?.accreditation_status === 'PENDING' ? 'from-orange-600 to-orange-300' :
-                    company?.accreditation_status === 'EXPIRED' ? 'from-red-600 to-red-300' :
+                    ['EXPIRED', 'SUSPENDED', 'REVOKED'].includes(company?.accreditation_status ?? '') ? 'from-red-600 to-red-300' :
                     'from-gray-600 to-gray-300'
                   }`}></div>
                   <div className="flex flex-col items-center justify-center h-full py-2">
@@ -391,10 +370,33 @@ export default function SimpleCompanyProfile() {
                       Accreditation
                     </span>
                     <span className="text-lg font-bold text-gray-900">
-                      {accreditationData?.status === 'ACTIVE' ? 'APPROVED' : (company?.accreditation_status || 'PENDING')}
+                      {accreditationData?.status === 'ACTIVE'
+                        ? (accreditationData.conditional ? 'CONDITIONAL' : 'APPROVED')
+                        : (company?.accreditation_status || 'PENDING')}
                     </span>
                   </div>
                 </div>
+
+                {/* Signed accreditation certificate for the company and its managers */}
+                {company && accreditationData && viewerCompany &&
+                  (viewerCompany.id === company.id || ['Bank', 'Invela'].includes(viewerCompany.category ?? '')) && (
+                  <Button variant="outline" size="sm" className="h-16 flex items-center gap-2" asChild>
+                    <a href={`/api/accreditation/${company.id}/certificate?format=pdf`} download>
+                      <FileBadge className="h-4 w-4" />
+                      Certificate
+                    </a>
+                  </Button>
+                )}
+
+                {/* Accreditation actions for banks and Invela */}
+                {company && viewerCompany && viewerCompany.id !== company.id &&
+                  ['Bank', 'Invela'].includes(viewerCompany.category ?? '') && (
+                  <AccreditationActionsDialog
+                    companyId={company.id}
+                    companyName={company.name}
+                    accreditationStatus={company.accreditation_status}
+                  />
+                )}
               </div>
             </div>
           </div>
@@ -421,6 +423,21 @@ export default function SimpleCompanyProfile() {
                 <TabsContent value="overview" className="m-0 focus-visible:outline-none focus-visible:ring-0">
                   <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
 
+                    {/* Remediation conditions of a conditional accreditation */}
+                    {company && viewerCompany && (
+                      <AccreditationConditionsCard
+                        companyId={company.id}
+                        canManage={viewerCompany.id !== company.id && ['Bank', 'Invela'].includes(viewerCompany.category ?? '')}
+                        isOwnCompany={viewerCompany.id === company.id}
+                        hasActiveAccreditation={accreditationData?.status === 'ACTIVE'}
+                      />
+                    )}
+
+                    {/* Comparison of the company's accreditations, e.g. a renewal against last year */}
+                    {company && viewerCompany &&
+                      (viewerCompany.id === company.id || ['Bank', 'Invela'].includes(viewerCompany.category ?? '')) && (
+                      <AccreditationComparisonPanel companyId={company.id} />
+                    )}
 
                     {/* Essential Details */}
                     <Card className="lg:col-span-2">
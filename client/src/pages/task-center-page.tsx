@@ -37,6 +37,7 @@ import { useAuth } from "@/hooks/use-auth";
 import { logger } from "@/utils/client-logger";
 
 import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
 import { cn } from "@/lib/utils";
 import { Badge } from "@/components/ui/badge";
 import { 
@@ -92,6 +93,9 @@ interface Task {
   metadata: Record<string, any> | null;
 }
 
+// Status filter option listing open tasks past their due date
+const OVERDUE_FILTER = "Overdue";
+
 export default function TaskCenterPage() {
   const [statusFilter, setStatusFilter] = useState("All Statuses");
   const [typeFilter, setTypeFilter] = useState("All Task Types");
@@ -132,6 +136,17 @@ export default function TaskCenterPage() {
     }
   });
 
+  // Overdue tasks are decided by the server, which knows each task's SLA
+  const isOverdueFilter = statusFilter === OVERDUE_FILTER;
+  const { data: overdueTasks = [] } = useQuery<Task[]>({
+    queryKey: ["/api/tasks", "overdue"],
+    queryFn: () => apiRequest<Task[]>("/api/tasks?overdue=true"),
+    enabled: isOverdueFilter,
+    staleTime: 5000,
+    refetchInterval: isOverdueFilter && !wsConnected ? 15000 : false
+  });
+  const overdueTaskIds = new Set(overdueTasks.map(task => task.id));
+
   const { data: currentCompany, isLoading: isCompanyLoading } = useQuery<Company>({
     queryKey: ["/api/companies/current"],
     staleTime: 5 * 60 * 1000,
@@ -454,7 +469,11 @@ export default function TaskCenterPage() {
   // Apply filters to tasks
   const applyFilters = (task: Task): boolean => {
     // Status filter
-    if (statusFilter !== "All Statuses" && task.status !== statusFilter) {
+    if (isOverdueFilter) {
+      if (!overdueTaskIds.has(task.id)) {
+        return false;
+      }
+    } else if (statusFilter !== "All Statuses" && task.status !== statusFilter) {
       return false;
     }
     
@@ -734,6 +753,7 @@ export default function TaskCenterPage() {
                         <SelectItem value={TaskStatus.APPROVED}>Approved</SelectItem>
                         <SelectItem value={TaskStatus.EMAIL_SENT}>Email Sent</SelectItem>
                         <SelectItem value={TaskStatus.COMPLETED}>Completed</SelectItem>
+                        <SelectItem value={OVERDUE_FILTER}>Overdue</SelectItem>
                       </SelectContent>
                     </Select>
 
@@ -18,6 +18,8 @@
  * - Global: Application-wide template settings
  * - Section: Section-specific configurations
  * - Field: Individual field-level customizations
+ * - Bank: Task defaults for the companies in a bank's network
+ * - Company: Task defaults for a single company
  * 
  * Template Types:
  * - KYB assessment templates
@@ -43,7 +45,7 @@ export interface TemplateConfiguration {
   template_id: number;
   config_key: string;
   config_value: any;
-  scope: 'global' | 'section' | 'field';
+  scope: 'global' | 'section' | 'field' | 'bank' | 'company';
   scope_target?: string;
   created_at: Date | null;
   updated_at: Date | null;
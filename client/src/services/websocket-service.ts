@@ -27,6 +27,7 @@
  */
 
 import { useState, useEffect, useRef, useCallback } from 'react';
+import { queryClient } from '@/lib/queryClient';
 
 // Types for WebSocket messages
 export type MessageType = 
@@ -38,6 +39,8 @@ export type MessageType =
   | 'tutorial_progress'
   | 'tutorial_completed'
   | 'task_updated'
+  | 'accreditation_updated'
+  | 'claim_updated'
   | 'error';
 
 export interface WebSocketMessage {
@@ -68,6 +71,26 @@ export interface TutorialCompletedMessage extends WebSocketMessage {
   tabName: string;
 }
 
+export interface AccreditationUpdatedMessage extends WebSocketMessage {
+  type: 'accreditation_updated';
+  companyId: number;
+  accreditationId: number;
+  action: string;
+  status: string;
+  accreditationStatus: string;
+  reasonCode: string;
+}
+
+export interface ClaimUpdatedMessage extends WebSocketMessage {
+  type: 'claim_updated';
+  claimId: number;
+  claimNumber: string;
+  fromStatus: string | null;
+  status: string;
+  companyId: number;
+  fintechCompanyId: number | null;
+}
+
 // Main WebSocket service class
 class WebSocketService {
   private socket: WebSocket | null = null;
@@ -438,4 +461,49 @@ export function useTutorialWebSocket(tabName: string) {
   };
 }
 
+// React hook that refreshes company and network data when an accreditation changes
+export function useAccreditationUpdates() {
+  const { isConnected, addEventListener } = useWebSocket();
+  
+  useEffect(() => {
+    if (!isConnected) return;
+    
+    const removeListener = addEventListener('accreditation_updated', (data: AccreditationUpdatedMessage) => {
+      console.log('[WebSocket] Received accreditation update:', data);
+      queryClient.invalidateQueries({
+        predicate: query => {
+          const key = String(query.queryKey[0] ?? '');
+          return key.startsWith(`/api/companies/${data.companyId}`) ||
+            key.startsWith('/api/relationships') ||
+            key.startsWith('/api/network');
+        }
+      });
+    });
+    
+    return () => {
+      removeListener();
+    };
+  }, [isConnected, addEventListener]);
+}
+
+// React hook that refreshes claims data when a claim changes status
+export function useClaimUpdates() {
+  const { isConnected, addEventListener } = useWebSocket();
+  
+  useEffect(() => {
+    if (!isConnected) return;
+    
+    const removeListener = addEventListener('claim_updated', (data: ClaimUpdatedMessage) => {
+      console.log('[WebSocket] Received claim update:', data);
+      queryClient.invalidateQueries({
+        predicate: query => String(query.queryKey[0] ?? '').startsWith('/api/claims')
+      });
+    });
+    
+    return () => {
+      removeListener();
+    };
+  }, [isConnected, addEventListener]);
+}
+
 export default websocketService;
\ No newline at end of file
@@ -151,6 +151,17 @@ const combinedSchema = {
  */
 export const db = drizzle(pool, { schema: combinedSchema });
 
+/**
+ * Transaction handed to db.transaction callbacks
+ */
+export type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+/**
+ * Database or transaction a query can run on, for services that join a
+ * caller's transaction
+ */
+export type DbExecutor = typeof db | DbTransaction;
+
 // ========================================
 // GRACEFUL SHUTDOWN HANDLING
 // ========================================
@@ -0,0 +1,28 @@
+import { db } from "@db";
+import { sql } from "drizzle-orm";
+
+/**
+ * Creates the accreditation_certificates table, holding the signed
+ * certificate document issued for each accreditation.
+ */
+export async function addAccreditationCertificates() {
+  try {
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS accreditation_certificates (
+        id SERIAL PRIMARY KEY,
+        certificate_id TEXT NOT NULL UNIQUE,
+        accreditation_id INTEGER NOT NULL UNIQUE REFERENCES accreditation_history(id),
+        company_id INTEGER NOT NULL REFERENCES companies(id),
+        document JSONB NOT NULL,
+        signature TEXT NOT NULL,
+        key_id TEXT NOT NULL,
+        created_at TIMESTAMP DEFAULT NOW()
+      );
+    `);
+
+    console.log('Successfully created accreditation_certificates table');
+  } catch (error) {
+    console.error('Error creating accreditation_certificates table:', error);
+    throw error;
+  }
+}
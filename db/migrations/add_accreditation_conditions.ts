@@ -0,0 +1,52 @@
+import { db } from "@db";
+import { sql } from "drizzle-orm";
+
+/**
+ * Creates the accreditation_conditions table, holding the remediation
+ * conditions banks attach to conditional accreditations, with the evidence
+ * submitted for each and the bank's review of it.
+ */
+export async function addAccreditationConditions() {
+  try {
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS accreditation_conditions (
+        id SERIAL PRIMARY KEY,
+        accreditation_id INTEGER NOT NULL REFERENCES accreditation_history(id),
+        company_id INTEGER NOT NULL REFERENCES companies(id),
+        description TEXT NOT NULL,
+        form_type TEXT NOT NULL,
+        field_key TEXT NOT NULL,
+        owner_id INTEGER NOT NULL REFERENCES users(id),
+        due_date TIMESTAMP NOT NULL,
+        evidence_requirement TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'open',
+        evidence TEXT,
+        evidence_file_id INTEGER REFERENCES files(id),
+        evidence_submitted_by INTEGER REFERENCES users(id),
+        evidence_submitted_at TIMESTAMP,
+        review_note TEXT,
+        reviewed_by INTEGER REFERENCES users(id),
+        reviewed_at TIMESTAMP,
+        created_by INTEGER NOT NULL REFERENCES users(id),
+        created_by_company_id INTEGER NOT NULL REFERENCES companies(id),
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      );
+    `);
+
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS accreditation_conditions_status_due_idx
+      ON accreditation_conditions (status, due_date);
+    `);
+
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS accreditation_conditions_company_idx
+      ON accreditation_conditions (company_id);
+    `);
+
+    console.log('Successfully created accreditation_conditions table');
+  } catch (error) {
+    console.error('Error creating accreditation_conditions table:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,27 @@
+import { db } from "@db";
+import { sql } from "drizzle-orm";
+
+/**
+ * Adds renewal tracking to accreditation_history: the renewal assessment
+ * task created before expiry and the reminders (days before expiry) that
+ * have already been sent, so the expiry sweeper never repeats them.
+ */
+export async function addAccreditationRenewalTracking() {
+  try {
+    await db.execute(sql`
+      ALTER TABLE accreditation_history
+        ADD COLUMN IF NOT EXISTS renewal_task_id INTEGER REFERENCES tasks(id),
+        ADD COLUMN IF NOT EXISTS renewal_reminders_sent JSONB DEFAULT '[]'::jsonb;
+    `);
+
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS accreditation_history_status_expires_idx
+      ON accreditation_history (status, expires_date);
+    `);
+
+    console.log('Successfully added accreditation renewal tracking columns');
+  } catch (error) {
+    console.error('Error adding accreditation renewal tracking columns:', error);
+    throw error;
+  }
+}
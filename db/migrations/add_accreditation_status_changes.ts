@@ -0,0 +1,37 @@
+import { db } from "@db";
+import { sql } from "drizzle-orm";
+
+/**
+ * Creates the accreditation_status_changes table, the audit trail of
+ * accreditation suspensions, reinstatements and revocations with the
+ * reason code and justification given for each.
+ */
+export async function addAccreditationStatusChanges() {
+  try {
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS accreditation_status_changes (
+        id SERIAL PRIMARY KEY,
+        accreditation_id INTEGER NOT NULL REFERENCES accreditation_history(id),
+        company_id INTEGER NOT NULL REFERENCES companies(id),
+        action TEXT NOT NULL,
+        from_status TEXT NOT NULL,
+        to_status TEXT NOT NULL,
+        reason_code TEXT NOT NULL,
+        justification TEXT NOT NULL,
+        changed_by INTEGER NOT NULL REFERENCES users(id),
+        changed_by_company_id INTEGER NOT NULL REFERENCES companies(id),
+        created_at TIMESTAMP DEFAULT NOW()
+      );
+    `);
+
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS accreditation_status_changes_company_idx
+      ON accreditation_status_changes (company_id, created_at);
+    `);
+
+    console.log('Successfully created accreditation_status_changes table');
+  } catch (error) {
+    console.error('Error creating accreditation_status_changes table:', error);
+    throw error;
+  }
+}
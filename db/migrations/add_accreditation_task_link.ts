@@ -0,0 +1,36 @@
+import { db } from "@db";
+import { sql } from "drizzle-orm";
+
+/**
+ * Adds accreditation_history.task_id, the Open Banking submission an
+ * accreditation was issued for, so the answers behind two accreditations
+ * can be compared. Existing entries are linked to the company's latest
+ * Open Banking task completed by the time the accreditation was issued.
+ */
+export async function addAccreditationTaskLink() {
+  try {
+    await db.execute(sql`
+      ALTER TABLE accreditation_history
+      ADD COLUMN IF NOT EXISTS task_id INTEGER REFERENCES tasks(id);
+    `);
+
+    await db.execute(sql`
+      UPDATE accreditation_history ah
+      SET task_id = (
+        SELECT t.id FROM tasks t
+        WHERE t.company_id = ah.company_id
+          AND t.task_type = 'open_banking'
+          AND t.completion_date IS NOT NULL
+          AND t.completion_date <= ah.issued_date + INTERVAL '5 minutes'
+        ORDER BY t.completion_date DESC
+        LIMIT 1
+      )
+      WHERE ah.task_id IS NULL;
+    `);
+
+    console.log('Successfully linked accreditation_history to submission tasks');
+  } catch (error) {
+    console.error('Error linking accreditation_history to submission tasks:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,26 @@
+import { db } from "@db";
+import { sql } from "drizzle-orm";
+
+/**
+ * Adds the scoring_rules column to kyb_fields and ky3p_fields. Fields
+ * without stored rules are scored on the content of their answer by the
+ * risk cluster calculation; rules stored here override that per field.
+ */
+export async function addAssessmentScoringRules() {
+  try {
+    await db.execute(sql`
+      ALTER TABLE kyb_fields
+      ADD COLUMN IF NOT EXISTS scoring_rules JSONB DEFAULT NULL;
+    `);
+
+    await db.execute(sql`
+      ALTER TABLE ky3p_fields
+      ADD COLUMN IF NOT EXISTS scoring_rules JSONB DEFAULT NULL;
+    `);
+
+    console.log('Successfully added assessment scoring rules columns');
+  } catch (error) {
+    console.error('Error adding assessment scoring rules columns:', error);
+    throw error;
+  }
+}
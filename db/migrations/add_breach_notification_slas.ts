@@ -0,0 +1,40 @@
+import { db } from "@db";
+import { sql } from "drizzle-orm";
+
+/**
+ * Creates the breach_notification_slas table, holding the deadline each bank
+ * sets for reporting a breach after its discovery, either as the bank's
+ * default or for a specific policy, and adds the points a data recipient's
+ * late notifications take off its risk score.
+ */
+export async function addBreachNotificationSlas() {
+  try {
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS breach_notification_slas (
+        id SERIAL PRIMARY KEY,
+        bank_company_id INTEGER NOT NULL REFERENCES companies(id),
+        policy_number TEXT,
+        notification_hours INTEGER NOT NULL,
+        created_by INTEGER REFERENCES users(id),
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      );
+    `);
+
+    // One default and one deadline per policy for each bank
+    await db.execute(sql`
+      CREATE UNIQUE INDEX IF NOT EXISTS breach_notification_slas_scope_idx
+      ON breach_notification_slas (bank_company_id, COALESCE(policy_number, ''));
+    `);
+
+    await db.execute(sql`
+      ALTER TABLE companies
+      ADD COLUMN IF NOT EXISTS late_notification_deduction INTEGER NOT NULL DEFAULT 0;
+    `);
+
+    console.log('Successfully created breach_notification_slas table');
+  } catch (error) {
+    console.error('Error creating breach_notification_slas table:', error);
+    throw error;
+  }
+}
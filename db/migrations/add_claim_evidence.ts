@@ -0,0 +1,86 @@
+import { db } from "@db";
+import { sql } from "drizzle-orm";
+
+/**
+ * Creates the claim_evidence table of vault files attached to claims,
+ * breaches and disputes, and the claim_evidence_access_log table recording
+ * their chain of custody. Both are append-only: triggers reject updates and
+ * deletes so attached evidence and its log cannot be altered, except deletes
+ * by the demo data cleanup, which opts in for its own transaction.
+ */
+export async function addClaimEvidence() {
+  try {
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS claim_evidence (
+        id SERIAL PRIMARY KEY,
+        claim_id INTEGER NOT NULL REFERENCES claims(id),
+        target TEXT NOT NULL,
+        breach_id INTEGER REFERENCES claim_breaches(id),
+        dispute_id INTEGER REFERENCES claim_disputes(id),
+        file_id INTEGER NOT NULL REFERENCES files(id),
+        file_name TEXT NOT NULL,
+        file_type TEXT NOT NULL,
+        file_size INTEGER NOT NULL,
+        sha256 TEXT NOT NULL,
+        description TEXT,
+        attached_by INTEGER NOT NULL REFERENCES users(id),
+        attached_by_company_id INTEGER NOT NULL REFERENCES companies(id),
+        created_at TIMESTAMP DEFAULT NOW()
+      );
+    `);
+
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS claim_evidence_access_log (
+        id SERIAL PRIMARY KEY,
+        claim_id INTEGER NOT NULL REFERENCES claims(id),
+        evidence_id INTEGER REFERENCES claim_evidence(id),
+        action TEXT NOT NULL,
+        user_id INTEGER REFERENCES users(id),
+        company_id INTEGER REFERENCES companies(id),
+        created_at TIMESTAMP DEFAULT NOW()
+      );
+    `);
+
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS claim_evidence_claim_idx ON claim_evidence (claim_id);
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS claim_evidence_access_log_claim_idx ON claim_evidence_access_log (claim_id);
+    `);
+
+    await db.execute(sql`
+      CREATE OR REPLACE FUNCTION reject_claim_evidence_change() RETURNS trigger AS $$
+      BEGIN
+        -- Demo data cleanup may delete rows within a transaction that opts in
+        IF TG_OP = 'DELETE' AND current_setting('claim_evidence.allow_purge', true) = 'on' THEN
+          RETURN OLD;
+        END IF;
+        RAISE EXCEPTION '% rows are immutable', TG_TABLE_NAME;
+      END;
+      $$ LANGUAGE plpgsql;
+    `);
+
+    await db.execute(sql`
+      DROP TRIGGER IF EXISTS claim_evidence_immutable ON claim_evidence;
+    `);
+    await db.execute(sql`
+      CREATE TRIGGER claim_evidence_immutable
+      BEFORE UPDATE OR DELETE ON claim_evidence
+      FOR EACH ROW EXECUTE FUNCTION reject_claim_evidence_change();
+    `);
+
+    await db.execute(sql`
+      DROP TRIGGER IF EXISTS claim_evidence_access_log_immutable ON claim_evidence_access_log;
+    `);
+    await db.execute(sql`
+      CREATE TRIGGER claim_evidence_access_log_immutable
+      BEFORE UPDATE OR DELETE ON claim_evidence_access_log
+      FOR EACH ROW EXECUTE FUNCTION reject_claim_evidence_change();
+    `);
+
+    console.log('Successfully created claim evidence tables');
+  } catch (error) {
+    console.error('Error creating claim evidence tables:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,22 @@
+import { db } from "@db";
+import { sql } from "drizzle-orm";
+
+/**
+ * Adds the liability split between bank and FinTech, and the reasoning
+ * behind it, to claim resolutions.
+ */
+export async function addClaimResolutionLiability() {
+  try {
+    await db.execute(sql`
+      ALTER TABLE claim_resolutions
+      ADD COLUMN IF NOT EXISTS bank_liability_percent INTEGER,
+      ADD COLUMN IF NOT EXISTS fintech_liability_percent INTEGER,
+      ADD COLUMN IF NOT EXISTS liability_reasoning JSONB;
+    `);
+
+    console.log('Successfully added liability allocation columns to claim_resolutions');
+  } catch (error) {
+    console.error('Error adding liability allocation columns to claim_resolutions:', error);
+    throw error;
+  }
+}
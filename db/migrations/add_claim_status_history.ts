@@ -0,0 +1,43 @@
+import { db } from "@db";
+import { sql } from "drizzle-orm";
+
+/**
+ * Creates the claim_status_history table, recording every status change of
+ * a claim with who made it and why, and seeds it with the current status of
+ * existing claims so each claim's history starts where it stands today.
+ */
+export async function addClaimStatusHistory() {
+  try {
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS claim_status_history (
+        id SERIAL PRIMARY KEY,
+        claim_id INTEGER NOT NULL REFERENCES claims(id),
+        from_status TEXT,
+        to_status TEXT NOT NULL,
+        note TEXT,
+        changed_by INTEGER REFERENCES users(id),
+        changed_by_company_id INTEGER REFERENCES companies(id),
+        created_at TIMESTAMP DEFAULT NOW()
+      );
+    `);
+
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS claim_status_history_claim_idx
+      ON claim_status_history (claim_id, created_at);
+    `);
+
+    await db.execute(sql`
+      INSERT INTO claim_status_history (claim_id, from_status, to_status, note, changed_by, changed_by_company_id, created_at)
+      SELECT c.id, NULL, c.status, 'Status at the start of status history', c.created_by, c.company_id, COALESCE(c.updated_at, c.created_at, NOW())
+      FROM claims c
+      WHERE NOT EXISTS (
+        SELECT 1 FROM claim_status_history h WHERE h.claim_id = c.id
+      );
+    `);
+
+    console.log('Successfully created claim_status_history table');
+  } catch (error) {
+    console.error('Error creating claim_status_history table:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,37 @@
+import { db } from "@db";
+import { sql } from "drizzle-orm";
+
+/**
+ * Adds claims.fintech_company_id so a claim is visible to the data
+ * recipient it is filed against as well as to the filing company, and
+ * links existing claims to companies with a matching name.
+ */
+export async function addClaimsFintechCompany() {
+  try {
+    await db.execute(sql`
+      ALTER TABLE claims
+      ADD COLUMN IF NOT EXISTS fintech_company_id INTEGER REFERENCES companies(id);
+    `);
+
+    await db.execute(sql`
+      UPDATE claims c
+      SET fintech_company_id = co.id
+      FROM companies co
+      WHERE c.fintech_company_id IS NULL
+        AND LOWER(co.name) = LOWER(c.fintech_name);
+    `);
+
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS claims_company_idx ON claims (company_id);
+    `);
+
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS claims_fintech_company_idx ON claims (fintech_company_id);
+    `);
+
+    console.log('Successfully linked claims to data recipient companies');
+  } catch (error) {
+    console.error('Error linking claims to data recipient companies:', error);
+    throw error;
+  }
+}
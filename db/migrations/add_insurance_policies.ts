@@ -0,0 +1,54 @@
+import { db } from "@db";
+import { sql } from "drizzle-orm";
+
+/**
+ * Creates the insurance_policies table of coverage a bank holds for data it
+ * shares with a FinTech, and links claims to the policy they were priced
+ * against. Existing claims are linked where their free-text policy number
+ * matches a policy.
+ */
+export async function addInsurancePolicies() {
+  try {
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS insurance_policies (
+        id SERIAL PRIMARY KEY,
+        policy_number TEXT NOT NULL UNIQUE,
+        bank_company_id INTEGER NOT NULL REFERENCES companies(id),
+        fintech_company_id INTEGER NOT NULL REFERENCES companies(id),
+        coverage_limit REAL NOT NULL,
+        per_claim_limit REAL,
+        per_record_rate REAL NOT NULL,
+        deductible REAL NOT NULL DEFAULT 0,
+        exclusions JSONB NOT NULL DEFAULT '[]'::jsonb,
+        effective_from TIMESTAMP NOT NULL,
+        effective_to TIMESTAMP,
+        created_by INTEGER REFERENCES users(id),
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      );
+    `);
+
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS insurance_policies_pair_idx
+      ON insurance_policies (bank_company_id, fintech_company_id);
+    `);
+
+    await db.execute(sql`
+      ALTER TABLE claims
+      ADD COLUMN IF NOT EXISTS policy_id INTEGER REFERENCES insurance_policies(id);
+    `);
+
+    await db.execute(sql`
+      UPDATE claims
+      SET policy_id = insurance_policies.id
+      FROM insurance_policies
+      WHERE claims.policy_id IS NULL
+        AND claims.policy_number = insurance_policies.policy_number;
+    `);
+
+    console.log('Successfully created insurance_policies table');
+  } catch (error) {
+    console.error('Error creating insurance_policies table:', error);
+    throw error;
+  }
+}
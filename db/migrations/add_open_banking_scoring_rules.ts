@@ -0,0 +1,71 @@
+import { db } from "@db";
+import { sql } from "drizzle-orm";
+
+/**
+ * Adds the scoring_rules column to open_banking_fields and seeds default
+ * rules for every field type, judged on the content of the answer, so that
+ * every field has a deterministic score.
+ */
+export async function addOpenBankingScoringRules() {
+  try {
+    await db.execute(sql`
+      ALTER TABLE open_banking_fields
+      ADD COLUMN IF NOT EXISTS scoring_rules JSONB DEFAULT NULL;
+    `);
+
+    // Yes/No questions: an affirmative answer earns the full 10 points
+    await db.execute(sql`
+      UPDATE open_banking_fields
+      SET scoring_rules = '{
+        "max_points": 10,
+        "default_points": 0,
+        "rules": [
+          { "operator": "equals", "value": "yes", "points": 10, "reasoning": "Control confirmed in place" },
+          { "operator": "equals", "value": "true", "points": 10, "reasoning": "Control confirmed in place" },
+          { "operator": "equals", "value": "no", "points": 0, "reasoning": "Control not in place" }
+        ]
+      }'::jsonb
+      WHERE scoring_rules IS NULL AND field_type = 'BOOLEAN';
+    `);
+
+    // Every other field is scored on the content of its answer: a confirmed
+    // control earns full points, a denied one none, and an answer that does
+    // neither half, so answering alone does not earn full points
+    await db.execute(sql`
+      UPDATE open_banking_fields
+      SET scoring_rules = '{
+        "max_points": 10,
+        "default_points": 0,
+        "rules": [
+          { "operator": "equals", "value": "yes", "points": 10, "reasoning": "Control confirmed in place" },
+          { "operator": "equals", "value": "true", "points": 10, "reasoning": "Control confirmed in place" },
+          { "operator": "starts_with", "value": "yes", "points": 10, "reasoning": "Control confirmed in place" },
+          { "operator": "equals", "value": "no", "points": 0, "reasoning": "Control not in place" },
+          { "operator": "equals", "value": "false", "points": 0, "reasoning": "Control not in place" },
+          { "operator": "equals", "value": "none", "points": 0, "reasoning": "Control not in place" },
+          { "operator": "equals", "value": "n/a", "points": 0, "reasoning": "Control not in place" },
+          { "operator": "equals", "value": "na", "points": 0, "reasoning": "Control not in place" },
+          { "operator": "equals", "value": "not applicable", "points": 0, "reasoning": "Control not in place" },
+          { "operator": "equals", "value": "unknown", "points": 0, "reasoning": "Control not in place" },
+          { "operator": "starts_with", "value": "no ", "points": 0, "reasoning": "Control not in place" },
+          { "operator": "starts_with", "value": "no,", "points": 0, "reasoning": "Control not in place" },
+          { "operator": "starts_with", "value": "no.", "points": 0, "reasoning": "Control not in place" },
+          { "operator": "starts_with", "value": "not ", "points": 0, "reasoning": "Control not in place" },
+          { "operator": "starts_with", "value": "we do not", "points": 0, "reasoning": "Control not in place" },
+          { "operator": "starts_with", "value": "we don''t", "points": 0, "reasoning": "Control not in place" },
+          { "operator": "starts_with", "value": "none ", "points": 0, "reasoning": "Control not in place" },
+          { "operator": "contains", "value": "in progress", "points": 3, "reasoning": "Control not yet fully in place" },
+          { "operator": "contains", "value": "planned", "points": 3, "reasoning": "Control not yet fully in place" },
+          { "operator": "contains", "value": "partial", "points": 3, "reasoning": "Control not yet fully in place" },
+          { "operator": "answered", "points": 5, "reasoning": "Answer neither confirms nor denies the control" }
+        ]
+      }'::jsonb
+      WHERE scoring_rules IS NULL AND field_type <> 'BOOLEAN';
+    `);
+
+    console.log('Successfully added scoring_rules column to open_banking_fields table');
+  } catch (error) {
+    console.error('Error adding scoring_rules column:', error);
+    throw error;
+  }
+}
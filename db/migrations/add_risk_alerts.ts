@@ -0,0 +1,48 @@
+import { db } from "@db";
+import { sql } from "drizzle-orm";
+
+/**
+ * Creates the risk_alerts table. A partial unique index allows only one
+ * unresolved alert per bank, company and rule, which deduplicates repeated
+ * breaches of the same threshold.
+ */
+export async function addRiskAlerts() {
+  try {
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS risk_alerts (
+        id SERIAL PRIMARY KEY,
+        bank_company_id INTEGER NOT NULL REFERENCES companies(id),
+        company_id INTEGER NOT NULL REFERENCES companies(id),
+        rule TEXT NOT NULL,
+        threshold INTEGER NOT NULL,
+        risk_score INTEGER NOT NULL,
+        status TEXT NOT NULL DEFAULT 'open',
+        occurrences INTEGER NOT NULL DEFAULT 1,
+        acknowledged_by INTEGER REFERENCES users(id),
+        acknowledged_at TIMESTAMP,
+        snoozed_by INTEGER REFERENCES users(id),
+        snoozed_until TIMESTAMP,
+        last_notified_at TIMESTAMP,
+        resolved_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      );
+    `);
+
+    await db.execute(sql`
+      CREATE UNIQUE INDEX IF NOT EXISTS risk_alerts_unresolved_idx
+      ON risk_alerts (bank_company_id, company_id, rule)
+      WHERE status <> 'resolved';
+    `);
+
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS risk_alerts_bank_status_idx
+      ON risk_alerts (bank_company_id, status);
+    `);
+
+    console.log('Successfully created risk_alerts table');
+  } catch (error) {
+    console.error('Error creating risk_alerts table:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,50 @@
+import { db } from "@db";
+import { sql } from "drizzle-orm";
+
+/**
+ * Creates the risk_configuration_versions table, links risk score history
+ * entries to the version that produced them, and seeds version 1 from each
+ * company's current risk configuration and priorities.
+ */
+export async function addRiskConfigurationVersions() {
+  try {
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS risk_configuration_versions (
+        id SERIAL PRIMARY KEY,
+        company_id INTEGER NOT NULL REFERENCES companies(id),
+        version_number INTEGER NOT NULL,
+        risk_configuration JSONB,
+        risk_priorities JSONB,
+        change_type TEXT NOT NULL,
+        rolled_back_from_version INTEGER,
+        created_by INTEGER REFERENCES users(id),
+        effective_from TIMESTAMP NOT NULL DEFAULT NOW(),
+        created_at TIMESTAMP DEFAULT NOW()
+      );
+    `);
+
+    await db.execute(sql`
+      CREATE UNIQUE INDEX IF NOT EXISTS risk_configuration_versions_company_version_idx
+      ON risk_configuration_versions (company_id, version_number);
+    `);
+
+    await db.execute(sql`
+      ALTER TABLE risk_score_history
+      ADD COLUMN IF NOT EXISTS configuration_version_id INTEGER REFERENCES risk_configuration_versions(id);
+    `);
+
+    // Seed version 1 for companies that already have a configuration or priorities
+    await db.execute(sql`
+      INSERT INTO risk_configuration_versions (company_id, version_number, risk_configuration, risk_priorities, change_type, effective_from, created_at)
+      SELECT c.id, 1, c.risk_configuration, c.risk_priorities, 'backfill', COALESCE(c.updated_at, NOW()), NOW()
+      FROM companies c
+      WHERE (c.risk_configuration IS NOT NULL OR c.risk_priorities IS NOT NULL)
+        AND NOT EXISTS (SELECT 1 FROM risk_configuration_versions v WHERE v.company_id = c.id);
+    `);
+
+    console.log('Successfully created risk_configuration_versions table');
+  } catch (error) {
+    console.error('Error creating risk_configuration_versions table:', error);
+    throw error;
+  }
+}
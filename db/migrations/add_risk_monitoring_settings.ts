@@ -0,0 +1,29 @@
+import { db } from "@db";
+import { sql } from "drizzle-orm";
+
+/**
+ * Creates the risk_monitoring_settings table holding each bank's blocking
+ * threshold, blocking cap and monitoring sensitivity.
+ */
+export async function addRiskMonitoringSettings() {
+  try {
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS risk_monitoring_settings (
+        id SERIAL PRIMARY KEY,
+        company_id INTEGER NOT NULL UNIQUE REFERENCES companies(id),
+        blocking_threshold INTEGER NOT NULL DEFAULT 40,
+        blocking_cap_percentage REAL DEFAULT 0.15,
+        deterioration_threshold INTEGER NOT NULL DEFAULT 5,
+        approaching_block_percentage INTEGER NOT NULL DEFAULT 20,
+        updated_by INTEGER REFERENCES users(id),
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      );
+    `);
+
+    console.log('Successfully created risk_monitoring_settings table');
+  } catch (error) {
+    console.error('Error creating risk_monitoring_settings table:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,43 @@
+import { db } from "@db";
+import { sql } from "drizzle-orm";
+
+/**
+ * Creates the risk_score_history table and seeds one starting point per
+ * company that already has a risk score, so trends have a baseline.
+ */
+export async function addRiskScoreHistory() {
+  try {
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS risk_score_history (
+        id SERIAL PRIMARY KEY,
+        company_id INTEGER NOT NULL REFERENCES companies(id),
+        risk_score INTEGER NOT NULL,
+        previous_risk_score INTEGER,
+        risk_clusters JSONB,
+        risk_configuration JSONB,
+        source TEXT NOT NULL,
+        task_id INTEGER REFERENCES tasks(id),
+        created_at TIMESTAMP DEFAULT NOW()
+      );
+    `);
+
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS risk_score_history_company_created_idx
+      ON risk_score_history (company_id, created_at);
+    `);
+
+    // Seed a baseline entry for companies that are scored but have no history yet
+    await db.execute(sql`
+      INSERT INTO risk_score_history (company_id, risk_score, risk_clusters, risk_configuration, source, created_at)
+      SELECT c.id, c.risk_score, c.risk_clusters, c.risk_configuration, 'backfill', COALESCE(c.updated_at, NOW())
+      FROM companies c
+      WHERE c.risk_score IS NOT NULL
+        AND NOT EXISTS (SELECT 1 FROM risk_score_history h WHERE h.company_id = c.id);
+    `);
+
+    console.log('Successfully created risk_score_history table');
+  } catch (error) {
+    console.error('Error creating risk_score_history table:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,60 @@
+import { db } from "@db";
+import { sql } from "drizzle-orm";
+
+/**
+ * Creates the risk_score_rules table holding bank-defined rules and the
+ * risk_rule_evaluations table holding the latest result of running a bank's
+ * rules against a company's answers.
+ */
+export async function addRiskScoreRules() {
+  try {
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS risk_score_rules (
+        id SERIAL PRIMARY KEY,
+        company_id INTEGER NOT NULL REFERENCES companies(id),
+        name TEXT NOT NULL,
+        description TEXT,
+        form_type TEXT NOT NULL,
+        field_key TEXT NOT NULL,
+        operator TEXT NOT NULL,
+        value TEXT,
+        cluster TEXT NOT NULL,
+        score_adjustment INTEGER NOT NULL,
+        enabled BOOLEAN NOT NULL DEFAULT TRUE,
+        created_by INTEGER REFERENCES users(id),
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      );
+    `);
+
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS risk_score_rules_company_idx
+      ON risk_score_rules (company_id);
+    `);
+
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS risk_rule_evaluations (
+        id SERIAL PRIMARY KEY,
+        bank_company_id INTEGER NOT NULL REFERENCES companies(id),
+        company_id INTEGER NOT NULL REFERENCES companies(id),
+        task_id INTEGER REFERENCES tasks(id),
+        base_risk_score INTEGER NOT NULL,
+        adjusted_risk_score INTEGER NOT NULL,
+        base_risk_clusters JSONB,
+        adjusted_risk_clusters JSONB,
+        fired_rules JSONB NOT NULL DEFAULT '[]'::jsonb,
+        evaluated_at TIMESTAMP DEFAULT NOW()
+      );
+    `);
+
+    await db.execute(sql`
+      CREATE UNIQUE INDEX IF NOT EXISTS risk_rule_evaluations_bank_company_idx
+      ON risk_rule_evaluations (bank_company_id, company_id);
+    `);
+
+    console.log('Successfully created risk_score_rules and risk_rule_evaluations tables');
+  } catch (error) {
+    console.error('Error creating risk score rules tables:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,112 @@
+import { db } from "@db";
+import { sql } from "drizzle-orm";
+
+/**
+ * Creates the task_dependencies and task_unlock_effects tables that hold the
+ * onboarding sequence as data, and seeds the global sequence: KYB unlocks
+ * KY3P and Open Banking and opens the file vault tab, and Open Banking opens
+ * the dashboard, insights and file vault tabs.
+ */
+export async function addTaskDependencies() {
+  try {
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS task_dependencies (
+        id SERIAL PRIMARY KEY,
+        template_id INTEGER NOT NULL REFERENCES task_templates(id),
+        prerequisite_template_id INTEGER NOT NULL REFERENCES task_templates(id),
+        satisfied_by JSONB NOT NULL DEFAULT '["submitted", "completed"]'::jsonb,
+        scope VARCHAR(50) NOT NULL DEFAULT 'global',
+        scope_target INTEGER REFERENCES companies(id),
+        created_by INTEGER REFERENCES users(id),
+        created_at TIMESTAMP DEFAULT NOW(),
+        CHECK (template_id <> prerequisite_template_id)
+      );
+    `);
+
+    await db.execute(sql`
+      CREATE UNIQUE INDEX IF NOT EXISTS task_dependencies_edge_idx
+      ON task_dependencies (template_id, prerequisite_template_id, scope, COALESCE(scope_target, 0));
+    `);
+
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS task_unlock_effects (
+        id SERIAL PRIMARY KEY,
+        template_id INTEGER NOT NULL REFERENCES task_templates(id),
+        tab VARCHAR(100) NOT NULL,
+        scope VARCHAR(50) NOT NULL DEFAULT 'global',
+        scope_target INTEGER REFERENCES companies(id),
+        created_by INTEGER REFERENCES users(id),
+        created_at TIMESTAMP DEFAULT NOW()
+      );
+    `);
+
+    await db.execute(sql`
+      CREATE UNIQUE INDEX IF NOT EXISTS task_unlock_effects_tab_idx
+      ON task_unlock_effects (template_id, tab, scope, COALESCE(scope_target, 0));
+    `);
+
+    // The sequence is keyed by template, so each task type in it needs one
+    await db.execute(sql`
+      INSERT INTO task_templates (name, description, task_type, component_type, status)
+      VALUES
+        ('Know Your Business (KYB) Form', 'Standard KYB form for collecting company information', 'company_kyb', 'form', 'active'),
+        ('S&P KY3P Security Assessment', 'S&P KY3P security assessment', 'ky3p', 'form', 'active'),
+        ('Open Banking Survey Template', 'Open Banking survey', 'open_banking', 'form', 'active')
+      ON CONFLICT (task_type) DO NOTHING;
+    `);
+
+    await db.execute(sql`
+      INSERT INTO task_dependencies (template_id, prerequisite_template_id, scope)
+      SELECT dependent.id, prerequisite.id, 'global'
+      FROM task_templates dependent, task_templates prerequisite
+      WHERE prerequisite.task_type = 'company_kyb'
+        AND dependent.task_type IN ('ky3p', 'open_banking')
+      ON CONFLICT DO NOTHING;
+    `);
+
+    await db.execute(sql`
+      INSERT INTO task_unlock_effects (template_id, tab, scope)
+      SELECT task_templates.id, tabs.tab, 'global'
+      FROM task_templates, (VALUES ('dashboard'), ('insights'), ('file-vault')) AS tabs(tab)
+      WHERE task_templates.task_type = 'open_banking'
+      ON CONFLICT DO NOTHING;
+    `);
+
+    await db.execute(sql`
+      INSERT INTO task_unlock_effects (template_id, tab, scope)
+      SELECT id, 'file-vault', 'global'
+      FROM task_templates
+      WHERE task_type = 'company_kyb'
+      ON CONFLICT DO NOTHING;
+    `);
+
+    // Earlier seeds named the file vault tab 'file_vault', which no tab uses
+    await db.execute(sql`
+      DELETE FROM task_unlock_effects stale
+      WHERE stale.tab = 'file_vault'
+        AND EXISTS (
+          SELECT 1 FROM task_unlock_effects renamed
+          WHERE renamed.template_id = stale.template_id
+            AND renamed.tab = 'file-vault'
+            AND renamed.scope = stale.scope
+            AND COALESCE(renamed.scope_target, 0) = COALESCE(stale.scope_target, 0)
+        );
+    `);
+
+    await db.execute(sql`
+      UPDATE task_unlock_effects SET tab = 'file-vault' WHERE tab = 'file_vault';
+    `);
+
+    await db.execute(sql`
+      UPDATE companies
+      SET available_tabs = array_remove(available_tabs, 'file_vault')
+        || CASE WHEN 'file-vault' = ANY(available_tabs) THEN ARRAY[]::text[] ELSE ARRAY['file-vault'] END
+      WHERE 'file_vault' = ANY(available_tabs);
+    `);
+
+    console.log('Successfully created task dependency tables');
+  } catch (error) {
+    console.error('Error creating task dependency tables:', error);
+    throw error;
+  }
+}
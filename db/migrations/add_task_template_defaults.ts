@@ -0,0 +1,77 @@
+import { db } from "@db";
+import { sql } from "drizzle-orm";
+
+/**
+ * Seeds the global task defaults as component configurations of the task
+ * templates: the titles, priorities and due-date offsets tasks were created
+ * with before templates drove task creation. Defaults that already exist are
+ * left as they are.
+ */
+export async function addTaskTemplateDefaults() {
+  try {
+    await db.execute(sql`
+      INSERT INTO task_templates (name, description, task_type, component_type, status)
+      VALUES
+        ('CARD Assessment', 'Compliance and Risk Disclosure assessment', 'company_card', 'form', 'active'),
+        ('Security Assessment', 'Security assessment', 'security_assessment', 'form', 'active'),
+        ('User Onboarding', 'Complete user registration and onboarding.', 'user_onboarding', 'onboarding', 'active')
+      ON CONFLICT (task_type) DO NOTHING;
+    `);
+
+    await db.execute(sql`
+      INSERT INTO component_configurations (template_id, config_key, config_value, scope)
+      SELECT task_templates.id, defaults.config_key, defaults.config_value::jsonb, 'global'
+      FROM task_templates
+      JOIN (VALUES
+        ('company_kyb', 'defaultTitle', '"1. KYB Form: {companyName}"'),
+        ('company_kyb', 'defaultDescription', '"Complete KYB verification for {companyName}"'),
+        ('company_kyb', 'defaultPriority', '"high"'),
+        ('company_kyb', 'dueInDays', '30'),
+        ('ky3p', 'defaultTitle', '"2. S&P KY3P Security Assessment: {companyName}"'),
+        ('ky3p', 'defaultDescription', '"Complete S&P KY3P Security Assessment for {companyName}"'),
+        ('ky3p', 'defaultPriority', '"medium"'),
+        ('ky3p', 'dueInDays', '30'),
+        ('open_banking', 'defaultTitle', '"3. Open Banking Survey: {companyName}"'),
+        ('open_banking', 'defaultDescription', '"Complete Open Banking Survey for {companyName}"'),
+        ('open_banking', 'defaultPriority', '"high"'),
+        ('open_banking', 'dueInDays', '30'),
+        ('company_card', 'defaultPriority', '"high"'),
+        ('company_card', 'dueInDays', '14'),
+        ('security_assessment', 'defaultPriority', '"medium"'),
+        ('security_assessment', 'dueInDays', '21'),
+        ('user_onboarding', 'defaultTitle', '"New User Invitation: {email}"'),
+        ('user_onboarding', 'defaultDescription', '"Invitation sent to {inviteeName} to join {companyName}"'),
+        ('user_onboarding', 'defaultPriority', '"medium"'),
+        ('user_onboarding', 'dueInDays', '7')
+      ) AS defaults(task_type, config_key, config_value)
+        ON defaults.task_type = task_templates.task_type
+      WHERE NOT EXISTS (
+        SELECT 1 FROM component_configurations existing
+        WHERE existing.template_id = task_templates.id
+          AND existing.config_key = defaults.config_key
+          AND existing.scope = 'global'
+      );
+    `);
+
+    // Earlier seeds gave user onboarding tasks a 30-day due date and a
+    // description without the invitee; replace them unless an admin changed them
+    await db.execute(sql`
+      UPDATE component_configurations
+      SET config_value = seeded.config_value::jsonb, updated_at = NOW()
+      FROM task_templates, (VALUES
+        ('defaultDescription', '"Complete user registration and onboarding."', '"Invitation sent to {inviteeName} to join {companyName}"'),
+        ('dueInDays', '30', '7')
+      ) AS seeded(config_key, previous_value, config_value)
+      WHERE task_templates.id = component_configurations.template_id
+        AND task_templates.task_type = 'user_onboarding'
+        AND component_configurations.scope = 'global'
+        AND component_configurations.config_key = seeded.config_key
+        AND component_configurations.config_value = seeded.previous_value::jsonb;
+    `);
+
+    console.log('Successfully seeded task template defaults');
+  } catch (error) {
+    console.error('Error seeding task template defaults:', error);
+    throw error;
+  }
+}
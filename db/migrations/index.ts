@@ -10,6 +10,26 @@ import { migrate as enhanceKybFields } from "./enhance-kyb-fields";
 import { migrate as updateKybFieldOrder } from "./update-kyb-field-order";
 import { migrate as restructureKybFields } from "./restructure-kyb-fields";
 import { addCompanyIsDemo } from "./add_company_is_demo";
+import { addOpenBankingScoringRules } from "./add_open_banking_scoring_rules";
+import { addAssessmentScoringRules } from "./add_assessment_scoring_rules";
+import { addRiskScoreHistory } from "./add_risk_score_history";
+import { addRiskScoreRules } from "./add_risk_score_rules";
+import { addRiskConfigurationVersions } from "./add_risk_configuration_versions";
+import { addRiskMonitoringSettings } from "./add_risk_monitoring_settings";
+import { addRiskAlerts } from "./add_risk_alerts";
+import { addAccreditationRenewalTracking } from "./add_accreditation_renewal_tracking";
+import { addAccreditationStatusChanges } from "./add_accreditation_status_changes";
+import { addAccreditationCertificates } from "./add_accreditation_certificates";
+import { addAccreditationConditions } from "./add_accreditation_conditions";
+import { addAccreditationTaskLink } from "./add_accreditation_task_link";
+import { addClaimsFintechCompany } from "./add_claims_fintech_company";
+import { addClaimStatusHistory } from "./add_claim_status_history";
+import { addClaimResolutionLiability } from "./add_claim_resolution_liability";
+import { addBreachNotificationSlas } from "./add_breach_notification_slas";
+import { addClaimEvidence } from "./add_claim_evidence";
+import { addInsurancePolicies } from "./add_insurance_policies";
+import { addTaskDependencies } from "./add_task_dependencies";
+import { addTaskTemplateDefaults } from "./add_task_template_defaults";
 
 // Simpler logging for standalone execution
 function log(message: string) {
@@ -71,6 +91,86 @@ export async function runMigrations() {
     log('Adding is_demo column to companies table for demo functionality');
     await addCompanyIsDemo();
     
+    // Add per-field scoring rules for the Open Banking risk score engine
+    log('Adding scoring rules to Open Banking fields');
+    await addOpenBankingScoringRules();
+    
+    // Add per-field scoring rule overrides for KYB and KY3P answers
+    log('Adding scoring rules to KYB and KY3P fields');
+    await addAssessmentScoringRules();
+    
+    // Create risk score history table for trend tracking
+    log('Creating risk score history table');
+    await addRiskScoreHistory();
+    
+    // Create bank-defined risk score rules and their evaluation results
+    log('Creating risk score rules tables');
+    await addRiskScoreRules();
+    
+    // Version risk configurations and priorities instead of overwriting them
+    log('Creating risk configuration versions table');
+    await addRiskConfigurationVersions();
+    
+    // Per-bank blocking thresholds for risk monitoring
+    log('Creating risk monitoring settings table');
+    await addRiskMonitoringSettings();
+    
+    // Threshold breach alerts with acknowledgement and snooze state
+    log('Creating risk alerts table');
+    await addRiskAlerts();
+    
+    // Renewal task and reminder tracking for the accreditation expiry sweeper
+    log('Adding accreditation renewal tracking');
+    await addAccreditationRenewalTracking();
+    
+    // Audit trail of accreditation suspensions, reinstatements and revocations
+    log('Creating accreditation status changes table');
+    await addAccreditationStatusChanges();
+    
+    // Signed accreditation certificates for public verification
+    log('Creating accreditation certificates table');
+    await addAccreditationCertificates();
+    
+    // Remediation conditions on conditional accreditations
+    log('Creating accreditation conditions table');
+    await addAccreditationConditions();
+    
+    // Link accreditations to the submission they were issued for, for comparisons
+    log('Linking accreditations to their submissions');
+    await addAccreditationTaskLink();
+    
+    // Link claims to the data recipient they are filed against
+    log('Linking claims to data recipient companies');
+    await addClaimsFintechCompany();
+    
+    // Add the audit trail of claim status changes
+    log('Adding claim status history table');
+    await addClaimStatusHistory();
+    
+    // Store the liability split and its reasoning on dispute resolutions
+    log('Adding liability allocation to claim resolutions');
+    await addClaimResolutionLiability();
+    
+    // Add configurable breach notification deadlines
+    log('Adding breach notification SLA table');
+    await addBreachNotificationSlas();
+    
+    // Add append-only claim evidence and its access log
+    log('Adding claim evidence tables');
+    await addClaimEvidence();
+    
+    // Add insurance policies and link claims to the policy they are priced against
+    log('Adding insurance policies table');
+    await addInsurancePolicies();
+    
+    // Store the onboarding task sequence and its tab unlocks as data
+    log('Adding task dependency tables');
+    await addTaskDependencies();
+    
+    // Seed the task defaults that template configurations now provide
+    log('Seeding task template defaults');
+    await addTaskTemplateDefaults();
+    
     log('All migrations completed successfully');
     return true;
   } catch (error) {
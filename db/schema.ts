@@ -110,6 +110,7 @@ export const companies = pgTable("companies", {
   exit_strategy_history: text("exit_strategy_history"),
   certifications_compliance: text("certifications_compliance"),
   risk_score: integer("risk_score"), // Only populated for APPROVED/accredited companies
+  late_notification_deduction: integer("late_notification_deduction").notNull().default(0), // Points taken off risk_score for late breach notifications
   chosen_score: integer("chosen_score"),
   risk_clusters: jsonb("risk_clusters").$type<{
     "Dark Web Data": number,
@@ -300,6 +301,7 @@ export const kybFields = pgTable("kyb_fields", {
   validation_rules: jsonb("validation_rules"),
   help_text: text("help_text"),
   demo_autofill: text("demo_autofill"), // Add the demo_autofill column
+  scoring_rules: jsonb("scoring_rules").$type<OpenBankingScoringRules>(), // Overrides the content-based default scoring
   created_at: timestamp("created_at").defaultNow(),
   updated_at: timestamp("updated_at").defaultNow(),
 });
@@ -425,7 +427,7 @@ export const accreditationHistory = pgTable("accreditation_history", {
   risk_score: integer("risk_score"), // Score at time of accreditation
   issued_date: timestamp("issued_date").notNull().defaultNow(),
   expires_date: timestamp("expires_date"), // NULL for permanent (Banks/Invela)
-  status: text("status").notNull().default('ACTIVE'), // 'ACTIVE', 'EXPIRED', 'REVOKED'
+  status: text("status").notNull().default('ACTIVE'), // 'ACTIVE', 'SUSPENDED', 'EXPIRED', 'REVOKED'
   risk_clusters: jsonb("risk_clusters").$type<{
     "Dark Web Data": number,
     "Cyber Security": number,
@@ -434,15 +436,308 @@ export const accreditationHistory = pgTable("accreditation_history", {
     "Financial Stability": number,
     "Potential Liability": number
   }>(), // Snapshot at time of accreditation
+  task_id: integer("task_id").references(() => tasks.id), // Open Banking submission the accreditation was issued for
+  renewal_task_id: integer("renewal_task_id").references(() => tasks.id), // Renewal assessment created before expiry
+  renewal_reminders_sent: jsonb("renewal_reminders_sent").$type<number[]>().default([]), // Days-before-expiry reminders already sent
   created_at: timestamp("created_at").defaultNow(),
   updated_at: timestamp("updated_at").defaultNow(),
 });
 
+// Manual accreditation status changes made by banks and Invela
+export const AccreditationAction = {
+  SUSPEND: 'suspend',     // ACTIVE -> SUSPENDED
+  REINSTATE: 'reinstate', // SUSPENDED -> ACTIVE
+  REVOKE: 'revoke'        // ACTIVE or SUSPENDED -> REVOKED
+} as const;
+
+export type AccreditationAction = typeof AccreditationAction[keyof typeof AccreditationAction];
+
+export const AccreditationReasonCode = {
+  BREACH_CLAIM: 'breach_claim',
+  SECURITY_INCIDENT: 'security_incident',
+  COMPLIANCE_VIOLATION: 'compliance_violation',
+  RISK_DETERIORATION: 'risk_deterioration',
+  FRAUD: 'fraud',
+  REGULATORY_ORDER: 'regulatory_order',
+  ISSUE_REMEDIATED: 'issue_remediated',
+  CONDITION_MISSED: 'condition_missed', // Set automatically when a remediation condition is missed
+  OTHER: 'other'
+} as const;
+
+export type AccreditationReasonCode = typeof AccreditationReasonCode[keyof typeof AccreditationReasonCode];
+
+// Audit trail of suspensions, reinstatements and revocations of an accreditation
+export const accreditationStatusChanges = pgTable("accreditation_status_changes", {
+  id: serial("id").primaryKey(),
+  accreditation_id: integer("accreditation_id").references(() => accreditationHistory.id).notNull(),
+  company_id: integer("company_id").references(() => companies.id).notNull(),
+  action: text("action").$type<AccreditationAction>().notNull(),
+  from_status: text("from_status").notNull(),
+  to_status: text("to_status").notNull(),
+  reason_code: text("reason_code").$type<AccreditationReasonCode>().notNull(),
+  justification: text("justification").notNull(),
+  changed_by: integer("changed_by").references(() => users.id).notNull(),
+  changed_by_company_id: integer("changed_by_company_id").references(() => companies.id).notNull(),
+  created_at: timestamp("created_at").defaultNow(),
+});
+
+// Remediation conditions a bank attaches to an accreditation
+export const AccreditationConditionStatus = {
+  OPEN: 'open',           // Awaiting evidence from the company
+  SUBMITTED: 'submitted', // Evidence submitted, awaiting the bank's review
+  MET: 'met',             // Evidence accepted
+  MISSED: 'missed'        // Due date passed while open; the accreditation is suspended
+} as const;
+
+export type AccreditationConditionStatus = typeof AccreditationConditionStatus[keyof typeof AccreditationConditionStatus];
+
+export const accreditationConditions = pgTable("accreditation_conditions", {
+  id: serial("id").primaryKey(),
+  accreditation_id: integer("accreditation_id").references(() => accreditationHistory.id).notNull(),
+  company_id: integer("company_id").references(() => companies.id).notNull(),
+  description: text("description").notNull(),
+  form_type: text("form_type").$type<'kyb' | 'ky3p'>().notNull(), // Assessment the linked field belongs to
+  field_key: text("field_key").notNull(), // Linked KYB or KY3P field
+  owner_id: integer("owner_id").references(() => users.id).notNull(), // Company user responsible for remediation
+  due_date: timestamp("due_date").notNull(),
+  evidence_requirement: text("evidence_requirement").notNull(),
+  status: text("status").$type<AccreditationConditionStatus>().notNull().default('open'),
+  evidence: text("evidence"),
+  evidence_file_id: integer("evidence_file_id").references(() => files.id),
+  evidence_submitted_by: integer("evidence_submitted_by").references(() => users.id),
+  evidence_submitted_at: timestamp("evidence_submitted_at"),
+  review_note: text("review_note"),
+  reviewed_by: integer("reviewed_by").references(() => users.id),
+  reviewed_at: timestamp("reviewed_at"),
+  created_by: integer("created_by").references(() => users.id).notNull(),
+  created_by_company_id: integer("created_by_company_id").references(() => companies.id).notNull(),
+  created_at: timestamp("created_at").defaultNow(),
+  updated_at: timestamp("updated_at").defaultNow(),
+});
+
+// Signed certificate issued for an accreditation, verifiable without an account
+export const accreditationCertificates = pgTable("accreditation_certificates", {
+  id: serial("id").primaryKey(),
+  certificate_id: text("certificate_id").notNull().unique(), // Public identifier printed on the certificate
+  accreditation_id: integer("accreditation_id").references(() => accreditationHistory.id).notNull().unique(),
+  company_id: integer("company_id").references(() => companies.id).notNull(),
+  document: jsonb("document").$type<Record<string, any>>().notNull(), // Canonical certificate document that was signed
+  signature: text("signature").notNull(), // Base64 Ed25519 signature of the canonical document
+  key_id: text("key_id").notNull(), // Fingerprint of the signing key
+  created_at: timestamp("created_at").defaultNow(),
+});
+
+/**
+ * One row per change of a company's risk score, written whenever a score is
+ * recalculated. Captures the triggering task, the risk configuration in force
+ * and the cluster values so trends can be charted and scores reproduced.
+ */
+export const riskScoreHistory = pgTable("risk_score_history", {
+  id: serial("id").primaryKey(),
+  company_id: integer("company_id").references(() => companies.id).notNull(),
+  risk_score: integer("risk_score").notNull(),
+  previous_risk_score: integer("previous_risk_score"),
+  risk_clusters: jsonb("risk_clusters").$type<{
+    "Dark Web Data": number,
+    "Cyber Security": number,
+    "Public Sentiment": number,
+    "Data Access Scope": number,
+    "Financial Stability": number,
+    "Potential Liability": number
+  }>(),
+  risk_configuration: jsonb("risk_configuration").$type<Record<string, any>>(), // Snapshot of the configuration used
+  source: text("source").notNull(), // 'open_banking_submission', 'card_submission', 'backfill', ...
+  task_id: integer("task_id").references(() => tasks.id),
+  configuration_version_id: integer("configuration_version_id").references(() => riskConfigurationVersions.id),
+  created_at: timestamp("created_at").defaultNow(),
+});
+
+// Shapes of a company's risk_configuration and risk_priorities, shared by their versions
+export type CompanyRiskConfiguration = NonNullable<typeof companies.$inferSelect['risk_configuration']>;
+export type CompanyRiskPriorities = NonNullable<typeof companies.$inferSelect['risk_priorities']>;
+
+// Immutable snapshots of a company's risk configuration and priorities
+export const riskConfigurationVersions = pgTable("risk_configuration_versions", {
+  id: serial("id").primaryKey(),
+  company_id: integer("company_id").references(() => companies.id).notNull(),
+  version_number: integer("version_number").notNull(), // Sequential per company, starting at 1
+  risk_configuration: jsonb("risk_configuration").$type<CompanyRiskConfiguration>(),
+  risk_priorities: jsonb("risk_priorities").$type<CompanyRiskPriorities>(),
+  change_type: text("change_type").notNull(), // 'configuration', 'priorities', 'rollback', 'backfill'
+  rolled_back_from_version: integer("rolled_back_from_version"), // Version restored by a rollback
+  created_by: integer("created_by").references(() => users.id),
+  effective_from: timestamp("effective_from").defaultNow().notNull(),
+  created_at: timestamp("created_at").defaultNow(),
+});
+
+export const insertRiskScoreHistorySchema = createInsertSchema(riskScoreHistory);
+export const selectRiskScoreHistorySchema = createSelectSchema(riskScoreHistory);
+export type RiskScoreHistory = z.infer<typeof selectRiskScoreHistorySchema>;
+export type NewRiskScoreHistory = z.infer<typeof insertRiskScoreHistorySchema>;
+
+export const insertRiskConfigurationVersionSchema = createInsertSchema(riskConfigurationVersions);
+export const selectRiskConfigurationVersionSchema = createSelectSchema(riskConfigurationVersions);
+export type RiskConfigurationVersion = typeof riskConfigurationVersions.$inferSelect;
+export type NewRiskConfigurationVersion = z.infer<typeof insertRiskConfigurationVersionSchema>;
+
+// Operators available to bank-defined risk score rules
+export const RiskRuleOperator = {
+  EQUALS: 'equals',
+  NOT_EQUALS: 'not_equals',
+  CONTAINS: 'contains',
+  GREATER_THAN: 'greater_than',
+  LESS_THAN: 'less_than',
+  ANSWERED: 'answered',
+  NOT_ANSWERED: 'not_answered'
+} as const;
+
+export type RiskRuleOperator = typeof RiskRuleOperator[keyof typeof RiskRuleOperator];
+
+// Risk score rules defined by a bank, e.g. "if ky3p mfa_enforced = No then +15 to Cyber Security"
+export const riskScoreRules = pgTable("risk_score_rules", {
+  id: serial("id").primaryKey(),
+  company_id: integer("company_id").references(() => companies.id).notNull(), // The bank that owns the rule
+  name: text("name").notNull(),
+  description: text("description"),
+  form_type: text("form_type").notNull(), // 'kyb', 'ky3p', 'open_banking', 'card'
+  field_key: text("field_key").notNull(),
+  operator: text("operator").$type<RiskRuleOperator>().notNull(),
+  value: text("value"),
+  cluster: text("cluster").notNull(), // One of the six risk cluster names
+  score_adjustment: integer("score_adjustment").notNull(),
+  enabled: boolean("enabled").notNull().default(true),
+  created_by: integer("created_by").references(() => users.id),
+  created_at: timestamp("created_at").defaultNow(),
+  updated_at: timestamp("updated_at").defaultNow(),
+});
+
+// Latest result of running a bank's rules against one company's answers
+export const riskRuleEvaluations = pgTable("risk_rule_evaluations", {
+  id: serial("id").primaryKey(),
+  bank_company_id: integer("bank_company_id").references(() => companies.id).notNull(),
+  company_id: integer("company_id").references(() => companies.id).notNull(),
+  task_id: integer("task_id").references(() => tasks.id), // Submission that triggered the evaluation
+  base_risk_score: integer("base_risk_score").notNull(),
+  adjusted_risk_score: integer("adjusted_risk_score").notNull(),
+  base_risk_clusters: jsonb("base_risk_clusters").$type<{
+    "Dark Web Data": number,
+    "Cyber Security": number,
+    "Public Sentiment": number,
+    "Data Access Scope": number,
+    "Financial Stability": number,
+    "Potential Liability": number
+  }>(),
+  adjusted_risk_clusters: jsonb("adjusted_risk_clusters").$type<{
+    "Dark Web Data": number,
+    "Cyber Security": number,
+    "Public Sentiment": number,
+    "Data Access Scope": number,
+    "Financial Stability": number,
+    "Potential Liability": number
+  }>(),
+  fired_rules: jsonb("fired_rules").$type<Array<{
+    ruleId: number;
+    name: string;
+    formType: string;
+    fieldKey: string;
+    answer: string | null;
+    cluster: string;
+    scoreAdjustment: number;
+  }>>().notNull().default([]),
+  evaluated_at: timestamp("evaluated_at").defaultNow(),
+});
+
+// Per-bank settings that decide when a data recipient is blocked or monitored
+export const riskMonitoringSettings = pgTable("risk_monitoring_settings", {
+  id: serial("id").primaryKey(),
+  company_id: integer("company_id").references(() => companies.id).notNull().unique(), // The bank the settings belong to
+  blocking_threshold: integer("blocking_threshold").notNull().default(40), // Scores below this are blocked
+  blocking_cap_percentage: real("blocking_cap_percentage").default(0.15), // Share of data recipients blocked above which the bank is warned (null = no warning)
+  deterioration_threshold: integer("deterioration_threshold").notNull().default(5), // Minimum score drop to be monitored
+  approaching_block_percentage: integer("approaching_block_percentage").notNull().default(20), // Within this % of the threshold
+  updated_by: integer("updated_by").references(() => users.id),
+  created_at: timestamp("created_at").defaultNow(),
+  updated_at: timestamp("updated_at").defaultNow(),
+});
+
+// Alert rules evaluated whenever a company's risk score is written
+export const RiskAlertRule = {
+  RISK_ACCEPTANCE_LEVEL: 'risk_acceptance_level', // risk_priorities.riskAcceptanceLevel
+  HIGH_RISK_THRESHOLD: 'high_risk_threshold',     // risk_configuration.thresholds.high
+  MEDIUM_RISK_THRESHOLD: 'medium_risk_threshold'  // risk_configuration.thresholds.medium
+} as const;
+
+export type RiskAlertRule = typeof RiskAlertRule[keyof typeof RiskAlertRule];
+
+export const RiskAlertStatus = {
+  OPEN: 'open',
+  ACKNOWLEDGED: 'acknowledged',
+  SNOOZED: 'snoozed',
+  RESOLVED: 'resolved'
+} as const;
+
+export type RiskAlertStatus = typeof RiskAlertStatus[keyof typeof RiskAlertStatus];
+
+// Threshold breaches of a bank's data recipients; one unresolved alert per bank, company and rule
+export const riskAlerts = pgTable("risk_alerts", {
+  id: serial("id").primaryKey(),
+  bank_company_id: integer("bank_company_id").references(() => companies.id).notNull(),
+  company_id: integer("company_id").references(() => companies.id).notNull(),
+  rule: text("rule").$type<RiskAlertRule>().notNull(),
+  threshold: integer("threshold").notNull(),
+  risk_score: integer("risk_score").notNull(), // Latest score that breached the threshold
+  status: text("status").$type<RiskAlertStatus>().notNull().default(RiskAlertStatus.OPEN),
+  occurrences: integer("occurrences").notNull().default(1), // Score writes that hit this alert
+  acknowledged_by: integer("acknowledged_by").references(() => users.id),
+  acknowledged_at: timestamp("acknowledged_at"),
+  snoozed_by: integer("snoozed_by").references(() => users.id),
+  snoozed_until: timestamp("snoozed_until"),
+  last_notified_at: timestamp("last_notified_at"),
+  resolved_at: timestamp("resolved_at"),
+  created_at: timestamp("created_at").defaultNow(),
+  updated_at: timestamp("updated_at").defaultNow(),
+});
+
+export const insertRiskScoreRuleSchema = createInsertSchema(riskScoreRules);
+export const selectRiskScoreRuleSchema = createSelectSchema(riskScoreRules);
+export type RiskScoreRule = z.infer<typeof selectRiskScoreRuleSchema>;
+export type NewRiskScoreRule = z.infer<typeof insertRiskScoreRuleSchema>;
+
+export const insertRiskRuleEvaluationSchema = createInsertSchema(riskRuleEvaluations);
+export const selectRiskRuleEvaluationSchema = createSelectSchema(riskRuleEvaluations);
+export type RiskRuleEvaluation = z.infer<typeof selectRiskRuleEvaluationSchema>;
+export type NewRiskRuleEvaluation = z.infer<typeof insertRiskRuleEvaluationSchema>;
+
+export const insertRiskMonitoringSettingsSchema = createInsertSchema(riskMonitoringSettings);
+export const selectRiskMonitoringSettingsSchema = createSelectSchema(riskMonitoringSettings);
+export type RiskMonitoringSettingsRecord = z.infer<typeof selectRiskMonitoringSettingsSchema>;
+export type NewRiskMonitoringSettingsRecord = z.infer<typeof insertRiskMonitoringSettingsSchema>;
+
+export const insertRiskAlertSchema = createInsertSchema(riskAlerts);
+export const selectRiskAlertSchema = createSelectSchema(riskAlerts);
+export type RiskAlert = z.infer<typeof selectRiskAlertSchema>;
+export type NewRiskAlert = z.infer<typeof insertRiskAlertSchema>;
+
 export const insertAccreditationHistorySchema = createInsertSchema(accreditationHistory);
 export const selectAccreditationHistorySchema = createSelectSchema(accreditationHistory);
 export type AccreditationHistory = z.infer<typeof selectAccreditationHistorySchema>;
 export type NewAccreditationHistory = z.infer<typeof insertAccreditationHistorySchema>;
 
+export const insertAccreditationStatusChangeSchema = createInsertSchema(accreditationStatusChanges);
+export const selectAccreditationStatusChangeSchema = createSelectSchema(accreditationStatusChanges);
+export type AccreditationStatusChange = z.infer<typeof selectAccreditationStatusChangeSchema>;
+export type NewAccreditationStatusChange = z.infer<typeof insertAccreditationStatusChangeSchema>;
+
+export const insertAccreditationConditionSchema = createInsertSchema(accreditationConditions);
+export const selectAccreditationConditionSchema = createSelectSchema(accreditationConditions);
+export type AccreditationCondition = z.infer<typeof selectAccreditationConditionSchema>;
+export type NewAccreditationCondition = z.infer<typeof insertAccreditationConditionSchema>;
+
+export const insertAccreditationCertificateSchema = createInsertSchema(accreditationCertificates);
+export const selectAccreditationCertificateSchema = createSelectSchema(accreditationCertificates);
+export type AccreditationCertificate = z.infer<typeof selectAccreditationCertificateSchema>;
+export type NewAccreditationCertificate = z.infer<typeof insertAccreditationCertificateSchema>;
+
 export const usersRelations = relations(users, ({ one, many }) => ({
   company: one(companies, {
     fields: [users.company_id],
@@ -576,6 +871,23 @@ export const ResolutionType = {
 
 export type ResolutionType = typeof ResolutionType[keyof typeof ResolutionType];
 
+export const EvidenceTarget = {
+  CLAIM: 'claim',
+  BREACH: 'breach',
+  DISPUTE: 'dispute'
+} as const;
+
+export type EvidenceTarget = typeof EvidenceTarget[keyof typeof EvidenceTarget];
+
+export const EvidenceAccessAction = {
+  ATTACH: 'attach',
+  VIEW: 'view',
+  DOWNLOAD: 'download',
+  EXPORT: 'export'
+} as const;
+
+export type EvidenceAccessAction = typeof EvidenceAccessAction[keyof typeof EvidenceAccessAction];
+
 // Claims Management Tables
 export const claims = pgTable("claims", {
   id: serial("id").primaryKey(),
@@ -589,9 +901,11 @@ export const claims = pgTable("claims", {
   claim_amount: real("claim_amount").notNull().default(50.00),
   status: text("status").$type<ClaimStatus>().notNull().default(ClaimStatus.IN_REVIEW),
   policy_number: text("policy_number"),
+  policy_id: integer("policy_id").references(() => insurancePolicies.id), // Policy the claim was validated and priced against
   is_disputed: boolean("is_disputed").notNull().default(false),
   is_resolved: boolean("is_resolved").notNull().default(false),
-  company_id: integer("company_id").references(() => companies.id).notNull(),
+  company_id: integer("company_id").references(() => companies.id).notNull(), // Company that filed the claim
+  fintech_company_id: integer("fintech_company_id").references(() => companies.id), // Data recipient the claim is against, when registered
   created_by: integer("created_by").references(() => users.id),
   created_at: timestamp("created_at").defaultNow(),
   updated_at: timestamp("updated_at").defaultNow()
@@ -634,23 +948,109 @@ export const claimResolutions = pgTable("claim_resolutions", {
   resolution_date: timestamp("resolution_date").notNull(),
   payment_amount: real("payment_amount"),
   resolution_notes: text("resolution_notes"),
+  bank_liability_percent: integer("bank_liability_percent"),
+  fintech_liability_percent: integer("fintech_liability_percent"),
+  liability_reasoning: jsonb("liability_reasoning"), // Proposed allocation, its factors and any adjudicator override
   created_at: timestamp("created_at").defaultNow(),
   updated_at: timestamp("updated_at").defaultNow()
 });
 
+// Breach notification deadline a bank sets for its claims; a null policy_number is the bank's default
+export const breachNotificationSlas = pgTable("breach_notification_slas", {
+  id: serial("id").primaryKey(),
+  bank_company_id: integer("bank_company_id").references(() => companies.id).notNull(),
+  policy_number: text("policy_number"),
+  notification_hours: integer("notification_hours").notNull(), // Hours from discovery to report the breach
+  created_by: integer("created_by").references(() => users.id),
+  created_at: timestamp("created_at").defaultNow(),
+  updated_at: timestamp("updated_at").defaultNow()
+});
+
+// Audit trail of claim status changes; from_status is null for the row written when a claim is filed
+export const claimStatusHistory = pgTable("claim_status_history", {
+  id: serial("id").primaryKey(),
+  claim_id: integer("claim_id").references(() => claims.id).notNull(),
+  from_status: text("from_status").$type<ClaimStatus>(),
+  to_status: text("to_status").$type<ClaimStatus>().notNull(),
+  note: text("note"),
+  changed_by: integer("changed_by").references(() => users.id),
+  changed_by_company_id: integer("changed_by_company_id").references(() => companies.id),
+  created_at: timestamp("created_at").defaultNow()
+});
+
+// Insurance policy covering data a bank shares with a FinTech. Claims under it
+// are priced at per_record_rate per affected record, less the deductible, and
+// draw down coverage_limit across all claims in the policy's effective period.
+export const insurancePolicies = pgTable("insurance_policies", {
+  id: serial("id").primaryKey(),
+  policy_number: text("policy_number").notNull().unique(),
+  bank_company_id: integer("bank_company_id").references(() => companies.id).notNull(),
+  fintech_company_id: integer("fintech_company_id").references(() => companies.id).notNull(),
+  coverage_limit: real("coverage_limit").notNull(), // Aggregate limit across all claims
+  per_claim_limit: real("per_claim_limit"),
+  per_record_rate: real("per_record_rate").notNull(),
+  deductible: real("deductible").notNull().default(0), // Deducted from each claim
+  exclusions: jsonb("exclusions").$type<string[]>().notNull().default([]), // Claim types the policy does not cover
+  effective_from: timestamp("effective_from").notNull(),
+  effective_to: timestamp("effective_to"), // Null while the policy is open-ended
+  created_by: integer("created_by").references(() => users.id),
+  created_at: timestamp("created_at").defaultNow(),
+  updated_at: timestamp("updated_at").defaultNow()
+});
+
+// Vault file attached to a claim, its breach or one of its disputes. Rows are
+// append-only: the database rejects updates and deletes once attached.
+export const claimEvidence = pgTable("claim_evidence", {
+  id: serial("id").primaryKey(),
+  claim_id: integer("claim_id").references(() => claims.id).notNull(),
+  target: text("target").$type<EvidenceTarget>().notNull(),
+  breach_id: integer("breach_id").references(() => claimBreaches.id),
+  dispute_id: integer("dispute_id").references(() => claimDisputes.id),
+  file_id: integer("file_id").references(() => files.id).notNull(),
+  file_name: text("file_name").notNull(),
+  file_type: text("file_type").notNull(),
+  file_size: integer("file_size").notNull(),
+  sha256: text("sha256").notNull(), // Hash of the content captured when attached
+  description: text("description"),
+  attached_by: integer("attached_by").references(() => users.id).notNull(),
+  attached_by_company_id: integer("attached_by_company_id").references(() => companies.id).notNull(),
+  created_at: timestamp("created_at").defaultNow()
+});
+
+// Chain of custody: every attach, view, download and export of a claim's evidence
+export const claimEvidenceAccessLog = pgTable("claim_evidence_access_log", {
+  id: serial("id").primaryKey(),
+  claim_id: integer("claim_id").references(() => claims.id).notNull(),
+  evidence_id: integer("evidence_id").references(() => claimEvidence.id), // Null for actions on all of a claim's evidence
+  action: text("action").$type<EvidenceAccessAction>().notNull(),
+  user_id: integer("user_id").references(() => users.id),
+  company_id: integer("company_id").references(() => companies.id),
+  created_at: timestamp("created_at").defaultNow()
+});
+
 // Claims Management Relations
 export const claimsRelations = relations(claims, ({ one, many }) => ({
   company: one(companies, {
     fields: [claims.company_id],
     references: [companies.id],
   }),
+  fintechCompany: one(companies, {
+    fields: [claims.fintech_company_id],
+    references: [companies.id],
+  }),
+  policy: one(insurancePolicies, {
+    fields: [claims.policy_id],
+    references: [insurancePolicies.id],
+  }),
   creator: one(users, {
     fields: [claims.created_by],
     references: [users.id],
   }),
   breach: many(claimBreaches),
   disputes: many(claimDisputes),
-  resolutions: many(claimResolutions)
+  resolutions: many(claimResolutions),
+  statusHistory: many(claimStatusHistory),
+  evidence: many(claimEvidence)
 }));
 
 export const claimBreachesRelations = relations(claimBreaches, ({ one }) => ({
@@ -674,6 +1074,63 @@ export const claimResolutionsRelations = relations(claimResolutions, ({ one }) =
   })
 }));
 
+export const breachNotificationSlasRelations = relations(breachNotificationSlas, ({ one }) => ({
+  bank: one(companies, {
+    fields: [breachNotificationSlas.bank_company_id],
+    references: [companies.id],
+  })
+}));
+
+export const claimStatusHistoryRelations = relations(claimStatusHistory, ({ one }) => ({
+  claim: one(claims, {
+    fields: [claimStatusHistory.claim_id],
+    references: [claims.id],
+  }),
+  changedBy: one(users, {
+    fields: [claimStatusHistory.changed_by],
+    references: [users.id],
+  })
+}));
+
+export const insurancePoliciesRelations = relations(insurancePolicies, ({ one, many }) => ({
+  bank: one(companies, {
+    fields: [insurancePolicies.bank_company_id],
+    references: [companies.id],
+  }),
+  fintech: one(companies, {
+    fields: [insurancePolicies.fintech_company_id],
+    references: [companies.id],
+  }),
+  claims: many(claims)
+}));
+
+export const claimEvidenceRelations = relations(claimEvidence, ({ one, many }) => ({
+  claim: one(claims, {
+    fields: [claimEvidence.claim_id],
+    references: [claims.id],
+  }),
+  file: one(files, {
+    fields: [claimEvidence.file_id],
+    references: [files.id],
+  }),
+  attachedBy: one(users, {
+    fields: [claimEvidence.attached_by],
+    references: [users.id],
+  }),
+  accessLog: many(claimEvidenceAccessLog)
+}));
+
+export const claimEvidenceAccessLogRelations = relations(claimEvidenceAccessLog, ({ one }) => ({
+  claim: one(claims, {
+    fields: [claimEvidenceAccessLog.claim_id],
+    references: [claims.id],
+  }),
+  evidence: one(claimEvidence, {
+    fields: [claimEvidenceAccessLog.evidence_id],
+    references: [claimEvidence.id],
+  })
+}));
+
 export const securityResponsesRelations = relations(securityResponses, ({ one }) => ({
   field: one(securityFields, {
     fields: [securityResponses.field_id],
@@ -705,6 +1162,7 @@ export const ky3pFields = pgTable("ky3p_fields", {
   soc2_overlap: text("soc2_overlap"),
   validation_rules: text("validation_rules"),
   step_index: integer("step_index").default(0),
+  scoring_rules: jsonb("scoring_rules").$type<OpenBankingScoringRules>(), // Overrides the content-based default scoring
   created_at: timestamp("created_at").defaultNow(),
   updated_at: timestamp("updated_at").defaultNow(),
 });
@@ -721,6 +1179,24 @@ export const ky3pResponses = pgTable("ky3p_responses", {
   updated_at: timestamp("updated_at").defaultNow(),
 });
 
+// Per-field scoring rules for the 1033 Open Banking Survey.
+// Rules are evaluated in order and the first match awards its points;
+// answers that match no rule receive default_points (0 when omitted).
+export interface OpenBankingScoringRule {
+  operator: 'equals' | 'contains' | 'starts_with' | 'between' | 'answered';
+  value?: string;
+  min?: number;
+  max?: number;
+  points: number;
+  reasoning?: string;
+}
+
+export interface OpenBankingScoringRules {
+  max_points: number;
+  rules: OpenBankingScoringRule[];
+  default_points?: number;
+}
+
 // Define the 1033 Open Banking Survey tables
 export const openBankingFields = pgTable("open_banking_fields", {
   id: serial("id").primaryKey(),
@@ -736,6 +1212,7 @@ export const openBankingFields = pgTable("open_banking_fields", {
   answer_expectation: text("answer_expectation"),
   validation_type: text("validation_type"),
   validation_rules: text("validation_rules"),
+  scoring_rules: jsonb("scoring_rules").$type<OpenBankingScoringRules>(),
   step_index: integer("step_index").default(0),
   created_at: timestamp("created_at").defaultNow(),
   updated_at: timestamp("updated_at").defaultNow(),
@@ -815,6 +1292,114 @@ export const accreditationHistoryRelations = relations(accreditationHistory, ({
   })
 }));
 
+export const riskScoreHistoryRelations = relations(riskScoreHistory, ({ one }) => ({
+  company: one(companies, {
+    fields: [riskScoreHistory.company_id],
+    references: [companies.id]
+  }),
+  task: one(tasks, {
+    fields: [riskScoreHistory.task_id],
+    references: [tasks.id]
+  }),
+  configurationVersion: one(riskConfigurationVersions, {
+    fields: [riskScoreHistory.configuration_version_id],
+    references: [riskConfigurationVersions.id]
+  })
+}));
+
+export const riskConfigurationVersionsRelations = relations(riskConfigurationVersions, ({ one }) => ({
+  company: one(companies, {
+    fields: [riskConfigurationVersions.company_id],
+    references: [companies.id]
+  }),
+  creator: one(users, {
+    fields: [riskConfigurationVersions.created_by],
+    references: [users.id]
+  })
+}));
+
+export const riskScoreRulesRelations = relations(riskScoreRules, ({ one }) => ({
+  company: one(companies, {
+    fields: [riskScoreRules.company_id],
+    references: [companies.id]
+  }),
+  creator: one(users, {
+    fields: [riskScoreRules.created_by],
+    references: [users.id]
+  })
+}));
+
+export const riskRuleEvaluationsRelations = relations(riskRuleEvaluations, ({ one }) => ({
+  bank: one(companies, {
+    fields: [riskRuleEvaluations.bank_company_id],
+    references: [companies.id]
+  }),
+  company: one(companies, {
+    fields: [riskRuleEvaluations.company_id],
+    references: [companies.id]
+  }),
+  task: one(tasks, {
+    fields: [riskRuleEvaluations.task_id],
+    references: [tasks.id]
+  })
+}));
+
+
+export const riskAlertsRelations = relations(riskAlerts, ({ one }) => ({
+  bank: one(companies, {
+    fields: [riskAlerts.bank_company_id],
+    references: [companies.id]
+  }),
+  company: one(companies, {
+    fields: [riskAlerts.company_id],
+    references: [companies.id]
+  })
+}));
+
+export const accreditationStatusChangesRelations = relations(accreditationStatusChanges, ({ one }) => ({
+  accreditation: one(accreditationHistory, {
+    fields: [accreditationStatusChanges.accreditation_id],
+    references: [accreditationHistory.id]
+  }),
+  company: one(companies, {
+    fields: [accreditationStatusChanges.company_id],
+    references: [companies.id]
+  }),
+  changedBy: one(users, {
+    fields: [accreditationStatusChanges.changed_by],
+    references: [users.id]
+  })
+}));
+
+export const accreditationConditionsRelations = relations(accreditationConditions, ({ one }) => ({
+  accreditation: one(accreditationHistory, {
+    fields: [accreditationConditions.accreditation_id],
+    references: [accreditationHistory.id]
+  }),
+  company: one(companies, {
+    fields: [accreditationConditions.company_id],
+    references: [companies.id]
+  }),
+  owner: one(users, {
+    fields: [accreditationConditions.owner_id],
+    references: [users.id]
+  }),
+  evidenceFile: one(files, {
+    fields: [accreditationConditions.evidence_file_id],
+    references: [files.id]
+  })
+}));
+
+export const accreditationCertificatesRelations = relations(accreditationCertificates, ({ one }) => ({
+  accreditation: one(accreditationHistory, {
+    fields: [accreditationCertificates.accreditation_id],
+    references: [accreditationHistory.id]
+  }),
+  company: one(companies, {
+    fields: [accreditationCertificates.company_id],
+    references: [companies.id]
+  })
+}));
 
 export const registrationSchema = z.object({
   email: z.string().email(),
@@ -833,13 +1418,14 @@ export const selectCompanySchema = createSelectSchema(companies);
 export const insertTaskSchema = z.object({
   task_type: z.enum(["user_onboarding", "file_request", "company_kyb", "security_assessment", "company_card", "compliance_and_risk"]),
   task_scope: z.enum(["user", "company"]).optional(),
-  title: z.string(),
-  description: z.string(),
+  // Title, description, priority, due date and requested files default to the task template's configuration
+  title: z.string().optional(),
+  description: z.string().optional(),
   user_email: z.string().email().optional(),
   company_id: z.number().optional(),
   due_date: z.date().optional(),
   assigned_to: z.number().nullable().optional(),
-  priority: z.enum(["low", "medium", "high"]).optional().default("medium"),
+  priority: z.enum(["low", "medium", "high"]).optional(),
   files_requested: z.array(z.string()).optional(),
   status: z.enum([
     TaskStatus.PENDING,
@@ -906,22 +1492,6 @@ export const insertTaskSchema = z.object({
         path: ["company_id"],
       });
     }
-    if (data.task_type === "company_card") {
-      data.priority = "high";
-      if (!data.due_date) {
-        const twoWeeksFromNow = new Date();
-        twoWeeksFromNow.setDate(twoWeeksFromNow.getDate() + 14);
-        data.due_date = twoWeeksFromNow;
-      }
-    }
-    if (data.task_type === "security_assessment") {
-      data.priority = "medium";
-      if (!data.due_date) {
-        const threeWeeksFromNow = new Date();
-        threeWeeksFromNow.setDate(threeWeeksFromNow.getDate() + 21);
-        data.due_date = threeWeeksFromNow;
-      }
-    }
     data.task_scope = "company";
   }
 });
@@ -992,6 +1562,17 @@ export const taskTemplates = pgTable("task_templates", {
   updated_at: timestamp("updated_at").defaultNow()
 });
 
+// Scopes of component configurations. Task defaults resolve global < bank < company, with the bank or company ID as scope_target
+export const ConfigurationScope = {
+  GLOBAL: 'global',
+  SECTION: 'section',
+  FIELD: 'field',
+  BANK: 'bank',
+  COMPANY: 'company'
+} as const;
+
+export type ConfigurationScope = typeof ConfigurationScope[keyof typeof ConfigurationScope];
+
 export const componentConfigurations = pgTable("component_configurations", {
   id: serial("id").primaryKey(),
   template_id: integer("template_id").references(() => taskTemplates.id).notNull(),
@@ -1003,6 +1584,55 @@ export const componentConfigurations = pgTable("component_configurations", {
   updated_at: timestamp("updated_at").defaultNow()
 });
 
+// Scopes of onboarding sequences: the global sequence, or one a bank sets for its companies
+export const DependencyScope = {
+  GLOBAL: 'global',
+  BANK: 'bank'
+} as const;
+
+export type DependencyScope = typeof DependencyScope[keyof typeof DependencyScope];
+
+// Edges of the onboarding sequence: a template's tasks stay locked until the prerequisite's task reaches one of the statuses
+export const taskDependencies = pgTable("task_dependencies", {
+  id: serial("id").primaryKey(),
+  template_id: integer("template_id").references(() => taskTemplates.id).notNull(),
+  prerequisite_template_id: integer("prerequisite_template_id").references(() => taskTemplates.id).notNull(),
+  satisfied_by: jsonb("satisfied_by").$type<string[]>().notNull().default(['submitted', 'completed']),
+  scope: varchar("scope", { length: 50 }).$type<DependencyScope>().notNull().default('global'),
+  scope_target: integer("scope_target").references(() => companies.id), // The bank, for bank sequences
+  created_by: integer("created_by").references(() => users.id),
+  created_at: timestamp("created_at").defaultNow()
+});
+
+// Company tabs opened once a template's task is submitted or completed
+export const taskUnlockEffects = pgTable("task_unlock_effects", {
+  id: serial("id").primaryKey(),
+  template_id: integer("template_id").references(() => taskTemplates.id).notNull(),
+  tab: varchar("tab", { length: 100 }).notNull(),
+  scope: varchar("scope", { length: 50 }).$type<DependencyScope>().notNull().default('global'),
+  scope_target: integer("scope_target").references(() => companies.id),
+  created_by: integer("created_by").references(() => users.id),
+  created_at: timestamp("created_at").defaultNow()
+});
+
+export const taskDependenciesRelations = relations(taskDependencies, ({ one }) => ({
+  template: one(taskTemplates, {
+    fields: [taskDependencies.template_id],
+    references: [taskTemplates.id]
+  }),
+  prerequisite: one(taskTemplates, {
+    fields: [taskDependencies.prerequisite_template_id],
+    references: [taskTemplates.id]
+  })
+}));
+
+export const taskUnlockEffectsRelations = relations(taskUnlockEffects, ({ one }) => ({
+  template: one(taskTemplates, {
+    fields: [taskUnlockEffects.template_id],
+    references: [taskTemplates.id]
+  })
+}));
+
 // Add relation for task to template mapping
 export const taskToTemplateRelations = relations(tasks, ({ one }) => ({
   template: one(taskTemplates, {
@@ -1027,6 +1657,8 @@ export type InsertTaskTemplate = typeof taskTemplates.$inferInsert;
 export type SelectTaskTemplate = typeof taskTemplates.$inferSelect;
 export type InsertComponentConfig = typeof componentConfigurations.$inferInsert;
 export type SelectComponentConfig = typeof componentConfigurations.$inferSelect;
+export type SelectTaskDependency = typeof taskDependencies.$inferSelect;
+export type SelectTaskUnlockEffect = typeof taskUnlockEffects.$inferSelect;
 
 // KY3P types
 export type InsertKy3pField = typeof ky3pFields.$inferInsert;
@@ -359,6 +359,15 @@ import { getDeploymentPort, getDeploymentHost, logDeploymentInfo } from './deplo
 // Import task reconciliation system
 import { startPeriodicTaskReconciliation } from './utils/periodic-task-reconciliation';
 
+// Import accreditation expiry sweeper
+import { startAccreditationExpirySweeper } from './utils/accreditation-expiry-sweeper';
+
+// Import task SLA sweeper
+import { startTaskSlaSweeper } from './utils/task-sla-sweeper';
+
+// Import late breach notification sweeper
+import { startLateNotificationSweeper } from './utils/late-notification-sweeper';
+
 // Early production optimizations - must run before other configurations
 // Root cause fix: Apply infrastructure optimizations that address actual deployment constraints
 import { initializeProductionOptimizations } from './deployment/production-config';
@@ -408,6 +417,15 @@ server.listen(PORT, HOST, async () => {
     logger.info('Starting periodic task reconciliation system...');
     startPeriodicTaskReconciliation();
     logger.info('Task reconciliation system initialized successfully');
+
+    logger.info('Starting accreditation expiry sweeper...');
+    startAccreditationExpirySweeper();
+
+    logger.info('Starting task SLA sweeper...');
+    startTaskSlaSweeper();
+
+    logger.info('Starting late notification sweeper...');
+    startLateNotificationSweeper();
   }
   
   // Run startup health checks in the background but don't block application startup
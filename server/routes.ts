@@ -57,6 +57,8 @@ import { logoUpload } from './middleware/upload';
 // Business logic and services
 import { emailService } from './services/email';
 import { createCompany } from "./services/company";
+import { TaskDefaultsService } from "./services/task-defaults-service";
+import { overdueCondition } from "./services/task-sla-service";
 import { taskStatusToProgress, NetworkVisualizationData, RiskBucket } from './types';
 
 // WebSocket services for real-time communication
@@ -131,10 +133,20 @@ import accessRouter from './routes/access';
 import adminRouter from './routes/admin';
 import tasksRouter from './routes/tasks';
 import taskTemplatesRouter from './routes/task-templates';
+import taskDependencyGraphRouter from './routes/task-dependency-graph';
 import { aiSuggestionsRouter } from './routes/ai-suggestions';
 import websocketRouter from './routes/websocket';
 // Test WebSocket router removed
 import riskScoreConfigurationRouter from './routes/risk-score-configuration';
+import riskScoreHistoryRouter from './routes/risk-score-history';
+import riskRulesRouter from './routes/risk-rules';
+import riskMonitoringRouter from './routes/risk-monitoring';
+import riskAlertsRouter from './routes/risk-alerts';
+import accreditationRouter from './routes/accreditation';
+import { AccreditationConditionService } from './services/accreditation-condition-service';
+import { RiskScoreHistoryService } from './services/risk-score-history-service';
+import { explainCompanyRiskScore } from './services/riskScoreExplanation';
+import { getNetworkCompanyIds } from './services/company-service';
 // Tab tutorial system for onboarding
 import userTabTutorialsRouter from './routes/user-tab-tutorials';
 // Test routes have been removed
@@ -699,6 +711,21 @@ export async function registerRoutes(app: Express): Promise<Express> {
   // This allows unauthenticated access for demo purposes
   app.use('/api/risk-score', optionalAuth, riskScoreConfigurationRouter);
   
+  // Register risk score history routes
+  app.use('/api/risk-score-history', riskScoreHistoryRouter);
+  
+  // Register bank-defined risk score rules routes
+  app.use('/api/risk-rules', riskRulesRouter);
+  
+  // Register risk monitoring status routes
+  app.use('/api/risk-monitoring', riskMonitoringRouter);
+  
+  // Register risk threshold alert routes
+  app.use('/api/risk-alerts', riskAlertsRouter);
+  
+  // Register accreditation status change, certificate and public verification routes
+  app.use('/api/accreditation', accreditationRouter);
+  
   // Register Tab Tutorials routes for the onboarding system
   app.use('/api/user-tab-tutorials', userTabTutorialsRouter);
   
@@ -742,6 +769,7 @@ export async function registerRoutes(app: Express): Promise<Express> {
   }
   
   app.use('/api/task-templates', taskTemplatesRouter);
+  app.use('/api/task-dependencies', taskDependencyGraphRouter);
   app.use(aiSuggestionsRouter);
   
   // Register WebSocket test routes
@@ -1881,9 +1909,10 @@ export async function registerRoutes(app: Express): Promise<Express> {
       const userId = req.user.id;
       const companyId = req.user.company_id;
       const userEmail = req.user.email;
+      const overdueOnly = req.query.overdue === 'true';
       
-      // Create a cache key based on user ID, company ID, and email
-      const cacheKey = `${userId}_${companyId}_${userEmail}`;
+      // Create a cache key based on user ID, company ID, email and the overdue filter
+      const cacheKey = `${userId}_${companyId}_${userEmail}${overdueOnly ? '_overdue' : ''}`;
       const cachedData = tasksCache.get(cacheKey);
       
       // Use cached data if it exists and is not expired
@@ -1902,7 +1931,7 @@ export async function registerRoutes(app: Express): Promise<Express> {
         email: userEmail
       });
 
-      // Dynamic Task Unlocking: Check if any security tasks need to be unlocked
+      // Dynamic Task Unlocking: Apply the company's onboarding sequence
       // This ensures tasks are properly unlocked whenever a user accesses the Task Center
       try {
         const unlockResult = await checkAndUnlockSecurityTasks(companyId, userId);
@@ -1917,35 +1946,6 @@ export async function registerRoutes(app: Express): Promise<Express> {
           // Clear task cache to ensure updated task status is returned
           tasksCache.delete(cacheKey);
         }
-        
-        // Always process task dependencies and ensure all tasks are unlocked
-        // This makes the dependency chain optional rather than enforced
-        try {
-          console.log('[Tasks] Automatically unlocking all tasks for company', {
-            userId,
-            companyId,
-            requestedBy: 'automatic_task_unlock'
-          });
-          
-          // Import and use task dependency processors
-          // Use dynamic import to handle the ESM module properly
-          const taskDependencies = await import('./routes/task-dependencies');
-          const unlockAllTasks = taskDependencies.unlockAllTasks;
-          
-          // Unlock ALL tasks for this company regardless of dependencies
-          await unlockAllTasks(companyId);
-          
-          // Clear task cache to ensure updated task status is returned
-          tasksCache.delete(cacheKey);
-          
-          console.log('[Tasks] Successfully unlocked all tasks for company:', companyId);
-        } catch (depError) {
-            console.error('[Tasks] Error unlocking all tasks:', {
-              userId,
-              companyId,
-              error: depError instanceof Error ? depError.message : 'Unknown error'
-            });
-          }
       } catch (unlockError) {
         console.error('[Tasks] Error in dynamic task unlocking:', unlockError);
         // Continue with regular task fetching even if dynamic unlocking fails
@@ -1993,9 +1993,10 @@ export async function registerRoutes(app: Express): Promise<Express> {
         }
       });
 
+      // ?overdue=true narrows the list to open tasks past their due date
       const userTasks = await db.select()
         .from(tasks)
-        .where(query)
+        .where(overdueOnly ? and(query, overdueCondition()) : query)
         .orderBy(sql`created_at DESC`);
 
       console.log('[Tasks] Tasks found:', {
@@ -2930,6 +2931,9 @@ export async function registerRoutes(app: Express): Promise<Express> {
         daysUntilExpiration = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
       }
       
+      // Outstanding remediation conditions make the accreditation conditional
+      const outstandingConditions = await AccreditationConditionService.countOutstanding(accreditation.id);
+      
       const result = {
         id: accreditation.id,
         accreditationNumber: accreditation.accreditation_number,
@@ -2937,7 +2941,9 @@ export async function registerRoutes(app: Express): Promise<Express> {
         expiresDate: accreditation.expires_date,
         status: accreditation.status,
         daysUntilExpiration,
-        isPermanent
+        isPermanent,
+        conditional: outstandingConditions > 0,
+        outstandingConditions
       };
       
       console.log('[Accreditation] Found accreditation:', result);
@@ -3000,15 +3006,10 @@ export async function registerRoutes(app: Express): Promise<Express> {
         });
       }
 
-      // Get current company data
       const company = await db.query.companies.findFirst({
         where: eq(companies.id, companyId),
         columns: {
-          id: true,
-          name: true,
-          risk_score: true,
-          previous_risk_score: true,
-          updated_at: true
+          id: true
         }
       });
 
@@ -3019,21 +3020,11 @@ export async function registerRoutes(app: Express): Promise<Express> {
         });
       }
 
-      const currentRisk = company.risk_score || 0;
-      const previousRisk = company.previous_risk_score || currentRisk;
-      const change = currentRisk - previousRisk;
-      
-      let direction: 'up' | 'down' | 'stable' = 'stable';
-      if (change > 0) direction = 'up';
-      else if (change < 0) direction = 'down';
+      // Windowed time series from the recorded risk score history (?window=7d|30d|90d|1y|all)
+      const window = RiskScoreHistoryService.parseWindow(req.query.window);
+      const trend = await RiskScoreHistoryService.getTrend(companyId, window);
 
-      const percentage = previousRisk > 0 ? Math.abs((change / previousRisk) * 100) : 0;
-
-      res.json({
-        change,
-        direction,
-        percentage: Math.round(percentage * 100) / 100
-      });
+      res.json(trend);
 
     } catch (error) {
       console.error(`[Risk Trend] Error fetching risk trend for company ${req.params.id}:`, error);
@@ -3044,6 +3035,56 @@ export async function registerRoutes(app: Express): Promise<Express> {
     }
   });
 
+  // Explain a company's risk score by field and cluster
+  app.get("/api/companies/:id/risk-score/explanation", requireAuth, async (req, res) => {
+    try {
+      const companyId = parseInt(req.params.id);
+      
+      if (isNaN(companyId)) {
+        return res.status(400).json({
+          message: "Invalid company ID",
+          code: "INVALID_ID"
+        });
+      }
+
+      // The explanation exposes individual answers: limit it to the company
+      // itself, the companies in its network and Invela
+      const viewerCompanyId = req.user!.company_id;
+      if (viewerCompanyId !== companyId) {
+        const viewer = await db.query.companies.findFirst({
+          where: eq(companies.id, viewerCompanyId),
+          columns: { category: true }
+        });
+        const networkIds = await getNetworkCompanyIds(viewerCompanyId);
+
+        if (viewer?.category !== 'Invela' && !networkIds.includes(companyId)) {
+          return res.status(403).json({
+            message: "You do not have access to this company's risk score",
+            code: "FORBIDDEN"
+          });
+        }
+      }
+
+      const explanation = await explainCompanyRiskScore(companyId, viewerCompanyId);
+
+      if (!explanation) {
+        return res.status(404).json({
+          message: "Company not found",
+          code: "COMPANY_NOT_FOUND"
+        });
+      }
+
+      res.json(explanation);
+
+    } catch (error) {
+      console.error(`[Risk Score Explanation] Error explaining risk score for company ${req.params.id}:`, error);
+      res.status(500).json({
+        message: "Error explaining risk score",
+        code: "FETCH_ERROR"
+      });
+    }
+  });
+
   // Get risk status summary for a company
   app.get("/api/companies/:id/risk-status", requireAuth, async (req, res) => {
     try {
@@ -3251,24 +3292,27 @@ export async function registerRoutes(app: Express): Promise<Express> {
 
           // Create user onboarding task first
           console.log('[FinTech Invite] Creating user onboarding task');
+          const onboardingDefaults = await TaskDefaultsService.resolve('user_onboarding', {
+            companyId: newCompany.id,
+            bankCompanyId: userCompany.id,
+            companyName: company_name,
+            inviteeName: full_name.trim(),
+            email: email.toLowerCase()
+          }, tx);
           const [onboardingTask] = await tx.insert(tasks)
             .values({
-              title: `New User Invitation: ${email.toLowerCase()}`,
-              description: 'Complete user registration and onboarding.',
+              title: onboardingDefaults.title,
+              description: onboardingDefaults.description,
               task_type: 'user_onboarding',
               task_scope: 'user',
               status: TaskStatus.EMAIL_SENT,
-              priority: 'medium',  // Changed from 'high' to 'medium'
+              priority: onboardingDefaults.priority,
               progress: 25,  // Fixed progress value for EMAIL_SENT status
               company_id: newCompany.id,
               user_email: email.toLowerCase(),
               assigned_to: newUser.id,
               created_by: req.user!.id,
-              due_date: (() => {
-                const date = new Date();
-                date.setDate(date.getDate() + 30); // 30 days deadline
-                return date;
-              })(),
+              due_date: onboardingDefaults.dueDate,
               metadata: {
                 user_id: newUser.id,
                 company_id: newCompany.id,
@@ -4089,18 +4133,25 @@ export async function registerRoutes(app: Express): Promise<Express> {
             .returning();
 
           // Create task for tracking the invitation
+          const onboardingDefaults = await TaskDefaultsService.resolve('user_onboarding', {
+            companyId: inviteData.company_id,
+            companyName: inviteData.company_name,
+            inviteeName: inviteData.full_name,
+            email: inviteData.email
+          }, tx);
           const [task] = await tx.insert(tasks)
             .values({
-              title: `New User Invitation: ${inviteData.email}`,
-              description: `Invitation sent to ${inviteData.full_name} (${inviteData.email}) to join ${inviteData.company_name}`,
+              title: onboardingDefaults.title,
+              description: onboardingDefaults.description,
               task_type: 'user_onboarding',
               task_scope: 'user',
               status: TaskStatus.EMAIL_SENT,
               progress: 100,
-              priority: 'high',
+              priority: onboardingDefaults.priority,
               company_id: inviteData.company_id,
               user_email: inviteData.email,
               created_by: req.user.id,
+              due_date: onboardingDefaults.dueDate,
               metadata: {
                 invitation_id: invitation.id,
                 invited_by: req.user.id,
@@ -0,0 +1,617 @@
+/**
+ * Accreditation API Routes
+ *
+ * This module lets banks and Invela suspend, reinstate and revoke the
+ * accreditation of a data recipient in their network, with a reason code
+ * and justification that are kept in the accreditation's audit trail. They
+ * can also make an accreditation conditional by attaching remediation
+ * conditions. It also serves signed accreditation certificates and their
+ * public, unauthenticated verification.
+ *
+ * Key endpoints:
+ * - GET  /api/accreditation/verify                     - Verify a certificate by ID (public)
+ * - POST /api/accreditation/verify                     - Verify a presented certificate document and signature (public)
+ * - GET  /api/accreditation/verify/public-key          - Public key certificates are signed with (public)
+ * - POST /api/accreditation/:companyId/suspend         - Suspend the company's accreditation
+ * - POST /api/accreditation/:companyId/reinstate       - Reinstate a suspended accreditation
+ * - POST /api/accreditation/:companyId/revoke          - Revoke the company's accreditation
+ * - GET  /api/accreditation/:companyId/status-changes  - Audit trail of these changes
+ * - GET  /api/accreditation/:companyId/certificate     - Signed certificate as JSON, or PDF with ?format=pdf
+ * - GET  /api/accreditation/:companyId/history         - The company's accreditation history
+ * - GET  /api/accreditation/:companyId/compare         - Diff two accreditations (?from=&to=)
+ * - GET  /api/accreditation/:companyId/conditions      - Remediation conditions on the company's accreditations
+ * - POST /api/accreditation/:companyId/conditions      - Attach remediation conditions to the current accreditation
+ * - POST /api/accreditation/:companyId/conditions/:conditionId/evidence - Submit evidence for a condition
+ * - POST /api/accreditation/:companyId/conditions/:conditionId/review   - Accept or reject submitted evidence
+ */
+import { Router } from 'express';
+import { z } from 'zod';
+import { db } from '@db';
+import { companies, AccreditationAction, AccreditationReasonCode } from '@db/schema';
+import { eq } from 'drizzle-orm';
+import { requireAuth } from '../middleware/auth';
+import {
+  AccreditationService,
+  AccreditationStatusError,
+  type AccreditationStatusChangeParams
+} from '../services/accreditation-service';
+import {
+  AccreditationCertificateService,
+  AccreditationCertificateError,
+  type AccreditationCertificateDocument
+} from '../services/accreditation-certificate-service';
+import {
+  AccreditationConditionService,
+  AccreditationConditionError
+} from '../services/accreditation-condition-service';
+import {
+  AccreditationComparisonService,
+  AccreditationComparisonError
+} from '../services/accreditation-comparison-service';
+import { getNetworkCompanyIds } from '../services/company-service';
+
+const router = Router();
+
+const statusChangeSchema = z.object({
+  reasonCode: z.nativeEnum(AccreditationReasonCode),
+  justification: z.string().trim().min(10, "A justification of at least 10 characters is required").max(2000)
+});
+
+const conditionsSchema = z.object({
+  conditions: z.array(z.object({
+    description: z.string().trim().min(1, "A description is required").max(2000),
+    formType: z.enum(['kyb', 'ky3p']),
+    fieldKey: z.string().trim().min(1, "A linked field is required"),
+    ownerId: z.number().int().positive(),
+    dueDate: z.coerce.date().refine(date => date.getTime() > Date.now(), "The due date must be in the future"),
+    evidenceRequirement: z.string().trim().min(1, "An evidence requirement is required").max(2000)
+  })).min(1, "At least one condition is required").max(50)
+});
+
+const conditionEvidenceSchema = z.object({
+  evidence: z.string().trim().min(1, "Evidence is required").max(5000),
+  fileId: z.number().int().positive().nullable().optional()
+});
+
+const conditionReviewSchema = z.object({
+  accepted: z.boolean(),
+  note: z.string().trim().max(2000).nullable().optional()
+});
+
+const CONDITION_ERROR_STATUS: Record<AccreditationConditionError['code'], number> = {
+  NOT_FOUND: 404,
+  NO_ACCREDITATION: 409,
+  INVALID_FIELD: 400,
+  INVALID_OWNER: 400,
+  INVALID_FILE: 400,
+  INVALID_STATE: 409,
+  NOT_CONDITION_SETTER: 403
+};
+
+// Strict, so a presented document cannot carry fields the issued one lacks
+const certificateDocumentSchema: z.ZodType<AccreditationCertificateDocument> = z.object({
+  version: z.number().int(),
+  certificateId: z.string().min(1),
+  issuer: z.string(),
+  accreditationId: z.number().int(),
+  accreditationNumber: z.number().int(),
+  company: z.object({
+    id: z.number().int(),
+    name: z.string()
+  }).strict(),
+  riskScore: z.number().nullable(),
+  riskClusters: z.record(z.number()).nullable(),
+  issuedDate: z.string(),
+  expiresDate: z.string().nullable(),
+  certificateIssuedAt: z.string(),
+  keyId: z.string().min(1)
+}).strict();
+
+const verifyCertificateSchema = z.object({
+  document: certificateDocumentSchema,
+  signature: z.string().min(1)
+});
+
+const CERTIFICATE_ERROR_STATUS: Record<AccreditationCertificateError['code'], number> = {
+  NO_ACCREDITATION: 404,
+  SIGNING_KEY_MISSING: 503
+};
+
+const ERROR_STATUS: Record<AccreditationStatusError['code'], number> = {
+  COMPANY_NOT_FOUND: 404,
+  NO_ACCREDITATION: 409,
+  INVALID_TRANSITION: 409
+};
+
+/**
+ * Whether the user's company may manage the accreditation of another company:
+ * Invela may manage any company, banks only the companies in their network
+ */
+async function canManageAccreditation(userCompanyId: number, companyId: number): Promise<boolean> {
+  const [userCompany] = await db.select({ category: companies.category })
+    .from(companies)
+    .where(eq(companies.id, userCompanyId));
+
+  if (!userCompany || userCompanyId === companyId) return false;
+  if (userCompany.category === 'Invela') return true;
+  if (userCompany.category !== 'Bank') return false;
+
+  const networkIds = await getNetworkCompanyIds(userCompanyId);
+  return networkIds.includes(companyId);
+}
+
+// GET endpoint to verify a certificate by its ID, open to anyone holding one
+router.get('/verify', async (req, res) => {
+  try {
+    const certificateId = typeof req.query.certificateId === 'string' ? req.query.certificateId.trim() : '';
+    if (!certificateId) {
+      return res.status(400).json({
+        message: "certificateId is required",
+        code: "VALIDATION_ERROR"
+      });
+    }
+
+    const result = await AccreditationCertificateService.verifyCertificate({ certificateId });
+    res.json(result);
+  } catch (error) {
+    if (error instanceof AccreditationCertificateError) {
+      return res.status(CERTIFICATE_ERROR_STATUS[error.code]).json({
+        message: error.message,
+        code: error.code
+      });
+    }
+
+    console.error('[Accreditation] Error verifying certificate:', error);
+    res.status(500).json({
+      message: "Error verifying certificate",
+      code: "VERIFY_ERROR"
+    });
+  }
+});
+
+// POST endpoint to verify a presented certificate document and signature
+router.post('/verify', async (req, res) => {
+  try {
+    const parsed = verifyCertificateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "A certificate document and signature are required",
+        code: "VALIDATION_ERROR",
+        details: parsed.error.format()
+      });
+    }
+
+    const result = await AccreditationCertificateService.verifyCertificate({
+      document: parsed.data.document,
+      signature: parsed.data.signature
+    });
+    res.json(result);
+  } catch (error) {
+    if (error instanceof AccreditationCertificateError) {
+      return res.status(CERTIFICATE_ERROR_STATUS[error.code]).json({
+        message: error.message,
+        code: error.code
+      });
+    }
+
+    console.error('[Accreditation] Error verifying certificate:', error);
+    res.status(500).json({
+      message: "Error verifying certificate",
+      code: "VERIFY_ERROR"
+    });
+  }
+});
+
+// GET endpoint to retrieve the public key for verifying certificates offline
+router.get('/verify/public-key', (_req, res) => {
+  try {
+    res.json(AccreditationCertificateService.getPublicKey());
+  } catch (error) {
+    if (error instanceof AccreditationCertificateError) {
+      return res.status(CERTIFICATE_ERROR_STATUS[error.code]).json({
+        message: error.message,
+        code: error.code
+      });
+    }
+
+    console.error('[Accreditation] Error loading certificate signing key:', error);
+    res.status(500).json({
+      message: "Error loading certificate signing key",
+      code: "KEY_ERROR"
+    });
+  }
+});
+
+const ACTION_HANDLERS: Record<AccreditationAction, (params: AccreditationStatusChangeParams) => ReturnType<typeof AccreditationService.suspendAccreditation>> = {
+  [AccreditationAction.SUSPEND]: params => AccreditationService.suspendAccreditation(params),
+  [AccreditationAction.REINSTATE]: params => AccreditationService.reinstateAccreditation(params),
+  [AccreditationAction.REVOKE]: params => AccreditationService.revokeAccreditation(params)
+};
+
+// POST endpoints to suspend, reinstate or revoke an accreditation
+for (const action of Object.values(AccreditationAction)) {
+  router.post(`/:companyId/${action}`, requireAuth, async (req, res) => {
+    try {
+      const companyId = parseInt(req.params.companyId, 10);
+      if (isNaN(companyId)) {
+        return res.status(400).json({
+          message: "Invalid company ID",
+          code: "INVALID_COMPANY_ID"
+        });
+      }
+
+      if (!(await canManageAccreditation(req.user!.company_id, companyId))) {
+        return res.status(403).json({
+          message: "Only Invela and banks in the company's network can change its accreditation",
+          code: "FORBIDDEN"
+        });
+      }
+
+      const parsed = statusChangeSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: parsed.error.errors[0]?.message || "Invalid request",
+          code: "VALIDATION_ERROR",
+          details: parsed.error.format()
+        });
+      }
+
+      const result = await ACTION_HANDLERS[action]({
+        companyId,
+        reasonCode: parsed.data.reasonCode,
+        justification: parsed.data.justification,
+        changedBy: req.user!.id,
+        changedByCompanyId: req.user!.company_id
+      });
+
+      res.json(result);
+    } catch (error) {
+      if (error instanceof AccreditationStatusError) {
+        return res.status(ERROR_STATUS[error.code]).json({
+          message: error.message,
+          code: error.code
+        });
+      }
+
+      console.error(`[Accreditation] Error applying ${action} to accreditation:`, error);
+      res.status(500).json({
+        message: `Error applying ${action} to accreditation`,
+        code: "UPDATE_ERROR"
+      });
+    }
+  });
+}
+
+// GET endpoint to retrieve the audit trail of accreditation status changes
+router.get('/:companyId/status-changes', requireAuth, async (req, res) => {
+  try {
+    const companyId = parseInt(req.params.companyId, 10);
+    if (isNaN(companyId)) {
+      return res.status(400).json({
+        message: "Invalid company ID",
+        code: "INVALID_COMPANY_ID"
+      });
+    }
+
+    // The company itself may see why its accreditation changed
+    if (req.user!.company_id !== companyId && !(await canManageAccreditation(req.user!.company_id, companyId))) {
+      return res.status(403).json({
+        message: "Access denied",
+        code: "FORBIDDEN"
+      });
+    }
+
+    const changes = await AccreditationService.getStatusChanges(companyId);
+    res.json(changes);
+  } catch (error) {
+    console.error('[Accreditation] Error fetching accreditation status changes:', error);
+    res.status(500).json({
+      message: "Error fetching accreditation status changes",
+      code: "FETCH_ERROR"
+    });
+  }
+});
+
+// GET endpoint to retrieve a signed accreditation certificate as JSON or PDF
+router.get('/:companyId/certificate', requireAuth, async (req, res) => {
+  try {
+    const companyId = parseInt(req.params.companyId, 10);
+    if (isNaN(companyId)) {
+      return res.status(400).json({
+        message: "Invalid company ID",
+        code: "INVALID_COMPANY_ID"
+      });
+    }
+
+    let accreditationId: number | undefined;
+    if (req.query.accreditationId !== undefined) {
+      accreditationId = parseInt(String(req.query.accreditationId), 10);
+      if (isNaN(accreditationId)) {
+        return res.status(400).json({
+          message: "Invalid accreditation ID",
+          code: "INVALID_ACCREDITATION_ID"
+        });
+      }
+    }
+
+    if (req.user!.company_id !== companyId && !(await canManageAccreditation(req.user!.company_id, companyId))) {
+      return res.status(403).json({
+        message: "Access denied",
+        code: "FORBIDDEN"
+      });
+    }
+
+    const certificate = await AccreditationCertificateService.getCompanyCertificate(companyId, accreditationId);
+
+    if (req.query.format === 'pdf') {
+      const pdf = await AccreditationCertificateService.generatePDF(certificate);
+      const fileName = `accreditation-certificate-${certificate.document.accreditationNumber}-${certificate.certificateId}.pdf`;
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+      return res.send(pdf);
+    }
+
+    res.json(certificate);
+  } catch (error) {
+    if (error instanceof AccreditationCertificateError) {
+      return res.status(CERTIFICATE_ERROR_STATUS[error.code]).json({
+        message: error.message,
+        code: error.code
+      });
+    }
+
+    console.error('[Accreditation] Error fetching accreditation certificate:', error);
+    res.status(500).json({
+      message: "Error fetching accreditation certificate",
+      code: "FETCH_ERROR"
+    });
+  }
+});
+
+// GET endpoint to retrieve a company's accreditation history, newest first
+router.get('/:companyId/history', requireAuth, async (req, res) => {
+  try {
+    const companyId = parseInt(req.params.companyId, 10);
+    if (isNaN(companyId)) {
+      return res.status(400).json({
+        message: "Invalid company ID",
+        code: "INVALID_COMPANY_ID"
+      });
+    }
+
+    if (req.user!.company_id !== companyId && !(await canManageAccreditation(req.user!.company_id, companyId))) {
+      return res.status(403).json({
+        message: "Access denied",
+        code: "FORBIDDEN"
+      });
+    }
+
+    const history = await AccreditationService.getAccreditationHistory(companyId);
+    res.json(history);
+  } catch (error) {
+    console.error('[Accreditation] Error fetching accreditation history:', error);
+    res.status(500).json({
+      message: "Error fetching accreditation history",
+      code: "FETCH_ERROR"
+    });
+  }
+});
+
+// GET endpoint to compare two of a company's accreditations
+router.get('/:companyId/compare', requireAuth, async (req, res) => {
+  try {
+    const companyId = parseInt(req.params.companyId, 10);
+    const fromId = parseInt(String(req.query.from), 10);
+    const toId = parseInt(String(req.query.to), 10);
+    if (isNaN(companyId) || isNaN(fromId) || isNaN(toId)) {
+      return res.status(400).json({
+        message: "A company ID and the from and to accreditation IDs are required",
+        code: "INVALID_ID"
+      });
+    }
+
+    if (req.user!.company_id !== companyId && !(await canManageAccreditation(req.user!.company_id, companyId))) {
+      return res.status(403).json({
+        message: "Access denied",
+        code: "FORBIDDEN"
+      });
+    }
+
+    const comparison = await AccreditationComparisonService.compare(companyId, fromId, toId);
+    res.json(comparison);
+  } catch (error) {
+    if (error instanceof AccreditationComparisonError) {
+      return res.status(404).json({
+        message: error.message,
+        code: error.code
+      });
+    }
+
+    console.error('[Accreditation] Error comparing accreditations:', error);
+    res.status(500).json({
+      message: "Error comparing accreditations",
+      code: "FETCH_ERROR"
+    });
+  }
+});
+
+// GET endpoint to retrieve the remediation conditions on a company's accreditations
+router.get('/:companyId/conditions', requireAuth, async (req, res) => {
+  try {
+    const companyId = parseInt(req.params.companyId, 10);
+    if (isNaN(companyId)) {
+      return res.status(400).json({
+        message: "Invalid company ID",
+        code: "INVALID_COMPANY_ID"
+      });
+    }
+
+    if (req.user!.company_id !== companyId && !(await canManageAccreditation(req.user!.company_id, companyId))) {
+      return res.status(403).json({
+        message: "Access denied",
+        code: "FORBIDDEN"
+      });
+    }
+
+    const conditions = await AccreditationConditionService.getConditions(companyId);
+    res.json(conditions);
+  } catch (error) {
+    console.error('[Accreditation] Error fetching accreditation conditions:', error);
+    res.status(500).json({
+      message: "Error fetching accreditation conditions",
+      code: "FETCH_ERROR"
+    });
+  }
+});
+
+// POST endpoint to attach remediation conditions, making the accreditation conditional
+router.post('/:companyId/conditions', requireAuth, async (req, res) => {
+  try {
+    const companyId = parseInt(req.params.companyId, 10);
+    if (isNaN(companyId)) {
+      return res.status(400).json({
+        message: "Invalid company ID",
+        code: "INVALID_COMPANY_ID"
+      });
+    }
+
+    if (!(await canManageAccreditation(req.user!.company_id, companyId))) {
+      return res.status(403).json({
+        message: "Only Invela and banks in the company's network can set accreditation conditions",
+        code: "FORBIDDEN"
+      });
+    }
+
+    const parsed = conditionsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: parsed.error.errors[0]?.message || "Invalid request",
+        code: "VALIDATION_ERROR",
+        details: parsed.error.format()
+      });
+    }
+
+    const conditions = await AccreditationConditionService.addConditions(
+      companyId,
+      parsed.data.conditions,
+      req.user!.id,
+      req.user!.company_id
+    );
+
+    res.status(201).json(conditions);
+  } catch (error) {
+    if (error instanceof AccreditationConditionError) {
+      return res.status(CONDITION_ERROR_STATUS[error.code]).json({
+        message: error.message,
+        code: error.code
+      });
+    }
+
+    console.error('[Accreditation] Error adding accreditation conditions:', error);
+    res.status(500).json({
+      message: "Error adding accreditation conditions",
+      code: "CREATE_ERROR"
+    });
+  }
+});
+
+// POST endpoint for the company to submit evidence that a condition is remediated
+router.post('/:companyId/conditions/:conditionId/evidence', requireAuth, async (req, res) => {
+  try {
+    const companyId = parseInt(req.params.companyId, 10);
+    const conditionId = parseInt(req.params.conditionId, 10);
+    if (isNaN(companyId) || isNaN(conditionId)) {
+      return res.status(400).json({
+        message: "Invalid company or condition ID",
+        code: "INVALID_ID"
+      });
+    }
+
+    if (req.user!.company_id !== companyId) {
+      return res.status(403).json({
+        message: "Only the company's users can submit remediation evidence",
+        code: "FORBIDDEN"
+      });
+    }
+
+    const parsed = conditionEvidenceSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: parsed.error.errors[0]?.message || "Invalid request",
+        code: "VALIDATION_ERROR",
+        details: parsed.error.format()
+      });
+    }
+
+    const condition = await AccreditationConditionService.submitEvidence(companyId, conditionId, parsed.data, req.user!.id);
+    res.json(condition);
+  } catch (error) {
+    if (error instanceof AccreditationConditionError) {
+      return res.status(CONDITION_ERROR_STATUS[error.code]).json({
+        message: error.message,
+        code: error.code
+      });
+    }
+
+    console.error('[Accreditation] Error submitting condition evidence:', error);
+    res.status(500).json({
+      message: "Error submitting condition evidence",
+      code: "UPDATE_ERROR"
+    });
+  }
+});
+
+// POST endpoint for the bank to accept or reject submitted evidence
+router.post('/:companyId/conditions/:conditionId/review', requireAuth, async (req, res) => {
+  try {
+    const companyId = parseInt(req.params.companyId, 10);
+    const conditionId = parseInt(req.params.conditionId, 10);
+    if (isNaN(companyId) || isNaN(conditionId)) {
+      return res.status(400).json({
+        message: "Invalid company or condition ID",
+        code: "INVALID_ID"
+      });
+    }
+
+    if (!(await canManageAccreditation(req.user!.company_id, companyId))) {
+      return res.status(403).json({
+        message: "Only Invela and banks in the company's network can review remediation evidence",
+        code: "FORBIDDEN"
+      });
+    }
+
+    const parsed = conditionReviewSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: parsed.error.errors[0]?.message || "Invalid request",
+        code: "VALIDATION_ERROR",
+        details: parsed.error.format()
+      });
+    }
+
+    const condition = await AccreditationConditionService.reviewEvidence(
+      companyId,
+      conditionId,
+      parsed.data.accepted,
+      parsed.data.note || null,
+      req.user!.id,
+      req.user!.company_id
+    );
+    res.json(condition);
+  } catch (error) {
+    if (error instanceof AccreditationConditionError) {
+      return res.status(CONDITION_ERROR_STATUS[error.code]).json({
+        message: error.message,
+        code: error.code
+      });
+    }
+
+    console.error('[Accreditation] Error reviewing condition evidence:', error);
+    res.status(500).json({
+      message: "Error reviewing condition evidence",
+      code: "UPDATE_ERROR"
+    });
+  }
+});
+
+export default router;
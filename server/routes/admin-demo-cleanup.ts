@@ -32,6 +32,7 @@ import {
 } from '@db/schema';
 import { eq, and, lt, sql, inArray, isNotNull } from 'drizzle-orm';
 import * as crypto from 'crypto';
+import { ClaimEvidenceService } from '../services/claim-evidence-service';
 // Simple console logger for demo cleanup operations
 const logger = {
   info: (message: string, data?: any) => console.log(`[INFO] ${message}`, data || ''),
@@ -553,7 +554,22 @@ router.delete('/demo-data/cleanup', async (req, res) => {
           auditTrail.push(`Deleted ${deletedCounts.tasks} tasks`);
         }
         
-        // Step 3: Delete files
+        // Step 3: Remove claim evidence and access log rows that reference the
+        // demo companies' files and users
+        let userDeleteConditions = [eq(users.is_demo_user, true)];
+        if (companyIds.length > 0) {
+          userDeleteConditions.push(inArray(users.company_id, companyIds));
+        }
+        if (finalFilters.excludeUserIds && finalFilters.excludeUserIds.length > 0) {
+          userDeleteConditions.push(sql`${users.id} NOT IN (${finalFilters.excludeUserIds.join(',')})`);
+        }
+        
+        const demoUserIds = (await tx.select({ id: users.id }).from(users)
+          .where(and(...userDeleteConditions))).map(u => u.id);
+        const evidencePurge = await ClaimEvidenceService.purgeDemoRecords(companyIds, demoUserIds, tx);
+        auditTrail.push(`Purged ${evidencePurge.evidence} claim evidence and ${evidencePurge.accessLog} evidence access log entries`);
+        
+        // Step 4: Delete files
         if (companyIds.length > 0) {
           const fileDeleteResult = await tx.delete(files)
             .where(inArray(files.company_id, companyIds));
@@ -561,7 +577,7 @@ router.delete('/demo-data/cleanup', async (req, res) => {
           auditTrail.push(`Deleted ${deletedCounts.files} files`);
         }
         
-        // Step 4: Delete invitations (if table exists)
+        // Step 5: Delete invitations (if table exists)
         try {
           if (companyIds.length > 0) {
             const invitationDeleteResult = await tx.execute(sql`
@@ -574,7 +590,7 @@ router.delete('/demo-data/cleanup', async (req, res) => {
           auditTrail.push('Invitations table not found, skipping...');
         }
         
-        // Step 5: Delete relationships
+        // Step 6: Delete relationships
         if (companyIds.length > 0) {
           const relationshipDeleteResult = await tx.delete(relationships)
             .where(inArray(relationships.company_id, companyIds));
@@ -582,21 +598,13 @@ router.delete('/demo-data/cleanup', async (req, res) => {
           auditTrail.push(`Deleted ${deletedCounts.relationships} relationships`);
         }
         
-        // Step 6: Delete demo users
-        let userDeleteConditions = [eq(users.is_demo_user, true)];
-        if (companyIds.length > 0) {
-          userDeleteConditions.push(inArray(users.company_id, companyIds));
-        }
-        if (finalFilters.excludeUserIds && finalFilters.excludeUserIds.length > 0) {
-          userDeleteConditions.push(sql`${users.id} NOT IN (${finalFilters.excludeUserIds.join(',')})`);
-        }
-        
+        // Step 7: Delete demo users
         const userDeleteResult = await tx.delete(users)
           .where(and(...userDeleteConditions));
         deletedCounts.users = userDeleteResult.rowCount || 0;
         auditTrail.push(`Deleted ${deletedCounts.users} demo users`);
         
-        // Step 7: Delete company logos
+        // Step 8: Delete company logos
         const logosToDelete = demoCompanies.filter(c => c.logo_id);
         if (logosToDelete.length > 0) {
           const logoIds = logosToDelete.map(c => c.logo_id).filter(Boolean);
@@ -606,7 +614,7 @@ router.delete('/demo-data/cleanup', async (req, res) => {
           auditTrail.push(`Deleted ${deletedCounts.companyLogos} company logos`);
         }
         
-        // Step 8: Finally delete companies
+        // Step 9: Finally delete companies
         const companyDeleteResult = await tx.delete(companies)
           .where(and(...buildDemoCompanyQuery(finalFilters)));
         deletedCounts.companies = companyDeleteResult.rowCount || 0;
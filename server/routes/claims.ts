@@ -1,619 +1,726 @@
-import { Router } from 'express';
+/**
+ * Claims API Routes
+ *
+ * This module serves the PII data loss claims visible to the user's company:
+ * claims it filed and claims filed against it as a data recipient. Invela
+ * can see every claim.
+ *
+ * Key endpoints:
+ * - GET    /api/claims                      - Paginated claims (?view=&status=&q=&from=&to=&page=&pageSize=)
+ * - GET    /api/claims/active               - Newest open claims that are not disputed
+ * - GET    /api/claims/disputed             - Newest disputed claims awaiting resolution
+ * - GET    /api/claims/resolved             - Newest resolved claims
+ * - GET    /api/claims/status-flow          - Status transitions taken by the visible claims, with counts
+ * - GET    /api/claims/notification-slas    - Breach notification deadlines set by the user's bank
+ * - PUT    /api/claims/notification-slas    - Set the bank's default deadline or one for a policy
+ * - DELETE /api/claims/notification-slas/:slaId - Remove a deadline
+ * - POST   /api/claims/import               - Import a CSV of claims (multipart "file"; ?dryRun=true to preview)
+ * - GET    /api/claims/policies             - Insurance policies the user's company is party to, with coverage
+ * - GET    /api/claims/policies/:policyId   - A policy with its paid, reserved and remaining coverage
+ * - POST   /api/claims/policies             - Create a policy for a bank and FinTech pair
+ * - PATCH  /api/claims/policies/:policyId   - Change the limits, rates, exclusions or period of a policy
+ * - GET    /api/claims/dispute/:id          - A disputed claim with its latest dispute
+ * - GET    /api/claims/:id                  - A claim with its breach, disputes and resolutions
+ * - GET    /api/claims/:id/history          - Status history of a claim
+ * - GET    /api/claims/:id/evidence         - Evidence attached to a claim, its breach and disputes
+ * - POST   /api/claims/:id/evidence         - Attach a vault file as evidence
+ * - GET    /api/claims/:id/evidence/log     - Chain of custody of a claim's evidence
+ * - GET    /api/claims/:id/evidence/:evidenceId/download - Download evidence, verified against its hash (?inline=true to open a PDF or image)
+ * - GET    /api/claims/:id/export           - Zip of the claim and its evidence with a manifest of hashes
+ * - POST   /api/claims/:id/status           - Move a claim to a new status
+ * - POST   /api/claims                      - File a claim
+ * - PATCH  /api/claims/:id                  - Update the details of an unresolved claim
+ * - DELETE /api/claims/:id                  - Delete a claim that is not disputed or resolved
+ * - POST   /api/claims/:id/dispute          - Dispute a claim
+ * - GET    /api/claims/dispute/:id/allocation - Proposed liability split and payment for a dispute
+ * - POST   /api/claims/dispute/:id/resolve  - Resolve a dispute (Invela only), accepting or overriding the proposed split
+ *
+ * Claims are addressed by numeric ID or by claim number (CLM-YYYY-XXX).
+ */
+import { Router, type Request } from 'express';
+import { z } from 'zod';
+import multer from 'multer';
 import { db } from '@db';
+import { companies, ClaimStatus, DisputeReasonType, ResolutionType, EvidenceTarget } from '@db/schema';
 import { eq } from 'drizzle-orm';
-// Note: These schema imports are placeholders since they're not used yet
-// and will be properly implemented when the database schema is created
-import { claims } from '@db/schema';
+import { requireAuth } from '../middleware/auth';
+import { ClaimWorkflowError } from '../services/claim-workflow-service';
+import { ClaimEvidenceError } from '../services/claim-evidence-service';
+import { InsurancePolicyService, InsurancePolicyError } from '../services/insurance-policy-service';
+import { ClaimImportService, ClaimImportError } from '../services/claim-import-service';
+import {
+  BreachNotificationSlaService,
+  BreachNotificationSlaError,
+  DEFAULT_NOTIFICATION_SLA_HOURS
+} from '../services/breach-notification-sla-service';
+import {
+  ClaimsService,
+  ClaimError,
+  MAX_CLAIM_PAGE_SIZE,
+  type ClaimAccessor,
+  type ClaimView
+} from '../services/claims-service';
 
 const router = Router();
 
-// We need to ensure specific routes come before parameter routes
-// Reordering Express routes to prevent route conflicts
-const ROUTE_PRIORITY = [
-  '/active',        // 1. Get active claims
-  '/disputed',      // 2. Get disputed claims  
-  '/resolved',      // 3. Get resolved claims
-  '/dispute/:id',   // 4. Get dispute details
-  '/:id'            // 5. Get claim by ID (lowest priority, most generic)
-];
-
-// Get all active claims
-router.get('/active', async (req, res) => {
+// Claim batches are parsed in memory; they are not kept in the file vault
+const importUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 5 * 1024 * 1024 }
+});
+
+const optionalText = z.string().trim().max(2000).nullable().optional();
+
+const createClaimSchema = z.object({
+  bankId: z.string().trim().min(1, "Bank ID is required"),
+  bankName: z.string().trim().min(1, "Bank name is required"),
+  fintechName: z.string().trim().min(1, "FinTech name is required"),
+  fintechCompanyId: z.number().int().positive().nullable().optional(),
+  accountNumber: optionalText,
+  claimType: z.string().trim().min(1).max(200).optional(),
+  claimDate: z.coerce.date(),
+  claimAmount: z.coerce.number().positive().optional(), // Calculated instead when a policy covers the claim
+  policyNumber: optionalText,
+  breachDate: z.coerce.date(),
+  breachDiscoveredDate: z.coerce.date().nullable().optional(),
+  breachReportedDate: z.coerce.date().nullable().optional(),
+  consentId: optionalText,
+  consentScope: optionalText,
+  affectedRecords: z.coerce.number().int().min(0).nullable().optional(),
+  remediationStatus: optionalText,
+  incidentDescription: z.string().trim().max(5000).nullable().optional()
+});
+
+const updateClaimSchema = createClaimSchema
+  .omit({ bankId: true, fintechCompanyId: true })
+  .partial();
+
+const disputeSchema = z.object({
+  disputeReason: z.nativeEnum(DisputeReasonType),
+  disputeDetails: z.string().trim().max(5000).nullable().optional(),
+  disputeDate: z.coerce.date().optional()
+});
+
+const resolveDisputeSchema = z.object({
+  resolutionType: z.nativeEnum(ResolutionType).optional(),
+  fintechLiabilityPercent: z.number().int().min(0).max(100).optional(),
+  paymentAmount: z.coerce.number().min(0).nullable().optional(),
+  overrideReason: optionalText,
+  resolutionDecision: optionalText,
+  resolutionNotes: z.string().trim().max(5000).nullable().optional()
+});
+
+const statusChangeSchema = z.object({
+  status: z.nativeEnum(ClaimStatus),
+  note: z.string().trim().max(2000).nullable().optional()
+});
+
+const notificationSlaSchema = z.object({
+  policyNumber: z.string().trim().min(1).max(200).nullable().optional(),
+  notificationHours: z.number().int().min(1, "The deadline must be at least one hour").max(24 * 90)
+});
+
+const attachEvidenceSchema = z.object({
+  fileId: z.number().int().positive(),
+  target: z.nativeEnum(EvidenceTarget).default(EvidenceTarget.CLAIM),
+  disputeId: z.number().int().positive().nullable().optional(),
+  description: optionalText
+}).refine(data => data.target !== EvidenceTarget.DISPUTE || !!data.disputeId, {
+  message: "A dispute must be selected to attach evidence to it",
+  path: ['disputeId']
+});
+
+const policySchema = z.object({
+  policyNumber: z.string().trim().min(1, "Policy number is required").max(200),
+  bankCompanyId: z.number().int().positive().optional(),
+  fintechCompanyId: z.number().int().positive(),
+  coverageLimit: z.number().positive(),
+  perClaimLimit: z.number().positive().nullable().optional(),
+  perRecordRate: z.number().positive(),
+  deductible: z.number().min(0).optional(),
+  exclusions: z.array(z.string().trim().min(1).max(200)).optional(),
+  effectiveFrom: z.coerce.date(),
+  effectiveTo: z.coerce.date().nullable().optional()
+});
+
+const updatePolicySchema = policySchema
+  .omit({ policyNumber: true, bankCompanyId: true, fintechCompanyId: true })
+  .partial();
+
+const listQuerySchema = z.object({
+  view: z.enum(['active', 'disputed', 'resolved']).optional(),
+  status: z.string().optional(),
+  q: z.string().trim().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  page: z.coerce.number().int().min(1).optional(),
+  pageSize: z.coerce.number().int().min(1).max(MAX_CLAIM_PAGE_SIZE).optional()
+});
+
+const CLAIM_STATUSES = Object.values(ClaimStatus) as string[];
+
+const CLAIM_ERROR_STATUS: Record<ClaimError['code'], number> = {
+  NOT_FOUND: 404,
+  FORBIDDEN: 403,
+  INVALID_STATE: 409,
+  INVALID_ALLOCATION: 400,
+  INVALID_CLAIM: 400
+};
+
+const WORKFLOW_ERROR_STATUS: Record<ClaimWorkflowError['code'], number> = {
+  NOT_FOUND: 404,
+  INVALID_TRANSITION: 409,
+  NOTE_REQUIRED: 400
+};
+
+const EVIDENCE_ERROR_STATUS: Record<ClaimEvidenceError['code'], number> = {
+  NOT_FOUND: 404,
+  FILE_NOT_FOUND: 404,
+  FILE_UNAVAILABLE: 422,
+  INTEGRITY_FAILED: 409
+};
+
+const POLICY_ERROR_STATUS: Record<InsurancePolicyError['code'], number> = {
+  NOT_FOUND: 404,
+  FORBIDDEN: 403,
+  DUPLICATE: 409,
+  INVALID_POLICY: 400,
+  INVALID_CLAIM: 400,
+  NOT_COVERED: 422
+};
+
+/**
+ * The user's company, and whether it is Invela, which can see every claim
+ */
+async function getAccessor(req: Request): Promise<ClaimAccessor> {
+  const [company] = await db.select({ category: companies.category })
+    .from(companies)
+    .where(eq(companies.id, req.user!.company_id));
+
+  return {
+    companyId: req.user!.company_id,
+    isInvela: company?.category === 'Invela'
+  };
+}
+
+/**
+ * Whether the user's company sets breach notification deadlines and holds
+ * insurance policies: banks for their own claims, and Invela
+ */
+async function isBankOrInvela(companyId: number): Promise<boolean> {
+  const [company] = await db.select({ category: companies.category })
+    .from(companies)
+    .where(eq(companies.id, companyId));
+
+  return company?.category === 'Bank' || company?.category === 'Invela';
+}
+
+function sendClaimError(res: any, error: unknown, action: string) {
+  if (error instanceof ClaimError) {
+    return res.status(CLAIM_ERROR_STATUS[error.code]).json({
+      message: error.message,
+      code: error.code
+    });
+  }
+
+  if (error instanceof BreachNotificationSlaError) {
+    return res.status(404).json({
+      message: error.message,
+      code: error.code
+    });
+  }
+
+  if (error instanceof ClaimImportError) {
+    return res.status(400).json({
+      message: error.message,
+      code: error.code
+    });
+  }
+
+  if (error instanceof InsurancePolicyError) {
+    return res.status(POLICY_ERROR_STATUS[error.code]).json({
+      message: error.message,
+      code: error.code
+    });
+  }
+
+  if (error instanceof ClaimEvidenceError) {
+    return res.status(EVIDENCE_ERROR_STATUS[error.code]).json({
+      message: error.message,
+      code: error.code
+    });
+  }
+
+  if (error instanceof ClaimWorkflowError) {
+    return res.status(WORKFLOW_ERROR_STATUS[error.code]).json({
+      message: error.message,
+      code: error.code
+    });
+  }
+
+  console.error(`[Claims] Error ${action}:`, error);
+  res.status(500).json({
+    message: `Error ${action}`,
+    code: "CLAIMS_ERROR"
+  });
+}
+
+function validationError(res: any, error: z.ZodError) {
+  return res.status(400).json({
+    message: error.errors[0]?.message || "Invalid request",
+    code: "VALIDATION_ERROR",
+    details: error.format()
+  });
+}
+
+// GET endpoint to list claims with filters and pagination
+router.get('/', requireAuth, async (req, res) => {
   try {
-    // In a real app, we would filter by company ID and active status
-    // This is mock data for the purpose of this demo
-    const activeClaims = [
-      {
-        id: 1,
-        claim_id: 'CLM-2025-001',
-        bank_id: 'BNK-12009',
-        bank_name: 'First National Bank',
-        fintech_name: 'PayQuick Solutions',
-        account_number: 'ACCT-46550812',
-        claim_type: 'PII Data Loss',
-        claim_date: '2025-04-15T09:30:00Z',
-        claim_amount: 50.00,
-        status: 'in_review',
-        policy_number: 'POL-2025-88231',
-        is_disputed: false,
-        is_resolved: false,
-        breach_date: '2025-04-12T03:15:00Z',
-        affected_records: 250,
-        consent_id: 'f0759cbca31766de3d7398d8fb',
-        consent_scope: 'PII',
-        incident_description: 'Unauthorized access to customer PII data was detected in the system.'
-      },
-      {
-        id: 2,
-        claim_id: 'CLM-2025-002',
-        bank_id: 'BNK-13557',
-        bank_name: 'Commerce Trust Bank',
-        fintech_name: 'DataSecure App',
-        account_number: 'ACCT-77812345',
-        claim_type: 'PII Data Loss',
-        claim_date: '2025-04-10T14:15:00Z',
-        claim_amount: 75.50,
-        status: 'processing',
-        policy_number: 'POL-2025-77654',
-        is_disputed: false,
-        is_resolved: false,
-      },
-      {
-        id: 3,
-        claim_id: 'CLM-2025-003',
-        bank_id: 'BNK-22190',
-        bank_name: 'Pacific Regional Bank',
-        fintech_name: 'FinFlow Tech',
-        account_number: 'ACCT-99123456',
-        claim_type: 'PII Data Loss',
-        claim_date: '2025-04-05T10:20:00Z',
-        claim_amount: 120.75,
-        status: 'pending_info',
-        policy_number: 'POL-2025-33219',
-        is_disputed: false,
-        is_resolved: false,
-      }
-    ];
-    
-    res.json(activeClaims);
+    const parsed = listQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return validationError(res, parsed.error);
+    }
+
+    const statuses = parsed.data.status
+      ? parsed.data.status.split(',').map(status => status.trim()).filter(Boolean)
+      : undefined;
+    const unknownStatus = statuses?.find(status => !CLAIM_STATUSES.includes(status));
+    if (unknownStatus) {
+      return res.status(400).json({
+        message: `Unknown claim status: ${unknownStatus}`,
+        code: "VALIDATION_ERROR"
+      });
+    }
+
+    const result = await ClaimsService.listClaims(await getAccessor(req), {
+      view: parsed.data.view,
+      statuses: statuses as ClaimStatus[] | undefined,
+      search: parsed.data.q || undefined,
+      from: parsed.data.from,
+      to: parsed.data.to,
+      page: parsed.data.page,
+      pageSize: parsed.data.pageSize
+    });
+
+    res.json(result);
   } catch (error) {
-    console.error('Error fetching active claims:', error);
-    res.status(500).json({ error: 'Failed to fetch active claims' });
+    sendClaimError(res, error, 'listing claims');
   }
 });
 
-// Get all disputed claims
-router.get('/disputed', async (req, res) => {
+// GET endpoints for the claims page tabs, returning the newest page of claims in the view;
+// X-Total-Count reports how many there are, for paging through GET /api/claims?view=
+for (const view of ['active', 'disputed', 'resolved'] as ClaimView[]) {
+  router.get(`/${view}`, requireAuth, async (req, res) => {
+    try {
+      const result = await ClaimsService.listClaims(await getAccessor(req), { view, pageSize: MAX_CLAIM_PAGE_SIZE });
+
+      res.setHeader('X-Total-Count', String(result.pagination.totalItems));
+      res.json(result.data);
+    } catch (error) {
+      sendClaimError(res, error, `fetching ${view} claims`);
+    }
+  });
+}
+
+// GET endpoint to retrieve the status transitions of the visible claims, for the process flow chart
+router.get('/status-flow', requireAuth, async (req, res) => {
   try {
-    // Mock data for disputed claims
-    const disputedClaims = [
-      {
-        id: 4,
-        claim_id: 'CLM-2025-004',
-        bank_id: 'BNK-67890',
-        bank_name: 'Metro Credit Union',
-        fintech_name: 'LendSecure Technologies',
-        account_number: 'ACCT-55578123',
-        claim_type: 'PII Data Loss',
-        claim_date: '2025-04-03T11:25:00Z',
-        claim_amount: 95.00,
-        status: 'under_review',
-        policy_number: 'POL-2025-45678',
-        is_disputed: true,
-        is_resolved: false,
-        dispute: {
-          id: 1,
-          dispute_date: '2025-04-05T09:15:00Z',
-          dispute_reason: 'The bank disputes liability for the PII data loss, claiming the Fintech\'s security measures were inadequate and violated contractual obligations.',
-          status: 'under_review'
-        }
-      },
-      {
-        id: 5,
-        claim_id: 'CLM-2025-005',
-        bank_id: 'BNK-54321',
-        bank_name: 'Liberty Savings',
-        fintech_name: 'Financial Data Connect',
-        account_number: 'ACCT-7891235',
-        claim_type: 'PII Data Loss',
-        claim_date: '2025-03-28T15:45:00Z',
-        claim_amount: 150.25,
-        status: 'escalated',
-        policy_number: 'POL-2025-98765',
-        is_disputed: true,
-        is_resolved: false,
-        dispute: {
-          id: 2,
-          dispute_date: '2025-03-30T13:20:00Z',
-          dispute_reason: 'Dispute over responsibility for security breach that led to data loss.',
-          status: 'escalated'
-        }
-      },
-      {
-        id: 6,
-        claim_id: 'CLM-2025-006',
-        bank_id: 'BNK-11223',
-        bank_name: 'Central State Bank',
-        fintech_name: 'SmartFunds Inc.',
-        account_number: 'ACCT-22334455',
-        claim_type: 'PII Data Loss',
-        claim_date: '2025-03-20T09:10:00Z',
-        claim_amount: 200.00,
-        status: 'escalated',
-        policy_number: 'POL-2025-55443',
-        is_disputed: true,
-        is_resolved: false,
-        dispute: {
-          id: 3,
-          dispute_date: '2025-03-22T14:35:00Z',
-          dispute_reason: 'Liability dispute based on contractual terms regarding data security responsibilities.',
-          status: 'under_review'
-        }
-      }
-    ];
-    
-    res.json(disputedClaims);
+    const transitions = await ClaimsService.getStatusFlow(await getAccessor(req));
+    res.json(transitions);
   } catch (error) {
-    console.error('Error fetching disputed claims:', error);
-    res.status(500).json({ error: 'Failed to fetch disputed claims' });
+    sendClaimError(res, error, 'fetching claim status flow');
   }
 });
 
-// Get all resolved claims
-router.get('/resolved', async (req, res) => {
+// GET endpoint to retrieve the breach notification deadlines of the user's bank
+router.get('/notification-slas', requireAuth, async (req, res) => {
   try {
-    // Mock data for resolved claims
-    const resolvedClaims = [
-      {
-        id: 7,
-        claim_id: 'CLM-2025-007',
-        bank_id: 'BNK-15937',
-        bank_name: 'Summit Financial',
-        fintech_name: 'QuickTransfer App',
-        account_number: 'ACCT-97531246',
-        claim_type: 'PII Data Loss',
-        claim_date: '2025-03-15T13:20:00Z',
-        claim_amount: 75.00,
-        status: 'approved',
-        policy_number: 'POL-2025-75395',
-        is_disputed: false,
-        is_resolved: true,
-        resolution: {
-          id: 1,
-          resolution_date: '2025-03-18T11:30:00Z',
-          resolution_type: 'approved',
-          compensation_amount: 75.00
-        }
-      },
-      {
-        id: 8,
-        claim_id: 'CLM-2025-008',
-        bank_id: 'BNK-95173',
-        bank_name: 'Heritage Trust Bank',
-        fintech_name: 'MoneyLink Services',
-        account_number: 'ACCT-15975346',
-        claim_type: 'PII Data Loss',
-        claim_date: '2025-03-10T09:45:00Z',
-        claim_amount: 125.50,
-        status: 'partially_approved',
-        policy_number: 'POL-2025-15935',
-        is_disputed: true,
-        is_resolved: true,
-        dispute: {
-          id: 4,
-          dispute_date: '2025-03-12T14:20:00Z',
-          dispute_reason: 'Dispute over extent of liability and amount claimed.',
-          status: 'resolved'
-        },
-        resolution: {
-          id: 2,
-          resolution_date: '2025-03-17T15:40:00Z',
-          resolution_type: 'partially_approved',
-          compensation_amount: 80.25
-        }
-      },
-      {
-        id: 9,
-        claim_id: 'CLM-2025-009',
-        bank_id: 'BNK-75391',
-        bank_name: 'Valley Community Bank',
-        fintech_name: 'SecurePay Solutions',
-        account_number: 'ACCT-35791246',
-        claim_type: 'PII Data Loss',
-        claim_date: '2025-03-05T10:15:00Z',
-        claim_amount: 180.00,
-        status: 'denied',
-        policy_number: 'POL-2025-97531',
-        is_disputed: false,
-        is_resolved: true,
-        resolution: {
-          id: 3,
-          resolution_date: '2025-03-10T11:25:00Z',
-          resolution_type: 'denied',
-          compensation_amount: 0.00,
-          denial_reason: 'Claim falls outside policy coverage parameters'
-        }
-      }
-    ];
-    
-    res.json(resolvedClaims);
+    const slas = await BreachNotificationSlaService.getSlas(req.user!.company_id);
+    res.json({ defaultHours: DEFAULT_NOTIFICATION_SLA_HOURS, slas });
   } catch (error) {
-    console.error('Error fetching resolved claims:', error);
-    res.status(500).json({ error: 'Failed to fetch resolved claims' });
+    sendClaimError(res, error, 'fetching notification SLAs');
   }
 });
 
-// Get dispute details for a claim
-// This route must be defined BEFORE the '/:id' route to ensure proper route matching
-router.get('/dispute/:id', async (req, res) => {
+// PUT endpoint to set the bank's default notification deadline, or one for a policy
+router.put('/notification-slas', requireAuth, async (req, res) => {
   try {
-    const claimId = req.params.id;
-    
-    // In a real app, we would query the database
-    // This is mock data for the purpose of this demo
-    const disputeDetails = {
-      id: 1,
-      claim_id: 'CLM-2025-004',
-      bank_id: 'BNK-67890',
-      bank_name: 'Metro Credit Union',
-      fintech_name: 'LendSecure Technologies',
-      account_number: 'ACCT-55578123',
-      claim_type: 'PII Data Loss',
-      claim_date: '2025-04-03T11:25:00Z',
-      claim_amount: 95.00,
-      status: 'under_review',
-      policy_number: 'POL-2025-45678',
-      is_disputed: true,
-      is_resolved: false,
-      breach_date: '2025-04-01T02:30:00Z',
-      affected_records: 175,
-      consent_id: 'a9b3451fd7124c8e9ef6ab49dc',
-      consent_scope: 'PII',
-      incident_description: 'Data breach through improperly secured API endpoints resulted in unauthorized access.',
-      dispute: {
-        id: 1,
-        dispute_date: '2025-04-05T09:15:00Z',
-        dispute_reason: 'The bank disputes liability for the PII data loss, claiming the Fintech\'s security measures were inadequate and violated contractual obligations.',
-        status: 'under_review',
-        documents: [
-          {
-            id: 1, 
-            name: 'Security Audit Report',
-            type: 'pdf',
-            size: 1.2,
-            uploaded_by: 'Metro Credit Union',
-            uploaded_at: '2025-04-05T10:30:00Z'
-          },
-          {
-            id: 2,
-            name: 'Data Access Logs',
-            type: 'xlsx',
-            size: 0.845,
-            uploaded_by: 'Metro Credit Union',
-            uploaded_at: '2025-04-05T10:35:00Z'
-          },
-          {
-            id: 3,
-            name: 'Service Agreement',
-            type: 'pdf',
-            size: 2.8,
-            uploaded_by: 'Metro Credit Union',
-            uploaded_at: '2025-04-05T10:40:00Z'
-          },
-          {
-            id: 4,
-            name: 'Security Compliance Report',
-            type: 'pdf',
-            size: 3.1,
-            uploaded_by: 'LendSecure Technologies',
-            uploaded_at: '2025-04-06T14:15:00Z'
-          },
-          {
-            id: 5,
-            name: 'Incident Response Timeline',
-            type: 'docx',
-            size: 0.52,
-            uploaded_by: 'LendSecure Technologies',
-            uploaded_at: '2025-04-06T14:20:00Z'
-          },
-          {
-            id: 6,
-            name: 'Forensic Analysis Report',
-            type: 'pdf',
-            size: 5.7,
-            uploaded_by: 'Third-Party Auditor',
-            uploaded_at: '2025-04-07T09:30:00Z'
-          }
-        ],
-        timeline: [
-          {
-            id: 1,
-            event: 'Dispute Filed',
-            date: '2025-04-05T09:45:00Z',
-            description: 'Metro Credit Union filed a dispute against the claim, citing contractual terms violation.'
-          },
-          {
-            id: 2,
-            event: 'Documentation Requested',
-            date: '2025-04-05T11:30:00Z',
-            description: 'Additional documentation was requested from both parties to support the dispute review.'
-          },
-          {
-            id: 3,
-            event: 'Documentation Received',
-            date: '2025-04-07T14:15:00Z',
-            description: 'Security audit reports and compliance documentation received from both parties.'
-          },
-          {
-            id: 4,
-            event: 'Under Review',
-            date: '2025-04-08T16:30:00Z',
-            description: 'Dispute is currently under review by the resolution team.'
-          }
-        ]
-      }
-    };
-    
-    res.json(disputeDetails);
+    if (!(await isBankOrInvela(req.user!.company_id))) {
+      return res.status(403).json({
+        message: "Only banks can set breach notification deadlines",
+        code: "FORBIDDEN"
+      });
+    }
+
+    const parsed = notificationSlaSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return validationError(res, parsed.error);
+    }
+
+    const sla = await BreachNotificationSlaService.setSla(
+      req.user!.company_id,
+      parsed.data.policyNumber ?? null,
+      parsed.data.notificationHours,
+      req.user!.id
+    );
+    res.json(sla);
   } catch (error) {
-    console.error('Error fetching dispute details:', error);
-    res.status(500).json({ error: 'Failed to fetch dispute details' });
+    sendClaimError(res, error, 'setting notification SLA');
   }
 });
 
-// Get a single claim by ID
-// This is a generic catch-all route for any claim ID
-router.get('/:id', async (req, res) => {
+// DELETE endpoint to remove a notification deadline
+router.delete('/notification-slas/:slaId', requireAuth, async (req, res) => {
   try {
-    const claimId = req.params.id;
-    console.log('[API] Fetching claim by ID:', claimId);
-    console.log('[API] Request params:', req.params);
-    
-    // In a real app, we would query the database
-    // This is mock data for the purpose of this demo
-    const activeClaims = [
-      {
-        id: 1,
-        claim_id: 'CLM-2025-001',
-        bank_id: 'BNK-12009',
-        bank_name: 'First National Bank',
-        fintech_name: 'PayQuick Solutions',
-        account_number: 'ACCT-46550812',
-        claim_type: 'PII Data Loss',
-        claim_date: '2025-04-15T09:30:00Z',
-        claim_amount: 50.00,
-        status: 'in_review',
-        policy_number: 'POL-2025-88231',
-        is_disputed: false,
-        is_resolved: false,
-        breach_date: '2025-04-12T03:15:00Z',
-        affected_records: 250,
-        consent_id: 'f0759cbca31766de3d7398d8fb',
-        consent_scope: 'PII',
-        incident_description: 'Unauthorized access to customer PII data was detected in the system.'
-      },
-      {
-        id: 2,
-        claim_id: 'CLM-2025-002',
-        bank_id: 'BNK-13557',
-        bank_name: 'Commerce Trust Bank',
-        fintech_name: 'DataSecure App',
-        account_number: 'ACCT-77812345',
-        claim_type: 'PII Data Loss',
-        claim_date: '2025-04-10T14:15:00Z',
-        claim_amount: 75.50,
-        status: 'processing',
-        policy_number: 'POL-2025-77654',
-        is_disputed: false,
-        is_resolved: false,
-        breach_date: '2025-04-08T06:45:00Z',
-        affected_records: 120,
-        consent_id: 'b8741ecd92a5687fb143ce09ad',
-        consent_scope: 'PII',
-        incident_description: 'Security vulnerability exploited resulting in unauthorized data access.'
-      },
-      {
-        id: 3,
-        claim_id: 'CLM-2025-003',
-        bank_id: 'BNK-22190',
-        bank_name: 'Pacific Regional Bank',
-        fintech_name: 'FinFlow Tech',
-        account_number: 'ACCT-99123456',
-        claim_type: 'PII Data Loss',
-        claim_date: '2025-04-05T10:20:00Z',
-        claim_amount: 120.75,
-        status: 'pending_info',
-        policy_number: 'POL-2025-33219',
-        is_disputed: false,
-        is_resolved: false,
-        breach_date: '2025-04-03T13:15:00Z',
-        affected_records: 315,
-        consent_id: 'c6532a9b78d01ef4521ab63ec',
-        consent_scope: 'PII',
-        incident_description: 'Customer PII data exposed through insecure API implementation.'
-      },
-      {
-        id: 4,
-        claim_id: 'CLM-2025-004',
-        bank_id: 'BNK-67890',
-        bank_name: 'Metro Credit Union',
-        fintech_name: 'LendSecure Technologies',
-        account_number: 'ACCT-55578123',
-        claim_type: 'PII Data Loss',
-        claim_date: '2025-04-03T11:25:00Z',
-        claim_amount: 95.00,
-        status: 'under_review',
-        policy_number: 'POL-2025-45678',
-        is_disputed: true,
-        is_resolved: false,
-        breach_date: '2025-04-01T02:30:00Z',
-        affected_records: 175,
-        consent_id: 'a9b3451fd7124c8e9ef6ab49dc',
-        consent_scope: 'PII',
-        incident_description: 'Data breach through improperly secured API endpoints resulted in unauthorized access.'
-      }
-    ];
-    
-    // Include disputed claims (which were missing from the allClaims array)
-    const disputedClaims = [
-      {
-        id: 5,
-        claim_id: 'CLM-2025-005',
-        bank_id: 'BNK-54321',
-        bank_name: 'Liberty Savings',
-        fintech_name: 'Financial Data Connect',
-        account_number: 'ACCT-7891235',
-        claim_type: 'PII Data Loss',
-        claim_date: '2025-03-28T15:45:00Z',
-        claim_amount: 150.25,
-        status: 'escalated',
-        policy_number: 'POL-2025-98765',
-        is_disputed: true,
-        is_resolved: false,
-        breach_date: '2025-03-25T07:20:00Z',
-        affected_records: 290,
-        consent_id: 'd9e4231fa6c7890b3e56d72ab',
-        consent_scope: 'PII',
-        incident_description: 'API vulnerability exploited by unauthorized party, resulting in customer data exposure.',
-        dispute: {
-          id: 2,
-          dispute_date: '2025-03-30T13:20:00Z',
-          dispute_reason: 'Dispute over responsibility for security breach that led to data loss.',
-          status: 'escalated'
-        }
-      },
-      {
-        id: 6,
-        claim_id: 'CLM-2025-006',
-        bank_id: 'BNK-11223',
-        bank_name: 'Central State Bank',
-        fintech_name: 'SmartFunds Inc.',
-        account_number: 'ACCT-22334455',
-        claim_type: 'PII Data Loss',
-        claim_date: '2025-03-20T09:10:00Z',
-        claim_amount: 200.00,
-        status: 'escalated',
-        policy_number: 'POL-2025-55443',
-        is_disputed: true,
-        is_resolved: false,
-        breach_date: '2025-03-18T18:45:00Z',
-        affected_records: 420,
-        consent_id: 'e3d5620f1a9b7c84d25e97fb',
-        consent_scope: 'PII',
-        incident_description: 'Unauthorized database access resulted in customer PII data leak.',
-        dispute: {
-          id: 3,
-          dispute_date: '2025-03-22T14:35:00Z',
-          dispute_reason: 'Liability dispute based on contractual terms regarding data security responsibilities.',
-          status: 'under_review'
-        }
-      }
-    ];
-    
-    // Combine active and disputed claims to create a complete list
-    const allClaims = [...activeClaims, ...disputedClaims];
-    
-    // Important: Need to handle both number and string IDs
-    console.log('[API] Looking for claim with ID:', claimId);
-    console.log('[API] ID type:', typeof claimId);
-    
-    // First try exact match, then try string comparison
-    const claim = allClaims.find(c => {
-      const stringMatch = c.id.toString() === claimId;
-      const claimIdMatch = c.claim_id === claimId;
-      console.log(`[API] Checking claim ${c.id}: stringMatch=${stringMatch}, claimIdMatch=${claimIdMatch}`);
-      return stringMatch || claimIdMatch;
-    });
-    
-    if (!claim) {
-      console.log('[API] No matching claim found for ID:', claimId);
-      return res.status(404).json({ error: 'Claim not found' });
+    const slaId = parseInt(req.params.slaId, 10);
+    if (isNaN(slaId)) {
+      return res.status(400).json({
+        message: "Invalid SLA ID",
+        code: "INVALID_SLA_ID"
+      });
+    }
+
+    await BreachNotificationSlaService.deleteSla(req.user!.company_id, slaId);
+    res.status(204).send();
+  } catch (error) {
+    sendClaimError(res, error, 'removing notification SLA');
+  }
+});
+
+// POST endpoint to import a CSV of claims, or preview the import with ?dryRun=true
+router.post('/import', requireAuth, importUpload.single('file'), async (req, res) => {
+  try {
+    if (!(await isBankOrInvela(req.user!.company_id))) {
+      return res.status(403).json({
+        message: "Only banks can import claims",
+        code: "FORBIDDEN"
+      });
+    }
+
+    if (!req.file) {
+      return res.status(400).json({
+        message: "A CSV file is required",
+        code: "VALIDATION_ERROR"
+      });
+    }
+
+    const dryRun = req.query.dryRun === 'true' || req.body?.dryRun === 'true';
+    const result = await ClaimImportService.importClaims(
+      await getAccessor(req),
+      req.file.buffer.toString('utf8'),
+      dryRun,
+      req.user!.id
+    );
+
+    res.status(dryRun || result.created === 0 ? 200 : 201).json(result);
+  } catch (error) {
+    sendClaimError(res, error, 'importing claims');
+  }
+});
+
+// GET endpoint to list the insurance policies the user's company is party to
+router.get('/policies', requireAuth, async (req, res) => {
+  try {
+    const policies = await InsurancePolicyService.listPolicies(await getAccessor(req));
+    res.json(policies);
+  } catch (error) {
+    sendClaimError(res, error, 'fetching insurance policies');
+  }
+});
+
+// GET endpoint to retrieve a policy with its coverage
+router.get('/policies/:policyId', requireAuth, async (req, res) => {
+  try {
+    const policyId = parseInt(req.params.policyId, 10);
+    if (isNaN(policyId)) {
+      return res.status(400).json({ message: "Invalid policy ID", code: "INVALID_POLICY_ID" });
+    }
+
+    const policy = await InsurancePolicyService.getPolicy(await getAccessor(req), policyId);
+    res.json(policy);
+  } catch (error) {
+    sendClaimError(res, error, 'fetching insurance policy');
+  }
+});
+
+// POST endpoint to create a policy for a bank and FinTech pair
+router.post('/policies', requireAuth, async (req, res) => {
+  try {
+    if (!(await isBankOrInvela(req.user!.company_id))) {
+      return res.status(403).json({
+        message: "Only banks can hold insurance policies",
+        code: "FORBIDDEN"
+      });
     }
-    
-    console.log('[API] Found matching claim:', claim.id, claim.claim_id);
+
+    const parsed = policySchema.safeParse(req.body);
+    if (!parsed.success) {
+      return validationError(res, parsed.error);
+    }
+
+    const policy = await InsurancePolicyService.createPolicy(await getAccessor(req), parsed.data, req.user!.id);
+    res.status(201).json(policy);
+  } catch (error) {
+    sendClaimError(res, error, 'creating insurance policy');
+  }
+});
+
+// PATCH endpoint to change the terms of a policy
+router.patch('/policies/:policyId', requireAuth, async (req, res) => {
+  try {
+    const policyId = parseInt(req.params.policyId, 10);
+    if (isNaN(policyId)) {
+      return res.status(400).json({ message: "Invalid policy ID", code: "INVALID_POLICY_ID" });
+    }
+
+    const parsed = updatePolicySchema.safeParse(req.body);
+    if (!parsed.success) {
+      return validationError(res, parsed.error);
+    }
+
+    const policy = await InsurancePolicyService.updatePolicy(await getAccessor(req), policyId, parsed.data);
+    res.json(policy);
+  } catch (error) {
+    sendClaimError(res, error, 'updating insurance policy');
+  }
+});
+
+// GET endpoint to retrieve a disputed claim with its latest dispute
+router.get('/dispute/:id', requireAuth, async (req, res) => {
+  try {
+    const claim = await ClaimsService.getDispute(await getAccessor(req), req.params.id);
     res.json(claim);
   } catch (error) {
-    console.error('Error fetching claim:', error);
-    res.status(500).json({ error: 'Failed to fetch claim' });
+    sendClaimError(res, error, 'fetching dispute');
   }
 });
 
-// Create a new dispute
-router.post('/:id/dispute', async (req, res) => {
+// GET endpoint to propose a liability allocation for a dispute
+router.get('/dispute/:id/allocation', requireAuth, async (req, res) => {
   try {
-    const claimId = req.params.id;
-    const disputeData = req.body;
-    
-    // In a real app, we would insert into the database
-    // For now, just respond with success and a mock ID
-    
-    res.status(201).json({
-      success: true,
-      message: 'Dispute created successfully',
-      dispute_id: 5
-    });
+    const disputeId = parseInt(req.params.id, 10);
+    if (isNaN(disputeId)) {
+      return res.status(400).json({
+        message: "Invalid dispute ID",
+        code: "INVALID_DISPUTE_ID"
+      });
+    }
+
+    const allocation = await ClaimsService.proposeAllocation(await getAccessor(req), disputeId);
+    res.json(allocation);
   } catch (error) {
-    console.error('Error creating dispute:', error);
-    res.status(500).json({ error: 'Failed to create dispute' });
+    sendClaimError(res, error, 'proposing liability allocation');
   }
 });
 
-// Create a new claim
-router.post('/', async (req, res) => {
+// POST endpoint to resolve a dispute
+router.post('/dispute/:id/resolve', requireAuth, async (req, res) => {
   try {
-    const claimData = req.body;
-    
-    // In a real app, we would insert into the database
-    // For now, just respond with success and a mock ID
-    
-    res.status(201).json({
-      success: true,
-      message: 'Claim created successfully',
-      claim_id: 'CLM-2025-010'
-    });
+    const disputeId = parseInt(req.params.id, 10);
+    if (isNaN(disputeId)) {
+      return res.status(400).json({
+        message: "Invalid dispute ID",
+        code: "INVALID_DISPUTE_ID"
+      });
+    }
+
+    const parsed = resolveDisputeSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return validationError(res, parsed.error);
+    }
+
+    const resolution = await ClaimsService.resolveDispute(await getAccessor(req), disputeId, parsed.data, req.user!.id);
+    res.json(resolution);
   } catch (error) {
-    console.error('Error creating claim:', error);
-    res.status(500).json({ error: 'Failed to create claim' });
+    sendClaimError(res, error, 'resolving dispute');
   }
 });
 
-// Submit a dispute for a claim
-router.post('/:id/dispute', async (req, res) => {
+// GET endpoint to retrieve a claim with its details
+router.get('/:id', requireAuth, async (req, res) => {
   try {
-    const claimId = req.params.id;
-    const disputeData = req.body;
-    
-    // In a real app, we would insert into the database
-    // For now, just respond with success
-    
-    res.status(201).json({
-      success: true,
-      message: 'Dispute filed successfully',
-      dispute_id: 5
-    });
+    const claim = await ClaimsService.getClaim(await getAccessor(req), req.params.id);
+    res.json(claim);
+  } catch (error) {
+    sendClaimError(res, error, 'fetching claim');
+  }
+});
+
+// GET endpoint to retrieve the status history of a claim
+router.get('/:id/history', requireAuth, async (req, res) => {
+  try {
+    const history = await ClaimsService.getStatusHistory(await getAccessor(req), req.params.id);
+    res.json(history);
   } catch (error) {
-    console.error('Error filing dispute:', error);
-    res.status(500).json({ error: 'Failed to file dispute' });
+    sendClaimError(res, error, 'fetching claim status history');
   }
 });
 
-// Submit a resolution for a dispute
-router.post('/dispute/:id/resolve', async (req, res) => {
+// GET endpoint to list the evidence attached to a claim
+router.get('/:id/evidence', requireAuth, async (req, res) => {
   try {
-    const disputeId = req.params.id;
-    const resolutionData = req.body;
-    
-    // In a real app, we would insert into the database
-    // For now, just respond with success
-    
-    res.status(201).json({
-      success: true,
-      message: 'Resolution submitted successfully',
-      resolution_id: 4
+    const evidence = await ClaimsService.listEvidence(await getAccessor(req), req.params.id);
+    res.json(evidence);
+  } catch (error) {
+    sendClaimError(res, error, 'fetching claim evidence');
+  }
+});
+
+// POST endpoint to attach a vault file to a claim, its breach or a dispute
+router.post('/:id/evidence', requireAuth, async (req, res) => {
+  try {
+    const parsed = attachEvidenceSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return validationError(res, parsed.error);
+    }
+
+    const evidence = await ClaimsService.attachEvidence(
+      await getAccessor(req),
+      req.params.id,
+      parsed.data,
+      req.user!.id
+    );
+    res.status(201).json(evidence);
+  } catch (error) {
+    sendClaimError(res, error, 'attaching claim evidence');
+  }
+});
+
+// GET endpoint to retrieve the chain of custody of a claim's evidence
+router.get('/:id/evidence/log', requireAuth, async (req, res) => {
+  try {
+    const log = await ClaimsService.getEvidenceLog(await getAccessor(req), req.params.id);
+    res.json(log);
+  } catch (error) {
+    sendClaimError(res, error, 'fetching claim evidence log');
+  }
+});
+
+// GET endpoint to download one piece of evidence, or open a PDF or image in the browser with ?inline=true
+router.get('/:id/evidence/:evidenceId/download', requireAuth, async (req, res) => {
+  try {
+    const evidenceId = parseInt(req.params.evidenceId, 10);
+    if (isNaN(evidenceId)) {
+      return res.status(400).json({ message: "Invalid evidence ID", code: "VALIDATION_ERROR" });
+    }
+
+    const { evidence, content, inline } = await ClaimsService.downloadEvidence(
+      await getAccessor(req),
+      req.params.id,
+      evidenceId,
+      req.user!.id,
+      req.query.inline === 'true'
+    );
+
+    // Evidence is uploaded by the parties to the claim, so the browser must
+    // never sniff it into another type or run script from it
+    res.setHeader('Content-Type', evidence.file_type || 'application/octet-stream');
+    res.setHeader('Content-Disposition', `${inline ? 'inline' : 'attachment'}; filename="${evidence.file_name.replace(/"/g, '')}"`);
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    res.setHeader('Content-Security-Policy', 'sandbox');
+    res.setHeader('X-Evidence-SHA256', evidence.sha256);
+    res.send(content);
+  } catch (error) {
+    sendClaimError(res, error, 'downloading claim evidence');
+  }
+});
+
+// GET endpoint to export a claim and all its evidence as a zip
+router.get('/:id/export', requireAuth, async (req, res) => {
+  try {
+    const { claimNumber, archive } = await ClaimsService.exportClaim(
+      await getAccessor(req),
+      req.params.id,
+      req.user!.id
+    );
+
+    archive.on('error', (error) => {
+      console.error('[Claims] Error streaming claim export:', error);
+      res.destroy(error);
     });
+
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', `attachment; filename="${claimNumber}-evidence.zip"`);
+    archive.pipe(res);
+  } catch (error) {
+    sendClaimError(res, error, 'exporting claim');
+  }
+});
+
+// POST endpoint to file a claim
+router.post('/', requireAuth, async (req, res) => {
+  try {
+    const parsed = createClaimSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return validationError(res, parsed.error);
+    }
+
+    const claim = await ClaimsService.createClaim(await getAccessor(req), parsed.data, req.user!.id);
+    res.status(201).json(claim);
+  } catch (error) {
+    sendClaimError(res, error, 'creating claim');
+  }
+});
+
+// PATCH endpoint to update the details of a claim
+router.patch('/:id', requireAuth, async (req, res) => {
+  try {
+    const parsed = updateClaimSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return validationError(res, parsed.error);
+    }
+
+    const claim = await ClaimsService.updateClaim(await getAccessor(req), req.params.id, parsed.data);
+    res.json(claim);
+  } catch (error) {
+    sendClaimError(res, error, 'updating claim');
+  }
+});
+
+// DELETE endpoint to remove a claim filed in error
+router.delete('/:id', requireAuth, async (req, res) => {
+  try {
+    await ClaimsService.deleteClaim(await getAccessor(req), req.params.id);
+    res.status(204).send();
+  } catch (error) {
+    sendClaimError(res, error, 'deleting claim');
+  }
+});
+
+// POST endpoint to dispute a claim
+router.post('/:id/dispute', requireAuth, async (req, res) => {
+  try {
+    const parsed = disputeSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return validationError(res, parsed.error);
+    }
+
+    const dispute = await ClaimsService.fileDispute(await getAccessor(req), req.params.id, parsed.data, req.user!.id);
+    res.status(201).json(dispute);
+  } catch (error) {
+    sendClaimError(res, error, 'filing dispute');
+  }
+});
+
+// POST endpoint to move a claim to a new status
+router.post('/:id/status', requireAuth, async (req, res) => {
+  try {
+    const parsed = statusChangeSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return validationError(res, parsed.error);
+    }
+
+    const change = await ClaimsService.updateStatus(
+      await getAccessor(req),
+      req.params.id,
+      parsed.data.status,
+      parsed.data.note,
+      req.user!.id
+    );
+    res.json(change);
   } catch (error) {
-    console.error('Error submitting resolution:', error);
-    res.status(500).json({ error: 'Failed to submit resolution' });
+    sendClaimError(res, error, 'changing claim status');
   }
 });
 
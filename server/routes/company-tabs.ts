@@ -55,8 +55,9 @@ router.post('/:companyId', requireAuth, async (req, res) => {
  * Unlock file vault for a company
  * POST /api/company-tabs/:companyId/unlock-file-vault
  * 
- * This endpoint specifically adds the 'file-vault' tab to a company's available tabs
- * and broadcasts a WebSocket message to update all connected clients.
+ * This endpoint applies the company's onboarding sequence, which opens the
+ * 'file-vault' tab once the task that unlocks it is finished, and broadcasts
+ * any tabs it opens to all connected clients.
  */
 router.post('/:companyId/unlock-file-vault', requireAuth, async (req, res) => {
   try {
@@ -105,9 +106,9 @@ router.post('/:companyId/unlock-file-vault', requireAuth, async (req, res) => {
  * Force unlock file vault for any company (emergency endpoint)
  * POST /api/company-tabs/force-unlock/:companyId
  * 
- * This endpoint is an emergency fix for unlocking the file vault
- * even if the user doesn't have direct access to the company.
- * It should only be used for debugging and emergency fixes.
+ * This endpoint is an emergency fix that re-applies the onboarding sequence
+ * of a company whose file vault did not open after its unlocking task was
+ * finished. It should only be used for debugging and emergency fixes.
  */
 router.post('/force-unlock/:companyId', async (req, res) => {
   try {
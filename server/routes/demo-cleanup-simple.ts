@@ -15,6 +15,7 @@ import {
 } from '@db/schema';
 import { eq, and, inArray } from 'drizzle-orm';
 import { requireAuth } from '../middleware/auth';
+import { ClaimEvidenceService } from '../services/claim-evidence-service';
 
 const router = Router();
 
@@ -138,22 +139,27 @@ router.delete('/demo-data/cleanup', requireAuth, async (req, res) => {
       deletedCounts.tasks = taskResult.rowCount || 0;
       console.log('[Demo Cleanup] Deleted tasks:', deletedCounts.tasks);
 
-      // 2. Delete files
+      // 2. Remove claim evidence and access log rows that reference demo files and users
+      const demoUserIds = (await db.select({ id: users.id }).from(users)
+        .where(eq(users.is_demo_user, true))).map(u => u.id);
+      await ClaimEvidenceService.purgeDemoRecords(companyIds, demoUserIds);
+
+      // 3. Delete files
       const fileResult = await db.delete(files).where(inArray(files.company_id, companyIds));
       deletedCounts.files = fileResult.rowCount || 0;
       console.log('[Demo Cleanup] Deleted files:', deletedCounts.files);
 
-      // 3. Delete relationships
+      // 4. Delete relationships
       const relResult = await db.delete(relationships).where(inArray(relationships.company_id, companyIds));
       deletedCounts.relationships = relResult.rowCount || 0;
       console.log('[Demo Cleanup] Deleted relationships:', deletedCounts.relationships);
 
-      // 4. Delete demo users
+      // 5. Delete demo users
       const userResult = await db.delete(users).where(eq(users.is_demo_user, true));
       deletedCounts.users = userResult.rowCount || 0;
       console.log('[Demo Cleanup] Deleted demo users:', deletedCounts.users);
 
-      // 5. Delete companies last
+      // 6. Delete companies last
       const companyResult = await db.delete(companies).where(eq(companies.is_demo, true));
       deletedCounts.companies = companyResult.rowCount || 0;
       console.log('[Demo Cleanup] Deleted demo companies:', deletedCounts.companies);
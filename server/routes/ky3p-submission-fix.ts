@@ -10,6 +10,7 @@ import { tasks } from "@db/schema";
 import { eq } from "drizzle-orm";
 import { requireAuth } from "../middleware/auth";
 import { getWebSocketServer } from "../services/websocket";
+import { runRiskRulesForSubmission } from "../services/riskRuleEvaluator";
 
 // Create router instance
 const router = Router();
@@ -89,6 +90,7 @@ router.post("/api/ky3p/submit-form/:taskId", requireAuth, async (req, res) => {
       .where(eq(tasks.id, taskIdNum))
       .returning({ 
         id: tasks.id, 
+        company_id: tasks.company_id,
         status: tasks.status, 
         progress: tasks.progress,
         metadata: tasks.metadata
@@ -142,6 +144,11 @@ router.post("/api/ky3p/submit-form/:taskId", requireAuth, async (req, res) => {
       console.warn("[KY3P Submission Fix] WebSocket server not available for broadcasting");
     }
 
+    // Run bank-defined risk score rules against the submitted answers
+    if (updatedTask.company_id) {
+      await runRiskRulesForSubmission(updatedTask.company_id, taskIdNum);
+    }
+
     // Return success response with more detailed information
     return res.status(200).json({
       success: true,
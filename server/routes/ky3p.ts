@@ -13,6 +13,7 @@ import * as FileCreationService from '../services/fileCreation';
 import { logger } from '../utils/logger';
 import * as WebSocketService from '../services/websocket';
 import { requireAuth } from '../middleware/auth';
+import { TaskDependencyService } from '../services/task-dependency-service';
 
 // Logger is already initialized in the imported module
 
@@ -272,40 +273,20 @@ router.post('/enhanced-submit/:taskId', requireAuth, async (req, res) => {
       status: 'submitted'
     });
     
-    // Get the company's tabs to check if the File Vault tab is available
-    const [company] = await db.select()
+    // Apply the onboarding sequence to unlock dependent tasks and tabs
+    const { unlockedTabs } = await TaskDependencyService.evaluate(task.company_id);
+    
+    const [company] = await db.select({ available_tabs: companies.available_tabs })
       .from(companies)
       .where(eq(companies.id, task.company_id));
       
-    let availableTabs = [];
-    if (company && company.metadata && Array.isArray(company.metadata.available_tabs)) {
-      availableTabs = company.metadata.available_tabs;
-      
-      // If File Vault tab not yet available, add it
-      if (!availableTabs.includes('file-vault')) {
-        availableTabs.push('file-vault');
-        
-        // Update company with new tabs
-        await db.update(companies)
-          .set({
-            metadata: {
-              ...company.metadata,
-              available_tabs: availableTabs
-            }
-          })
-          .where(eq(companies.id, task.company_id));
-          
-        // Broadcast company update to refresh UI
-        WebSocketService.broadcastCompanyUpdate(task.company_id, {
-          availableTabs
-        });
-        
-        logger.info('File Vault tab unlocked for company', {
-          companyId: task.company_id,
-          availableTabs
-        });
-      }
-    }
+    const availableTabs = company?.available_tabs || [];
+    
+    logger.info('Onboarding sequence applied after KY3P submission', {
+      companyId: task.company_id,
+      unlockedTabs,
+      availableTabs
+    });
     
     return res.json({
       success: true,
@@ -2,15 +2,14 @@ import { Router } from 'express';
 import { join } from 'path';
 import { db } from '@db';
 import { tasks, TaskStatus, kybFields, kybResponses, files, companies } from '@db/schema';
-import { eq, and, or, ilike, sql } from 'drizzle-orm';
+import { eq, and, ilike, sql } from 'drizzle-orm';
 // Import using actual module name conventions
 import * as FileCreationService from '../services/fileCreation';
 import { logger } from '../utils/logger';
 import * as WebSocketService from '../services/websocket';
 import { requireAuth } from '../middleware/auth';
-import { CompanyTabsService } from '../services/companyTabsService';
-// Import CompanyTabsService directly, we don't need the patch function anymore
-// since we're using the service directly
+import { runRiskRulesForSubmission } from '../services/riskRuleEvaluator';
+import { TaskDependencyService } from '../services/task-dependency-service';
 
 // Add namespace context to logs
 const logContext = { service: 'KYBRoutes' };
@@ -266,81 +265,8 @@ function convertResponsesToCSV(fields: any[], formData: any) {
   return csvContent;
 }
 
-// Utility function to unlock security tasks after KYB is completed
-const unlockSecurityTasks = async (companyId: number, kybTaskId: number, userId?: number) => {
-  try {
-    logger.info('Looking for dependent security assessment tasks to unlock', {
-      kybTaskId,
-      companyId
-    });
-    
-    // Find both security_assessment and sp_ky3p_assessment tasks for this company
-    const securityTasks = await db.select()
-      .from(tasks)
-      .where(
-        and(
-          eq(tasks.company_id, companyId),
-          or(
-            eq(tasks.task_type, 'security_assessment'),
-            eq(tasks.task_type, 'sp_ky3p_assessment')
-          )
-        )
-      );
-      
-    logger.info('Found potential security tasks to unlock', {
-      count: securityTasks.length,
-      taskIds: securityTasks.map(t => t.id),
-      taskTypes: securityTasks.map(t => t.task_type)
-    });
-    
-    // Unlock each security task that was dependent on this KYB task
-    for (const securityTask of securityTasks) {
-      // Check if the task is locked and if the KYB task is a prerequisite
-      if (securityTask.metadata?.locked === true || 
-          securityTask.metadata?.prerequisite_task_id === kybTaskId ||
-          securityTask.metadata?.prerequisite_task_type === 'company_kyb') {
-        
-        logger.info('Unlocking security task', {
-          securityTaskId: securityTask.id,
-          previousMetadata: {
-            locked: securityTask.metadata?.locked,
-            prerequisiteTaskId: securityTask.metadata?.prerequisite_task_id
-          }
-        });
-        
-        // Update the security task to unlock it
-        await db.update(tasks)
-          .set({
-            metadata: {
-              ...securityTask.metadata,
-              locked: false, // Explicitly unlock the task
-              prerequisite_completed: true,
-              prerequisite_completed_at: new Date().toISOString(),
-              prerequisite_completed_by: userId
-            },
-            updated_at: new Date()
-          })
-          .where(eq(tasks.id, securityTask.id));
-          
-        logger.info('Security task unlocked successfully', {
-          securityTaskId: securityTask.id
-        });
-      }
-    }
-    
-    return { success: true, count: securityTasks.length };
-  } catch (error) {
-    logger.error('Error unlocking security tasks', {
-      error: error instanceof Error ? error.message : 'Unknown error',
-      stack: error instanceof Error ? error.stack : undefined,
-      kybTaskId,
-      companyId
-    });
-    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
-  }
-};
-
 // Dynamic task unlocking check - used when accessing the Task Center
+// Applies the company's onboarding sequence, the same evaluator used after form submissions
 export const checkAndUnlockSecurityTasks = async (companyId: number, userId?: number) => {
   try {
     logger.info('Performing dynamic task unlocking check for company', {
@@ -348,105 +274,13 @@ export const checkAndUnlockSecurityTasks = async (companyId: number, userId?: nu
       userId
     });
     
-    // First, check if there's a completed KYB task for this company
-    const kybTasks = await db.select()
-      .from(tasks)
-      .where(
-        and(
-          eq(tasks.company_id, companyId),
-          eq(tasks.task_type, 'company_kyb'),
-          or(
-            eq(tasks.status, 'submitted'),
-            eq(tasks.status, 'completed')
-          )
-        )
-      );
-    
-    if (kybTasks.length === 0) {
-      logger.info('No completed KYB tasks found, skipping security task unlock check', {
-        companyId
-      });
-      return { success: true, unlocked: false, message: 'No completed KYB tasks found' };
-    }
-    
-    logger.info('Found completed KYB tasks, checking security tasks to unlock', {
-      companyId,
-      kybTaskCount: kybTasks.length
-    });
-    
-    // Get the first completed KYB task (should usually be only one)
-    const kybTask = kybTasks[0];
-    
-    // Find security tasks for this company that might need unlocking
-    const securityTasks = await db.select()
-      .from(tasks)
-      .where(
-        and(
-          eq(tasks.company_id, companyId),
-          or(
-            eq(tasks.task_type, 'security_assessment'),
-            eq(tasks.task_type, 'sp_ky3p_assessment')
-          )
-        )
-      );
-    
-    // Exit early if no security tasks found
-    if (securityTasks.length === 0) {
-      logger.info('No security tasks found for company', { companyId });
-      return { success: true, unlocked: false, message: 'No security tasks found' };
-    }
-    
-    // Count how many tasks need unlocking
-    const lockedTasks = securityTasks.filter(task => 
-      task.metadata?.locked === true || 
-      task.metadata?.prerequisite_completed !== true
-    );
-    
-    if (lockedTasks.length === 0) {
-      logger.info('All security tasks are already unlocked', { companyId });
-      return { success: true, unlocked: false, message: 'All security tasks already unlocked' };
-    }
-    
-    logger.info('Found locked security tasks that need unlocking', {
-      companyId,
-      lockedCount: lockedTasks.length,
-      taskIds: lockedTasks.map(t => t.id),
-      taskTypes: lockedTasks.map(t => t.task_type)
-    });
-    
-    // Unlock each security task
-    for (const securityTask of lockedTasks) {
-      logger.info('Dynamically unlocking security task during task center access', {
-        securityTaskId: securityTask.id,
-        securityTaskType: securityTask.task_type,
-        kybTaskId: kybTask.id
-      });
-      
-      // Update the security task to unlock it
-      await db.update(tasks)
-        .set({
-          metadata: {
-            ...securityTask.metadata,
-            locked: false,
-            prerequisite_completed: true,
-            prerequisite_completed_at: new Date().toISOString(),
-            prerequisite_completed_by: userId,
-            unlocked_by: 'dynamic_check' // Mark that this was unlocked by the dynamic check
-          },
-          updated_at: new Date()
-        })
-        .where(eq(tasks.id, securityTask.id));
-        
-      logger.info('Security task unlocked successfully', {
-        securityTaskId: securityTask.id
-      });
-    }
+    const { unlockedTaskIds } = await TaskDependencyService.evaluate(companyId);
     
     return { 
       success: true, 
-      unlocked: true, 
-      count: lockedTasks.length, 
-      message: `Unlocked ${lockedTasks.length} security tasks`
+      unlocked: unlockedTaskIds.length > 0, 
+      count: unlockedTaskIds.length, 
+      message: `Unlocked ${unlockedTaskIds.length} tasks`
     };
   } catch (error) {
     logger.error('Error in dynamic security task unlock check', {
@@ -457,6 +291,7 @@ export const checkAndUnlockSecurityTasks = async (companyId: number, userId?: nu
     return { 
       success: false, 
       unlocked: false, 
+      count: 0,
       error: error instanceof Error ? error.message : 'Unknown error' 
     };
   }
@@ -2224,86 +2059,6 @@ router.post('/api/kyb/submit/:taskId', async (req, res) => {
       timestamp: new Date().toISOString()
     });
     
-    // STEP 0: IMMEDIATELY get the task and company info and unlock the file vault
-    // This ensures the tab is visible at the earliest possible moment
-    try {
-      const taskId = parseInt(req.params.taskId);
-      
-      if (isNaN(taskId)) {
-        throw new Error('Invalid task ID');
-      }
-      
-      // Get the task to retrieve the company ID
-      const [task] = await db.select()
-        .from(tasks)
-        .where(eq(tasks.id, taskId));
-      
-      if (!task) {
-        throw new Error(`Task ${taskId} not found`);
-      }
-      
-      const companyId = task.company_id;
-      
-      if (!companyId) {
-        throw new Error(`No company ID found for task ${taskId}`);
-      }
-      
-      console.log(`[KYB API] 🔑 FAST PATH: Immediately unlocking File Vault for company ${companyId}`);
-      
-      // 1. DIRECT DATABASE UPDATE FIRST for maximum speed
-      const [company] = await db.select()
-        .from(companies)
-        .where(eq(companies.id, companyId));
-      
-      if (company) {
-        // Get current tabs
-        const currentTabs = Array.isArray(company.available_tabs) ? company.available_tabs : ['task-center'];
-        
-        // Only add file-vault if not already present
-        if (!currentTabs.includes('file-vault')) {
-          const updatedTabs = [...currentTabs, 'file-vault'];
-          
-          // Direct database update
-          await db.update(companies)
-            .set({
-              available_tabs: updatedTabs,
-              updated_at: new Date()
-            })
-            .where(eq(companies.id, companyId));
-          
-          console.log(`[KYB API] ✅ FAST PATH: File vault tab unlocked via direct database update`);
-          
-          // INSTANT BROADCAST: Immediately broadcast the tab update
-          try {
-            const { broadcastMessage, broadcastCompanyTabsUpdate } = require('../services/websocket');
-            
-            // First use direct tab update
-            broadcastCompanyTabsUpdate(companyId, updatedTabs);
-            
-            // Then use the more comprehensive message with cache invalidation
-            broadcastMessage('company_tabs_updated', {
-              companyId,
-              availableTabs: updatedTabs,
-              cache_invalidation: true,
-              timestamp: new Date().toISOString(),
-              source: 'kyb_submit_fast_path'
-            });
-            
-            console.log(`[KYB API] 📣 FAST PATH: Sent immediate WebSocket updates`);
-          } catch (wsError) {
-            console.error(`[KYB API] Failed to send WebSocket messages in fast path:`, wsError);
-          }
-        } else {
-          console.log(`[KYB API] FAST PATH: File vault tab already unlocked for company ${companyId}`);
-        }
-      } else {
-        console.error(`[KYB API] FAST PATH: Company ${companyId} not found`);
-      }
-    } catch (fastPathError) {
-      console.error(`[KYB API] Error in fast path file vault unlocking:`, fastPathError);
-      // Continue with normal processing - this is just an optimization
-    }
-    
     // Check if user is authenticated
     if (!req.isAuthenticated() || !req.user) {
       console.error('[KYB API Debug] Unauthorized access attempt', {
@@ -2485,8 +2240,11 @@ router.post('/api/kyb/submit/:taskId', async (req, res) => {
       warningCount: warnings.length
     });
 
-    // After KYB is completed, unlock any security assessment tasks
-    const unlockResult = await unlockSecurityTasks(task.company_id, taskId, req.user?.id);
+    // After KYB is completed, apply the onboarding sequence to unlock dependent tasks and tabs
+    const unlockResult = await checkAndUnlockSecurityTasks(task.company_id, req.user?.id);
+    
+    // Run bank-defined risk score rules against the submitted answers
+    await runRiskRulesForSubmission(task.company_id, taskId);
     
     logger.info('[KYB Submission] 🔓 Security task unlock operation completed', {
       result: unlockResult,
@@ -2497,9 +2255,6 @@ router.post('/api/kyb/submit/:taskId', async (req, res) => {
       timestamp: new Date().toISOString(),
       userId: req.user?.id
     });
-    
-        // The file vault unlocking code has been moved to the top of the function
-    // for immediate unlocking as soon as the submission request is received
 
     // Broadcast submission status via WebSocket with enhanced logging
     logger.info(`[KYB Submission] 📰 Broadcasting submission status for task ${taskId}: submitted`, {
@@ -3285,8 +3040,7 @@ router.post('/api/kyb/enhanced-submit/:taskId', requireAuth, async (req, res) =>
       }
     }
     
-    // Try to unlock security tasks after KYB submission
-    // Use checkAndUnlockSecurityTasks from the current file
+    // Apply the onboarding sequence after KYB submission
     const unlockResult = await checkAndUnlockSecurityTasks(task.company_id, userId);
     
     return res.json({
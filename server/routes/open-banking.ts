@@ -31,8 +31,8 @@ import { generateOpenBankingRiskScore, completeCompanyOnboarding } from '../serv
 import path from 'path';
 import fs from 'fs';
 import { openai } from '../utils/openaiUtils';
-import { unlockDashboardAndInsightsTabs, broadcastCompanyTabsUpdate } from '../services/company-tabs';
-import { unlockFileVaultAccess } from '../services/synchronous-task-dependencies';
+import { synchronizeTasks } from '../services/synchronous-task-dependencies';
+import { TaskDependencyService, type DependencyEvaluation } from '../services/task-dependency-service';
 
 // Logger is already imported from utils/logger
 
@@ -120,88 +120,6 @@ Respond with a JSON object containing:
   }
 }
 
-// Helper function to unlock dependent tasks
-async function unlockDependentTasks(taskId: number) {
-  try {
-    logger.info('[OpenBankingRoutes] Checking for dependent tasks to unlock', { taskId });
-    
-    // First, get the task to determine the company
-    const taskData = await db.select().from(tasks)
-      .where(eq(tasks.id, taskId))
-      .limit(1);
-    
-    if (taskData.length === 0) {
-      logger.warn('[OpenBankingRoutes] Task not found when unlocking dependents', { taskId });
-      return 0;
-    }
-    
-    const companyId = taskData[0].company_id;
-    
-    if (!companyId) {
-      logger.warn('[OpenBankingRoutes] Task has no company ID', { taskId });
-      return 0;
-    }
-    
-    // Find all locked tasks for this company that depend on this task
-    const dependentTasks = await db.select().from(tasks)
-      .where(and(
-        eq(tasks.company_id, companyId),
-        eq(tasks.status, TaskStatus.LOCKED),
-        eq(tasks.dependency_task_id, taskId)
-      ));
-    
-    logger.info('[OpenBankingRoutes] Found dependent tasks to unlock', { 
-      taskId,
-      dependentCount: dependentTasks.length,
-      dependentIds: dependentTasks.map(t => t.id)
-    });
-    
-    // Unlock each dependent task
-    for (const depTask of dependentTasks) {
-      await db.update(tasks)
-        .set({
-          status: TaskStatus.NOT_STARTED,
-          updated_at: new Date()
-        })
-        .where(eq(tasks.id, depTask.id));
-      
-      logger.info('[OpenBankingRoutes] Unlocked dependent task', { taskId: depTask.id });
-      
-      // Import and use the standardized broadcastProgressUpdate function
-      const { broadcastProgressUpdate } = await import('../utils/progress');
-      
-      // Create standardized metadata for broadcast
-      const broadcastMetadata = {
-        lastUpdated: new Date().toISOString(),
-        taskUnlockOperation: 'DEPENDENCY_UNLOCK',
-        companyId,
-        formType: 'open_banking',
-        broadcastSource: 'open-banking-dependency-unlock',
-        parentTaskId: taskId
-      };
-      
-      logger.info('[OpenBankingRoutes] Broadcasting dependent task unlock via standardized broadcastProgressUpdate', {
-        taskId: depTask.id,
-        status: TaskStatus.NOT_STARTED,
-        timestamp: new Date().toISOString()
-      });
-      
-      // Use standardized broadcast function
-      broadcastProgressUpdate(
-        depTask.id,
-        0, // 0% progress for newly unlocked task
-        TaskStatus.NOT_STARTED,
-        broadcastMetadata
-      );
-    }
-    
-    return dependentTasks.length;
-  } catch (error) {
-    logger.error('[OpenBankingRoutes] Error unlocking dependent tasks', { error, taskId });
-    return 0;
-  }
-}
-
 export function registerOpenBankingRoutes(app: Express, wss: WebSocketServer | null) {
   logger.info('[OpenBankingRoutes] Setting up routes...');
   
@@ -226,8 +144,11 @@ export function registerOpenBankingRoutes(app: Express, wss: WebSocketServer | n
         timestamp: new Date().toISOString()
       });
       
+      // Tasks and tabs unlocked in the transaction, broadcast once it commits
+      let dependencyUnlock = null as { companyId: number; evaluation: DependencyEvaluation } | null;
+      
       // Start transaction to ensure atomic operations
-      return await db.transaction(async (tx) => {
+      const response = await db.transaction(async (tx) => {
         // Check if task exists and is an Open Banking task
         const taskData = await tx.select().from(tasks)
           .where(and(
@@ -315,7 +236,7 @@ export function registerOpenBankingRoutes(app: Express, wss: WebSocketServer | n
         // Generate and save risk score with similar approach to KYB
         let riskScore = null;
         try {
-          riskScore = await generateOpenBankingRiskScore(taskId, companyId);
+          riskScore = await generateOpenBankingRiskScore(companyId, taskId);
           logger.info('[OpenBankingRoutes] Generated risk score', { taskId, companyId, riskScore });
         } catch (riskError) {
           logger.error('[OpenBankingRoutes] Error generating risk score', {
@@ -385,27 +306,20 @@ export function registerOpenBankingRoutes(app: Express, wss: WebSocketServer | n
           throw new Error('File record not found after creation');
         }
         
-        // Unlock dependent tasks (similar to KYB implementation)
+        // Apply the company's onboarding sequence, which unlocks the tasks and tabs that follow Open Banking
         let unlockedTaskCount = 0;
-        try {
-          // Unlock file vault access
-          await unlockFileVaultAccess(companyId);
-          
-          // Unlock dashboard and insights tabs
-          const success = await unlockDashboardAndInsightsTabs(companyId);
-          
-          if (success) {
-            logger.info('[OpenBankingRoutes] Successfully unlocked dashboard and insights tabs', {
+        if (companyId) {
+          try {
+            const evaluation = await tx.transaction(savepoint => TaskDependencyService.evaluate(companyId, savepoint));
+            dependencyUnlock = { companyId, evaluation };
+            unlockedTaskCount = evaluation.unlockedTaskIds.length;
+          } catch (unlockError) {
+            logger.error('[OpenBankingRoutes] Error applying onboarding sequence', {
+              error: unlockError instanceof Error ? unlockError.message : 'Unknown error',
               companyId
             });
-            unlockedTaskCount = 2; // File vault + Dashboard/Insights
+            // Continue with submission even if unlocking fails
           }
-        } catch (unlockError) {
-          logger.error('[OpenBankingRoutes] Error unlocking tabs', {
-            error: unlockError instanceof Error ? unlockError.message : 'Unknown error',
-            companyId
-          });
-          // Continue with submission even if tab unlocking fails
         }
         
         // Broadcast task update via WebSocket using standardized helper function
@@ -453,6 +367,12 @@ export function registerOpenBankingRoutes(app: Express, wss: WebSocketServer | n
           onboardingCompleted
         });
       });
+      
+      if (dependencyUnlock) {
+        await TaskDependencyService.broadcastEvaluation(dependencyUnlock.companyId, dependencyUnlock.evaluation);
+      }
+      
+      return response;
     } catch (error) {
       logger.error('[OpenBankingRoutes] Error processing form submission:', error);
       return res.status(500).json({ 
@@ -1657,8 +1577,9 @@ export function registerOpenBankingRoutes(app: Express, wss: WebSocketServer | n
         // Continue with submission even if broadcast fails
       }
       
-      // Unlock dependent tasks if any
-      const unlockedTaskCount = await unlockDependentTasks(taskId);
+      // Apply the company's onboarding sequence, which unlocks the tasks and tabs that follow Open Banking
+      const unlockedTaskIds = await synchronizeTasks(companyId, taskId);
+      const unlockedTaskCount = unlockedTaskIds.length;
       
       logger.info('[OpenBankingRoutes] Form submitted successfully', { 
         taskId, 
@@ -1666,7 +1587,7 @@ export function registerOpenBankingRoutes(app: Express, wss: WebSocketServer | n
         unlockedTaskCount
       });
       
-      // 1. Generate risk score for the company (random 1-100 on percentage-based scale)
+      // 1. Generate rule-based risk score for the company (0-100 percentage scale)
       let riskScore = null;
       try {
         riskScore = await generateOpenBankingRiskScore(companyId, taskId);
@@ -1711,29 +1632,6 @@ export function registerOpenBankingRoutes(app: Express, wss: WebSocketServer | n
         // Continue with submission even if onboarding completion fails
       }
       
-      // 3. Update company tabs to unlock dashboard and insights
-      try {
-        // Use the dedicated CompanyTabsService method for unlocking dashboard and insights
-        // This maintains consistency with how other form types handle tab unlocking
-        const success = await unlockDashboardAndInsightsTabs(companyId);
-        
-        if (success) {
-          logger.info('[OpenBankingRoutes] Successfully unlocked dashboard and insights tabs', {
-            companyId
-          });
-        } else {
-          logger.warn('[OpenBankingRoutes] Failed to unlock dashboard and insights tabs', {
-            companyId
-          });
-        }
-      } catch (tabsError) {
-        logger.error('[OpenBankingRoutes] Error updating company tabs', {
-          error: tabsError instanceof Error ? tabsError.message : 'Unknown error',
-          companyId
-        });
-        // Continue with submission even if tabs update fails
-      }
-      
       // Return submission result with rich information
       res.json({
         success: true,
@@ -0,0 +1,113 @@
+/**
+ * Risk Alert API Routes
+ *
+ * This module exposes the risk threshold alerts raised for the current
+ * user's bank and lets analysts acknowledge or snooze them.
+ *
+ * Key endpoints:
+ * - GET  /api/risk-alerts?includeResolved=true  - The bank's alerts, newest first
+ * - POST /api/risk-alerts/:id/acknowledge       - Acknowledge an alert
+ * - POST /api/risk-alerts/:id/snooze            - Snooze an alert until a given time
+ */
+import { Router } from 'express';
+import { z } from 'zod';
+import { requireAuth } from '../middleware/auth';
+import { RiskAlertService } from '../services/risk-alert-service';
+
+const router = Router();
+
+const snoozeSchema = z.object({
+  until: z.string().datetime({ offset: true })
+});
+
+// GET endpoint to list the bank's alerts
+router.get('/', requireAuth, async (req, res) => {
+  try {
+    const includeResolved = req.query.includeResolved === 'true';
+    const alerts = await RiskAlertService.listAlerts(req.user!.company_id, includeResolved);
+    res.json(alerts);
+  } catch (error) {
+    console.error('[RiskAlerts] Error fetching risk alerts:', error);
+    res.status(500).json({
+      message: "Error fetching risk alerts",
+      code: "FETCH_ERROR"
+    });
+  }
+});
+
+// POST endpoint to acknowledge an alert
+router.post('/:id/acknowledge', requireAuth, async (req, res) => {
+  try {
+    const alertId = parseInt(req.params.id, 10);
+    if (isNaN(alertId)) {
+      return res.status(400).json({
+        message: "Invalid alert ID",
+        code: "INVALID_ALERT_ID"
+      });
+    }
+
+    const alert = await RiskAlertService.acknowledge(alertId, req.user!.company_id, req.user!.id);
+    if (!alert) {
+      return res.status(404).json({
+        message: "Alert not found",
+        code: "ALERT_NOT_FOUND"
+      });
+    }
+
+    res.json(alert);
+  } catch (error) {
+    console.error('[RiskAlerts] Error acknowledging risk alert:', error);
+    res.status(500).json({
+      message: "Error acknowledging risk alert",
+      code: "UPDATE_ERROR"
+    });
+  }
+});
+
+// POST endpoint to snooze an alert
+router.post('/:id/snooze', requireAuth, async (req, res) => {
+  try {
+    const alertId = parseInt(req.params.id, 10);
+    if (isNaN(alertId)) {
+      return res.status(400).json({
+        message: "Invalid alert ID",
+        code: "INVALID_ALERT_ID"
+      });
+    }
+
+    const parsed = snoozeSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "A valid snooze end time is required",
+        code: "VALIDATION_ERROR",
+        details: parsed.error.format()
+      });
+    }
+
+    const until = new Date(parsed.data.until);
+    if (until <= new Date()) {
+      return res.status(400).json({
+        message: "Snooze end time must be in the future",
+        code: "VALIDATION_ERROR"
+      });
+    }
+
+    const alert = await RiskAlertService.snooze(alertId, req.user!.company_id, req.user!.id, until);
+    if (!alert) {
+      return res.status(404).json({
+        message: "Alert not found",
+        code: "ALERT_NOT_FOUND"
+      });
+    }
+
+    res.json(alert);
+  } catch (error) {
+    console.error('[RiskAlerts] Error snoozing risk alert:', error);
+    res.status(500).json({
+      message: "Error snoozing risk alert",
+      code: "UPDATE_ERROR"
+    });
+  }
+});
+
+export default router;
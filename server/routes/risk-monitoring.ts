@@ -0,0 +1,138 @@
+/**
+ * Risk Monitoring API Routes
+ *
+ * This module exposes the blocking and monitoring status of the data
+ * recipients in the current user's network, decided on the server with the
+ * bank's own monitoring settings.
+ *
+ * Key endpoints:
+ * - GET /api/risk-monitoring/status?window=7d            - Status of every network data recipient
+ * - GET /api/risk-monitoring/status?companyId=12         - Status of a single company
+ * - GET /api/risk-monitoring/blocked?window=7d           - Blocked data recipients only
+ * - GET /api/risk-monitoring/settings                    - The bank's monitoring settings
+ * - PUT /api/risk-monitoring/settings                    - Update the bank's monitoring settings
+ */
+import { Router } from 'express';
+import { z } from 'zod';
+import { db } from '@db';
+import { companies } from '@db/schema';
+import { eq } from 'drizzle-orm';
+import { requireAuth } from '../middleware/auth';
+import { RiskMonitoringService } from '../services/risk-monitoring-service';
+import { RiskScoreHistoryService } from '../services/risk-score-history-service';
+
+const router = Router();
+
+const settingsSchema = z.object({
+  blockingThreshold: z.number().int().min(0).max(100),
+  blockingCapPercentage: z.number().min(0).max(1).nullable(),
+  deteriorationThreshold: z.number().int().min(0).max(100),
+  approachingBlockPercentage: z.number().int().min(0).max(100)
+});
+
+// GET endpoint to retrieve the monitoring status of network data recipients
+router.get('/status', requireAuth, async (req, res) => {
+  try {
+    const window = RiskScoreHistoryService.parseWindow(req.query.window ?? '7d');
+
+    if (req.query.companyId !== undefined) {
+      const companyId = parseInt(String(req.query.companyId), 10);
+      if (isNaN(companyId)) {
+        return res.status(400).json({
+          message: "Invalid company ID",
+          code: "INVALID_COMPANY_ID"
+        });
+      }
+
+      const company = await RiskMonitoringService.getCompanyStatus(req.user!.company_id, companyId, window);
+      const settings = await RiskMonitoringService.getSettings(req.user!.company_id);
+      return res.json({ window, settings, company });
+    }
+
+    const status = await RiskMonitoringService.getNetworkStatus(req.user!.company_id, window);
+    res.json(status);
+  } catch (error) {
+    console.error('[RiskMonitoring] Error fetching risk monitoring status:', error);
+    res.status(500).json({
+      message: "Error fetching risk monitoring status",
+      code: "FETCH_ERROR"
+    });
+  }
+});
+
+// GET endpoint to retrieve only the blocked data recipients
+router.get('/blocked', requireAuth, async (req, res) => {
+  try {
+    const window = RiskScoreHistoryService.parseWindow(req.query.window ?? '7d');
+    const status = await RiskMonitoringService.getNetworkStatus(req.user!.company_id, window);
+    const blocked = status.companies.filter(company => company.status === 'Blocked');
+
+    res.json({
+      window,
+      threshold: status.settings.blockingThreshold,
+      count: blocked.length,
+      companies: blocked
+    });
+  } catch (error) {
+    console.error('[RiskMonitoring] Error fetching blocked data recipients:', error);
+    res.status(500).json({
+      message: "Error fetching blocked data recipients",
+      code: "FETCH_ERROR"
+    });
+  }
+});
+
+// GET endpoint to retrieve the bank's monitoring settings
+router.get('/settings', requireAuth, async (req, res) => {
+  try {
+    const settings = await RiskMonitoringService.getSettings(req.user!.company_id);
+    res.json(settings);
+  } catch (error) {
+    console.error('[RiskMonitoring] Error fetching monitoring settings:', error);
+    res.status(500).json({
+      message: "Error fetching risk monitoring settings",
+      code: "FETCH_ERROR"
+    });
+  }
+});
+
+// PUT endpoint to update the bank's monitoring settings
+router.put('/settings', requireAuth, async (req, res) => {
+  try {
+    const [company] = await db.select({ category: companies.category })
+      .from(companies)
+      .where(eq(companies.id, req.user!.company_id));
+
+    if (!company || !['Bank', 'Invela'].includes(company.category)) {
+      return res.status(403).json({
+        message: "Only banks can change risk monitoring settings",
+        code: "FORBIDDEN"
+      });
+    }
+
+    const parsed = settingsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: parsed.error.errors[0]?.message || "Invalid settings",
+        code: "VALIDATION_ERROR",
+        details: parsed.error.format()
+      });
+    }
+
+    const settings = await RiskMonitoringService.updateSettings(
+      req.user!.company_id,
+      parsed.data,
+      req.user!.id
+    );
+
+    res.json(settings);
+  } catch (error) {
+    console.error('[RiskMonitoring] Error updating monitoring settings:', error);
+    res.status(500).json({
+      message: "Error updating risk monitoring settings",
+      code: "UPDATE_ERROR"
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,285 @@
+/**
+ * Risk Score Rules API Routes
+ *
+ * This module lets a bank manage the rules that encode its risk appetite
+ * and inspect how those rules affected a company in its network. Rules are
+ * always scoped to the current user's company.
+ *
+ * Key endpoints:
+ * - GET    /api/risk-rules                        - List the bank's rules
+ * - GET    /api/risk-rules/fields?formType=ky3p   - Fields a rule can test
+ * - POST   /api/risk-rules                        - Create a rule
+ * - PUT    /api/risk-rules/:id                    - Update a rule
+ * - DELETE /api/risk-rules/:id                    - Delete a rule
+ * - GET    /api/risk-rules/evaluations/:companyId - Latest evaluation for a company
+ * - POST   /api/risk-rules/evaluations/:companyId - Re-run the rules for a company now
+ */
+import { Router } from 'express';
+import { z } from 'zod';
+import { db } from '@db';
+import {
+  companies,
+  riskScoreRules,
+  riskRuleEvaluations,
+  kybFields,
+  ky3pFields,
+  openBankingFields,
+  cardFields,
+  type RiskRuleOperator
+} from '@db/schema';
+import { eq, and, asc } from 'drizzle-orm';
+import { requireAuth } from '../middleware/auth';
+import { getNetworkCompanyIds } from '../services/company-service';
+import { RISK_CLUSTER_NAMES } from '../services/riskClusters';
+import {
+  RISK_RULE_FORM_TYPES,
+  RISK_RULE_OPERATORS,
+  evaluateRiskRulesForCompany
+} from '../services/riskRuleEvaluator';
+
+const router = Router();
+
+const riskRuleSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required'),
+  description: z.string().trim().optional().nullable(),
+  form_type: z.enum(RISK_RULE_FORM_TYPES as [string, ...string[]]),
+  field_key: z.string().trim().min(1, 'Field is required'),
+  operator: z.enum(RISK_RULE_OPERATORS as [RiskRuleOperator, ...RiskRuleOperator[]]),
+  value: z.string().trim().optional().nullable(),
+  cluster: z.enum(RISK_CLUSTER_NAMES as [string, ...string[]]),
+  score_adjustment: z.number().int().min(-100).max(100),
+  enabled: z.boolean().optional()
+}).refine(
+  rule => ['answered', 'not_answered'].includes(rule.operator) || !!rule.value,
+  { message: 'A comparison value is required for this operator', path: ['value'] }
+);
+
+/**
+ * Only banks (and Invela) define risk appetite rules
+ */
+async function getRuleOwner(companyId: number) {
+  const [company] = await db.select({ id: companies.id, category: companies.category })
+    .from(companies)
+    .where(eq(companies.id, companyId));
+
+  return company && ['Bank', 'Invela'].includes(company.category) ? company : null;
+}
+
+// GET endpoint to list the current bank's rules
+router.get('/', requireAuth, async (req, res) => {
+  try {
+    const rules = await db.select()
+      .from(riskScoreRules)
+      .where(eq(riskScoreRules.company_id, req.user!.company_id))
+      .orderBy(asc(riskScoreRules.id));
+
+    res.json(rules);
+  } catch (error) {
+    console.error('[RiskRules] Error fetching rules:', error);
+    res.status(500).json({
+      message: "Error fetching risk score rules",
+      code: "FETCH_ERROR"
+    });
+  }
+});
+
+// GET endpoint to list the fields of a form that rules can test
+router.get('/fields', requireAuth, async (req, res) => {
+  try {
+    const formType = String(req.query.formType || '');
+
+    let fields: Array<{ field_key: string; label: string; group: string | null; field_type: string | null }> = [];
+
+    if (formType === 'kyb') {
+      fields = await db.select({
+        field_key: kybFields.field_key,
+        label: kybFields.display_name,
+        group: kybFields.group,
+        field_type: kybFields.field_type
+      }).from(kybFields).orderBy(asc(kybFields.order));
+    } else if (formType === 'ky3p') {
+      fields = await db.select({
+        field_key: ky3pFields.field_key,
+        label: ky3pFields.display_name,
+        group: ky3pFields.group,
+        field_type: ky3pFields.field_type
+      }).from(ky3pFields).orderBy(asc(ky3pFields.order));
+    } else if (formType === 'open_banking') {
+      fields = await db.select({
+        field_key: openBankingFields.field_key,
+        label: openBankingFields.display_name,
+        group: openBankingFields.group,
+        field_type: openBankingFields.field_type
+      }).from(openBankingFields).orderBy(asc(openBankingFields.order));
+    } else if (formType === 'card') {
+      const rows = await db.select({
+        field_key: cardFields.field_key,
+        label: cardFields.question_label,
+        group: cardFields.wizard_section
+      }).from(cardFields).orderBy(asc(cardFields.id));
+      fields = rows.map(row => ({ ...row, field_type: null }));
+    } else {
+      return res.status(400).json({
+        message: `Unsupported form type: ${formType}`,
+        code: "INVALID_FORM_TYPE"
+      });
+    }
+
+    res.json(fields);
+  } catch (error) {
+    console.error('[RiskRules] Error fetching rule fields:', error);
+    res.status(500).json({
+      message: "Error fetching form fields",
+      code: "FETCH_ERROR"
+    });
+  }
+});
+
+// POST endpoint to create a rule for the current bank
+router.post('/', requireAuth, async (req, res) => {
+  try {
+    const owner = await getRuleOwner(req.user!.company_id);
+    if (!owner) {
+      return res.status(403).json({
+        message: "Only banks can define risk score rules",
+        code: "FORBIDDEN"
+      });
+    }
+
+    const parsed = riskRuleSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: parsed.error.errors[0]?.message || "Invalid rule",
+        code: "VALIDATION_ERROR",
+        details: parsed.error.format()
+      });
+    }
+
+    const [rule] = await db.insert(riskScoreRules)
+      .values({
+        ...parsed.data,
+        company_id: owner.id,
+        created_by: req.user!.id
+      })
+      .returning();
+
+    console.log('[RiskRules] Created rule', { ruleId: rule.id, companyId: owner.id });
+    res.status(201).json(rule);
+  } catch (error) {
+    console.error('[RiskRules] Error creating rule:', error);
+    res.status(500).json({
+      message: "Error creating risk score rule",
+      code: "CREATE_ERROR"
+    });
+  }
+});
+
+// PUT endpoint to update one of the current bank's rules
+router.put('/:id', requireAuth, async (req, res) => {
+  try {
+    const ruleId = parseInt(req.params.id);
+    const parsed = riskRuleSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: parsed.error.errors[0]?.message || "Invalid rule",
+        code: "VALIDATION_ERROR",
+        details: parsed.error.format()
+      });
+    }
+
+    const [rule] = await db.update(riskScoreRules)
+      .set({
+        ...parsed.data,
+        updated_at: new Date()
+      })
+      .where(and(eq(riskScoreRules.id, ruleId), eq(riskScoreRules.company_id, req.user!.company_id)))
+      .returning();
+
+    if (!rule) {
+      return res.status(404).json({
+        message: "Risk score rule not found",
+        code: "NOT_FOUND"
+      });
+    }
+
+    res.json(rule);
+  } catch (error) {
+    console.error('[RiskRules] Error updating rule:', error);
+    res.status(500).json({
+      message: "Error updating risk score rule",
+      code: "UPDATE_ERROR"
+    });
+  }
+});
+
+// DELETE endpoint to remove one of the current bank's rules
+router.delete('/:id', requireAuth, async (req, res) => {
+  try {
+    const ruleId = parseInt(req.params.id);
+    const [rule] = await db.delete(riskScoreRules)
+      .where(and(eq(riskScoreRules.id, ruleId), eq(riskScoreRules.company_id, req.user!.company_id)))
+      .returning();
+
+    if (!rule) {
+      return res.status(404).json({
+        message: "Risk score rule not found",
+        code: "NOT_FOUND"
+      });
+    }
+
+    res.json({ success: true, id: rule.id });
+  } catch (error) {
+    console.error('[RiskRules] Error deleting rule:', error);
+    res.status(500).json({
+      message: "Error deleting risk score rule",
+      code: "DELETE_ERROR"
+    });
+  }
+});
+
+// GET endpoint to retrieve the latest evaluation of the bank's rules for a company
+router.get('/evaluations/:companyId', requireAuth, async (req, res) => {
+  try {
+    const companyId = parseInt(req.params.companyId);
+    const [evaluation] = await db.select()
+      .from(riskRuleEvaluations)
+      .where(and(
+        eq(riskRuleEvaluations.bank_company_id, req.user!.company_id),
+        eq(riskRuleEvaluations.company_id, companyId)
+      ));
+
+    res.json(evaluation ?? null);
+  } catch (error) {
+    console.error('[RiskRules] Error fetching evaluation:', error);
+    res.status(500).json({
+      message: "Error fetching risk rule evaluation",
+      code: "FETCH_ERROR"
+    });
+  }
+});
+
+// POST endpoint to re-run the bank's rules for a network company immediately
+router.post('/evaluations/:companyId', requireAuth, async (req, res) => {
+  try {
+    const companyId = parseInt(req.params.companyId);
+    const networkIds = await getNetworkCompanyIds(req.user!.company_id);
+
+    if (!networkIds.includes(companyId)) {
+      return res.status(404).json({
+        message: "Company is not in your network",
+        code: "NOT_FOUND"
+      });
+    }
+
+    const evaluation = await evaluateRiskRulesForCompany(req.user!.company_id, companyId);
+    res.json(evaluation);
+  } catch (error) {
+    console.error('[RiskRules] Error evaluating rules:', error);
+    res.status(500).json({
+      message: "Error evaluating risk score rules",
+      code: "EVALUATION_ERROR"
+    });
+  }
+});
+
+export default router;
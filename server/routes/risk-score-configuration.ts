@@ -3,17 +3,34 @@
  * 
  * This file contains the endpoints for managing risk score configurations
  * including saving and retrieving dimension rankings and thresholds.
- * Also includes endpoints for comparative analysis features.
+ * Also includes endpoints for comparative analysis features, peer
+ * benchmarking against cohorts of comparable companies, and for
+ * simulating draft priorities before they are saved.
+ * 
+ * Every save creates an immutable version (see RiskConfigurationVersionService),
+ * which can be listed, diffed and rolled back through the /versions endpoints.
  */
 
 import { Router, Request, Response } from 'express';
 import { db } from '../../db';
 import { companies } from '../../db/schema';
-import { eq, not, like, asc, ilike } from 'drizzle-orm';
+import { eq, not, like, asc, ilike, and } from 'drizzle-orm';
 import { requireAuth, optionalAuth } from '../middleware/auth';
+import { getSavedPriorityContext, simulateRiskPriorities } from '../services/riskPrioritySimulation';
+import { RiskConfigurationVersionService } from '../services/risk-configuration-version-service';
+import {
+  getCohortBenchmark,
+  getCohortOptions,
+  getCompanyCohort,
+  EMPLOYEE_BANDS,
+  type CohortFilter
+} from '../services/riskBenchmarking';
 
 const router = Router();
 
+// Most companies a single simulation request rescores; larger networks are simulated page by page
+const MAX_SIMULATION_COMPANIES = 100;
+
 // Define interface for risk dimension
 interface RiskDimension {
   id: string;
@@ -45,6 +62,19 @@ interface RiskPriorities {
   lastUpdated: string;
 }
 
+/**
+ * Parse an optional effectiveFrom value from a request body
+ * Returns undefined when absent and null when the value is not a valid date
+ */
+function parseEffectiveFrom(value: unknown): Date | null | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+
+  const date = new Date(String(value));
+  return isNaN(date.getTime()) ? null : date;
+}
+
 // Non-authenticated test endpoint - for testing only
 router.get('/test', async (req: Request, res: Response) => {
   try {
@@ -194,6 +224,9 @@ router.get('/configuration', optionalAuth, async (req: Request, res: Response) =
     const companyId = req.user?.company_id || 1;
     console.log(`[RiskConfiguration] Using company ID: ${companyId} (${req.user ? 'authenticated' : 'unauthenticated'})`);
     
+    // Activate any saved version whose effective date has passed
+    await RiskConfigurationVersionService.syncEffectiveVersion(companyId);
+    
     const company = await db.query.companies.findFirst({
       where: eq(companies.id, companyId),
       columns: {
@@ -219,7 +252,9 @@ router.post('/configuration', optionalAuth, async (req: Request, res: Response)
     // Allow anonymous access with fallback to company ID 1
     const companyId = req.user?.company_id || 1;
     console.log(`[RiskConfiguration] Using company ID: ${companyId} (${req.user ? 'authenticated' : 'unauthenticated'})`);
-    const configuration: RiskScoreConfiguration = req.body;
+    const { effectiveFrom: rawEffectiveFrom, ...configurationData } = req.body;
+    const configuration: RiskScoreConfiguration = configurationData;
+    const effectiveFrom = parseEffectiveFrom(rawEffectiveFrom);
 
     // Validate the configuration
     if (!configuration.dimensions || !Array.isArray(configuration.dimensions)) {
@@ -230,13 +265,23 @@ router.post('/configuration', optionalAuth, async (req: Request, res: Response)
       return res.status(400).json({ error: 'Invalid thresholds data' });
     }
 
-    // Update the company record with the new configuration
-    await db.update(companies)
-      .set({
-        risk_configuration: configuration as any,
-        updated_at: new Date()
-      })
-      .where(eq(companies.id, companyId));
+    if (effectiveFrom === null) {
+      return res.status(400).json({ error: 'Invalid effectiveFrom date' });
+    }
+
+    // Save the configuration as a new version; it is applied to the
+    // company record immediately unless it takes effect in the future
+    const version = await RiskConfigurationVersionService.createVersion({
+      companyId,
+      riskConfiguration: configuration,
+      changeType: 'configuration',
+      createdBy: req.user?.id ?? null,
+      effectiveFrom
+    });
+
+    if (version.effective_from > new Date()) {
+      return res.status(200).json(version.risk_configuration);
+    }
 
     // Get the updated company record
     const updatedCompany = await db.query.companies.findFirst({
@@ -263,6 +308,8 @@ router.get('/priorities', optionalAuth, async (req: Request, res: Response) => {
     const companyId = req.user?.company_id || 1; // Default to company 1 if no user in session
     console.log(`[RiskPriorities] Using company ID: ${companyId} (${req.user ? 'authenticated' : 'unauthenticated'})`);
 
+    // Activate any saved version whose effective date has passed
+    await RiskConfigurationVersionService.syncEffectiveVersion(companyId);
     
     const company = await db.query.companies.findFirst({
       where: eq(companies.id, companyId),
@@ -312,8 +359,9 @@ router.post('/priorities', optionalAuth, async (req: Request, res: Response) =>
 
     console.log(`[RiskPriorities] Processing request for company ID: ${companyId}`);
     
-    const { updateCompanyScore, ...prioritiesData } = req.body;
+    const { updateCompanyScore, effectiveFrom: rawEffectiveFrom, ...prioritiesData } = req.body;
     const priorities: RiskPriorities = prioritiesData;
+    const effectiveFrom = parseEffectiveFrom(rawEffectiveFrom);
     
     console.log('[RiskPriorities] Request body:', JSON.stringify(priorities));
     console.log('[RiskPriorities] Update company score flag:', updateCompanyScore);
@@ -324,6 +372,10 @@ router.post('/priorities', optionalAuth, async (req: Request, res: Response) =>
       return res.status(400).json({ error: 'Invalid dimensions data' });
     }
 
+    if (effectiveFrom === null) {
+      return res.status(400).json({ error: 'Invalid effectiveFrom date' });
+    }
+
     // Add timestamp if not provided
     if (!priorities.lastUpdated) {
       priorities.lastUpdated = new Date().toISOString();
@@ -350,25 +402,34 @@ router.post('/priorities', optionalAuth, async (req: Request, res: Response) =>
     // Force stringification and reparsing to avoid any hidden issues with the object
     const sanitizedPriorities = JSON.parse(JSON.stringify(priorities));
     
-    // Prepare update data
-    const updateData: any = {
-      risk_priorities: sanitizedPriorities as any,
-      updated_at: new Date()
-    };
+    // Save the priorities as a new version; it is applied to the
+    // company record immediately unless it takes effect in the future
+    const version = await RiskConfigurationVersionService.createVersion({
+      companyId,
+      riskPriorities: sanitizedPriorities,
+      changeType: 'priorities',
+      createdBy: req.user?.id ?? null,
+      effectiveFrom
+    });
+    
+    if (version.effective_from > new Date()) {
+      console.log(`[RiskPriorities] Version ${version.version_number} scheduled for ${version.effective_from.toISOString()}`);
+      return res.status(200).json(version.risk_priorities);
+    }
     
     // Also update chosen_score if updateCompanyScore flag is true
     if (updateCompanyScore && priorities.riskAcceptanceLevel !== undefined) {
       const numericRiskLevel = Number(priorities.riskAcceptanceLevel);
       if (!isNaN(numericRiskLevel)) {
         console.log(`[RiskPriorities] Also updating company chosen_score to ${numericRiskLevel}`);
-        updateData.chosen_score = numericRiskLevel;
+        await db.update(companies)
+          .set({
+            chosen_score: numericRiskLevel,
+            updated_at: new Date()
+          })
+          .where(eq(companies.id, companyId));
       }
     }
-    
-    // Update the company record with the new priorities and chosen_score if needed
-    await db.update(companies)
-      .set(updateData)
-      .where(eq(companies.id, companyId));
 
     // Get the updated company record
     const updatedCompany = await db.query.companies.findFirst({
@@ -404,6 +465,175 @@ router.post('/priorities', optionalAuth, async (req: Request, res: Response) =>
   }
 });
 
+// GET endpoint to list all configuration versions, newest first
+router.get('/versions', optionalAuth, async (req: Request, res: Response) => {
+  try {
+    const companyId = req.user?.company_id || 1;
+    const versions = await RiskConfigurationVersionService.listVersions(companyId);
+    const effective = await RiskConfigurationVersionService.getEffectiveVersion(companyId);
+
+    return res.status(200).json({
+      effectiveVersion: effective?.version_number ?? null,
+      versions
+    });
+  } catch (error) {
+    console.error('Error listing risk configuration versions:', error);
+    return res.status(500).json({ error: 'Failed to list risk configuration versions' });
+  }
+});
+
+// GET endpoint to diff two versions, e.g. /versions/diff?from=2&to=5
+router.get('/versions/diff', optionalAuth, async (req: Request, res: Response) => {
+  try {
+    const companyId = req.user?.company_id || 1;
+    const fromVersion = parseInt(String(req.query.from), 10);
+    const toVersion = parseInt(String(req.query.to), 10);
+
+    if (isNaN(fromVersion) || isNaN(toVersion)) {
+      return res.status(400).json({ error: 'Both from and to version numbers are required' });
+    }
+
+    const diff = await RiskConfigurationVersionService.diffVersions(companyId, fromVersion, toVersion);
+    if (!diff) {
+      return res.status(404).json({ error: 'Version not found' });
+    }
+
+    return res.status(200).json(diff);
+  } catch (error) {
+    console.error('Error diffing risk configuration versions:', error);
+    return res.status(500).json({ error: 'Failed to diff risk configuration versions' });
+  }
+});
+
+// GET endpoint to retrieve a single version
+router.get('/versions/:version', optionalAuth, async (req: Request, res: Response) => {
+  try {
+    const companyId = req.user?.company_id || 1;
+    const versionNumber = parseInt(req.params.version, 10);
+
+    const version = isNaN(versionNumber)
+      ? null
+      : await RiskConfigurationVersionService.getVersion(companyId, versionNumber);
+
+    if (!version) {
+      return res.status(404).json({ error: 'Version not found' });
+    }
+
+    return res.status(200).json(version);
+  } catch (error) {
+    console.error('Error retrieving risk configuration version:', error);
+    return res.status(500).json({ error: 'Failed to retrieve risk configuration version' });
+  }
+});
+
+// POST endpoint to roll back to an earlier version (published as a new version)
+router.post('/versions/:version/rollback', optionalAuth, async (req: Request, res: Response) => {
+  try {
+    const companyId = req.user?.company_id || 1;
+    const versionNumber = parseInt(req.params.version, 10);
+    const effectiveFrom = parseEffectiveFrom(req.body?.effectiveFrom);
+
+    if (isNaN(versionNumber)) {
+      return res.status(400).json({ error: 'Invalid version number' });
+    }
+
+    if (effectiveFrom === null) {
+      return res.status(400).json({ error: 'Invalid effectiveFrom date' });
+    }
+
+    const version = await RiskConfigurationVersionService.rollback(
+      companyId,
+      versionNumber,
+      req.user?.id ?? null,
+      effectiveFrom
+    );
+
+    if (!version) {
+      return res.status(404).json({ error: 'Version not found' });
+    }
+
+    console.log(`[RiskConfiguration] Company ${companyId} rolled back to version ${versionNumber} as version ${version.version_number}`);
+
+    // Let open views pick up the restored priorities right away
+    if (version.effective_from <= new Date() && version.risk_priorities) {
+      const { broadcastRiskPrioritiesUpdate } = await import('../routes/websocket');
+      broadcastRiskPrioritiesUpdate(version.risk_priorities);
+    }
+
+    return res.status(200).json(version);
+  } catch (error) {
+    console.error('Error rolling back risk configuration:', error);
+    return res.status(500).json({ error: 'Failed to roll back risk configuration' });
+  }
+});
+
+/**
+ * Find the companies offered for comparison, excluding the current company,
+ * optionally filtered by a fuzzy name search
+ */
+async function findNetworkCompanies(companyId: number, searchQuery: string, limit?: number, offset = 0) {
+  const conditions = [not(eq(companies.id, companyId))];
+  if (searchQuery) {
+    conditions.push(ilike(companies.name, `%${searchQuery}%`));
+  }
+
+  const query = db.select({
+    id: companies.id,
+    name: companies.name,
+    category: companies.category,
+    riskScore: companies.risk_score,
+    chosenScore: companies.chosen_score,
+    risk_priorities: companies.risk_priorities
+  })
+  .from(companies)
+  .where(and(...conditions))
+  .orderBy(asc(companies.name));
+
+  return limit !== undefined ? query.limit(limit).offset(offset) : query;
+}
+
+// POST endpoint to simulate draft dimension weights against the network without saving them
+router.post('/priorities/simulate', optionalAuth, async (req: Request, res: Response) => {
+  try {
+    // Allow access without authentication - we'll use a fixed company ID for demo purposes
+    const companyId = req.user?.company_id || 1;
+    const { dimensions, threshold } = req.body || {};
+
+    if (!dimensions || !Array.isArray(dimensions)) {
+      return res.status(400).json({ error: 'Invalid dimensions data' });
+    }
+
+    // Rescore the same companies /network-companies returns for the same search, one page at a time
+    const searchQuery = req.query.q ? String(req.query.q).trim() : '';
+    const requestedLimit = parseInt(String(req.query.limit ?? ''), 10);
+    const limit = requestedLimit > 0 ? Math.min(requestedLimit, MAX_SIMULATION_COMPANIES) : 10;
+    const offset = Math.max(0, parseInt(String(req.query.offset ?? ''), 10) || 0);
+    const networkCompanies = await findNetworkCompanies(companyId, searchQuery, limit, offset);
+
+    const saved = await getSavedPriorityContext(companyId);
+    const blockingThreshold = Number(threshold) > 0 ? Number(threshold) : saved.threshold;
+
+    console.log(`[RiskPriorities] Simulating draft weights for company ${companyId} across ${networkCompanies.length} companies`);
+
+    const simulation = await simulateRiskPriorities(
+      networkCompanies.map(company => ({
+        id: company.id,
+        name: company.name,
+        category: company.category,
+        riskScore: company.riskScore
+      })),
+      saved.dimensions,
+      dimensions,
+      blockingThreshold
+    );
+
+    return res.status(200).json(simulation);
+  } catch (error) {
+    console.error('Error simulating risk priorities:', error);
+    return res.status(500).json({ error: 'Failed to simulate risk priorities' });
+  }
+});
+
 // GET endpoint to search network companies for comparison
 router.get('/network-companies', optionalAuth, async (req: Request, res: Response) => {
   try {
@@ -421,27 +651,7 @@ router.get('/network-companies', optionalAuth, async (req: Request, res: Respons
     // Limit the number of results
     const limit = req.query.limit ? parseInt(String(req.query.limit), 10) : 10;
     
-    // Build the base query with the primary condition - exclude current company
-    let query = db.select({
-      id: companies.id,
-      name: companies.name,
-      category: companies.category,
-      riskScore: companies.risk_score,
-      chosenScore: companies.chosen_score,
-      risk_priorities: companies.risk_priorities
-    })
-    .from(companies)
-    .where(not(eq(companies.id, companyId)));
-    
-    // If search query is provided, add fuzzy search condition
-    if (searchQuery) {
-      query = query.where(ilike(companies.name, `%${searchQuery}%`));
-    }
-    
-    // Execute the query with ordering and limit
-    const networkCompanies = await query
-      .limit(limit)
-      .orderBy(asc(companies.name));
+    const networkCompanies = await findNetworkCompanies(companyId, searchQuery, limit);
     
     // Transform companies for client consumption
     const formattedCompanies = networkCompanies.map(company => {
@@ -592,4 +802,77 @@ router.get('/industry-average', optionalAuth, async (req: Request, res: Response
   }
 });
 
+/**
+ * Read a cohort attribute from the query string; missing, empty and "any"
+ * values do not restrict the cohort
+ */
+function readCohortParam(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  const trimmed = value.trim();
+  return trimmed && trimmed !== 'any' ? trimmed : undefined;
+}
+
+/**
+ * Cohort attributes that can be used for peer benchmarking
+ * GET /api/risk-score/benchmarks/options
+ */
+router.get('/benchmarks/options', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const options = await getCohortOptions();
+    const ownCohort = await getCompanyCohort(req.user!.company_id);
+
+    return res.status(200).json({ ...options, ownCohort });
+  } catch (error) {
+    console.error('[RiskBenchmark] Error fetching cohort options:', error);
+    return res.status(500).json({ error: 'Failed to fetch cohort options' });
+  }
+});
+
+/**
+ * Peer benchmark of a company against a cohort
+ * GET /api/risk-score/benchmarks?companyId=&category=&revenueTier=&fundingStage=&employeeBand=
+ *
+ * Percentiles (p10/p25/median/p75/p90) are returned overall and per cluster.
+ * Without any cohort attribute the company is compared with its own cohort.
+ */
+router.get('/benchmarks', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const companyId = req.query.companyId !== undefined
+      ? parseInt(String(req.query.companyId), 10)
+      : req.user!.company_id;
+
+    if (isNaN(companyId)) {
+      return res.status(400).json({ error: 'Invalid companyId' });
+    }
+
+    const requested: CohortFilter = {
+      category: readCohortParam(req.query.category),
+      revenueTier: readCohortParam(req.query.revenueTier),
+      fundingStage: readCohortParam(req.query.fundingStage),
+      employeeBand: readCohortParam(req.query.employeeBand)
+    };
+
+    if (requested.employeeBand && !EMPLOYEE_BANDS.some(band => band.id === requested.employeeBand)) {
+      return res.status(400).json({ error: 'Invalid employeeBand' });
+    }
+
+    const hasCohortParams = ['category', 'revenueTier', 'fundingStage', 'employeeBand']
+      .some(key => req.query[key] !== undefined);
+    const cohort = hasCohortParams ? requested : (await getCompanyCohort(companyId)) ?? {};
+
+    const benchmark = await getCohortBenchmark(cohort, companyId);
+
+    console.log('[RiskBenchmark] Returning cohort benchmark', {
+      companyId,
+      cohort: benchmark.label,
+      size: benchmark.size
+    });
+
+    return res.status(200).json(benchmark);
+  } catch (error) {
+    console.error('[RiskBenchmark] Error generating cohort benchmark:', error);
+    return res.status(500).json({ error: 'Failed to generate cohort benchmark' });
+  }
+});
+
 export default router;
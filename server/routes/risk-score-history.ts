@@ -0,0 +1,69 @@
+/**
+ * Risk Score History API Routes
+ * 
+ * This module exposes the recorded risk score history for the companies
+ * in the current user's network, so monitoring views can show real score
+ * changes instead of estimated ones.
+ * 
+ * Key endpoints:
+ * - GET /api/risk-score-history/changes?window=7d - Score change per network company
+ */
+import { Router } from 'express';
+import { db } from '@db';
+import { companies } from '@db/schema';
+import { inArray } from 'drizzle-orm';
+import { requireAuth } from '../middleware/auth';
+import { getNetworkCompanyIds } from '../services/company-service';
+import { RiskScoreHistoryService } from '../services/risk-score-history-service';
+
+const router = Router();
+
+// GET endpoint to retrieve the score change of every network company within a window
+router.get('/changes', requireAuth, async (req, res) => {
+  try {
+    const window = RiskScoreHistoryService.parseWindow(req.query.window);
+    const networkIds = await getNetworkCompanyIds(req.user!.company_id);
+
+    if (networkIds.length === 0) {
+      return res.json({ window, companies: [] });
+    }
+
+    const [networkCompanies, changes] = await Promise.all([
+      db.select({
+        id: companies.id,
+        name: companies.name,
+        category: companies.category,
+        risk_score: companies.risk_score
+      })
+      .from(companies)
+      .where(inArray(companies.id, networkIds)),
+      RiskScoreHistoryService.getScoreChanges(networkIds, window)
+    ]);
+
+    const changesById = new Map(changes.map(change => [change.companyId, change]));
+
+    const result = networkCompanies.map(company => {
+      const change = changesById.get(company.id);
+      const currentScore = change?.currentScore ?? company.risk_score ?? 0;
+
+      return {
+        id: company.id,
+        name: company.name,
+        category: company.category,
+        currentScore,
+        previousScore: change?.previousScore ?? currentScore,
+        change: change?.change ?? 0
+      };
+    });
+
+    res.json({ window, companies: result });
+  } catch (error) {
+    console.error('[RiskScoreHistory] Error fetching network score changes:', error);
+    res.status(500).json({
+      message: "Error fetching risk score changes",
+      code: "FETCH_ERROR"
+    });
+  }
+});
+
+export default router;
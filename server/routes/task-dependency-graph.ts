@@ -0,0 +1,255 @@
+/**
+ * Task Dependency Graph API Routes
+ *
+ * This module serves the onboarding sequence: the dependencies between task
+ * templates and the tabs their tasks unlock. Invela maintains the global
+ * sequence and can set any bank's; a bank sets the sequence for the companies
+ * in its network, which replaces the global one for them until it is reset.
+ *
+ * Key endpoints:
+ * - GET    /api/task-dependencies/graph        - A company's dependency graph with the state of its tasks (?companyId=)
+ * - GET    /api/task-dependencies/rules        - Dependencies and unlock effects of the global or a bank's sequence (?bankId=)
+ * - POST   /api/task-dependencies/rules        - Add a dependency between two task templates
+ * - DELETE /api/task-dependencies/rules/:id    - Remove a dependency
+ * - POST   /api/task-dependencies/effects      - Add a tab unlocked by a task template
+ * - DELETE /api/task-dependencies/effects/:id  - Remove an unlock effect
+ * - DELETE /api/task-dependencies/sequence     - Reset a bank's sequence to the global one (?bankId=)
+ */
+import { Router, type Request } from 'express';
+import { z } from 'zod';
+import { db } from '@db';
+import { companies } from '@db/schema';
+import { eq } from 'drizzle-orm';
+import { requireAuth } from '../middleware/auth';
+import {
+  TaskDependencyService,
+  TaskDependencyError,
+  type SequenceEditor
+} from '../services/task-dependency-service';
+
+const router = Router();
+
+const dependencySchema = z.object({
+  templateId: z.number().int().positive(),
+  prerequisiteTemplateId: z.number().int().positive(),
+  satisfiedBy: z.array(z.string().trim().min(1)).min(1).optional(),
+  bankCompanyId: z.number().int().positive().nullable().optional()
+});
+
+const effectSchema = z.object({
+  templateId: z.number().int().positive(),
+  tab: z.string().trim().min(1, "Tab is required").max(100),
+  bankCompanyId: z.number().int().positive().nullable().optional()
+});
+
+const DEPENDENCY_ERROR_STATUS: Record<TaskDependencyError['code'], number> = {
+  NOT_FOUND: 404,
+  FORBIDDEN: 403,
+  INVALID_DEPENDENCY: 400,
+  DUPLICATE: 409,
+  CYCLE: 409
+};
+
+/**
+ * The user's company, its category, and whether it can change a sequence
+ */
+async function getEditor(req: Request): Promise<SequenceEditor & { canEdit: boolean }> {
+  const [company] = await db.select({ category: companies.category })
+    .from(companies)
+    .where(eq(companies.id, req.user!.company_id));
+
+  return {
+    companyId: req.user!.company_id,
+    isInvela: company?.category === 'Invela',
+    canEdit: company?.category === 'Bank' || company?.category === 'Invela'
+  };
+}
+
+function sendDependencyError(res: any, error: unknown, action: string) {
+  if (error instanceof TaskDependencyError) {
+    return res.status(DEPENDENCY_ERROR_STATUS[error.code]).json({
+      message: error.message,
+      code: error.code
+    });
+  }
+
+  console.error(`[TaskDependencies] Error ${action}:`, error);
+  res.status(500).json({
+    message: `Error ${action}`,
+    code: "TASK_DEPENDENCIES_ERROR"
+  });
+}
+
+function validationError(res: any, error: z.ZodError) {
+  return res.status(400).json({
+    message: error.errors[0]?.message || "Invalid request",
+    code: "VALIDATION_ERROR",
+    details: error.format()
+  });
+}
+
+function forbidden(res: any) {
+  return res.status(403).json({
+    message: "Only banks and Invela can manage onboarding sequences",
+    code: "FORBIDDEN"
+  });
+}
+
+// GET endpoint to retrieve a company's dependency graph
+router.get('/graph', requireAuth, async (req, res) => {
+  try {
+    const editor = await getEditor(req);
+    const companyId = req.query.companyId ? parseInt(String(req.query.companyId), 10) : editor.companyId;
+    if (isNaN(companyId)) {
+      return res.status(400).json({ message: "Invalid company ID", code: "INVALID_COMPANY_ID" });
+    }
+
+    // A company sees its own graph, its bank sees the graphs of its network, and Invela sees all
+    if (companyId !== editor.companyId && !editor.isInvela) {
+      const bankCompanyId = await TaskDependencyService.findCompanyBank(companyId);
+      if (bankCompanyId !== editor.companyId) {
+        return res.status(403).json({
+          message: "You do not have access to this company's tasks",
+          code: "FORBIDDEN"
+        });
+      }
+    }
+
+    const graph = await TaskDependencyService.getGraph(companyId);
+    res.json(graph);
+  } catch (error) {
+    sendDependencyError(res, error, 'fetching the dependency graph');
+  }
+});
+
+// GET endpoint to retrieve the rules of the global sequence or a bank's sequence
+router.get('/rules', requireAuth, async (req, res) => {
+  try {
+    const editor = await getEditor(req);
+    if (!editor.canEdit) {
+      return forbidden(res);
+    }
+
+    let bankCompanyId: number | null = editor.isInvela ? null : editor.companyId;
+    if (req.query.bankId) {
+      bankCompanyId = parseInt(String(req.query.bankId), 10);
+      if (isNaN(bankCompanyId)) {
+        return res.status(400).json({ message: "Invalid bank ID", code: "INVALID_BANK_ID" });
+      }
+      if (!editor.isInvela && bankCompanyId !== editor.companyId) {
+        return forbidden(res);
+      }
+    }
+
+    const [dependencies, effects] = await Promise.all([
+      TaskDependencyService.listDependencies(bankCompanyId),
+      TaskDependencyService.listEffects(bankCompanyId)
+    ]);
+
+    res.json({ bankCompanyId, dependencies, effects });
+  } catch (error) {
+    sendDependencyError(res, error, 'fetching onboarding sequence');
+  }
+});
+
+// POST endpoint to add a dependency to a sequence
+router.post('/rules', requireAuth, async (req, res) => {
+  try {
+    const editor = await getEditor(req);
+    if (!editor.canEdit) {
+      return forbidden(res);
+    }
+
+    const parsed = dependencySchema.safeParse(req.body);
+    if (!parsed.success) {
+      return validationError(res, parsed.error);
+    }
+
+    const dependency = await TaskDependencyService.addDependency(editor, parsed.data, req.user!.id);
+    res.status(201).json(dependency);
+  } catch (error) {
+    sendDependencyError(res, error, 'adding task dependency');
+  }
+});
+
+// DELETE endpoint to remove a dependency from a sequence
+router.delete('/rules/:id', requireAuth, async (req, res) => {
+  try {
+    const editor = await getEditor(req);
+    if (!editor.canEdit) {
+      return forbidden(res);
+    }
+
+    const dependencyId = parseInt(req.params.id, 10);
+    if (isNaN(dependencyId)) {
+      return res.status(400).json({ message: "Invalid dependency ID", code: "INVALID_DEPENDENCY_ID" });
+    }
+
+    await TaskDependencyService.removeDependency(editor, dependencyId);
+    res.status(204).end();
+  } catch (error) {
+    sendDependencyError(res, error, 'removing task dependency');
+  }
+});
+
+// POST endpoint to add a tab unlocked by a task template
+router.post('/effects', requireAuth, async (req, res) => {
+  try {
+    const editor = await getEditor(req);
+    if (!editor.canEdit) {
+      return forbidden(res);
+    }
+
+    const parsed = effectSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return validationError(res, parsed.error);
+    }
+
+    const effect = await TaskDependencyService.addEffect(editor, parsed.data, req.user!.id);
+    res.status(201).json(effect);
+  } catch (error) {
+    sendDependencyError(res, error, 'adding unlock effect');
+  }
+});
+
+// DELETE endpoint to remove an unlock effect
+router.delete('/effects/:id', requireAuth, async (req, res) => {
+  try {
+    const editor = await getEditor(req);
+    if (!editor.canEdit) {
+      return forbidden(res);
+    }
+
+    const effectId = parseInt(req.params.id, 10);
+    if (isNaN(effectId)) {
+      return res.status(400).json({ message: "Invalid unlock effect ID", code: "INVALID_EFFECT_ID" });
+    }
+
+    await TaskDependencyService.removeEffect(editor, effectId);
+    res.status(204).end();
+  } catch (error) {
+    sendDependencyError(res, error, 'removing unlock effect');
+  }
+});
+
+// DELETE endpoint to reset a bank's sequence, so its companies follow the global one
+router.delete('/sequence', requireAuth, async (req, res) => {
+  try {
+    const editor = await getEditor(req);
+    if (!editor.canEdit) {
+      return forbidden(res);
+    }
+
+    const bankCompanyId = req.query.bankId !== undefined ? parseInt(String(req.query.bankId), 10) : undefined;
+    if (bankCompanyId !== undefined && isNaN(bankCompanyId)) {
+      return res.status(400).json({ message: "Invalid bank ID", code: "INVALID_BANK_ID" });
+    }
+
+    await TaskDependencyService.resetSequence(editor, bankCompanyId);
+    res.status(204).end();
+  } catch (error) {
+    sendDependencyError(res, error, 'resetting onboarding sequence');
+  }
+});
+
+export default router;
@@ -2,6 +2,7 @@ import express from 'express';
 import { db } from '@db';
 import { taskTemplates, componentConfigurations } from '@db/schema';
 import { eq, and } from 'drizzle-orm';
+import { TaskDefaultsService } from '../services/task-defaults-service';
 
 const router = express.Router();
 
@@ -105,6 +106,28 @@ router.get('/by-type/:taskType', async (req, res) => {
   }
 });
 
+/**
+ * Get the defaults a new task of a type is created with, after scope overrides
+ * GET /api/task-templates/by-type/:taskType/defaults?companyId=&bankId=
+ */
+router.get('/by-type/:taskType/defaults', async (req, res) => {
+  try {
+    const companyId = req.query.companyId ? parseInt(String(req.query.companyId)) : null;
+    const bankCompanyId = req.query.bankId ? parseInt(String(req.query.bankId)) : undefined;
+    
+    if ((companyId !== null && isNaN(companyId)) || (bankCompanyId !== undefined && isNaN(bankCompanyId))) {
+      return res.status(400).json({ error: 'Invalid company or bank ID' });
+    }
+    
+    const defaults = await TaskDefaultsService.resolve(req.params.taskType, { companyId, bankCompanyId });
+    
+    res.json(defaults);
+  } catch (error) {
+    console.error('Error resolving task defaults:', error);
+    res.status(500).json({ error: 'Failed to resolve task defaults' });
+  }
+});
+
 /**
  * Create a new task template
  * POST /api/task-templates
@@ -12,7 +12,8 @@ import { standardFormSubmission, TaskStatus } from '../utils/form-standardizatio
 import { FileCreationService } from '../services/file-creation';
 import { CompanyTabsService } from '../services/company-tabs';
 import { isCompanyDemo } from '../utils/demo-helpers';
-import { processDependencies, unlockOpenBankingTasks } from './task-dependencies';
+import { processDependencies } from './task-dependencies';
+import { TaskDefaultsService } from '../services/task-defaults-service';
 import { submitFormWithImmediateUnlock } from '../services/form-submission-handler';
 import { unlockDependentTasksImmediately } from '../services/synchronous-task-dependencies';
 
@@ -320,15 +321,31 @@ router.get("/api/tasks/security/:companyName", requireAuth, async (req, res) =>
 // Create new task - add progress to response
 router.post("/api/tasks", requireAuth, async (req, res) => {
   try {
+    if (!req.body.task_type) {
+      return res.status(400).json({ message: "Task type is required" });
+    }
+
+    // Anything the request leaves out comes from the task template's configuration
+    const defaults = await TaskDefaultsService.resolve(req.body.task_type, {
+      companyId: req.body.company_id ?? null
+    });
+
     const [newTask] = await db
       .insert(tasks)
       .values({
         ...req.body,
+        title: req.body.title || defaults.title,
+        description: req.body.description || defaults.description,
+        priority: req.body.priority || defaults.priority,
+        due_date: req.body.due_date ? new Date(req.body.due_date) : defaults.dueDate,
+        files_requested: req.body.files_requested ?? defaults.filesRequested,
         status: TaskStatus.EMAIL_SENT,
         progress: 0,
         created_at: new Date(),
         updated_at: new Date(),
         metadata: {
+          template_id: defaults.templateId,
+          form_component: defaults.formComponent,
           ...req.body.metadata,
           statusFlow: [TaskStatus.EMAIL_SENT],
           progressHistory: [{
@@ -1898,9 +1915,6 @@ router.post('/api/tasks/unlock-open-banking/:taskId', requireAuth, async (req, r
       // Process all dependencies for this company
       await processDependencies(task.company_id);
       
-      // For extra reliability, also directly unlock Open Banking tasks
-      await unlockOpenBankingTasks(task.company_id);
-      
       // Verify the task was actually unlocked
       const [verifyTask] = await db.select()
         .from(tasks)
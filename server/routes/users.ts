@@ -6,6 +6,7 @@ import { z } from "zod";
 import bcrypt from "bcrypt";
 import crypto from "crypto";
 import { emailService } from "../services/email/service";
+import { TaskDefaultsService } from "../services/task-defaults-service";
 import { TaskStatus } from "@db/schema";
 
 const router = Router();
@@ -140,20 +141,26 @@ router.post("/api/users/invite", async (req, res) => {
           .returning();
 
         // Create task with proper created_by field
+        const onboardingDefaults = await TaskDefaultsService.resolve('user_onboarding', {
+          companyId: data.company_id,
+          companyName: company.name,
+          inviteeName: data.full_name,
+          email: data.email.toLowerCase()
+        }, tx);
         const [taskResult] = await tx.insert(tasks)
           .values({
-            title: `New User Invitation: ${data.email}`,
-            description: `Invitation sent to ${data.full_name} to join ${company.name}`,
+            title: onboardingDefaults.title,
+            description: onboardingDefaults.description,
             task_type: 'user_onboarding',
             task_scope: 'user',
             status: TaskStatus.EMAIL_SENT,
-            priority: 'medium',
+            priority: onboardingDefaults.priority,
             progress: 25,
             created_by: req.user.id, // Now explicitly using req.user.id after validation
             assigned_to: userResult.id,
             company_id: data.company_id,
             user_email: data.email.toLowerCase(),
-            due_date: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
+            due_date: onboardingDefaults.dueDate,
             metadata: {
               user_id: userResult.id,
               sender_name: data.sender_name,
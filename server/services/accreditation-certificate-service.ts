@@ -0,0 +1,448 @@
+/**
+ * ========================================
+ * Accreditation Certificate Service
+ * ========================================
+ *
+ * Issues verifiable certificates for Data Recipient accreditations. Each
+ * accreditation history entry gets one certificate: a canonical JSON
+ * document signed with the server's Ed25519 key, rendered as a branded PDF
+ * on request. Anyone holding a certificate can check its signature and the
+ * accreditation's current status through the public verification endpoint.
+ *
+ * Key Features:
+ * - Canonical JSON certificate with accreditation number, risk score, cluster snapshot and validity dates
+ * - Ed25519 signing with the key from ACCREDITATION_SIGNING_PRIVATE_KEY, required in production
+ * - Verification of the signature, the issued record and the current accreditation status
+ * - Certificates signed with a rotated key are re-signed when next fetched
+ *
+ * @module AccreditationCertificateService
+ * @version 1.0.0
+ * @since 2025-06-05
+ */
+
+import crypto from 'crypto';
+import { db } from '@db';
+import {
+  companies,
+  accreditationHistory,
+  accreditationCertificates,
+  type AccreditationCertificate
+} from '@db/schema';
+import { eq, and, desc } from 'drizzle-orm';
+import { generateAccreditationCertificatePDF } from './pdf-generator';
+
+export const CERTIFICATE_VERSION = 1;
+
+export interface AccreditationCertificateDocument {
+  version: number;
+  certificateId: string;
+  issuer: string;
+  accreditationId: number;
+  accreditationNumber: number;
+  company: {
+    id: number;
+    name: string;
+  };
+  riskScore: number | null;
+  riskClusters: Record<string, number> | null;
+  issuedDate: string;
+  expiresDate: string | null;
+  certificateIssuedAt: string;
+  keyId: string;
+}
+
+export interface SignedAccreditationCertificate {
+  certificateId: string;
+  algorithm: 'Ed25519';
+  keyId: string;
+  document: AccreditationCertificateDocument;
+  signature: string;
+  verifyUrl: string;
+}
+
+export interface CertificateVerificationResult {
+  valid: boolean;
+  signatureValid: boolean;
+  status: string | null;
+  expired: boolean;
+  reason: string | null;
+  certificate: {
+    certificateId: string;
+    companyName: string;
+    accreditationNumber: number;
+    issuedDate: string;
+    expiresDate: string | null;
+  } | null;
+  verifiedAt: string;
+}
+
+/**
+ * Error raised when a certificate cannot be issued or verified
+ */
+export class AccreditationCertificateError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'NO_ACCREDITATION' | 'SIGNING_KEY_MISSING'
+  ) {
+    super(message);
+    this.name = 'AccreditationCertificateError';
+  }
+}
+
+interface SigningKey {
+  privateKey: crypto.KeyObject;
+  publicKey: crypto.KeyObject;
+  keyId: string;
+}
+
+let signingKey: SigningKey | null = null;
+
+/**
+ * Loads the Ed25519 signing key from ACCREDITATION_SIGNING_PRIVATE_KEY
+ *
+ * Production refuses to sign or verify without a configured PKCS#8 PEM
+ * Ed25519 key: a temporary key would change on every restart and break every
+ * certificate issued before it. Outside production a temporary key is used so
+ * certificates can be tried locally.
+ *
+ * @throws AccreditationCertificateError when no key is configured in production
+ */
+function getSigningKey(): SigningKey {
+  if (signingKey) return signingKey;
+
+  const pem = process.env.ACCREDITATION_SIGNING_PRIVATE_KEY;
+  let privateKey: crypto.KeyObject;
+
+  if (pem) {
+    // Environment variables often carry PEM newlines escaped
+    privateKey = crypto.createPrivateKey(pem.replace(/\\n/g, '\n'));
+    if (privateKey.asymmetricKeyType !== 'ed25519') {
+      throw new Error('ACCREDITATION_SIGNING_PRIVATE_KEY must be an Ed25519 private key');
+    }
+  } else if (process.env.NODE_ENV === 'production') {
+    throw new AccreditationCertificateError(
+      'Certificate signing is not configured: ACCREDITATION_SIGNING_PRIVATE_KEY is not set',
+      'SIGNING_KEY_MISSING'
+    );
+  } else {
+    console.warn('[AccreditationCertificateService] ACCREDITATION_SIGNING_PRIVATE_KEY is not set, using a temporary signing key');
+    privateKey = crypto.generateKeyPairSync('ed25519').privateKey;
+  }
+
+  const publicKey = crypto.createPublicKey(privateKey);
+  const keyId = crypto
+    .createHash('sha256')
+    .update(publicKey.export({ type: 'spki', format: 'der' }))
+    .digest('hex')
+    .slice(0, 16);
+
+  signingKey = { privateKey, publicKey, keyId };
+  return signingKey;
+}
+
+/**
+ * Serializes a value as JSON with object keys sorted, so the same document
+ * always produces the same bytes to sign
+ */
+export function canonicalize(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value);
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalize(item === undefined ? null : item)).join(',')}]`;
+  }
+
+  const entries = Object.keys(value as Record<string, unknown>)
+    .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+    .sort()
+    .map(key => `${JSON.stringify(key)}:${canonicalize((value as Record<string, unknown>)[key])}`);
+
+  return `{${entries.join(',')}}`;
+}
+
+function getVerifyUrl(certificateId: string): string {
+  const baseUrl = process.env.APP_URL || `http://localhost:${process.env.PORT || 5000}`;
+  return `${baseUrl}/api/accreditation/verify?certificateId=${encodeURIComponent(certificateId)}`;
+}
+
+/**
+ * Accreditation Certificate Service - Issues and verifies signed certificates
+ */
+export class AccreditationCertificateService {
+
+  /**
+   * Public half of the signing key, for verifying certificates offline
+   */
+  static getPublicKey(): { algorithm: 'Ed25519'; keyId: string; publicKey: string } {
+    const { publicKey, keyId } = getSigningKey();
+    return {
+      algorithm: 'Ed25519',
+      keyId,
+      publicKey: publicKey.export({ type: 'spki', format: 'pem' }).toString()
+    };
+  }
+
+  /**
+   * Signs the canonical form of a certificate document
+   *
+   * @returns Base64 Ed25519 signature
+   */
+  static sign(document: AccreditationCertificateDocument): string {
+    const { privateKey } = getSigningKey();
+    return crypto.sign(null, Buffer.from(canonicalize(document)), privateKey).toString('base64');
+  }
+
+  /**
+   * Checks a signature over the canonical form of a certificate document
+   */
+  static verifySignature(document: AccreditationCertificateDocument, signature: string): boolean {
+    const { publicKey, keyId } = getSigningKey();
+    if (document.keyId !== keyId) return false;
+
+    try {
+      return crypto.verify(null, Buffer.from(canonicalize(document)), publicKey, Buffer.from(signature, 'base64'));
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Gets a company's certificate, issuing it on first request
+   *
+   * @param companyId - Company the accreditation belongs to
+   * @param accreditationId - Accreditation history entry, defaults to the company's current one
+   */
+  static async getCompanyCertificate(companyId: number, accreditationId?: number): Promise<SignedAccreditationCertificate> {
+    let targetId = accreditationId;
+
+    // Without an explicit ID use the current accreditation, or else the latest one
+    if (targetId === undefined) {
+      const [company] = await db
+        .select({ current_accreditation_id: companies.current_accreditation_id })
+        .from(companies)
+        .where(eq(companies.id, companyId));
+
+      const [latest] = await db
+        .select({ id: accreditationHistory.id })
+        .from(accreditationHistory)
+        .where(eq(accreditationHistory.company_id, companyId))
+        .orderBy(desc(accreditationHistory.accreditation_number))
+        .limit(1);
+
+      targetId = company?.current_accreditation_id ?? latest?.id;
+    }
+
+    const [source] = targetId === undefined ? [] : await db
+      .select({
+        id: accreditationHistory.id,
+        accreditation_number: accreditationHistory.accreditation_number,
+        risk_score: accreditationHistory.risk_score,
+        risk_clusters: accreditationHistory.risk_clusters,
+        issued_date: accreditationHistory.issued_date,
+        expires_date: accreditationHistory.expires_date,
+        company_id: companies.id,
+        company_name: companies.name
+      })
+      .from(accreditationHistory)
+      .innerJoin(companies, eq(accreditationHistory.company_id, companies.id))
+      .where(and(eq(accreditationHistory.company_id, companyId), eq(accreditationHistory.id, targetId)));
+
+    if (!source) {
+      throw new AccreditationCertificateError('No accreditation found for this company', 'NO_ACCREDITATION');
+    }
+
+    const [existing] = await db
+      .select()
+      .from(accreditationCertificates)
+      .where(eq(accreditationCertificates.accreditation_id, source.id));
+
+    if (existing) {
+      return this.toSignedCertificate(await this.resignIfKeyChanged(existing));
+    }
+
+    const certificateId = crypto.randomUUID();
+    const document: AccreditationCertificateDocument = {
+      version: CERTIFICATE_VERSION,
+      certificateId,
+      issuer: 'Invela',
+      accreditationId: source.id,
+      accreditationNumber: source.accreditation_number,
+      company: {
+        id: source.company_id,
+        name: source.company_name
+      },
+      riskScore: source.risk_score,
+      riskClusters: source.risk_clusters,
+      issuedDate: source.issued_date.toISOString(),
+      expiresDate: source.expires_date ? source.expires_date.toISOString() : null,
+      certificateIssuedAt: new Date().toISOString(),
+      keyId: getSigningKey().keyId
+    };
+
+    // A concurrent request may have issued the certificate first
+    const [inserted] = await db
+      .insert(accreditationCertificates)
+      .values({
+        certificate_id: certificateId,
+        accreditation_id: source.id,
+        company_id: source.company_id,
+        document,
+        signature: this.sign(document),
+        key_id: document.keyId
+      })
+      .onConflictDoNothing({ target: accreditationCertificates.accreditation_id })
+      .returning();
+
+    const certificate = inserted ?? (await db
+      .select()
+      .from(accreditationCertificates)
+      .where(eq(accreditationCertificates.accreditation_id, source.id)))[0];
+
+    console.log('[AccreditationCertificateService] Certificate issued', {
+      certificateId: certificate.certificate_id,
+      accreditationId: source.id,
+      companyId: source.company_id
+    });
+
+    return this.toSignedCertificate(certificate);
+  }
+
+  /**
+   * Renders a signed certificate as a branded PDF
+   */
+  static async generatePDF(certificate: SignedAccreditationCertificate): Promise<Buffer> {
+    const { document } = certificate;
+    const result = await generateAccreditationCertificatePDF({
+      certificateId: certificate.certificateId,
+      companyName: document.company.name,
+      accreditationNumber: document.accreditationNumber,
+      riskScore: document.riskScore,
+      riskClusters: document.riskClusters,
+      issuedDate: document.issuedDate.slice(0, 10),
+      expiresDate: document.expiresDate ? document.expiresDate.slice(0, 10) : null,
+      signature: certificate.signature,
+      keyId: certificate.keyId,
+      verifyUrl: certificate.verifyUrl
+    });
+
+    if (!result.success || !result.content) {
+      throw new Error(result.error || 'PDF generation failed');
+    }
+
+    return result.content;
+  }
+
+  /**
+   * Verifies a certificate by its ID, or a presented document and signature
+   *
+   * A certificate is valid when its signature checks out, it matches the
+   * certificate the network issued, and the accreditation is still ACTIVE
+   * and unexpired.
+   */
+  static async verifyCertificate(
+    input: { certificateId: string } | { document: AccreditationCertificateDocument; signature: string }
+  ): Promise<CertificateVerificationResult> {
+    const now = new Date();
+    const result: CertificateVerificationResult = {
+      valid: false,
+      signatureValid: false,
+      status: null,
+      expired: false,
+      reason: null,
+      certificate: null,
+      verifiedAt: now.toISOString()
+    };
+
+    const certificateId = 'certificateId' in input ? input.certificateId : input.document?.certificateId;
+    const [issued] = certificateId
+      ? await db
+          .select()
+          .from(accreditationCertificates)
+          .where(eq(accreditationCertificates.certificate_id, certificateId))
+      : [];
+
+    if (!issued) {
+      result.reason = 'Certificate not found';
+      return result;
+    }
+
+    const document = 'document' in input ? input.document : issued.document as AccreditationCertificateDocument;
+    const signature = 'signature' in input ? input.signature : issued.signature;
+
+    result.signatureValid = this.verifySignature(document, signature);
+    if (!result.signatureValid) {
+      result.reason = 'Signature is invalid or was made with a key that is no longer in use';
+      return result;
+    }
+
+    if (canonicalize(document) !== canonicalize(issued.document)) {
+      result.signatureValid = false;
+      result.reason = 'Certificate does not match the issued certificate';
+      return result;
+    }
+
+    result.certificate = {
+      certificateId: document.certificateId,
+      companyName: document.company.name,
+      accreditationNumber: document.accreditationNumber,
+      issuedDate: document.issuedDate,
+      expiresDate: document.expiresDate
+    };
+
+    const [accreditation] = await db
+      .select({ status: accreditationHistory.status, expires_date: accreditationHistory.expires_date })
+      .from(accreditationHistory)
+      .where(eq(accreditationHistory.id, issued.accreditation_id));
+
+    if (!accreditation) {
+      result.reason = 'Accreditation no longer exists';
+      return result;
+    }
+
+    result.status = accreditation.status;
+    result.expired = accreditation.status === 'EXPIRED' ||
+      (accreditation.expires_date !== null && accreditation.expires_date <= now);
+    result.valid = accreditation.status === 'ACTIVE' && !result.expired;
+
+    if (!result.valid) {
+      result.reason = result.expired ? 'Accreditation has expired' : `Accreditation is ${accreditation.status.toLowerCase()}`;
+    }
+
+    return result;
+  }
+
+  /**
+   * Re-signs a stored certificate when the signing key has been rotated
+   */
+  private static async resignIfKeyChanged(certificate: AccreditationCertificate): Promise<AccreditationCertificate> {
+    const { keyId } = getSigningKey();
+    if (certificate.key_id === keyId) return certificate;
+
+    const document = { ...(certificate.document as unknown as AccreditationCertificateDocument), keyId };
+    const [updated] = await db
+      .update(accreditationCertificates)
+      .set({ document, signature: this.sign(document), key_id: keyId })
+      .where(eq(accreditationCertificates.id, certificate.id))
+      .returning();
+
+    console.log('[AccreditationCertificateService] Certificate re-signed with the current key', {
+      certificateId: certificate.certificate_id,
+      previousKeyId: certificate.key_id,
+      keyId
+    });
+
+    return updated;
+  }
+
+  private static toSignedCertificate(certificate: AccreditationCertificate): SignedAccreditationCertificate {
+    return {
+      certificateId: certificate.certificate_id,
+      algorithm: 'Ed25519',
+      keyId: certificate.key_id,
+      document: certificate.document as unknown as AccreditationCertificateDocument,
+      signature: certificate.signature,
+      verifyUrl: getVerifyUrl(certificate.certificate_id)
+    };
+  }
+}
@@ -0,0 +1,221 @@
+/**
+ * ========================================
+ * Accreditation Comparison Service
+ * ========================================
+ *
+ * Diffs two accreditations of the same company, typically an annual renewal
+ * against the previous year's accreditation. Compares the risk score and
+ * risk cluster snapshots taken at accreditation, and the Open Banking
+ * answers of the submissions each accreditation was issued for.
+ *
+ * Key Features:
+ * - Overall risk score delta and per-cluster deltas
+ * - Answers that changed, were added or were removed between the two submissions
+ * - Works on any two entries of the company's accreditation history
+ *
+ * @module AccreditationComparisonService
+ * @version 1.0.0
+ * @since 2025-06-05
+ */
+
+import { db } from '@db';
+import {
+  accreditationHistory,
+  openBankingResponses,
+  openBankingFields,
+  type AccreditationHistory
+} from '@db/schema';
+import { eq, and, inArray } from 'drizzle-orm';
+import { RISK_CLUSTER_NAMES } from './riskClusters';
+
+export interface ComparedAccreditation {
+  id: number;
+  accreditationNumber: number;
+  issuedDate: Date;
+  expiresDate: Date | null;
+  status: string;
+  riskScore: number | null;
+  taskId: number | null;
+}
+
+export interface ClusterDelta {
+  name: string;
+  from: number | null;
+  to: number | null;
+  delta: number | null;
+}
+
+export interface AnswerChange {
+  fieldKey: string;
+  displayName: string;
+  group: string;
+  change: 'changed' | 'added' | 'removed';
+  from: string | null;
+  to: string | null;
+}
+
+export interface AccreditationComparison {
+  from: ComparedAccreditation;
+  to: ComparedAccreditation;
+  scoreDelta: number | null;
+  clusters: ClusterDelta[];
+  answers: {
+    available: boolean;        // Both accreditations are linked to a submission
+    sameSubmission: boolean;   // Both were issued for the same submission
+    changes: AnswerChange[];
+    unchangedCount: number;
+  };
+}
+
+/**
+ * Raised when the accreditations to compare cannot be found
+ */
+export class AccreditationComparisonError extends Error {
+  constructor(message: string, public code: 'NOT_FOUND') {
+    super(message);
+    this.name = 'AccreditationComparisonError';
+  }
+}
+
+/**
+ * Answers compare equal when they only differ in surrounding whitespace
+ */
+function normalizeAnswer(value: string | null | undefined): string | null {
+  const trimmed = value?.trim();
+  return trimmed ? trimmed : null;
+}
+
+/**
+ * Accreditation Comparison Service - Diffs two accreditations of a company
+ */
+export class AccreditationComparisonService {
+
+  /**
+   * Compares two accreditations of a company
+   *
+   * @param companyId - Company both accreditations belong to
+   * @param fromId - Earlier accreditation, the baseline
+   * @param toId - Later accreditation, compared against the baseline
+   * @returns Score, cluster and answer differences from the baseline
+   */
+  static async compare(companyId: number, fromId: number, toId: number): Promise<AccreditationComparison> {
+    const entries = await db
+      .select()
+      .from(accreditationHistory)
+      .where(and(
+        eq(accreditationHistory.company_id, companyId),
+        inArray(accreditationHistory.id, [fromId, toId])
+      ));
+
+    const from = entries.find(entry => entry.id === fromId);
+    const to = entries.find(entry => entry.id === toId);
+
+    if (!from || !to) {
+      throw new AccreditationComparisonError('Accreditation not found for this company', 'NOT_FOUND');
+    }
+
+    const fromClusters = (from.risk_clusters || {}) as Record<string, number>;
+    const toClusters = (to.risk_clusters || {}) as Record<string, number>;
+
+    const clusters: ClusterDelta[] = RISK_CLUSTER_NAMES.map(name => {
+      const fromValue = typeof fromClusters[name] === 'number' ? fromClusters[name] : null;
+      const toValue = typeof toClusters[name] === 'number' ? toClusters[name] : null;
+      return {
+        name,
+        from: fromValue,
+        to: toValue,
+        delta: fromValue !== null && toValue !== null ? toValue - fromValue : null
+      };
+    });
+
+    const answers = await this.compareAnswers(from.task_id, to.task_id);
+
+    console.log('[AccreditationComparisonService] Accreditations compared', {
+      companyId,
+      fromId,
+      toId,
+      answerChanges: answers.changes.length
+    });
+
+    return {
+      from: this.summarize(from),
+      to: this.summarize(to),
+      scoreDelta: from.risk_score !== null && to.risk_score !== null ? to.risk_score - from.risk_score : null,
+      clusters,
+      answers
+    };
+  }
+
+  /**
+   * Diffs the Open Banking answers of two submissions by field
+   */
+  private static async compareAnswers(
+    fromTaskId: number | null,
+    toTaskId: number | null
+  ): Promise<AccreditationComparison['answers']> {
+    if (fromTaskId === null || toTaskId === null) {
+      return { available: false, sameSubmission: false, changes: [], unchangedCount: 0 };
+    }
+
+    const responses = await db
+      .select({
+        task_id: openBankingResponses.task_id,
+        field_key: openBankingFields.field_key,
+        display_name: openBankingFields.display_name,
+        group: openBankingFields.group,
+        order: openBankingFields.order,
+        response_value: openBankingResponses.response_value
+      })
+      .from(openBankingResponses)
+      .innerJoin(openBankingFields, eq(openBankingResponses.field_id, openBankingFields.id))
+      .where(inArray(openBankingResponses.task_id, [fromTaskId, toTaskId]));
+
+    const fields = new Map<string, { displayName: string; group: string; order: number; from: string | null; to: string | null }>();
+    for (const response of responses) {
+      const field = fields.get(response.field_key) ?? {
+        displayName: response.display_name,
+        group: response.group,
+        order: response.order,
+        from: null,
+        to: null
+      };
+      if (response.task_id === fromTaskId) field.from = normalizeAnswer(response.response_value);
+      if (response.task_id === toTaskId) field.to = normalizeAnswer(response.response_value);
+      fields.set(response.field_key, field);
+    }
+
+    const changes: AnswerChange[] = [];
+    let unchangedCount = 0;
+
+    const ordered = Array.from(fields.entries()).sort(([, a], [, b]) => a.order - b.order);
+    for (const [fieldKey, field] of ordered) {
+      if (field.from === field.to) {
+        unchangedCount++;
+        continue;
+      }
+
+      changes.push({
+        fieldKey,
+        displayName: field.displayName,
+        group: field.group,
+        change: field.from === null ? 'added' : field.to === null ? 'removed' : 'changed',
+        from: field.from,
+        to: field.to
+      });
+    }
+
+    return { available: true, sameSubmission: fromTaskId === toTaskId, changes, unchangedCount };
+  }
+
+  private static summarize(entry: AccreditationHistory): ComparedAccreditation {
+    return {
+      id: entry.id,
+      accreditationNumber: entry.accreditation_number,
+      issuedDate: entry.issued_date,
+      expiresDate: entry.expires_date,
+      status: entry.status,
+      riskScore: entry.risk_score,
+      taskId: entry.task_id
+    };
+  }
+}
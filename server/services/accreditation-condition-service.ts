@@ -0,0 +1,479 @@
+/**
+ * ========================================
+ * Accreditation Condition Service
+ * ========================================
+ *
+ * Supports conditional accreditation. A bank or Invela can attach
+ * remediation conditions to a company's accreditation, each linked to the
+ * KYB or KY3P field it remediates, with an owner at the company, a due date
+ * and the evidence required. While any condition is outstanding the
+ * accreditation is conditional; a condition still open at its due date is
+ * missed and the accreditation is suspended.
+ *
+ * Key Features:
+ * - Attaches conditions to the company's current ACTIVE accreditation
+ * - Evidence submission by the company and acceptance or rejection by the bank
+ * - Marks overdue open conditions as missed and suspends the accreditation, reopening them if suspension fails
+ * - Evidence is reviewed only by the company that set the condition
+ * - Notifies the company, and the bank that set the condition, over WebSocket
+ *
+ * @module AccreditationConditionService
+ * @version 1.0.0
+ * @since 2025-06-05
+ */
+
+import { db } from '@db';
+import {
+  companies,
+  users,
+  files,
+  kybFields,
+  ky3pFields,
+  accreditationHistory,
+  accreditationConditions,
+  AccreditationConditionStatus,
+  AccreditationReasonCode,
+  type AccreditationCondition
+} from '@db/schema';
+import { eq, and, lte, inArray, asc } from 'drizzle-orm';
+import { AccreditationService, AccreditationStatusError } from './accreditation-service';
+import { broadcastNotification } from '../utils/unified-websocket';
+
+export interface NewConditionParams {
+  description: string;
+  formType: 'kyb' | 'ky3p';
+  fieldKey: string;
+  ownerId: number;
+  dueDate: Date;
+  evidenceRequirement: string;
+}
+
+export interface ConditionEvidenceParams {
+  evidence: string;
+  fileId?: number | null;
+}
+
+/**
+ * Condition statuses that still need action before the accreditation is unconditional
+ */
+export const OUTSTANDING_CONDITION_STATUSES: AccreditationConditionStatus[] = [
+  AccreditationConditionStatus.OPEN,
+  AccreditationConditionStatus.SUBMITTED
+];
+
+/**
+ * Raised when a condition cannot be created, evidenced or reviewed
+ */
+export class AccreditationConditionError extends Error {
+  constructor(
+    message: string,
+    public code: 'NOT_FOUND' | 'NO_ACCREDITATION' | 'INVALID_FIELD' | 'INVALID_OWNER' | 'INVALID_FILE' | 'INVALID_STATE' | 'NOT_CONDITION_SETTER'
+  ) {
+    super(message);
+    this.name = 'AccreditationConditionError';
+  }
+}
+
+/**
+ * Accreditation Condition Service - Manages remediation conditions on accreditations
+ */
+export class AccreditationConditionService {
+
+  /**
+   * Attaches remediation conditions to a company's current accreditation
+   *
+   * @param companyId - Company whose accreditation becomes conditional
+   * @param conditions - Conditions to attach
+   * @param createdBy - Bank or Invela user setting the conditions
+   * @param createdByCompanyId - Company of that user
+   * @returns The created conditions
+   */
+  static async addConditions(
+    companyId: number,
+    conditions: NewConditionParams[],
+    createdBy: number,
+    createdByCompanyId: number
+  ): Promise<AccreditationCondition[]> {
+    const [company] = await db
+      .select({ current_accreditation_id: companies.current_accreditation_id })
+      .from(companies)
+      .where(eq(companies.id, companyId));
+
+    const [accreditation] = company?.current_accreditation_id
+      ? await db
+          .select({ id: accreditationHistory.id, status: accreditationHistory.status })
+          .from(accreditationHistory)
+          .where(eq(accreditationHistory.id, company.current_accreditation_id))
+      : [];
+
+    if (!accreditation || accreditation.status !== 'ACTIVE') {
+      throw new AccreditationConditionError('Company has no active accreditation to attach conditions to', 'NO_ACCREDITATION');
+    }
+
+    await this.validateFieldLinks(conditions);
+    await this.validateOwners(companyId, conditions.map(condition => condition.ownerId));
+
+    const created = await db
+      .insert(accreditationConditions)
+      .values(conditions.map(condition => ({
+        accreditation_id: accreditation.id,
+        company_id: companyId,
+        description: condition.description,
+        form_type: condition.formType,
+        field_key: condition.fieldKey,
+        owner_id: condition.ownerId,
+        due_date: condition.dueDate,
+        evidence_requirement: condition.evidenceRequirement,
+        status: AccreditationConditionStatus.OPEN,
+        created_by: createdBy,
+        created_by_company_id: createdByCompanyId
+      })))
+      .returning();
+
+    console.log('[AccreditationConditionService] Conditions added', {
+      companyId,
+      accreditationId: accreditation.id,
+      conditionIds: created.map(condition => condition.id),
+      createdBy
+    });
+
+    broadcastNotification(
+      {
+        title: 'Accreditation is conditional',
+        message: `${created.length} remediation condition${created.length === 1 ? ' was' : 's were'} attached to your accreditation.`,
+        variant: 'default',
+        metadata: { companyId, accreditationId: accreditation.id }
+      },
+      client => client.companyId === companyId
+    );
+
+    return created;
+  }
+
+  /**
+   * Gets the conditions attached to a company's accreditations
+   *
+   * @param companyId - Company ID
+   * @returns Conditions, soonest due first
+   */
+  static async getConditions(companyId: number): Promise<AccreditationCondition[]> {
+    return await db
+      .select()
+      .from(accreditationConditions)
+      .where(eq(accreditationConditions.company_id, companyId))
+      .orderBy(asc(accreditationConditions.due_date));
+  }
+
+  /**
+   * Number of outstanding conditions on an accreditation
+   */
+  static async countOutstanding(accreditationId: number): Promise<number> {
+    const outstanding = await db
+      .select({ id: accreditationConditions.id })
+      .from(accreditationConditions)
+      .where(and(
+        eq(accreditationConditions.accreditation_id, accreditationId),
+        inArray(accreditationConditions.status, OUTSTANDING_CONDITION_STATUSES)
+      ));
+
+    return outstanding.length;
+  }
+
+  /**
+   * Records the company's evidence for an open condition
+   *
+   * @param companyId - Company the condition belongs to
+   * @param conditionId - Condition ID
+   * @param params - Evidence text and optional uploaded file
+   * @param userId - Company user submitting the evidence
+   */
+  static async submitEvidence(
+    companyId: number,
+    conditionId: number,
+    params: ConditionEvidenceParams,
+    userId: number
+  ): Promise<AccreditationCondition> {
+    const condition = await this.getCondition(companyId, conditionId);
+
+    if (condition.status !== AccreditationConditionStatus.OPEN) {
+      throw new AccreditationConditionError(`Cannot submit evidence for a condition that is ${condition.status}`, 'INVALID_STATE');
+    }
+
+    if (params.fileId) {
+      const [file] = await db
+        .select({ id: files.id })
+        .from(files)
+        .where(and(eq(files.id, params.fileId), eq(files.company_id, companyId)));
+
+      if (!file) {
+        throw new AccreditationConditionError('Evidence file not found', 'INVALID_FILE');
+      }
+    }
+
+    const now = new Date();
+    const [updated] = await db
+      .update(accreditationConditions)
+      .set({
+        status: AccreditationConditionStatus.SUBMITTED,
+        evidence: params.evidence,
+        evidence_file_id: params.fileId ?? null,
+        evidence_submitted_by: userId,
+        evidence_submitted_at: now,
+        updated_at: now
+      })
+      .where(and(
+        eq(accreditationConditions.id, conditionId),
+        eq(accreditationConditions.status, AccreditationConditionStatus.OPEN)
+      ))
+      .returning();
+
+    if (!updated) {
+      throw new AccreditationConditionError('Condition is no longer open', 'INVALID_STATE');
+    }
+
+    console.log('[AccreditationConditionService] Evidence submitted', { companyId, conditionId, userId });
+
+    broadcastNotification(
+      {
+        title: 'Remediation evidence submitted',
+        message: `Evidence was submitted for the condition "${condition.description}".`,
+        variant: 'default',
+        metadata: { companyId, conditionId }
+      },
+      client => client.companyId === condition.created_by_company_id
+    );
+
+    return updated;
+  }
+
+  /**
+   * Accepts or rejects the evidence submitted for a condition
+   *
+   * A rejected condition is open again; if it is already past its due date
+   * the next enforcement run marks it missed.
+   *
+   * @param companyId - Company the condition belongs to
+   * @param conditionId - Condition ID
+   * @param accepted - Whether the evidence meets the requirement
+   * @param note - Reviewer's note, shared with the company
+   * @param reviewerId - Bank or Invela user reviewing the evidence
+   * @param reviewerCompanyId - Reviewer's company, which must be the one that set the condition
+   */
+  static async reviewEvidence(
+    companyId: number,
+    conditionId: number,
+    accepted: boolean,
+    note: string | null,
+    reviewerId: number,
+    reviewerCompanyId: number
+  ): Promise<AccreditationCondition> {
+    const condition = await this.getCondition(companyId, conditionId);
+
+    if (condition.created_by_company_id !== reviewerCompanyId) {
+      throw new AccreditationConditionError('Only the company that set the condition can review its evidence', 'NOT_CONDITION_SETTER');
+    }
+
+    if (condition.status !== AccreditationConditionStatus.SUBMITTED) {
+      throw new AccreditationConditionError('Only submitted evidence can be reviewed', 'INVALID_STATE');
+    }
+
+    const now = new Date();
+    const [updated] = await db
+      .update(accreditationConditions)
+      .set({
+        status: accepted ? AccreditationConditionStatus.MET : AccreditationConditionStatus.OPEN,
+        review_note: note,
+        reviewed_by: reviewerId,
+        reviewed_at: now,
+        updated_at: now
+      })
+      .where(and(
+        eq(accreditationConditions.id, conditionId),
+        eq(accreditationConditions.status, AccreditationConditionStatus.SUBMITTED)
+      ))
+      .returning();
+
+    if (!updated) {
+      throw new AccreditationConditionError('Condition evidence is no longer awaiting review', 'INVALID_STATE');
+    }
+
+    console.log('[AccreditationConditionService] Evidence reviewed', { companyId, conditionId, accepted, reviewerId });
+
+    broadcastNotification(
+      {
+        title: accepted ? 'Remediation condition met' : 'Remediation evidence rejected',
+        message: accepted
+          ? `The condition "${condition.description}" has been met.`
+          : `Evidence for "${condition.description}" was not accepted.${note ? ` ${note}` : ''}`,
+        variant: accepted ? 'default' : 'destructive',
+        metadata: { companyId, conditionId }
+      },
+      client => client.companyId === companyId
+    );
+
+    return updated;
+  }
+
+  /**
+   * Marks open conditions past their due date as missed and suspends the
+   * accreditations they belong to
+   *
+   * The suspension is recorded against the user who set the condition, with
+   * the condition_missed reason code.
+   *
+   * @param now - Reference time, defaults to the current time
+   * @returns Number of conditions marked missed
+   */
+  static async enforceDueDates(now: Date = new Date()): Promise<number> {
+    const overdue = await db
+      .select()
+      .from(accreditationConditions)
+      .where(and(
+        eq(accreditationConditions.status, AccreditationConditionStatus.OPEN),
+        lte(accreditationConditions.due_date, now)
+      ));
+
+    let missed = 0;
+
+    for (const condition of overdue) {
+      let markedMissed = false;
+
+      try {
+        const [updated] = await db
+          .update(accreditationConditions)
+          .set({ status: AccreditationConditionStatus.MISSED, updated_at: now })
+          .where(and(
+            eq(accreditationConditions.id, condition.id),
+            eq(accreditationConditions.status, AccreditationConditionStatus.OPEN)
+          ))
+          .returning({ id: accreditationConditions.id });
+
+        if (!updated) continue;
+        markedMissed = true;
+        missed++;
+
+        const [accreditation] = await db
+          .select({ status: accreditationHistory.status })
+          .from(accreditationHistory)
+          .where(eq(accreditationHistory.id, condition.accreditation_id));
+
+        // Conditions on an accreditation that is no longer active need no suspension
+        if (accreditation?.status !== 'ACTIVE') continue;
+
+        await AccreditationService.suspendAccreditation({
+          companyId: condition.company_id,
+          reasonCode: AccreditationReasonCode.CONDITION_MISSED,
+          justification: `Remediation condition missed (due ${condition.due_date.toISOString().slice(0, 10)}): ${condition.description}`,
+          changedBy: condition.created_by,
+          changedByCompanyId: condition.created_by_company_id
+        });
+
+        console.log('[AccreditationConditionService] Condition missed, accreditation suspended', {
+          conditionId: condition.id,
+          accreditationId: condition.accreditation_id,
+          companyId: condition.company_id
+        });
+
+        broadcastNotification(
+          {
+            title: 'Accreditation suspended',
+            message: `The remediation condition "${condition.description}" was not met by its due date.`,
+            variant: 'destructive',
+            metadata: { companyId: condition.company_id, conditionId: condition.id }
+          },
+          client => client.companyId === condition.company_id || client.companyId === condition.created_by_company_id
+        );
+      } catch (error) {
+        // Already suspended by another missed condition or by hand
+        if (error instanceof AccreditationStatusError && error.code === 'INVALID_TRANSITION') continue;
+
+        console.error('[AccreditationConditionService] Error enforcing condition', {
+          conditionId: condition.id,
+          companyId: condition.company_id,
+          error: error instanceof Error ? error.message : String(error)
+        });
+
+        // Reopen the condition so the next run retries the suspension
+        if (markedMissed) {
+          await this.reopenMissedCondition(condition.id);
+          missed--;
+        }
+      }
+    }
+
+    return missed;
+  }
+
+  /**
+   * Reverts a condition marked missed back to open when its accreditation
+   * could not be suspended
+   */
+  private static async reopenMissedCondition(conditionId: number): Promise<void> {
+    try {
+      await db
+        .update(accreditationConditions)
+        .set({ status: AccreditationConditionStatus.OPEN, updated_at: new Date() })
+        .where(and(
+          eq(accreditationConditions.id, conditionId),
+          eq(accreditationConditions.status, AccreditationConditionStatus.MISSED)
+        ));
+    } catch (error) {
+      console.error('[AccreditationConditionService] Error reopening missed condition', {
+        conditionId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  private static async getCondition(companyId: number, conditionId: number): Promise<AccreditationCondition> {
+    const [condition] = await db
+      .select()
+      .from(accreditationConditions)
+      .where(and(
+        eq(accreditationConditions.id, conditionId),
+        eq(accreditationConditions.company_id, companyId)
+      ));
+
+    if (!condition) {
+      throw new AccreditationConditionError('Condition not found', 'NOT_FOUND');
+    }
+
+    return condition;
+  }
+
+  /**
+   * Checks every condition links to an existing KYB or KY3P field
+   */
+  private static async validateFieldLinks(conditions: NewConditionParams[]): Promise<void> {
+    for (const formType of ['kyb', 'ky3p'] as const) {
+      const keys = Array.from(new Set(conditions.filter(c => c.formType === formType).map(c => c.fieldKey)));
+      if (keys.length === 0) continue;
+
+      const table = formType === 'kyb' ? kybFields : ky3pFields;
+      const found: Array<{ field_key: string }> = await db
+        .select({ field_key: table.field_key })
+        .from(table)
+        .where(inArray(table.field_key, keys));
+
+      const missing = keys.filter(key => !found.some(field => field.field_key === key));
+      if (missing.length > 0) {
+        throw new AccreditationConditionError(`Unknown ${formType.toUpperCase()} field: ${missing.join(', ')}`, 'INVALID_FIELD');
+      }
+    }
+  }
+
+  /**
+   * Checks every condition owner is a user of the company
+   */
+  private static async validateOwners(companyId: number, ownerIds: number[]): Promise<void> {
+    const uniqueIds = Array.from(new Set(ownerIds));
+    const owners = await db
+      .select({ id: users.id })
+      .from(users)
+      .where(and(inArray(users.id, uniqueIds), eq(users.company_id, companyId)));
+
+    if (owners.length !== uniqueIds.length) {
+      throw new AccreditationConditionError('Condition owners must be users of the company', 'INVALID_OWNER');
+    }
+  }
+}
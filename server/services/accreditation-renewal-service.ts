@@ -0,0 +1,362 @@
+/**
+ * ========================================
+ * Accreditation Renewal Service
+ * ========================================
+ *
+ * Enforces the 365-day validity of Data Recipient accreditations. Lapsed
+ * accreditations are expired, and renewals are prompted ahead of expiry
+ * with a renewal assessment task and reminders to the company and the
+ * banks in its network.
+ *
+ * Key Features:
+ * - Expires ACTIVE accreditations past their expires_date and updates the company status
+ * - Creates an Open Banking renewal assessment task when the first reminder is due
+ * - Reminds 60, 30 and 7 days before expiry, each at most once per accreditation
+ * - Notifies the company's users and connected banks over WebSocket and email
+ *
+ * @module AccreditationRenewalService
+ * @version 1.0.0
+ * @since 2025-06-05
+ */
+
+import { db } from '@db';
+import { companies, accreditationHistory, tasks, users, TaskStatus } from '@db/schema';
+import { eq, and, lte, gt, isNotNull, inArray } from 'drizzle-orm';
+import { getNetworkCompanyIds } from './company-service';
+import { broadcastNotification, broadcastTaskUpdate } from '../utils/unified-websocket';
+
+/**
+ * Days before expiry at which renewal reminders are sent
+ */
+export const RENEWAL_REMINDER_DAYS = [60, 30, 7];
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+export interface AccreditationSweepResult {
+  expired: number;
+  remindersSent: number;
+  renewalTasksCreated: number;
+}
+
+interface ExpiringAccreditation {
+  id: number;
+  company_id: number;
+  company_name: string;
+  expires_date: Date;
+  renewal_task_id: number | null;
+  renewal_reminders_sent: number[] | null;
+}
+
+/**
+ * Accreditation Renewal Service - Expires lapsed accreditations and prompts renewals
+ */
+export class AccreditationRenewalService {
+
+  /**
+   * Runs one sweep: expires lapsed accreditations, then sends due reminders
+   *
+   * @param now - Reference time, defaults to the current time
+   * @returns Counts of the work done
+   */
+  static async sweep(now: Date = new Date()): Promise<AccreditationSweepResult> {
+    const result: AccreditationSweepResult = { expired: 0, remindersSent: 0, renewalTasksCreated: 0 };
+
+    result.expired = await this.expireLapsedAccreditations(now);
+
+    const { remindersSent, renewalTasksCreated } = await this.sendRenewalReminders(now);
+    result.remindersSent = remindersSent;
+    result.renewalTasksCreated = renewalTasksCreated;
+
+    console.log('[AccreditationRenewalService] Sweep completed', {
+      ...result,
+      timestamp: now.toISOString()
+    });
+
+    return result;
+  }
+
+  /**
+   * Marks ACTIVE accreditations past their expiry date as EXPIRED
+   *
+   * The company's accreditation_status only changes when the expired entry
+   * is its current accreditation; superseded entries expire silently.
+   *
+   * @param now - Reference time
+   * @returns Number of accreditations expired
+   */
+  static async expireLapsedAccreditations(now: Date = new Date()): Promise<number> {
+    const lapsed = await db
+      .select({
+        id: accreditationHistory.id,
+        company_id: accreditationHistory.company_id,
+        company_name: companies.name,
+        current_accreditation_id: companies.current_accreditation_id,
+        expires_date: accreditationHistory.expires_date
+      })
+      .from(accreditationHistory)
+      .innerJoin(companies, eq(accreditationHistory.company_id, companies.id))
+      .where(and(
+        eq(accreditationHistory.status, 'ACTIVE'),
+        isNotNull(accreditationHistory.expires_date),
+        lte(accreditationHistory.expires_date, now)
+      ));
+
+    let expired = 0;
+
+    for (const entry of lapsed) {
+      try {
+        const isCurrent = entry.current_accreditation_id === null || entry.current_accreditation_id === entry.id;
+
+        const updated = await db.transaction(async (trx) => {
+          // Re-check the status so concurrent sweeps expire each entry once
+          const [row] = await trx
+            .update(accreditationHistory)
+            .set({ status: 'EXPIRED', updated_at: now })
+            .where(and(
+              eq(accreditationHistory.id, entry.id),
+              eq(accreditationHistory.status, 'ACTIVE')
+            ))
+            .returning({ id: accreditationHistory.id });
+
+          if (row && isCurrent) {
+            await trx
+              .update(companies)
+              .set({ accreditation_status: 'EXPIRED', updated_at: now })
+              .where(eq(companies.id, entry.company_id));
+          }
+
+          return !!row;
+        });
+
+        if (!updated) continue;
+        expired++;
+
+        console.log('[AccreditationRenewalService] Accreditation expired', {
+          accreditationId: entry.id,
+          companyId: entry.company_id,
+          isCurrent
+        });
+
+        if (isCurrent) {
+          await this.notify(entry.company_id, entry.company_name, entry.expires_date!, 0, true);
+        }
+      } catch (error) {
+        console.error('[AccreditationRenewalService] Error expiring accreditation', {
+          accreditationId: entry.id,
+          companyId: entry.company_id,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+
+    return expired;
+  }
+
+  /**
+   * Sends the renewal reminders that are due and creates renewal tasks
+   *
+   * Only a company's current accreditation is considered. When the sweeper
+   * has not run for a while only the most urgent due reminder is sent, and
+   * the earlier ones are recorded as sent.
+   *
+   * @param now - Reference time
+   * @returns Counts of reminders sent and renewal tasks created
+   */
+  static async sendRenewalReminders(now: Date = new Date()): Promise<{ remindersSent: number; renewalTasksCreated: number }> {
+    const horizon = new Date(now.getTime() + Math.max(...RENEWAL_REMINDER_DAYS) * DAY_MS);
+
+    const expiring: ExpiringAccreditation[] = await db
+      .select({
+        id: accreditationHistory.id,
+        company_id: accreditationHistory.company_id,
+        company_name: companies.name,
+        expires_date: accreditationHistory.expires_date,
+        renewal_task_id: accreditationHistory.renewal_task_id,
+        renewal_reminders_sent: accreditationHistory.renewal_reminders_sent
+      })
+      .from(accreditationHistory)
+      .innerJoin(companies, eq(companies.current_accreditation_id, accreditationHistory.id))
+      .where(and(
+        eq(accreditationHistory.status, 'ACTIVE'),
+        gt(accreditationHistory.expires_date, now),
+        lte(accreditationHistory.expires_date, horizon)
+      )) as ExpiringAccreditation[];
+
+    let remindersSent = 0;
+    let renewalTasksCreated = 0;
+
+    for (const entry of expiring) {
+      const daysUntilExpiry = Math.ceil((entry.expires_date.getTime() - now.getTime()) / DAY_MS);
+      const alreadySent = entry.renewal_reminders_sent || [];
+      const due = RENEWAL_REMINDER_DAYS.filter(days => daysUntilExpiry <= days && !alreadySent.includes(days));
+
+      if (due.length === 0) continue;
+
+      try {
+        let renewalTaskId = entry.renewal_task_id;
+        if (!renewalTaskId) {
+          renewalTaskId = await this.createRenewalTask(entry);
+          renewalTasksCreated++;
+        }
+
+        await db
+          .update(accreditationHistory)
+          .set({
+            renewal_task_id: renewalTaskId,
+            renewal_reminders_sent: [...alreadySent, ...due].sort((a, b) => b - a),
+            updated_at: now
+          })
+          .where(eq(accreditationHistory.id, entry.id));
+
+        await this.notify(entry.company_id, entry.company_name, entry.expires_date, daysUntilExpiry, false);
+        remindersSent++;
+
+        console.log('[AccreditationRenewalService] Renewal reminder sent', {
+          accreditationId: entry.id,
+          companyId: entry.company_id,
+          daysUntilExpiry,
+          reminders: due,
+          renewalTaskId
+        });
+      } catch (error) {
+        console.error('[AccreditationRenewalService] Error sending renewal reminder', {
+          accreditationId: entry.id,
+          companyId: entry.company_id,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+
+    return { remindersSent, renewalTasksCreated };
+  }
+
+  /**
+   * Creates the Open Banking renewal assessment for an expiring accreditation
+   *
+   * Submitting it runs the usual Open Banking post-submission flow, which
+   * issues the next accreditation.
+   *
+   * @returns ID of the created task
+   */
+  private static async createRenewalTask(entry: ExpiringAccreditation): Promise<number> {
+    const nowIso = new Date().toISOString();
+
+    const [task] = await db
+      .insert(tasks)
+      .values({
+        title: `Accreditation Renewal: Open Banking Survey: ${entry.company_name}`,
+        description: `Complete the Open Banking Survey to renew ${entry.company_name}'s accreditation before it expires`,
+        task_type: 'open_banking',
+        task_scope: 'company',
+        status: TaskStatus.NOT_STARTED,
+        priority: 'high',
+        progress: 0,
+        company_id: entry.company_id,
+        assigned_to: null,
+        due_date: entry.expires_date,
+        metadata: {
+          company_id: entry.company_id,
+          company_name: entry.company_name,
+          created_via: 'accreditation_renewal',
+          accreditation_renewal: true,
+          accreditation_id: entry.id,
+          statusFlow: [TaskStatus.NOT_STARTED],
+          progressHistory: [{
+            value: 0,
+            timestamp: nowIso
+          }],
+          created_at: nowIso,
+          last_updated: nowIso,
+          locked: false
+        }
+      })
+      .returning({ id: tasks.id });
+
+    broadcastTaskUpdate({
+      taskId: task.id,
+      status: TaskStatus.NOT_STARTED,
+      progress: 0,
+      metadata: { accreditation_renewal: true, company_id: entry.company_id }
+    });
+
+    return task.id;
+  }
+
+  /**
+   * Notifies the company's users and its connected banks
+   */
+  private static async notify(
+    companyId: number,
+    companyName: string,
+    expiresDate: Date,
+    daysUntilExpiry: number,
+    expired: boolean
+  ): Promise<void> {
+    const networkIds = await getNetworkCompanyIds(companyId);
+    const banks = networkIds.length > 0
+      ? await db
+          .select({ id: companies.id })
+          .from(companies)
+          .where(and(inArray(companies.id, networkIds), inArray(companies.category, ['Bank', 'Invela'])))
+      : [];
+    const bankIds = banks.map(bank => bank.id);
+
+    const expiresOn = expiresDate.toISOString().slice(0, 10);
+    const metadata = { companyId, expiresDate: expiresDate.toISOString(), daysUntilExpiry, expired };
+
+    broadcastNotification(
+      {
+        title: expired ? 'Accreditation expired' : 'Accreditation renewal due',
+        message: expired
+          ? 'Your accreditation has expired. Complete the renewal assessment to restore it.'
+          : `Your accreditation expires on ${expiresOn}. Complete the renewal assessment to keep it active.`,
+        variant: expired ? 'destructive' : 'default',
+        metadata
+      },
+      client => client.companyId === companyId
+    );
+
+    if (bankIds.length > 0) {
+      broadcastNotification(
+        {
+          title: expired ? 'Accreditation expired' : 'Accreditation renewal due',
+          message: expired
+            ? `${companyName}'s accreditation has expired.`
+            : `${companyName}'s accreditation expires on ${expiresOn}.`,
+          variant: expired ? 'destructive' : 'default',
+          metadata
+        },
+        client => client.companyId !== undefined && bankIds.includes(client.companyId)
+      );
+    }
+
+    try {
+      const recipients = await db
+        .select({ email: users.email, full_name: users.full_name, company_id: users.company_id })
+        .from(users)
+        .where(inArray(users.company_id, [companyId, ...bankIds]));
+
+      // Imported lazily so the sweep never depends on email configuration
+      const { emailService } = await import('./email');
+      const baseUrl = process.env.APP_URL || `http://localhost:${process.env.PORT || 5000}`;
+
+      for (const recipient of recipients) {
+        const audience = recipient.company_id === companyId ? 'company' : 'bank';
+        await emailService.sendAccreditationRenewalEmail(recipient.email, {
+          recipientName: recipient.full_name,
+          companyName,
+          audience,
+          expired,
+          daysUntilExpiry,
+          expiresDate: expiresOn,
+          actionUrl: audience === 'company' ? `${baseUrl}/task-center` : `${baseUrl}/network/company/${companyId}`
+        });
+      }
+    } catch (error) {
+      console.error('[AccreditationRenewalService] Error sending accreditation emails', {
+        companyId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+}
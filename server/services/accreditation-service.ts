@@ -11,6 +11,9 @@
  * - Handles renewal logic and accreditation number incrementing
  * - Differentiates between temporary (Data Recipients) and permanent (Banks/Invela) accreditations
  * - Provides expiration checking and status validation
+ * - Lapsed entries are expired by AccreditationRenewalService, which also prompts renewals
+ * - Suspends, reinstates and revokes accreditations with an audited reason code
+ * - Remediation conditions that make an accreditation conditional live in AccreditationConditionService
  * 
  * @module AccreditationService
  * @version 1.0.0
@@ -18,14 +21,24 @@
  */
 
 import { db } from '@db';
-import { companies, accreditationHistory } from '@db/schema';
-import { eq, and, desc } from 'drizzle-orm';
+import {
+  companies,
+  accreditationHistory,
+  accreditationStatusChanges,
+  AccreditationAction,
+  type AccreditationReasonCode,
+  type AccreditationStatusChange
+} from '@db/schema';
+import { eq, and, desc, inArray } from 'drizzle-orm';
+import { getNetworkCompanyIds } from './company-service';
+import { broadcastAccreditationUpdate } from '../utils/unified-websocket';
 
 export interface CreateAccreditationParams {
   companyId: number;
   riskScore: number;
   riskClusters: Record<string, number>;
   category: string; // 'Bank', 'FinTech', 'Invela'
+  taskId?: number;  // Submission the accreditation is issued for
 }
 
 export interface AccreditationInfo {
@@ -38,6 +51,38 @@ export interface AccreditationInfo {
   isPermanent: boolean;
 }
 
+export interface AccreditationStatusChangeParams {
+  companyId: number;
+  reasonCode: AccreditationReasonCode;
+  justification: string;
+  changedBy: number;          // User making the change
+  changedByCompanyId: number; // Bank or Invela the user belongs to
+}
+
+export interface AccreditationStatusChangeResult {
+  accreditationId: number;
+  status: string;              // New accreditation_history status
+  accreditationStatus: string; // New companies.accreditation_status
+  change: AccreditationStatusChange;
+}
+
+/**
+ * Raised when an accreditation cannot be suspended, reinstated or revoked
+ */
+export class AccreditationStatusError extends Error {
+  constructor(message: string, public code: 'COMPANY_NOT_FOUND' | 'NO_ACCREDITATION' | 'INVALID_TRANSITION') {
+    super(message);
+    this.name = 'AccreditationStatusError';
+  }
+}
+
+// Entry statuses each action applies to, the status it sets and the resulting company status
+const STATUS_TRANSITIONS: Record<AccreditationAction, { from: string[]; to: string; companyStatus: string }> = {
+  [AccreditationAction.SUSPEND]: { from: ['ACTIVE'], to: 'SUSPENDED', companyStatus: 'SUSPENDED' },
+  [AccreditationAction.REINSTATE]: { from: ['SUSPENDED'], to: 'ACTIVE', companyStatus: 'APPROVED' },
+  [AccreditationAction.REVOKE]: { from: ['ACTIVE', 'SUSPENDED'], to: 'REVOKED', companyStatus: 'REVOKED' }
+};
+
 /**
  * Accreditation Service - Handles all accreditation lifecycle operations
  */
@@ -97,7 +142,8 @@ export class AccreditationService {
         issued_date: issuedDate,
         expires_date: expiresDate,
         status: 'ACTIVE',
-        risk_clusters: params.riskClusters
+        risk_clusters: params.riskClusters,
+        task_id: params.taskId ?? null
       })
       .returning();
     
@@ -183,7 +229,12 @@ export class AccreditationService {
   static async isAccreditationExpired(companyId: number): Promise<boolean> {
     const accreditation = await this.getCurrentAccreditation(companyId);
     
-    if (!accreditation || accreditation.isPermanent) {
+    if (!accreditation) {
+      // The expiry sweeper moves lapsed entries out of ACTIVE
+      return (await this.getLatestAccreditationStatus(companyId)) === 'EXPIRED';
+    }
+    
+    if (accreditation.isPermanent) {
       return false;
     }
     
@@ -200,7 +251,7 @@ export class AccreditationService {
     const accreditation = await this.getCurrentAccreditation(companyId);
     
     if (!accreditation) {
-      return 'Not Accredited';
+      return (await this.getLatestAccreditationStatus(companyId)) === 'EXPIRED' ? 'Expired' : 'Not Accredited';
     }
     
     if (accreditation.isPermanent) {
@@ -222,6 +273,23 @@ export class AccreditationService {
     }
   }
   
+  /**
+   * Gets the status of a company's most recent accreditation entry
+   * 
+   * @param companyId - Company ID
+   * @returns Status of the latest entry, or null if never accredited
+   */
+  private static async getLatestAccreditationStatus(companyId: number): Promise<string | null> {
+    const [latest] = await db
+      .select({ status: accreditationHistory.status })
+      .from(accreditationHistory)
+      .where(eq(accreditationHistory.company_id, companyId))
+      .orderBy(desc(accreditationHistory.created_at))
+      .limit(1);
+    
+    return latest?.status ?? null;
+  }
+  
   /**
    * Calculates days until expiration
    * 
@@ -234,6 +302,169 @@ export class AccreditationService {
     return Math.ceil(diffTime / (1000 * 60 * 60 * 24));
   }
   
+  /**
+   * Suspends a company's accreditation until it is reinstated
+   * 
+   * @param params - Company, reason and the user making the change
+   * @returns The new status and the recorded change
+   */
+  static async suspendAccreditation(params: AccreditationStatusChangeParams): Promise<AccreditationStatusChangeResult> {
+    return this.changeAccreditationStatus(AccreditationAction.SUSPEND, params);
+  }
+  
+  /**
+   * Reinstates a suspended accreditation; if it lapsed while suspended the
+   * expiry sweeper expires it on its next run
+   * 
+   * @param params - Company, reason and the user making the change
+   * @returns The new status and the recorded change
+   */
+  static async reinstateAccreditation(params: AccreditationStatusChangeParams): Promise<AccreditationStatusChangeResult> {
+    return this.changeAccreditationStatus(AccreditationAction.REINSTATE, params);
+  }
+  
+  /**
+   * Revokes a company's accreditation permanently; a new accreditation
+   * requires a new assessment
+   * 
+   * @param params - Company, reason and the user making the change
+   * @returns The new status and the recorded change
+   */
+  static async revokeAccreditation(params: AccreditationStatusChangeParams): Promise<AccreditationStatusChangeResult> {
+    return this.changeAccreditationStatus(AccreditationAction.REVOKE, params);
+  }
+  
+  /**
+   * Applies a status change to every live accreditation entry of a company,
+   * keeps companies.current_accreditation_id in step, records the change and
+   * broadcasts it to the company's network
+   */
+  private static async changeAccreditationStatus(
+    action: AccreditationAction,
+    params: AccreditationStatusChangeParams
+  ): Promise<AccreditationStatusChangeResult> {
+    const transition = STATUS_TRANSITIONS[action];
+    const logContext = {
+      service: 'AccreditationService',
+      action,
+      companyId: params.companyId,
+      reasonCode: params.reasonCode,
+      changedBy: params.changedBy
+    };
+    
+    console.log('[AccreditationService] Changing accreditation status', logContext);
+    
+    const result = await db.transaction(async (trx) => {
+      const [company] = await trx
+        .select({ id: companies.id, current_accreditation_id: companies.current_accreditation_id })
+        .from(companies)
+        .where(eq(companies.id, params.companyId));
+      
+      if (!company) {
+        throw new AccreditationStatusError(`Company with ID ${params.companyId} not found`, 'COMPANY_NOT_FOUND');
+      }
+      
+      // Superseded entries that are still live change together with the current one
+      const liveEntries = await trx
+        .select({ id: accreditationHistory.id, status: accreditationHistory.status })
+        .from(accreditationHistory)
+        .where(and(
+          eq(accreditationHistory.company_id, params.companyId),
+          inArray(accreditationHistory.status, ['ACTIVE', 'SUSPENDED'])
+        ))
+        .orderBy(desc(accreditationHistory.created_at));
+      
+      if (liveEntries.length === 0) {
+        throw new AccreditationStatusError('Company has no active or suspended accreditation', 'NO_ACCREDITATION');
+      }
+      
+      const current = liveEntries.find(entry => entry.id === company.current_accreditation_id) ?? liveEntries[0];
+      if (!transition.from.includes(current.status)) {
+        throw new AccreditationStatusError(
+          `Cannot ${action} an accreditation that is ${current.status.toLowerCase()}`,
+          'INVALID_TRANSITION'
+        );
+      }
+      
+      const affectedIds = liveEntries
+        .filter(entry => transition.from.includes(entry.status))
+        .map(entry => entry.id);
+      
+      const now = new Date();
+      await trx
+        .update(accreditationHistory)
+        .set({ status: transition.to, updated_at: now })
+        .where(inArray(accreditationHistory.id, affectedIds));
+      
+      // A revoked accreditation is no longer the company's current one
+      await trx
+        .update(companies)
+        .set({
+          current_accreditation_id: action === AccreditationAction.REVOKE ? null : current.id,
+          accreditation_status: transition.companyStatus,
+          updated_at: now
+        })
+        .where(eq(companies.id, params.companyId));
+      
+      const [change] = await trx
+        .insert(accreditationStatusChanges)
+        .values({
+          accreditation_id: current.id,
+          company_id: params.companyId,
+          action,
+          from_status: current.status,
+          to_status: transition.to,
+          reason_code: params.reasonCode,
+          justification: params.justification,
+          changed_by: params.changedBy,
+          changed_by_company_id: params.changedByCompanyId
+        })
+        .returning();
+      
+      return {
+        accreditationId: current.id,
+        status: transition.to,
+        accreditationStatus: transition.companyStatus,
+        change
+      };
+    });
+    
+    console.log('[AccreditationService] Accreditation status changed', {
+      ...logContext,
+      accreditationId: result.accreditationId,
+      status: result.status
+    });
+    
+    const recipients = new Set([params.companyId, ...(await getNetworkCompanyIds(params.companyId))]);
+    broadcastAccreditationUpdate(
+      {
+        companyId: params.companyId,
+        accreditationId: result.accreditationId,
+        action,
+        status: result.status,
+        accreditationStatus: result.accreditationStatus,
+        reasonCode: params.reasonCode
+      },
+      client => client.companyId !== undefined && recipients.has(client.companyId)
+    );
+    
+    return result;
+  }
+  
+  /**
+   * Gets the suspensions, reinstatements and revocations of a company's accreditations
+   * 
+   * @param companyId - Company ID
+   * @returns Changes, newest first
+   */
+  static async getStatusChanges(companyId: number): Promise<AccreditationStatusChange[]> {
+    return await db
+      .select()
+      .from(accreditationStatusChanges)
+      .where(eq(accreditationStatusChanges.company_id, companyId))
+      .orderBy(desc(accreditationStatusChanges.created_at));
+  }
+  
   /**
    * Gets all accreditation history for a company
    * 
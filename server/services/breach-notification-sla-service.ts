@@ -0,0 +1,290 @@
+/**
+ * ========================================
+ * Breach Notification SLA Service
+ * ========================================
+ *
+ * Tracks claims against the deadline for reporting a breach after its
+ * discovery. Banks set the deadline as a default for all their claims or
+ * for a specific policy; claims without either use the standard 72 hours.
+ *
+ * Key Features:
+ * - Bank default and per-policy notification deadlines
+ * - SLA status per claim: met, late, pending, overdue or unknown
+ * - Late notification history of a data recipient, deducted from its risk score
+ *
+ * @module BreachNotificationSlaService
+ * @version 1.0.0
+ * @since 2025-06-05
+ */
+
+import { db, type DbExecutor } from '@db';
+import { breachNotificationSlas, claims, claimBreaches, ClaimStatus } from '@db/schema';
+import { eq, ne, and, inArray, isNull, asc } from 'drizzle-orm';
+
+// Standard deadline for reporting a breach, used when the bank has not set one
+export const DEFAULT_NOTIFICATION_SLA_HOURS = 72;
+
+export type NotificationSlaStatus =
+  | 'met'       // Reported within the deadline
+  | 'late'      // Reported after the deadline
+  | 'pending'   // Not reported yet, deadline still ahead
+  | 'overdue'   // Not reported yet, deadline passed
+  | 'unknown';  // Discovery date not recorded
+
+export interface NotificationSla {
+  status: NotificationSlaStatus;
+  slaHours: number;
+  source: 'policy' | 'bank' | 'default';
+  deadline: Date | null;
+  hoursToReport: number | null; // Hours from discovery to report, once reported
+  hoursLate: number | null;     // Hours past the deadline, when late or overdue
+}
+
+export interface LateNotification {
+  claimId: number;
+  claimNumber: string;
+  breachDiscoveredDate: Date;
+  breachReportedDate: Date | null;
+  hoursLate: number;
+}
+
+export type BreachNotificationSla = typeof breachNotificationSlas.$inferSelect;
+
+type SlaLookup = Map<number, { byPolicy: Map<string, number>; bankDefault: number | null }>;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Raised when a notification SLA cannot be found
+ */
+export class BreachNotificationSlaError extends Error {
+  constructor(message: string, public code: 'NOT_FOUND') {
+    super(message);
+    this.name = 'BreachNotificationSlaError';
+  }
+}
+
+/**
+ * Breach Notification SLA Service - Notification deadlines and their status per claim
+ */
+export class BreachNotificationSlaService {
+
+  /**
+   * Gets the notification deadlines a bank has set, its default first
+   */
+  static async getSlas(bankCompanyId: number): Promise<BreachNotificationSla[]> {
+    const slas = await db
+      .select()
+      .from(breachNotificationSlas)
+      .where(eq(breachNotificationSlas.bank_company_id, bankCompanyId))
+      .orderBy(asc(breachNotificationSlas.policy_number));
+
+    return slas.sort((a, b) => (a.policy_number === null ? -1 : b.policy_number === null ? 1 : 0));
+  }
+
+  /**
+   * Sets a bank's default deadline, or its deadline for one policy
+   *
+   * @param bankCompanyId - Bank setting the deadline
+   * @param policyNumber - Policy the deadline applies to, or null for the bank's default
+   * @param notificationHours - Hours from discovery to report a breach
+   * @param userId - User setting the deadline
+   */
+  static async setSla(
+    bankCompanyId: number,
+    policyNumber: string | null,
+    notificationHours: number,
+    userId: number
+  ): Promise<BreachNotificationSla> {
+    const scope = and(
+      eq(breachNotificationSlas.bank_company_id, bankCompanyId),
+      policyNumber === null
+        ? isNull(breachNotificationSlas.policy_number)
+        : eq(breachNotificationSlas.policy_number, policyNumber)
+    );
+
+    const sla = await db.transaction(async (trx) => {
+      const [existing] = await trx.select().from(breachNotificationSlas).where(scope).for('update');
+
+      if (existing) {
+        const [updated] = await trx
+          .update(breachNotificationSlas)
+          .set({ notification_hours: notificationHours, updated_at: new Date() })
+          .where(eq(breachNotificationSlas.id, existing.id))
+          .returning();
+        return updated;
+      }
+
+      const [created] = await trx
+        .insert(breachNotificationSlas)
+        .values({
+          bank_company_id: bankCompanyId,
+          policy_number: policyNumber,
+          notification_hours: notificationHours,
+          created_by: userId
+        })
+        .returning();
+      return created;
+    });
+
+    console.log('[BreachNotificationSlaService] Notification SLA set', {
+      bankCompanyId,
+      policyNumber,
+      notificationHours
+    });
+
+    return sla;
+  }
+
+  /**
+   * Removes one of a bank's deadlines, falling back to its default or the standard deadline
+   */
+  static async deleteSla(bankCompanyId: number, slaId: number): Promise<void> {
+    const deleted = await db
+      .delete(breachNotificationSlas)
+      .where(and(
+        eq(breachNotificationSlas.id, slaId),
+        eq(breachNotificationSlas.bank_company_id, bankCompanyId)
+      ))
+      .returning({ id: breachNotificationSlas.id });
+
+    if (deleted.length === 0) {
+      throw new BreachNotificationSlaError('Notification SLA not found', 'NOT_FOUND');
+    }
+
+    console.log('[BreachNotificationSlaService] Notification SLA removed', { bankCompanyId, slaId });
+  }
+
+  /**
+   * Loads the deadlines of several banks for resolving many claims at once
+   */
+  static async loadSlaLookup(bankCompanyIds: number[], executor: DbExecutor = db): Promise<SlaLookup> {
+    const lookup: SlaLookup = new Map();
+    if (bankCompanyIds.length === 0) return lookup;
+
+    const slas: BreachNotificationSla[] = await executor
+      .select()
+      .from(breachNotificationSlas)
+      .where(inArray(breachNotificationSlas.bank_company_id, Array.from(new Set(bankCompanyIds))));
+
+    for (const sla of slas) {
+      const entry = lookup.get(sla.bank_company_id) ?? { byPolicy: new Map(), bankDefault: null };
+      if (sla.policy_number === null) {
+        entry.bankDefault = sla.notification_hours;
+      } else {
+        entry.byPolicy.set(sla.policy_number, sla.notification_hours);
+      }
+      lookup.set(sla.bank_company_id, entry);
+    }
+
+    return lookup;
+  }
+
+  /**
+   * Computes the notification SLA status of a claim
+   *
+   * The claim's policy deadline applies first, then the filing bank's
+   * default, then the standard 72 hours.
+   *
+   * @param claim - Filing bank and policy of the claim
+   * @param breach - Discovery and report dates of the claim's breach
+   * @param lookup - Deadlines from loadSlaLookup
+   * @param now - Time to evaluate unreported breaches at
+   */
+  static evaluate(
+    claim: { company_id: number; policy_number: string | null },
+    breach: { breach_discovered_date: Date | null; breach_reported_date: Date | null } | null,
+    lookup: SlaLookup,
+    now: Date = new Date()
+  ): NotificationSla {
+    const bankSlas = lookup.get(claim.company_id);
+    const policyHours = claim.policy_number ? bankSlas?.byPolicy.get(claim.policy_number) : undefined;
+
+    const slaHours = policyHours ?? bankSlas?.bankDefault ?? DEFAULT_NOTIFICATION_SLA_HOURS;
+    const source: NotificationSla['source'] = policyHours !== undefined
+      ? 'policy'
+      : bankSlas?.bankDefault != null ? 'bank' : 'default';
+
+    const discovered = breach?.breach_discovered_date ?? null;
+    if (!discovered) {
+      return { status: 'unknown', slaHours, source, deadline: null, hoursToReport: null, hoursLate: null };
+    }
+
+    const deadline = new Date(discovered.getTime() + slaHours * HOUR_MS);
+    const reported = breach?.breach_reported_date ?? null;
+
+    if (reported) {
+      const hoursToReport = Math.round((reported.getTime() - discovered.getTime()) / HOUR_MS);
+      const late = reported.getTime() > deadline.getTime();
+      return {
+        status: late ? 'late' : 'met',
+        slaHours,
+        source,
+        deadline,
+        hoursToReport,
+        hoursLate: late ? Math.round((reported.getTime() - deadline.getTime()) / HOUR_MS) : null
+      };
+    }
+
+    const overdue = now.getTime() > deadline.getTime();
+    return {
+      status: overdue ? 'overdue' : 'pending',
+      slaHours,
+      source,
+      deadline,
+      hoursToReport: null,
+      hoursLate: overdue ? Math.round((now.getTime() - deadline.getTime()) / HOUR_MS) : null
+    };
+  }
+
+  /**
+   * Gets the breaches a data recipient reported late, or has not reported past the deadline
+   *
+   * Denied claims are left out, including withdrawn ones, which are closed as denied.
+   *
+   * @param fintechCompanyId - Data recipient the claims were filed against
+   * @param executor - Database or transaction to run queries with
+   */
+  static async getLateNotifications(fintechCompanyId: number, executor: DbExecutor = db): Promise<LateNotification[]> {
+    const rows: Array<{
+      claim: typeof claims.$inferSelect;
+      breach: typeof claimBreaches.$inferSelect;
+    }> = await executor
+      .select({ claim: claims, breach: claimBreaches })
+      .from(claims)
+      .innerJoin(claimBreaches, eq(claimBreaches.claim_id, claims.id))
+      .where(and(eq(claims.fintech_company_id, fintechCompanyId), ne(claims.status, ClaimStatus.DENIED)));
+
+    const lookup = await this.loadSlaLookup(rows.map(row => row.claim.company_id), executor);
+    const now = new Date();
+
+    return rows.flatMap(({ claim, breach }) => {
+      const sla = this.evaluate(claim, breach, lookup, now);
+      if ((sla.status !== 'late' && sla.status !== 'overdue') || !breach.breach_discovered_date) return [];
+
+      return [{
+        claimId: claim.id,
+        claimNumber: claim.claim_id,
+        breachDiscoveredDate: breach.breach_discovered_date,
+        breachReportedDate: breach.breach_reported_date,
+        hoursLate: sla.hoursLate ?? 0
+      }];
+    });
+  }
+
+  /**
+   * Gets the data recipients with breaches on claims that are not denied,
+   * whose late notification deduction can change as deadlines pass
+   *
+   * @param executor - Database or transaction to run queries with
+   */
+  static async getRecipientsWithBreaches(executor: DbExecutor = db): Promise<number[]> {
+    const rows = await executor
+      .selectDistinct({ companyId: claims.fintech_company_id })
+      .from(claims)
+      .innerJoin(claimBreaches, eq(claimBreaches.claim_id, claims.id))
+      .where(ne(claims.status, ClaimStatus.DENIED));
+
+    return rows.flatMap(row => row.companyId === null ? [] : [row.companyId]);
+  }
+}
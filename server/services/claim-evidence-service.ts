@@ -0,0 +1,450 @@
+/**
+ * ========================================
+ * Claim Evidence Service
+ * ========================================
+ *
+ * Evidence attachments for PII data loss claims. Vault files are attached to
+ * a claim, its breach or one of its disputes with a SHA-256 hash of their
+ * content and a snapshot of that content, so later changes to the vault file
+ * do not alter the evidence. Every attach, opening in the browser, download
+ * and export is written to the claim's evidence access log; listing the
+ * evidence is not.
+ *
+ * Key Features:
+ * - Attaches company vault files as evidence with a hash captured at attach time
+ * - Keeps a content-addressed snapshot of each attachment outside the vault
+ * - Verifies the hash of evidence before it is served or exported
+ * - Records the chain of custody in an append-only access log
+ * - Exports a claim and its evidence as a zip with a manifest of hashes
+ * - Purges the evidence and log rows of demo companies when demo data is cleaned up
+ *
+ * @module ClaimEvidenceService
+ * @version 1.0.0
+ * @since 2025-06-05
+ */
+
+import { db, type DbExecutor } from '@db';
+import {
+  claimEvidence,
+  claimEvidenceAccessLog,
+  files,
+  users,
+  companies,
+  EvidenceTarget,
+  EvidenceAccessAction
+} from '@db/schema';
+import { eq, and, or, asc, inArray, sql } from 'drizzle-orm';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import archiver from 'archiver';
+
+export interface AttachEvidenceParams {
+  fileId: number;
+  target: EvidenceTarget;
+  breachId?: number | null;   // Breach of the claim, when the target is the breach
+  disputeId?: number | null;  // Dispute of the claim, when the target is a dispute
+  description?: string | null;
+}
+
+export interface EvidenceActor {
+  userId: number;
+  companyId: number;
+}
+
+export interface EvidenceContent {
+  evidence: ClaimEvidence;
+  content: Buffer;
+  inline: boolean; // Whether the content may be opened in the browser rather than downloaded
+}
+
+export type ClaimEvidence = typeof claimEvidence.$inferSelect;
+
+// Content types evidence may be opened in the browser as; anything else,
+// such as HTML or SVG that could run script, is only served as a download
+export const INLINE_EVIDENCE_TYPES = ['application/pdf', 'image/png', 'image/jpeg'];
+
+// Vault uploads, and the snapshots evidence is served from once attached
+const VAULT_DIR = path.join(process.cwd(), 'uploads', 'documents');
+const EVIDENCE_DIR = path.join(process.cwd(), 'uploads', 'claim-evidence');
+
+/**
+ * Raised when evidence cannot be attached, found or trusted
+ */
+export class ClaimEvidenceError extends Error {
+  constructor(
+    message: string,
+    public code: 'NOT_FOUND' | 'FILE_NOT_FOUND' | 'FILE_UNAVAILABLE' | 'INTEGRITY_FAILED'
+  ) {
+    super(message);
+    this.name = 'ClaimEvidenceError';
+  }
+}
+
+/**
+ * Claim Evidence Service - Immutable evidence attachments and their chain of custody
+ */
+export class ClaimEvidenceService {
+
+  /**
+   * Attaches a vault file to a claim as evidence
+   *
+   * The file must belong to the attaching company. Its content is hashed and
+   * snapshotted before the attachment is recorded.
+   *
+   * @param claimId - Claim the evidence is attached to
+   * @param params - Vault file, target and optional description
+   * @param actor - User and company attaching the file
+   * @returns The evidence row written
+   */
+  static async attach(claimId: number, params: AttachEvidenceParams, actor: EvidenceActor): Promise<ClaimEvidence> {
+    const [file] = await db
+      .select()
+      .from(files)
+      .where(and(eq(files.id, params.fileId), eq(files.company_id, actor.companyId)));
+
+    if (!file) {
+      throw new ClaimEvidenceError('File not found in the company vault', 'FILE_NOT_FOUND');
+    }
+
+    const content = await this.readVaultFile(file);
+    const sha256 = this.hash(content);
+    await this.writeSnapshot(sha256, content);
+
+    const evidence = await db.transaction(async (trx) => {
+      const [created]: ClaimEvidence[] = await trx
+        .insert(claimEvidence)
+        .values({
+          claim_id: claimId,
+          target: params.target,
+          breach_id: params.target === EvidenceTarget.BREACH ? params.breachId ?? null : null,
+          dispute_id: params.target === EvidenceTarget.DISPUTE ? params.disputeId ?? null : null,
+          file_id: file.id,
+          file_name: file.name,
+          file_type: file.type,
+          file_size: content.length,
+          sha256,
+          description: params.description?.trim() || null,
+          attached_by: actor.userId,
+          attached_by_company_id: actor.companyId
+        })
+        .returning();
+
+      await this.logAccess(claimId, created.id, EvidenceAccessAction.ATTACH, actor, trx);
+      return created;
+    });
+
+    console.log('[ClaimEvidenceService] Evidence attached', {
+      claimId,
+      evidenceId: evidence.id,
+      fileId: file.id,
+      target: evidence.target,
+      sha256
+    });
+
+    return evidence;
+  }
+
+  /**
+   * Lists a claim's evidence, oldest first
+   *
+   * Listing reveals no content, so it is not logged; opening or downloading
+   * a piece of evidence is.
+   */
+  static async list(claimId: number) {
+    return this.getEvidence(claimId);
+  }
+
+  /**
+   * Reads one piece of evidence to open or download, after verifying its hash
+   *
+   * @param inline - Open the evidence in the browser, which only content types
+   *                 in INLINE_EVIDENCE_TYPES may be; others are downloaded instead.
+   *                 Logged as a view when opened, otherwise a download.
+   */
+  static async download(
+    claimId: number,
+    evidenceId: number,
+    actor: EvidenceActor,
+    inline = false
+  ): Promise<EvidenceContent> {
+    const [evidence]: ClaimEvidence[] = await db
+      .select()
+      .from(claimEvidence)
+      .where(and(eq(claimEvidence.id, evidenceId), eq(claimEvidence.claim_id, claimId)));
+
+    if (!evidence) {
+      throw new ClaimEvidenceError('Evidence not found', 'NOT_FOUND');
+    }
+
+    const content = await this.readVerified(evidence);
+    const servedInline = inline && INLINE_EVIDENCE_TYPES.includes(evidence.file_type);
+    await this.logAccess(
+      claimId,
+      evidence.id,
+      servedInline ? EvidenceAccessAction.VIEW : EvidenceAccessAction.DOWNLOAD,
+      actor
+    );
+
+    return { evidence, content, inline: servedInline };
+  }
+
+  /**
+   * Gets the chain of custody of a claim's evidence, oldest first
+   */
+  static async getAccessLog(claimId: number) {
+    return db
+      .select({
+        id: claimEvidenceAccessLog.id,
+        claim_id: claimEvidenceAccessLog.claim_id,
+        evidence_id: claimEvidenceAccessLog.evidence_id,
+        action: claimEvidenceAccessLog.action,
+        user_id: claimEvidenceAccessLog.user_id,
+        user_name: users.full_name,
+        company_id: claimEvidenceAccessLog.company_id,
+        company_name: companies.name,
+        created_at: claimEvidenceAccessLog.created_at
+      })
+      .from(claimEvidenceAccessLog)
+      .leftJoin(users, eq(claimEvidenceAccessLog.user_id, users.id))
+      .leftJoin(companies, eq(claimEvidenceAccessLog.company_id, companies.id))
+      .where(eq(claimEvidenceAccessLog.claim_id, claimId))
+      .orderBy(asc(claimEvidenceAccessLog.created_at), asc(claimEvidenceAccessLog.id));
+  }
+
+  /**
+   * Whether a claim has any evidence or evidence access history, which are
+   * immutable and keep the claim from being deleted
+   */
+  static async hasCustodyRecords(claimId: number, executor: DbExecutor = db): Promise<boolean> {
+    const [[evidence], [logEntry]] = await Promise.all([
+      executor.select({ id: claimEvidence.id }).from(claimEvidence).where(eq(claimEvidence.claim_id, claimId)).limit(1),
+      executor.select({ id: claimEvidenceAccessLog.id }).from(claimEvidenceAccessLog).where(eq(claimEvidenceAccessLog.claim_id, claimId)).limit(1)
+    ]);
+
+    return Boolean(evidence || logEntry);
+  }
+
+  /**
+   * Removes the evidence and access log rows that would keep demo companies,
+   * their users or their vault files from being deleted
+   *
+   * Evidence is otherwise immutable; the purge switches the immutability
+   * triggers off for its own transaction only.
+   *
+   * @param companyIds - Demo companies being deleted
+   * @param userIds - Demo users being deleted
+   * @param executor - Transaction of the cleanup, or the database to open one
+   * @returns Number of evidence and log rows removed
+   */
+  static async purgeDemoRecords(
+    companyIds: number[],
+    userIds: number[],
+    executor: DbExecutor = db
+  ): Promise<{ evidence: number; accessLog: number }> {
+    if (companyIds.length === 0 && userIds.length === 0) {
+      return { evidence: 0, accessLog: 0 };
+    }
+
+    const purge = async (trx: DbExecutor) => {
+      await trx.execute(sql`SET LOCAL claim_evidence.allow_purge = 'on'`);
+
+      const companyFiles = companyIds.length > 0
+        ? trx.select({ id: files.id }).from(files).where(inArray(files.company_id, companyIds))
+        : null;
+
+      const evidenceIds = (await trx
+        .select({ id: claimEvidence.id })
+        .from(claimEvidence)
+        .where(or(
+          companyFiles ? inArray(claimEvidence.file_id, companyFiles) : undefined,
+          companyIds.length > 0 ? inArray(claimEvidence.attached_by_company_id, companyIds) : undefined,
+          userIds.length > 0 ? inArray(claimEvidence.attached_by, userIds) : undefined
+        ))).map(row => row.id);
+
+      const accessLog = await trx
+        .delete(claimEvidenceAccessLog)
+        .where(or(
+          evidenceIds.length > 0 ? inArray(claimEvidenceAccessLog.evidence_id, evidenceIds) : undefined,
+          companyIds.length > 0 ? inArray(claimEvidenceAccessLog.company_id, companyIds) : undefined,
+          userIds.length > 0 ? inArray(claimEvidenceAccessLog.user_id, userIds) : undefined
+        ));
+
+      const evidence = evidenceIds.length > 0
+        ? await trx.delete(claimEvidence).where(inArray(claimEvidence.id, evidenceIds))
+        : null;
+
+      return { evidence: evidence?.rowCount ?? 0, accessLog: accessLog.rowCount ?? 0 };
+    };
+
+    const removed = executor === db ? await db.transaction(purge) : await purge(executor);
+    console.log('[ClaimEvidenceService] Demo evidence purged', { companyIds, userIds, ...removed });
+    return removed;
+  }
+
+  /**
+   * Builds a zip of a claim and all its evidence
+   *
+   * The archive holds claim.json, each evidence file under evidence/, the
+   * access log and a manifest.json with the SHA-256 of every entry. Evidence
+   * is verified before the archive is built, so evidence whose content no
+   * longer matches its recorded hash fails the export instead of leaving a
+   * partial archive.
+   *
+   * @param claimId - Claim being exported
+   * @param claimRecord - Claim details to write as claim.json
+   * @param actor - User and company exporting the claim
+   * @returns The archive, streaming once piped to its destination
+   */
+  static async exportClaim(
+    claimId: number,
+    claimRecord: Record<string, any>,
+    actor: EvidenceActor
+  ): Promise<archiver.Archiver> {
+    const evidence = await this.getEvidence(claimId);
+    const contents = await Promise.all(evidence.map(item => this.readVerified(item)));
+
+    await this.logAccess(claimId, null, EvidenceAccessAction.EXPORT, actor);
+    const accessLog = await this.getAccessLog(claimId);
+
+    const claimJson = Buffer.from(JSON.stringify(claimRecord, null, 2));
+    const accessLogJson = Buffer.from(JSON.stringify(accessLog, null, 2));
+
+    const entries = evidence.map(item => ({
+      evidenceId: item.id,
+      path: `evidence/${item.id}-${this.safeFileName(item.file_name)}`,
+      fileName: item.file_name,
+      fileType: item.file_type,
+      fileSize: item.file_size,
+      target: item.target,
+      breachId: item.breach_id,
+      disputeId: item.dispute_id,
+      description: item.description,
+      attachedBy: item.attached_by,
+      attachedByCompanyId: item.attached_by_company_id,
+      attachedAt: item.created_at,
+      sha256: item.sha256
+    }));
+
+    const manifest = {
+      claimId,
+      exportedAt: new Date(),
+      exportedBy: actor.userId,
+      exportedByCompanyId: actor.companyId,
+      algorithm: 'sha256',
+      files: [
+        { path: 'claim.json', sha256: this.hash(claimJson) },
+        { path: 'access-log.json', sha256: this.hash(accessLogJson) },
+        ...entries
+      ]
+    };
+
+    const archive = archiver('zip', { zlib: { level: 9 } });
+    archive.append(claimJson, { name: 'claim.json' });
+    archive.append(accessLogJson, { name: 'access-log.json' });
+    entries.forEach((entry, index) => archive.append(contents[index], { name: entry.path }));
+    archive.append(JSON.stringify(manifest, null, 2), { name: 'manifest.json' });
+
+    // Errors while streaming are emitted on the archive for the consumer to handle
+    archive.finalize().catch(() => undefined);
+
+    console.log('[ClaimEvidenceService] Claim exported', {
+      claimId,
+      evidenceCount: evidence.length,
+      exportedBy: actor.userId
+    });
+
+    return archive;
+  }
+
+  /**
+   * Gets a claim's evidence rows, oldest first
+   */
+  private static async getEvidence(claimId: number): Promise<ClaimEvidence[]> {
+    return db
+      .select()
+      .from(claimEvidence)
+      .where(eq(claimEvidence.claim_id, claimId))
+      .orderBy(asc(claimEvidence.created_at), asc(claimEvidence.id));
+  }
+
+  private static async logAccess(
+    claimId: number,
+    evidenceId: number | null,
+    action: EvidenceAccessAction,
+    actor: EvidenceActor,
+    executor: DbExecutor = db
+  ): Promise<void> {
+    await executor.insert(claimEvidenceAccessLog).values({
+      claim_id: claimId,
+      evidence_id: evidenceId,
+      action,
+      user_id: actor.userId,
+      company_id: actor.companyId
+    });
+  }
+
+  /**
+   * Reads the snapshot of a piece of evidence and checks it against its recorded hash
+   */
+  private static async readVerified(evidence: ClaimEvidence): Promise<Buffer> {
+    let content: Buffer;
+    try {
+      content = await fs.promises.readFile(path.join(EVIDENCE_DIR, evidence.sha256));
+    } catch (error) {
+      console.error('[ClaimEvidenceService] Evidence snapshot missing:', { evidenceId: evidence.id, error });
+      throw new ClaimEvidenceError(`Content of evidence ${evidence.id} is unavailable`, 'FILE_UNAVAILABLE');
+    }
+
+    if (this.hash(content) !== evidence.sha256) {
+      console.error('[ClaimEvidenceService] Evidence hash mismatch', { evidenceId: evidence.id });
+      throw new ClaimEvidenceError(`Content of evidence ${evidence.id} does not match its recorded hash`, 'INTEGRITY_FAILED');
+    }
+
+    return content;
+  }
+
+  /**
+   * Reads a vault file's content, which is either on disk under the vault
+   * directory or, for generated form exports, stored in its path field
+   */
+  private static async readVaultFile(file: typeof files.$inferSelect): Promise<Buffer> {
+    if (file.path.startsWith('database:')) {
+      return Buffer.from(file.path.substring(9));
+    }
+
+    const filePath = path.join(VAULT_DIR, path.basename(file.path));
+    if (fs.existsSync(filePath)) {
+      return fs.promises.readFile(filePath);
+    }
+
+    if ((file.type === 'text/csv' && file.path.includes(',')) || file.path.length > 100) {
+      return Buffer.from(file.path);
+    }
+
+    throw new ClaimEvidenceError('File content is unavailable', 'FILE_UNAVAILABLE');
+  }
+
+  /**
+   * Stores content under its hash; identical content is only stored once
+   */
+  private static async writeSnapshot(sha256: string, content: Buffer): Promise<void> {
+    await fs.promises.mkdir(EVIDENCE_DIR, { recursive: true });
+    const snapshotPath = path.join(EVIDENCE_DIR, sha256);
+
+    if (!fs.existsSync(snapshotPath)) {
+      // Write then rename so a snapshot is never left half-written
+      const tempPath = `${snapshotPath}.${process.pid}.tmp`;
+      await fs.promises.writeFile(tempPath, content, { mode: 0o444 });
+      await fs.promises.rename(tempPath, snapshotPath);
+    }
+  }
+
+  private static hash(content: Buffer): string {
+    return crypto.createHash('sha256').update(content).digest('hex');
+  }
+
+  private static safeFileName(name: string): string {
+    return name.replace(/[^\w.\-]+/g, '_');
+  }
+}
@@ -0,0 +1,358 @@
+/**
+ * ========================================
+ * Claim Import Service
+ * ========================================
+ *
+ * Bulk ingestion of the claim batches banks send as CSV files. Columns are
+ * mapped onto claim and breach fields, bank and FinTech names are matched
+ * against the company registry, and every row is validated and reported on
+ * individually. Valid rows are created in one transaction; a dry run goes
+ * through the same steps and rolls back, previewing exactly what an import
+ * would create.
+ *
+ * Key Features:
+ * - Maps CSV headers, including common aliases, to claim and breach fields
+ * - Validates bank and FinTech names against the registry with findCompanyInRegistry
+ * - Reports per-row errors, including insurance policy coverage failures
+ * - Creates all valid rows in a single transaction
+ * - Dry-run mode previewing claim numbers, matched companies and amounts
+ *
+ * @module ClaimImportService
+ * @version 1.0.0
+ * @since 2025-06-05
+ */
+
+import { db } from '@db';
+import { companies } from '@db/schema';
+import { parse } from 'csv-parse/sync';
+import { findCompanyInRegistry } from './companyMatching';
+import { InsurancePolicyError } from './insurance-policy-service';
+import {
+  ClaimsService,
+  ClaimError,
+  type ClaimAccessor,
+  type CreateClaimParams
+} from './claims-service';
+
+export const MAX_IMPORT_ROWS = 1000;
+
+export interface ImportRowResult {
+  row: number; // Line of the row in the file, counting the header as line 1
+  status: 'valid' | 'created' | 'error';
+  errors: string[];
+  claim?: {
+    claimId: string;
+    bankName: string;
+    fintechName: string;
+    fintechCompanyId: number | null;
+    claimAmount: number;
+    policyNumber: string | null;
+  };
+}
+
+export interface ImportResult {
+  dryRun: boolean;
+  totalRows: number;
+  validRows: number;
+  errorRows: number;
+  created: number;
+  unmappedColumns: string[];
+  rows: ImportRowResult[];
+}
+
+type ImportField = keyof CreateClaimParams;
+
+type RegistryCompany = typeof companies.$inferSelect;
+
+// Accepted headers for each field, compared with case, spaces and punctuation removed
+const COLUMN_ALIASES: Record<Exclude<ImportField, 'fintechCompanyId'>, string[]> = {
+  bankId: ['bankid', 'bankidentifier'],
+  bankName: ['bankname', 'bank', 'dataprovider'],
+  fintechName: ['fintechname', 'fintech', 'datarecipient', 'recipient'],
+  accountNumber: ['accountnumber', 'account'],
+  claimType: ['claimtype', 'type'],
+  claimDate: ['claimdate', 'datefiled', 'fileddate'],
+  claimAmount: ['claimamount', 'amount'],
+  policyNumber: ['policynumber', 'policy', 'policyno'],
+  breachDate: ['breachdate', 'incidentdate'],
+  breachDiscoveredDate: ['breachdiscovereddate', 'discovereddate', 'discoverydate'],
+  breachReportedDate: ['breachreporteddate', 'reporteddate', 'reportdate'],
+  consentId: ['consentid', 'consent'],
+  consentScope: ['consentscope', 'scope'],
+  affectedRecords: ['affectedrecords', 'records', 'recordsaffected'],
+  remediationStatus: ['remediationstatus', 'remediation'],
+  incidentDescription: ['incidentdescription', 'description', 'details']
+};
+
+const REQUIRED_FIELDS: ImportField[] = ['bankId', 'bankName', 'fintechName', 'claimDate', 'breachDate'];
+const DATE_FIELDS: ImportField[] = ['claimDate', 'breachDate', 'breachDiscoveredDate', 'breachReportedDate'];
+
+/**
+ * Raised when a file cannot be imported at all
+ */
+export class ClaimImportError extends Error {
+  constructor(message: string, public code: 'INVALID_CSV' | 'MISSING_COLUMNS' | 'TOO_MANY_ROWS') {
+    super(message);
+    this.name = 'ClaimImportError';
+  }
+}
+
+// Thrown to roll back a dry run once its rows have been previewed
+class DryRunRollback extends Error {}
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Claim Import Service - CSV claim batches validated against the registry
+ */
+export class ClaimImportService {
+
+  /**
+   * Imports a CSV of claims and their breaches
+   *
+   * @param accessor - Bank importing its claims, or Invela importing for banks
+   * @param csv - File content with a header row
+   * @param dryRun - Preview the import without creating anything
+   * @param userId - User running the import
+   * @returns Per-row results and totals
+   */
+  static async importClaims(accessor: ClaimAccessor, csv: string, dryRun: boolean, userId: number): Promise<ImportResult> {
+    const records = this.parseCsv(csv);
+    const headers = Object.keys(records[0] ?? {});
+    const { columns, unmappedColumns } = this.mapColumns(headers);
+
+    const missing = REQUIRED_FIELDS.filter(field => !columns.has(field));
+    if (missing.length > 0) {
+      throw new ClaimImportError(`Missing required columns: ${missing.join(', ')}`, 'MISSING_COLUMNS');
+    }
+
+    // Each name is matched once however many rows use it
+    const registry = new Map<string, Promise<RegistryCompany | null>>();
+    const lookup = (name: string) => {
+      const key = name.trim().toLowerCase();
+      if (!registry.has(key)) {
+        registry.set(key, findCompanyInRegistry(name).then(match => (match.found ? match.company ?? null : null)));
+      }
+      return registry.get(key)!;
+    };
+
+    const rows: ImportRowResult[] = [];
+    const prepared: Array<{ result: ImportRowResult; params: CreateClaimParams; filer: ClaimAccessor }> = [];
+
+    for (const [index, record] of records.entries()) {
+      const result: ImportRowResult = { row: index + 2, status: 'valid', errors: [] };
+      rows.push(result);
+
+      const params = this.readRow(record, columns, result.errors);
+      if (!params) {
+        result.status = 'error';
+        continue;
+      }
+
+      const [bank, fintech] = await Promise.all([lookup(params.bankName), lookup(params.fintechName)]);
+
+      if (!bank) {
+        result.errors.push(`Bank "${params.bankName}" was not found in the registry`);
+      } else if (bank.category !== 'Bank') {
+        result.errors.push(`"${bank.name}" is registered as ${bank.category}, not a bank`);
+      } else if (!accessor.isInvela && bank.id !== accessor.companyId) {
+        result.errors.push(`Claims can only be imported for your own bank, not "${bank.name}"`);
+      }
+
+      if (!fintech) {
+        result.errors.push(`FinTech "${params.fintechName}" was not found in the registry`);
+      } else if (fintech.category !== 'FinTech') {
+        result.errors.push(`"${fintech.name}" is registered as ${fintech.category}, not a FinTech`);
+      }
+
+      if (result.errors.length > 0 || !bank || !fintech) {
+        result.status = 'error';
+        continue;
+      }
+
+      prepared.push({
+        result,
+        params: { ...params, bankName: bank.name, fintechName: fintech.name, fintechCompanyId: fintech.id },
+        // Invela files imported claims on behalf of the bank they belong to
+        filer: accessor.isInvela ? { companyId: bank.id, isInvela: true } : accessor
+      });
+    }
+
+    let created = 0;
+    if (prepared.length > 0) {
+      try {
+        await db.transaction(async (trx) => {
+          for (const { result, params, filer } of prepared) {
+            try {
+              // A savepoint per row, so a row failing its policy checks leaves the others intact
+              const claim = await trx.transaction(tx => ClaimsService.createClaim(filer, params, userId, tx));
+              result.status = dryRun ? 'valid' : 'created';
+              result.claim = {
+                claimId: claim.claim_id,
+                bankName: params.bankName,
+                fintechName: params.fintechName,
+                fintechCompanyId: params.fintechCompanyId ?? null,
+                claimAmount: claim.claim_amount,
+                policyNumber: claim.policy_number
+              };
+            } catch (error) {
+              if (!(error instanceof InsurancePolicyError) && !(error instanceof ClaimError)) throw error;
+              result.status = 'error';
+              result.errors.push(error.message);
+            }
+          }
+
+          created = prepared.filter(({ result }) => result.status === 'created').length;
+          if (dryRun) throw new DryRunRollback();
+        });
+      } catch (error) {
+        if (!(error instanceof DryRunRollback)) throw error;
+      }
+
+      if (!dryRun) {
+        await ClaimsService.refreshRecipientRisk(
+          prepared.filter(({ result }) => result.status === 'created').map(({ params }) => params.fintechCompanyId ?? null)
+        );
+      }
+    }
+
+    const errorRows = rows.filter(row => row.status === 'error').length;
+
+    console.log('[ClaimImportService] Claims import', {
+      dryRun,
+      companyId: accessor.companyId,
+      totalRows: rows.length,
+      created,
+      errorRows
+    });
+
+    return {
+      dryRun,
+      totalRows: rows.length,
+      validRows: rows.length - errorRows,
+      errorRows,
+      created,
+      unmappedColumns,
+      rows
+    };
+  }
+
+  private static parseCsv(csv: string): Record<string, string>[] {
+    let records: Record<string, string>[];
+    try {
+      records = parse(csv, {
+        columns: true,
+        bom: true,
+        skip_empty_lines: true,
+        trim: true,
+        relax_column_count: true
+      });
+    } catch (error) {
+      throw new ClaimImportError(`The file is not valid CSV: ${(error as Error).message}`, 'INVALID_CSV');
+    }
+
+    if (records.length === 0) {
+      throw new ClaimImportError('The file has no claim rows', 'INVALID_CSV');
+    }
+
+    if (records.length > MAX_IMPORT_ROWS) {
+      throw new ClaimImportError(`A file can hold at most ${MAX_IMPORT_ROWS} claims`, 'TOO_MANY_ROWS');
+    }
+
+    return records;
+  }
+
+  /**
+   * Matches the file's headers to the fields they hold
+   */
+  private static mapColumns(headers: string[]) {
+    const columns = new Map<ImportField, string>();
+    const unmappedColumns: string[] = [];
+
+    for (const header of headers) {
+      const normalized = normalizeHeader(header);
+      const field = (Object.keys(COLUMN_ALIASES) as Array<keyof typeof COLUMN_ALIASES>)
+        .find(key => COLUMN_ALIASES[key].includes(normalized));
+
+      if (field && !columns.has(field)) {
+        columns.set(field, header);
+      } else {
+        unmappedColumns.push(header);
+      }
+    }
+
+    return { columns, unmappedColumns };
+  }
+
+  /**
+   * Reads a row into claim parameters, collecting an error per invalid value
+   *
+   * @returns The parameters, or null when the row has errors
+   */
+  private static readRow(
+    record: Record<string, string>,
+    columns: Map<ImportField, string>,
+    errors: string[]
+  ): CreateClaimParams | null {
+    const value = (field: ImportField) => {
+      const header = columns.get(field);
+      const raw = header ? record[header]?.trim() : '';
+      return raw ? raw : null;
+    };
+
+    for (const field of REQUIRED_FIELDS) {
+      if (!value(field)) errors.push(`${field} is required`);
+    }
+
+    const dates: Partial<Record<ImportField, Date | null>> = {};
+    for (const field of DATE_FIELDS) {
+      const raw = value(field);
+      if (!raw) continue;
+      const date = new Date(raw);
+      if (isNaN(date.getTime())) {
+        errors.push(`${field} "${raw}" is not a valid date`);
+      } else {
+        dates[field] = date;
+      }
+    }
+
+    let claimAmount: number | undefined;
+    const rawAmount = value('claimAmount');
+    if (rawAmount) {
+      claimAmount = parseFloat(rawAmount.replace(/[^0-9.\-]/g, ''));
+      if (isNaN(claimAmount) || claimAmount <= 0) {
+        errors.push(`claimAmount "${rawAmount}" is not a positive amount`);
+      }
+    }
+
+    let affectedRecords: number | null = null;
+    const rawRecords = value('affectedRecords');
+    if (rawRecords) {
+      affectedRecords = Number(rawRecords.replace(/,/g, ''));
+      if (!Number.isInteger(affectedRecords) || affectedRecords < 0) {
+        errors.push(`affectedRecords "${rawRecords}" is not a whole number`);
+      }
+    }
+
+    if (errors.length > 0) return null;
+
+    return {
+      bankId: value('bankId')!,
+      bankName: value('bankName')!,
+      fintechName: value('fintechName')!,
+      accountNumber: value('accountNumber'),
+      claimType: value('claimType') ?? undefined,
+      claimDate: dates.claimDate!,
+      claimAmount,
+      policyNumber: value('policyNumber'),
+      breachDate: dates.breachDate!,
+      breachDiscoveredDate: dates.breachDiscoveredDate ?? null,
+      breachReportedDate: dates.breachReportedDate ?? null,
+      consentId: value('consentId'),
+      consentScope: value('consentScope'),
+      affectedRecords,
+      remediationStatus: value('remediationStatus'),
+      incidentDescription: value('incidentDescription')
+    };
+  }
+}
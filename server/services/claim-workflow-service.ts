@@ -0,0 +1,293 @@
+/**
+ * ========================================
+ * Claim Workflow Service
+ * ========================================
+ *
+ * Lifecycle state machine for PII data loss claims. Every status change is
+ * validated against the allowed transitions, written to the claim's status
+ * history with who made it and why, and broadcast to the parties to the
+ * claim.
+ *
+ * Key Features:
+ * - Enforces legal transitions between claim statuses
+ * - Requires a note when a claim is escalated, partially approved or denied
+ * - Closes the claim when it reaches a final status
+ * - Writes a claim_status_history row per change, including the filing
+ * - Broadcasts status changes over WebSocket
+ * - Aggregates history into the transition counts the process flow chart renders
+ *
+ * @module ClaimWorkflowService
+ * @version 1.0.0
+ * @since 2025-06-05
+ */
+
+import { db, type DbExecutor } from '@db';
+import { claims, claimStatusHistory, companies, users, ClaimStatus } from '@db/schema';
+import { eq, or, asc, sql } from 'drizzle-orm';
+import { broadcastClaimUpdate } from '../utils/unified-websocket';
+
+// Statuses each claim status may move to; approved, partially_approved and denied are final
+export const CLAIM_STATUS_TRANSITIONS: Record<ClaimStatus, ClaimStatus[]> = {
+  [ClaimStatus.IN_REVIEW]: [
+    ClaimStatus.PROCESSING,
+    ClaimStatus.PENDING_INFO,
+    ClaimStatus.UNDER_REVIEW,
+    ClaimStatus.ESCALATED,
+    ClaimStatus.DENIED
+  ],
+  [ClaimStatus.PROCESSING]: [
+    ClaimStatus.PENDING_INFO,
+    ClaimStatus.UNDER_REVIEW,
+    ClaimStatus.ESCALATED,
+    ClaimStatus.APPROVED,
+    ClaimStatus.PARTIALLY_APPROVED,
+    ClaimStatus.DENIED
+  ],
+  // A dispute can be resolved while the claim waits for information
+  [ClaimStatus.PENDING_INFO]: [
+    ClaimStatus.PROCESSING,
+    ClaimStatus.UNDER_REVIEW,
+    ClaimStatus.APPROVED,
+    ClaimStatus.PARTIALLY_APPROVED,
+    ClaimStatus.DENIED
+  ],
+  [ClaimStatus.UNDER_REVIEW]: [
+    ClaimStatus.PENDING_INFO,
+    ClaimStatus.ESCALATED,
+    ClaimStatus.APPROVED,
+    ClaimStatus.PARTIALLY_APPROVED,
+    ClaimStatus.DENIED
+  ],
+  [ClaimStatus.ESCALATED]: [
+    ClaimStatus.UNDER_REVIEW,
+    ClaimStatus.APPROVED,
+    ClaimStatus.PARTIALLY_APPROVED,
+    ClaimStatus.DENIED
+  ],
+  [ClaimStatus.APPROVED]: [],
+  [ClaimStatus.PARTIALLY_APPROVED]: [],
+  [ClaimStatus.DENIED]: []
+};
+
+// Statuses that can only be set with a note explaining the decision
+export const NOTE_REQUIRED_STATUSES: ClaimStatus[] = [
+  ClaimStatus.ESCALATED,
+  ClaimStatus.PARTIALLY_APPROVED,
+  ClaimStatus.DENIED
+];
+
+export const FINAL_CLAIM_STATUSES: ClaimStatus[] = Object.entries(CLAIM_STATUS_TRANSITIONS)
+  .filter(([, next]) => next.length === 0)
+  .map(([status]) => status as ClaimStatus);
+
+export interface ClaimStatusChangeParams {
+  claimId: number;
+  toStatus: ClaimStatus;
+  note?: string | null;
+  changedBy: number;
+  changedByCompanyId: number;
+}
+
+export type ClaimStatusChange = typeof claimStatusHistory.$inferSelect;
+
+/**
+ * Raised when a claim status change is not allowed
+ */
+export class ClaimWorkflowError extends Error {
+  constructor(message: string, public code: 'NOT_FOUND' | 'INVALID_TRANSITION' | 'NOTE_REQUIRED') {
+    super(message);
+    this.name = 'ClaimWorkflowError';
+  }
+}
+
+type ClaimRow = typeof claims.$inferSelect;
+
+/**
+ * Claim Workflow Service - Validates and records claim status changes
+ */
+export class ClaimWorkflowService {
+
+  /**
+   * Whether a claim in one status may move to another
+   */
+  static canTransition(from: ClaimStatus, to: ClaimStatus): boolean {
+    return CLAIM_STATUS_TRANSITIONS[from]?.includes(to) ?? false;
+  }
+
+  /**
+   * Moves a claim to a new status and records the change
+   *
+   * When called inside a caller's transaction the change is only broadcast
+   * by the caller, through broadcastStatusChange, once it has committed.
+   *
+   * @param params - Claim, target status, note and the user making the change
+   * @param executor - Database or transaction to write with
+   * @returns The updated claim and the status history row written
+   */
+  static async transition(params: ClaimStatusChangeParams, executor: DbExecutor = db) {
+    const note = params.note?.trim() || null;
+
+    const apply = async (trx: DbExecutor) => {
+      // Lock the claim so concurrent changes are validated against its latest status
+      const [claim]: ClaimRow[] = await trx
+        .select()
+        .from(claims)
+        .where(eq(claims.id, params.claimId))
+        .for('update');
+
+      if (!claim) {
+        throw new ClaimWorkflowError('Claim not found', 'NOT_FOUND');
+      }
+
+      if (!this.canTransition(claim.status, params.toStatus)) {
+        throw new ClaimWorkflowError(
+          `A claim cannot move from ${claim.status} to ${params.toStatus}`,
+          'INVALID_TRANSITION'
+        );
+      }
+
+      if (NOTE_REQUIRED_STATUSES.includes(params.toStatus) && !note) {
+        throw new ClaimWorkflowError(`A note is required to move a claim to ${params.toStatus}`, 'NOTE_REQUIRED');
+      }
+
+      const now = new Date();
+      const [updated]: ClaimRow[] = await trx
+        .update(claims)
+        .set({
+          status: params.toStatus,
+          // A final decision closes the claim
+          is_resolved: claim.is_resolved || FINAL_CLAIM_STATUSES.includes(params.toStatus),
+          updated_at: now
+        })
+        .where(eq(claims.id, claim.id))
+        .returning();
+
+      const [change]: ClaimStatusChange[] = await trx
+        .insert(claimStatusHistory)
+        .values({
+          claim_id: claim.id,
+          from_status: claim.status,
+          to_status: params.toStatus,
+          note,
+          changed_by: params.changedBy,
+          changed_by_company_id: params.changedByCompanyId,
+          created_at: now
+        })
+        .returning();
+
+      return { claim: updated, change };
+    };
+
+    const ownsTransaction = executor === db;
+    const result = ownsTransaction ? await db.transaction(apply) : await apply(executor);
+
+    console.log('[ClaimWorkflowService] Claim status changed', {
+      claimId: result.claim.claim_id,
+      from: result.change.from_status,
+      to: result.change.to_status,
+      changedBy: params.changedBy
+    });
+
+    if (ownsTransaction) {
+      await this.broadcastStatusChange(result.claim, result.change);
+    }
+
+    return result;
+  }
+
+  /**
+   * Records the status a claim was filed in as the start of its history
+   */
+  static async recordFiling(claim: ClaimRow, changedBy: number, changedByCompanyId: number, executor: DbExecutor = db) {
+    const [change]: ClaimStatusChange[] = await executor
+      .insert(claimStatusHistory)
+      .values({
+        claim_id: claim.id,
+        from_status: null,
+        to_status: claim.status,
+        note: 'Claim filed',
+        changed_by: changedBy,
+        changed_by_company_id: changedByCompanyId
+      })
+      .returning();
+
+    return change;
+  }
+
+  /**
+   * Gets the status history of a claim, oldest first
+   */
+  static async getHistory(claimId: number) {
+    return db
+      .select({
+        id: claimStatusHistory.id,
+        claim_id: claimStatusHistory.claim_id,
+        from_status: claimStatusHistory.from_status,
+        to_status: claimStatusHistory.to_status,
+        note: claimStatusHistory.note,
+        changed_by: claimStatusHistory.changed_by,
+        changed_by_name: users.full_name,
+        changed_by_company_id: claimStatusHistory.changed_by_company_id,
+        changed_by_company_name: companies.name,
+        created_at: claimStatusHistory.created_at
+      })
+      .from(claimStatusHistory)
+      .leftJoin(users, eq(claimStatusHistory.changed_by, users.id))
+      .leftJoin(companies, eq(claimStatusHistory.changed_by_company_id, companies.id))
+      .where(eq(claimStatusHistory.claim_id, claimId))
+      .orderBy(asc(claimStatusHistory.created_at), asc(claimStatusHistory.id));
+  }
+
+  /**
+   * Counts the status transitions recorded for the claims a company can see
+   *
+   * @param companyId - Company reading the flow, or null for every claim
+   * @returns Transitions with how often each was taken; filings have a null from status
+   */
+  static async getTransitionCounts(companyId: number | null) {
+    const scope = companyId === null
+      ? undefined
+      : or(eq(claims.company_id, companyId), eq(claims.fintech_company_id, companyId));
+
+    return db
+      .select({
+        from_status: claimStatusHistory.from_status,
+        to_status: claimStatusHistory.to_status,
+        count: sql<number>`count(*)::int`
+      })
+      .from(claimStatusHistory)
+      .innerJoin(claims, eq(claimStatusHistory.claim_id, claims.id))
+      .where(scope)
+      .groupBy(claimStatusHistory.from_status, claimStatusHistory.to_status);
+  }
+
+  /**
+   * Tells the parties to a claim, and Invela, that its status changed
+   */
+  static async broadcastStatusChange(claim: ClaimRow, change: ClaimStatusChange): Promise<void> {
+    try {
+      const invela = await db
+        .select({ id: companies.id })
+        .from(companies)
+        .where(eq(companies.category, 'Invela'));
+
+      const recipients = new Set<number>([claim.company_id, ...invela.map(company => company.id)]);
+      if (claim.fintech_company_id) recipients.add(claim.fintech_company_id);
+
+      broadcastClaimUpdate(
+        {
+          claimId: claim.id,
+          claimNumber: claim.claim_id,
+          fromStatus: change.from_status,
+          status: change.to_status,
+          companyId: claim.company_id,
+          fintechCompanyId: claim.fintech_company_id
+        },
+        client => client.companyId !== undefined && recipients.has(client.companyId)
+      );
+    } catch (error) {
+      // The change is recorded; clients still pick it up on their next fetch
+      console.error('[ClaimWorkflowService] Error broadcasting claim status change:', error);
+    }
+  }
+}
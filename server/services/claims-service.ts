@@ -0,0 +1,1062 @@
+/**
+ * ========================================
+ * Claims Service
+ * ========================================
+ *
+ * Company-scoped persistence for PII data loss claims and their breach,
+ * dispute and resolution details. A claim is visible to the company that
+ * filed it, to the data recipient it is filed against and to Invela.
+ *
+ * Key Features:
+ * - Creates claims with their breach details in one transaction
+ * - Lists claims with status, view, search and date filters and pagination
+ * - Joins each claim to its breach, latest dispute and latest resolution
+ * - Reports each claim's breach notification SLA status and re-applies the
+ *   data recipient's late notification deduction when its claims change
+ * - Validates claims against their insurance policy and calculates their amount
+ * - Files disputes and records dispute resolutions with a proposed liability split
+ * - Moves claims through their status lifecycle via ClaimWorkflowService
+ * - Attaches and exports claim evidence via ClaimEvidenceService
+ *
+ * @module ClaimsService
+ * @version 1.0.0
+ * @since 2025-06-05
+ */
+
+import { db, type DbExecutor } from '@db';
+import {
+  claims,
+  claimBreaches,
+  claimDisputes,
+  claimResolutions,
+  claimStatusHistory,
+  companies,
+  ClaimStatus,
+  ResolutionType,
+  EvidenceTarget,
+  type DisputeReasonType
+} from '@db/schema';
+import { eq, and, or, desc, inArray, ilike, gte, lte, sql, type SQL } from 'drizzle-orm';
+import { ClaimWorkflowService, FINAL_CLAIM_STATUSES } from './claim-workflow-service';
+import { getNetworkCompanyIds } from './company-service';
+import { BreachNotificationSlaService } from './breach-notification-sla-service';
+import { ClaimEvidenceService, type EvidenceActor } from './claim-evidence-service';
+import { InsurancePolicyService } from './insurance-policy-service';
+import { calculateLiabilityAllocation, buildAllocation, type LiabilityAllocation } from './liabilityAllocation';
+import { refreshLateNotificationDeduction } from './riskClusters';
+
+export type ClaimView = 'active' | 'disputed' | 'resolved';
+
+export interface ClaimAccessor {
+  companyId: number;
+  isInvela: boolean;
+}
+
+export interface ClaimListFilters {
+  view?: ClaimView;
+  statuses?: ClaimStatus[];
+  search?: string;
+  from?: Date;
+  to?: Date;
+  page?: number;
+  pageSize?: number;
+}
+
+export interface CreateClaimParams {
+  bankId: string;
+  bankName: string;
+  fintechName: string;
+  fintechCompanyId?: number | null;
+  accountNumber?: string | null;
+  claimType?: string;
+  claimDate: Date;
+  claimAmount?: number;
+  policyNumber?: string | null;
+  breachDate: Date;
+  breachDiscoveredDate?: Date | null;
+  breachReportedDate?: Date | null;
+  consentId?: string | null;
+  consentScope?: string | null;
+  affectedRecords?: number | null;
+  remediationStatus?: string | null;
+  incidentDescription?: string | null;
+}
+
+export type UpdateClaimParams = Partial<Omit<CreateClaimParams, 'bankId' | 'fintechCompanyId'>>;
+
+export interface FileDisputeParams {
+  disputeReason: DisputeReasonType;
+  disputeDetails?: string | null;
+  disputeDate?: Date;
+}
+
+export interface ResolveDisputeParams {
+  resolutionType?: ResolutionType;          // Defaults to the type suggested for the final split
+  fintechLiabilityPercent?: number;         // Defaults to the proposed split
+  paymentAmount?: number | null;            // Defaults to the payment for the final split
+  overrideReason?: string | null;           // Required when the split or payment differs from the proposal
+  resolutionDecision?: string | null;
+  resolutionNotes?: string | null;
+}
+
+export interface AttachClaimEvidenceParams {
+  fileId: number;
+  target: EvidenceTarget;
+  disputeId?: number | null; // Required when the target is a dispute
+  description?: string | null;
+}
+
+export const DEFAULT_CLAIM_PAGE_SIZE = 25;
+export const MAX_CLAIM_PAGE_SIZE = 100;
+
+// Claim status set when a dispute is resolved with each resolution type
+const RESOLUTION_STATUS: Record<ResolutionType, ClaimStatus> = {
+  [ResolutionType.FULL_PAYMENT]: ClaimStatus.APPROVED,
+  [ResolutionType.PARTIAL_PAYMENT]: ClaimStatus.PARTIALLY_APPROVED,
+  [ResolutionType.POLICY_EXCLUSION]: ClaimStatus.DENIED,
+  [ResolutionType.CLAIM_WITHDRAWN]: ClaimStatus.DENIED
+};
+
+/**
+ * Raised when a claim cannot be read or changed
+ */
+export class ClaimError extends Error {
+  constructor(message: string, public code: 'NOT_FOUND' | 'FORBIDDEN' | 'INVALID_STATE' | 'INVALID_ALLOCATION' | 'INVALID_CLAIM') {
+    super(message);
+    this.name = 'ClaimError';
+  }
+}
+
+type ClaimRow = typeof claims.$inferSelect;
+
+/**
+ * Claims Service - Company-scoped claims, disputes and resolutions
+ */
+export class ClaimsService {
+
+  /**
+   * Lists the claims visible to a company
+   *
+   * @param accessor - Company reading the claims
+   * @param filters - View, status, search and date filters and the page to return
+   * @returns The page of claims with their details, and the total count
+   */
+  static async listClaims(accessor: ClaimAccessor, filters: ClaimListFilters = {}) {
+    const page = Math.max(1, filters.page || 1);
+    const pageSize = Math.min(MAX_CLAIM_PAGE_SIZE, Math.max(1, filters.pageSize || DEFAULT_CLAIM_PAGE_SIZE));
+
+    const conditions: SQL[] = [];
+    const scope = this.scopeCondition(accessor);
+    if (scope) conditions.push(scope);
+
+    if (filters.view === 'active') {
+      conditions.push(eq(claims.is_resolved, false), eq(claims.is_disputed, false));
+    } else if (filters.view === 'disputed') {
+      conditions.push(eq(claims.is_disputed, true), eq(claims.is_resolved, false));
+    } else if (filters.view === 'resolved') {
+      conditions.push(eq(claims.is_resolved, true));
+    }
+
+    if (filters.statuses && filters.statuses.length > 0) {
+      conditions.push(inArray(claims.status, filters.statuses));
+    }
+
+    if (filters.search) {
+      const pattern = `%${filters.search}%`;
+      conditions.push(or(
+        ilike(claims.claim_id, pattern),
+        ilike(claims.bank_name, pattern),
+        ilike(claims.fintech_name, pattern),
+        ilike(claims.account_number, pattern),
+        ilike(claims.policy_number, pattern)
+      )!);
+    }
+
+    if (filters.from) conditions.push(gte(claims.claim_date, filters.from));
+    if (filters.to) conditions.push(lte(claims.claim_date, filters.to));
+
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const [{ count }] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(claims)
+      .where(where);
+
+    const rows = await db
+      .select()
+      .from(claims)
+      .where(where)
+      .orderBy(desc(claims.claim_date), desc(claims.id))
+      .limit(pageSize)
+      .offset((page - 1) * pageSize);
+
+    return {
+      data: await this.withDetails(rows),
+      pagination: {
+        page,
+        pageSize,
+        totalItems: count,
+        totalPages: Math.ceil(count / pageSize)
+      }
+    };
+  }
+
+  /**
+   * Gets a claim with its breach, disputes and resolutions
+   *
+   * @param accessor - Company reading the claim
+   * @param reference - Numeric claim ID or claim number (CLM-YYYY-XXX)
+   */
+  static async getClaim(accessor: ClaimAccessor, reference: string) {
+    const claim = await this.findAccessibleClaim(accessor, reference);
+    const [detailed] = await this.withDetails([claim]);
+
+    const disputes = await db
+      .select()
+      .from(claimDisputes)
+      .where(eq(claimDisputes.claim_id, claim.id))
+      .orderBy(desc(claimDisputes.dispute_date));
+
+    const resolutions = await db
+      .select()
+      .from(claimResolutions)
+      .where(eq(claimResolutions.claim_id, claim.id))
+      .orderBy(desc(claimResolutions.resolution_date));
+
+    return { ...detailed, disputes, resolutions };
+  }
+
+  /**
+   * Files a claim with its breach details
+   *
+   * Banks file claims in their own name against FinTechs in their network;
+   * Invela may file for any bank.
+   *
+   * @param accessor - Company filing the claim
+   * @param params - Claim and breach details
+   * @param userId - User filing the claim
+   * @param executor - Database or transaction to write with
+   * @returns The created claim with its details
+   */
+  static async createClaim(accessor: ClaimAccessor, params: CreateClaimParams, userId: number, executor: DbExecutor = db) {
+    const { bankName, fintechCompanyId } = await this.resolveParties(accessor, params, executor);
+
+    const claimType = params.claimType || 'PII Data Loss';
+
+    const write = async (trx: DbExecutor) => {
+      // Claims under a policy are validated against it and priced from their affected records
+      const coverage = await InsurancePolicyService.assessClaim({
+        filingCompanyId: accessor.companyId,
+        isInvela: accessor.isInvela,
+        policyNumber: params.policyNumber || null,
+        fintechCompanyId,
+        claimType,
+        breachDate: params.breachDate,
+        affectedRecords: params.affectedRecords ?? null
+      }, trx);
+
+      if (!coverage && params.claimAmount === undefined) {
+        throw new ClaimError('A claim amount is required when no insurance policy covers the claim', 'INVALID_CLAIM');
+      }
+
+      const claimNumber = await this.nextClaimNumber(params.claimDate, trx);
+
+      const [claim] = await trx
+        .insert(claims)
+        .values({
+          claim_id: claimNumber,
+          bank_id: params.bankId,
+          bank_name: bankName,
+          fintech_name: params.fintechName,
+          fintech_company_id: fintechCompanyId ?? coverage?.policy.fintech_company_id ?? null,
+          account_number: params.accountNumber || null,
+          claim_type: claimType,
+          claim_date: params.claimDate,
+          claim_amount: coverage ? coverage.claimAmount : params.claimAmount,
+          status: ClaimStatus.IN_REVIEW,
+          policy_number: coverage ? coverage.policy.policy_number : params.policyNumber || null,
+          policy_id: coverage?.policy.id ?? null,
+          company_id: accessor.companyId,
+          created_by: userId
+        })
+        .returning();
+
+      await trx
+        .insert(claimBreaches)
+        .values({
+          claim_id: claim.id,
+          breach_date: params.breachDate,
+          breach_discovered_date: params.breachDiscoveredDate ?? null,
+          breach_reported_date: params.breachReportedDate ?? null,
+          consent_id: params.consentId || null,
+          consent_scope: params.consentScope || null,
+          affected_records: params.affectedRecords ?? null,
+          remediation_status: params.remediationStatus || null,
+          incident_description: params.incidentDescription || null
+        });
+
+      await ClaimWorkflowService.recordFiling(claim, userId, accessor.companyId, trx);
+
+      return claim as ClaimRow;
+    };
+
+    // Join the caller's transaction when given one, otherwise open our own;
+    // a caller with its own transaction refreshes the recipient's risk once it commits
+    const ownsTransaction = executor === db;
+    const claim = ownsTransaction ? await db.transaction(write) : await write(executor);
+    if (ownsTransaction) {
+      await this.refreshRecipientRisk([claim.fintech_company_id]);
+    }
+
+    console.log('[ClaimsService] Claim created', {
+      claimId: claim.claim_id,
+      id: claim.id,
+      companyId: accessor.companyId,
+      fintechCompanyId: claim.fintech_company_id,
+      policyId: claim.policy_id,
+      claimAmount: claim.claim_amount
+    });
+
+    const [detailed] = await this.withDetails([claim], executor);
+    return detailed;
+  }
+
+  /**
+   * Updates the details of an unresolved claim filed by the company
+   */
+  static async updateClaim(accessor: ClaimAccessor, reference: string, params: UpdateClaimParams) {
+    const claim = await this.findAccessibleClaim(accessor, reference);
+    this.assertFiledBy(accessor, claim);
+
+    if (claim.is_resolved) {
+      throw new ClaimError('Resolved claims cannot be changed', 'INVALID_STATE');
+    }
+
+    const now = new Date();
+    const fintechCompanyId = await db.transaction(async (trx) => {
+      const claimUpdate: Partial<ClaimRow> = { updated_at: now };
+      const [breach] = await trx
+        .select()
+        .from(claimBreaches)
+        .where(eq(claimBreaches.claim_id, claim.id));
+
+      // A bank's claims keep its registered name and link only to FinTechs in its network
+      if (params.bankName !== undefined && accessor.isInvela) claimUpdate.bank_name = params.bankName;
+      if (params.fintechName !== undefined) {
+        const networkIds = accessor.isInvela ? null : await getNetworkCompanyIds(claim.company_id);
+        claimUpdate.fintech_name = params.fintechName;
+        claimUpdate.fintech_company_id = await this.findFintechIdByName(params.fintechName, networkIds, trx);
+      }
+      if (params.accountNumber !== undefined) claimUpdate.account_number = params.accountNumber;
+      if (params.claimType !== undefined) claimUpdate.claim_type = params.claimType;
+      if (params.claimDate !== undefined) claimUpdate.claim_date = params.claimDate;
+      if (params.claimAmount !== undefined) claimUpdate.claim_amount = params.claimAmount;
+      if (params.policyNumber !== undefined) claimUpdate.policy_number = params.policyNumber;
+
+      // Re-assess coverage whenever a detail it depends on changes
+      const coverageChanged = [
+        params.policyNumber,
+        params.fintechName,
+        params.claimType,
+        params.breachDate,
+        params.affectedRecords
+      ].some(value => value !== undefined);
+
+      if (coverageChanged) {
+        const coverage = await InsurancePolicyService.assessClaim({
+          filingCompanyId: claim.company_id,
+          isInvela: accessor.isInvela,
+          policyNumber: (params.policyNumber !== undefined ? params.policyNumber : claim.policy_number) || null,
+          fintechCompanyId: claimUpdate.fintech_company_id !== undefined
+            ? claimUpdate.fintech_company_id
+            : claim.fintech_company_id,
+          claimType: params.claimType ?? claim.claim_type,
+          breachDate: params.breachDate ?? breach?.breach_date ?? claim.claim_date,
+          affectedRecords: params.affectedRecords !== undefined
+            ? params.affectedRecords ?? null
+            : breach?.affected_records ?? null,
+          excludeClaimId: claim.id
+        }, trx);
+
+        claimUpdate.policy_id = coverage?.policy.id ?? null;
+        if (coverage) {
+          claimUpdate.policy_number = coverage.policy.policy_number;
+          claimUpdate.claim_amount = coverage.claimAmount;
+        }
+      } else if (claim.policy_id !== null) {
+        // Amounts of claims under a policy are calculated, not entered
+        delete claimUpdate.claim_amount;
+      }
+
+      await trx.update(claims).set(claimUpdate).where(eq(claims.id, claim.id));
+
+      const breachUpdate: Record<string, unknown> = {};
+      if (params.breachDate !== undefined) breachUpdate.breach_date = params.breachDate;
+      if (params.breachDiscoveredDate !== undefined) breachUpdate.breach_discovered_date = params.breachDiscoveredDate;
+      if (params.breachReportedDate !== undefined) breachUpdate.breach_reported_date = params.breachReportedDate;
+      if (params.consentId !== undefined) breachUpdate.consent_id = params.consentId;
+      if (params.consentScope !== undefined) breachUpdate.consent_scope = params.consentScope;
+      if (params.affectedRecords !== undefined) breachUpdate.affected_records = params.affectedRecords;
+      if (params.remediationStatus !== undefined) breachUpdate.remediation_status = params.remediationStatus;
+      if (params.incidentDescription !== undefined) breachUpdate.incident_description = params.incidentDescription;
+
+      if (Object.keys(breachUpdate).length > 0) {
+        await trx
+          .update(claimBreaches)
+          .set({ ...breachUpdate, updated_at: now })
+          .where(eq(claimBreaches.claim_id, claim.id));
+      }
+
+      return claimUpdate.fintech_company_id !== undefined ? claimUpdate.fintech_company_id : claim.fintech_company_id;
+    });
+
+    console.log('[ClaimsService] Claim updated', { claimId: claim.claim_id, companyId: accessor.companyId });
+
+    await this.refreshRecipientRisk([claim.fintech_company_id, fintechCompanyId]);
+
+    return this.getClaim(accessor, String(claim.id));
+  }
+
+  /**
+   * Deletes a claim that has not been disputed or resolved
+   */
+  static async deleteClaim(accessor: ClaimAccessor, reference: string): Promise<void> {
+    const claim = await this.findAccessibleClaim(accessor, reference);
+    this.assertFiledBy(accessor, claim);
+
+    if (claim.is_disputed || claim.is_resolved) {
+      throw new ClaimError('Disputed or resolved claims cannot be deleted', 'INVALID_STATE');
+    }
+
+    // Evidence and its access log are immutable, so a claim with either is kept
+    if (await ClaimEvidenceService.hasCustodyRecords(claim.id)) {
+      throw new ClaimError('Claims with evidence or an evidence access history cannot be deleted', 'INVALID_STATE');
+    }
+
+    await db.transaction(async (trx) => {
+      await trx.delete(claimBreaches).where(eq(claimBreaches.claim_id, claim.id));
+      await trx.delete(claimStatusHistory).where(eq(claimStatusHistory.claim_id, claim.id));
+      await trx.delete(claims).where(eq(claims.id, claim.id));
+    });
+
+    console.log('[ClaimsService] Claim deleted', { claimId: claim.claim_id, companyId: accessor.companyId });
+
+    await this.refreshRecipientRisk([claim.fintech_company_id]);
+  }
+
+  /**
+   * Re-applies the late breach notification deduction of data recipients
+   * whose claims changed
+   *
+   * Failures are logged rather than thrown, since the claim change itself
+   * has already been committed.
+   *
+   * @param fintechCompanyIds - Data recipients of the changed claims; nulls are skipped
+   */
+  static async refreshRecipientRisk(fintechCompanyIds: Array<number | null>): Promise<void> {
+    for (const companyId of new Set(fintechCompanyIds)) {
+      if (companyId === null) continue;
+
+      try {
+        await refreshLateNotificationDeduction(companyId);
+      } catch (error) {
+        console.error('[ClaimsService] Error refreshing late notification deduction', {
+          companyId,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+  }
+
+  /**
+   * Files a dispute against a claim
+   *
+   * Either party to the claim may dispute it while it is unresolved. The
+   * claim moves to under_review unless it is already under review or escalated.
+   */
+  static async fileDispute(accessor: ClaimAccessor, reference: string, params: FileDisputeParams, userId: number) {
+    const claim = await this.findAccessibleClaim(accessor, reference);
+
+    if (claim.is_resolved) {
+      throw new ClaimError('Resolved claims cannot be disputed', 'INVALID_STATE');
+    }
+
+    const now = new Date();
+    const moveToReview = claim.status !== ClaimStatus.UNDER_REVIEW && claim.status !== ClaimStatus.ESCALATED;
+
+    const { dispute, statusChange } = await db.transaction(async (trx) => {
+      const [created] = await trx
+        .insert(claimDisputes)
+        .values({
+          claim_id: claim.id,
+          dispute_reason: params.disputeReason,
+          dispute_details: params.disputeDetails || null,
+          dispute_date: params.disputeDate || now
+        })
+        .returning();
+
+      await trx
+        .update(claims)
+        .set({ is_disputed: true, updated_at: now })
+        .where(eq(claims.id, claim.id));
+
+      const change = moveToReview
+        ? await ClaimWorkflowService.transition({
+            claimId: claim.id,
+            toStatus: ClaimStatus.UNDER_REVIEW,
+            note: `Disputed: ${params.disputeReason}`,
+            changedBy: userId,
+            changedByCompanyId: accessor.companyId
+          }, trx)
+        : null;
+
+      return { dispute: created, statusChange: change };
+    });
+
+    if (statusChange) {
+      await ClaimWorkflowService.broadcastStatusChange(statusChange.claim, statusChange.change);
+    }
+
+    console.log('[ClaimsService] Dispute filed', {
+      claimId: claim.claim_id,
+      disputeId: dispute.id,
+      companyId: accessor.companyId
+    });
+
+    return dispute;
+  }
+
+  /**
+   * Gets a claim with its latest dispute, for the dispute review page
+   *
+   * @param reference - Numeric claim ID or claim number
+   */
+  static async getDispute(accessor: ClaimAccessor, reference: string) {
+    const claim = await this.getClaim(accessor, reference);
+
+    if (!claim.dispute) {
+      throw new ClaimError('Claim has not been disputed', 'NOT_FOUND');
+    }
+
+    return claim;
+  }
+
+  /**
+   * Proposes how liability for a dispute is split between bank and FinTech
+   *
+   * @param disputeId - ID of the dispute
+   * @returns The proposed split and payment, with the factors behind them
+   */
+  static async proposeAllocation(accessor: ClaimAccessor, disputeId: number) {
+    const { dispute, claim } = await this.findAccessibleDispute(accessor, disputeId);
+    const allocation = await this.calculateAllocation(dispute, claim);
+
+    return {
+      disputeId: dispute.id,
+      claimId: claim.id,
+      claimAmount: claim.claim_amount,
+      ...allocation
+    };
+  }
+
+  /**
+   * Resolves a dispute, recording the liability decision and the resolution
+   * of its claim
+   *
+   * The resolution takes the proposed liability split unless the adjudicator
+   * overrides the split or payment, which requires a reason. The proposal,
+   * its factors and any override are stored on the resolution.
+   *
+   * Only Invela can resolve a dispute, so neither party rules on its own
+   * claim; the disputing parties can only add statements and evidence.
+   *
+   * @param disputeId - ID of the dispute to resolve
+   */
+  static async resolveDispute(accessor: ClaimAccessor, disputeId: number, params: ResolveDisputeParams, userId: number) {
+    const { dispute, claim } = await this.findAccessibleDispute(accessor, disputeId);
+
+    if (!accessor.isInvela) {
+      throw new ClaimError('Only Invela can resolve a dispute', 'FORBIDDEN');
+    }
+
+    if (claim.is_resolved) {
+      throw new ClaimError('Claim is already resolved', 'INVALID_STATE');
+    }
+
+    const proposal = await this.calculateAllocation(dispute, claim);
+    const allocation = params.fintechLiabilityPercent !== undefined
+      ? buildAllocation(params.fintechLiabilityPercent, claim.claim_amount, proposal.factors)
+      : proposal;
+    const paymentAmount = params.paymentAmount ?? allocation.paymentAmount;
+
+    const overridden = allocation.fintechPercent !== proposal.fintechPercent ||
+      paymentAmount !== proposal.paymentAmount;
+    const overrideReason = params.overrideReason?.trim() || null;
+
+    if (overridden && !overrideReason) {
+      throw new ClaimError('A reason is required to override the proposed liability allocation', 'INVALID_ALLOCATION');
+    }
+
+    if (paymentAmount > claim.claim_amount) {
+      throw new ClaimError('The payment cannot exceed the claim amount', 'INVALID_ALLOCATION');
+    }
+
+    const resolutionType = params.resolutionType ?? allocation.suggestedResolutionType;
+    const now = new Date();
+    const status = RESOLUTION_STATUS[resolutionType];
+
+    const reasoning = {
+      proposed: {
+        bankPercent: proposal.bankPercent,
+        fintechPercent: proposal.fintechPercent,
+        paymentAmount: proposal.paymentAmount,
+        suggestedResolutionType: proposal.suggestedResolutionType
+      },
+      factors: proposal.factors,
+      overridden,
+      overrideReason,
+      decidedBy: userId,
+      decidedAt: now.toISOString()
+    };
+
+    const { resolution, statusChange } = await db.transaction(async (trx) => {
+      await trx
+        .update(claimDisputes)
+        .set({
+          resolution_decision: params.resolutionDecision ?? resolutionType,
+          bank_liable: allocation.bankLiable,
+          fintech_liable: allocation.fintechLiable,
+          shared_liability: allocation.sharedLiability,
+          resolution_notes: params.resolutionNotes ?? null,
+          updated_at: now
+        })
+        .where(eq(claimDisputes.id, dispute.id));
+
+      const [created] = await trx
+        .insert(claimResolutions)
+        .values({
+          claim_id: claim.id,
+          resolution_type: resolutionType,
+          resolution_date: now,
+          payment_amount: paymentAmount,
+          resolution_notes: params.resolutionNotes ?? null,
+          bank_liability_percent: allocation.bankPercent,
+          fintech_liability_percent: allocation.fintechPercent,
+          liability_reasoning: reasoning
+        })
+        .returning();
+
+      const change = await ClaimWorkflowService.transition({
+        claimId: claim.id,
+        toStatus: status,
+        note: params.resolutionNotes || overrideReason || params.resolutionDecision ||
+          `Dispute resolved with ${resolutionType}: ${allocation.bankPercent}% bank, ${allocation.fintechPercent}% FinTech`,
+        changedBy: userId,
+        changedByCompanyId: accessor.companyId
+      }, trx);
+
+      return { resolution: created, statusChange: change };
+    });
+
+    await ClaimWorkflowService.broadcastStatusChange(statusChange.claim, statusChange.change);
+
+    console.log('[ClaimsService] Dispute resolved', {
+      claimId: claim.claim_id,
+      disputeId: dispute.id,
+      resolutionId: resolution.id,
+      status,
+      fintechPercent: allocation.fintechPercent,
+      overridden
+    });
+
+    return resolution;
+  }
+
+  /**
+   * Moves a claim to a new status
+   *
+   * Only Invela or the company that filed the claim can change its status,
+   * and only Invela can approve or deny it, so no party decides its own claim.
+   */
+  static async updateStatus(
+    accessor: ClaimAccessor,
+    reference: string,
+    toStatus: ClaimStatus,
+    note: string | null | undefined,
+    userId: number
+  ) {
+    const claim = await this.findAccessibleClaim(accessor, reference);
+    this.assertFiledBy(accessor, claim);
+
+    if (!accessor.isInvela && FINAL_CLAIM_STATUSES.includes(toStatus)) {
+      throw new ClaimError('Only Invela can approve or deny a claim', 'FORBIDDEN');
+    }
+
+    const { change } = await ClaimWorkflowService.transition({
+      claimId: claim.id,
+      toStatus,
+      note,
+      changedBy: userId,
+      changedByCompanyId: accessor.companyId
+    });
+
+    return change;
+  }
+
+  /**
+   * Gets the status history of a claim the company can see, oldest first
+   */
+  static async getStatusHistory(accessor: ClaimAccessor, reference: string) {
+    const claim = await this.findAccessibleClaim(accessor, reference);
+    return ClaimWorkflowService.getHistory(claim.id);
+  }
+
+  /**
+   * Counts the status transitions taken by the claims the company can see
+   */
+  static async getStatusFlow(accessor: ClaimAccessor) {
+    return ClaimWorkflowService.getTransitionCounts(accessor.isInvela ? null : accessor.companyId);
+  }
+
+  /**
+   * Attaches a file from the company's vault to a claim, its breach or one of its disputes
+   *
+   * Either party to the claim, or Invela, may attach evidence while the claim
+   * is unresolved. Attached evidence cannot be changed or removed.
+   *
+   * @param accessor - Company attaching the file
+   * @param reference - Numeric claim ID or claim number
+   * @param params - Vault file, target and optional description
+   * @param userId - User attaching the file
+   */
+  static async attachEvidence(
+    accessor: ClaimAccessor,
+    reference: string,
+    params: AttachClaimEvidenceParams,
+    userId: number
+  ) {
+    const claim = await this.findAccessibleClaim(accessor, reference);
+
+    if (claim.is_resolved) {
+      throw new ClaimError('Evidence cannot be attached to resolved claims', 'INVALID_STATE');
+    }
+
+    let breachId: number | null = null;
+    let disputeId: number | null = null;
+
+    if (params.target === EvidenceTarget.BREACH) {
+      const [breach] = await db
+        .select({ id: claimBreaches.id })
+        .from(claimBreaches)
+        .where(eq(claimBreaches.claim_id, claim.id));
+
+      if (!breach) {
+        throw new ClaimError('This claim has no breach details to attach evidence to', 'INVALID_STATE');
+      }
+      breachId = breach.id;
+    }
+
+    if (params.target === EvidenceTarget.DISPUTE) {
+      const [dispute] = params.disputeId
+        ? await db
+          .select({ id: claimDisputes.id })
+          .from(claimDisputes)
+          .where(and(eq(claimDisputes.id, params.disputeId), eq(claimDisputes.claim_id, claim.id)))
+        : [];
+
+      if (!dispute) {
+        throw new ClaimError('Dispute not found on this claim', 'NOT_FOUND');
+      }
+      disputeId = dispute.id;
+    }
+
+    return ClaimEvidenceService.attach(
+      claim.id,
+      {
+        fileId: params.fileId,
+        target: params.target,
+        breachId,
+        disputeId,
+        description: params.description
+      },
+      this.evidenceActor(accessor, userId)
+    );
+  }
+
+  /**
+   * Lists the evidence attached to a claim the company can see
+   */
+  static async listEvidence(accessor: ClaimAccessor, reference: string) {
+    const claim = await this.findAccessibleClaim(accessor, reference);
+    return ClaimEvidenceService.list(claim.id);
+  }
+
+  /**
+   * Reads one piece of a claim's evidence, verified against its recorded hash
+   *
+   * @param inline - Open it in the browser rather than download it; only PDFs and images are opened
+   */
+  static async downloadEvidence(
+    accessor: ClaimAccessor,
+    reference: string,
+    evidenceId: number,
+    userId: number,
+    inline = false
+  ) {
+    const claim = await this.findAccessibleClaim(accessor, reference);
+    return ClaimEvidenceService.download(claim.id, evidenceId, this.evidenceActor(accessor, userId), inline);
+  }
+
+  /**
+   * Gets the chain of custody of a claim's evidence
+   */
+  static async getEvidenceLog(accessor: ClaimAccessor, reference: string) {
+    const claim = await this.findAccessibleClaim(accessor, reference);
+    return ClaimEvidenceService.getAccessLog(claim.id);
+  }
+
+  /**
+   * Builds a zip of a claim, its status history and all its evidence
+   *
+   * @returns The claim number, for naming the archive, and the archive to stream
+   */
+  static async exportClaim(accessor: ClaimAccessor, reference: string, userId: number) {
+    const claim = await this.getClaim(accessor, reference);
+    const history = await ClaimWorkflowService.getHistory(claim.id);
+
+    const archive = await ClaimEvidenceService.exportClaim(
+      claim.id,
+      { ...claim, status_history: history },
+      this.evidenceActor(accessor, userId)
+    );
+
+    return { claimNumber: claim.claim_id, archive };
+  }
+
+  /**
+   * Finds a dispute and its claim, if the company may see the claim
+   */
+  private static async findAccessibleDispute(accessor: ClaimAccessor, disputeId: number) {
+    const [dispute] = await db
+      .select()
+      .from(claimDisputes)
+      .where(eq(claimDisputes.id, disputeId));
+
+    if (!dispute) {
+      throw new ClaimError('Dispute not found', 'NOT_FOUND');
+    }
+
+    const claim = await this.findAccessibleClaim(accessor, String(dispute.claim_id));
+    return { dispute, claim };
+  }
+
+  /**
+   * Runs the liability engine over a dispute and its claim's breach details
+   */
+  private static async calculateAllocation(
+    dispute: typeof claimDisputes.$inferSelect,
+    claim: ClaimRow
+  ): Promise<LiabilityAllocation> {
+    const [breach] = await db
+      .select()
+      .from(claimBreaches)
+      .where(eq(claimBreaches.claim_id, claim.id));
+    const slaLookup = await BreachNotificationSlaService.loadSlaLookup([claim.company_id]);
+
+    return calculateLiabilityAllocation({
+      disputeReason: dispute.dispute_reason,
+      claimAmount: claim.claim_amount,
+      claimType: claim.claim_type,
+      breachDate: breach?.breach_date ?? null,
+      breachDiscoveredDate: breach?.breach_discovered_date ?? null,
+      breachReportedDate: breach?.breach_reported_date ?? null,
+      notificationSlaHours: BreachNotificationSlaService.evaluate(claim, breach ?? null, slaLookup).slaHours,
+      consentId: breach?.consent_id ?? null,
+      consentScope: breach?.consent_scope ?? null
+    });
+  }
+
+  /**
+   * Finds a claim by numeric ID or claim number, if the company may see it
+   */
+  private static async findAccessibleClaim(accessor: ClaimAccessor, reference: string): Promise<ClaimRow> {
+    const numericId = /^\d+$/.test(reference) ? parseInt(reference, 10) : null;
+
+    const [claim] = await db
+      .select()
+      .from(claims)
+      .where(numericId !== null ? eq(claims.id, numericId) : eq(claims.claim_id, reference));
+
+    // Claims outside the company's scope are reported as missing
+    if (!claim || !this.canAccess(accessor, claim)) {
+      throw new ClaimError('Claim not found', 'NOT_FOUND');
+    }
+
+    return claim;
+  }
+
+  private static evidenceActor(accessor: ClaimAccessor, userId: number): EvidenceActor {
+    return { userId, companyId: accessor.companyId };
+  }
+
+  private static canAccess(accessor: ClaimAccessor, claim: ClaimRow): boolean {
+    return accessor.isInvela ||
+      claim.company_id === accessor.companyId ||
+      claim.fintech_company_id === accessor.companyId;
+  }
+
+  private static assertFiledBy(accessor: ClaimAccessor, claim: ClaimRow): void {
+    if (!accessor.isInvela && claim.company_id !== accessor.companyId) {
+      throw new ClaimError('Only the company that filed the claim can do this', 'FORBIDDEN');
+    }
+  }
+
+  private static scopeCondition(accessor: ClaimAccessor): SQL | undefined {
+    if (accessor.isInvela) return undefined;
+    return or(
+      eq(claims.company_id, accessor.companyId),
+      eq(claims.fintech_company_id, accessor.companyId)
+    );
+  }
+
+  /**
+   * Adds the breach fields, latest dispute and latest resolution to claims,
+   * in the shape the claims pages render
+   */
+  private static async withDetails(rows: ClaimRow[], executor: DbExecutor = db) {
+    if (rows.length === 0) return [];
+
+    const ids = rows.map(row => row.id);
+    const [breaches, disputes, resolutions] = await Promise.all([
+      executor.select().from(claimBreaches).where(inArray(claimBreaches.claim_id, ids)),
+      executor.select().from(claimDisputes).where(inArray(claimDisputes.claim_id, ids)).orderBy(desc(claimDisputes.dispute_date)),
+      executor.select().from(claimResolutions).where(inArray(claimResolutions.claim_id, ids)).orderBy(desc(claimResolutions.resolution_date))
+    ]) as [
+      Array<typeof claimBreaches.$inferSelect>,
+      Array<typeof claimDisputes.$inferSelect>,
+      Array<typeof claimResolutions.$inferSelect>
+    ];
+    const slaLookup = await BreachNotificationSlaService.loadSlaLookup(rows.map(row => row.company_id), executor);
+    const now = new Date();
+
+    return rows.map(row => {
+      const breach = breaches.find(b => b.claim_id === row.id) || null;
+      const dispute = disputes.find(d => d.claim_id === row.id) || null;
+      const resolution = resolutions.find(r => r.claim_id === row.id) || null;
+
+      return {
+        ...row,
+        breach_date: breach?.breach_date ?? null,
+        breach_discovered_date: breach?.breach_discovered_date ?? null,
+        breach_reported_date: breach?.breach_reported_date ?? null,
+        consent_id: breach?.consent_id ?? null,
+        consent_scope: breach?.consent_scope ?? null,
+        affected_records: breach?.affected_records ?? null,
+        remediation_status: breach?.remediation_status ?? null,
+        incident_description: breach?.incident_description ?? null,
+        notification_sla: BreachNotificationSlaService.evaluate(row, breach, slaLookup, now),
+        breach,
+        dispute: dispute
+          ? { ...dispute, status: dispute.resolution_decision ? 'resolved' : row.status }
+          : null,
+        resolution: resolution
+          ? { ...resolution, compensation_amount: resolution.payment_amount }
+          : null
+      };
+    });
+  }
+
+  /**
+   * Next claim number for the year of the claim date, e.g. CLM-2025-007
+   */
+  private static async nextClaimNumber(claimDate: Date, executor: DbExecutor = db): Promise<string> {
+    const prefix = `CLM-${claimDate.getFullYear()}-`;
+
+    // Serialize numbering per year so concurrent claims get distinct numbers
+    await executor.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${prefix}))`);
+
+    const [{ max }] = await executor
+      .select({ max: sql<number | null>`max(substring(${claims.claim_id} from ${prefix.length + 1})::int)` })
+      .from(claims)
+      .where(sql`${claims.claim_id} ~ ${`^${prefix}[0-9]+$`}`);
+
+    return `${prefix}${String((max || 0) + 1).padStart(3, '0')}`;
+  }
+
+  /**
+   * Resolves the bank a claim is filed by and the registered FinTech it is
+   * filed against
+   *
+   * A bank's claims carry its registered name and can only be linked to
+   * FinTechs in its network; a FinTech name matching none of them is kept as
+   * an unregistered data recipient. Invela files on behalf of banks, so its
+   * claims keep the names given.
+   */
+  private static async resolveParties(
+    accessor: ClaimAccessor,
+    params: CreateClaimParams,
+    executor: DbExecutor
+  ): Promise<{ bankName: string; fintechCompanyId: number | null }> {
+    if (accessor.isInvela) {
+      return {
+        bankName: params.bankName,
+        fintechCompanyId: params.fintechCompanyId ?? await this.findFintechIdByName(params.fintechName, null, executor)
+      };
+    }
+
+    const [bank] = await executor
+      .select({ name: companies.name, category: companies.category })
+      .from(companies)
+      .where(eq(companies.id, accessor.companyId));
+
+    if (bank?.category !== 'Bank') {
+      throw new ClaimError('Only banks can file claims', 'FORBIDDEN');
+    }
+
+    const networkIds = await getNetworkCompanyIds(accessor.companyId);
+
+    if (params.fintechCompanyId != null) {
+      const [fintech] = networkIds.includes(params.fintechCompanyId)
+        ? await executor
+            .select({ category: companies.category })
+            .from(companies)
+            .where(eq(companies.id, params.fintechCompanyId))
+        : [];
+
+      if (fintech?.category !== 'FinTech') {
+        throw new ClaimError('Claims can only be filed against FinTechs in your network', 'INVALID_CLAIM');
+      }
+
+      return { bankName: bank.name, fintechCompanyId: params.fintechCompanyId };
+    }
+
+    return {
+      bankName: bank.name,
+      fintechCompanyId: await this.findFintechIdByName(params.fintechName, networkIds, executor)
+    };
+  }
+
+  /**
+   * Registered FinTech with exactly this name, ignoring case, optionally
+   * limited to the given companies
+   */
+  private static async findFintechIdByName(
+    name: string,
+    companyIds: number[] | null,
+    executor: DbExecutor = db
+  ): Promise<number | null> {
+    if (companyIds && companyIds.length === 0) return null;
+
+    const [company] = await executor
+      .select({ id: companies.id })
+      .from(companies)
+      .where(and(
+        sql`LOWER(${companies.name}) = LOWER(${name.trim()})`,
+        eq(companies.category, 'FinTech'),
+        companyIds ? inArray(companies.id, companyIds) : undefined
+      ))
+      .limit(1);
+
+    return company?.id ?? null;
+  }
+}
@@ -5,8 +5,8 @@
  */
 
 import { db } from '@db';
-import { companies } from '@db/schema';
-import { eq } from 'drizzle-orm';
+import { companies, relationships } from '@db/schema';
+import { eq, or } from 'drizzle-orm';
 
 /**
  * Get company by ID
@@ -27,4 +27,34 @@ export async function getCompany(companyId: number) {
     console.error(`Error retrieving company with ID ${companyId}:`, error);
     return null;
   }
-}
\ No newline at end of file
+}
+/**
+ * Get the IDs of companies in a company's network
+ * 
+ * A company's network is every company it has a relationship with,
+ * in either direction.
+ * 
+ * @param companyId The ID of the company whose network to retrieve
+ * @returns IDs of the related companies (excluding the company itself)
+ */
+export async function getNetworkCompanyIds(companyId: number): Promise<number[]> {
+  const rows = await db.select({
+    company_id: relationships.company_id,
+    related_company_id: relationships.related_company_id
+  })
+  .from(relationships)
+  .where(or(
+    eq(relationships.company_id, companyId),
+    eq(relationships.related_company_id, companyId)
+  ));
+
+  const networkIds = new Set<number>();
+  for (const row of rows) {
+    const otherId = row.company_id === companyId ? row.related_company_id : row.company_id;
+    if (otherId !== companyId) {
+      networkIds.add(otherId);
+    }
+  }
+
+  return Array.from(networkIds);
+}
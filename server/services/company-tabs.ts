@@ -1,18 +1,16 @@
 /**
  * Company Tabs Management
  * 
- * This service handles WebSocket broadcasting for company tab updates
- * and unlocking specific tabs based on form submission types.
+ * This service handles WebSocket broadcasting for company tab updates.
+ * Tabs are unlocked by the onboarding sequence in TaskDependencyService.
  * 
  * Functions included:
  * - broadcastCompanyTabsUpdate: Broadcast tab updates via WebSocket
- * - unlockDashboardAndInsightsTabs: Unlock dashboard and insights tabs
  */
 
 import { db } from '@db';
 import { companies } from '@db/schema';
 import { eq } from 'drizzle-orm';
-import { sql } from 'drizzle-orm/sql';
 import { broadcastCompanyTabsUpdate as wsBroadcastCompanyTabsUpdate } from './websocket';
 import { logger } from '../utils/logger';
 
@@ -62,73 +60,3 @@ export async function broadcastCompanyTabsUpdate(
     return false;
   }
 }
-
-/**
- * Unlock dashboard and insights tabs after Open Banking form submission
- * 
- * @param companyId The company ID
- * @returns Promise<boolean> Whether the operation was successful
- */
-export async function unlockDashboardAndInsightsTabs(companyId: number): Promise<boolean> {
-  logger.info('Unlocking dashboard and insights tabs', { companyId });
-  
-  try {
-    // Get current company data
-    const [company] = await db.select()
-      .from(companies)
-      .where(eq(companies.id, companyId));
-    
-    if (!company) {
-      logger.error('Company not found', { companyId });
-      return false;
-    }
-    
-    // Extract current available tabs or initialize empty array
-    const currentTabs = ((company.metadata?.availableTabs as string[]) || []).slice();
-    
-    // Add dashboard and insights tabs if not already present
-    let tabsChanged = false;
-    const tabsToAdd = ['dashboard', 'insights'];
-    
-    for (const tab of tabsToAdd) {
-      if (!currentTabs.includes(tab)) {
-        currentTabs.push(tab);
-        tabsChanged = true;
-      }
-    }
-    
-    if (!tabsChanged) {
-      logger.info('Dashboard and insights tabs already unlocked', { companyId });
-      return true;
-    }
-    
-    // Update company metadata with new tabs
-    await db.update(companies)
-      .set({
-        metadata: sql`jsonb_set(
-          COALESCE(metadata, '{}'::jsonb),
-          '{availableTabs}',
-          ${JSON.stringify(currentTabs)}::jsonb
-        )`,
-        updated_at: new Date()
-      })
-      .where(eq(companies.id, companyId));
-    
-    logger.info('Dashboard and insights tabs unlocked successfully', { 
-      companyId,
-      availableTabs: currentTabs
-    });
-    
-    // Broadcast the update
-    await broadcastCompanyTabsUpdate(companyId, currentTabs);
-    
-    return true;
-  } catch (error) {
-    logger.error('Error unlocking dashboard and insights tabs', {
-      companyId,
-      error: error instanceof Error ? error.message : 'Unknown error'
-    });
-    
-    return false;
-  }
-}
@@ -6,6 +6,7 @@ import { eq } from "drizzle-orm";
 // Import demo company hooks for automatic file vault population
 import { processNewCompany } from "../hooks/demo-company-hooks";
 import { generateBusinessDetails, type PersonaType } from "../utils/business-details-generator";
+import { TaskDefaultsService } from "./task-defaults-service";
 
 /**
  * Creates a new company and handles all associated rules/tasks
@@ -102,29 +103,39 @@ async function createCompanyInternal(
   console.log('[Company Service] Creating tasks with creator ID:', createdById);
 
   try {
+    // Titles, priorities, due dates and required files come from the task templates.
+    // The relationship with the creating bank is not recorded yet, so its overrides are looked up by its ID.
+    const defaultsTarget = {
+      companyId: newCompany.id,
+      bankCompanyId: metadata?.created_by_company_id ?? null,
+      companyName: newCompany.name
+    };
+    const kybDefaults = await TaskDefaultsService.resolve('company_kyb', defaultsTarget, tx);
+    const securityDefaults = await TaskDefaultsService.resolve('ky3p', defaultsTarget, tx);
+    const openBankingDefaults = await TaskDefaultsService.resolve('open_banking', defaultsTarget, tx);
+
     // Create KYB onboarding task
     console.log('[Company Service] Creating KYB task for company:', newCompany.id);
     const [kybTask] = await tx.insert(tasks)
       .values({
-        title: `1. KYB Form: ${newCompany.name}`,
-        description: `Complete KYB verification for ${newCompany.name}`,
+        title: kybDefaults.title,
+        description: kybDefaults.description,
         task_type: 'company_kyb',
         task_scope: 'company',
         status: TaskStatus.NOT_STARTED,
-        priority: 'high',
+        priority: kybDefaults.priority,
         progress: taskStatusToProgress[TaskStatus.NOT_STARTED],
         company_id: newCompany.id,
         assigned_to: null, // Company tasks should not be assigned to specific users
         created_by: createdById, // Explicitly set creator
-        due_date: (() => {
-          const date = new Date();
-          date.setDate(date.getDate() + 30); // 30 days deadline
-          return date;
-        })(),
+        due_date: kybDefaults.dueDate,
+        files_requested: kybDefaults.filesRequested,
         metadata: {
           company_id: newCompany.id,
           company_name: newCompany.name,
           created_via: metadata?.created_via || 'company_creation',
+          template_id: kybDefaults.templateId,
+          form_component: kybDefaults.formComponent,
           status_flow: [TaskStatus.NOT_STARTED],
           progressHistory: [{
             value: 0,
@@ -150,25 +161,24 @@ async function createCompanyInternal(
     console.log('[Company Service] Creating S&P KY3P Security Assessment task for company:', newCompany.id);
     const [securityTask] = await tx.insert(tasks)
       .values({
-        title: `2. S&P KY3P Security Assessment: ${newCompany.name}`,
-        description: `Complete S&P KY3P Security Assessment for ${newCompany.name}`,
+        title: securityDefaults.title,
+        description: securityDefaults.description,
         task_type: 'ky3p', // Standardized task type for KY3P assessment
         task_scope: 'company',
         status: TaskStatus.NOT_STARTED,
-        priority: 'medium',
+        priority: securityDefaults.priority,
         progress: 0,
         company_id: newCompany.id,
         assigned_to: null, // Company tasks should not be assigned to specific users
         created_by: createdById, // Explicitly set creator
-        due_date: (() => {
-          const date = new Date();
-          date.setDate(date.getDate() + 30); // 30 days deadline (consistent with other tasks)
-          return date;
-        })(),
+        due_date: securityDefaults.dueDate,
+        files_requested: securityDefaults.filesRequested,
         metadata: {
           company_id: newCompany.id,
           company_name: newCompany.name,
           created_via: metadata?.created_via || 'company_creation',
+          template_id: securityDefaults.templateId,
+          form_component: securityDefaults.formComponent,
           status_flow: [TaskStatus.NOT_STARTED],
           progressHistory: [{
             value: 0,
@@ -197,25 +207,24 @@ async function createCompanyInternal(
     console.log('[Company Service] Creating Open Banking Survey task for company:', newCompany.id);
     const [cardTask] = await tx.insert(tasks)
       .values({
-        title: `3. Open Banking Survey: ${newCompany.name}`,
-        description: `Complete Open Banking Survey for ${newCompany.name}`,
+        title: openBankingDefaults.title,
+        description: openBankingDefaults.description,
         task_type: 'open_banking',
         task_scope: 'company',
         status: TaskStatus.NOT_STARTED,
-        priority: 'high',
+        priority: openBankingDefaults.priority,
         progress: 0,
         company_id: newCompany.id,
         assigned_to: null, // Company tasks should not be assigned to specific users
         created_by: createdById, // Explicitly set creator
-        due_date: (() => {
-          const date = new Date();
-          date.setDate(date.getDate() + 30); // 30 days deadline
-          return date;
-        })(),
+        due_date: openBankingDefaults.dueDate,
+        files_requested: openBankingDefaults.filesRequested,
         metadata: {
           company_id: newCompany.id,
           company_name: newCompany.name,
           created_via: metadata?.created_via || 'company_creation',
+          template_id: openBankingDefaults.templateId,
+          form_component: openBankingDefaults.formComponent,
           statusFlow: [TaskStatus.NOT_STARTED],
           progressHistory: [{
             value: 0,
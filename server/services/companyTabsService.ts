@@ -9,6 +9,7 @@ import { companies } from '@db/schema';
 import { eq } from 'drizzle-orm';
 import * as WebSocketService from './websocket';
 import { invalidateCompanyCache } from '../routes';
+import { TaskDependencyService } from './task-dependency-service';
 
 export const CompanyTabsService = {
   /**
@@ -82,12 +83,12 @@ export const CompanyTabsService = {
   },
 
   /**
-   * Safely unlocks the file vault for a company
-   * This should be called after form submission to ensure
-   * users can access the file vault.
-   * 
-   * PERFORMANCE CRITICAL: This must execute quickly to ensure
-   * users see the file vault tab immediately after submission.
+   * Opens the file vault for a company if its onboarding sequence allows it
+   *
+   * The tab is only opened by TaskDependencyService, so this applies the
+   * company's sequence rather than adding the tab directly; the evaluator
+   * broadcasts any tabs it opens. Returns the company with its tabs after
+   * the evaluation.
    */
   async unlockFileVault(companyId: number) {
     if (!companyId) {
@@ -96,168 +97,27 @@ export const CompanyTabsService = {
     }
 
     try {
-      // Enhanced logging to track exact execution timing
-      const operationStartTime = new Date();
-      console.log(`[CompanyTabsService] ⚡ CRITICAL TIMING: File vault unlock operation started for company ${companyId} at ${operationStartTime.toISOString()}`);
-      
-      // DEBUGGING: First fetch the company to check current state
-      const [currentCompany] = await db.select()
+      const { unlockedTabs } = await TaskDependencyService.evaluate(companyId);
+
+      const [company] = await db.select()
         .from(companies)
         .where(eq(companies.id, companyId));
-        
-      if (!currentCompany) {
+
+      if (!company) {
         console.error(`[CompanyTabsService] Company with ID ${companyId} not found`);
         return null;
       }
-      
-      console.log(`[CompanyTabsService] Current company state before unlock:`, {
-        companyId,
-        name: currentCompany.name,
-        available_tabs: currentCompany.available_tabs,
-        timestamp: new Date().toISOString()
-      });
-      
-      // Ensure we have a proper available_tabs array to work with
-      const currentTabs = currentCompany.available_tabs || ['task-center'];
-      
-      // Check if file-vault is already in the array
-      if (currentTabs.includes('file-vault')) {
-        console.log(`[CompanyTabsService] File vault tab already enabled for company ${companyId}`);
-        return currentCompany;
-      }
-      
-      // BUGFIX: Use both SQL and object based approach for maximum compatibility
-      const timestamp = new Date();
-      console.log(`[CompanyTabsService] Directly updating company ${companyId} with file-vault tab at ${timestamp.toISOString()}`);
-      
-      // Update with both SQL and standard object approach
-      try {
-        // First try with simpler approach - add file-vault to the array directly
-        const updatedTabs = [...currentTabs, 'file-vault'];
-        console.log(`[CompanyTabsService] Updating company ${companyId} tabs from ${JSON.stringify(currentTabs)} to ${JSON.stringify(updatedTabs)}`);
-        
-        const [updatedCompany] = await db.update(companies)
-          .set({
-            available_tabs: updatedTabs,
-            updated_at: timestamp
-          })
-          .where(eq(companies.id, companyId))
-          .returning();
-          
-        if (updatedCompany) {
-          console.log(`[CompanyTabsService] Successfully updated using direct array approach:`, {
-            companyId,
-            newTabs: updatedCompany.available_tabs,
-            timestamp: new Date().toISOString()
-          });
-          
-          // If we got here, the update succeeded
-          return updatedCompany;
-        }
-      } catch (directUpdateError) {
-        console.error(`[CompanyTabsService] Error updating with direct array approach:`, directUpdateError);
-      }
-      
-      // Fallback to SQL expression approach if the direct update failed
-      console.log(`[CompanyTabsService] Falling back to SQL expression approach for company ${companyId}`);
-      
-      // Use a SQL expression to conditionally add file-vault if it doesn't exist
-      const [updatedCompany] = await db.update(companies)
-        .set({
-          // PERFORMANCE: Use raw SQL with a case statement for conditional array update
-          // This avoids needing to fetch the current array first
-          available_tabs: db.sql`
-            CASE 
-              WHEN 'file-vault' = ANY(${companies.available_tabs}) THEN ${companies.available_tabs}
-              WHEN ${companies.available_tabs} IS NULL THEN array['task-center', 'file-vault']
-              ELSE array_append(${companies.available_tabs}, 'file-vault')
-            END
-          `,
-          updated_at: timestamp
-        })
-        .where(eq(companies.id, companyId))
-        .returning();
-        
-      if (!updatedCompany) {
-        console.error(`[CompanyTabsService] Failed to update company ${companyId} - no record returned`);
-        return null;
+
+      if (unlockedTabs.length > 0) {
+        invalidateCompanyCache(companyId);
       }
-        
-      // Log the completion time of the database update
-      const dbUpdateCompleteTime = new Date();
-      const dbUpdateTime = dbUpdateCompleteTime.getTime() - operationStartTime.getTime();
-      console.log(`[CompanyTabsService] ⚡ CRITICAL TIMING: Database update completed in ${dbUpdateTime}ms at ${dbUpdateCompleteTime.toISOString()}`);
-      console.log(`[CompanyTabsService] Successfully unlocked file vault for company ${companyId}:`, {
-        newTabs: updatedCompany.available_tabs,
-        timestamp: timestamp.toISOString()
+
+      console.log(`[CompanyTabsService] Onboarding sequence applied for company ${companyId}:`, {
+        unlockedTabs,
+        fileVaultAvailable: company.available_tabs.includes('file-vault')
       });
-      
-      // CRITICAL: Invalidate the company cache
-      try {
-        // Use the imported invalidateCompanyCache function directly
-        const cacheInvalidated = invalidateCompanyCache(companyId);
-        
-        if (cacheInvalidated) {
-          console.log(`[CompanyTabsService] ⚡ CRITICAL: Successfully invalidated company ${companyId} cache`);
-        } else {
-          console.log(`[CompanyTabsService] Company ${companyId} not found in cache, no invalidation needed`);
-        }
-      } catch (cacheError) {
-        console.error(`[CompanyTabsService] Error invalidating company cache:`, cacheError);
-      }
-      
-      // CRITICAL: Broadcast the WebSocket event immediately
-      let broadcastSuccess = false;
-      try {
-        // Use the imported WebSocketService directly
-        
-        // Use both broadcast methods for redundancy
-        // 1. Use the specific company tabs update method 
-        WebSocketService.broadcastCompanyTabsUpdate(companyId, updatedCompany.available_tabs);
-        
-        // 2. Also use the generic broadcast method as backup with cache_invalidation flag
-        WebSocketService.broadcastMessage('company_tabs_updated', {
-          companyId,
-          availableTabs: updatedCompany.available_tabs,
-          timestamp: new Date().toISOString(),
-          source: 'companyTabsService.unlockFileVault',
-          cache_invalidation: true,  // Critical flag to force client cache refresh
-          operation: 'unlock_file_vault'
-        });
-        
-        broadcastSuccess = true;
-        console.log(`[CompanyTabsService] ✅ Broadcasted company_tabs_updated event via WebSocket for company ${companyId} with cache_invalidation flag`);
-        
-        // 3. Schedule additional delayed broadcasts to ensure clients receive the update
-        // This helps with clients that might be reconnecting due to network issues
-        const delayTimes = [500, 1500, 3000]; // 0.5s, 1.5s, 3s delays
-        for (const delay of delayTimes) {
-          setTimeout(() => {
-            try {
-              console.log(`[CompanyTabsService] Sending delayed (${delay}ms) websocket broadcast for file vault unlock, company ${companyId}`);
-              WebSocketService.broadcastMessage('company_tabs_updated', {
-                companyId,
-                availableTabs: updatedCompany.available_tabs,
-                timestamp: new Date().toISOString(),
-                source: 'companyTabsService.unlockFileVault.delayed',
-                delay,
-                cache_invalidation: true,  // Critical flag to force client cache refresh
-                operation: 'unlock_file_vault'
-              });
-            } catch (e) {
-              console.error(`[CompanyTabsService] Error in delayed WebSocket broadcast (${delay}ms):`, e);
-            }
-          }, delay);
-        }
-      } catch (wsError) {
-        console.error(`[CompanyTabsService] Failed to broadcast WebSocket event:`, wsError);
-      }
-      
-      // Log total operation time
-      const totalTime = new Date().getTime() - operationStartTime.getTime();
-      console.log(`[CompanyTabsService] ⚡ CRITICAL TIMING: File vault unlock operation completed in ${totalTime}ms, broadcast success: ${broadcastSuccess}`);
-      
-      return updatedCompany;
+
+      return company;
     } catch (error) {
       console.error('[CompanyTabsService] Error unlocking file vault:', error);
       return null;
@@ -1,2 +1,2 @@
 export { emailService } from './service';
-export { type EmailTemplate, type TemplateNames } from './templates';
+export { type EmailTemplate, type TemplateNames, type RiskAlertTemplateData, type AccreditationRenewalTemplateData, type TaskDeadlineTemplateData } from './templates';
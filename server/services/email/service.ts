@@ -3,8 +3,8 @@ import { z } from 'zod';
 import dns from 'dns';
 import { promisify } from 'util';
 import { v4 as uuidv4 } from 'uuid';
-import type { EmailTemplate, TemplateNames } from './templates';
-import { getEmailTemplate } from './templates';
+import type { EmailTemplate, TemplateNames, RiskAlertTemplateData, AccreditationRenewalTemplateData, TaskDeadlineTemplateData } from './templates';
+import { getEmailTemplate, getRiskAlertEmailTemplate, getAccreditationRenewalEmailTemplate, getTaskDeadlineEmailTemplate } from './templates';
 import { logger } from '../../utils/logger';
 
 const resolveMx = promisify(dns.resolveMx);
@@ -219,6 +219,81 @@ export class EmailService {
     }
   }
 
+  async sendRiskAlertEmail(to: string, data: RiskAlertTemplateData): Promise<{ success: boolean; error?: string }> {
+    console.log('[EmailService] Sending risk alert email to:', to);
+
+    try {
+      const template = getRiskAlertEmailTemplate(data);
+
+      await this.transporter.sendMail({
+        from: this.defaultFromEmail,
+        to,
+        subject: template.subject,
+        text: template.text,
+        html: template.html,
+      });
+
+      console.log('[EmailService] Risk alert email sent successfully to:', to);
+      return { success: true };
+    } catch (error) {
+      console.error('[EmailService] Failed to send risk alert email:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to send email'
+      };
+    }
+  }
+
+  async sendAccreditationRenewalEmail(to: string, data: AccreditationRenewalTemplateData): Promise<{ success: boolean; error?: string }> {
+    console.log('[EmailService] Sending accreditation renewal email to:', to);
+
+    try {
+      const template = getAccreditationRenewalEmailTemplate(data);
+
+      await this.transporter.sendMail({
+        from: this.defaultFromEmail,
+        to,
+        subject: template.subject,
+        text: template.text,
+        html: template.html,
+      });
+
+      console.log('[EmailService] Accreditation renewal email sent successfully to:', to);
+      return { success: true };
+    } catch (error) {
+      console.error('[EmailService] Failed to send accreditation renewal email:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to send email'
+      };
+    }
+  }
+
+  async sendTaskDeadlineEmail(to: string, data: TaskDeadlineTemplateData): Promise<{ success: boolean; error?: string }> {
+    console.log('[EmailService] Sending task deadline email to:', to);
+
+    try {
+      const template = getTaskDeadlineEmailTemplate(data);
+
+      await this.transporter.sendMail({
+        from: this.defaultFromEmail,
+        to,
+        subject: template.subject,
+        text: template.text,
+        html: template.html,
+      });
+
+      console.log('[EmailService] Task deadline email sent successfully to:', to);
+      return { success: true };
+    } catch (error) {
+      console.error('[EmailService] Failed to send task deadline email:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to send email'
+      };
+    }
+  }
+
   async verifyConnection(): Promise<boolean> {
     console.log('[EmailService] Verifying email service connection...');
     try {
@@ -148,6 +148,212 @@ Click here to get started: ${inviteUrl}
   };
 }
 
+// Risk threshold alert sent to bank users when a data recipient breaches a threshold
+const riskAlertTemplateSchema = z.object({
+  recipientName: z.string().min(1, "Recipient name is required"),
+  bankName: z.string().min(1, "Bank name is required"),
+  companyName: z.string().min(1, "Company name is required"),
+  ruleLabel: z.string().min(1, "Rule label is required"),
+  threshold: z.number(),
+  riskScore: z.number(),
+  alertUrl: z.string().url("Valid alert URL is required"),
+});
+
+export type RiskAlertTemplateData = z.infer<typeof riskAlertTemplateSchema>;
+
+export function getRiskAlertEmailTemplate(data: RiskAlertTemplateData): EmailTemplate {
+  const result = riskAlertTemplateSchema.safeParse(data);
+  if (!result.success) {
+    console.error("[Template:risk_alert] Invalid template data:", result.error);
+    throw new Error(
+      `Invalid template data: ${JSON.stringify(result.error.errors)}`,
+    );
+  }
+
+  const { recipientName, bankName, companyName, ruleLabel, threshold, riskScore, alertUrl } = result.data;
+  const year = new Date().getFullYear();
+  const subject = `Risk alert: ${companyName} is below your ${ruleLabel}`;
+  const summary = `${companyName}'s risk score is now ${riskScore}, below the ${ruleLabel} of ${threshold} set by ${bankName}.`;
+
+  return {
+    subject,
+    text: `
+Hello ${recipientName},
+
+${summary}
+
+Review and acknowledge the alert: ${alertUrl}
+
+© ${year} Invela | Privacy Policy | Terms of Service | Support Center
+`.trim(),
+    html: `
+<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8">
+    <title>${subject}</title>
+  </head>
+  <body style="font-family: sans-serif; line-height: 1.5; max-width: 600px; margin: 0 auto; padding: 20px;">
+    <h1 style="color: #333; margin-bottom: 20px;">Risk Threshold Alert</h1>
+
+    <p>Hello ${recipientName},</p>
+    <p>${summary}</p>
+
+    <a href="${alertUrl}" 
+       style="display: inline-block; background: #4965EC; color: white; padding: 12px 24px; text-decoration: none; border-radius: 4px; margin: 20px 0;">
+      Review Alert
+    </a>
+    ${getFooter(year)}
+  </body>
+</html>
+`.trim(),
+  };
+}
+
+// Accreditation renewal reminder or expiry notice, sent to the data recipient and its banks
+const accreditationRenewalTemplateSchema = z.object({
+  recipientName: z.string().min(1, "Recipient name is required"),
+  companyName: z.string().min(1, "Company name is required"),
+  audience: z.enum(["company", "bank"]),
+  expired: z.boolean(),
+  daysUntilExpiry: z.number().int(),
+  expiresDate: z.string().min(1, "Expiry date is required"),
+  actionUrl: z.string().url("Valid action URL is required"),
+});
+
+export type AccreditationRenewalTemplateData = z.infer<typeof accreditationRenewalTemplateSchema>;
+
+export function getAccreditationRenewalEmailTemplate(data: AccreditationRenewalTemplateData): EmailTemplate {
+  const result = accreditationRenewalTemplateSchema.safeParse(data);
+  if (!result.success) {
+    console.error("[Template:accreditation_renewal] Invalid template data:", result.error);
+    throw new Error(
+      `Invalid template data: ${JSON.stringify(result.error.errors)}`,
+    );
+  }
+
+  const { recipientName, companyName, audience, expired, daysUntilExpiry, expiresDate, actionUrl } = result.data;
+  const year = new Date().getFullYear();
+  const subject = expired
+    ? `Accreditation expired: ${companyName}`
+    : `Accreditation renewal due: ${companyName} expires in ${daysUntilExpiry} days`;
+  const summary = expired
+    ? `${companyName}'s accreditation expired on ${expiresDate}.`
+    : `${companyName}'s accreditation expires on ${expiresDate}, in ${daysUntilExpiry} days.`;
+  const action = audience === "company"
+    ? "Complete the renewal assessment to keep your accreditation active."
+    : "The company has been asked to complete a renewal assessment.";
+  const buttonLabel = audience === "company" ? "Start Renewal" : "View Company";
+
+  return {
+    subject,
+    text: `
+Hello ${recipientName},
+
+${summary} ${action}
+
+${buttonLabel}: ${actionUrl}
+
+© ${year} Invela | Privacy Policy | Terms of Service | Support Center
+`.trim(),
+    html: `
+<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8">
+    <title>${subject}</title>
+  </head>
+  <body style="font-family: sans-serif; line-height: 1.5; max-width: 600px; margin: 0 auto; padding: 20px;">
+    <h1 style="color: #333; margin-bottom: 20px;">${expired ? "Accreditation Expired" : "Accreditation Renewal"}</h1>
+
+    <p>Hello ${recipientName},</p>
+    <p>${summary} ${action}</p>
+
+    <a href="${actionUrl}" 
+       style="display: inline-block; background: #4965EC; color: white; padding: 12px 24px; text-decoration: none; border-radius: 4px; margin: 20px 0;">
+      ${buttonLabel}
+    </a>
+    ${getFooter(year)}
+  </body>
+</html>
+`.trim(),
+  };
+}
+
+const taskDeadlineTemplateSchema = z.object({
+  recipientName: z.string().min(1, "Recipient name is required"),
+  taskTitle: z.string().min(1, "Task title is required"),
+  companyName: z.string().min(1, "Company name is required"),
+  kind: z.enum(["reminder", "overdue", "escalation"]),
+  daysUntilDue: z.number().int(),
+  dueDate: z.string().min(1, "Due date is required"),
+  actionUrl: z.string().url("Valid action URL is required"),
+});
+
+export type TaskDeadlineTemplateData = z.infer<typeof taskDeadlineTemplateSchema>;
+
+export function getTaskDeadlineEmailTemplate(data: TaskDeadlineTemplateData): EmailTemplate {
+  const result = taskDeadlineTemplateSchema.safeParse(data);
+  if (!result.success) {
+    console.error("[Template:task_deadline] Invalid template data:", result.error);
+    throw new Error(
+      `Invalid template data: ${JSON.stringify(result.error.errors)}`,
+    );
+  }
+
+  const { recipientName, taskTitle, companyName, kind, daysUntilDue, dueDate, actionUrl } = result.data;
+  const year = new Date().getFullYear();
+  const daysOverdue = Math.max(-daysUntilDue, 0);
+  const subject = kind === "reminder"
+    ? `Task due in ${daysUntilDue} ${daysUntilDue === 1 ? "day" : "days"}: ${taskTitle}`
+    : kind === "overdue"
+      ? `Task overdue: ${taskTitle}`
+      : `Overdue task escalated: ${companyName}`;
+  const summary = kind === "reminder"
+    ? `"${taskTitle}" is due on ${dueDate}.`
+    : kind === "overdue"
+      ? `"${taskTitle}" was due on ${dueDate} and is ${daysOverdue} ${daysOverdue === 1 ? "day" : "days"} overdue.`
+      : `${companyName}'s task "${taskTitle}" was due on ${dueDate} and is ${daysOverdue} ${daysOverdue === 1 ? "day" : "days"} overdue.`;
+  const action = kind === "escalation"
+    ? "Its priority has been raised. You may want to follow up with the company."
+    : "Complete it as soon as possible to keep onboarding on track.";
+  const buttonLabel = kind === "escalation" ? "View Company" : "Open Task";
+
+  return {
+    subject,
+    text: `
+Hello ${recipientName},
+
+${summary} ${action}
+
+${buttonLabel}: ${actionUrl}
+
+© ${year} Invela | Privacy Policy | Terms of Service | Support Center
+`.trim(),
+    html: `
+<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8">
+    <title>${subject}</title>
+  </head>
+  <body style="font-family: sans-serif; line-height: 1.5; max-width: 600px; margin: 0 auto; padding: 20px;">
+    <h1 style="color: #333; margin-bottom: 20px;">${kind === "reminder" ? "Task Reminder" : kind === "overdue" ? "Task Overdue" : "Task Escalated"}</h1>
+
+    <p>Hello ${recipientName},</p>
+    <p>${summary} ${action}</p>
+
+    <a href="${actionUrl}" 
+       style="display: inline-block; background: #4965EC; color: white; padding: 12px 24px; text-decoration: none; border-radius: 4px; margin: 20px 0;">
+      ${buttonLabel}
+    </a>
+    ${getFooter(year)}
+  </body>
+</html>
+`.trim(),
+  };
+}
+
 const templates = {
   user_invite: invitationTemplate,
   fintech_invite: invitationTemplate,
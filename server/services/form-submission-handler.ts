@@ -9,14 +9,14 @@ import { db } from '@db';
 import { tasks, companies } from '@db/schema';
 import { eq } from 'drizzle-orm';
 import { sql } from 'drizzle-orm/sql';
-import { synchronizeTasks, unlockFileVaultAccess } from './synchronous-task-dependencies';
+import { synchronizeTasks } from './synchronous-task-dependencies';
 import { broadcastTaskUpdate as legacyBroadcastTaskUpdate } from './websocket';
-import { broadcastCompanyTabsUpdate, unlockDashboardAndInsightsTabs } from './company-tabs';
 import { logger } from '../utils/logger';
 import * as WebSocketService from './websocket-service';
 import { broadcast, broadcastTaskUpdate } from '../utils/unified-websocket';
 import { mapClientFormTypeToSchemaType } from '../utils/form-type-mapper';
 import * as fileCreationService from './fileCreation';
+import { runRiskRulesForSubmission } from './riskRuleEvaluator';
 
 interface SubmitFormOptions {
   taskId: number;
@@ -202,47 +202,17 @@ export async function submitFormWithImmediateUnlock(options: SubmitFormOptions):
     
     logger.info('WebSocket notification sent for task update', { taskId });
     
-    // 3. Apply form-specific dependency rules
-    let unlockedCount = 0;
-    let fileVaultUnlocked = false;
-    
-    // Different unlocking behavior based on form type
-    if (formType === 'kyb') {
-      // KYB unlocks file vault, KY3P tasks, and Open Banking tasks
-      logger.info('Processing KYB-specific dependencies', { companyId });
-      
-      // Unlock file vault access
-      fileVaultUnlocked = await unlockFileVaultAccess(companyId);
-      logger.info('File vault access processed', { 
-        companyId, 
-        taskId,
-        fileVaultUnlocked 
-      });
-      
-      // Unlock KY3P and Open Banking tasks
-      const unlockedTaskIds = await synchronizeTasks(companyId, taskId);
-      unlockedCount = unlockedTaskIds.length;
-      logger.info('KYB dependent tasks unlocked immediately', { 
-        taskId, 
-        companyId, 
-        unlockedCount,
-        unlockedTaskIds
-      });
-    } 
-    else if (formType === 'open_banking') {
-      // Open Banking unlocks Dashboard and Insights tabs
-      logger.info('Processing Open Banking-specific dependencies', { companyId });
-      
-      // Unlock Dashboard and Insights tabs
-      const tabsUnlocked = await unlockDashboardAndInsightsTabs(companyId);
-      
-      logger.info('Dashboard and Insights tabs access processed', {
-        companyId,
-        taskId,
-        tabsUnlocked
-      });
-    }
-    // KY3P doesn't unlock anything by itself
+    // 3. Apply the company's onboarding sequence, which unlocks the tasks and
+    // tabs that follow this form, whatever its type
+    const unlockedTaskIds = await synchronizeTasks(companyId, taskId);
+    const unlockedCount = unlockedTaskIds.length;
+    logger.info('Dependent tasks unlocked immediately', { 
+      taskId, 
+      companyId, 
+      formType,
+      unlockedCount,
+      unlockedTaskIds
+    });
     
     // 4. Create form data file if needed
     let fileId: number | undefined;
@@ -350,13 +320,13 @@ export async function submitFormWithImmediateUnlock(options: SubmitFormOptions):
       // Continue with submission process even if file creation fails
     }
     
-    // 5. Return success response with appropriate message
+    // 5. Run the risk score rules of every bank in the company's network
+    await runRiskRulesForSubmission(companyId, taskId);
+    
+    // 6. Return success response with appropriate message
     let message = `Form submitted successfully.`;
-    if (formType === 'kyb') {
-      message += ` File vault ${fileVaultUnlocked ? 'unlocked' : 'unchanged'}.`;
+    if (unlockedCount > 0) {
       message += ` ${unlockedCount} dependent tasks unlocked.`;
-    } else if (formType === 'open_banking') {
-      message += ` Dashboard and Insights tabs are now accessible.`;
     }
     
     // Include file ID in response if available
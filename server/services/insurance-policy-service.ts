@@ -0,0 +1,438 @@
+/**
+ * ========================================
+ * Insurance Policy Service
+ * ========================================
+ *
+ * Insurance policies covering the data a bank shares with a FinTech, and the
+ * coverage checks claims are filed against. A claim under a policy must fall
+ * within its effective period and outside its exclusions; its amount is
+ * calculated from the affected records at the policy's per-record rate, less
+ * the deductible, within the per-claim limit and the remaining aggregate
+ * coverage.
+ *
+ * Key Features:
+ * - Policy records per bank and FinTech pair with limits, rates, deductible and exclusions
+ * - Finds the policy covering a claim by number, or by the pair and breach date
+ * - Validates claims against the policy and calculates their amount
+ * - Tracks paid, reserved and remaining aggregate coverage per policy
+ *
+ * @module InsurancePolicyService
+ * @version 1.0.0
+ * @since 2025-06-05
+ */
+
+import { db, type DbExecutor } from '@db';
+import { insurancePolicies, claims, claimResolutions, companies, ClaimStatus } from '@db/schema';
+import { eq, and, or, ne, lte, gte, isNull, inArray, desc, asc } from 'drizzle-orm';
+import type { ClaimAccessor } from './claims-service';
+
+export type InsurancePolicy = typeof insurancePolicies.$inferSelect;
+
+export interface PolicyParams {
+  policyNumber: string;
+  bankCompanyId?: number;     // Only Invela sets this; banks create policies for themselves
+  fintechCompanyId: number;
+  coverageLimit: number;
+  perClaimLimit?: number | null;
+  perRecordRate: number;
+  deductible?: number;
+  exclusions?: string[];
+  effectiveFrom: Date;
+  effectiveTo?: Date | null;
+}
+
+export type UpdatePolicyParams = Partial<Omit<PolicyParams, 'policyNumber' | 'bankCompanyId' | 'fintechCompanyId'>>;
+
+export interface PolicyCoverage {
+  coverageLimit: number;
+  paid: number;       // Paid out on resolved claims
+  reserved: number;   // Held for open claims
+  remaining: number;
+}
+
+export interface ClaimCoverageRequest {
+  filingCompanyId: number;
+  isInvela: boolean;
+  policyNumber: string | null;
+  fintechCompanyId: number | null;
+  claimType: string;
+  breachDate: Date;
+  affectedRecords: number | null;
+  excludeClaimId?: number; // Claim being re-assessed, whose own reservation is released
+}
+
+export interface ClaimCoverageAssessment {
+  policy: InsurancePolicy;
+  claimAmount: number;
+  grossAmount: number;     // Affected records times the per-record rate
+  deductible: number;
+  limitedBy: 'per_claim_limit' | 'remaining_coverage' | null;
+  remainingBefore: number;
+}
+
+/**
+ * Raised when a policy cannot be read or changed, or a claim is not covered
+ */
+export class InsurancePolicyError extends Error {
+  constructor(
+    message: string,
+    public code: 'NOT_FOUND' | 'FORBIDDEN' | 'DUPLICATE' | 'INVALID_POLICY' | 'INVALID_CLAIM' | 'NOT_COVERED'
+  ) {
+    super(message);
+    this.name = 'InsurancePolicyError';
+  }
+}
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Insurance Policy Service - Policies, coverage tracking and claim pricing
+ */
+export class InsurancePolicyService {
+
+  /**
+   * Lists the policies a company is party to, with their coverage
+   */
+  static async listPolicies(accessor: ClaimAccessor) {
+    const policies: InsurancePolicy[] = await db
+      .select()
+      .from(insurancePolicies)
+      .where(accessor.isInvela ? undefined : or(
+        eq(insurancePolicies.bank_company_id, accessor.companyId),
+        eq(insurancePolicies.fintech_company_id, accessor.companyId)
+      ))
+      .orderBy(asc(insurancePolicies.policy_number));
+
+    return Promise.all(policies.map(async policy => ({
+      ...policy,
+      coverage: await this.getCoverage(policy)
+    })));
+  }
+
+  /**
+   * Gets a policy the company is party to, with its coverage
+   */
+  static async getPolicy(accessor: ClaimAccessor, policyId: number) {
+    const policy = await this.findAccessiblePolicy(accessor, policyId);
+    return { ...policy, coverage: await this.getCoverage(policy) };
+  }
+
+  /**
+   * Creates a policy for a bank and FinTech pair
+   *
+   * @param accessor - Bank creating its policy, or Invela creating one for a bank
+   * @param params - Policy number, pair, limits, rate, deductible, exclusions and period
+   * @param userId - User creating the policy
+   */
+  static async createPolicy(accessor: ClaimAccessor, params: PolicyParams, userId: number) {
+    const bankCompanyId = accessor.isInvela && params.bankCompanyId ? params.bankCompanyId : accessor.companyId;
+    this.validateTerms(params);
+
+    const [fintech] = await db
+      .select({ id: companies.id })
+      .from(companies)
+      .where(eq(companies.id, params.fintechCompanyId));
+
+    if (!fintech) {
+      throw new InsurancePolicyError('FinTech company not found', 'INVALID_POLICY');
+    }
+
+    const [existing] = await db
+      .select({ id: insurancePolicies.id })
+      .from(insurancePolicies)
+      .where(eq(insurancePolicies.policy_number, params.policyNumber));
+
+    if (existing) {
+      throw new InsurancePolicyError(`Policy ${params.policyNumber} already exists`, 'DUPLICATE');
+    }
+
+    const [policy]: InsurancePolicy[] = await db
+      .insert(insurancePolicies)
+      .values({
+        policy_number: params.policyNumber,
+        bank_company_id: bankCompanyId,
+        fintech_company_id: params.fintechCompanyId,
+        coverage_limit: params.coverageLimit,
+        per_claim_limit: params.perClaimLimit ?? null,
+        per_record_rate: params.perRecordRate,
+        deductible: params.deductible ?? 0,
+        exclusions: params.exclusions ?? [],
+        effective_from: params.effectiveFrom,
+        effective_to: params.effectiveTo ?? null,
+        created_by: userId
+      })
+      .returning();
+
+    console.log('[InsurancePolicyService] Policy created', {
+      policyNumber: policy.policy_number,
+      bankCompanyId,
+      fintechCompanyId: policy.fintech_company_id
+    });
+
+    return { ...policy, coverage: await this.getCoverage(policy) };
+  }
+
+  /**
+   * Updates the terms of a policy held by the company
+   *
+   * The coverage limit cannot be lowered below what the policy has already
+   * paid out or reserved for open claims.
+   */
+  static async updatePolicy(accessor: ClaimAccessor, policyId: number, params: UpdatePolicyParams) {
+    const policy = await this.findAccessiblePolicy(accessor, policyId);
+    if (!accessor.isInvela && policy.bank_company_id !== accessor.companyId) {
+      throw new InsurancePolicyError('Only the bank holding the policy can change it', 'FORBIDDEN');
+    }
+
+    const terms = {
+      coverageLimit: params.coverageLimit ?? policy.coverage_limit,
+      perClaimLimit: params.perClaimLimit !== undefined ? params.perClaimLimit : policy.per_claim_limit,
+      perRecordRate: params.perRecordRate ?? policy.per_record_rate,
+      deductible: params.deductible ?? policy.deductible,
+      effectiveFrom: params.effectiveFrom ?? policy.effective_from,
+      effectiveTo: params.effectiveTo !== undefined ? params.effectiveTo : policy.effective_to
+    };
+    this.validateTerms(terms);
+
+    const updated = await db.transaction(async (trx) => {
+      // Lock the policy so claims filed meanwhile are counted against the new limit
+      await trx.select({ id: insurancePolicies.id }).from(insurancePolicies)
+        .where(eq(insurancePolicies.id, policy.id)).for('update');
+
+      const coverage = await this.getCoverage(policy, trx);
+      if (terms.coverageLimit < coverage.paid + coverage.reserved) {
+        throw new InsurancePolicyError(
+          `The coverage limit cannot be lower than the ${roundCurrency(coverage.paid + coverage.reserved)} already paid or reserved`,
+          'INVALID_POLICY'
+        );
+      }
+
+      const [row]: InsurancePolicy[] = await trx
+        .update(insurancePolicies)
+        .set({
+          coverage_limit: terms.coverageLimit,
+          per_claim_limit: terms.perClaimLimit,
+          per_record_rate: terms.perRecordRate,
+          deductible: terms.deductible,
+          exclusions: params.exclusions ?? policy.exclusions,
+          effective_from: terms.effectiveFrom,
+          effective_to: terms.effectiveTo,
+          updated_at: new Date()
+        })
+        .where(eq(insurancePolicies.id, policy.id))
+        .returning();
+      return row;
+    });
+
+    console.log('[InsurancePolicyService] Policy updated', { policyNumber: updated.policy_number });
+
+    return { ...updated, coverage: await this.getCoverage(updated) };
+  }
+
+  /**
+   * Computes how much of a policy's aggregate coverage is used and left
+   *
+   * Resolved claims count the payment recorded on their latest resolution,
+   * or their full amount when approved without one. Open claims reserve
+   * their amount. Denied claims use nothing.
+   *
+   * @param policy - Policy to compute coverage for
+   * @param executor - Database or transaction to read with
+   * @param excludeClaimId - Claim to leave out, when re-assessing it
+   */
+  static async getCoverage(policy: InsurancePolicy, executor: DbExecutor = db, excludeClaimId?: number): Promise<PolicyCoverage> {
+    const policyClaims: Array<typeof claims.$inferSelect> = await executor
+      .select()
+      .from(claims)
+      .where(and(
+        eq(claims.policy_id, policy.id),
+        ne(claims.status, ClaimStatus.DENIED),
+        excludeClaimId !== undefined ? ne(claims.id, excludeClaimId) : undefined
+      ));
+
+    const resolvedIds = policyClaims.filter(claim => claim.is_resolved).map(claim => claim.id);
+    const resolutions: Array<typeof claimResolutions.$inferSelect> = resolvedIds.length > 0
+      ? await executor
+        .select()
+        .from(claimResolutions)
+        .where(inArray(claimResolutions.claim_id, resolvedIds))
+        .orderBy(desc(claimResolutions.resolution_date))
+      : [];
+
+    let paid = 0;
+    let reserved = 0;
+    for (const claim of policyClaims) {
+      if (claim.is_resolved) {
+        const latest = resolutions.find(resolution => resolution.claim_id === claim.id);
+        paid += latest ? latest.payment_amount ?? 0 : claim.claim_amount;
+      } else {
+        reserved += claim.claim_amount;
+      }
+    }
+
+    return {
+      coverageLimit: policy.coverage_limit,
+      paid: roundCurrency(paid),
+      reserved: roundCurrency(reserved),
+      remaining: roundCurrency(Math.max(0, policy.coverage_limit - paid - reserved))
+    };
+  }
+
+  /**
+   * Finds the policy covering a claim and calculates the claim's amount
+   *
+   * A policy number selects that policy, which must cover the filing bank
+   * and the FinTech. Without one, the pair's policy in effect on the breach
+   * date applies, if there is one. Call inside the transaction that writes
+   * the claim so the policy stays locked until the claim is recorded.
+   *
+   * @param request - Filing company, policy number, FinTech, claim type, breach date and affected records
+   * @param executor - Transaction the claim is written in
+   * @returns The assessment, or null when no policy covers the pair
+   */
+  static async assessClaim(request: ClaimCoverageRequest, executor: DbExecutor = db): Promise<ClaimCoverageAssessment | null> {
+    const policy = await this.findCoveringPolicy(request, executor);
+    if (!policy) return null;
+
+    const onBreachDate = request.breachDate.getTime();
+    if (onBreachDate < policy.effective_from.getTime() ||
+        (policy.effective_to && onBreachDate > policy.effective_to.getTime())) {
+      throw new InsurancePolicyError(
+        `Policy ${policy.policy_number} was not in effect on the breach date`,
+        'NOT_COVERED'
+      );
+    }
+
+    const claimType = request.claimType.trim().toLowerCase();
+    if ((policy.exclusions ?? []).some(exclusion => exclusion.trim().toLowerCase() === claimType)) {
+      throw new InsurancePolicyError(
+        `Policy ${policy.policy_number} excludes ${request.claimType} claims`,
+        'NOT_COVERED'
+      );
+    }
+
+    if (!request.affectedRecords || request.affectedRecords <= 0) {
+      throw new InsurancePolicyError(
+        'The number of affected records is required to calculate a claim under a policy',
+        'INVALID_CLAIM'
+      );
+    }
+
+    const grossAmount = roundCurrency(request.affectedRecords * policy.per_record_rate);
+    let claimAmount = roundCurrency(grossAmount - policy.deductible);
+    if (claimAmount <= 0) {
+      throw new InsurancePolicyError(
+        `The claim of ${grossAmount} falls within the policy deductible of ${policy.deductible}`,
+        'NOT_COVERED'
+      );
+    }
+
+    let limitedBy: ClaimCoverageAssessment['limitedBy'] = null;
+    if (policy.per_claim_limit !== null && claimAmount > policy.per_claim_limit) {
+      claimAmount = policy.per_claim_limit;
+      limitedBy = 'per_claim_limit';
+    }
+
+    const { remaining } = await this.getCoverage(policy, executor, request.excludeClaimId);
+    if (remaining <= 0) {
+      throw new InsurancePolicyError(
+        `The aggregate coverage of policy ${policy.policy_number} is exhausted`,
+        'NOT_COVERED'
+      );
+    }
+    if (claimAmount > remaining) {
+      claimAmount = remaining;
+      limitedBy = 'remaining_coverage';
+    }
+
+    return {
+      policy,
+      claimAmount,
+      grossAmount,
+      deductible: policy.deductible,
+      limitedBy,
+      remainingBefore: remaining
+    };
+  }
+
+  /**
+   * Finds and locks the policy a claim falls under
+   */
+  private static async findCoveringPolicy(
+    request: ClaimCoverageRequest,
+    executor: DbExecutor
+  ): Promise<InsurancePolicy | null> {
+    if (request.policyNumber) {
+      const [policy]: InsurancePolicy[] = await executor
+        .select()
+        .from(insurancePolicies)
+        .where(eq(insurancePolicies.policy_number, request.policyNumber))
+        .for('update');
+
+      if (!policy) {
+        throw new InsurancePolicyError(`Policy ${request.policyNumber} not found`, 'NOT_COVERED');
+      }
+
+      if (!request.isInvela && policy.bank_company_id !== request.filingCompanyId) {
+        throw new InsurancePolicyError(`Policy ${request.policyNumber} is not held by your company`, 'NOT_COVERED');
+      }
+
+      if (request.fintechCompanyId !== null && policy.fintech_company_id !== request.fintechCompanyId) {
+        throw new InsurancePolicyError(
+          `Policy ${request.policyNumber} does not cover data shared with this FinTech`,
+          'NOT_COVERED'
+        );
+      }
+
+      return policy;
+    }
+
+    if (request.fintechCompanyId === null) return null;
+
+    const [policy]: InsurancePolicy[] = await executor
+      .select()
+      .from(insurancePolicies)
+      .where(and(
+        eq(insurancePolicies.bank_company_id, request.filingCompanyId),
+        eq(insurancePolicies.fintech_company_id, request.fintechCompanyId),
+        lte(insurancePolicies.effective_from, request.breachDate),
+        or(isNull(insurancePolicies.effective_to), gte(insurancePolicies.effective_to, request.breachDate))
+      ))
+      .orderBy(desc(insurancePolicies.effective_from))
+      .limit(1)
+      .for('update');
+
+    return policy ?? null;
+  }
+
+  private static async findAccessiblePolicy(accessor: ClaimAccessor, policyId: number): Promise<InsurancePolicy> {
+    const [policy]: InsurancePolicy[] = await db
+      .select()
+      .from(insurancePolicies)
+      .where(eq(insurancePolicies.id, policyId));
+
+    // Policies the company is not party to are reported as missing
+    if (!policy || (!accessor.isInvela &&
+        policy.bank_company_id !== accessor.companyId &&
+        policy.fintech_company_id !== accessor.companyId)) {
+      throw new InsurancePolicyError('Policy not found', 'NOT_FOUND');
+    }
+
+    return policy;
+  }
+
+  private static validateTerms(terms: {
+    coverageLimit: number;
+    perClaimLimit?: number | null;
+    effectiveFrom: Date;
+    effectiveTo?: Date | null;
+  }): void {
+    if (terms.perClaimLimit != null && terms.perClaimLimit > terms.coverageLimit) {
+      throw new InsurancePolicyError('The per-claim limit cannot exceed the coverage limit', 'INVALID_POLICY');
+    }
+
+    if (terms.effectiveTo && terms.effectiveTo.getTime() <= terms.effectiveFrom.getTime()) {
+      throw new InsurancePolicyError('The policy must end after it starts', 'INVALID_POLICY');
+    }
+  }
+}
@@ -0,0 +1,200 @@
+/**
+ * Dispute Liability Allocation
+ *
+ * This service proposes how liability for a disputed PII data loss claim is
+ * split between the bank (data provider) and the FinTech (data recipient).
+ * The dispute reason sets a starting split, which is then adjusted for how
+ * quickly the breach was discovered, whether it was reported within the
+ * claim's notification deadline and whether the data lost was covered by a
+ * recorded consent. Every adjustment is returned as a reasoning factor so an
+ * adjudicator can see, accept or override it.
+ *
+ * The payment amount is the share of the claim amount the FinTech side owes
+ * the bank, i.e. the claim amount times the FinTech's liability percentage.
+ */
+
+import { DisputeReasonType, ResolutionType } from '@db/schema';
+
+export interface LiabilityAllocationInput {
+  disputeReason: DisputeReasonType | null;
+  claimAmount: number;
+  claimType: string;
+  breachDate: Date | null;
+  breachDiscoveredDate: Date | null;
+  breachReportedDate: Date | null;
+  notificationSlaHours: number; // Deadline for reporting the breach after discovery
+  consentId: string | null;
+  consentScope: string | null;
+}
+
+export interface LiabilityFactor {
+  factor: 'dispute_reason' | 'discovery_timing' | 'reporting_timing' | 'consent_record' | 'consent_scope';
+  detail: string;
+  fintechAdjustment: number; // Percentage points moved onto the FinTech; negative moves them onto the bank
+}
+
+export interface LiabilityAllocation {
+  bankPercent: number;
+  fintechPercent: number;
+  paymentAmount: number;
+  bankLiable: boolean;
+  fintechLiable: boolean;
+  sharedLiability: boolean;
+  suggestedResolutionType: ResolutionType;
+  factors: LiabilityFactor[];
+}
+
+// FinTech share each dispute reason starts from, with why
+const REASON_BASELINES: Record<DisputeReasonType, { fintechPercent: number; detail: string }> = {
+  [DisputeReasonType.LIABILITY_DISPUTE]: {
+    fintechPercent: 50,
+    detail: 'Liability is contested without a specific ground, so the split starts even'
+  },
+  [DisputeReasonType.DATA_OWNERSHIP_DISPUTE]: {
+    fintechPercent: 50,
+    detail: 'Ownership of the lost data is contested; consent records carry extra weight'
+  },
+  [DisputeReasonType.BREACH_NOTIFICATION_TIMING]: {
+    fintechPercent: 60,
+    detail: 'Breach notification is the recipient\'s obligation; reporting timing carries extra weight'
+  },
+  [DisputeReasonType.POLICY_EXCLUSION]: {
+    fintechPercent: 50,
+    detail: 'Coverage is contested; the adjudicator must confirm the policy applies before paying'
+  },
+  [DisputeReasonType.CONTRACT_VIOLATION]: {
+    fintechPercent: 70,
+    detail: 'The recipient is alleged to have breached its data sharing contract'
+  }
+};
+
+const DEFAULT_BASELINE = { fintechPercent: 50, detail: 'No dispute reason recorded, so the split starts even' };
+
+const LATE_REPORTING_DAYS = 30;
+const LATE_DISCOVERY_DAYS = 30;
+const VERY_LATE_DISCOVERY_DAYS = 90;
+
+// Data categories a claim type concerns, matched against the recorded consent scope
+const CLAIM_TYPE_SCOPES: Array<{ pattern: RegExp; scopes: RegExp }> = [
+  { pattern: /pii/i, scopes: /pii|personal|identity|all/i }
+];
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+function daysBetween(from: Date, to: Date): number {
+  return Math.round((to.getTime() - from.getTime()) / DAY_MS);
+}
+
+function hoursBetween(from: Date, to: Date): number {
+  return (to.getTime() - from.getTime()) / HOUR_MS;
+}
+
+/**
+ * Percentages are kept in steps of 5 so proposals read as deliberate splits
+ */
+function roundPercent(value: number): number {
+  return Math.min(100, Math.max(0, Math.round(value / 5) * 5));
+}
+
+/**
+ * Proposes a liability split and payment for a disputed claim
+ *
+ * @param input - Dispute reason, claim amount, breach timing and consent data
+ * @returns The proposed split, payment amount and the factors behind them
+ */
+export function calculateLiabilityAllocation(input: LiabilityAllocationInput): LiabilityAllocation {
+  const factors: LiabilityFactor[] = [];
+  const baseline = (input.disputeReason && REASON_BASELINES[input.disputeReason]) || DEFAULT_BASELINE;
+
+  let fintechPercent = baseline.fintechPercent;
+  factors.push({ factor: 'dispute_reason', detail: baseline.detail, fintechAdjustment: 0 });
+
+  const timingWeight = input.disputeReason === DisputeReasonType.BREACH_NOTIFICATION_TIMING ? 2 : 1;
+  const consentWeight = input.disputeReason === DisputeReasonType.DATA_OWNERSHIP_DISPUTE ? 2 : 1;
+
+  const adjust = (factor: LiabilityFactor['factor'], points: number, detail: string) => {
+    fintechPercent += points;
+    factors.push({ factor, detail, fintechAdjustment: points });
+  };
+
+  // How long the breach went unnoticed by the recipient
+  if (input.breachDate && input.breachDiscoveredDate) {
+    const discoveryDays = daysBetween(input.breachDate, input.breachDiscoveredDate);
+    if (discoveryDays > VERY_LATE_DISCOVERY_DAYS) {
+      adjust('discovery_timing', 20, `Breach went undetected for ${discoveryDays} days`);
+    } else if (discoveryDays > LATE_DISCOVERY_DAYS) {
+      adjust('discovery_timing', 10, `Breach went undetected for ${discoveryDays} days`);
+    } else {
+      adjust('discovery_timing', 0, `Breach was detected within ${Math.max(discoveryDays, 0)} days`);
+    }
+  } else {
+    adjust('discovery_timing', 0, 'Breach or discovery date not recorded; detection speed not considered');
+  }
+
+  // How long the recipient took to report the breach once discovered
+  if (input.breachDiscoveredDate && input.breachReportedDate) {
+    // Compared in hours against the claim's notification deadline, so a report
+    // a few hours past it is not rounded back within it
+    const reportingHours = hoursBetween(input.breachDiscoveredDate, input.breachReportedDate);
+    const slaHours = input.notificationSlaHours;
+    if (reportingHours > Math.max(LATE_REPORTING_DAYS * 24, slaHours)) {
+      adjust('reporting_timing', 20 * timingWeight, `Breach was reported ${Math.floor(reportingHours / 24)} days after discovery`);
+    } else if (reportingHours > slaHours) {
+      adjust('reporting_timing', 10 * timingWeight, `Breach was reported ${Math.ceil(reportingHours)} hours after discovery, beyond the ${slaHours} hour deadline`);
+    } else {
+      adjust('reporting_timing', -10 * timingWeight, `Breach was reported within the ${slaHours} hour deadline`);
+    }
+  } else if (input.breachDiscoveredDate && !input.breachReportedDate) {
+    adjust('reporting_timing', 10 * timingWeight, 'Breach was discovered but no report date is recorded');
+  } else {
+    adjust('reporting_timing', 0, 'Discovery or report date not recorded; reporting speed not considered');
+  }
+
+  // Whether the bank can show the data was shared under consent
+  if (input.consentId) {
+    adjust('consent_record', 0, `Data was shared under consent ${input.consentId}`);
+  } else {
+    adjust('consent_record', -15 * consentWeight, 'No consent is recorded for the shared data');
+  }
+
+  // Whether the lost data was within the scope the consent covered
+  const scopeRule = CLAIM_TYPE_SCOPES.find(rule => rule.pattern.test(input.claimType));
+  if (!input.consentScope) {
+    adjust('consent_scope', 0, 'Consent scope not recorded; scope not considered');
+  } else if (scopeRule && !scopeRule.scopes.test(input.consentScope)) {
+    adjust('consent_scope', -15 * consentWeight, `Lost data was outside the consented scope (${input.consentScope})`);
+  } else {
+    adjust('consent_scope', 0, `Lost data was within the consented scope (${input.consentScope})`);
+  }
+
+  return buildAllocation(roundPercent(fintechPercent), input.claimAmount, factors);
+}
+
+/**
+ * Builds an allocation for a FinTech share, deriving the bank share,
+ * payment amount, liability flags and suggested resolution type
+ */
+export function buildAllocation(
+  fintechPercent: number,
+  claimAmount: number,
+  factors: LiabilityFactor[] = []
+): LiabilityAllocation {
+  const bankPercent = 100 - fintechPercent;
+  const paymentAmount = Math.round(claimAmount * fintechPercent) / 100;
+
+  return {
+    bankPercent,
+    fintechPercent,
+    paymentAmount,
+    bankLiable: bankPercent === 100,
+    fintechLiable: fintechPercent === 100,
+    sharedLiability: bankPercent > 0 && fintechPercent > 0,
+    suggestedResolutionType: fintechPercent === 100
+      ? ResolutionType.FULL_PAYMENT
+      : fintechPercent > 0
+        ? ResolutionType.PARTIAL_PAYMENT
+        : ResolutionType.POLICY_EXCLUSION,
+    factors
+  };
+}
@@ -2,17 +2,243 @@
  * Risk Score Generation for Open Banking Survey
  * 
  * This service handles generating risk scores when submitting 
- * the Open Banking Survey form. It enables configurable risk score 
- * generation to support different calculation methods in the future.
+ * the Open Banking Survey form. Every response is scored against the
+ * scoring rules stored on its open_banking_fields row, so the same
+ * answers always produce the same score.
  */
 
-import { db } from '@db';
-import { companies } from '@db/schema';
+import { db, type DbExecutor } from '@db';
+import { 
+  companies, 
+  openBankingFields, 
+  openBankingResponses,
+  type OpenBankingScoringRule,
+  type OpenBankingScoringRules
+} from '@db/schema';
 import { eq } from 'drizzle-orm';
+import { RiskScoreHistoryService } from './risk-score-history-service';
+
+/**
+ * Points available for a field that has no scoring rules configured
+ */
+const DEFAULT_MAX_POINTS = 10;
+
+export interface OpenBankingFieldScore {
+  responseId: number;
+  fieldId: number;
+  fieldKey: string;
+  responseValue: string | null;
+  points: number;
+  maxPoints: number;
+  reasoning: string;
+}
+
+export interface OpenBankingRiskScoreResult {
+  riskScore: number;
+  totalFields: number;
+  answeredFields: number;
+  maxPossibleScore: number;
+  actualScore: number;
+  fieldScores: OpenBankingFieldScore[];
+}
+
+/**
+ * Answers that deny a control or give no information, which earn no points
+ */
+const NEGATIVE_ANSWER_RULES: OpenBankingScoringRule[] = [
+  ...['no', 'false', 'none', 'n/a', 'na', 'not applicable', 'unknown'].map((value): OpenBankingScoringRule => ({
+    operator: 'equals', value, points: 0, reasoning: 'Control not in place'
+  })),
+  ...['no ', 'no,', 'no.', 'not ', 'we do not', "we don't", 'none '].map((value): OpenBankingScoringRule => ({
+    operator: 'starts_with', value, points: 0, reasoning: 'Control not in place'
+  }))
+];
+
+/**
+ * Build the rules used for a field that has none stored, judged on the
+ * content of the answer: a confirmed control earns full points, a denied
+ * one none, a control in progress part of them. Any other answer earns half
+ * the points, since answering alone says nothing about the control.
+ */
+function getDefaultScoringRules(fieldType: string): OpenBankingScoringRules {
+  const half = DEFAULT_MAX_POINTS / 2;
+  const affirmative: OpenBankingScoringRule[] = [
+    { operator: 'equals', value: 'yes', points: DEFAULT_MAX_POINTS, reasoning: 'Control confirmed in place' },
+    { operator: 'equals', value: 'true', points: DEFAULT_MAX_POINTS, reasoning: 'Control confirmed in place' }
+  ];
+
+  if (fieldType === 'BOOLEAN') {
+    return {
+      max_points: DEFAULT_MAX_POINTS,
+      default_points: 0,
+      rules: [...affirmative, ...NEGATIVE_ANSWER_RULES]
+    };
+  }
+
+  return {
+    max_points: DEFAULT_MAX_POINTS,
+    default_points: 0,
+    rules: [
+      ...affirmative,
+      { operator: 'starts_with', value: 'yes', points: DEFAULT_MAX_POINTS, reasoning: 'Control confirmed in place' },
+      ...NEGATIVE_ANSWER_RULES,
+      ...['in progress', 'planned', 'partial'].map((value): OpenBankingScoringRule => ({
+        operator: 'contains', value, points: Math.round(half / 2), reasoning: 'Control not yet fully in place'
+      })),
+      { operator: 'answered', points: half, reasoning: 'Answer neither confirms nor denies the control' }
+    ]
+  };
+}
+
+/**
+ * Check whether a single rule matches a response value.
+ * String comparisons are case-insensitive and ignore surrounding whitespace.
+ */
+function ruleMatches(rule: OpenBankingScoringRule, responseValue: string | null): boolean {
+  const answer = (responseValue ?? '').trim().toLowerCase();
+
+  switch (rule.operator) {
+    case 'answered':
+      return answer.length > 0;
+    case 'equals':
+      return answer.length > 0 && answer === (rule.value ?? '').trim().toLowerCase();
+    case 'contains':
+      return answer.length > 0 && answer.includes((rule.value ?? '').trim().toLowerCase());
+    case 'starts_with':
+      // Not trimmed, so "no " does not match "notification"
+      return answer.length > 0 && answer.startsWith((rule.value ?? '').toLowerCase());
+    case 'between': {
+      const numeric = parseFloat(answer.replace('%', ''));
+      if (isNaN(numeric)) return false;
+      if (rule.min !== undefined && numeric < rule.min) return false;
+      if (rule.max !== undefined && numeric > rule.max) return false;
+      return true;
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * Score a single response against its field's scoring rules
+ * 
+ * @param rules The scoring rules stored on the field (null uses the defaults)
+ * @param fieldType The field type, used to pick default rules
+ * @param responseValue The submitted answer
+ * @returns Points awarded, maximum points, the reasoning for the award and the
+ *          rule that matched (null when the default points were awarded)
+ */
+export function scoreOpenBankingResponse(
+  rules: OpenBankingScoringRules | null,
+  fieldType: string,
+  responseValue: string | null
+): { points: number; maxPoints: number; reasoning: string; matchedRule: OpenBankingScoringRule | null } {
+  const effectiveRules = rules ?? getDefaultScoringRules(fieldType);
+  const maxPoints = Math.max(0, effectiveRules.max_points);
+
+  const matchedRule = effectiveRules.rules.find(rule => ruleMatches(rule, responseValue));
+
+  if (matchedRule) {
+    const points = Math.min(Math.max(0, matchedRule.points), maxPoints);
+    return {
+      points,
+      maxPoints,
+      reasoning: matchedRule.reasoning 
+        || `Answer "${responseValue}" matched ${matchedRule.operator} rule (${points}/${maxPoints} points)`,
+      matchedRule
+    };
+  }
+
+  const points = Math.min(Math.max(0, effectiveRules.default_points ?? 0), maxPoints);
+  const answered = (responseValue ?? '').trim().length > 0;
+  return {
+    points,
+    maxPoints,
+    reasoning: answered
+      ? `Answer "${responseValue}" matched no scoring rule (${points}/${maxPoints} points)`
+      : `No answer provided (${points}/${maxPoints} points)`,
+    matchedRule: null
+  };
+}
+
+/**
+ * Calculate the Open Banking risk score for a task and persist the
+ * per-field partial_risk_score and reasoning on each response
+ * 
+ * @param taskId The ID of the Open Banking task
+ * @param executor Database or transaction to run queries with
+ * @returns The overall score and the breakdown by field
+ */
+export async function calculateOpenBankingRiskScore(
+  taskId: number, 
+  executor: DbExecutor = db
+): Promise<OpenBankingRiskScoreResult> {
+  const rows = await executor.select({
+    response: openBankingResponses,
+    field: openBankingFields
+  })
+  .from(openBankingResponses)
+  .innerJoin(openBankingFields, eq(openBankingResponses.field_id, openBankingFields.id))
+  .where(eq(openBankingResponses.task_id, taskId))
+  .orderBy(openBankingFields.order);
+
+  const fieldScores: OpenBankingFieldScore[] = [];
+  let actualScore = 0;
+  let maxPossibleScore = 0;
+  let answeredFields = 0;
+
+  for (const { response, field } of rows) {
+    const { points, maxPoints, reasoning } = scoreOpenBankingResponse(
+      field.scoring_rules ?? null,
+      field.field_type,
+      response.response_value
+    );
+
+    actualScore += points;
+    maxPossibleScore += maxPoints;
+    if ((response.response_value ?? '').trim().length > 0) {
+      answeredFields++;
+    }
+
+    fieldScores.push({
+      responseId: response.id,
+      fieldId: field.id,
+      fieldKey: field.field_key,
+      responseValue: response.response_value,
+      points,
+      maxPoints,
+      reasoning
+    });
+
+    // Only write rows whose score or reasoning actually changed
+    if (response.partial_risk_score !== points || response.reasoning !== reasoning) {
+      await executor.update(openBankingResponses)
+        .set({
+          partial_risk_score: points,
+          reasoning,
+          updated_at: new Date()
+        })
+        .where(eq(openBankingResponses.id, response.id));
+    }
+  }
+
+  const riskScore = maxPossibleScore > 0
+    ? Math.min(Math.max(0, Math.round((actualScore / maxPossibleScore) * 100)), 100)
+    : 0;
+
+  return {
+    riskScore,
+    totalFields: rows.length,
+    answeredFields,
+    maxPossibleScore,
+    actualScore,
+    fieldScores
+  };
+}
 
 /**
  * Generate a risk score for a company based on Open Banking Survey submission
- * For now, this generates a random value between 1-100 on the percentage-based scale
+ * The score is the percentage of available points earned across all fields
  * 
  * @param companyId The ID of the company to generate a risk score for
  * @param taskId The ID of the task being submitted
@@ -26,27 +252,30 @@ export async function generateOpenBankingRiskScore(companyId: number, taskId: nu
   });
 
   try {
-    // Generate a random risk score between 1 and 100
-    // This is a placeholder implementation that can be replaced with a more
-    // sophisticated calculation method in the future
-    const minScore = 1;
-    const maxScore = 100;
-    const riskScore = Math.floor(Math.random() * (maxScore - minScore + 1)) + minScore;
+    const result = await calculateOpenBankingRiskScore(taskId);
 
     console.log('[OpenBanking Risk Score] Generated risk score:', {
       companyId,
       taskId,
-      riskScore,
-      minScore,
-      maxScore,
+      riskScore: result.riskScore,
+      totalFields: result.totalFields,
+      answeredFields: result.answeredFields,
+      actualScore: result.actualScore,
+      maxPossibleScore: result.maxPossibleScore,
       timestamp: new Date().toISOString()
     });
 
-    // Update the company with the generated risk score
+    // Derive the risk clusters from the answers, less any late breach notifications
+    const { calculateCompanyRiskProfile } = await import('./riskClusters');
+    const { riskScore, riskClusters, lateNotificationDeduction } = await calculateCompanyRiskProfile(companyId, result.riskScore);
+
+    // Update the company with the generated risk score and clusters
     const [updatedCompany] = await db
       .update(companies)
       .set({
         risk_score: riskScore,
+        risk_clusters: riskClusters,
+        late_notification_deduction: lateNotificationDeduction,
         updated_at: new Date()
       })
       .where(eq(companies.id, companyId))
@@ -62,6 +291,23 @@ export async function generateOpenBankingRiskScore(companyId: number, taskId: nu
       timestamp: new Date().toISOString()
     });
 
+    // Record the change so risk trends have a real time series
+    await RiskScoreHistoryService.recordScoreChange({
+      companyId,
+      riskScore,
+      riskClusters,
+      taskId,
+      source: 'open_banking_submission'
+    });
+
+    // Re-run bank-defined risk score rules against the new score
+    const { runRiskRulesForSubmission } = await import('./riskRuleEvaluator');
+    await runRiskRulesForSubmission(companyId, taskId);
+
+    // Alert banks whose thresholds the new score breaches
+    const { RiskAlertService } = await import('./risk-alert-service');
+    await RiskAlertService.evaluateScore(companyId, riskScore);
+
     return riskScore;
   } catch (error) {
     console.error('[OpenBanking Risk Score] Error generating/updating risk score:', {
@@ -2,7 +2,8 @@
  * PDF Generator Service
  * 
  * This service generates PDF documents for form submissions,
- * transforming form data into formatted PDF files.
+ * transforming form data into formatted PDF files, and the branded
+ * certificates issued for accreditations.
  */
 
 import { Company } from '../types/company';
@@ -83,4 +84,162 @@ export async function generatePDFForFormData(
       error: `PDF generation failed: ${error.message}`
     };
   }
-}
\ No newline at end of file
+}
+/**
+ * Data printed on an accreditation certificate
+ */
+export type AccreditationCertificatePDFData = {
+  certificateId: string;
+  companyName: string;
+  accreditationNumber: number;
+  riskScore: number | null;
+  riskClusters: Record<string, number> | null;
+  issuedDate: string;
+  expiresDate: string | null;
+  signature: string;
+  keyId: string;
+  verifyUrl: string;
+};
+
+// Invela brand blue (#4965EC) as PDF RGB components
+const BRAND_RGB = '0.286 0.396 0.925';
+
+/**
+ * Escape text for a PDF string literal, replacing characters outside the
+ * standard fonts' ASCII range
+ */
+function escapePDFText(text: string): string {
+  return text
+    .replace(/[^\x20-\x7E]/g, '?')
+    .replace(/\\/g, '\\\\')
+    .replace(/\(/g, '\\(')
+    .replace(/\)/g, '\\)');
+}
+
+/**
+ * Content stream operator drawing one line of text
+ */
+function pdfText(x: number, y: number, font: 'F1' | 'F2' | 'F3', size: number, text: string): string {
+  return `BT /${font} ${size} Tf ${x} ${y} Td (${escapePDFText(text)}) Tj ET\n`;
+}
+
+/**
+ * Assemble a single-page US Letter PDF around a content stream, with
+ * Helvetica (F1), Helvetica-Bold (F2) and Courier (F3) available
+ */
+function buildSinglePagePDF(content: string): Buffer {
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    '<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Contents 4 0 R ' +
+      '/Resources << /Font << /F1 5 0 R /F2 6 0 R /F3 7 0 R >> >> >>',
+    `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}endstream`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Courier >>'
+  ];
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((object, index) => {
+    offsets.push(Buffer.byteLength(pdf, 'latin1'));
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+
+  const xrefOffset = Buffer.byteLength(pdf, 'latin1');
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(pdf, 'latin1');
+}
+
+/**
+ * Generate the branded PDF of a signed accreditation certificate
+ *
+ * The PDF carries the certificate ID, signature and verification URL so a
+ * reader can check it against the public verification endpoint.
+ *
+ * @param certificate The signed certificate's details
+ * @returns PDF generation result with content buffer
+ */
+export async function generateAccreditationCertificatePDF(
+  certificate: AccreditationCertificatePDFData
+): Promise<PDFGenerationResult> {
+  try {
+    logger.info('Generating accreditation certificate PDF', { certificateId: certificate.certificateId });
+
+    let content = '';
+
+    // Brand header band
+    content += `${BRAND_RGB} rg 0 692 612 100 re f\n`;
+    content += '1 1 1 rg\n';
+    content += pdfText(50, 750, 'F2', 26, 'Invela');
+    content += pdfText(50, 718, 'F1', 14, 'Certificate of Accreditation');
+
+    content += '0.1 0.1 0.1 rg\n';
+    content += pdfText(50, 640, 'F1', 12, 'This certifies that');
+    content += pdfText(50, 612, 'F2', 22, certificate.companyName);
+    content += pdfText(50, 588, 'F1', 12, 'is an accredited Data Recipient on the Invela Trust Network.');
+
+    const details: Array<[string, string]> = [
+      ['Accreditation number', `#${certificate.accreditationNumber}`],
+      ['Risk score', certificate.riskScore !== null ? `${certificate.riskScore} / 100` : 'Not scored'],
+      ['Issue date', certificate.issuedDate],
+      ['Expiry date', certificate.expiresDate ?? 'No expiry'],
+      ['Certificate ID', certificate.certificateId]
+    ];
+
+    let y = 540;
+    for (const [label, value] of details) {
+      content += pdfText(50, y, 'F2', 11, label);
+      content += pdfText(200, y, 'F1', 11, value);
+      y -= 20;
+    }
+
+    const clusters = Object.entries(certificate.riskClusters || {});
+    if (clusters.length > 0) {
+      y -= 16;
+      content += pdfText(50, y, 'F2', 13, 'Risk clusters at accreditation');
+      y -= 22;
+      for (const [name, score] of clusters) {
+        content += pdfText(50, y, 'F1', 11, name);
+        content += pdfText(200, y, 'F1', 11, String(score));
+        y -= 18;
+      }
+    }
+
+    // Verification block
+    content += `${BRAND_RGB} RG 1 w 50 170 m 562 170 l S\n`;
+    content += '0.1 0.1 0.1 rg\n';
+    content += pdfText(50, 150, 'F2', 11, 'Verify this certificate');
+    content += pdfText(50, 132, 'F1', 10, certificate.verifyUrl);
+    content += pdfText(50, 112, 'F1', 9, `Ed25519 signature (key ${certificate.keyId}):`);
+    for (let i = 0, line = 96; i < certificate.signature.length; i += 64, line -= 12) {
+      content += pdfText(50, line, 'F3', 9, certificate.signature.slice(i, i + 64));
+    }
+    content += '0.45 0.45 0.45 rg\n';
+    content += pdfText(50, 50, 'F1', 8, 'The current status of this accreditation is confirmed only by the verification endpoint.');
+
+    const pdfContent = buildSinglePagePDF(content);
+
+    logger.info('Accreditation certificate PDF generated', {
+      certificateId: certificate.certificateId, contentLength: pdfContent.length
+    });
+
+    return {
+      success: true,
+      content: pdfContent
+    };
+
+  } catch (error: any) {
+    logger.error(`Error generating accreditation certificate PDF: ${error.message}`, {
+      certificateId: certificate.certificateId, error: error.message
+    });
+
+    return {
+      success: false,
+      error: `PDF generation failed: ${error.message}`
+    };
+  }
+}
@@ -0,0 +1,376 @@
+/**
+ * ========================================
+ * Risk Alert Service
+ * ========================================
+ *
+ * Raises an alert for a bank whenever one of its data recipients' risk
+ * score is written below the bank's risk acceptance level or one of its
+ * configured risk thresholds, and delivers it over WebSocket and email.
+ *
+ * Key Features:
+ * - Alert rules derived from the bank's risk_priorities and risk_configuration
+ * - Scores compared with the bank's risk score rules applied
+ * - Deduplication: one unresolved alert per bank, company and rule
+ * - Delivery through the WebSocket `notification` message and email
+ * - Acknowledgement and snooze state; alerts resolve when the score recovers
+ *
+ * @module RiskAlertService
+ * @version 1.0.0
+ * @since 2025-06-05
+ */
+
+import { db } from '@db';
+import {
+  companies,
+  users,
+  riskAlerts,
+  RiskAlertRule,
+  RiskAlertStatus,
+  type RiskAlert,
+  type CompanyRiskConfiguration,
+  type CompanyRiskPriorities
+} from '@db/schema';
+import { eq, and, ne, inArray, desc, sql } from 'drizzle-orm';
+import { getNetworkCompanyIds } from './company-service';
+import { getRiskRuleEvaluations, applyRuleAdjustment } from './riskRuleEvaluator';
+import { RiskConfigurationVersionService } from './risk-configuration-version-service';
+import { broadcastNotification } from '../utils/unified-websocket';
+
+export interface RiskAlertRuleDefinition {
+  rule: RiskAlertRule;
+  label: string;
+  threshold: number;
+}
+
+export interface RiskAlertWithCompany extends RiskAlert {
+  company_name: string;
+}
+
+interface AlertBank {
+  id: number;
+  name: string;
+  risk_priorities: CompanyRiskPriorities | null;
+  risk_configuration: CompanyRiskConfiguration | null;
+}
+
+const RULE_LABELS: Record<RiskAlertRule, string> = {
+  [RiskAlertRule.RISK_ACCEPTANCE_LEVEL]: 'risk acceptance level',
+  [RiskAlertRule.HIGH_RISK_THRESHOLD]: 'high risk threshold',
+  [RiskAlertRule.MEDIUM_RISK_THRESHOLD]: 'medium risk threshold'
+};
+
+/**
+ * Risk Alert Service - Evaluates, deduplicates and delivers risk threshold alerts
+ */
+export class RiskAlertService {
+
+  /**
+   * Gets the alert rules a bank has configured
+   *
+   * @param bank - The bank's risk priorities and configuration
+   * @returns One rule per configured, positive threshold
+   */
+  static getAlertRules(bank: Pick<AlertBank, 'risk_priorities' | 'risk_configuration'>): RiskAlertRuleDefinition[] {
+    const candidates: Array<[RiskAlertRule, unknown]> = [
+      [RiskAlertRule.RISK_ACCEPTANCE_LEVEL, bank.risk_priorities?.riskAcceptanceLevel],
+      [RiskAlertRule.HIGH_RISK_THRESHOLD, bank.risk_configuration?.thresholds?.high],
+      [RiskAlertRule.MEDIUM_RISK_THRESHOLD, bank.risk_configuration?.thresholds?.medium]
+    ];
+
+    return candidates
+      .map(([rule, value]) => ({ rule, label: RULE_LABELS[rule], threshold: Number(value) }))
+      .filter(definition => Number.isFinite(definition.threshold) && definition.threshold > 0);
+  }
+
+  /**
+   * Evaluates every bank's alert rules against a newly written risk score
+   *
+   * Opens and delivers an alert on the first breach, updates the existing
+   * alert on repeated breaches (re-delivering only when a snooze has
+   * expired) and resolves it once the score is back at or above the
+   * threshold. Never throws, so callers writing scores are not affected.
+   *
+   * @param companyId - The company whose score was written
+   * @param riskScore - The new risk score
+   * @returns Alerts that were delivered
+   */
+  static async evaluateScore(companyId: number, riskScore: number): Promise<RiskAlert[]> {
+    const delivered: RiskAlert[] = [];
+
+    try {
+      const [company] = await db
+        .select({ id: companies.id, name: companies.name })
+        .from(companies)
+        .where(eq(companies.id, companyId));
+
+      const networkIds = await getNetworkCompanyIds(companyId);
+      if (!company || networkIds.length === 0) {
+        return delivered;
+      }
+
+      const bankRows = await db
+        .select({ id: companies.id, name: companies.name })
+        .from(companies)
+        .where(and(inArray(companies.id, networkIds), inArray(companies.category, ['Bank', 'Invela'])));
+
+      for (const bankRow of bankRows) {
+        // Thresholds come from the settings in effect, including scheduled versions that became due
+        const settings = await RiskConfigurationVersionService.getEffectiveSettings(bankRow.id);
+        const bank: AlertBank = {
+          ...bankRow,
+          risk_priorities: settings.riskPriorities,
+          risk_configuration: settings.riskConfiguration
+        };
+
+        // Each bank is alerted on its own view of the score, with its risk score rules applied
+        const evaluations = await getRiskRuleEvaluations(bank.id, [companyId]);
+        const bankScore = applyRuleAdjustment(riskScore, evaluations.get(companyId));
+
+        for (const definition of this.getAlertRules(bank)) {
+          const alert = await this.applyRule(bank, companyId, definition, bankScore);
+          if (alert) {
+            await this.deliver(alert, bank, company.name, definition);
+            delivered.push(alert);
+          }
+        }
+      }
+
+      console.log('[RiskAlertService] Evaluated alert rules', {
+        companyId,
+        riskScore,
+        banks: bankRows.length,
+        delivered: delivered.length
+      });
+    } catch (error) {
+      console.error('[RiskAlertService] Error evaluating risk alerts', {
+        companyId,
+        riskScore,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+
+    return delivered;
+  }
+
+  /**
+   * Applies one rule of one bank to a score
+   *
+   * @returns The alert when it needs to be delivered, otherwise null
+   */
+  private static async applyRule(
+    bank: AlertBank,
+    companyId: number,
+    definition: RiskAlertRuleDefinition,
+    riskScore: number
+  ): Promise<RiskAlert | null> {
+    const now = new Date();
+    const breached = riskScore < definition.threshold;
+
+    const [existing] = await db
+      .select()
+      .from(riskAlerts)
+      .where(and(
+        eq(riskAlerts.bank_company_id, bank.id),
+        eq(riskAlerts.company_id, companyId),
+        eq(riskAlerts.rule, definition.rule),
+        ne(riskAlerts.status, RiskAlertStatus.RESOLVED)
+      ));
+
+    if (!breached) {
+      if (existing) {
+        await db
+          .update(riskAlerts)
+          .set({ status: RiskAlertStatus.RESOLVED, risk_score: riskScore, resolved_at: now, updated_at: now })
+          .where(eq(riskAlerts.id, existing.id));
+
+        console.log('[RiskAlertService] Resolved alert', { alertId: existing.id, riskScore });
+      }
+      return null;
+    }
+
+    if (!existing) {
+      // The partial unique index turns a concurrent duplicate into a no-op
+      const [created] = await db
+        .insert(riskAlerts)
+        .values({
+          bank_company_id: bank.id,
+          company_id: companyId,
+          rule: definition.rule,
+          threshold: definition.threshold,
+          risk_score: riskScore,
+          status: RiskAlertStatus.OPEN
+        })
+        .onConflictDoNothing()
+        .returning();
+
+      return created ?? null;
+    }
+
+    const snoozeExpired = existing.status === RiskAlertStatus.SNOOZED &&
+      (!existing.snoozed_until || existing.snoozed_until <= now);
+
+    const [updated] = await db
+      .update(riskAlerts)
+      .set({
+        threshold: definition.threshold,
+        risk_score: riskScore,
+        occurrences: sql`${riskAlerts.occurrences} + 1`,
+        ...(snoozeExpired ? { status: RiskAlertStatus.OPEN, snoozed_until: null } : {}),
+        updated_at: now
+      })
+      .where(eq(riskAlerts.id, existing.id))
+      .returning();
+
+    return snoozeExpired ? updated : null;
+  }
+
+  /**
+   * Delivers an alert to the bank's connected clients and users
+   */
+  private static async deliver(
+    alert: RiskAlert,
+    bank: AlertBank,
+    companyName: string,
+    definition: RiskAlertRuleDefinition
+  ): Promise<void> {
+    const message = `${companyName}'s risk score is now ${alert.risk_score}, below your ${definition.label} of ${definition.threshold}.`;
+
+    broadcastNotification(
+      {
+        title: 'Risk threshold breached',
+        message,
+        variant: 'destructive',
+        metadata: {
+          alertId: alert.id,
+          rule: alert.rule,
+          companyId: alert.company_id,
+          bankCompanyId: alert.bank_company_id,
+          threshold: alert.threshold,
+          riskScore: alert.risk_score
+        }
+      },
+      client => client.companyId === bank.id
+    );
+
+    try {
+      const recipients = await db
+        .select({ email: users.email, full_name: users.full_name })
+        .from(users)
+        .where(eq(users.company_id, bank.id));
+
+      // Imported lazily so score writes never depend on email configuration
+      const { emailService } = await import('./email');
+      const alertUrl = `${process.env.APP_URL || `http://localhost:${process.env.PORT || 5000}`}/network/company/${alert.company_id}?tab=risk`;
+
+      for (const recipient of recipients) {
+        await emailService.sendRiskAlertEmail(recipient.email, {
+          recipientName: recipient.full_name,
+          bankName: bank.name,
+          companyName,
+          ruleLabel: definition.label,
+          threshold: alert.threshold,
+          riskScore: alert.risk_score,
+          alertUrl
+        });
+      }
+    } catch (error) {
+      console.error('[RiskAlertService] Error sending risk alert emails', {
+        alertId: alert.id,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+
+    await db
+      .update(riskAlerts)
+      .set({ last_notified_at: new Date() })
+      .where(eq(riskAlerts.id, alert.id));
+
+    console.log('[RiskAlertService] Delivered alert', {
+      alertId: alert.id,
+      bankCompanyId: bank.id,
+      companyId: alert.company_id,
+      rule: alert.rule
+    });
+  }
+
+  /**
+   * Lists a bank's alerts, newest first
+   *
+   * @param bankCompanyId - The bank whose alerts to list
+   * @param includeResolved - Whether to include resolved alerts
+   * @returns Alerts with the data recipient's name
+   */
+  static async listAlerts(bankCompanyId: number, includeResolved = false): Promise<RiskAlertWithCompany[]> {
+    const conditions = [eq(riskAlerts.bank_company_id, bankCompanyId)];
+    if (!includeResolved) {
+      conditions.push(ne(riskAlerts.status, RiskAlertStatus.RESOLVED));
+    }
+
+    const rows = await db
+      .select({ alert: riskAlerts, company_name: companies.name })
+      .from(riskAlerts)
+      .innerJoin(companies, eq(riskAlerts.company_id, companies.id))
+      .where(and(...conditions))
+      .orderBy(desc(riskAlerts.created_at));
+
+    return rows.map(row => ({ ...row.alert, company_name: row.company_name }));
+  }
+
+  /**
+   * Acknowledges an unresolved alert
+   *
+   * @param alertId - Alert ID
+   * @param bankCompanyId - The bank the alert must belong to
+   * @param userId - User acknowledging the alert
+   * @returns The updated alert, or null when no such unresolved alert exists
+   */
+  static async acknowledge(alertId: number, bankCompanyId: number, userId: number): Promise<RiskAlert | null> {
+    const now = new Date();
+    const [alert] = await db
+      .update(riskAlerts)
+      .set({
+        status: RiskAlertStatus.ACKNOWLEDGED,
+        acknowledged_by: userId,
+        acknowledged_at: now,
+        snoozed_until: null,
+        updated_at: now
+      })
+      .where(and(
+        eq(riskAlerts.id, alertId),
+        eq(riskAlerts.bank_company_id, bankCompanyId),
+        ne(riskAlerts.status, RiskAlertStatus.RESOLVED)
+      ))
+      .returning();
+
+    return alert ?? null;
+  }
+
+  /**
+   * Snoozes an unresolved alert; it is delivered again if the threshold is
+   * still breached when a score is written after the snooze ends
+   *
+   * @param alertId - Alert ID
+   * @param bankCompanyId - The bank the alert must belong to
+   * @param userId - User snoozing the alert
+   * @param until - End of the snooze
+   * @returns The updated alert, or null when no such unresolved alert exists
+   */
+  static async snooze(alertId: number, bankCompanyId: number, userId: number, until: Date): Promise<RiskAlert | null> {
+    const [alert] = await db
+      .update(riskAlerts)
+      .set({
+        status: RiskAlertStatus.SNOOZED,
+        snoozed_by: userId,
+        snoozed_until: until,
+        updated_at: new Date()
+      })
+      .where(and(
+        eq(riskAlerts.id, alertId),
+        eq(riskAlerts.bank_company_id, bankCompanyId),
+        ne(riskAlerts.status, RiskAlertStatus.RESOLVED)
+      ))
+      .returning();
+
+    return alert ?? null;
+  }
+}
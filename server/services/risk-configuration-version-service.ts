@@ -0,0 +1,381 @@
+/**
+ * ========================================
+ * Risk Configuration Version Service
+ * ========================================
+ *
+ * Keeps every saved risk configuration and risk priorities set as an
+ * immutable version, so earlier settings are never lost and historical
+ * scores can be traced back to the settings that produced them.
+ *
+ * Key Features:
+ * - Sequential, immutable versions per company with author and timestamp
+ * - Optional effective-from date; future versions apply once they are due
+ * - Shared loader for the settings in effect, which activates due versions
+ * - Field-level diff between any two versions
+ * - Rollback by re-publishing an earlier version as a new version
+ *
+ * @module RiskConfigurationVersionService
+ * @version 1.0.0
+ * @since 2025-06-05
+ */
+
+import { db, type DbExecutor } from '@db';
+import {
+  companies,
+  riskConfigurationVersions,
+  type RiskConfigurationVersion,
+  type CompanyRiskConfiguration,
+  type CompanyRiskPriorities
+} from '@db/schema';
+import { eq, and, desc, lte } from 'drizzle-orm';
+
+export type RiskConfigurationChangeType = 'configuration' | 'priorities' | 'rollback' | 'backfill';
+
+export interface CreateRiskConfigurationVersionParams {
+  companyId: number;
+  riskConfiguration?: CompanyRiskConfiguration | null; // Omit to keep the current configuration
+  riskPriorities?: CompanyRiskPriorities | null;       // Omit to keep the current priorities
+  changeType: RiskConfigurationChangeType;
+  createdBy?: number | null;
+  effectiveFrom?: Date | null;
+  rolledBackFromVersion?: number | null;
+}
+
+export interface EffectiveRiskSettings {
+  riskConfiguration: CompanyRiskConfiguration | null;
+  riskPriorities: CompanyRiskPriorities | null;
+}
+
+export interface RiskConfigurationChange {
+  path: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface RiskConfigurationDiff {
+  companyId: number;
+  fromVersion: number;
+  toVersion: number;
+  changes: RiskConfigurationChange[];
+}
+
+/**
+ * Whether a list item is identified by an id, like a risk dimension
+ */
+function hasId(item: unknown): item is { id: unknown } {
+  return !!item && typeof item === 'object' && 'id' in item;
+}
+
+/**
+ * Risk Configuration Version Service - Versions risk configurations and priorities
+ */
+export class RiskConfigurationVersionService {
+
+  /**
+   * Creates a new immutable version
+   *
+   * The part that is not being changed is carried over from the version in
+   * effect when the new version takes effect, so a version scheduled for
+   * later never leaks into an earlier one. When the version is already
+   * effective it is also written to the company's risk_configuration and
+   * risk_priorities columns.
+   *
+   * @param params - Version parameters
+   * @param trx - Optional transaction context
+   * @returns The created version
+   */
+  static async createVersion(params: CreateRiskConfigurationVersionParams, trx?: DbExecutor): Promise<RiskConfigurationVersion> {
+    const dbContext = trx || db;
+
+    const effectiveFrom = params.effectiveFrom ?? new Date();
+
+    const [latest] = await dbContext
+      .select({ version_number: riskConfigurationVersions.version_number })
+      .from(riskConfigurationVersions)
+      .where(eq(riskConfigurationVersions.company_id, params.companyId))
+      .orderBy(desc(riskConfigurationVersions.version_number))
+      .limit(1);
+
+    let base: Pick<RiskConfigurationVersion, 'risk_configuration' | 'risk_priorities'> | null | undefined =
+      await this.getEffectiveVersion(params.companyId, effectiveFrom, dbContext);
+    if (!base) {
+      [base] = await dbContext
+        .select({
+          risk_configuration: companies.risk_configuration,
+          risk_priorities: companies.risk_priorities
+        })
+        .from(companies)
+        .where(eq(companies.id, params.companyId));
+    }
+
+    const [version] = await dbContext
+      .insert(riskConfigurationVersions)
+      .values({
+        company_id: params.companyId,
+        version_number: latest ? latest.version_number + 1 : 1,
+        risk_configuration: params.riskConfiguration !== undefined
+          ? params.riskConfiguration
+          : base?.risk_configuration ?? null,
+        risk_priorities: params.riskPriorities !== undefined
+          ? params.riskPriorities
+          : base?.risk_priorities ?? null,
+        change_type: params.changeType,
+        rolled_back_from_version: params.rolledBackFromVersion ?? null,
+        created_by: params.createdBy ?? null,
+        effective_from: effectiveFrom
+      })
+      .returning();
+
+    console.log('[RiskConfigurationVersionService] Created version', {
+      companyId: params.companyId,
+      versionNumber: version.version_number,
+      changeType: params.changeType,
+      effectiveFrom: effectiveFrom.toISOString()
+    });
+
+    if (effectiveFrom <= new Date()) {
+      await this.syncEffectiveVersion(params.companyId, dbContext);
+    }
+
+    return version;
+  }
+
+  /**
+   * Gets the version in effect for a company at a point in time
+   *
+   * @param companyId - Company ID
+   * @param at - Point in time (defaults to now)
+   * @param trx - Optional transaction context
+   * @returns The effective version, or null when the company has none
+   */
+  static async getEffectiveVersion(companyId: number, at: Date = new Date(), trx?: DbExecutor): Promise<RiskConfigurationVersion | null> {
+    const dbContext = trx || db;
+
+    const [version] = await dbContext
+      .select()
+      .from(riskConfigurationVersions)
+      .where(and(
+        eq(riskConfigurationVersions.company_id, companyId),
+        lte(riskConfigurationVersions.effective_from, at)
+      ))
+      .orderBy(desc(riskConfigurationVersions.effective_from), desc(riskConfigurationVersions.version_number))
+      .limit(1);
+
+    return version ?? null;
+  }
+
+  /**
+   * Writes the effective version to the company record when they differ,
+   * which activates versions whose effective-from date has passed
+   *
+   * @param companyId - Company ID
+   * @param trx - Optional transaction context
+   * @returns The effective version, or null when the company has none
+   */
+  static async syncEffectiveVersion(companyId: number, trx?: DbExecutor): Promise<RiskConfigurationVersion | null> {
+    const dbContext = trx || db;
+    const version = await this.getEffectiveVersion(companyId, new Date(), dbContext);
+
+    if (!version) {
+      return null;
+    }
+
+    const [company] = await dbContext
+      .select({
+        risk_configuration: companies.risk_configuration,
+        risk_priorities: companies.risk_priorities
+      })
+      .from(companies)
+      .where(eq(companies.id, companyId));
+
+    if (
+      company &&
+      (JSON.stringify(company.risk_configuration ?? null) !== JSON.stringify(version.risk_configuration ?? null) ||
+        JSON.stringify(company.risk_priorities ?? null) !== JSON.stringify(version.risk_priorities ?? null))
+    ) {
+      await dbContext
+        .update(companies)
+        .set({
+          risk_configuration: version.risk_configuration,
+          risk_priorities: version.risk_priorities,
+          updated_at: new Date()
+        })
+        .where(eq(companies.id, companyId));
+
+      console.log('[RiskConfigurationVersionService] Applied effective version', {
+        companyId,
+        versionNumber: version.version_number
+      });
+    }
+
+    return version;
+  }
+
+  /**
+   * Gets the risk configuration and priorities in effect for a company
+   *
+   * Scheduled versions that have become due are applied first, so every
+   * consumer sees them from the moment they take effect.
+   *
+   * @param companyId - Company ID
+   * @param trx - Optional transaction context
+   * @returns The settings in effect, from the company record when it has no versions
+   */
+  static async getEffectiveSettings(companyId: number, trx?: DbExecutor): Promise<EffectiveRiskSettings> {
+    const dbContext = trx || db;
+    const version = await this.syncEffectiveVersion(companyId, dbContext);
+
+    if (version) {
+      return {
+        riskConfiguration: version.risk_configuration ?? null,
+        riskPriorities: version.risk_priorities ?? null
+      };
+    }
+
+    const [company] = await dbContext
+      .select({
+        risk_configuration: companies.risk_configuration,
+        risk_priorities: companies.risk_priorities
+      })
+      .from(companies)
+      .where(eq(companies.id, companyId));
+
+    return {
+      riskConfiguration: company?.risk_configuration ?? null,
+      riskPriorities: company?.risk_priorities ?? null
+    };
+  }
+
+  /**
+   * Lists all versions of a company, newest first
+   *
+   * @param companyId - Company ID
+   * @returns Versions in descending version order
+   */
+  static async listVersions(companyId: number): Promise<RiskConfigurationVersion[]> {
+    return db
+      .select()
+      .from(riskConfigurationVersions)
+      .where(eq(riskConfigurationVersions.company_id, companyId))
+      .orderBy(desc(riskConfigurationVersions.version_number));
+  }
+
+  /**
+   * Gets a single version by its number
+   *
+   * @param companyId - Company ID
+   * @param versionNumber - Version number
+   * @returns The version, or null when it does not exist
+   */
+  static async getVersion(companyId: number, versionNumber: number): Promise<RiskConfigurationVersion | null> {
+    const [version] = await db
+      .select()
+      .from(riskConfigurationVersions)
+      .where(and(
+        eq(riskConfigurationVersions.company_id, companyId),
+        eq(riskConfigurationVersions.version_number, versionNumber)
+      ));
+
+    return version ?? null;
+  }
+
+  /**
+   * Compares two versions field by field
+   *
+   * Dimension lists are compared by dimension id rather than position, and
+   * their order is reported as a separate path, so a reordering shows up as
+   * one change instead of a change to every dimension.
+   *
+   * @param companyId - Company ID
+   * @param fromVersion - Older version number
+   * @param toVersion - Newer version number
+   * @returns The changed paths, or null when either version does not exist
+   */
+  static async diffVersions(companyId: number, fromVersion: number, toVersion: number): Promise<RiskConfigurationDiff | null> {
+    const [from, to] = await Promise.all([
+      this.getVersion(companyId, fromVersion),
+      this.getVersion(companyId, toVersion)
+    ]);
+
+    if (!from || !to) {
+      return null;
+    }
+
+    const before = this.flatten({
+      risk_configuration: from.risk_configuration,
+      risk_priorities: from.risk_priorities
+    });
+    const after = this.flatten({
+      risk_configuration: to.risk_configuration,
+      risk_priorities: to.risk_priorities
+    });
+
+    const paths = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).sort();
+    const changes: RiskConfigurationChange[] = [];
+
+    for (const path of paths) {
+      if (JSON.stringify(before[path]) !== JSON.stringify(after[path])) {
+        changes.push({ path, before: before[path] ?? null, after: after[path] ?? null });
+      }
+    }
+
+    return { companyId, fromVersion, toVersion, changes };
+  }
+
+  /**
+   * Rolls back to an earlier version by publishing its content as a new version
+   *
+   * @param companyId - Company ID
+   * @param versionNumber - Version to restore
+   * @param createdBy - User performing the rollback
+   * @param effectiveFrom - Optional date the rollback takes effect
+   * @returns The new version, or null when the target version does not exist
+   */
+  static async rollback(
+    companyId: number,
+    versionNumber: number,
+    createdBy?: number | null,
+    effectiveFrom?: Date | null
+  ): Promise<RiskConfigurationVersion | null> {
+    const target = await this.getVersion(companyId, versionNumber);
+
+    if (!target) {
+      return null;
+    }
+
+    return db.transaction(async (trx) => {
+      return this.createVersion({
+        companyId,
+        riskConfiguration: target.risk_configuration ?? null,
+        riskPriorities: target.risk_priorities ?? null,
+        changeType: 'rollback',
+        createdBy,
+        effectiveFrom,
+        rolledBackFromVersion: versionNumber
+      }, trx);
+    });
+  }
+
+  /**
+   * Flattens a JSON value into path/value pairs for diffing
+   */
+  private static flatten(value: unknown, prefix = '', result: Record<string, unknown> = {}): Record<string, unknown> {
+    if (Array.isArray(value)) {
+      const items: unknown[] = value;
+      if (items.length > 0 && items.every(hasId)) {
+        result[`${prefix}.order`] = items.map(item => item.id).join(',');
+        items.forEach(item => this.flatten(item, `${prefix}[${item.id}]`, result));
+      } else {
+        items.forEach((item, index) => this.flatten(item, `${prefix}[${index}]`, result));
+      }
+    } else if (value && typeof value === 'object') {
+      for (const [key, child] of Object.entries(value)) {
+        this.flatten(child, prefix ? `${prefix}.${key}` : key, result);
+      }
+    } else {
+      result[prefix] = value;
+    }
+
+    return result;
+  }
+}
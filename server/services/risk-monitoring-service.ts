@@ -0,0 +1,328 @@
+/**
+ * ========================================
+ * Risk Monitoring Service
+ * ========================================
+ *
+ * Decides the monitoring status of every data recipient in a bank's
+ * network. Blocking is an enforcement decision, so it is made here with the
+ * bank's own settings and recorded score history rather than in the browser.
+ *
+ * Key Features:
+ * - Stable / Monitoring / Approaching Block / Blocked status per company
+ * - Per-bank blocking threshold, blocking cap and monitoring sensitivity
+ * - Warns when more data recipients are blocked than the blocking cap allows
+ * - Previous scores come from the recorded risk score history
+ * - Scores are the bank's view, with its risk score rules applied
+ *
+ * @module RiskMonitoringService
+ * @version 1.0.0
+ * @since 2025-06-05
+ */
+
+import { db } from '@db';
+import { companies, riskMonitoringSettings } from '@db/schema';
+import { eq, and, inArray } from 'drizzle-orm';
+import { getNetworkCompanyIds } from './company-service';
+import { RiskScoreHistoryService, type RiskTrendWindow } from './risk-score-history-service';
+import { getRiskRuleEvaluations, applyRuleAdjustment } from './riskRuleEvaluator';
+
+export type RiskMonitoringStatus = 'Stable' | 'Monitoring' | 'Approaching Block' | 'Blocked';
+
+export interface RiskMonitoringSettings {
+  blockingThreshold: number;
+  blockingCapPercentage: number | null; // Share of blocked recipients above which the bank is warned, null disables it
+  deteriorationThreshold: number;
+  approachingBlockPercentage: number;
+}
+
+export interface MonitoredCompany {
+  id: number;
+  name: string;
+  category: string;
+  currentScore: number;
+  previousScore: number;
+  change: number;
+  status: RiskMonitoringStatus;
+}
+
+export interface RiskMonitoringSummary {
+  total: number;
+  blocked: number;
+  approaching: number;
+  monitoring: number;
+  stable: number;
+  blockedPercentage: number;
+  blockingCapExceeded: boolean;
+}
+
+export interface NetworkRiskStatus {
+  window: RiskTrendWindow;
+  settings: RiskMonitoringSettings;
+  companies: MonitoredCompany[];
+  summary: RiskMonitoringSummary;
+}
+
+/**
+ * Settings used when a bank has not configured its own
+ */
+export const DEFAULT_RISK_MONITORING_SETTINGS: RiskMonitoringSettings = {
+  blockingThreshold: 40,
+  blockingCapPercentage: 0.15, // 15% cap
+  deteriorationThreshold: 5, // Minimum score drop to be considered deteriorating
+  approachingBlockPercentage: 20 // Within 20% of threshold
+};
+
+/**
+ * Risk Monitoring Service - Determines blocking and monitoring status
+ */
+export class RiskMonitoringService {
+
+  /**
+   * Gets a bank's monitoring settings
+   *
+   * Banks without stored settings use the defaults, including the default
+   * blocking threshold of 40.
+   *
+   * @param bankCompanyId - The bank whose settings to read
+   * @returns The effective settings
+   */
+  static async getSettings(bankCompanyId: number): Promise<RiskMonitoringSettings> {
+    const [stored] = await db
+      .select()
+      .from(riskMonitoringSettings)
+      .where(eq(riskMonitoringSettings.company_id, bankCompanyId));
+
+    if (stored) {
+      return {
+        blockingThreshold: stored.blocking_threshold,
+        blockingCapPercentage: stored.blocking_cap_percentage,
+        deteriorationThreshold: stored.deterioration_threshold,
+        approachingBlockPercentage: stored.approaching_block_percentage
+      };
+    }
+
+    return { ...DEFAULT_RISK_MONITORING_SETTINGS };
+  }
+
+  /**
+   * Creates or updates a bank's monitoring settings
+   *
+   * @param bankCompanyId - The bank whose settings to change
+   * @param settings - The complete new settings
+   * @param userId - User making the change
+   * @returns The saved settings
+   */
+  static async updateSettings(
+    bankCompanyId: number,
+    settings: RiskMonitoringSettings,
+    userId?: number
+  ): Promise<RiskMonitoringSettings> {
+    const values = {
+      blocking_threshold: settings.blockingThreshold,
+      blocking_cap_percentage: settings.blockingCapPercentage,
+      deterioration_threshold: settings.deteriorationThreshold,
+      approaching_block_percentage: settings.approachingBlockPercentage,
+      updated_by: userId ?? null,
+      updated_at: new Date()
+    };
+
+    await db
+      .insert(riskMonitoringSettings)
+      .values({ company_id: bankCompanyId, ...values })
+      .onConflictDoUpdate({ target: riskMonitoringSettings.company_id, set: values });
+
+    console.log('[RiskMonitoringService] Updated monitoring settings', { bankCompanyId, ...settings });
+
+    return this.getSettings(bankCompanyId);
+  }
+
+  /**
+   * Calculates the monitoring status for a single company
+   *
+   * @param currentScore - Current risk score (0-100)
+   * @param previousScore - Score at the start of the monitoring window
+   * @param settings - The bank's monitoring settings
+   * @returns Risk monitoring status
+   */
+  static calculateRiskStatus(
+    currentScore: number,
+    previousScore: number,
+    settings: RiskMonitoringSettings = DEFAULT_RISK_MONITORING_SETTINGS
+  ): RiskMonitoringStatus {
+    if (currentScore < 0 || currentScore > 100 || previousScore < 0 || previousScore > 100) {
+      return 'Stable';
+    }
+
+    const threshold = settings.blockingThreshold;
+
+    // If below threshold, the company is blocked
+    if (currentScore < threshold) {
+      return 'Blocked';
+    }
+
+    // Percentage of the distance between threshold and a perfect score
+    const percentToThreshold = threshold < 100 ? ((currentScore - threshold) / (100 - threshold)) * 100 : 0;
+    const hasDeteriorated = previousScore - currentScore > settings.deteriorationThreshold;
+
+    // Company is approaching block if close to threshold and deteriorating
+    if (percentToThreshold < settings.approachingBlockPercentage && hasDeteriorated) {
+      return 'Approaching Block';
+    }
+
+    // Company is being monitored if it has deteriorated significantly
+    if (hasDeteriorated) {
+      return 'Monitoring';
+    }
+
+    return 'Stable';
+  }
+
+  /**
+   * Whether more data recipients are blocked than the blocking cap allows
+   *
+   * The cap never changes a status: a company below the threshold stays
+   * blocked, and exceeding the cap is reported so the bank can review its
+   * threshold.
+   *
+   * @param monitored - Companies with their status
+   * @param settings - The bank's monitoring settings
+   * @returns True when the share of blocked companies is above the cap
+   */
+  static isBlockingCapExceeded(monitored: MonitoredCompany[], settings: RiskMonitoringSettings): boolean {
+    if (settings.blockingCapPercentage === null || monitored.length === 0) {
+      return false;
+    }
+
+    const blocked = monitored.filter(company => company.status === 'Blocked').length;
+    return blocked > Math.floor(monitored.length * settings.blockingCapPercentage);
+  }
+
+  /**
+   * Gets the monitoring status of every data recipient in a bank's network
+   *
+   * @param bankCompanyId - The bank whose network to evaluate
+   * @param window - Window the previous score is taken from
+   * @returns Settings, per-company status and a summary
+   */
+  static async getNetworkStatus(bankCompanyId: number, window: RiskTrendWindow): Promise<NetworkRiskStatus> {
+    const settings = await this.getSettings(bankCompanyId);
+    const networkIds = await getNetworkCompanyIds(bankCompanyId);
+
+    if (networkIds.length === 0) {
+      return { window, settings, companies: [], summary: this.summarize([], settings) };
+    }
+
+    const [recipients, changes, evaluations] = await Promise.all([
+      db.select({
+        id: companies.id,
+        name: companies.name,
+        category: companies.category,
+        risk_score: companies.risk_score
+      })
+      .from(companies)
+      .where(and(inArray(companies.id, networkIds), eq(companies.category, 'FinTech'))),
+      RiskScoreHistoryService.getScoreChanges(networkIds, window),
+      getRiskRuleEvaluations(bankCompanyId, networkIds)
+    ]);
+
+    const changesById = new Map(changes.map(change => [change.companyId, change]));
+
+    const monitored = recipients
+      .filter(company => company.risk_score !== null || changesById.has(company.id))
+      .map(company => {
+        const change = changesById.get(company.id);
+        const evaluation = evaluations.get(company.id);
+        const currentScore = applyRuleAdjustment(change?.currentScore ?? company.risk_score ?? 0, evaluation);
+        const previousScore = change?.previousScore !== null && change?.previousScore !== undefined
+          ? applyRuleAdjustment(change.previousScore, evaluation)
+          : currentScore;
+
+        return {
+          id: company.id,
+          name: company.name,
+          category: company.category,
+          currentScore,
+          previousScore,
+          change: currentScore - previousScore,
+          status: this.calculateRiskStatus(currentScore, previousScore, settings)
+        };
+      });
+
+    return { window, settings, companies: monitored, summary: this.summarize(monitored, settings) };
+  }
+
+  /**
+   * Gets the monitoring status of a single company as seen by a bank
+   *
+   * Companies in the bank's network get the same status as in the
+   * network view; any other company is evaluated on its own.
+   *
+   * @param bankCompanyId - The bank whose settings apply
+   * @param companyId - The company to evaluate
+   * @param window - Window the previous score is taken from
+   * @returns The company's status, or null when the company has no score
+   */
+  static async getCompanyStatus(
+    bankCompanyId: number,
+    companyId: number,
+    window: RiskTrendWindow
+  ): Promise<MonitoredCompany | null> {
+    const network = await this.getNetworkStatus(bankCompanyId, window);
+    const inNetwork = network.companies.find(company => company.id === companyId);
+
+    if (inNetwork) {
+      return inNetwork;
+    }
+
+    const [company] = await db
+      .select({
+        id: companies.id,
+        name: companies.name,
+        category: companies.category,
+        risk_score: companies.risk_score
+      })
+      .from(companies)
+      .where(eq(companies.id, companyId));
+
+    if (!company) {
+      return null;
+    }
+
+    const [change] = await RiskScoreHistoryService.getScoreChanges([companyId], window);
+    const currentScore = change?.currentScore ?? company.risk_score;
+
+    if (currentScore === null || currentScore === undefined) {
+      return null;
+    }
+
+    const previousScore = change?.previousScore ?? currentScore;
+
+    return {
+      id: company.id,
+      name: company.name,
+      category: company.category,
+      currentScore,
+      previousScore,
+      change: currentScore - previousScore,
+      status: this.calculateRiskStatus(currentScore, previousScore, network.settings)
+    };
+  }
+
+  /**
+   * Summarizes statuses for dashboard counters
+   */
+  static summarize(monitored: MonitoredCompany[], settings: RiskMonitoringSettings): RiskMonitoringSummary {
+    const count = (status: RiskMonitoringStatus) => monitored.filter(company => company.status === status).length;
+    const blocked = count('Blocked');
+
+    return {
+      total: monitored.length,
+      blocked,
+      approaching: count('Approaching Block'),
+      monitoring: count('Monitoring'),
+      stable: count('Stable'),
+      blockedPercentage: monitored.length > 0 ? Math.round((blocked / monitored.length) * 1000) / 10 : 0,
+      blockingCapExceeded: this.isBlockingCapExceeded(monitored, settings)
+    };
+  }
+}
@@ -0,0 +1,304 @@
+/**
+ * ========================================
+ * Risk Score History Service
+ * ========================================
+ *
+ * Records every change of a company's risk score and serves windowed time
+ * series for trend indicators and the deteriorating risk table.
+ *
+ * Key Features:
+ * - Appends a history row whenever a recalculated score or cluster set differs from the last one
+ * - Snapshots the risk configuration and clusters used for each score, and links
+ *   the configuration version in effect so historical scores can be reproduced
+ * - Returns windowed trends (7d, 30d, 90d, 1y, all) with change and direction
+ * - Batch change lookup for a set of network companies
+ *
+ * @module RiskScoreHistoryService
+ * @version 1.0.0
+ * @since 2025-06-05
+ */
+
+import { db, type DbExecutor, type DbTransaction } from '@db';
+import { companies, riskScoreHistory, type RiskScoreHistory } from '@db/schema';
+import { eq, and, desc, asc, gte, lt, inArray } from 'drizzle-orm';
+import { RiskConfigurationVersionService } from './risk-configuration-version-service';
+
+export type RiskTrendWindow = '7d' | '30d' | '90d' | '1y' | 'all';
+
+/**
+ * Window length in days (null means unbounded)
+ */
+export const RISK_TREND_WINDOWS: Record<RiskTrendWindow, number | null> = {
+  '7d': 7,
+  '30d': 30,
+  '90d': 90,
+  '1y': 365,
+  'all': null
+};
+
+export interface RecordRiskScoreParams {
+  companyId: number;
+  riskScore: number;
+  riskClusters?: RiskScoreHistory['risk_clusters'];
+  taskId?: number | null;
+  source: string; // 'open_banking_submission', 'card_submission', ...
+}
+
+export interface RiskTrendPoint {
+  date: Date | null;
+  score: number;
+  clusters: RiskScoreHistory['risk_clusters'];
+  source: string;
+  taskId: number | null;
+  configurationVersionId: number | null;
+}
+
+export interface RiskTrend {
+  companyId: number;
+  window: RiskTrendWindow;
+  currentScore: number | null;
+  previousScore: number | null;
+  change: number;
+  direction: 'up' | 'down' | 'stable';
+  percentage: number;
+  points: RiskTrendPoint[];
+}
+
+export interface RiskScoreChange {
+  companyId: number;
+  currentScore: number | null;
+  previousScore: number | null;
+  change: number;
+}
+
+/**
+ * Risk Score History Service - Records and queries risk score changes
+ */
+export class RiskScoreHistoryService {
+
+  /**
+   * Records a risk score change for a company
+   *
+   * Nothing is written when the score and clusters are identical to the
+   * latest history entry, so the history only contains actual changes.
+   * Inside a transaction the write runs in a savepoint, so a failed history
+   * write can be caught without aborting the caller's transaction.
+   *
+   * @param params - Score change parameters
+   * @param trx - Optional transaction context
+   * @returns The created history entry, or null when nothing changed
+   */
+  static async recordScoreChange(params: RecordRiskScoreParams, trx?: DbExecutor): Promise<RiskScoreHistory | null> {
+    if (trx) {
+      return trx.transaction((savepoint: DbTransaction) => this.writeScoreChange(params, savepoint));
+    }
+
+    return this.writeScoreChange(params, db);
+  }
+
+  private static async writeScoreChange(params: RecordRiskScoreParams, dbContext: DbExecutor): Promise<RiskScoreHistory | null> {
+    const [latest] = await dbContext
+      .select()
+      .from(riskScoreHistory)
+      .where(eq(riskScoreHistory.company_id, params.companyId))
+      .orderBy(desc(riskScoreHistory.created_at), desc(riskScoreHistory.id))
+      .limit(1);
+
+    const clusters = params.riskClusters ?? null;
+
+    if (
+      latest &&
+      latest.risk_score === params.riskScore &&
+      JSON.stringify(latest.risk_clusters ?? null) === JSON.stringify(clusters)
+    ) {
+      return null;
+    }
+
+    const [company] = await dbContext
+      .select({ risk_configuration: companies.risk_configuration })
+      .from(companies)
+      .where(eq(companies.id, params.companyId))
+      .limit(1);
+
+    const configurationVersion = await RiskConfigurationVersionService.getEffectiveVersion(
+      params.companyId,
+      new Date(),
+      dbContext
+    );
+
+    const [entry] = await dbContext
+      .insert(riskScoreHistory)
+      .values({
+        company_id: params.companyId,
+        risk_score: params.riskScore,
+        previous_risk_score: latest ? latest.risk_score : null,
+        risk_clusters: clusters,
+        risk_configuration: configurationVersion?.risk_configuration ?? company?.risk_configuration ?? null,
+        configuration_version_id: configurationVersion?.id ?? null,
+        source: params.source,
+        task_id: params.taskId ?? null
+      })
+      .returning();
+
+    console.log('[RiskScoreHistoryService] Recorded risk score change', {
+      companyId: params.companyId,
+      previousScore: latest ? latest.risk_score : null,
+      newScore: params.riskScore,
+      source: params.source,
+      taskId: params.taskId ?? null,
+      configurationVersion: configurationVersion?.version_number ?? null
+    });
+
+    return entry;
+  }
+
+  /**
+   * Parses a window query parameter, defaulting to 30 days
+   *
+   * @param value - Raw query value
+   * @returns A valid trend window
+   */
+  static parseWindow(value: unknown): RiskTrendWindow {
+    const window = String(value || '30d').toLowerCase();
+    return window in RISK_TREND_WINDOWS ? window as RiskTrendWindow : '30d';
+  }
+
+  /**
+   * Gets the risk score time series for a company within a window
+   *
+   * The change is measured from the last score before the window opened
+   * (or the first score inside it) to the most recent score.
+   *
+   * @param companyId - Company ID
+   * @param window - Time window to return
+   * @returns Trend summary and data points in chronological order
+   */
+  static async getTrend(companyId: number, window: RiskTrendWindow): Promise<RiskTrend> {
+    const windowStart = this.getWindowStart(window);
+
+    const points = await db
+      .select()
+      .from(riskScoreHistory)
+      .where(
+        windowStart
+          ? and(eq(riskScoreHistory.company_id, companyId), gte(riskScoreHistory.created_at, windowStart))
+          : eq(riskScoreHistory.company_id, companyId)
+      )
+      .orderBy(asc(riskScoreHistory.created_at), asc(riskScoreHistory.id));
+
+    let baseline: RiskScoreHistory | undefined;
+    if (windowStart) {
+      [baseline] = await db
+        .select()
+        .from(riskScoreHistory)
+        .where(and(eq(riskScoreHistory.company_id, companyId), lt(riskScoreHistory.created_at, windowStart)))
+        .orderBy(desc(riskScoreHistory.created_at), desc(riskScoreHistory.id))
+        .limit(1);
+    }
+
+    const latest = points.length > 0 ? points[points.length - 1] : baseline;
+    const first = baseline ?? points[0];
+
+    const currentScore = latest ? latest.risk_score : null;
+    const previousScore = first ? first.risk_score : null;
+
+    return {
+      companyId,
+      window,
+      currentScore,
+      previousScore,
+      ...this.summarizeChange(currentScore, previousScore),
+      points: points.map(point => ({
+        date: point.created_at,
+        score: point.risk_score,
+        clusters: point.risk_clusters,
+        source: point.source,
+        taskId: point.task_id,
+        configurationVersionId: point.configuration_version_id
+      }))
+    };
+  }
+
+  /**
+   * Gets the score change within a window for several companies at once
+   *
+   * @param companyIds - Companies to look up
+   * @param window - Time window to measure the change over
+   * @returns One change entry per company that has history
+   */
+  static async getScoreChanges(companyIds: number[], window: RiskTrendWindow): Promise<RiskScoreChange[]> {
+    if (companyIds.length === 0) {
+      return [];
+    }
+
+    const windowStart = this.getWindowStart(window);
+
+    // History is small per company, so read it once and reduce in memory
+    const rows = await db
+      .select({
+        company_id: riskScoreHistory.company_id,
+        risk_score: riskScoreHistory.risk_score,
+        created_at: riskScoreHistory.created_at
+      })
+      .from(riskScoreHistory)
+      .where(inArray(riskScoreHistory.company_id, companyIds))
+      .orderBy(asc(riskScoreHistory.created_at), asc(riskScoreHistory.id));
+
+    const byCompany = new Map<number, { current: number | null; previous: number | null }>();
+
+    for (const row of rows) {
+      const entry = byCompany.get(row.company_id) ?? { current: null, previous: null };
+      const inWindow = !windowStart || (row.created_at !== null && row.created_at >= windowStart);
+
+      if (!inWindow) {
+        // Latest score before the window opened is the baseline
+        entry.previous = row.risk_score;
+      } else if (entry.previous === null) {
+        entry.previous = row.risk_score;
+      }
+      entry.current = row.risk_score;
+
+      byCompany.set(row.company_id, entry);
+    }
+
+    return Array.from(byCompany.entries()).map(([companyId, { current, previous }]) => ({
+      companyId,
+      currentScore: current,
+      previousScore: previous,
+      change: current !== null && previous !== null ? current - previous : 0
+    }));
+  }
+
+  /**
+   * Calculates the start of a window relative to now
+   */
+  private static getWindowStart(window: RiskTrendWindow): Date | null {
+    const days = RISK_TREND_WINDOWS[window];
+    if (days === null) {
+      return null;
+    }
+
+    const start = new Date();
+    start.setDate(start.getDate() - days);
+    return start;
+  }
+
+  /**
+   * Summarizes the change between two scores
+   */
+  private static summarizeChange(currentScore: number | null, previousScore: number | null) {
+    if (currentScore === null || previousScore === null) {
+      return { change: 0, direction: 'stable' as const, percentage: 0 };
+    }
+
+    const change = currentScore - previousScore;
+    const direction: 'up' | 'down' | 'stable' = change > 0 ? 'up' : change < 0 ? 'down' : 'stable';
+    const percentage = previousScore > 0 ? Math.abs((change / previousScore) * 100) : 0;
+
+    return {
+      change,
+      direction,
+      percentage: Math.round(percentage * 100) / 100
+    };
+  }
+}
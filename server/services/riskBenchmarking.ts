@@ -0,0 +1,344 @@
+/**
+ * Risk Peer Benchmarking
+ *
+ * Compares a company's risk score with a cohort of comparable companies
+ * instead of the whole network: a seed-stage FinTech is only benchmarked
+ * against companies of the same category, revenue tier, funding stage and
+ * head-count band it selects. For the cohort this returns the p10, p25,
+ * median, p75 and p90 of the overall score and of every risk cluster, and
+ * the selected company's percentile rank within it.
+ */
+
+import { db, type DbExecutor } from '@db';
+import { companies } from '@db/schema';
+import { eq, and, isNotNull } from 'drizzle-orm';
+import { RISK_CLUSTER_NAMES, type RiskClusterName } from './riskClusters';
+import { DIMENSION_CLUSTERS } from './riskPrioritySimulation';
+
+/**
+ * Cohorts smaller than this are returned but flagged as not representative
+ */
+export const MIN_COHORT_SIZE = 5;
+
+/**
+ * Head-count bands used to group companies by num_employees
+ */
+export const EMPLOYEE_BANDS: Array<{ id: string; label: string; min: number; max: number | null }> = [
+  { id: '1-10', label: '1-10 employees', min: 1, max: 10 },
+  { id: '11-50', label: '11-50 employees', min: 11, max: 50 },
+  { id: '51-200', label: '51-200 employees', min: 51, max: 200 },
+  { id: '201-1000', label: '201-1,000 employees', min: 201, max: 1000 },
+  { id: '1001+', label: '1,001+ employees', min: 1001, max: null }
+];
+
+export interface CohortFilter {
+  category?: string;
+  revenueTier?: string;
+  fundingStage?: string;
+  employeeBand?: string;
+}
+
+export interface PercentileSummary {
+  p10: number;
+  p25: number;
+  median: number;
+  p75: number;
+  p90: number;
+}
+
+export interface CompanyCohortPosition {
+  companyId: number;
+  name: string;
+  inCohort: boolean;
+  score: number | null;
+  percentileRank: number | null;
+  clusters: Record<RiskClusterName, { score: number; percentileRank: number | null }> | null;
+}
+
+export interface CohortBenchmark {
+  cohort: CohortFilter;
+  label: string;
+  size: number;
+  representative: boolean;
+  overall: PercentileSummary | null;
+  clusters: Record<RiskClusterName, PercentileSummary | null>;
+  company: CompanyCohortPosition | null;
+  comparison: {
+    id: number;
+    name: string;
+    companyType: string;
+    description: string;
+    score: number;
+    dimensions: Record<string, number>;
+  } | null;
+}
+
+export interface CohortOptions {
+  categories: string[];
+  revenueTiers: string[];
+  fundingStages: string[];
+  employeeBands: Array<{ id: string; label: string }>;
+}
+
+/**
+ * Find the head-count band a number of employees falls into
+ */
+export function getEmployeeBand(numEmployees: number | null | undefined): string | null {
+  if (numEmployees === null || numEmployees === undefined || numEmployees < 1) {
+    return null;
+  }
+
+  const band = EMPLOYEE_BANDS.find(b => numEmployees >= b.min && (b.max === null || numEmployees <= b.max));
+  return band ? band.id : null;
+}
+
+/**
+ * Percentile of a sorted list using linear interpolation between closest ranks
+ *
+ * @param sorted Values in ascending order
+ * @param p Percentile between 0 and 100
+ */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  if (sorted.length === 1) return sorted[0];
+
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  const value = sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Percentage of the cohort scoring below a value, counting ties as half
+ */
+export function percentileRank(values: number[], value: number): number | null {
+  if (values.length === 0) return null;
+
+  const below = values.filter(v => v < value).length;
+  const equal = values.filter(v => v === value).length;
+
+  return Math.round(((below + equal / 2) / values.length) * 1000) / 10;
+}
+
+/**
+ * p10, p25, median, p75 and p90 of a list of values
+ */
+export function summarizePercentiles(values: number[]): PercentileSummary | null {
+  if (values.length === 0) return null;
+
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    p10: percentile(sorted, 10),
+    p25: percentile(sorted, 25),
+    median: percentile(sorted, 50),
+    p75: percentile(sorted, 75),
+    p90: percentile(sorted, 90)
+  };
+}
+
+/**
+ * Human-readable name of a cohort, e.g. "FinTech · Seed · 11-50 employees"
+ */
+export function describeCohort(cohort: CohortFilter): string {
+  const band = EMPLOYEE_BANDS.find(b => b.id === cohort.employeeBand);
+  const parts = [
+    cohort.category,
+    cohort.revenueTier ? `${cohort.revenueTier} revenue` : undefined,
+    cohort.fundingStage,
+    band?.label
+  ].filter(Boolean);
+
+  return parts.length > 0 ? parts.join(' · ') : 'All companies';
+}
+
+/**
+ * The cohort a company belongs to on every benchmarking attribute it has
+ *
+ * @param companyId The company whose attributes to use
+ * @param executor Database or transaction to run queries with
+ */
+export async function getCompanyCohort(companyId: number, executor: DbExecutor = db): Promise<CohortFilter | null> {
+  const [company] = await executor
+    .select({
+      category: companies.category,
+      revenue_tier: companies.revenue_tier,
+      funding_stage: companies.funding_stage,
+      num_employees: companies.num_employees
+    })
+    .from(companies)
+    .where(eq(companies.id, companyId));
+
+  if (!company) return null;
+
+  return {
+    category: company.category || undefined,
+    revenueTier: company.revenue_tier || undefined,
+    fundingStage: company.funding_stage || undefined,
+    employeeBand: getEmployeeBand(company.num_employees) || undefined
+  };
+}
+
+/**
+ * Distinct cohort attributes present among scored companies
+ *
+ * @param executor Database or transaction to run queries with
+ */
+export async function getCohortOptions(executor: DbExecutor = db): Promise<CohortOptions> {
+  const rows: Array<{ category: string; revenue_tier: string | null; funding_stage: string | null; num_employees: number | null }> =
+    await executor
+      .select({
+        category: companies.category,
+        revenue_tier: companies.revenue_tier,
+        funding_stage: companies.funding_stage,
+        num_employees: companies.num_employees
+      })
+      .from(companies)
+      .where(isNotNull(companies.risk_score));
+
+  const distinct = (values: Array<string | null>) =>
+    Array.from(new Set(values.filter((v): v is string => !!v))).sort();
+  const bands = new Set(rows.map(row => getEmployeeBand(row.num_employees)));
+
+  return {
+    categories: distinct(rows.map(row => row.category)),
+    revenueTiers: distinct(rows.map(row => row.revenue_tier)),
+    fundingStages: distinct(rows.map(row => row.funding_stage)),
+    employeeBands: EMPLOYEE_BANDS.filter(b => bands.has(b.id)).map(({ id, label }) => ({ id, label }))
+  };
+}
+
+/**
+ * Benchmark a cohort and, optionally, a company against it
+ *
+ * @param cohort Attributes the cohort must match; omitted attributes match anything
+ * @param companyId Company to position within the cohort
+ * @param executor Database or transaction to run queries with
+ * @returns Percentiles overall and per cluster, and the company's position
+ */
+export async function getCohortBenchmark(
+  cohort: CohortFilter,
+  companyId: number | null = null,
+  executor: DbExecutor = db
+): Promise<CohortBenchmark> {
+  const conditions = [isNotNull(companies.risk_score)];
+  if (cohort.category) conditions.push(eq(companies.category, cohort.category));
+  if (cohort.revenueTier) conditions.push(eq(companies.revenue_tier, cohort.revenueTier));
+  if (cohort.fundingStage) conditions.push(eq(companies.funding_stage, cohort.fundingStage));
+
+  const rows: Array<{
+    id: number;
+    name: string;
+    num_employees: number | null;
+    risk_score: number | null;
+    risk_clusters: Record<string, number> | null;
+    risk_priorities: any;
+  }> = await executor
+    .select({
+      id: companies.id,
+      name: companies.name,
+      num_employees: companies.num_employees,
+      risk_score: companies.risk_score,
+      risk_clusters: companies.risk_clusters,
+      risk_priorities: companies.risk_priorities
+    })
+    .from(companies)
+    .where(and(...conditions));
+
+  // Bands are derived from num_employees, so they are filtered here
+  const members = cohort.employeeBand
+    ? rows.filter(row => getEmployeeBand(row.num_employees) === cohort.employeeBand)
+    : rows;
+
+  const scores = members.map(member => member.risk_score as number);
+  const clusterValues = RISK_CLUSTER_NAMES.reduce((acc, name) => {
+    acc[name] = members
+      .filter(member => member.risk_clusters && typeof member.risk_clusters[name] === 'number')
+      .map(member => member.risk_clusters![name]);
+    return acc;
+  }, {} as Record<RiskClusterName, number[]>);
+
+  const clusters = RISK_CLUSTER_NAMES.reduce((acc, name) => {
+    acc[name] = summarizePercentiles(clusterValues[name]);
+    return acc;
+  }, {} as Record<RiskClusterName, PercentileSummary | null>);
+
+  const overall = summarizePercentiles(scores);
+  const label = describeCohort(cohort);
+
+  let company: CompanyCohortPosition | null = null;
+  if (companyId !== null) {
+    const [target] = await executor
+      .select({
+        id: companies.id,
+        name: companies.name,
+        risk_score: companies.risk_score,
+        risk_clusters: companies.risk_clusters
+      })
+      .from(companies)
+      .where(eq(companies.id, companyId));
+
+    if (target) {
+      const targetClusters = target.risk_clusters as Record<string, number> | null;
+      company = {
+        companyId: target.id,
+        name: target.name,
+        inCohort: members.some(member => member.id === target.id),
+        score: target.risk_score,
+        percentileRank: target.risk_score !== null ? percentileRank(scores, target.risk_score) : null,
+        clusters: targetClusters
+          ? RISK_CLUSTER_NAMES.reduce((acc, name) => {
+              const score = targetClusters[name] ?? 0;
+              acc[name] = { score, percentileRank: percentileRank(clusterValues[name], score) };
+              return acc;
+            }, {} as Record<RiskClusterName, { score: number; percentileRank: number | null }>)
+          : null
+      };
+    }
+  }
+
+  // Median dimension values of the cohort, in the shape the comparison chart plots
+  let comparison: CohortBenchmark['comparison'] = null;
+  if (overall) {
+    const dimensionValues: Record<string, number[]> = {};
+    for (const member of members) {
+      const dims = member.risk_priorities?.dimensions;
+      if (!Array.isArray(dims)) continue;
+      for (const dim of dims) {
+        if (dim?.id && typeof dim.value === 'number') {
+          if (!dimensionValues[dim.id]) {
+            dimensionValues[dim.id] = [];
+          }
+          dimensionValues[dim.id].push(dim.value);
+        }
+      }
+    }
+
+    const dimensions: Record<string, number> = {};
+    for (const dimensionId of Object.keys(DIMENSION_CLUSTERS)) {
+      const values = (dimensionValues[dimensionId] || []).sort((a, b) => a - b);
+      dimensions[dimensionId] = values.length > 0 ? Math.round(percentile(values, 50)) : 50;
+    }
+
+    comparison = {
+      id: -1, // Special ID for the cohort median
+      name: `Cohort Median (${label})`,
+      companyType: 'Benchmark',
+      description: `Median risk profile of ${members.length} companies: ${label}`,
+      score: Math.round(overall.median),
+      dimensions
+    };
+  }
+
+  return {
+    cohort,
+    label,
+    size: members.length,
+    representative: members.length >= MIN_COHORT_SIZE,
+    overall,
+    clusters,
+    company,
+    comparison
+  };
+}
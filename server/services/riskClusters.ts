@@ -0,0 +1,686 @@
+/**
+ * Risk Cluster Calculation
+ *
+ * This service derives the six risk clusters shown on the risk radar from
+ * the answers a company actually gave. Every KYB, KY3P, Open Banking and
+ * CARD field is mapped to exactly one cluster, each answer is scored, and
+ * the company's total risk score is split across the clusters in proportion
+ * to the points earned by the answers that feed them. Breaches the company
+ * reported late on claims filed against it are deducted from its risk score,
+ * taken out of "Potential Liability".
+ */
+
+import { db, type DbExecutor } from '@db';
+import {
+  companies,
+  tasks,
+  TaskStatus,
+  kybFields,
+  kybResponses,
+  ky3pFields,
+  ky3pResponses,
+  openBankingFields,
+  openBankingResponses,
+  cardFields,
+  cardResponses,
+  type OpenBankingScoringRule,
+  type OpenBankingScoringRules
+} from '@db/schema';
+import { eq, and, inArray, desc, gt } from 'drizzle-orm';
+import { scoreOpenBankingResponse } from './openBankingRiskScore';
+import { BreachNotificationSlaService } from './breach-notification-sla-service';
+import { RiskScoreHistoryService } from './risk-score-history-service';
+
+export interface RiskClusters {
+  "Cyber Security": number;
+  "Financial Stability": number;
+  "Potential Liability": number;
+  "Dark Web Data": number;
+  "Public Sentiment": number;
+  "Data Access Scope": number;
+}
+
+export type RiskClusterName = keyof RiskClusters;
+
+export type AssessmentFormType = 'kyb' | 'ky3p' | 'open_banking' | 'card';
+
+export const RISK_CLUSTER_NAMES: RiskClusterName[] = [
+  "Cyber Security",
+  "Financial Stability",
+  "Potential Liability",
+  "Dark Web Data",
+  "Public Sentiment",
+  "Data Access Scope"
+];
+
+/**
+ * Task types stored in the database for each assessment form
+ */
+export const FORM_TASK_TYPES: Record<AssessmentFormType, string[]> = {
+  kyb: ['company_kyb', 'kyb'],
+  ky3p: ['sp_ky3p_assessment', 'ky3p', 'security_assessment'],
+  open_banking: ['open_banking', 'open_banking_survey'],
+  card: ['company_card']
+};
+
+/**
+ * Explicit field-to-cluster mapping, keyed by field_key or field group.
+ * Fields that are not listed here are classified by CLUSTER_KEYWORDS and
+ * finally fall back to the form's default cluster.
+ */
+const FIELD_CLUSTER_MAPPING: Record<AssessmentFormType, Record<string, RiskClusterName>> = {
+  kyb: {
+    'Financial & Operational': "Financial Stability",
+    'Tax Identification': "Financial Stability",
+    'Compliance & Risk': "Potential Liability",
+    'Sanctions & Adverse Media': "Public Sentiment",
+    'Ownership & Management': "Potential Liability",
+    'Directors & Officers': "Potential Liability",
+    'Corporate Registration': "Potential Liability",
+    'Official Documentation': "Potential Liability"
+  },
+  ky3p: {
+    breachNotification: "Dark Web Data",
+    privacyIncidentProcedure: "Dark Web Data",
+    publicPrivacyNotice: "Public Sentiment",
+    privacyLawCompliance: "Potential Liability",
+    dataRetentionLimits: "Data Access Scope",
+    personalDataMinimization: "Data Access Scope",
+    externalSystems: "Cyber Security"
+  },
+  open_banking: {},
+  card: {}
+};
+
+/**
+ * Keyword classification applied to the field key and group, in priority order
+ */
+const CLUSTER_KEYWORDS: Array<[RiskClusterName, RegExp]> = [
+  ["Dark Web Data", /breach|leak|dark.?web|credential|exposure|incident/i],
+  ["Public Sentiment", /sentiment|reputation|adverse|media|complaint|review|news|public/i],
+  ["Financial Stability", /revenue|financ|funding|capital|invest|tax|profit|insurance|solvency/i],
+  ["Potential Liability", /legal|litigation|complian|regulat|sanction|liabil|contract|law|governance/i],
+  ["Data Access Scope", /consent|scope|retention|sharing|third.?party|api|permission|minimi[sz]/i],
+  ["Cyber Security", /secur|encrypt|mfa|authenticat|password|vulnerab|penetration|firewall|patch|malware|network|access|logging|monitor/i]
+];
+
+/**
+ * Cluster used when neither the explicit mapping nor the keywords match
+ */
+const DEFAULT_FORM_CLUSTER: Record<AssessmentFormType, RiskClusterName> = {
+  kyb: "Financial Stability",
+  ky3p: "Cyber Security",
+  open_banking: "Data Access Scope",
+  card: "Potential Liability"
+};
+
+/**
+ * Fixed split used only when there are no scored answers to derive from
+ */
+const FALLBACK_CLUSTER_WEIGHTS: RiskClusters = {
+  "Cyber Security": 0.30,
+  "Financial Stability": 0.25,
+  "Potential Liability": 0.20,
+  "Dark Web Data": 0.15,
+  "Public Sentiment": 0.07,
+  "Data Access Scope": 0.03
+};
+
+export interface ScoredAnswer {
+  formType: AssessmentFormType;
+  taskId: number;
+  fieldId: number;
+  fieldKey: string;
+  label: string;
+  group: string | null;
+  responseValue: string | null;
+  points: number;
+  maxPoints: number;
+  reasoning: string;
+  matchedRule: OpenBankingScoringRule | null; // Scoring rule that awarded the points, if any
+  cluster: RiskClusterName;
+}
+
+/**
+ * Resolve the cluster a form field feeds
+ *
+ * @param formType The assessment the field belongs to
+ * @param fieldKey The field_key of the field
+ * @param group The field group or wizard section, when the form has one
+ * @returns The cluster the field contributes to
+ */
+export function resolveFieldCluster(
+  formType: AssessmentFormType,
+  fieldKey: string,
+  group?: string | null
+): RiskClusterName {
+  const mapping = FIELD_CLUSTER_MAPPING[formType];
+
+  if (mapping[fieldKey]) {
+    return mapping[fieldKey];
+  }
+
+  if (group && mapping[group]) {
+    return mapping[group];
+  }
+
+  const haystack = `${fieldKey} ${group || ''}`;
+  const keywordMatch = CLUSTER_KEYWORDS.find(([, pattern]) => pattern.test(haystack));
+
+  return keywordMatch ? keywordMatch[0] : DEFAULT_FORM_CLUSTER[formType];
+}
+
+/**
+ * Statuses of tasks whose answers have been submitted
+ */
+const SUBMITTED_TASK_STATUSES: string[] = [TaskStatus.SUBMITTED, TaskStatus.COMPLETED, TaskStatus.APPROVED];
+
+/**
+ * Find the assessment task of each form type whose answers count for a set
+ * of companies: the most recent submitted one, so a newer unsubmitted task
+ * (such as an accreditation renewal) does not hide the submitted answers.
+ * Companies that have not submitted a form yet use its most recent task.
+ */
+async function getLatestAssessmentTasks(
+  companyIds: number[],
+  executor: DbExecutor
+): Promise<Map<number, Partial<Record<AssessmentFormType, number>>>> {
+  const allTaskTypes = Object.values(FORM_TASK_TYPES).flat();
+
+  const companyTasks = await executor
+    .select({ id: tasks.id, company_id: tasks.company_id, task_type: tasks.task_type, status: tasks.status })
+    .from(tasks)
+    .where(and(inArray(tasks.company_id, companyIds), inArray(tasks.task_type, allTaskTypes)))
+    .orderBy(desc(tasks.id));
+
+  const submittedByCompany = new Map<number, Partial<Record<AssessmentFormType, number>>>();
+  const newestByCompany = new Map<number, Partial<Record<AssessmentFormType, number>>>();
+
+  for (const task of companyTasks) {
+    const formType = (Object.keys(FORM_TASK_TYPES) as AssessmentFormType[])
+      .find(type => FORM_TASK_TYPES[type].includes(task.task_type));
+    if (!formType || task.company_id === null) continue;
+
+    const newest = newestByCompany.get(task.company_id) ?? {};
+    if (newest[formType] === undefined) {
+      newest[formType] = task.id;
+    }
+    newestByCompany.set(task.company_id, newest);
+
+    if (SUBMITTED_TASK_STATUSES.includes(task.status)) {
+      const submitted = submittedByCompany.get(task.company_id) ?? {};
+      if (submitted[formType] === undefined) {
+        submitted[formType] = task.id;
+      }
+      submittedByCompany.set(task.company_id, submitted);
+    }
+  }
+
+  const latestByCompany = new Map<number, Partial<Record<AssessmentFormType, number>>>();
+  for (const [companyId, newest] of newestByCompany) {
+    latestByCompany.set(companyId, { ...newest, ...submittedByCompany.get(companyId) });
+  }
+
+  return latestByCompany;
+}
+
+/**
+ * Points available for a KYB or KY3P field without stored scoring rules
+ */
+const ASSESSMENT_MAX_POINTS = 10;
+
+/**
+ * Questions about an adverse event, where "no" is the answer that earns
+ * points. Matched against the field key, group and question.
+ */
+const ADVERSE_QUESTION_PATTERN = /sanction|adverse|litigation|lawsuit|breach|incident|bankrupt|insolven|penalt|violation|investigation|fraud|criminal|enforcement|politically.?exposed|\bpep\b/i;
+
+const NO_ANSWERS = ['no', 'false', 'none'];
+const YES_ANSWERS = ['yes', 'true'];
+
+/**
+ * Build the rules a KYB or KY3P field is scored with when it has none
+ * stored. A yes/no answer is judged by the polarity of the question: a
+ * confirmed control or a denied adverse event earns full points, the
+ * opposite none. Any other answer earns half, since a name, date or free
+ * text answer alone says nothing about the risk.
+ */
+function getAssessmentScoringRules(field: { field_key: string; group: string | null; question: string | null }): OpenBankingScoringRules {
+  const adverse = ADVERSE_QUESTION_PATTERN.test(`${field.field_key} ${field.group || ''} ${field.question || ''}`);
+  const [goodAnswers, badAnswers] = adverse ? [NO_ANSWERS, YES_ANSWERS] : [YES_ANSWERS, NO_ANSWERS];
+  const [goodReasoning, badReasoning] = adverse
+    ? ['No adverse event reported', 'Adverse event reported']
+    : ['Control confirmed in place', 'Control not in place'];
+
+  return {
+    max_points: ASSESSMENT_MAX_POINTS,
+    default_points: 0,
+    rules: [
+      ...goodAnswers.map((value): OpenBankingScoringRule => ({
+        operator: 'equals', value, points: ASSESSMENT_MAX_POINTS, reasoning: goodReasoning
+      })),
+      ...badAnswers.map((value): OpenBankingScoringRule => ({
+        operator: 'equals', value, points: 0, reasoning: badReasoning
+      })),
+      ...badAnswers.flatMap((value): OpenBankingScoringRule[] => [' ', ','].map(separator => ({
+        operator: 'starts_with', value: `${value}${separator}`, points: 0, reasoning: badReasoning
+      }))),
+      ...(adverse ? [] : ['in progress', 'planned', 'partial'].map((value): OpenBankingScoringRule => ({
+        operator: 'contains', value, points: 3, reasoning: 'Control not yet fully in place'
+      }))),
+      { operator: 'answered', points: ASSESSMENT_MAX_POINTS / 2, reasoning: 'Answer does not indicate the risk either way' }
+    ]
+  };
+}
+
+/**
+ * Load and score the answers of a set of tasks of one assessment form
+ */
+const ANSWER_LOADERS: Record<AssessmentFormType, (taskIds: number[], executor: DbExecutor) => Promise<ScoredAnswer[]>> = {
+  kyb: async (taskIds, executor) => {
+    const rows = await executor.select({ response: kybResponses, field: kybFields })
+      .from(kybResponses)
+      .innerJoin(kybFields, eq(kybResponses.field_id, kybFields.id))
+      .where(inArray(kybResponses.task_id, taskIds));
+
+    return rows.map(({ response, field }: any): ScoredAnswer => {
+      const score = scoreOpenBankingResponse(
+        field.scoring_rules ?? getAssessmentScoringRules(field),
+        field.field_type,
+        response.response_value
+      );
+      return {
+        formType: 'kyb',
+        taskId: response.task_id,
+        fieldId: field.id,
+        fieldKey: field.field_key,
+        label: field.display_name,
+        group: field.group,
+        responseValue: response.response_value,
+        points: score.points,
+        maxPoints: score.maxPoints,
+        reasoning: score.reasoning,
+        matchedRule: score.matchedRule,
+        cluster: resolveFieldCluster('kyb', field.field_key, field.group)
+      };
+    });
+  },
+
+  ky3p: async (taskIds, executor) => {
+    const rows = await executor.select({ response: ky3pResponses, field: ky3pFields })
+      .from(ky3pResponses)
+      .innerJoin(ky3pFields, eq(ky3pResponses.field_id, ky3pFields.id))
+      .where(inArray(ky3pResponses.task_id, taskIds));
+
+    return rows.map(({ response, field }: any): ScoredAnswer => {
+      const score = scoreOpenBankingResponse(
+        field.scoring_rules ?? getAssessmentScoringRules(field),
+        field.field_type,
+        response.response_value
+      );
+      return {
+        formType: 'ky3p',
+        taskId: response.task_id,
+        fieldId: field.id,
+        fieldKey: field.field_key,
+        label: field.display_name,
+        group: field.group,
+        responseValue: response.response_value,
+        points: score.points,
+        maxPoints: score.maxPoints,
+        reasoning: score.reasoning,
+        matchedRule: score.matchedRule,
+        cluster: resolveFieldCluster('ky3p', field.field_key, field.group)
+      };
+    });
+  },
+
+  open_banking: async (taskIds, executor) => {
+    const rows = await executor.select({ response: openBankingResponses, field: openBankingFields })
+      .from(openBankingResponses)
+      .innerJoin(openBankingFields, eq(openBankingResponses.field_id, openBankingFields.id))
+      .where(inArray(openBankingResponses.task_id, taskIds));
+
+    return rows.map(({ response, field }: any): ScoredAnswer => {
+      const score = scoreOpenBankingResponse(field.scoring_rules ?? null, field.field_type, response.response_value);
+      return {
+        formType: 'open_banking',
+        taskId: response.task_id,
+        fieldId: field.id,
+        fieldKey: field.field_key,
+        label: field.display_name,
+        group: field.group,
+        responseValue: response.response_value,
+        points: score.points,
+        maxPoints: score.maxPoints,
+        reasoning: score.reasoning,
+        matchedRule: score.matchedRule,
+        cluster: resolveFieldCluster('open_banking', field.field_key, field.group)
+      };
+    });
+  },
+
+  card: async (taskIds, executor) => {
+    const rows = await executor.select({ response: cardResponses, field: cardFields })
+      .from(cardResponses)
+      .innerJoin(cardFields, eq(cardResponses.field_id, cardFields.id))
+      .where(inArray(cardResponses.task_id, taskIds));
+
+    return rows.map(({ response, field }: any): ScoredAnswer => {
+      const maxPoints = field.partial_risk_score_max || 0;
+      const points = Math.min(Math.max(0, response.partial_risk_score || 0), maxPoints);
+      return {
+        formType: 'card',
+        taskId: response.task_id,
+        fieldId: field.id,
+        fieldKey: field.field_key,
+        label: field.question_label,
+        group: field.wizard_section,
+        responseValue: response.response_value,
+        points,
+        maxPoints,
+        reasoning: response.ai_reasoning || `CARD partial risk score (${points}/${maxPoints} points)`,
+        matchedRule: null,
+        cluster: resolveFieldCluster('card', field.field_key, field.wizard_section)
+      };
+    });
+  }
+};
+
+/**
+ * Score every answer a company gave across its KYB, KY3P, Open Banking and
+ * CARD assessments and tag each answer with the cluster it feeds
+ *
+ * @param companyId The company whose answers to score
+ * @param executor Database or transaction to run queries with
+ * @returns One scored answer per response row
+ */
+export async function collectScoredAnswers(companyId: number, executor: DbExecutor = db): Promise<ScoredAnswer[]> {
+  const answersByCompany = await collectScoredAnswersForCompanies([companyId], executor);
+  return answersByCompany.get(companyId) ?? [];
+}
+
+/**
+ * Score the answers of a set of companies with one query per assessment form
+ *
+ * @param companyIds The companies whose answers to score
+ * @param executor Database or transaction to run queries with
+ * @returns Scored answers keyed by company ID, for every requested company
+ */
+export async function collectScoredAnswersForCompanies(
+  companyIds: number[],
+  executor: DbExecutor = db
+): Promise<Map<number, ScoredAnswer[]>> {
+  const answersByCompany = new Map<number, ScoredAnswer[]>(companyIds.map(id => [id, []]));
+  if (companyIds.length === 0) {
+    return answersByCompany;
+  }
+
+  const latestByCompany = await getLatestAssessmentTasks(companyIds, executor);
+
+  for (const formType of Object.keys(ANSWER_LOADERS) as AssessmentFormType[]) {
+    const companyByTask = new Map<number, number>();
+    for (const [companyId, latest] of latestByCompany) {
+      const taskId = latest[formType];
+      if (taskId !== undefined) {
+        companyByTask.set(taskId, companyId);
+      }
+    }
+
+    if (companyByTask.size === 0) continue;
+
+    const answers = await ANSWER_LOADERS[formType]([...companyByTask.keys()], executor);
+    for (const answer of answers) {
+      answersByCompany.get(companyByTask.get(answer.taskId)!)?.push(answer);
+    }
+  }
+
+  return answersByCompany;
+}
+
+/**
+ * Points a late breach notification takes off the risk score, with more for
+ * notifications over a week late, counted over the last two years
+ */
+const LATE_NOTIFICATION_POINTS = 5;
+const VERY_LATE_NOTIFICATION_POINTS = 10;
+const VERY_LATE_NOTIFICATION_HOURS = 7 * 24;
+const LATE_NOTIFICATION_MAX_POINTS = 30;
+const LATE_NOTIFICATION_WINDOW_MS = 2 * 365 * 24 * 60 * 60 * 1000;
+
+/**
+ * Points deducted for the company's history of late breach notifications on
+ * claims filed against it
+ *
+ * @param companyId The data recipient the claims were filed against
+ * @param executor Database or transaction to run queries with
+ */
+export async function collectLateNotificationPoints(companyId: number, executor: DbExecutor = db): Promise<number> {
+  const lateNotifications = await BreachNotificationSlaService.getLateNotifications(companyId, executor);
+  const windowStart = Date.now() - LATE_NOTIFICATION_WINDOW_MS;
+
+  const points = lateNotifications
+    .filter(late => late.breachDiscoveredDate.getTime() >= windowStart)
+    .reduce((sum, late) => sum + (late.hoursLate > VERY_LATE_NOTIFICATION_HOURS
+      ? VERY_LATE_NOTIFICATION_POINTS
+      : LATE_NOTIFICATION_POINTS), 0);
+
+  return Math.min(points, LATE_NOTIFICATION_MAX_POINTS);
+}
+
+/**
+ * Split a total score across clusters so the parts sum exactly to the total.
+ * Uses largest-remainder rounding, breaking ties by cluster order.
+ *
+ * @param riskScore The whole-number score to split
+ * @param shares Relative share of each cluster; the fallback weights are used when they sum to zero
+ * @returns Clusters summing to the score
+ */
+export function apportionScore(riskScore: number, shares: RiskClusters): RiskClusters {
+  const totalShare = RISK_CLUSTER_NAMES.reduce((sum, name) => sum + shares[name], 0);
+  const clusters = {} as RiskClusters;
+
+  if (totalShare <= 0) {
+    return apportionScore(riskScore, FALLBACK_CLUSTER_WEIGHTS);
+  }
+
+  const exact = RISK_CLUSTER_NAMES.map(name => ({
+    name,
+    value: (riskScore * shares[name]) / totalShare
+  }));
+
+  let assigned = 0;
+  for (const { name, value } of exact) {
+    clusters[name] = Math.floor(value);
+    assigned += clusters[name];
+  }
+
+  const byRemainder = [...exact].sort((a, b) =>
+    (b.value - Math.floor(b.value)) - (a.value - Math.floor(a.value))
+  );
+
+  for (let i = 0; i < riskScore - assigned; i++) {
+    clusters[byRemainder[i % byRemainder.length].name] += 1;
+  }
+
+  return clusters;
+}
+
+/**
+ * Derive risk clusters from scored answers
+ *
+ * Each cluster receives a share of the total risk score proportional to the
+ * points earned by the answers mapped to it, so the clusters always sum to
+ * the total risk score. When no answer earned any points the fixed fallback
+ * weights are used instead.
+ *
+ * @param riskScore The total risk score (0-100)
+ * @param answers Scored answers from collectScoredAnswers
+ * @returns An object containing the risk score distributed across all six clusters
+ */
+export function aggregateRiskClusters(riskScore: number, answers: ScoredAnswer[]): RiskClusters {
+  const earned = RISK_CLUSTER_NAMES.reduce((acc, name) => {
+    acc[name] = 0;
+    return acc;
+  }, {} as RiskClusters);
+
+  for (const answer of answers) {
+    earned[answer.cluster] += answer.points;
+  }
+
+  return apportionScore(Math.max(0, Math.round(riskScore)), earned);
+}
+
+/**
+ * Take points out of one cluster, and out of the others in proportion to
+ * their share once it is exhausted, so the clusters still sum to the
+ * lowered score
+ *
+ * @param clusters Clusters summing to the score before the deduction
+ * @param cluster The cluster the deduction is taken from first
+ * @param points Points to deduct
+ * @returns Clusters summing to the score less the deduction, never below zero
+ */
+export function deductFromCluster(clusters: RiskClusters, cluster: RiskClusterName, points: number): RiskClusters {
+  const total = RISK_CLUSTER_NAMES.reduce((sum, name) => sum + clusters[name], 0);
+  const deduction = Math.min(Math.max(0, points), total);
+  const fromCluster = Math.min(clusters[cluster], deduction);
+
+  const others = { ...clusters, [cluster]: 0 };
+  const othersTotal = total - clusters[cluster];
+
+  return {
+    ...apportionScore(othersTotal - (deduction - fromCluster), others),
+    [cluster]: clusters[cluster] - fromCluster
+  };
+}
+
+export interface CompanyRiskProfile {
+  riskScore: number;                 // Assessment score less the late notification deduction
+  riskClusters: RiskClusters;
+  lateNotificationDeduction: number; // Points actually deducted, at most the assessment score
+}
+
+/**
+ * Calculate a company's risk score and clusters from its assessment score
+ *
+ * The clusters split the assessment score by the answers that feed them,
+ * then the company's late breach notifications are deducted from the score
+ * and from "Potential Liability".
+ *
+ * @param companyId The company to calculate the profile for
+ * @param assessmentScore The score its assessment answers earned (0-100)
+ * @param executor Database or transaction to run queries with
+ * @returns The risk score, clusters and the deduction applied
+ */
+export async function calculateCompanyRiskProfile(
+  companyId: number,
+  assessmentScore: number,
+  executor: DbExecutor = db
+): Promise<CompanyRiskProfile> {
+  const answers = await collectScoredAnswers(companyId, executor);
+  const lateNotificationPoints = await collectLateNotificationPoints(companyId, executor);
+
+  const score = Math.max(0, Math.round(assessmentScore));
+  const lateNotificationDeduction = Math.min(lateNotificationPoints, score);
+
+  return {
+    riskScore: score - lateNotificationDeduction,
+    riskClusters: deductFromCluster(aggregateRiskClusters(score, answers), "Potential Liability", lateNotificationDeduction),
+    lateNotificationDeduction
+  };
+}
+
+/**
+ * Re-apply a company's late breach notification deduction after its claims
+ * change, without a new assessment
+ *
+ * The assessment score is recovered by adding back the deduction already
+ * applied, so repeated refreshes never deduct twice. Companies without a
+ * risk score yet are left alone; their first submission applies the deduction.
+ *
+ * @param companyId The data recipient the claims are filed against
+ * @returns The new risk score, or null when it did not change
+ */
+export async function refreshLateNotificationDeduction(companyId: number): Promise<number | null> {
+  const riskScore = await db.transaction(async (trx) => {
+    const [company] = await trx
+      .select({ risk_score: companies.risk_score, late_notification_deduction: companies.late_notification_deduction })
+      .from(companies)
+      .where(eq(companies.id, companyId))
+      .for('update');
+
+    if (company?.risk_score == null) return null;
+
+    const profile = await calculateCompanyRiskProfile(
+      companyId,
+      company.risk_score + company.late_notification_deduction,
+      trx
+    );
+    if (profile.lateNotificationDeduction === company.late_notification_deduction) return null;
+
+    await trx
+      .update(companies)
+      .set({
+        risk_score: profile.riskScore,
+        risk_clusters: profile.riskClusters,
+        late_notification_deduction: profile.lateNotificationDeduction,
+        updated_at: new Date()
+      })
+      .where(eq(companies.id, companyId));
+
+    await RiskScoreHistoryService.recordScoreChange({
+      companyId,
+      riskScore: profile.riskScore,
+      riskClusters: profile.riskClusters,
+      source: 'late_breach_notification'
+    }, trx);
+
+    return profile.riskScore;
+  });
+
+  if (riskScore === null) return null;
+
+  console.log('[RiskClusters] Late breach notification deduction applied', { companyId, riskScore });
+
+  // Alert banks whose thresholds the new score breaches
+  const { RiskAlertService } = await import('./risk-alert-service');
+  await RiskAlertService.evaluateScore(companyId, riskScore);
+
+  return riskScore;
+}
+
+/**
+ * Re-apply the late breach notification deduction of every company it can
+ * change for: data recipients with breaches on open or approved claims and
+ * companies that still carry a deduction. Run on a schedule, since an
+ * unreported breach becomes overdue and old breaches leave the window
+ * without any claim changing.
+ *
+ * Failures are logged per company so one company does not stop the rest.
+ *
+ * @returns The number of companies whose risk score changed
+ */
+export async function refreshLateNotificationDeductions(): Promise<number> {
+  const recipients = await BreachNotificationSlaService.getRecipientsWithBreaches();
+  const deducted = await db
+    .select({ id: companies.id })
+    .from(companies)
+    .where(gt(companies.late_notification_deduction, 0));
+
+  let changed = 0;
+  for (const companyId of new Set([...recipients, ...deducted.map(company => company.id)])) {
+    try {
+      if (await refreshLateNotificationDeduction(companyId) !== null) {
+        changed++;
+      }
+    } catch (error) {
+      console.error('[RiskClusters] Error refreshing late notification deduction', {
+        companyId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  return changed;
+}
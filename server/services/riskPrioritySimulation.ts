@@ -0,0 +1,271 @@
+/**
+ * Risk Priority Simulation
+ *
+ * Answers "what happens to my network if I weight Dark Web Data higher?"
+ * without saving anything. Every company's answers are reduced to a 0-100
+ * performance value per risk cluster and weighted under both the saved and
+ * the draft dimension weights. The difference between the two is applied to
+ * the company's stored risk score, so "before" is the score the company has
+ * today and "after" the score it would have under the draft weights.
+ */
+
+import {
+  collectScoredAnswersForCompanies,
+  RISK_CLUSTER_NAMES,
+  type RiskClusterName,
+  type ScoredAnswer
+} from './riskClusters';
+import { RiskMonitoringService } from './risk-monitoring-service';
+import { RiskConfigurationVersionService } from './risk-configuration-version-service';
+
+/**
+ * Risk priority dimension ids and the cluster each one weights
+ */
+export const DIMENSION_CLUSTERS: Record<string, RiskClusterName> = {
+  cyber_security: "Cyber Security",
+  financial_stability: "Financial Stability",
+  dark_web_data: "Dark Web Data",
+  public_sentiment: "Public Sentiment",
+  potential_liability: "Potential Liability",
+  data_access_scope: "Data Access Scope"
+};
+
+/**
+ * Weights used when the bank has never saved its priorities
+ * (mirrors defaultRiskDimensions on the client)
+ */
+export const DEFAULT_DIMENSION_WEIGHTS: Record<string, number> = {
+  cyber_security: 30,
+  financial_stability: 25,
+  dark_web_data: 20,
+  public_sentiment: 15,
+  potential_liability: 7,
+  data_access_scope: 3
+};
+
+export interface WeightedDimension {
+  id: string;
+  weight: number;
+}
+
+export interface SimulationCompany {
+  id: number;
+  name: string;
+  category: string | null;
+  riskScore: number | null;
+}
+
+export interface SimulatedCompanyScore {
+  id: number;
+  name: string;
+  category: string | null;
+  storedScore: number | null;
+  beforeScore: number;
+  afterScore: number;
+  change: number;
+  blockedBefore: boolean;
+  blockedAfter: boolean;
+}
+
+export interface ScoreDistribution {
+  buckets: Array<{ range: string; min: number; max: number; count: number }>;
+  average: number;
+  median: number;
+  min: number;
+  max: number;
+  blockedCount: number;
+}
+
+export interface RiskPrioritySimulationResult {
+  threshold: number;
+  companyCount: number;
+  before: ScoreDistribution;
+  after: ScoreDistribution;
+  companies: SimulatedCompanyScore[];
+  crossings: {
+    newlyBlocked: SimulatedCompanyScore[];
+    newlyUnblocked: SimulatedCompanyScore[];
+  };
+}
+
+/**
+ * Reduce scored answers to a 0-100 performance value per cluster
+ *
+ * Clusters without any scorable answer take the company's overall score so
+ * re-weighting them neither helps nor hurts the company.
+ *
+ * @param answers Scored answers from collectScoredAnswers
+ * @param fallbackScore Value used for clusters without answers
+ * @returns Performance per cluster
+ */
+export function calculateClusterPerformance(
+  answers: ScoredAnswer[],
+  fallbackScore: number
+): Record<RiskClusterName, number> {
+  const totals = {} as Record<RiskClusterName, { points: number; maxPoints: number }>;
+  for (const name of RISK_CLUSTER_NAMES) {
+    totals[name] = { points: 0, maxPoints: 0 };
+  }
+
+  for (const answer of answers) {
+    totals[answer.cluster].points += answer.points;
+    totals[answer.cluster].maxPoints += answer.maxPoints;
+  }
+
+  const performance = {} as Record<RiskClusterName, number>;
+  for (const name of RISK_CLUSTER_NAMES) {
+    const { points, maxPoints } = totals[name];
+    performance[name] = maxPoints > 0 ? (points / maxPoints) * 100 : fallbackScore;
+  }
+
+  return performance;
+}
+
+/**
+ * Calculate the weighted score of a company's cluster performance
+ *
+ * Dimensions that do not map to a cluster, or that carry no weight, are
+ * ignored. When no weight remains the default weights are used.
+ *
+ * @param performance Performance per cluster (0-100)
+ * @param dimensions Dimension weights to apply
+ * @returns Score between 0 and 100
+ */
+export function calculateWeightedScore(
+  performance: Record<RiskClusterName, number>,
+  dimensions: WeightedDimension[]
+): number {
+  let weightedSum = 0;
+  let totalWeight = 0;
+
+  for (const dimension of dimensions) {
+    const cluster = DIMENSION_CLUSTERS[dimension.id];
+    const weight = Number(dimension.weight);
+    if (!cluster || !(weight > 0)) continue;
+
+    weightedSum += performance[cluster] * weight;
+    totalWeight += weight;
+  }
+
+  if (totalWeight === 0) {
+    return calculateWeightedScore(performance, getDefaultDimensions());
+  }
+
+  return Math.min(100, Math.max(0, Math.round(weightedSum / totalWeight)));
+}
+
+/**
+ * Default dimension weights as a dimension list
+ */
+export function getDefaultDimensions(): WeightedDimension[] {
+  return Object.entries(DEFAULT_DIMENSION_WEIGHTS).map(([id, weight]) => ({ id, weight }));
+}
+
+/**
+ * Summarize a set of scores into 10-point buckets and basic statistics
+ */
+export function summarizeScoreDistribution(scores: number[], threshold: number): ScoreDistribution {
+  const buckets = Array.from({ length: 10 }, (_, index) => {
+    const min = index * 10;
+    const max = index === 9 ? 100 : min + 9;
+    return { range: `${min}-${max}`, min, max, count: 0 };
+  });
+
+  for (const score of scores) {
+    buckets[Math.min(9, Math.floor(score / 10))].count++;
+  }
+
+  const sorted = [...scores].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  const median = sorted.length === 0
+    ? 0
+    : sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+
+  return {
+    buckets,
+    average: sorted.length > 0 ? Math.round((sorted.reduce((sum, score) => sum + score, 0) / sorted.length) * 10) / 10 : 0,
+    median,
+    min: sorted.length > 0 ? sorted[0] : 0,
+    max: sorted.length > 0 ? sorted[sorted.length - 1] : 0,
+    blockedCount: scores.filter(score => score < threshold).length
+  };
+}
+
+/**
+ * Get a bank's saved priority dimensions and blocking threshold
+ *
+ * @param bankCompanyId The bank whose configuration to read
+ * @returns The saved dimensions (or the defaults) and the threshold
+ */
+export async function getSavedPriorityContext(bankCompanyId: number): Promise<{
+  dimensions: WeightedDimension[];
+  threshold: number;
+}> {
+  const { riskPriorities } = await RiskConfigurationVersionService.getEffectiveSettings(bankCompanyId);
+  const savedDimensions = riskPriorities?.dimensions;
+  const settings = await RiskMonitoringService.getSettings(bankCompanyId);
+
+  return {
+    dimensions: Array.isArray(savedDimensions) && savedDimensions.length > 0
+      ? savedDimensions
+      : getDefaultDimensions(),
+    threshold: settings.blockingThreshold
+  };
+}
+
+/**
+ * Simulate a draft set of dimension weights against a set of companies
+ *
+ * @param networkCompanies Companies to rescore
+ * @param currentDimensions The weights in effect today
+ * @param draftDimensions The weights being considered
+ * @param threshold Scores below this value are blocked
+ * @returns Before/after distributions, per-company scores and FinTechs crossing the threshold
+ */
+export async function simulateRiskPriorities(
+  networkCompanies: SimulationCompany[],
+  currentDimensions: WeightedDimension[],
+  draftDimensions: WeightedDimension[],
+  threshold: number
+): Promise<RiskPrioritySimulationResult> {
+  const results: SimulatedCompanyScore[] = [];
+  const answersByCompany = await collectScoredAnswersForCompanies(networkCompanies.map(company => company.id));
+
+  for (const company of networkCompanies) {
+    const answers = answersByCompany.get(company.id) ?? [];
+    const performance = calculateClusterPerformance(answers, company.riskScore ?? 0);
+
+    const currentWeighted = calculateWeightedScore(performance, currentDimensions);
+    const draftWeighted = calculateWeightedScore(performance, draftDimensions);
+
+    // Companies without a stored score start from their weighted score under the saved weights
+    const beforeScore = company.riskScore ?? currentWeighted;
+    const afterScore = Math.min(100, Math.max(0, beforeScore + draftWeighted - currentWeighted));
+
+    results.push({
+      id: company.id,
+      name: company.name,
+      category: company.category,
+      storedScore: company.riskScore,
+      beforeScore,
+      afterScore,
+      change: afterScore - beforeScore,
+      blockedBefore: beforeScore < threshold,
+      blockedAfter: afterScore < threshold
+    });
+  }
+
+  const fintechs = results.filter(company => company.category === 'FinTech');
+
+  return {
+    threshold,
+    companyCount: results.length,
+    before: summarizeScoreDistribution(results.map(company => company.beforeScore), threshold),
+    after: summarizeScoreDistribution(results.map(company => company.afterScore), threshold),
+    companies: results,
+    crossings: {
+      newlyBlocked: fintechs.filter(company => !company.blockedBefore && company.blockedAfter),
+      newlyUnblocked: fintechs.filter(company => company.blockedBefore && !company.blockedAfter)
+    }
+  };
+}
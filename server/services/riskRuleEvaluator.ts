@@ -0,0 +1,330 @@
+/**
+ * Risk Score Rule Evaluation
+ *
+ * Banks encode their risk appetite as rules over assessment answers, such as
+ * "if ky3p mfa_enforced = No then +15 to Cyber Security". This service runs
+ * every enabled rule of each bank in a company's network against the
+ * company's latest answers whenever a form is submitted, and stores the
+ * adjusted score and clusters as that bank's view of the company. The
+ * bank's monitoring status, blocking and risk alerts use the adjusted score.
+ */
+
+import { db, type DbExecutor } from '@db';
+import {
+  companies,
+  riskScoreRules,
+  riskRuleEvaluations,
+  RiskRuleOperator,
+  type RiskScoreRule,
+  type RiskRuleEvaluation
+} from '@db/schema';
+import { eq, and, inArray } from 'drizzle-orm';
+import {
+  collectScoredAnswers,
+  aggregateRiskClusters,
+  apportionScore,
+  RISK_CLUSTER_NAMES,
+  type AssessmentFormType,
+  type RiskClusters,
+  type ScoredAnswer
+} from './riskClusters';
+import { getNetworkCompanyIds } from './company-service';
+
+export const RISK_RULE_FORM_TYPES: AssessmentFormType[] = ['kyb', 'ky3p', 'open_banking', 'card'];
+
+export const RISK_RULE_OPERATORS = Object.values(RiskRuleOperator);
+
+export interface FiredRiskRule {
+  ruleId: number;
+  name: string;
+  formType: string;
+  fieldKey: string;
+  answer: string | null;
+  cluster: string;
+  scoreAdjustment: number;
+}
+
+export interface RiskRuleResult {
+  baseRiskScore: number;
+  adjustedRiskScore: number;
+  baseRiskClusters: RiskClusters;
+  adjustedRiskClusters: RiskClusters;
+  firedRules: FiredRiskRule[];
+}
+
+/**
+ * Check whether a rule's condition holds for an answer.
+ * String comparisons are case-insensitive and ignore surrounding whitespace;
+ * greater_than and less_than compare numerically and never match text.
+ */
+export function ruleConditionMatches(
+  rule: Pick<RiskScoreRule, 'operator' | 'value'>,
+  responseValue: string | null
+): boolean {
+  const answer = (responseValue ?? '').trim().toLowerCase();
+  const expected = (rule.value ?? '').trim().toLowerCase();
+
+  switch (rule.operator) {
+    case RiskRuleOperator.ANSWERED:
+      return answer.length > 0;
+    case RiskRuleOperator.NOT_ANSWERED:
+      return answer.length === 0;
+    case RiskRuleOperator.EQUALS:
+      return answer.length > 0 && answer === expected;
+    case RiskRuleOperator.NOT_EQUALS:
+      return answer.length > 0 && answer !== expected;
+    case RiskRuleOperator.CONTAINS:
+      return answer.length > 0 && expected.length > 0 && answer.includes(expected);
+    case RiskRuleOperator.GREATER_THAN:
+    case RiskRuleOperator.LESS_THAN: {
+      const numeric = parseFloat(answer.replace(/[%,$]/g, ''));
+      const threshold = parseFloat(expected);
+      if (isNaN(numeric) || isNaN(threshold)) return false;
+      return rule.operator === RiskRuleOperator.GREATER_THAN ? numeric > threshold : numeric < threshold;
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * Apply a set of rules to a company's answers
+ *
+ * The adjusted score is the base score plus the adjustments of every fired
+ * rule, clamped to 0-100. It is split across the clusters in proportion to
+ * the base clusters with each rule's adjustment applied to its cluster, so
+ * the clusters keep summing to the score.
+ *
+ * @param rules The rules to apply (disabled rules are skipped)
+ * @param answers Scored answers from collectScoredAnswers
+ * @param baseRiskScore The company's current risk score
+ * @param baseRiskClusters The company's current risk clusters
+ * @returns The adjusted score and clusters and the rules that fired
+ */
+export function applyRiskRules(
+  rules: RiskScoreRule[],
+  answers: ScoredAnswer[],
+  baseRiskScore: number,
+  baseRiskClusters: RiskClusters
+): RiskRuleResult {
+  const answersByField = new Map<string, string | null>();
+  for (const answer of answers) {
+    answersByField.set(`${answer.formType}:${answer.fieldKey}`, answer.responseValue);
+  }
+
+  const clusterShares = { ...baseRiskClusters };
+  const firedRules: FiredRiskRule[] = [];
+
+  for (const rule of rules) {
+    if (!rule.enabled || !RISK_CLUSTER_NAMES.includes(rule.cluster as keyof RiskClusters)) {
+      continue;
+    }
+
+    const answer = answersByField.get(`${rule.form_type}:${rule.field_key}`) ?? null;
+    if (!ruleConditionMatches(rule, answer)) {
+      continue;
+    }
+
+    const cluster = rule.cluster as keyof RiskClusters;
+    clusterShares[cluster] = Math.max(0, clusterShares[cluster] + rule.score_adjustment);
+
+    firedRules.push({
+      ruleId: rule.id,
+      name: rule.name,
+      formType: rule.form_type,
+      fieldKey: rule.field_key,
+      answer,
+      cluster: rule.cluster,
+      scoreAdjustment: rule.score_adjustment
+    });
+  }
+
+  if (firedRules.length === 0) {
+    return {
+      baseRiskScore,
+      adjustedRiskScore: baseRiskScore,
+      baseRiskClusters,
+      adjustedRiskClusters: { ...baseRiskClusters },
+      firedRules
+    };
+  }
+
+  const totalAdjustment = firedRules.reduce((sum, fired) => sum + fired.scoreAdjustment, 0);
+  const adjustedRiskScore = Math.max(0, Math.min(100, Math.round(baseRiskScore + totalAdjustment)));
+
+  return {
+    baseRiskScore,
+    adjustedRiskScore,
+    baseRiskClusters,
+    adjustedRiskClusters: apportionScore(adjustedRiskScore, clusterShares),
+    firedRules
+  };
+}
+
+/**
+ * Apply the rule adjustment of a bank's evaluation to a company's score
+ *
+ * The adjustment is the difference between the evaluation's adjusted and
+ * base score, so a score written after the evaluation keeps the bank's
+ * adjustment until the rules run again.
+ *
+ * @param riskScore The company's risk score
+ * @param evaluation The bank's latest evaluation of the company, if any
+ * @returns The score as the bank sees it
+ */
+export function applyRuleAdjustment(
+  riskScore: number,
+  evaluation?: Pick<RiskRuleEvaluation, 'base_risk_score' | 'adjusted_risk_score'> | null
+): number {
+  if (!evaluation) {
+    return riskScore;
+  }
+
+  const adjustment = evaluation.adjusted_risk_score - evaluation.base_risk_score;
+  return Math.max(0, Math.min(100, riskScore + adjustment));
+}
+
+/**
+ * Get a bank's latest rule evaluations of a set of companies
+ *
+ * @param bankCompanyId The bank whose evaluations to read
+ * @param companyIds The evaluated companies
+ * @param executor Database or transaction to run queries with
+ * @returns Evaluations keyed by company ID
+ */
+export async function getRiskRuleEvaluations(
+  bankCompanyId: number,
+  companyIds: number[],
+  executor: DbExecutor = db
+): Promise<Map<number, RiskRuleEvaluation>> {
+  if (companyIds.length === 0) {
+    return new Map();
+  }
+
+  const evaluations: RiskRuleEvaluation[] = await executor.select()
+    .from(riskRuleEvaluations)
+    .where(and(
+      eq(riskRuleEvaluations.bank_company_id, bankCompanyId),
+      inArray(riskRuleEvaluations.company_id, companyIds)
+    ));
+
+  return new Map(evaluations.map(evaluation => [evaluation.company_id, evaluation]));
+}
+
+/**
+ * Evaluate one bank's rules against a company and store the result
+ *
+ * @param bankCompanyId The bank whose rules to run
+ * @param companyId The company whose answers to evaluate
+ * @param taskId The submission that triggered the evaluation, if any
+ * @param executor Database or transaction to run queries with
+ * @returns The stored evaluation
+ */
+export async function evaluateRiskRulesForCompany(
+  bankCompanyId: number,
+  companyId: number,
+  taskId: number | null = null,
+  executor: DbExecutor = db
+): Promise<RiskRuleEvaluation> {
+  const rules: RiskScoreRule[] = await executor.select()
+    .from(riskScoreRules)
+    .where(and(eq(riskScoreRules.company_id, bankCompanyId), eq(riskScoreRules.enabled, true)))
+    .orderBy(riskScoreRules.id);
+
+  const [company] = await executor.select({
+    risk_score: companies.risk_score,
+    risk_clusters: companies.risk_clusters
+  })
+  .from(companies)
+  .where(eq(companies.id, companyId));
+
+  if (!company) {
+    throw new Error(`Company ${companyId} not found`);
+  }
+
+  const answers = await collectScoredAnswers(companyId, executor);
+  const baseRiskScore = company.risk_score ?? 0;
+  const baseRiskClusters = (company.risk_clusters as RiskClusters | null) ?? aggregateRiskClusters(baseRiskScore, answers);
+
+  const result = applyRiskRules(rules, answers, baseRiskScore, baseRiskClusters);
+
+  const values = {
+    bank_company_id: bankCompanyId,
+    company_id: companyId,
+    task_id: taskId,
+    base_risk_score: result.baseRiskScore,
+    adjusted_risk_score: result.adjustedRiskScore,
+    base_risk_clusters: result.baseRiskClusters,
+    adjusted_risk_clusters: result.adjustedRiskClusters,
+    fired_rules: result.firedRules,
+    evaluated_at: new Date()
+  };
+
+  // Only the latest evaluation per bank and company is kept
+  const [existing] = await executor.select({ id: riskRuleEvaluations.id })
+    .from(riskRuleEvaluations)
+    .where(and(
+      eq(riskRuleEvaluations.bank_company_id, bankCompanyId),
+      eq(riskRuleEvaluations.company_id, companyId)
+    ));
+
+  const [evaluation] = existing
+    ? await executor.update(riskRuleEvaluations)
+        .set(values)
+        .where(eq(riskRuleEvaluations.id, existing.id))
+        .returning()
+    : await executor.insert(riskRuleEvaluations)
+        .values(values)
+        .returning();
+
+  console.log('[RiskRuleEvaluator] Evaluated risk score rules', {
+    bankCompanyId,
+    companyId,
+    taskId,
+    rulesEvaluated: rules.length,
+    rulesFired: result.firedRules.length,
+    baseRiskScore: result.baseRiskScore,
+    adjustedRiskScore: result.adjustedRiskScore
+  });
+
+  return evaluation;
+}
+
+/**
+ * Run the risk score rules of every bank in a company's network after one
+ * of the company's forms has been submitted
+ *
+ * Failures are logged and never propagate, so rule evaluation can not break
+ * a submission that has already been committed.
+ *
+ * @param companyId The company that submitted the form
+ * @param taskId The submitted task
+ * @returns The stored evaluations, one per bank with enabled rules
+ */
+export async function runRiskRulesForSubmission(companyId: number, taskId: number): Promise<RiskRuleEvaluation[]> {
+  try {
+    const networkIds = await getNetworkCompanyIds(companyId);
+    if (networkIds.length === 0) {
+      return [];
+    }
+
+    const bankRows: Array<{ company_id: number }> = await db
+      .selectDistinct({ company_id: riskScoreRules.company_id })
+      .from(riskScoreRules)
+      .where(and(inArray(riskScoreRules.company_id, networkIds), eq(riskScoreRules.enabled, true)));
+
+    const evaluations: RiskRuleEvaluation[] = [];
+    for (const { company_id: bankCompanyId } of bankRows) {
+      evaluations.push(await evaluateRiskRulesForCompany(bankCompanyId, companyId, taskId));
+    }
+
+    return evaluations;
+  } catch (error) {
+    console.error('[RiskRuleEvaluator] Error running risk score rules for submission', {
+      companyId,
+      taskId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return [];
+  }
+}
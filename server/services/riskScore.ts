@@ -1,6 +1,10 @@
 import { db } from '@db';
 import { companies, cardResponses, cardFields } from '@db/schema';
 import { eq } from 'drizzle-orm';
+import { RiskScoreHistoryService } from './risk-score-history-service';
+import { runRiskRulesForSubmission } from './riskRuleEvaluator';
+import { RiskAlertService } from './risk-alert-service';
+import { calculateCompanyRiskProfile } from './riskClusters';
 
 interface RiskScoreResult {
   riskScore: number;
@@ -137,10 +141,15 @@ export async function updateCompanyRiskScore(companyId: number, taskId: number):
       throw new Error(`Company with ID ${companyId} not found`);
     }
 
+    // Late breach notifications come off the assessment score
+    const { riskScore, riskClusters, lateNotificationDeduction } = await calculateCompanyRiskProfile(companyId, result.riskScore);
+
     const [updatedCompany] = await db
       .update(companies)
       .set({
-        risk_score: result.riskScore,
+        risk_score: riskScore,
+        risk_clusters: riskClusters,
+        late_notification_deduction: lateNotificationDeduction,
         updated_at: new Date()
       })
       .where(eq(companies.id, companyId))
@@ -156,7 +165,22 @@ export async function updateCompanyRiskScore(companyId: number, taskId: number):
       timestamp: new Date().toISOString()
     });
 
-    return result.riskScore;
+    // Record the change so risk trends have a real time series
+    await RiskScoreHistoryService.recordScoreChange({
+      companyId,
+      riskScore,
+      riskClusters,
+      taskId,
+      source: 'card_submission'
+    });
+
+    // Re-run bank-defined risk score rules against the new score
+    await runRiskRulesForSubmission(companyId, taskId);
+
+    // Alert banks whose thresholds the new score breaches
+    await RiskAlertService.evaluateScore(companyId, riskScore);
+
+    return riskScore;
   } catch (error) {
     console.error('[Risk Score] Error updating company risk score:', {
       error,
@@ -0,0 +1,220 @@
+/**
+ * Risk Score Explanation
+ *
+ * Breaks a company's risk score down to the answers that produced it, so a
+ * FinTech disputing its score can see every answer, the weight it carried,
+ * the points it earned and the scoring rule that awarded them. The score
+ * itself comes from the assessment that last wrote it (Open Banking or
+ * CARD); the clusters are derived from every assessment, as in
+ * aggregateRiskClusters.
+ */
+
+import { db, type DbExecutor } from '@db';
+import { companies, riskScoreHistory, riskRuleEvaluations, type OpenBankingScoringRule } from '@db/schema';
+import { eq, and, desc } from 'drizzle-orm';
+import {
+  collectScoredAnswers,
+  aggregateRiskClusters,
+  RISK_CLUSTER_NAMES,
+  type AssessmentFormType,
+  type RiskClusterName,
+  type RiskClusters
+} from './riskClusters';
+import type { FiredRiskRule } from './riskRuleEvaluator';
+
+/**
+ * Risk score history sources and the assessment whose answers they score
+ */
+const SCORE_SOURCE_FORMS: Record<string, AssessmentFormType> = {
+  open_banking_submission: 'open_banking',
+  card_submission: 'card'
+};
+
+export interface FieldContribution {
+  formType: AssessmentFormType;
+  taskId: number;
+  fieldId: number;
+  fieldKey: string;
+  label: string;
+  group: string | null;
+  cluster: RiskClusterName;
+  answer: string | null;
+  points: number;
+  maxPoints: number;
+  countsTowardScore: boolean;  // Whether the field belongs to the assessment that produced the score
+  weight: number;              // Share of the score's available points the field carries (0-1)
+  scoreContribution: number;   // Points of the 0-100 risk score contributed by the answer
+  clusterContribution: number; // Points of the cluster score contributed by the answer
+  rule: OpenBankingScoringRule | null;
+  reasoning: string;
+  bankRules: FiredRiskRule[];  // Rules of the viewing bank that fired on this answer
+}
+
+export interface ClusterExplanation {
+  cluster: RiskClusterName;
+  score: number;
+  earnedPoints: number;
+  maxPoints: number;
+  fieldCount: number;
+}
+
+export interface BankRuleAdjustment {
+  bankCompanyId: number;
+  baseRiskScore: number;
+  adjustedRiskScore: number;
+  firedRules: FiredRiskRule[];
+  evaluatedAt: Date | null;
+}
+
+export interface RiskScoreExplanation {
+  companyId: number;
+  companyName: string;
+  riskScore: number | null;          // Score stored on the company
+  recalculatedScore: number | null;  // Score recomputed from the current answers
+  scoreSource: AssessmentFormType | null;
+  earnedPoints: number;
+  maxPossiblePoints: number;
+  clusters: ClusterExplanation[];
+  fields: FieldContribution[];
+  bankAdjustment: BankRuleAdjustment | null;
+  generatedAt: string;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Explain a company's risk score by field and cluster
+ *
+ * @param companyId The company whose score to explain
+ * @param viewerCompanyId The company asking; a bank also sees its own rule adjustments
+ * @param executor Database or transaction to run queries with
+ * @returns The explanation, or null when the company does not exist
+ */
+export async function explainCompanyRiskScore(
+  companyId: number,
+  viewerCompanyId: number | null = null,
+  executor: DbExecutor = db
+): Promise<RiskScoreExplanation | null> {
+  const [company] = await executor
+    .select({
+      id: companies.id,
+      name: companies.name,
+      risk_score: companies.risk_score,
+      risk_clusters: companies.risk_clusters
+    })
+    .from(companies)
+    .where(eq(companies.id, companyId));
+
+  if (!company) {
+    return null;
+  }
+
+  const [answers, [latestEntry], [evaluation]] = await Promise.all([
+    collectScoredAnswers(companyId, executor),
+    executor
+      .select({ source: riskScoreHistory.source })
+      .from(riskScoreHistory)
+      .where(eq(riskScoreHistory.company_id, companyId))
+      .orderBy(desc(riskScoreHistory.created_at), desc(riskScoreHistory.id))
+      .limit(1),
+    viewerCompanyId !== null && viewerCompanyId !== companyId
+      ? executor
+          .select()
+          .from(riskRuleEvaluations)
+          .where(and(
+            eq(riskRuleEvaluations.bank_company_id, viewerCompanyId),
+            eq(riskRuleEvaluations.company_id, companyId)
+          ))
+      : Promise.resolve([])
+  ]);
+
+  // The score comes from the assessment that last wrote it; without history,
+  // prefer Open Banking, which is the assessment that sets the score on submission
+  const presentForms = new Set(answers.map(answer => answer.formType));
+  const scoreSource: AssessmentFormType | null =
+    (latestEntry && SCORE_SOURCE_FORMS[latestEntry.source] && presentForms.has(SCORE_SOURCE_FORMS[latestEntry.source]))
+      ? SCORE_SOURCE_FORMS[latestEntry.source]
+      : presentForms.has('open_banking') ? 'open_banking'
+      : presentForms.has('card') ? 'card'
+      : null;
+
+  const scoringAnswers = answers.filter(answer => answer.formType === scoreSource);
+  const earnedPoints = scoringAnswers.reduce((sum, answer) => sum + answer.points, 0);
+  const maxPossiblePoints = scoringAnswers.reduce((sum, answer) => sum + answer.maxPoints, 0);
+  const recalculatedScore = maxPossiblePoints > 0
+    ? Math.min(Math.max(0, Math.round((earnedPoints / maxPossiblePoints) * 100)), 100)
+    : null;
+
+  const clusterScores: RiskClusters = company.risk_clusters
+    ?? aggregateRiskClusters(company.risk_score ?? recalculatedScore ?? 0, answers);
+
+  const clusterTotals = RISK_CLUSTER_NAMES.reduce((acc, name) => {
+    acc[name] = { earned: 0, max: 0, count: 0 };
+    return acc;
+  }, {} as Record<RiskClusterName, { earned: number; max: number; count: number }>);
+
+  for (const answer of answers) {
+    clusterTotals[answer.cluster].earned += answer.points;
+    clusterTotals[answer.cluster].max += answer.maxPoints;
+    clusterTotals[answer.cluster].count += 1;
+  }
+
+  const firedRules: FiredRiskRule[] = evaluation?.fired_rules ?? [];
+
+  const fields: FieldContribution[] = answers.map(answer => {
+    const countsTowardScore = answer.formType === scoreSource;
+    const clusterEarned = clusterTotals[answer.cluster].earned;
+
+    return {
+      formType: answer.formType,
+      taskId: answer.taskId,
+      fieldId: answer.fieldId,
+      fieldKey: answer.fieldKey,
+      label: answer.label,
+      group: answer.group,
+      cluster: answer.cluster,
+      answer: answer.responseValue,
+      points: answer.points,
+      maxPoints: answer.maxPoints,
+      countsTowardScore,
+      weight: countsTowardScore && maxPossiblePoints > 0 ? round2(answer.maxPoints / maxPossiblePoints) : 0,
+      scoreContribution: countsTowardScore && maxPossiblePoints > 0
+        ? round2((answer.points / maxPossiblePoints) * 100)
+        : 0,
+      clusterContribution: clusterEarned > 0
+        ? round2((answer.points / clusterEarned) * (clusterScores[answer.cluster] ?? 0))
+        : 0,
+      rule: answer.matchedRule,
+      reasoning: answer.reasoning,
+      bankRules: firedRules.filter(rule => rule.formType === answer.formType && rule.fieldKey === answer.fieldKey)
+    };
+  });
+
+  return {
+    companyId: company.id,
+    companyName: company.name,
+    riskScore: company.risk_score,
+    recalculatedScore,
+    scoreSource,
+    earnedPoints,
+    maxPossiblePoints,
+    clusters: RISK_CLUSTER_NAMES.map(cluster => ({
+      cluster,
+      score: clusterScores[cluster] ?? 0,
+      earnedPoints: clusterTotals[cluster].earned,
+      maxPoints: clusterTotals[cluster].max,
+      fieldCount: clusterTotals[cluster].count
+    })),
+    fields,
+    bankAdjustment: evaluation
+      ? {
+          bankCompanyId: evaluation.bank_company_id,
+          baseRiskScore: evaluation.base_risk_score,
+          adjustedRiskScore: evaluation.adjusted_risk_score,
+          firedRules,
+          evaluatedAt: evaluation.evaluated_at
+        }
+      : null,
+    generatedAt: new Date().toISOString()
+  };
+}
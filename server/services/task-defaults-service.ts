@@ -0,0 +1,225 @@
+/**
+ * ========================================
+ * Task Defaults Service
+ * ========================================
+ *
+ * Defaults for new tasks, read from the configurations of their task
+ * template: title, description, priority, due-date offset, required files and
+ * the form component, and the reminder and escalation schedule the SLA
+ * sweeper holds tasks to. Each value can be overridden for a bank's companies or
+ * for a single company, so scopes are resolved global < bank < company.
+ * Changing a creation default changes the tasks created from then on.
+ *
+ * Key Features:
+ * - Task defaults stored as component configurations of the task template
+ * - Scope overrides resolved global < bank < company
+ * - {companyName}, {inviteeName} and {email} placeholders in titles and descriptions
+ * - Reminder offsets and escalation delay for the task SLA sweeper
+ * - Reports which scope each default came from
+ *
+ * @module TaskDefaultsService
+ * @version 1.0.0
+ * @since 2025-06-05
+ */
+
+import { db, type DbExecutor } from '@db';
+import { companies, taskTemplates, componentConfigurations, ConfigurationScope } from '@db/schema';
+import { eq, and, or, inArray, type SQL } from 'drizzle-orm';
+import { TaskDependencyService } from './task-dependency-service';
+import { logger } from '../utils/logger';
+
+// Configuration keys holding task defaults
+export const TASK_DEFAULT_KEYS = {
+  TITLE: 'defaultTitle',
+  DESCRIPTION: 'defaultDescription',
+  PRIORITY: 'defaultPriority',
+  DUE_IN_DAYS: 'dueInDays',
+  REQUIRED_FILES: 'requiredFiles',
+  FORM_COMPONENT: 'formComponent',
+  REMINDER_DAYS: 'reminderDays',
+  ESCALATE_AFTER_DAYS: 'escalateAfterDays'
+} as const;
+
+export type TaskDefaultKey = typeof TASK_DEFAULT_KEYS[keyof typeof TASK_DEFAULT_KEYS];
+
+export type TaskPriority = 'low' | 'medium' | 'high';
+
+const PRIORITIES: TaskPriority[] = ['low', 'medium', 'high'];
+
+/**
+ * Days before the due date at which reminders are sent, unless configured
+ */
+export const DEFAULT_REMINDER_DAYS = [7, 3, 1];
+
+/**
+ * Days past the due date before an overdue task is escalated, unless configured
+ */
+export const DEFAULT_ESCALATE_AFTER_DAYS = 3;
+
+/**
+ * Furthest ahead of a due date a reminder can be configured
+ */
+export const MAX_REMINDER_DAYS = 90;
+
+// Later scopes override earlier ones
+const SCOPE_ORDER: ConfigurationScope[] = [ConfigurationScope.GLOBAL, ConfigurationScope.BANK, ConfigurationScope.COMPANY];
+
+export interface TaskDefaultsTarget {
+  companyId?: number | null;
+  bankCompanyId?: number | null; // Looked up from the company's network when not given
+  companyName?: string;          // Looked up from the company when not given
+  inviteeName?: string;          // Invited user, for invitation tasks
+  email?: string;
+}
+
+export interface TaskDefaults {
+  templateId: number | null;
+  taskType: string;
+  title: string;
+  description: string;
+  priority: TaskPriority;
+  dueInDays: number | null;
+  dueDate: Date | null;
+  filesRequested: string[];
+  formComponent: string | null;
+  reminderDays: number[];        // Days before the due date, most distant first
+  escalateAfterDays: number;     // Days past the due date before escalating to the bank
+  sources: Partial<Record<TaskDefaultKey, ConfigurationScope>>; // Scope each configured default came from
+}
+
+/**
+ * Task Defaults Service - task creation defaults from template configurations
+ */
+export class TaskDefaultsService {
+
+  /**
+   * Resolves the defaults for a new task
+   *
+   * @param taskType - Type of the task being created
+   * @param target - Company the task is for, and the bank whose network it is in
+   * @returns Defaults from the template's configurations, with the template's name and component as fallbacks
+   */
+  static async resolve(taskType: string, target: TaskDefaultsTarget = {}, executor: DbExecutor = db): Promise<TaskDefaults> {
+    const companyId = target.companyId ?? null;
+
+    let companyName = target.companyName;
+    if (companyName === undefined && companyId !== null) {
+      const [company] = await executor.select({ name: companies.name })
+        .from(companies)
+        .where(eq(companies.id, companyId));
+      companyName = company?.name;
+    }
+
+    const bankCompanyId = target.bankCompanyId !== undefined
+      ? target.bankCompanyId
+      : companyId !== null ? await TaskDependencyService.findCompanyBank(companyId, executor) : null;
+
+    const [template] = await executor.select()
+      .from(taskTemplates)
+      .where(eq(taskTemplates.task_type, TaskDependencyService.templateType(taskType)))
+      .limit(1);
+    const activeTemplate = template && template.status.toLowerCase() === 'active' ? template : null;
+
+    const values = new Map<TaskDefaultKey, unknown>();
+    const sources: TaskDefaults['sources'] = {};
+
+    if (activeTemplate) {
+      const scopes: Array<SQL | undefined> = [eq(componentConfigurations.scope, ConfigurationScope.GLOBAL)];
+      if (bankCompanyId !== null) {
+        scopes.push(and(
+          eq(componentConfigurations.scope, ConfigurationScope.BANK),
+          eq(componentConfigurations.scope_target, String(bankCompanyId))
+        ));
+      }
+      if (companyId !== null) {
+        scopes.push(and(
+          eq(componentConfigurations.scope, ConfigurationScope.COMPANY),
+          eq(componentConfigurations.scope_target, String(companyId))
+        ));
+      }
+
+      const configurations = await executor.select()
+        .from(componentConfigurations)
+        .where(and(
+          eq(componentConfigurations.template_id, activeTemplate.id),
+          inArray(componentConfigurations.config_key, Object.values(TASK_DEFAULT_KEYS)),
+          or(...scopes)
+        ));
+
+      const rank = (scope: string | null) => SCOPE_ORDER.indexOf(scope as ConfigurationScope);
+      const ordered = [...configurations].sort((a, b) => rank(a.scope) - rank(b.scope) || a.id - b.id);
+      for (const configuration of ordered) {
+        const key = configuration.config_key as TaskDefaultKey;
+        if (!this.isValid(key, configuration.config_value)) {
+          logger.warn('[TaskDefaultsService] Ignoring invalid task default', {
+            templateId: activeTemplate.id,
+            configurationId: configuration.id,
+            key
+          });
+          continue;
+        }
+        values.set(key, configuration.config_value);
+        sources[key] = configuration.scope as ConfigurationScope;
+      }
+    }
+
+    const fill = (text: string) => text
+      .replace(/\{companyName\}/g, companyName ?? 'your company')
+      .replace(/\{inviteeName\}/g, target.inviteeName ?? 'a new user')
+      .replace(/\{email\}/g, target.email ?? '');
+    const name = activeTemplate?.name ?? taskType;
+
+    const dueInDays = (values.get(TASK_DEFAULT_KEYS.DUE_IN_DAYS) as number | undefined) ?? null;
+    let dueDate: Date | null = null;
+    if (dueInDays !== null) {
+      dueDate = new Date();
+      dueDate.setDate(dueDate.getDate() + dueInDays);
+    }
+
+    return {
+      templateId: activeTemplate?.id ?? null,
+      taskType,
+      title: fill((values.get(TASK_DEFAULT_KEYS.TITLE) as string | undefined)
+        ?? (companyName ? `${name}: {companyName}` : name)),
+      description: fill((values.get(TASK_DEFAULT_KEYS.DESCRIPTION) as string | undefined)
+        ?? activeTemplate?.description
+        ?? `Complete ${name} for {companyName}`),
+      priority: (values.get(TASK_DEFAULT_KEYS.PRIORITY) as TaskPriority | undefined) ?? 'medium',
+      dueInDays,
+      dueDate,
+      filesRequested: (values.get(TASK_DEFAULT_KEYS.REQUIRED_FILES) as string[] | undefined) ?? [],
+      formComponent: (values.get(TASK_DEFAULT_KEYS.FORM_COMPONENT) as string | undefined)
+        ?? activeTemplate?.component_type
+        ?? null,
+      reminderDays: [...new Set((values.get(TASK_DEFAULT_KEYS.REMINDER_DAYS) as number[] | undefined)
+        ?? DEFAULT_REMINDER_DAYS)].sort((a, b) => b - a),
+      escalateAfterDays: (values.get(TASK_DEFAULT_KEYS.ESCALATE_AFTER_DAYS) as number | undefined)
+        ?? DEFAULT_ESCALATE_AFTER_DAYS,
+      sources
+    };
+  }
+
+  /**
+   * Whether a configured value has the type its default needs
+   */
+  static isValid(key: TaskDefaultKey, value: unknown): boolean {
+    switch (key) {
+      case TASK_DEFAULT_KEYS.TITLE:
+      case TASK_DEFAULT_KEYS.DESCRIPTION:
+      case TASK_DEFAULT_KEYS.FORM_COMPONENT:
+        return typeof value === 'string' && value.trim().length > 0;
+      case TASK_DEFAULT_KEYS.PRIORITY:
+        return PRIORITIES.includes(value as TaskPriority);
+      case TASK_DEFAULT_KEYS.DUE_IN_DAYS:
+      case TASK_DEFAULT_KEYS.ESCALATE_AFTER_DAYS:
+        return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+      case TASK_DEFAULT_KEYS.REMINDER_DAYS:
+        return Array.isArray(value) && value.every(days =>
+          typeof days === 'number' && Number.isInteger(days) && days >= 0 && days <= MAX_REMINDER_DAYS);
+      case TASK_DEFAULT_KEYS.REQUIRED_FILES:
+        return Array.isArray(value) && value.every(file => typeof file === 'string');
+      default:
+        return false;
+    }
+  }
+}
@@ -0,0 +1,716 @@
+/**
+ * ========================================
+ * Task Dependency Service
+ * ========================================
+ *
+ * The onboarding sequence as data. Each edge keeps a task template's tasks
+ * locked until a prerequisite template's task reaches one of the edge's
+ * statuses, and each unlock effect opens a company tab once a template's task
+ * is submitted or completed. A global sequence applies to every company; a
+ * bank can set its own sequence, which replaces the global one for the
+ * companies in its network until the bank resets it. One evaluator applies the
+ * sequence for a company, whichever code path asks: every locked task without
+ * an unmet prerequisite is unlocked, and the form submission paths open tabs
+ * only through it.
+ *
+ * Key Features:
+ * - Dependency edges and tab unlock effects stored per task template
+ * - Global sequence with per-bank sequences for the bank's companies, reset explicitly
+ * - Cycle detection when an edge is added
+ * - Single evaluator unlocking tasks and tabs whose prerequisites are met,
+ *   broadcasting once its changes are committed
+ * - Dependency graph of a company with the state of each template
+ *
+ * @module TaskDependencyService
+ * @version 1.0.0
+ * @since 2025-06-05
+ */
+
+import { db, type DbExecutor, type DbTransaction } from '@db';
+import {
+  tasks,
+  companies,
+  relationships,
+  taskTemplates,
+  taskDependencies,
+  taskUnlockEffects,
+  TaskStatus,
+  DependencyScope
+} from '@db/schema';
+import { eq, and, asc, isNull, inArray } from 'drizzle-orm';
+import { sql } from 'drizzle-orm/sql';
+import { broadcastTaskUpdate } from './websocket';
+import { broadcastCompanyTabsUpdate } from './company-tabs';
+import { logger } from '../utils/logger';
+
+export type TaskDependency = typeof taskDependencies.$inferSelect;
+export type TaskUnlockEffect = typeof taskUnlockEffects.$inferSelect;
+
+// Legacy task types that belong to the template of another type
+const TASK_TYPE_ALIASES: Record<string, string> = {
+  kyb: 'company_kyb',
+  sp_ky3p_assessment: 'ky3p'
+};
+
+// A task is finished once submitted or completed: the default for edges, and when tab unlock effects apply
+const FINISHED_STATUSES: string[] = [TaskStatus.SUBMITTED, TaskStatus.COMPLETED];
+
+export interface SequenceEditor {
+  companyId: number;
+  isInvela: boolean;
+}
+
+export interface DependencyParams {
+  templateId: number;
+  prerequisiteTemplateId: number;
+  satisfiedBy?: string[];
+  bankCompanyId?: number | null; // Only Invela sets this; banks edit their own sequence. Null edits the global one
+}
+
+export interface UnlockEffectParams {
+  templateId: number;
+  tab: string;
+  bankCompanyId?: number | null;
+}
+
+export interface DependencySequence {
+  scope: DependencyScope;
+  bankCompanyId: number | null;
+  dependencies: TaskDependency[];
+  effects: TaskUnlockEffect[];
+}
+
+export interface DependencyEvaluation {
+  unlockedTaskIds: number[];
+  unlockedTabs: string[];
+}
+
+export interface DependencyGraph {
+  companyId: number;
+  bankCompanyId: number | null;
+  dependencyScope: DependencyScope;
+  effectScope: DependencyScope;
+  nodes: Array<{
+    templateId: number;
+    taskType: string;
+    name: string;
+    satisfied: boolean;  // One of its tasks is submitted or completed
+    ready: boolean;      // Every prerequisite is met
+    tasks: Array<{ id: number; status: string; locked: boolean }>;
+  }>;
+  edges: Array<{
+    id: number;
+    from: number;        // Prerequisite template
+    to: number;          // Dependent template
+    satisfiedBy: string[];
+    met: boolean;
+  }>;
+  effects: Array<{
+    id: number;
+    templateId: number;
+    tab: string;
+    applied: boolean;
+  }>;
+}
+
+type CompanyTask = Pick<typeof tasks.$inferSelect, 'id' | 'task_type' | 'status' | 'progress' | 'metadata'>;
+
+/**
+ * Raised when the sequence cannot be read or changed
+ */
+export class TaskDependencyError extends Error {
+  constructor(
+    message: string,
+    public code: 'NOT_FOUND' | 'FORBIDDEN' | 'INVALID_DEPENDENCY' | 'DUPLICATE' | 'CYCLE'
+  ) {
+    super(message);
+    this.name = 'TaskDependencyError';
+  }
+}
+
+// Tasks are locked by a 'locked' status, which is not a TaskStatus, or by their metadata
+const isLocked = (task: Pick<CompanyTask, 'status' | 'metadata'>) =>
+  (task.status as string) === 'locked' || (task.metadata as Record<string, any> | null)?.locked === true;
+
+/**
+ * Task Dependency Service - onboarding sequences and their evaluation
+ */
+export class TaskDependencyService {
+
+  /**
+   * Template type a task belongs to
+   */
+  static templateType(taskType: string): string {
+    const normalized = taskType.toLowerCase();
+    return TASK_TYPE_ALIASES[normalized] ?? normalized;
+  }
+
+  /**
+   * The bank whose network a company belongs to, if any
+   */
+  static async findCompanyBank(companyId: number, executor: DbExecutor = db): Promise<number | null> {
+    const [bank] = await executor.select({ id: relationships.company_id })
+      .from(relationships)
+      .innerJoin(companies, eq(companies.id, relationships.company_id))
+      .where(and(
+        eq(relationships.related_company_id, companyId),
+        eq(companies.category, 'Bank')
+      ))
+      .orderBy(asc(relationships.id))
+      .limit(1);
+
+    return bank?.id ?? null;
+  }
+
+  /**
+   * The sequence that applies to a company: its bank's dependencies and
+   * effects where the bank has set them, otherwise the global ones
+   */
+  static async getSequence(companyId: number, executor: DbExecutor = db): Promise<DependencySequence> {
+    const bankCompanyId = await this.findCompanyBank(companyId, executor);
+
+    const [globalDependencies, globalEffects] = await Promise.all([
+      this.listDependencies(null, executor),
+      this.listEffects(null, executor)
+    ]);
+
+    if (bankCompanyId === null) {
+      return {
+        scope: DependencyScope.GLOBAL,
+        bankCompanyId,
+        dependencies: globalDependencies,
+        effects: globalEffects
+      };
+    }
+
+    const [bankDependencies, bankEffects] = await Promise.all([
+      this.listDependencies(bankCompanyId, executor),
+      this.listEffects(bankCompanyId, executor)
+    ]);
+
+    return {
+      scope: bankDependencies.length > 0 ? DependencyScope.BANK : DependencyScope.GLOBAL,
+      bankCompanyId,
+      dependencies: bankDependencies.length > 0 ? bankDependencies : globalDependencies,
+      effects: bankEffects.length > 0 ? bankEffects : globalEffects
+    };
+  }
+
+  /**
+   * Dependency edges of the global sequence, or of a bank's sequence
+   */
+  static async listDependencies(bankCompanyId: number | null, executor: DbExecutor = db): Promise<TaskDependency[]> {
+    return executor.select()
+      .from(taskDependencies)
+      .where(bankCompanyId === null
+        ? and(eq(taskDependencies.scope, DependencyScope.GLOBAL), isNull(taskDependencies.scope_target))
+        : and(eq(taskDependencies.scope, DependencyScope.BANK), eq(taskDependencies.scope_target, bankCompanyId)))
+      .orderBy(asc(taskDependencies.id));
+  }
+
+  /**
+   * Tab unlock effects of the global sequence, or of a bank's sequence
+   */
+  static async listEffects(bankCompanyId: number | null, executor: DbExecutor = db): Promise<TaskUnlockEffect[]> {
+    return executor.select()
+      .from(taskUnlockEffects)
+      .where(bankCompanyId === null
+        ? and(eq(taskUnlockEffects.scope, DependencyScope.GLOBAL), isNull(taskUnlockEffects.scope_target))
+        : and(eq(taskUnlockEffects.scope, DependencyScope.BANK), eq(taskUnlockEffects.scope_target, bankCompanyId)))
+      .orderBy(asc(taskUnlockEffects.id));
+  }
+
+  /**
+   * Applies a company's sequence: unlocks every locked task whose template has
+   * no unmet prerequisite and opens the tabs of every template whose task is
+   * submitted or completed
+   *
+   * Run on the database, the evaluation commits on its own and broadcasts the
+   * unlocked tasks and tabs. Run in a caller's transaction, nothing is
+   * broadcast: the caller passes the result to broadcastEvaluation once its
+   * transaction commits.
+   *
+   * @param companyId - Company to evaluate
+   * @returns Tasks unlocked and tabs opened by this evaluation
+   */
+  static async evaluate(companyId: number, executor: DbExecutor = db): Promise<DependencyEvaluation> {
+    if (executor !== db) {
+      return this.applySequence(companyId, executor);
+    }
+
+    const evaluation = await db.transaction((trx: DbExecutor) => this.applySequence(companyId, trx));
+    await this.broadcastEvaluation(companyId, evaluation);
+    return evaluation;
+  }
+
+  /**
+   * Broadcasts the tasks and tabs an evaluation unlocked, once the
+   * transaction it ran in has committed
+   */
+  static async broadcastEvaluation(companyId: number, evaluation: DependencyEvaluation): Promise<void> {
+    if (evaluation.unlockedTaskIds.length > 0) {
+      const unlocked = await db.select({ id: tasks.id, status: tasks.status, progress: tasks.progress, metadata: tasks.metadata })
+        .from(tasks)
+        .where(inArray(tasks.id, evaluation.unlockedTaskIds));
+
+      for (const task of unlocked) {
+        const metadata = (task.metadata ?? {}) as Record<string, any>;
+        broadcastTaskUpdate({
+          id: task.id,
+          status: task.status,
+          progress: task.progress ?? 0,
+          metadata: {
+            locked: false,
+            prerequisite_completed: true,
+            prerequisite_completed_at: metadata.prerequisite_completed_at
+          }
+        });
+      }
+    }
+
+    if (evaluation.unlockedTabs.length > 0) {
+      const [company] = await db.select({ available_tabs: companies.available_tabs })
+        .from(companies)
+        .where(eq(companies.id, companyId));
+
+      await broadcastCompanyTabsUpdate(companyId, company?.available_tabs ?? []);
+    }
+  }
+
+  private static async applySequence(companyId: number, executor: DbExecutor): Promise<DependencyEvaluation> {
+    const [sequence, companyTasks] = await Promise.all([
+      this.getSequence(companyId, executor),
+      this.listCompanyTasks(companyId, executor)
+    ]);
+    const templateTypes = await this.loadTemplateTypes(executor);
+
+    const tasksByTemplate = this.groupTasks(companyTasks, templateTypes);
+    const ready = this.readyTemplates(sequence.dependencies, tasksByTemplate);
+
+    const unlockedTaskIds: number[] = [];
+    const now = new Date();
+
+    for (const templateId of ready) {
+      for (const task of tasksByTemplate.get(templateId) ?? []) {
+        if (!isLocked(task)) continue;
+
+        const status = (task.status as string) === 'locked' ? TaskStatus.NOT_STARTED : task.status;
+
+        await executor.update(tasks)
+          .set({
+            status,
+            metadata: sql`COALESCE(${tasks.metadata}, '{}'::jsonb) || ${JSON.stringify({
+              locked: false,
+              prerequisite_completed: true,
+              prerequisite_completed_at: now.toISOString(),
+              dependencyUnlockOperation: true
+            })}::jsonb`,
+            updated_at: now
+          })
+          .where(eq(tasks.id, task.id));
+
+        unlockedTaskIds.push(task.id);
+      }
+    }
+
+    const tabs = sequence.effects
+      .filter(effect => (tasksByTemplate.get(effect.template_id) ?? []).some(task => FINISHED_STATUSES.includes(task.status)))
+      .map(effect => effect.tab);
+    const unlockedTabs = await this.openTabs(companyId, tabs, executor);
+
+    logger.info('[TaskDependencyService] Evaluated task dependencies', {
+      companyId,
+      scope: sequence.scope,
+      bankCompanyId: sequence.bankCompanyId,
+      unlockedTaskIds,
+      unlockedTabs
+    });
+
+    return { unlockedTaskIds, unlockedTabs };
+  }
+
+  /**
+   * A company's dependency graph: the templates in its sequence with the
+   * state of their tasks, the edges between them and the tab unlock effects
+   */
+  static async getGraph(companyId: number, executor: DbExecutor = db): Promise<DependencyGraph> {
+    const [sequence, companyTasks] = await Promise.all([
+      this.getSequence(companyId, executor),
+      this.listCompanyTasks(companyId, executor)
+    ]);
+    const [company] = await executor.select({ available_tabs: companies.available_tabs })
+      .from(companies)
+      .where(eq(companies.id, companyId));
+    if (!company) {
+      throw new TaskDependencyError('Company not found', 'NOT_FOUND');
+    }
+
+    const templateTypes = await this.loadTemplateTypes(executor);
+    const tasksByTemplate = this.groupTasks(companyTasks, templateTypes);
+    const ready = this.readyTemplates(sequence.dependencies, tasksByTemplate);
+
+    const templateIds = new Set<number>([
+      ...sequence.dependencies.flatMap(edge => [edge.template_id, edge.prerequisite_template_id]),
+      ...sequence.effects.map(effect => effect.template_id),
+      ...tasksByTemplate.keys()
+    ]);
+    const templates = templateIds.size > 0
+      ? await executor.select({ id: taskTemplates.id, name: taskTemplates.name, task_type: taskTemplates.task_type })
+        .from(taskTemplates)
+        .where(inArray(taskTemplates.id, Array.from(templateIds)))
+        .orderBy(asc(taskTemplates.id))
+      : [];
+
+    const isSatisfied = (templateId: number, statuses: string[]) =>
+      (tasksByTemplate.get(templateId) ?? []).some(task => statuses.includes(task.status));
+
+    return {
+      companyId,
+      bankCompanyId: sequence.bankCompanyId,
+      dependencyScope: sequence.scope,
+      effectScope: sequence.effects.some(effect => effect.scope === DependencyScope.BANK)
+        ? DependencyScope.BANK
+        : DependencyScope.GLOBAL,
+      nodes: templates.map((template: { id: number; name: string; task_type: string }) => ({
+        templateId: template.id,
+        taskType: template.task_type,
+        name: template.name,
+        satisfied: isSatisfied(template.id, FINISHED_STATUSES),
+        ready: ready.has(template.id) || !sequence.dependencies.some(edge => edge.template_id === template.id),
+        tasks: (tasksByTemplate.get(template.id) ?? []).map(task => ({
+          id: task.id,
+          status: task.status,
+          locked: isLocked(task)
+        }))
+      })),
+      edges: sequence.dependencies.map(edge => ({
+        id: edge.id,
+        from: edge.prerequisite_template_id,
+        to: edge.template_id,
+        satisfiedBy: edge.satisfied_by,
+        met: isSatisfied(edge.prerequisite_template_id, edge.satisfied_by)
+      })),
+      effects: sequence.effects.map(effect => ({
+        id: effect.id,
+        templateId: effect.template_id,
+        tab: effect.tab,
+        applied: (company.available_tabs ?? []).includes(effect.tab)
+      }))
+    };
+  }
+
+  /**
+   * Adds an edge to the global sequence or a bank's sequence, refusing edges
+   * that would make the sequence circular
+   */
+  static async addDependency(editor: SequenceEditor, params: DependencyParams, userId: number): Promise<TaskDependency> {
+    const bankCompanyId = this.editableScope(editor, params.bankCompanyId);
+
+    if (params.templateId === params.prerequisiteTemplateId) {
+      throw new TaskDependencyError('A task cannot depend on itself', 'INVALID_DEPENDENCY');
+    }
+
+    const satisfiedBy = params.satisfiedBy ?? FINISHED_STATUSES;
+    const statuses = Object.values(TaskStatus) as string[];
+    const invalid = satisfiedBy.filter(status => !statuses.includes(status));
+    if (satisfiedBy.length === 0 || invalid.length > 0) {
+      throw new TaskDependencyError(
+        invalid.length > 0 ? `Unknown task statuses: ${invalid.join(', ')}` : 'At least one status must satisfy the prerequisite',
+        'INVALID_DEPENDENCY'
+      );
+    }
+
+    return db.transaction(async (trx: DbTransaction) => {
+      // Edges are checked for cycles against the rest of the sequence, so changes to it are serialized
+      await trx.execute(sql`SELECT pg_advisory_xact_lock(hashtext('task_dependencies'))`);
+
+      const templateTypes = await this.loadTemplateTypes(trx);
+      const typeOf = new Map<number, string>(Array.from(templateTypes, ([type, id]) => [id, type]));
+      if (!typeOf.has(params.templateId) || !typeOf.has(params.prerequisiteTemplateId)) {
+        throw new TaskDependencyError('Task template not found', 'NOT_FOUND');
+      }
+
+      const existing = await this.listDependencies(bankCompanyId, trx);
+      if (existing.some(edge =>
+        edge.template_id === params.templateId && edge.prerequisite_template_id === params.prerequisiteTemplateId
+      )) {
+        throw new TaskDependencyError('This dependency already exists', 'DUPLICATE');
+      }
+
+      const cycle = this.findCycle([
+        ...existing,
+        { template_id: params.templateId, prerequisite_template_id: params.prerequisiteTemplateId }
+      ]);
+      if (cycle) {
+        throw new TaskDependencyError(
+          `This dependency would create a cycle: ${cycle.map(id => typeOf.get(id)).join(' → ')}`,
+          'CYCLE'
+        );
+      }
+
+      const [dependency] = await trx.insert(taskDependencies)
+        .values({
+          template_id: params.templateId,
+          prerequisite_template_id: params.prerequisiteTemplateId,
+          satisfied_by: satisfiedBy,
+          scope: bankCompanyId === null ? DependencyScope.GLOBAL : DependencyScope.BANK,
+          scope_target: bankCompanyId,
+          created_by: userId
+        })
+        .returning();
+
+      logger.info('[TaskDependencyService] Added task dependency', {
+        dependencyId: dependency.id,
+        bankCompanyId,
+        userId
+      });
+
+      return dependency;
+    });
+  }
+
+  /**
+   * Removes an edge from the global sequence or a bank's sequence
+   *
+   * A bank's last edge is kept: without it the bank's companies would fall
+   * back to the global sequence, which only resetSequence does.
+   */
+  static async removeDependency(editor: SequenceEditor, dependencyId: number): Promise<void> {
+    const [dependency] = await db.select()
+      .from(taskDependencies)
+      .where(eq(taskDependencies.id, dependencyId));
+    if (!dependency) {
+      throw new TaskDependencyError('Dependency not found', 'NOT_FOUND');
+    }
+
+    this.editableScope(editor, dependency.scope_target);
+
+    await db.transaction(async (trx: DbTransaction) => {
+      await trx.execute(sql`SELECT pg_advisory_xact_lock(hashtext('task_dependencies'))`);
+
+      if (dependency.scope_target !== null) {
+        const remaining = await this.listDependencies(dependency.scope_target, trx);
+        if (remaining.length === 1) {
+          throw new TaskDependencyError(
+            "This is the bank's last dependency; reset the bank's sequence to use the global one",
+            'INVALID_DEPENDENCY'
+          );
+        }
+      }
+
+      await trx.delete(taskDependencies).where(eq(taskDependencies.id, dependencyId));
+    });
+  }
+
+  /**
+   * Removes a bank's dependencies and unlock effects, so its companies follow
+   * the global sequence again
+   */
+  static async resetSequence(editor: SequenceEditor, bankCompanyId?: number): Promise<void> {
+    const bankId = this.editableScope(editor, bankCompanyId);
+    if (bankId === null) {
+      throw new TaskDependencyError('Only a bank\'s sequence can be reset', 'INVALID_DEPENDENCY');
+    }
+
+    await db.transaction(async (trx: DbTransaction) => {
+      await trx.execute(sql`SELECT pg_advisory_xact_lock(hashtext('task_dependencies'))`);
+
+      await trx.delete(taskDependencies)
+        .where(and(eq(taskDependencies.scope, DependencyScope.BANK), eq(taskDependencies.scope_target, bankId)));
+      await trx.delete(taskUnlockEffects)
+        .where(and(eq(taskUnlockEffects.scope, DependencyScope.BANK), eq(taskUnlockEffects.scope_target, bankId)));
+    });
+
+    logger.info('[TaskDependencyService] Reset bank sequence to the global one', { bankCompanyId: bankId });
+  }
+
+  /**
+   * Adds a tab unlock effect to the global sequence or a bank's sequence
+   */
+  static async addEffect(editor: SequenceEditor, params: UnlockEffectParams, userId: number): Promise<TaskUnlockEffect> {
+    const bankCompanyId = this.editableScope(editor, params.bankCompanyId);
+    const tab = params.tab.trim();
+    if (!tab) {
+      throw new TaskDependencyError('A tab is required', 'INVALID_DEPENDENCY');
+    }
+
+    const [template] = await db.select({ id: taskTemplates.id })
+      .from(taskTemplates)
+      .where(eq(taskTemplates.id, params.templateId));
+    if (!template) {
+      throw new TaskDependencyError('Task template not found', 'NOT_FOUND');
+    }
+
+    const existing = await this.listEffects(bankCompanyId);
+    if (existing.some(effect => effect.template_id === params.templateId && effect.tab === tab)) {
+      throw new TaskDependencyError('This tab is already unlocked by the template', 'DUPLICATE');
+    }
+
+    const [effect] = await db.insert(taskUnlockEffects)
+      .values({
+        template_id: params.templateId,
+        tab,
+        scope: bankCompanyId === null ? DependencyScope.GLOBAL : DependencyScope.BANK,
+        scope_target: bankCompanyId,
+        created_by: userId
+      })
+      .returning();
+
+    return effect;
+  }
+
+  /**
+   * Removes a tab unlock effect from the global sequence or a bank's sequence
+   */
+  static async removeEffect(editor: SequenceEditor, effectId: number): Promise<void> {
+    const [effect] = await db.select()
+      .from(taskUnlockEffects)
+      .where(eq(taskUnlockEffects.id, effectId));
+    if (!effect) {
+      throw new TaskDependencyError('Unlock effect not found', 'NOT_FOUND');
+    }
+
+    this.editableScope(editor, effect.scope_target);
+    await db.delete(taskUnlockEffects).where(eq(taskUnlockEffects.id, effectId));
+  }
+
+  /**
+   * Finds a cycle among dependency edges
+   *
+   * @returns The template IDs around the cycle, starting and ending with the same one, or null
+   */
+  static findCycle(edges: Array<Pick<TaskDependency, 'template_id' | 'prerequisite_template_id'>>): number[] | null {
+    const dependents = new Map<number, number[]>();
+    for (const edge of edges) {
+      const next = dependents.get(edge.prerequisite_template_id) ?? [];
+      next.push(edge.template_id);
+      dependents.set(edge.prerequisite_template_id, next);
+    }
+
+    const done = new Set<number>();
+    const path: number[] = [];
+
+    const visit = (templateId: number): number[] | null => {
+      const index = path.indexOf(templateId);
+      if (index >= 0) return [...path.slice(index), templateId];
+      if (done.has(templateId)) return null;
+
+      path.push(templateId);
+      for (const next of dependents.get(templateId) ?? []) {
+        const cycle = visit(next);
+        if (cycle) return cycle;
+      }
+      path.pop();
+      done.add(templateId);
+      return null;
+    };
+
+    for (const templateId of dependents.keys()) {
+      const cycle = visit(templateId);
+      if (cycle) return cycle;
+    }
+
+    return null;
+  }
+
+  /**
+   * The bank whose sequence an editor may change: Invela edits any, a bank
+   * only its own
+   *
+   * @returns The bank company ID, or null for the global sequence
+   */
+  private static editableScope(editor: SequenceEditor, bankCompanyId: number | null | undefined): number | null {
+    if (editor.isInvela) {
+      return bankCompanyId ?? null;
+    }
+
+    if (bankCompanyId !== undefined && bankCompanyId !== editor.companyId) {
+      throw new TaskDependencyError('Only Invela can change this onboarding sequence', 'FORBIDDEN');
+    }
+
+    return editor.companyId;
+  }
+
+  private static async listCompanyTasks(companyId: number, executor: DbExecutor): Promise<CompanyTask[]> {
+    return executor.select({
+      id: tasks.id,
+      task_type: tasks.task_type,
+      status: tasks.status,
+      progress: tasks.progress,
+      metadata: tasks.metadata
+    })
+      .from(tasks)
+      .where(eq(tasks.company_id, companyId));
+  }
+
+  /**
+   * Template IDs by task type
+   */
+  private static async loadTemplateTypes(executor: DbExecutor): Promise<Map<string, number>> {
+    const templates = await executor.select({ id: taskTemplates.id, task_type: taskTemplates.task_type })
+      .from(taskTemplates);
+
+    return new Map(templates.map((template: { id: number; task_type: string }) => [template.task_type, template.id]));
+  }
+
+  private static groupTasks(companyTasks: CompanyTask[], templateTypes: Map<string, number>): Map<number, CompanyTask[]> {
+    const tasksByTemplate = new Map<number, CompanyTask[]>();
+    for (const task of companyTasks) {
+      const templateId = templateTypes.get(this.templateType(task.task_type));
+      if (templateId === undefined) continue;
+
+      const group = tasksByTemplate.get(templateId) ?? [];
+      group.push(task);
+      tasksByTemplate.set(templateId, group);
+    }
+    return tasksByTemplate;
+  }
+
+  /**
+   * Templates without an unmet prerequisite: those whose every prerequisite
+   * has a task in one of its edge's statuses, and those the sequence gives no
+   * prerequisite, such as tasks locked under a sequence no longer in effect
+   */
+  private static readyTemplates(dependencies: TaskDependency[], tasksByTemplate: Map<number, CompanyTask[]>): Set<number> {
+    const blocked = new Set<number>();
+    const templates = new Set<number>(tasksByTemplate.keys());
+
+    for (const edge of dependencies) {
+      templates.add(edge.template_id);
+      const met = (tasksByTemplate.get(edge.prerequisite_template_id) ?? [])
+        .some(task => edge.satisfied_by.includes(task.status));
+      if (!met) blocked.add(edge.template_id);
+    }
+
+    return new Set(Array.from(templates).filter(templateId => !blocked.has(templateId)));
+  }
+
+  /**
+   * Adds tabs to a company's available tabs. Onboarding is marked complete by
+   * the Open Banking submission, not by opening a tab.
+   *
+   * @returns The tabs that were not already available
+   */
+  private static async openTabs(companyId: number, tabs: string[], executor: DbExecutor): Promise<string[]> {
+    if (tabs.length === 0) return [];
+
+    const [company] = await executor.select({ available_tabs: companies.available_tabs })
+      .from(companies)
+      .where(eq(companies.id, companyId))
+      .for('update');
+    if (!company) return [];
+
+    const current: string[] = company.available_tabs ?? [];
+    const added = Array.from(new Set(tabs)).filter(tab => !current.includes(tab));
+    if (added.length === 0) return [];
+
+    await executor.update(companies)
+      .set({
+        available_tabs: [...current, ...added],
+        updated_at: new Date()
+      })
+      .where(eq(companies.id, companyId));
+
+    return added;
+  }
+}
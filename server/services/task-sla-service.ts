@@ -0,0 +1,539 @@
+/**
+ * ========================================
+ * Task SLA Service
+ * ========================================
+ *
+ * Holds open tasks to their due dates. Reminders go to the task's assignee
+ * ahead of the due date, and tasks left overdue are escalated to the bank
+ * that created them, with a higher priority. The schedule comes from the
+ * task template's reminderDays and escalateAfterDays defaults, so a bank or
+ * company can have its own.
+ *
+ * Key Features:
+ * - Reminders at configurable offsets before the due date, each at most once per task
+ * - Escalates overdue tasks to the creating bank's users and raises their priority
+ * - Skips locked tasks, and works through due tasks in bounded batches, most overdue first,
+ *   paging past tasks with nothing due yet
+ * - Records reminders and escalation events in the task's metadata.sla
+ * - Starts the schedule over when a task's due date is moved
+ * - Shared overdue condition for the task list's Overdue filter
+ *
+ * @module TaskSlaService
+ * @version 1.0.0
+ * @since 2025-06-05
+ */
+
+import { db } from '@db';
+import { companies, tasks, users, TaskStatus } from '@db/schema';
+import { eq, and, or, lt, lte, gte, asc, isNotNull, notInArray, inArray, sql, type SQL } from 'drizzle-orm';
+import { TaskDefaultsService, MAX_REMINDER_DAYS, type TaskPriority } from './task-defaults-service';
+import { TaskDependencyService } from './task-dependency-service';
+import { broadcastNotification, broadcastTaskUpdate } from '../utils/unified-websocket';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+// Tasks in these statuses no longer have a deadline to meet
+const CLOSED_STATUSES: TaskStatus[] = [TaskStatus.SUBMITTED, TaskStatus.COMPLETED, TaskStatus.APPROVED];
+
+// Most tasks one sweep reminds or escalates, so a backlog is spread over several sweeps;
+// also the number of candidate tasks read per page
+const SWEEP_BATCH_SIZE = 100;
+
+const PRIORITY_ESCALATION: Record<string, TaskPriority> = {
+  low: 'medium',
+  medium: 'high',
+  high: 'high'
+};
+
+export interface TaskEscalation {
+  at: string;
+  daysOverdue: number;
+  previousPriority: string;
+  priority: string;
+  bankCompanyId: number | null;
+  notified: number;
+}
+
+/**
+ * SLA state kept in a task's metadata.sla
+ */
+export interface TaskSlaState {
+  dueDate: string;               // Due date the reminders and escalation were for
+  remindersSent: number[];
+  lastReminderAt?: string;
+  escalatedAt?: string;
+  escalations: TaskEscalation[];
+}
+
+export interface TaskSlaSweepResult {
+  checked: number;
+  remindersSent: number;
+  escalated: number;
+}
+
+interface SlaTask {
+  id: number;
+  title: string;
+  task_type: string;
+  status: string;
+  priority: string;
+  progress: number;
+  company_id: number | null;
+  company_name: string | null;
+  assigned_to: number | null;
+  created_by: number | null;
+  user_email: string | null;
+  due_date: Date;
+  metadata: Record<string, any> | null;
+}
+
+interface TaskSchedule {
+  reminderDays: number[];
+  escalateAfterDays: number;
+}
+
+interface Recipient {
+  email: string;
+  name: string;
+}
+
+/**
+ * Condition matching tasks that have a deadline to meet: not closed, and not
+ * locked behind a prerequisite by a 'locked' status or their metadata
+ */
+function openCondition(): SQL {
+  return and(
+    notInArray(tasks.status, CLOSED_STATUSES),
+    sql`${tasks.status} <> 'locked'`,
+    sql`NOT COALESCE(${tasks.metadata}->>'locked' = 'true', false)`
+  )!;
+}
+
+/**
+ * Condition matching open tasks past their due date
+ */
+export function overdueCondition(now: Date = new Date()): SQL {
+  return and(
+    isNotNull(tasks.due_date),
+    lt(tasks.due_date, now),
+    openCondition()
+  )!;
+}
+
+/**
+ * Task SLA Service - Deadline reminders and escalation of overdue tasks
+ */
+export class TaskSlaService {
+
+  /**
+   * Runs one sweep over the open tasks that are due soon or overdue
+   *
+   * Tasks already escalated for their due date, or reminded within the last
+   * day, are not selected. The rest are read in pages, those with the earliest
+   * due date first, until SWEEP_BATCH_SIZE tasks have been reminded or
+   * escalated; tasks with nothing due yet do not count against the batch, so
+   * they cannot hold back the tasks after them. The rest wait for the next sweep.
+   *
+   * @param now - Reference time, defaults to the current time
+   * @returns Counts of the work done
+   */
+  static async sweep(now: Date = new Date()): Promise<TaskSlaSweepResult> {
+    const result: TaskSlaSweepResult = { checked: 0, remindersSent: 0, escalated: 0 };
+    const horizon = new Date(now.getTime() + MAX_REMINDER_DAYS * DAY_MS);
+
+    // Schedules differ by task type and by the company's bank, so resolve each pair once
+    const schedules = new Map<string, TaskSchedule>();
+
+    let cursor: { dueDate: Date; id: number } | null = null;
+    let handled = 0;
+
+    while (handled < SWEEP_BATCH_SIZE) {
+      const page: SlaTask[] = await db
+        .select({
+          id: tasks.id,
+          title: tasks.title,
+          task_type: tasks.task_type,
+          status: tasks.status,
+          priority: tasks.priority,
+          progress: tasks.progress,
+          company_id: tasks.company_id,
+          company_name: companies.name,
+          assigned_to: tasks.assigned_to,
+          created_by: tasks.created_by,
+          user_email: tasks.user_email,
+          due_date: tasks.due_date,
+          metadata: tasks.metadata
+        })
+        .from(tasks)
+        .leftJoin(companies, eq(companies.id, tasks.company_id))
+        .where(and(
+          isNotNull(tasks.due_date),
+          lte(tasks.due_date, horizon),
+          openCondition(),
+          or(
+            // Overdue and not yet escalated for this due date
+            and(
+              lt(tasks.due_date, now),
+              sql`NOT COALESCE(
+                (${tasks.metadata}->'sla'->>'dueDate')::timestamptz = date_trunc('milliseconds', ${tasks.due_date}) AT TIME ZONE 'UTC'
+                  AND ${tasks.metadata}->'sla'->>'escalatedAt' IS NOT NULL,
+                false
+              )`
+            ),
+            // Due soon and not reminded within the last day
+            and(
+              gte(tasks.due_date, now),
+              sql`NOT COALESCE((${tasks.metadata}->'sla'->>'lastReminderAt')::timestamptz > ${new Date(now.getTime() - DAY_MS).toISOString()}::timestamptz, false)`
+            )
+          ),
+          // After the last task of the previous page
+          cursor
+            ? sql`(date_trunc('milliseconds', ${tasks.due_date}), ${tasks.id}) > (${cursor.dueDate.toISOString()}::timestamptz AT TIME ZONE 'UTC', ${cursor.id})`
+            : undefined
+        ))
+        .orderBy(sql`date_trunc('milliseconds', ${tasks.due_date})`, asc(tasks.id))
+        .limit(SWEEP_BATCH_SIZE) as SlaTask[];
+
+      for (const task of page) {
+        if (handled >= SWEEP_BATCH_SIZE) break;
+        result.checked++;
+
+        try {
+          const scheduleKey = `${task.task_type}:${task.company_id ?? ''}`;
+          let schedule = schedules.get(scheduleKey);
+          if (!schedule) {
+            const defaults = await TaskDefaultsService.resolve(task.task_type, {
+              companyId: task.company_id,
+              companyName: task.company_name ?? undefined
+            });
+            schedule = { reminderDays: defaults.reminderDays, escalateAfterDays: defaults.escalateAfterDays };
+            schedules.set(scheduleKey, schedule);
+          }
+
+          const outcome = await this.processTask(task, schedule, now);
+          if (outcome === 'reminded') result.remindersSent++;
+          if (outcome === 'escalated') result.escalated++;
+          if (outcome !== null) handled++;
+        } catch (error) {
+          console.error('[TaskSlaService] Error processing task deadline', {
+            taskId: task.id,
+            companyId: task.company_id,
+            error: error instanceof Error ? error.message : String(error)
+          });
+        }
+      }
+
+      if (page.length < SWEEP_BATCH_SIZE) break;
+      const last = page[page.length - 1];
+      cursor = { dueDate: last.due_date, id: last.id };
+    }
+
+    console.log('[TaskSlaService] Sweep completed', {
+      ...result,
+      timestamp: now.toISOString()
+    });
+
+    return result;
+  }
+
+  /**
+   * Sends a task the reminder, or escalates it, if its schedule has one due
+   *
+   * @returns What was done for the task, or null when nothing is due yet
+   */
+  private static async processTask(
+    task: SlaTask,
+    schedule: TaskSchedule,
+    now: Date
+  ): Promise<'reminded' | 'escalated' | null> {
+    const state = this.getState(task);
+    const msUntilDue = task.due_date.getTime() - now.getTime();
+
+    if (msUntilDue > 0) {
+      const daysUntilDue = Math.ceil(msUntilDue / DAY_MS);
+      const due = schedule.reminderDays.filter(days => daysUntilDue <= days && !state.remindersSent.includes(days));
+      if (due.length === 0) return null;
+
+      // Only the most urgent reminder is sent; earlier ones missed by the sweeper are recorded as sent
+      await this.saveState(task.id, {
+        ...state,
+        remindersSent: [...state.remindersSent, ...due].sort((a, b) => b - a),
+        lastReminderAt: now.toISOString()
+      });
+      await this.remind(task, daysUntilDue);
+
+      console.log('[TaskSlaService] Task reminder sent', {
+        taskId: task.id,
+        companyId: task.company_id,
+        daysUntilDue,
+        reminders: due
+      });
+      return 'reminded';
+    }
+
+    const daysOverdue = Math.floor(-msUntilDue / DAY_MS);
+    if (state.escalatedAt || daysOverdue < schedule.escalateAfterDays) return null;
+
+    return await this.escalate(task, state, daysOverdue, now) ? 'escalated' : null;
+  }
+
+  /**
+   * Raises an overdue task's priority and notifies its creating bank
+   *
+   * @returns Whether the task was escalated by this call
+   */
+  private static async escalate(task: SlaTask, state: TaskSlaState, daysOverdue: number, now: Date): Promise<boolean> {
+    const bankCompanyId = await this.findCreatingBank(task);
+    const bankRecipients = bankCompanyId !== null ? await this.getCompanyRecipients(bankCompanyId) : [];
+
+    const priority = PRIORITY_ESCALATION[task.priority] ?? 'high';
+    const escalation: TaskEscalation = {
+      at: now.toISOString(),
+      daysOverdue,
+      previousPriority: task.priority,
+      priority,
+      bankCompanyId,
+      notified: bankRecipients.length
+    };
+    const nextState: TaskSlaState = {
+      ...state,
+      escalatedAt: escalation.at,
+      escalations: [...state.escalations, escalation]
+    };
+
+    // Re-check the escalation so concurrent sweeps escalate each task once
+    const [updated] = await db
+      .update(tasks)
+      .set({
+        priority,
+        metadata: sql`COALESCE(${tasks.metadata}, '{}'::jsonb) || jsonb_build_object('sla', ${JSON.stringify(nextState)}::jsonb)`,
+        updated_at: now
+      })
+      .where(and(
+        eq(tasks.id, task.id),
+        sql`NOT COALESCE(
+          ${tasks.metadata}->'sla'->>'dueDate' = ${state.dueDate}
+            AND ${tasks.metadata}->'sla'->>'escalatedAt' IS NOT NULL,
+          false
+        )`
+      ))
+      .returning({ id: tasks.id });
+
+    if (!updated) return false;
+
+    console.log('[TaskSlaService] Overdue task escalated', {
+      taskId: task.id,
+      companyId: task.company_id,
+      bankCompanyId,
+      daysOverdue,
+      previousPriority: task.priority,
+      priority
+    });
+
+    broadcastTaskUpdate({
+      taskId: task.id,
+      status: task.status,
+      progress: task.progress,
+      metadata: { company_id: task.company_id, priority, sla: nextState }
+    });
+
+    const companyName = task.company_name ?? 'A company';
+    const dueOn = task.due_date.toISOString().slice(0, 10);
+
+    if (task.company_id !== null) {
+      broadcastNotification(
+        {
+          title: 'Task overdue',
+          message: `"${task.title}" was due on ${dueOn}. Complete it as soon as possible.`,
+          variant: 'destructive',
+          metadata: { taskId: task.id, companyId: task.company_id, daysOverdue }
+        },
+        client => client.companyId === task.company_id
+      );
+    }
+
+    if (bankCompanyId !== null) {
+      broadcastNotification(
+        {
+          title: 'Overdue task escalated',
+          message: `${companyName}'s task "${task.title}" is ${daysOverdue} ${daysOverdue === 1 ? 'day' : 'days'} overdue.`,
+          variant: 'destructive',
+          metadata: { taskId: task.id, companyId: task.company_id, daysOverdue }
+        },
+        client => client.companyId === bankCompanyId
+      );
+    }
+
+    const baseUrl = process.env.APP_URL || `http://localhost:${process.env.PORT || 5000}`;
+    await this.sendEmails(await this.getAssignees(task), {
+      taskTitle: task.title,
+      companyName,
+      kind: 'overdue',
+      daysUntilDue: -daysOverdue,
+      dueDate: dueOn,
+      actionUrl: `${baseUrl}/task-center/task/${task.id}`
+    }, task.id);
+    await this.sendEmails(bankRecipients, {
+      taskTitle: task.title,
+      companyName,
+      kind: 'escalation',
+      daysUntilDue: -daysOverdue,
+      dueDate: dueOn,
+      actionUrl: task.company_id !== null ? `${baseUrl}/network/company/${task.company_id}` : `${baseUrl}/task-center`
+    }, task.id);
+
+    return true;
+  }
+
+  /**
+   * Sends a task's assignees a reminder of its due date
+   */
+  private static async remind(task: SlaTask, daysUntilDue: number): Promise<void> {
+    const dueOn = task.due_date.toISOString().slice(0, 10);
+
+    if (task.company_id !== null) {
+      broadcastNotification(
+        {
+          title: 'Task due soon',
+          message: `"${task.title}" is due on ${dueOn}.`,
+          variant: 'default',
+          metadata: { taskId: task.id, companyId: task.company_id, daysUntilDue }
+        },
+        client => task.assigned_to !== null
+          ? client.userId === task.assigned_to
+          : client.companyId === task.company_id
+      );
+    }
+
+    const baseUrl = process.env.APP_URL || `http://localhost:${process.env.PORT || 5000}`;
+    await this.sendEmails(await this.getAssignees(task), {
+      taskTitle: task.title,
+      companyName: task.company_name ?? 'your company',
+      kind: 'reminder',
+      daysUntilDue,
+      dueDate: dueOn,
+      actionUrl: `${baseUrl}/task-center/task/${task.id}`
+    }, task.id);
+  }
+
+  /**
+   * The people responsible for a task: its assigned user, otherwise the
+   * invited email, otherwise the users of its company
+   */
+  private static async getAssignees(task: SlaTask): Promise<Recipient[]> {
+    if (task.assigned_to !== null) {
+      const [assignee] = await db
+        .select({ email: users.email, name: users.full_name })
+        .from(users)
+        .where(eq(users.id, task.assigned_to));
+      if (assignee) return [assignee];
+    }
+
+    if (task.user_email) {
+      return [{ email: task.user_email, name: task.user_email }];
+    }
+
+    return task.company_id !== null ? this.getCompanyRecipients(task.company_id) : [];
+  }
+
+  private static async getCompanyRecipients(companyId: number): Promise<Recipient[]> {
+    return db
+      .select({ email: users.email, name: users.full_name })
+      .from(users)
+      .where(eq(users.company_id, companyId));
+  }
+
+  /**
+   * The bank that created a task: the company recorded as its creator, or
+   * the creating user's company, when that is a bank or Invela; otherwise
+   * the bank whose network the task's company is in
+   */
+  private static async findCreatingBank(task: SlaTask): Promise<number | null> {
+    const candidates: number[] = [];
+
+    const createdByCompanyId = Number(task.metadata?.created_by_company_id);
+    if (Number.isInteger(createdByCompanyId) && createdByCompanyId > 0) {
+      candidates.push(createdByCompanyId);
+    }
+
+    if (task.created_by !== null) {
+      const [creator] = await db
+        .select({ company_id: users.company_id })
+        .from(users)
+        .where(eq(users.id, task.created_by));
+      if (creator) candidates.push(creator.company_id);
+    }
+
+    const banks = candidates.length > 0
+      ? await db
+          .select({ id: companies.id })
+          .from(companies)
+          .where(and(inArray(companies.id, candidates), inArray(companies.category, ['Bank', 'Invela'])))
+      : [];
+    const bank = candidates.find(id => id !== task.company_id && banks.some(candidate => candidate.id === id));
+    if (bank !== undefined) return bank;
+
+    return task.company_id !== null ? TaskDependencyService.findCompanyBank(task.company_id) : null;
+  }
+
+  private static async sendEmails(
+    recipients: Recipient[],
+    data: {
+      taskTitle: string;
+      companyName: string;
+      kind: 'reminder' | 'overdue' | 'escalation';
+      daysUntilDue: number;
+      dueDate: string;
+      actionUrl: string;
+    },
+    taskId: number
+  ): Promise<void> {
+    if (recipients.length === 0) return;
+
+    try {
+      // Imported lazily so the sweep never depends on email configuration
+      const { emailService } = await import('./email');
+
+      for (const recipient of recipients) {
+        await emailService.sendTaskDeadlineEmail(recipient.email, {
+          recipientName: recipient.name,
+          ...data
+        });
+      }
+    } catch (error) {
+      console.error('[TaskSlaService] Error sending task deadline emails', {
+        taskId,
+        kind: data.kind,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  /**
+   * The task's SLA state, started over when its due date has moved
+   */
+  private static getState(task: SlaTask): TaskSlaState {
+    const dueDate = task.due_date.toISOString();
+    const state = task.metadata?.sla as Partial<TaskSlaState> | undefined;
+
+    if (!state || state.dueDate !== dueDate) {
+      return { dueDate, remindersSent: [], escalations: state?.escalations ?? [] };
+    }
+
+    return {
+      ...state,
+      dueDate,
+      remindersSent: state.remindersSent ?? [],
+      escalations: state.escalations ?? []
+    };
+  }
+
+  private static async saveState(taskId: number, state: TaskSlaState): Promise<void> {
+    await db
+      .update(tasks)
+      .set({
+        metadata: sql`COALESCE(${tasks.metadata}, '{}'::jsonb) || jsonb_build_object('sla', ${JSON.stringify(state)}::jsonb)`
+      })
+      .where(eq(tasks.id, taskId));
+  }
+}
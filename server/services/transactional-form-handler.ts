@@ -6,8 +6,8 @@
  */
 
 import { logger } from '../utils/logger';
-import { withTransactionContext } from './transaction-manager';
-import { UnifiedTabService } from './unified-tab-service';
+import { withTransactionContext, withTransaction } from './transaction-manager';
+import { TaskDependencyService, type DependencyEvaluation } from './task-dependency-service';
 import * as StandardizedFileReference from './standardized-file-reference';
 import * as fileCreationService from './fileCreation';
 import * as WebSocketService from './websocket';
@@ -17,7 +17,9 @@ import {
   sendFormSubmissionInProgress 
 } from '../utils/form-submission-notifications';
 import { broadcastFormSubmission } from '../utils/unified-websocket';
-import { db } from '@db';
+import { db, type DbExecutor } from '@db';
+import { companies } from '@db/schema';
+import { eq } from 'drizzle-orm';
 
 // Add namespace context to logs
 const logContext = { service: 'TransactionalFormHandler' };
@@ -87,8 +89,10 @@ export async function submitFormWithTransaction(options: FormSubmissionOptions):
       console.warn('[TransactionalFormHandler] Failed to send in-progress notification:', wsError);
     }
     
+    let dependencyEvaluation: DependencyEvaluation | null = null;
+    
     // Use a transaction to ensure all operations succeed or fail together
-    return await withTransactionContext(async (client) => {
+    const result = await withTransactionContext(async (client) => {
       // 1. Update task status to submitted
       const now = new Date();
       
@@ -328,12 +332,14 @@ export async function submitFormWithTransaction(options: FormSubmissionOptions):
         });
       }
       
-      // 5. Unlock tabs based on form type
-      const tabResult = await UnifiedTabService.unlockTabsForFormSubmission(
-        companyId, 
-        formType,
-        { broadcast: true }
-      );
+      // 5. Apply the company's onboarding sequence in this transaction, so it
+      // sees the submitted task; what it unlocks is broadcast after commit
+      const trx = withTransaction(client) as unknown as DbExecutor;
+      dependencyEvaluation = await TaskDependencyService.evaluate(companyId, trx);
+      const [company] = await trx.select({ available_tabs: companies.available_tabs })
+        .from(companies)
+        .where(eq(companies.id, companyId));
+      const tabResult = { availableTabs: company?.available_tabs ?? [] };
       
       // 6. Broadcast form submission events with comprehensive information
       try {
@@ -455,6 +461,12 @@ export async function submitFormWithTransaction(options: FormSubmissionOptions):
         taskStatus: 'submitted'
       };
     });
+    
+    if (dependencyEvaluation) {
+      await TaskDependencyService.broadcastEvaluation(companyId, dependencyEvaluation);
+    }
+    
+    return result;
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     const errorStack = error instanceof Error ? error.stack : undefined;
@@ -489,7 +501,7 @@ export async function submitFormWithTransaction(options: FormSubmissionOptions):
       errorCode = 'TX_ERROR_TASK_UPDATE';
     }
     // Check for tab unlock errors
-    else if (errorMessage.includes('tab') || (errorStack && errorStack.includes('UnifiedTabService'))) {
+    else if (errorMessage.includes('tab') || (errorStack && errorStack.includes('TaskDependencyService'))) {
       errorOrigin = 'tab_service';
       errorPhase = 'tab_unlock';
       errorCode = 'TX_ERROR_TAB_UNLOCK';
@@ -16,6 +16,7 @@ import { logger } from '../utils/logger';
 import * as WebSocketService from './websocket-service';
 import { broadcastFormSubmission } from '../utils/unified-websocket';
 import { normalizeTaskStatus, getSubmittedStatus } from '../utils/task-status';
+import { TaskDependencyService } from './task-dependency-service';
 // Define this to make TypeScript happy with the validation_rules.options access
 type KybField = {
   id: number;
@@ -253,8 +254,8 @@ export async function processKybSubmission(
       elapsedMs: performance.now() - startTime
     });
     
-    // 5. Unlock security tasks and update company onboarding status
-    const unlockResult = await unlockSecurityTasks(task.company_id, taskId, userId);
+    // 5. Unlock dependent tasks and update company onboarding status
+    const unlockResult = await unlockDependentTasks(task.company_id, taskId);
     
     // Update company onboarding status to mark onboarding as complete
     try {
@@ -506,73 +507,23 @@ function convertResponsesToCSV(fields: KybField[], formData: Record<string, any>
 }
 
 /**
- * Utility function to unlock security tasks after KYB is completed
+ * Applies the company's onboarding sequence after KYB is completed, unlocking
+ * the tasks and tabs whose prerequisites are now met
  */
-async function unlockSecurityTasks(companyId: number, kybTaskId: number, userId?: number) {
+async function unlockDependentTasks(companyId: number, kybTaskId: number) {
   try {
-    logger.info('Looking for dependent security assessment tasks to unlock', {
-      kybTaskId,
-      companyId
-    });
+    const { unlockedTaskIds, unlockedTabs } = await TaskDependencyService.evaluate(companyId);
     
-    // Find both security_assessment and sp_ky3p_assessment tasks for this company
-    const securityTasks = await db.select()
-      .from(tasks)
-      .where(
-        and(
-          eq(tasks.company_id, companyId),
-          sql`(${tasks.task_type} = 'security_assessment' OR ${tasks.task_type} = 'sp_ky3p_assessment')`
-        )
-      ) as Array<typeof tasks.$inferSelect>;
-      
-    logger.info('Found potential security tasks to unlock', {
-      count: securityTasks.length,
-      taskIds: securityTasks.map(t => t.id),
-      taskTypes: securityTasks.map(t => t.task_type)
+    logger.info('Onboarding sequence applied after KYB submission', {
+      kybTaskId,
+      companyId,
+      unlockedTaskIds,
+      unlockedTabs
     });
     
-    let unlockedCount = 0;
-    
-    // Unlock each security task that was dependent on this KYB task
-    for (const securityTask of securityTasks) {
-      // Check if the task is locked and if the KYB task is a prerequisite
-      if (securityTask.metadata?.locked === true || 
-          securityTask.metadata?.prerequisite_task_id === kybTaskId ||
-          securityTask.metadata?.prerequisite_task_type === 'company_kyb') {
-        
-        logger.info('Unlocking security task', {
-          securityTaskId: securityTask.id,
-          previousMetadata: {
-            locked: securityTask.metadata?.locked,
-            prerequisiteTaskId: securityTask.metadata?.prerequisite_task_id
-          }
-        });
-        
-        // Update the security task to unlock it
-        await db.update(tasks)
-          .set({
-            metadata: {
-              ...securityTask.metadata,
-              locked: false, // Explicitly unlock the task
-              prerequisite_completed: true,
-              prerequisite_completed_at: new Date().toISOString(),
-              prerequisite_completed_by: userId
-            },
-            updated_at: new Date()
-          })
-          .where(eq(tasks.id, securityTask.id));
-          
-        logger.info('Security task unlocked successfully', {
-          securityTaskId: securityTask.id
-        });
-        
-        unlockedCount++;
-      }
-    }
-    
-    return { success: true, count: unlockedCount };
+    return { success: true, count: unlockedTaskIds.length };
   } catch (error) {
-    logger.error('Error unlocking security tasks', {
+    logger.error('Error applying onboarding sequence', {
       error: error instanceof Error ? error.message : 'Unknown error',
       stack: error instanceof Error ? error.stack : undefined,
       kybTaskId,
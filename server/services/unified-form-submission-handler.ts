@@ -12,11 +12,13 @@
 
 import { db } from '@db';
 import { tasks, files, companies, TaskStatus } from '@db/schema';
-import { eq, and } from 'drizzle-orm';
+import { eq } from 'drizzle-orm';
 import { performance } from 'perf_hooks';
 import { logger } from '../utils/logger';
 import * as FileCreationService from './fileCreation';
 import { broadcastFormSubmission } from '../utils/unified-websocket';
+import { runRiskRulesForSubmission } from './riskRuleEvaluator';
+import { TaskDependencyService, type DependencyEvaluation } from './task-dependency-service';
 
 // Define common form submission input interface
 export interface FormSubmissionInput {
@@ -131,7 +133,7 @@ export async function processFormSubmission(
         })
         .where(eq(tasks.id, taskId));
       
-      // Execute form-specific post-submission actions (unlock tabs, calculate risk, etc.)
+      // Execute form-specific post-submission actions (risk scores, feature flags, etc.)
       const postSubmissionResult = await executePostSubmissionActions(
         formType,
         task,
@@ -139,15 +141,26 @@ export async function processFormSubmission(
         userId
       );
       
+      // Apply the onboarding sequence: unlock the tasks and open the tabs
+      // whose prerequisites this submission met
+      let dependencyEvaluation: DependencyEvaluation | null = null;
+      if (task.company_id) {
+        dependencyEvaluation = await TaskDependencyService.evaluate(task.company_id, tx);
+      }
+      
       // Return combined results
       return {
         success: true,
         fileId: fileCreationResult.fileId,
         companyId: task.company_id,
-        ...postSubmissionResult
+        ...postSubmissionResult,
+        ...(formType === 'kyb' ? { securityTasksUnlocked: dependencyEvaluation?.unlockedTaskIds.length ?? 0 } : {}),
+        dependencyEvaluation
       };
     });
     
+    const { dependencyEvaluation, ...submission } = result;
+    
     // Log success
     logger.info(`[${formType.toUpperCase()} Transaction] Transaction completed successfully`, {
       transactionId,
@@ -155,19 +168,29 @@ export async function processFormSubmission(
       elapsedMs: performance.now() - startTime
     });
     
+    // Broadcast the tasks and tabs the onboarding sequence unlocked
+    if (submission.companyId && dependencyEvaluation) {
+      await TaskDependencyService.broadcastEvaluation(submission.companyId, dependencyEvaluation);
+    }
+    
     // Broadcast form submission event via WebSocket
     const metadata = {
       formType,
-      fileName: result.fileId ? `${formType.toUpperCase()}-${taskId}.csv` : undefined,
-      securityTasksUnlocked: result.securityTasksUnlocked,
-      riskScoreUpdated: result.riskScoreUpdated,
-      dashboardUnlocked: result.dashboardUnlocked,
+      fileName: submission.fileId ? `${formType.toUpperCase()}-${taskId}.csv` : undefined,
+      securityTasksUnlocked: submission.securityTasksUnlocked,
+      riskScoreUpdated: submission.riskScoreUpdated,
+      dashboardUnlocked: submission.dashboardUnlocked,
     };
     
-    broadcastFormSubmission(formType, taskId, result.companyId || 0, metadata);
+    broadcastFormSubmission(formType, taskId, submission.companyId || 0, metadata);
+    
+    // Run bank-defined risk score rules against the committed answers
+    if (submission.companyId) {
+      await runRiskRulesForSubmission(submission.companyId, taskId);
+    }
     
     return {
-      ...result,
+      ...submission,
       warnings: warnings.length > 0 ? warnings : undefined,
       elapsedMs: performance.now() - startTime
     };
@@ -521,8 +544,6 @@ async function executePostSubmissionActions(
   try {
     // Form-type specific actions
     switch (formType) {
-      case 'kyb':
-        return await handleKybPostSubmission(task, tx, userId);
       case 'ky3p':
         return await handleKy3pPostSubmission(task, tx, userId);
       case 'open_banking':
@@ -540,62 +561,6 @@ async function executePostSubmissionActions(
   }
 }
 
-/**
- * Handle KYB-specific post-submission actions
- */
-async function handleKybPostSubmission(
-  task: any,
-  tx: any,
-  userId?: number
-): Promise<Partial<FormSubmissionResult>> {
-  try {
-    // Find security tasks to unlock
-    const securityTasks = await tx.select()
-      .from(tasks)
-      .where(
-        and(
-          eq(tasks.company_id, task.company_id),
-          tx.sql`(${tasks.task_type} = 'security_assessment' OR ${tasks.task_type} = 'sp_ky3p_assessment')`
-        )
-      );
-      
-    let unlockedCount = 0;
-    
-    // Unlock each security task that was dependent on this KYB task
-    for (const securityTask of securityTasks) {
-      if (securityTask.metadata?.locked === true || 
-          securityTask.metadata?.prerequisite_task_id === task.id ||
-          securityTask.metadata?.prerequisite_task_type === 'company_kyb') {
-        
-        // Update the security task to unlock it
-        await tx.update(tasks)
-          .set({
-            metadata: {
-              ...securityTask.metadata,
-              locked: false,
-              prerequisite_completed: true,
-              prerequisite_completed_at: new Date().toISOString(),
-              prerequisite_completed_by: userId
-            },
-            updated_at: new Date()
-          })
-          .where(eq(tasks.id, securityTask.id));
-          
-        unlockedCount++;
-      }
-    }
-    
-    return { securityTasksUnlocked: unlockedCount };
-  } catch (error) {
-    logger.error('Error unlocking security tasks', {
-      error: error instanceof Error ? error.message : 'Unknown error',
-      taskId: task.id,
-      companyId: task.company_id
-    });
-    return { securityTasksUnlocked: 0 };
-  }
-}
-
 /**
  * Handle KY3P-specific post-submission actions
  */
@@ -648,15 +613,12 @@ async function handleKy3pPostSubmission(
   }
 }
 
-/**
- * Handle Open Banking-specific post-submission actions
- */
 /**
  * Handles post-submission actions for Open Banking submissions
  * 
  * This function ensures the task is properly marked as completed and
- * unlocks the dashboard and insights tabs for the company. It uses the
- * UnifiedTabService for a consistent approach to tab management.
+ * records the dashboard and insights as unlocked in the company metadata.
+ * The tabs themselves are opened by the onboarding sequence.
  * 
  * @param task Task object containing the submission details
  * @param tx Transaction object for database operations
@@ -736,51 +698,13 @@ async function handleOpenBankingPostSubmission(
         })
         .where(eq(companies.id, companyId));
       
-      // Step 3: Use the UnifiedTabService within the transaction to unlock tabs
-      // This is imported from the tab-service.ts module which handles all tab operations
-      // We're importing it directly here to use it within the transaction
-      // Alternatively we could create a method to accept a transaction object 
-      const currentTabs = Array.isArray(company.available_tabs) 
-        ? company.available_tabs 
-        : ['task-center'];
-        
-      const tabsToAdd = ['dashboard', 'insights'];
-      const updatedTabs = [...new Set([...currentTabs, ...tabsToAdd])];
-      
-      // Only update if there are actual changes
-      if (updatedTabs.length !== currentTabs.length || 
-          !updatedTabs.every(tab => currentTabs.includes(tab))) {
-        
-        // Update available_tabs within the transaction
-        await tx.update(companies)
-          .set({ 
-            available_tabs: updatedTabs,
-            updated_at: new Date()
-          })
-          .where(eq(companies.id, companyId));
-          
-        logger.info(`[OpenBankingHandler] Updated company tabs`, {
-          ...context,
-          addedTabs: tabsToAdd,
-          updatedTabs,
-          tabUpdateSuccessful: true
-        });
-        
-        // Note: We will broadcast the tab update after the transaction commits
-        // We'll set a flag to ensure this happens in the broadcastFormSubmissionEvent function
-      }
-      
       logger.info(`[OpenBankingHandler] Post-submission process completed successfully`, {
         ...context,
         dashboardUnlocked: true,
-        insightsUnlocked: true,
-        availableTabs: updatedTabs
+        insightsUnlocked: true
       });
       
-      return { 
-        dashboardUnlocked: true,
-        availableTabs: updatedTabs
-      };
+      return { dashboardUnlocked: true };
     }
     
     logger.warn(`[OpenBankingHandler] No company_id found in task, skipping tab unlock`, context);
@@ -13,10 +13,14 @@ import { logger } from '../utils/logger';
 import * as WebSocketService from '../services/websocket';
 import * as FileCreationService from '../services/fileCreation';
 import * as UnifiedTabService from '../services/unified-tab-service';
-import * as TransactionManager from '../services/transaction-manager';
-import { synchronizeTasks } from '../services/synchronous-task-dependencies';
+import { TaskDependencyService } from './task-dependency-service';
 import { mapClientFormTypeToSchemaType } from '../utils/form-type-mapper';
 import { accreditationHistory } from '@db/schema';
+import { calculateOpenBankingRiskScore } from './openBankingRiskScore';
+import { calculateCompanyRiskProfile } from './riskClusters';
+import { RiskScoreHistoryService } from './risk-score-history-service';
+import { runRiskRulesForSubmission } from './riskRuleEvaluator';
+import { RiskAlertService } from './risk-alert-service';
 
 // Create a context object for logging
 const baseLogContext = { service: 'UnifiedFormSubmissionService' };
@@ -64,7 +68,7 @@ export async function submitForm(
     // Execute the entire submission process in a transaction
     const transactionStartTime = performance.now();
     
-    const result = await TransactionManager.withTransaction(async (trx) => {
+    const result = await db.transaction(async (trx) => {
       logger.info('Starting form submission transaction', { 
         ...baseLogContext,
         transactionId,
@@ -144,15 +148,18 @@ export async function submitForm(
         timestamp: new Date().toISOString()
       });
       
-      // 5. Execute form-specific post-submission logic 
-      let unlockedTabs: string[] = [];
+      // 5. Apply the company's onboarding sequence, which unlocks the tasks
+      // and opens the tabs that follow the submitted form
+      const dependencyEvaluation = await TaskDependencyService.evaluate(companyId, trx);
+      const unlockedTabs = dependencyEvaluation.unlockedTabs;
       
+      // 6. Execute form-specific post-submission logic 
       if (formType === 'kyb' || formType === 'company_kyb') {
-        unlockedTabs = await handleKybPostSubmission(trx, taskId, companyId, formData, transactionId);
+        await handleKybPostSubmission(trx, taskId, companyId, formData, transactionId);
       } else if (formType === 'ky3p' || formType === 'sp_ky3p_assessment') {
-        unlockedTabs = await handleKy3pPostSubmission(trx, taskId, companyId, formData, transactionId);
+        await handleKy3pPostSubmission(trx, taskId, companyId, formData, transactionId);
       } else if (formType === 'open_banking') {
-        unlockedTabs = await handleOpenBankingPostSubmission(trx, taskId, companyId, formData, transactionId);
+        await handleOpenBankingPostSubmission(trx, taskId, companyId, formData, transactionId);
       } else {
         logger.warn(`Unsupported form type: ${formType}, no post-submission handlers will run`, {
         ...baseLogContext,
@@ -173,14 +180,31 @@ export async function submitForm(
         success: true,
         fileId: fileResult.fileId,
         fileName: fileResult.fileName,
-        unlockedTabs
+        unlockedTabs,
+        dependencyEvaluation
       };
     });
     
     // After successful transaction, broadcast WebSocket notifications with transaction ID
-    await broadcastFormSubmissionResult(result, taskId, formType, companyId, transactionId);
+    const { dependencyEvaluation, ...submission } = result;
+    await TaskDependencyService.broadcastEvaluation(companyId, dependencyEvaluation);
+    await broadcastFormSubmissionResult(submission, taskId, formType, companyId, transactionId);
+    
+    // Run bank-defined risk score rules against the committed answers
+    await runRiskRulesForSubmission(companyId, taskId);
+    
+    // Open banking submissions write the risk score; alert banks whose thresholds it breaches
+    if (formType === 'open_banking') {
+      const [company] = await db.select({ risk_score: companies.risk_score })
+        .from(companies)
+        .where(eq(companies.id, companyId));
+      
+      if (company?.risk_score !== null && company?.risk_score !== undefined) {
+        await RiskAlertService.evaluateScore(companyId, company.risk_score);
+      }
+    }
     
-    return result;
+    return submission;
   } catch (error) {
     // Log the error with full context
     logger.error('Form submission failed', {
@@ -613,8 +637,7 @@ async function persistOpenBankingResponses(trx: any, taskId: number, formData: R
 
 /**
  * Handle KYB-specific post-submission logic
- * - Unlocks File Vault tab
- * - Unlocks dependent tasks
+ * - The tasks and tabs KYB unlocks come from the onboarding sequence
  */
 async function handleKybPostSubmission(
   trx: any,
@@ -622,7 +645,7 @@ async function handleKybPostSubmission(
   companyId: number,
   formData: Record<string, any>,
   transactionId?: string
-): Promise<string[]> {
+): Promise<void> {
   const startTime = performance.now();
   const kybPostLogContext = { 
     namespace: 'KybPostSubmission', 
@@ -637,25 +660,12 @@ async function handleKybPostSubmission(
   });
   
   try {
-    // KYB unlocks only the File Vault tab
-    const unlockedTabs = ['file-vault'];
-    
-    // Unlock File Vault tab
-    await unlockTabsForCompany(trx, companyId, unlockedTabs, transactionId);
-    
-    // Unlock dependent security tasks like KY3P
-    const dependentTaskIds = await synchronizeTasks(companyId, taskId);
-    
     const endTime = performance.now();
     logger.info('KYB post-submission completed', { 
       ...kybPostLogContext,
-      unlockedTabs,
-      dependentTasksUnlocked: dependentTaskIds.length,
       duration: `${(endTime - startTime).toFixed(2)}ms`,
       timestamp: new Date().toISOString()
     });
-    
-    return unlockedTabs;
   } catch (error) {
     const endTime = performance.now();
     logger.error('Error in KYB post-submission processing', {
@@ -671,7 +681,7 @@ async function handleKybPostSubmission(
 
 /**
  * Handle KY3P-specific post-submission logic
- * - No tabs are unlocked
+ * - The tasks and tabs KY3P unlocks come from the onboarding sequence
  */
 async function handleKy3pPostSubmission(
   trx: any,
@@ -679,7 +689,7 @@ async function handleKy3pPostSubmission(
   companyId: number,
   formData: Record<string, any>,
   transactionId?: string
-): Promise<string[]> {
+): Promise<void> {
   const startTime = performance.now();
   const ky3pPostLogContext = { 
     namespace: 'Ky3pPostSubmission', 
@@ -694,15 +704,11 @@ async function handleKy3pPostSubmission(
   });
   
   try {
-    // KY3P doesn't unlock any tabs
-    logger.info('KY3P post-submission completed (no tabs to unlock)', {
+    logger.info('KY3P post-submission completed', {
       ...ky3pPostLogContext,
       duration: `${(performance.now() - startTime).toFixed(2)}ms`,
       timestamp: new Date().toISOString()
     });
-    
-    // Return empty array since no tabs are unlocked
-    return [];
   } catch (error) {
     const endTime = performance.now();
     logger.error('Error in KY3P post-submission processing', {
@@ -718,7 +724,6 @@ async function handleKy3pPostSubmission(
 
 /**
  * Handle Open Banking-specific post-submission logic
- * - Unlocks Dashboard and Insights tabs
  * - Updates company onboarding status
  * - Generates risk score
  * - Updates accreditation status
@@ -727,18 +732,19 @@ async function handleKy3pPostSubmission(
  * Handle Open Banking post-submission processing
  * 
  * This function performs the following steps after an Open Banking form is submitted:
- * 1. Unlocks Dashboard and Insights tabs for the company
- * 2. Marks company onboarding as completed
- * 3. Generates a risk score (random value between 5-95)
- * 4. Calculates risk clusters based on the risk score
- * 5. Sets accreditation status to APPROVED
+ * 1. Marks company onboarding as completed
+ * 2. Generates a risk score (random value between 5-95)
+ * 3. Calculates risk clusters based on the risk score
+ * 4. Sets accreditation status to APPROVED
+ * 
+ * The Dashboard and Insights tabs are opened by the onboarding sequence
+ * before this runs.
  * 
  * @param trx The transaction context
  * @param taskId The task ID
  * @param companyId The company ID
  * @param formData The form data
  * @param transactionId Optional transaction ID for tracking
- * @returns Array of unlocked tabs
  */
 async function handleOpenBankingPostSubmission(
   trx: any,
@@ -746,7 +752,7 @@ async function handleOpenBankingPostSubmission(
   companyId: number,
   formData: Record<string, any>,
   transactionId?: string
-): Promise<string[]> {
+): Promise<void> {
   const startTime = performance.now();
   const obPostLogContext = { 
     namespace: 'OpenBankingPostSubmission', 
@@ -766,14 +772,11 @@ async function handleOpenBankingPostSubmission(
   // Track success of each step
   const stepResults = {
     companyVerified: false,
-    tabsUnlocked: false,
     onboardingCompleted: false,
     riskScoreGenerated: false,
     accreditationUpdated: false
   };
   
-  let unlockedTabs: string[] = [];
-  
   try {
     // STEP 0: Verify company exists before proceeding
     const companyCheck = await trx.select({ id: companies.id })
@@ -789,34 +792,6 @@ async function handleOpenBankingPostSubmission(
     console.log(`[OpenBankingPostSubmission] ✅ Company verified: ${companyId}`);
     stepResults.companyVerified = true;
     
-    // STEP 1: Unlock Dashboard and Insights tabs
-    // Open Banking unlocks Dashboard and Insights tabs
-    unlockedTabs = ['dashboard', 'insights'];
-    
-    try {
-      // Unlock Dashboard and Insights tabs
-      await unlockTabsForCompany(trx, companyId, unlockedTabs, transactionId);
-      console.log(`[OpenBankingPostSubmission] ✅ Unlocked tabs for company ${companyId}: ${unlockedTabs.join(', ')}`);
-      stepResults.tabsUnlocked = true;
-      
-      logger.info('Unlocked dashboard and insights tabs', { 
-        ...obPostLogContext,
-        step: 'tabs_unlock',
-        tabs: unlockedTabs,
-        status: 'success',
-        timestamp: new Date().toISOString()
-      });
-    } catch (tabError) {
-      console.error(`[OpenBankingPostSubmission] ❌ Failed to unlock tabs:`, tabError);
-      logger.error('Failed to unlock tabs', {
-        ...obPostLogContext,
-        step: 'tabs_unlock',
-        error: tabError instanceof Error ? tabError.message : String(tabError),
-        status: 'failed'
-      });
-      // Continue execution - don't break the whole process if tab unlocking fails
-    }
-    
     // STEP 2: Mark company onboarding as completed
     // This is crucial for the post-submission workflow
     try {
@@ -858,17 +833,18 @@ async function handleOpenBankingPostSubmission(
       // Continue execution - we'll try to proceed with other updates
     }
     
-    // STEP 3: Generate risk score - random value between 5 and 95
+    // STEP 3: Generate risk score from the per-field scoring rules
     let riskScore: number;
     let riskClusters: any;
+    let lateNotificationDeduction = 0;
     
     try {
       console.log(`[OpenBankingPostSubmission] Step 3/5: Generating risk score for company ${companyId}`);
-      riskScore = Math.floor(Math.random() * (95 - 5 + 1)) + 5;
+      const assessmentScore = await generateRiskScore(trx, taskId, formData, transactionId);
       
-      // STEP 4: Calculate risk clusters based on the total risk score
-      console.log(`[OpenBankingPostSubmission] Step 4/5: Calculating risk clusters based on risk score ${riskScore}`);
-      riskClusters = calculateRiskClusters(riskScore);
+      // STEP 4: Derive risk clusters from the answers, less any late breach notifications
+      console.log(`[OpenBankingPostSubmission] Step 4/5: Calculating risk clusters based on assessment score ${assessmentScore}`);
+      ({ riskScore, riskClusters, lateNotificationDeduction } = await calculateCompanyRiskProfile(companyId, assessmentScore, trx));
       
       console.log(`[OpenBankingPostSubmission] ✅ Steps 3-4/5 Complete: Generated risk score ${riskScore} and clusters:`, JSON.stringify(riskClusters));
       stepResults.riskScoreGenerated = true;
@@ -879,14 +855,6 @@ async function handleOpenBankingPostSubmission(
         action: 'generate_risk_score_and_clusters',
         riskScore,
         riskClusters,
-        riskDistribution: {
-          piiData: '35%',
-          accountData: '30%',
-          dataTransfers: '10%',
-          certificationsRisk: '10%',
-          securityRisk: '10%',
-          financialRisk: '5%'
-        },
         status: 'success',
         timestamp: new Date().toISOString()
       });
@@ -954,7 +922,8 @@ async function handleOpenBankingPostSubmission(
           issued_date: issuedDate,
           expires_date: expiresDate,
           status: 'ACTIVE',
-          risk_clusters: riskClusters
+          risk_clusters: riskClusters,
+          task_id: taskId
         })
         .returning();
       
@@ -968,6 +937,7 @@ async function handleOpenBankingPostSubmission(
           accreditation_status: 'APPROVED',
           risk_score: riskScore,
           risk_clusters: riskClusters,
+          late_notification_deduction: lateNotificationDeduction,
           updated_at: new Date()
         })
         .where(eq(companies.id, companyId));
@@ -1012,6 +982,7 @@ async function handleOpenBankingPostSubmission(
             accreditation_status: 'APPROVED',
             risk_score: riskScore,
             risk_clusters: riskClusters,
+            late_notification_deduction: lateNotificationDeduction,
             updated_at: new Date()
           })
           .where(eq(companies.id, companyId));
@@ -1023,6 +994,31 @@ async function handleOpenBankingPostSubmission(
       }
     }
     
+    // STEP 6: Record the score change in the risk score history
+    try {
+      await RiskScoreHistoryService.recordScoreChange({
+        companyId,
+        riskScore,
+        riskClusters,
+        taskId,
+        source: 'open_banking_submission'
+      }, trx);
+      
+      logger.info('Recorded risk score history entry', {
+        ...obPostLogContext,
+        step: 'record_risk_score_history',
+        riskScore,
+        status: 'success'
+      });
+    } catch (historyError) {
+      logger.error('Failed to record risk score history', {
+        ...obPostLogContext,
+        step: 'record_risk_score_history',
+        error: historyError instanceof Error ? historyError.message : String(historyError),
+        status: 'failed'
+      });
+    }
+    
     // Final verification step - verify all updates were applied
     try {
       const companyAfterUpdate = await trx.select({
@@ -1072,13 +1068,10 @@ async function handleOpenBankingPostSubmission(
     logger.info('Open Banking post-submission completed', {
       ...obPostLogContext,
       stepResults,
-      unlockedTabs,
       duration: `${(endTime - startTime).toFixed(2)}ms`,
       timestamp: new Date().toISOString()
     });
     
-    return unlockedTabs;
-    
   } catch (error) {
     // Log the error with extensive context
     const endTime = performance.now();
@@ -1096,92 +1089,13 @@ async function handleOpenBankingPostSubmission(
   }
 }
 
-/**
- * Calculate risk clusters based on the total risk score
- * 
- * This function distributes the total risk score across different risk categories
- * using predetermined weight percentages. The distribution follows these rules:
- * 
- * 1. Cyber Security receives the highest weight (30%) as it's the most critical category
- * 2. Financial Stability receives the second highest weight (25%)
- * 3. Potential Liability receives 20% of the total risk score
- * 4. Dark Web Data receives 15% of the total risk score
- * 5. Public Sentiment receives 7% of the total risk score
- * 6. Data Access Scope receives 3% of the total risk score
- * 
- * The function ensures that the sum of all category scores exactly equals the
- * total risk score, making adjustments to the main categories if needed.
- * 
- * @param riskScore The total risk score (typically 5-95)
- * @returns An object containing risk scores distributed across all six categories
- */
-function calculateRiskClusters(riskScore: number): {
-  "Cyber Security": number,
-  "Financial Stability": number,
-  "Potential Liability": number,
-  "Dark Web Data": number,
-  "Public Sentiment": number,
-  "Data Access Scope": number
-} {
-  // Base distribution weights for each category - THESE MUST SUM TO 1.0 (100%)
-  const weights = {
-    "Cyber Security": 0.30,        // 30% - Highest priority
-    "Financial Stability": 0.25,   // 25% - Second highest priority
-    "Potential Liability": 0.20,   // 20% - Third priority
-    "Dark Web Data": 0.15,         // 15% - Fourth priority
-    "Public Sentiment": 0.07,      // 7% - Fifth priority
-    "Data Access Scope": 0.03      // 3% - Lowest priority
-  };
-  
-  // Calculate base values for each category
-  let clusters = {
-    "Cyber Security": Math.round(riskScore * weights["Cyber Security"]),
-    "Financial Stability": Math.round(riskScore * weights["Financial Stability"]),
-    "Potential Liability": Math.round(riskScore * weights["Potential Liability"]),
-    "Dark Web Data": Math.round(riskScore * weights["Dark Web Data"]),
-    "Public Sentiment": Math.round(riskScore * weights["Public Sentiment"]),
-    "Data Access Scope": Math.round(riskScore * weights["Data Access Scope"])
-  };
-  
-  // Ensure the sum equals the total risk score by adjusting the main categories
-  const sum = Object.values(clusters).reduce((total, value) => total + value, 0);
-  const diff = riskScore - sum;
-  
-  // If there's a difference, adjust the main categories to match the total
-  if (diff !== 0) {
-    // If positive, add to the highest weighted categories
-    // If negative, subtract from them
-    if (diff > 0) {
-      clusters["Cyber Security"] += Math.ceil(diff * 0.6);
-      clusters["Financial Stability"] += Math.floor(diff * 0.4);
-    } else {
-      const absDiff = Math.abs(diff);
-      clusters["Cyber Security"] -= Math.ceil(absDiff * 0.6);
-      clusters["Financial Stability"] -= Math.floor(absDiff * 0.4);
-    }
-  }
-  
-  // Ensure no negative values
-  for (const key in clusters) {
-    clusters[key as keyof typeof clusters] = 
-      Math.max(0, clusters[key as keyof typeof clusters]);
-  }
-  
-  return clusters;
-}
-
 /**
  * Generate a risk score based on Open Banking survey responses
  * 
- * This function calculates a risk score by analyzing the Open Banking responses
- * for a specific task. It considers various factors such as response values, 
- * metadata weights, and importance levels to produce a comprehensive risk score.
- * 
- * The score calculation follows these principles:
- * 1. A weighted average of response values is calculated
- * 2. Critical fields have higher impact on the final score
- * 3. Importance levels are used as multipliers
- * 4. The risk score is normalized to a 0-100 scale
+ * Delegates to the rule-based Open Banking risk score engine, which scores
+ * each response against the scoring rules stored on its field and persists
+ * the per-field partial_risk_score and reasoning. Identical answers always
+ * produce an identical score.
  */
 async function generateRiskScore(
   trx: any,
@@ -1201,217 +1115,20 @@ async function generateRiskScore(
     timestamp: new Date().toISOString()
   });
   
-  try {
-    // Get all Open Banking responses for this task
-    const responses = await trx
-      .select()
-      .from(openBankingResponses)
-      .where(eq(openBankingResponses.task_id, taskId));
-    
-    if (!responses || responses.length === 0) {
-      logger.warn('No responses found for risk score calculation', riskScoreLogContext);
-      return 50; // Default risk score if no responses
-    }
-    
-    logger.info(`Found ${responses.length} responses for risk score calculation`, {
-      ...riskScoreLogContext,
-      responseCount: responses.length,
-      timestamp: new Date().toISOString()
-    });
-    
-    // Get the field definitions to determine importance weights
-    const fields = await trx
-      .select()
-      .from(openBankingFields);
-    
-    // Create a map of field keys to field definitions for quick lookup
-    const fieldMap = fields.reduce((map: Record<string, any>, field: any) => {
-      map[field.field_key] = field;
-      return map;
-    }, {} as Record<string, any>);
-    
-    // Calculate weighted risk score
-    let totalWeight = 0;
-    let weightedSum = 0;
-    
-    // Process each response
-    for (const response of responses) {
-      // Skip incomplete responses
-      if (response.status !== 'completed') continue;
-      
-      // Get field definition
-      const fieldKey = response.field_key;
-      const field = fieldMap[fieldKey];
-      
-      if (!field) {
-        logger.warn(`Field definition not found for ${fieldKey}`, riskScoreLogContext);
-        continue;
-      }
-      
-      // Determine field importance weight (higher for critical fields)
-      const importance = (field.metadata?.importance || 'medium').toLowerCase();
-      let importanceWeight = 1;
-      
-      // Assign weights based on importance
-      switch (importance) {
-        case 'critical':
-          importanceWeight = 4;
-          break;
-        case 'high':
-          importanceWeight = 2;
-          break;
-        case 'medium':
-          importanceWeight = 1;
-          break;
-        case 'low':
-          importanceWeight = 0.5;
-          break;
-        default:
-          importanceWeight = 1;
-      }
-      
-      // Get response value and category weight
-      const responseValue = response.value;
-      let value = 0;
-      
-      // Convert different response types to numeric values
-      if (responseValue === 'yes' || responseValue === 'true') {
-        value = 100;
-      } else if (responseValue === 'no' || responseValue === 'false') {
-        value = 0;
-      } else if (typeof responseValue === 'string' && responseValue.includes('%')) {
-        // Extract percentage value
-        value = parseFloat(responseValue.replace('%', ''));
-      } else if (!isNaN(Number(responseValue))) {
-        // Direct numeric value
-        value = Number(responseValue);
-      }
-      
-      // Get category weight from field or response metadata
-      const categoryWeight = field.metadata?.categoryWeight || response.metadata?.categoryWeight || 1;
-      
-      // Calculate weighted value and add to totals
-      const weight = importanceWeight * categoryWeight;
-      totalWeight += weight;
-      weightedSum += value * weight;
-      
-      if (field.metadata?.isDebugField) {
-        logger.debug(`Field ${fieldKey} calculation details:`, {
-          ...riskScoreLogContext,
-          fieldKey,
-          responseValue,
-          numericValue: value,
-          importanceWeight,
-          categoryWeight,
-          finalWeight: weight
-        });
-      }
-    }
-    
-    // Calculate final risk score
-    const riskScore = totalWeight > 0 ? Math.round(weightedSum / totalWeight) : 50;
-    
-    // Ensure risk score is within valid range
-    const normalizedRiskScore = Math.max(0, Math.min(100, riskScore));
-    
-    const endTime = performance.now();
-    logger.info(`Calculated risk score: ${normalizedRiskScore}`, {
-      ...riskScoreLogContext,
-      responseCount: responses.length,
-      originalScore: riskScore,
-      normalizedScore: normalizedRiskScore,
-      duration: `${(endTime - startTime).toFixed(2)}ms`,
-      timestamp: new Date().toISOString()
-    });
-    
-    return normalizedRiskScore;
-  } catch (error) {
-    const endTime = performance.now();
-    logger.error('Error calculating risk score', {
-      ...riskScoreLogContext,
-      error: error instanceof Error ? error.message : String(error),
-      stack: error instanceof Error ? error.stack : undefined,
-      duration: `${(endTime - startTime).toFixed(2)}ms`,
-      timestamp: new Date().toISOString()
-    });
-    
-    // Return default score in case of error
-    return 50;
-  }
-}
-
-/**
- * Unlock tabs for a company within a transaction
- */
-async function unlockTabsForCompany(trx: any, companyId: number, tabNames: string[], transactionId?: string): Promise<void> {
-  const startTime = performance.now();
-  const tabsLogContext = { 
-    namespace: 'UnlockTabs', 
-    companyId,
-    transactionId 
-  };
-  
-  if (!tabNames || tabNames.length === 0) {
-    logger.info('No tabs to unlock', {
-      ...tabsLogContext,
-      timestamp: new Date().toISOString()
-    });
-    return;
-  }
+  const result = await calculateOpenBankingRiskScore(taskId, trx);
   
-  logger.info('Unlocking tabs for company', { 
-    ...tabsLogContext, 
-    tabNames,
-    timestamp: new Date().toISOString() 
+  const endTime = performance.now();
+  logger.info(`Calculated risk score: ${result.riskScore}`, {
+    ...riskScoreLogContext,
+    totalFields: result.totalFields,
+    answeredFields: result.answeredFields,
+    actualScore: result.actualScore,
+    maxPossibleScore: result.maxPossibleScore,
+    duration: `${(endTime - startTime).toFixed(2)}ms`,
+    timestamp: new Date().toISOString()
   });
   
-  try {
-    // Get current company tabs from database
-    const [company] = await trx.select(companies.available_tabs)
-      .from(companies)
-      .where(eq(companies.id, companyId));
-    
-    if (!company) {
-      logger.error('Company not found when unlocking tabs', tabsLogContext);
-      throw new Error(`Company ${companyId} not found`);
-    }
-    
-    // Ensure available_tabs is an array
-    const currentTabs = Array.isArray(company.available_tabs) 
-      ? company.available_tabs 
-      : ['task-center'];
-    
-    // Add new tabs if not already present
-    const updatedTabs = [...new Set([...currentTabs, ...tabNames])];
-    
-    // Update company tabs
-    await trx.update(companies)
-      .set({ 
-        available_tabs: updatedTabs,
-        updated_at: new Date()
-      })
-      .where(eq(companies.id, companyId));
-    
-    const endTime = performance.now();
-    logger.info('Successfully unlocked tabs', {
-      ...tabsLogContext,
-      unlockedTabs: tabNames,
-      allTabs: updatedTabs,
-      duration: `${(endTime - startTime).toFixed(2)}ms`,
-      timestamp: new Date().toISOString()
-    });
-  } catch (error) {
-    const endTime = performance.now();
-    logger.error('Error unlocking tabs', {
-      ...tabsLogContext,
-      tabNames,
-      error: error instanceof Error ? error.message : String(error),
-      stack: error instanceof Error ? error.stack : undefined,
-      duration: `${(endTime - startTime).toFixed(2)}ms`,
-      timestamp: new Date().toISOString()
-    });
-    throw error; // Re-throw to trigger transaction rollback
-  }
+  return result.riskScore;
 }
 
 /**
@@ -0,0 +1,76 @@
+/**
+ * Accreditation Expiry Sweeper
+ *
+ * Periodically runs AccreditationRenewalService.sweep so lapsed Data
+ * Recipient accreditations are expired and renewal reminders go out
+ * 60, 30 and 7 days before expiry, and enforces the due dates of
+ * remediation conditions on conditional accreditations.
+ */
+
+import { AccreditationRenewalService } from '../services/accreditation-renewal-service';
+import { AccreditationConditionService } from '../services/accreditation-condition-service';
+import { logger } from './logger';
+
+// Interval for running the sweep (1 hour)
+const SWEEP_INTERVAL = 60 * 60 * 1000;
+
+// Delay before the first sweep after server startup (1 minute)
+const INITIAL_SWEEP_DELAY = 60 * 1000;
+
+let sweepInterval: NodeJS.Timeout | null = null;
+let initialSweepTimeout: NodeJS.Timeout | null = null;
+let sweepInProgress = false;
+
+/**
+ * Run one sweep, skipping it if the previous one is still running
+ */
+async function runSweep(): Promise<void> {
+  if (sweepInProgress) {
+    return;
+  }
+
+  sweepInProgress = true;
+  try {
+    await AccreditationRenewalService.sweep();
+
+    const missed = await AccreditationConditionService.enforceDueDates();
+    if (missed > 0) {
+      console.log('[AccreditationExpirySweeper] Remediation conditions missed', { missed });
+    }
+  } catch (error) {
+    console.error('[AccreditationExpirySweeper] Error running sweep:', error);
+  } finally {
+    sweepInProgress = false;
+  }
+}
+
+/**
+ * Start the accreditation expiry sweeper
+ */
+export function startAccreditationExpirySweeper(): void {
+  // Stop any existing timers
+  stopAccreditationExpirySweeper();
+
+  logger.child({ module: 'AccreditationExpirySweeper' }).info('Accreditation expiry sweeper started', {
+    intervalMs: SWEEP_INTERVAL,
+    status: 'active'
+  });
+
+  sweepInterval = setInterval(runSweep, SWEEP_INTERVAL);
+  initialSweepTimeout = setTimeout(runSweep, INITIAL_SWEEP_DELAY);
+}
+
+/**
+ * Stop the accreditation expiry sweeper
+ */
+export function stopAccreditationExpirySweeper(): void {
+  if (sweepInterval) {
+    clearInterval(sweepInterval);
+    sweepInterval = null;
+  }
+
+  if (initialSweepTimeout) {
+    clearTimeout(initialSweepTimeout);
+    initialSweepTimeout = null;
+  }
+}
@@ -9,8 +9,7 @@ import { tasks, companies } from '@db/schema';
 import { db } from '@db';
 import { eq } from 'drizzle-orm';
 import { FileCreationService } from '../services/file-creation';
-import { broadcastCompanyTabsUpdate } from '../services/company-tabs';
-import { unlockFileVaultAccess } from '../services/synchronous-task-dependencies';
+import { synchronizeTasks } from '../services/synchronous-task-dependencies';
 import { broadcastMessage } from '../services/websocket';
 import { broadcastTaskUpdate } from '../utils/task-broadcast';
 import { logger } from '../utils/logger';
@@ -215,34 +214,11 @@ export async function standardFormSubmission(options: FormSubmissionOptions) {
       })
       .where(eq(tasks.id, taskId));
 
-    // 5. Unlock file vault and other tabs
-    try {
-      logger.info(`Unlocking file vault for company ${companyId}`);
-      const success = await unlockFileVaultAccess(companyId);
-      
-      if (success) {
-        logger.info(`Successfully unlocked file vault for company ${companyId}`);
-        
-        // 6. Broadcast WebSocket update with cache invalidation
-        const [company] = await db.select()
-          .from(companies)
-          .where(eq(companies.id, companyId))
-          .limit(1);
-        
-        if (company) {
-          // Broadcasting update with cache invalidation
-          await broadcastCompanyTabsUpdate(companyId);
-        }
-      }
-    } catch (fileVaultError) {
-      // Log error but don't fail the submission
-      logger.error(`Error unlocking file vault:`, {
-        error: fileVaultError instanceof Error ? fileVaultError.message : 'Unknown error',
-        companyId
-      });
-    }
+    // 5. Apply the company's onboarding sequence, which unlocks the tasks and
+    // tabs that follow this form and broadcasts them
+    await synchronizeTasks(companyId, taskId);
 
-    // 7. Broadcast task update
+    // 6. Broadcast task update
     broadcastTaskUpdate({
       id: taskId,
       status: TaskStatus.SUBMITTED,
@@ -253,7 +229,7 @@ export async function standardFormSubmission(options: FormSubmissionOptions) {
       }
     });
 
-    // 8. Return standardized response
+    // 7. Return standardized response
     return {
       success: true,
       fileId: fileCreationResult.fileId,
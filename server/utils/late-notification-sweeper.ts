@@ -0,0 +1,73 @@
+/**
+ * Late Notification Sweeper
+ *
+ * Periodically re-applies the late breach notification deduction to data
+ * recipients' risk scores, so breaches that pass their reporting deadline
+ * unreported, or age out of the deduction window, are reflected without
+ * waiting for a claim or assessment to change.
+ */
+
+import { refreshLateNotificationDeductions } from '../services/riskClusters';
+import { logger } from './logger';
+
+// Interval for running the sweep (1 hour)
+const SWEEP_INTERVAL = 60 * 60 * 1000;
+
+// Delay before the first sweep after server startup (3 minutes)
+const INITIAL_SWEEP_DELAY = 3 * 60 * 1000;
+
+let sweepInterval: NodeJS.Timeout | null = null;
+let initialSweepTimeout: NodeJS.Timeout | null = null;
+let sweepInProgress = false;
+
+/**
+ * Run one sweep, skipping it if the previous one is still running
+ */
+async function runSweep(): Promise<void> {
+  if (sweepInProgress) {
+    return;
+  }
+
+  sweepInProgress = true;
+  try {
+    const changed = await refreshLateNotificationDeductions();
+    if (changed > 0) {
+      console.log('[LateNotificationSweeper] Late notification deductions refreshed', { changed });
+    }
+  } catch (error) {
+    console.error('[LateNotificationSweeper] Error running sweep:', error);
+  } finally {
+    sweepInProgress = false;
+  }
+}
+
+/**
+ * Start the late notification sweeper
+ */
+export function startLateNotificationSweeper(): void {
+  // Stop any existing timers
+  stopLateNotificationSweeper();
+
+  logger.child({ module: 'LateNotificationSweeper' }).info('Late notification sweeper started', {
+    intervalMs: SWEEP_INTERVAL,
+    status: 'active'
+  });
+
+  sweepInterval = setInterval(runSweep, SWEEP_INTERVAL);
+  initialSweepTimeout = setTimeout(runSweep, INITIAL_SWEEP_DELAY);
+}
+
+/**
+ * Stop the late notification sweeper
+ */
+export function stopLateNotificationSweeper(): void {
+  if (sweepInterval) {
+    clearInterval(sweepInterval);
+    sweepInterval = null;
+  }
+
+  if (initialSweepTimeout) {
+    clearTimeout(initialSweepTimeout);
+    initialSweepTimeout = null;
+  }
+}
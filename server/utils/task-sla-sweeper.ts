@@ -0,0 +1,69 @@
+/**
+ * Task SLA Sweeper
+ *
+ * Periodically runs TaskSlaService.sweep so assignees are reminded of
+ * approaching task due dates and overdue tasks are escalated to the bank
+ * that created them.
+ */
+
+import { TaskSlaService } from '../services/task-sla-service';
+import { logger } from './logger';
+
+// Interval for running the sweep (1 hour)
+const SWEEP_INTERVAL = 60 * 60 * 1000;
+
+// Delay before the first sweep after server startup (2 minutes)
+const INITIAL_SWEEP_DELAY = 2 * 60 * 1000;
+
+let sweepInterval: NodeJS.Timeout | null = null;
+let initialSweepTimeout: NodeJS.Timeout | null = null;
+let sweepInProgress = false;
+
+/**
+ * Run one sweep, skipping it if the previous one is still running
+ */
+async function runSweep(): Promise<void> {
+  if (sweepInProgress) {
+    return;
+  }
+
+  sweepInProgress = true;
+  try {
+    await TaskSlaService.sweep();
+  } catch (error) {
+    console.error('[TaskSlaSweeper] Error running sweep:', error);
+  } finally {
+    sweepInProgress = false;
+  }
+}
+
+/**
+ * Start the task SLA sweeper
+ */
+export function startTaskSlaSweeper(): void {
+  // Stop any existing timers
+  stopTaskSlaSweeper();
+
+  logger.child({ module: 'TaskSlaSweeper' }).info('Task SLA sweeper started', {
+    intervalMs: SWEEP_INTERVAL,
+    status: 'active'
+  });
+
+  sweepInterval = setInterval(runSweep, SWEEP_INTERVAL);
+  initialSweepTimeout = setTimeout(runSweep, INITIAL_SWEEP_DELAY);
+}
+
+/**
+ * Stop the task SLA sweeper
+ */
+export function stopTaskSlaSweeper(): void {
+  if (sweepInterval) {
+    clearInterval(sweepInterval);
+    sweepInterval = null;
+  }
+
+  if (initialSweepTimeout) {
+    clearTimeout(initialSweepTimeout);
+    initialSweepTimeout = null;
+  }
+}
@@ -46,7 +46,9 @@ type InternalMessageType =
   | 'form_submission_completed'
   | 'tabs_updated'
   | 'notification'
-  | 'tutorial_updated';
+  | 'tutorial_updated'
+  | 'accreditation_updated'
+  | 'claim_updated';
 
 // Union type that includes all possible message types
 type MessageType = InternalMessageType | AppMessageType;
@@ -137,6 +139,28 @@ interface TutorialUpdateMessage extends WebSocketMessage {
   metadata?: Record<string, any>;
 }
 
+// Accreditation status change message
+interface AccreditationUpdatedMessage extends WebSocketMessage {
+  type: 'accreditation_updated';
+  companyId: number;
+  accreditationId: number;
+  action: string;
+  status: string;
+  accreditationStatus: string;
+  reasonCode: string;
+}
+
+// Claim status change message
+interface ClaimUpdatedMessage extends WebSocketMessage {
+  type: 'claim_updated';
+  claimId: number;
+  claimNumber: string;
+  fromStatus: string | null;
+  status: string;
+  companyId: number;
+  fintechCompanyId: number | null;
+}
+
 // Union type of all message types
 type WebSocketPayload = 
   | AuthMessage
@@ -147,7 +171,9 @@ type WebSocketPayload =
   | FormSubmissionCompletedMessage
   | TabsUpdatedMessage
   | NotificationMessage
-  | TutorialUpdateMessage;
+  | TutorialUpdateMessage
+  | AccreditationUpdatedMessage
+  | ClaimUpdatedMessage;
 
 /**
  * Initialize the WebSocket server
@@ -432,9 +458,13 @@ export function broadcastTabsUpdated(payload: Omit<TabsUpdatedMessage, 'type' |
  * Broadcast a notification message
  * 
  * @param payload Notification payload
+ * @param filter Optional filter function to determine which clients receive the message
  */
-export function broadcastNotification(payload: Omit<NotificationMessage, 'type' | 'timestamp'>): void {
-  broadcast<NotificationMessage>('notification', payload);
+export function broadcastNotification(
+  payload: Omit<NotificationMessage, 'type' | 'timestamp'>,
+  filter?: (client: ConnectedClient) => boolean
+): void {
+  broadcast<NotificationMessage>('notification', payload, filter);
 }
 
 /**
@@ -448,4 +478,30 @@ export function broadcastTutorialUpdate(
   filter?: (client: ConnectedClient) => boolean
 ): void {
   broadcast<TutorialUpdateMessage>('tutorial_updated', payload, filter);
-}
\ No newline at end of file
+}
+
+/**
+ * Broadcast an accreditation status change
+ * 
+ * @param payload Accreditation update payload
+ * @param filter Optional filter function to determine which clients receive the message
+ */
+export function broadcastAccreditationUpdate(
+  payload: Omit<AccreditationUpdatedMessage, 'type' | 'timestamp'>,
+  filter?: (client: ConnectedClient) => boolean
+): void {
+  broadcast<AccreditationUpdatedMessage>('accreditation_updated', payload, filter);
+}
+
+/**
+ * Broadcast a claim status change
+ * 
+ * @param payload Claim update payload
+ * @param filter Optional filter function to determine which clients receive the message
+ */
+export function broadcastClaimUpdate(
+  payload: Omit<ClaimUpdatedMessage, 'type' | 'timestamp'>,
+  filter?: (client: ConnectedClient) => boolean
+): void {
+  broadcast<ClaimUpdatedMessage>('claim_updated', payload, filter);
+}